@@ -0,0 +1,58 @@
+import { build } from "esbuild";
+import { performance } from "node:perf_hooks";
+
+const ENTRY = "src/services/embeddings/search/AnnBenchmark.ts";
+
+function readNumberFlag(argv, name, fallback) {
+  const index = argv.indexOf(`--${name}`);
+  if (index === -1) return fallback;
+  const value = Number(argv[index + 1]);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`--${name} must be a positive number`);
+  }
+  return Math.floor(value);
+}
+
+async function loadBenchmark() {
+  const result = await build({
+    entryPoints: [ENTRY],
+    bundle: true,
+    format: "esm",
+    platform: "node",
+    write: false,
+    logLevel: "silent",
+  });
+  const source = result.outputFiles[0].text;
+  return import(`data:text/javascript;base64,${Buffer.from(source).toString("base64")}`);
+}
+
+function formatMs(value) {
+  return `${value.toFixed(2)} ms`;
+}
+
+async function main(argv = process.argv.slice(2)) {
+  const options = {
+    vectors: readNumberFlag(argv, "vectors", 10_000),
+    dimensions: readNumberFlag(argv, "dimensions", 384),
+    queries: readNumberFlag(argv, "queries", 100),
+    k: readNumberFlag(argv, "k", 20),
+    now: () => performance.now(),
+  };
+  const { runAnnBenchmark } = await loadBenchmark();
+  const report = runAnnBenchmark(options);
+
+  if (argv.includes("--json")) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  console.log(`Corpus: ${report.vectors} vectors x ${report.dimensions} dims, ${report.queries} queries, k=${report.k}`);
+  console.log(`HNSW build: ${formatMs(report.buildMs)}`);
+  console.log(`Exact scan: p50 ${formatMs(report.exact.p50Ms)}, p95 ${formatMs(report.exact.p95Ms)}`);
+  console.log(`HNSW:       p50 ${formatMs(report.ann.p50Ms)}, p95 ${formatMs(report.ann.p95Ms)}`);
+  console.log(`Recall@${report.k}: ${(report.recallAtK * 100).toFixed(1)}%`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
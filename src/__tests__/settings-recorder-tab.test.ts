@@ -155,6 +155,7 @@ describe("Recorder settings tab", () => {
       "Audio output",
       "Transcript output",
       "Chat dictation",
+      "Workflows",
     ]);
 
     const names = [...container.querySelectorAll(".setting-item-name")].map((element) => element.textContent?.trim());
@@ -168,6 +169,9 @@ describe("Recorder settings tab", () => {
       "Clean up transcript",
       "Insert transcript at origin",
       "Send after dictation",
+      "Run workflows",
+      "Workflow folder",
+      "Skipped files",
     ]));
     expect(names).not.toContain("Cleanup instructions");
     expect(names).not.toContain("Automatic audio format conversion");
@@ -8,6 +8,8 @@ const DIRECTORY_SETTING_KEYS = [
   "recordingsDirectory",
   "attachmentsDirectory",
   "extractionsDirectory",
+  "promptTemplatesDirectory",
+  "agentPersonasDirectory",
 ] as const satisfies readonly (keyof SystemSculptSettings)[];
 
 type DirectorySettingKey = (typeof DIRECTORY_SETTING_KEYS)[number];
@@ -0,0 +1,317 @@
+import { TFile, normalizePath, type App, type WorkspaceLeaf } from "obsidian";
+import type SystemSculptPlugin from "../../main";
+import { getSurfaceOwnerWindow } from "../ui/surface";
+import { isAudioFileExtension, normalizeFileExtension } from "../../constants/fileTypes";
+import { STUDIO_PROJECT_EXTENSION, type StudioJsonValue, type StudioRunEvent } from "../../studio/types";
+import type { SearchResult } from "../../services/embeddings/types";
+
+type AgentChatViewModule = typeof import("../../views/chatview/AgentChatView");
+
+function loadAgentChatViewModule(): AgentChatViewModule {
+  return require("../../views/chatview/AgentChatView");
+}
+
+/**
+ * Bumped only when an existing member of the public API changes shape or
+ * meaning. Additions keep the version.
+ */
+export const SYSTEMSCULPT_API_VERSION = 1;
+
+export type SystemSculptApiCapability =
+  | "semanticSearch"
+  | "similarNotes"
+  | "transcription"
+  | "studioRuns"
+  | "chat";
+
+export type SystemSculptApiErrorCode =
+  | "capability_unavailable"
+  | "invalid_argument"
+  | "not_found"
+  | "unsupported_file"
+  | "operation_failed";
+
+export class SystemSculptApiError extends Error {
+  constructor(
+    public readonly code: SystemSculptApiErrorCode,
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "SystemSculptApiError";
+  }
+}
+
+export type SystemSculptApiNoteMatch = {
+  path: string;
+  title: string;
+  excerpt: string;
+  score: number;
+};
+
+export type SystemSculptApiSearchOptions = {
+  limit?: number;
+  signal?: AbortSignal;
+};
+
+export type SystemSculptApiTranscribeOptions = {
+  language?: string;
+  timestamped?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progress: number, status: string) => void;
+};
+
+export type SystemSculptApiStudioRunEvent = {
+  type: StudioRunEvent["type"];
+  runId: string;
+  at: string;
+  nodeId?: string;
+  status?: "success" | "failed" | "cancelled";
+  error?: string;
+  outputs?: Record<string, unknown>;
+};
+
+export type SystemSculptApiStudioRunOptions = {
+  /** Values for the project's input nodes, keyed like the project's ports when it runs as a node. */
+  inputs?: Record<string, unknown>;
+  onEvent?: (event: SystemSculptApiStudioRunEvent) => void;
+};
+
+export type SystemSculptApiStudioRun = {
+  runId: string;
+  status: string;
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+};
+
+export type SystemSculptApiOpenChatOptions = {
+  files?: string[];
+  prompt?: string;
+};
+
+/**
+ * The documented surface scripts reach through `plugin.api`. Everything else
+ * on the plugin instance is internal and changes between releases.
+ */
+export interface SystemSculptApi {
+  readonly version: number;
+  readonly pluginVersion: string;
+  hasCapability(capability: SystemSculptApiCapability): boolean;
+  search(query: string, options?: SystemSculptApiSearchOptions): Promise<SystemSculptApiNoteMatch[]>;
+  findSimilar(path: string, options?: SystemSculptApiSearchOptions): Promise<SystemSculptApiNoteMatch[]>;
+  transcribe(path: string, options?: SystemSculptApiTranscribeOptions): Promise<string>;
+  runStudioProject(path: string, options?: SystemSculptApiStudioRunOptions): Promise<SystemSculptApiStudioRun>;
+  openChat(options?: SystemSculptApiOpenChatOptions): Promise<void>;
+}
+
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 100;
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toNoteMatch(result: SearchResult): SystemSculptApiNoteMatch {
+  return {
+    path: result.path,
+    title: result.metadata?.title || result.path.split("/").pop()?.replace(/\.md$/i, "") || result.path,
+    excerpt: result.metadata?.excerpt || "",
+    score: result.score,
+  };
+}
+
+function toStudioRunEvent(event: StudioRunEvent): SystemSculptApiStudioRunEvent {
+  return {
+    type: event.type,
+    runId: event.runId,
+    at: event.at,
+    ...("nodeId" in event ? { nodeId: event.nodeId } : {}),
+    ...(event.type === "run.completed" ? { status: event.status } : {}),
+    ...("error" in event ? { error: event.error } : {}),
+    ...(event.type === "node.output" && event.outputs ? { outputs: { ...event.outputs } } : {}),
+  };
+}
+
+/**
+ * Backs `plugin.api`. Each method checks its capability and arguments up
+ * front and reports every failure as a SystemSculptApiError, so scripts can
+ * branch on `code` instead of parsing messages.
+ */
+export class PublicApi implements SystemSculptApi {
+  readonly version = SYSTEMSCULPT_API_VERSION;
+
+  constructor(private readonly plugin: SystemSculptPlugin, private readonly app: App) {}
+
+  get pluginVersion(): string {
+    return this.plugin.manifest.version;
+  }
+
+  hasCapability(capability: SystemSculptApiCapability): boolean {
+    switch (capability) {
+      case "semanticSearch":
+      case "similarNotes":
+        return this.plugin.settings.embeddingsEnabled === true;
+      case "transcription":
+        return String(this.plugin.settings.licenseKey || "").trim().length > 0;
+      case "studioRuns":
+      case "chat":
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  async search(query: string, options?: SystemSculptApiSearchOptions): Promise<SystemSculptApiNoteMatch[]> {
+    this.requireCapability("semanticSearch", "Semantic search needs Similar notes turned on in Settings → Knowledge.");
+    const prepared = this.requireText(query, "query");
+    const results = await this.wrap("Semantic search", () =>
+      this.plugin.getOrCreateEmbeddingsManager().searchSimilar(prepared, this.readLimit(options), options?.signal)
+    );
+    return results.map(toNoteMatch);
+  }
+
+  async findSimilar(path: string, options?: SystemSculptApiSearchOptions): Promise<SystemSculptApiNoteMatch[]> {
+    this.requireCapability("similarNotes", "Similar notes are turned off in Settings → Knowledge.");
+    const file = this.requireFile(path);
+    const results = await this.wrap("Similar note lookup", () =>
+      this.plugin.getOrCreateEmbeddingsManager().findSimilar(file.path, this.readLimit(options), options?.signal)
+    );
+    return results.map(toNoteMatch);
+  }
+
+  async transcribe(path: string, options?: SystemSculptApiTranscribeOptions): Promise<string> {
+    this.requireCapability("transcription", "Transcription needs a SystemSculpt license key.");
+    const file = this.requireFile(path);
+    if (!isAudioFileExtension(normalizeFileExtension(file.extension))) {
+      throw new SystemSculptApiError("unsupported_file", `${file.path} is not an audio file SystemSculpt can transcribe.`);
+    }
+    return this.wrap("Transcription", () =>
+      this.plugin.getTranscriptionService().transcribeFile<string>(
+        file,
+        {
+          type: "note",
+          callerScope: "public-api/transcribe",
+          language: options?.language,
+          timestamped: options?.timestamped === true,
+          onProgress: options?.onProgress,
+          signal: options?.signal,
+        },
+        // Scripts own the output, so the text comes back without a note write.
+        async (text) => text
+      )
+    );
+  }
+
+  async runStudioProject(
+    path: string,
+    options?: SystemSculptApiStudioRunOptions
+  ): Promise<SystemSculptApiStudioRun> {
+    this.requireCapability("studioRuns", "Studio runs are unavailable.");
+    const file = this.requireFile(path);
+    if (!file.path.toLowerCase().endsWith(STUDIO_PROJECT_EXTENSION)) {
+      throw new SystemSculptApiError("unsupported_file", `${file.path} is not a Studio project.`);
+    }
+    const inputs = options?.inputs;
+    if (inputs !== undefined && (!inputs || typeof inputs !== "object" || Array.isArray(inputs))) {
+      throw new SystemSculptApiError("invalid_argument", "inputs must be an object of input values.");
+    }
+    const onEvent = options?.onEvent;
+    const summary = await this.wrap("Studio run", () =>
+      this.plugin.getStudioService().runProject(file.path, {
+        inputValues: inputs as Record<string, StudioJsonValue> | undefined,
+        onEvent: onEvent
+          ? (event) => {
+              // A throwing script callback must not fail the run it observes.
+              try {
+                onEvent(toStudioRunEvent(event));
+              } catch {
+                return;
+              }
+            }
+          : undefined,
+      })
+    );
+    return {
+      runId: summary.runId,
+      status: summary.status,
+      startedAt: summary.startedAt,
+      finishedAt: summary.finishedAt,
+      error: summary.error,
+    };
+  }
+
+  async openChat(options?: SystemSculptApiOpenChatOptions): Promise<void> {
+    this.requireCapability("chat", "Chat is unavailable.");
+    if (options?.files !== undefined && !Array.isArray(options.files)) {
+      throw new SystemSculptApiError("invalid_argument", "files must be an array of vault paths.");
+    }
+    if (options?.prompt !== undefined && typeof options.prompt !== "string") {
+      throw new SystemSculptApiError("invalid_argument", "prompt must be a string.");
+    }
+    // Resolve every file before opening anything, so a bad path leaves no empty chat behind.
+    const files = (options?.files ?? []).map((path) => this.requireFile(path));
+
+    await this.wrap("Opening chat", async () => {
+      const leaf: WorkspaceLeaf = this.app.workspace.getLeaf("tab");
+      const { AgentChatView } = loadAgentChatViewModule();
+      const view = new AgentChatView(leaf, this.plugin);
+      await leaf.open(view);
+      await new Promise((resolve) => getSurfaceOwnerWindow(view.containerEl).setTimeout(resolve, 50));
+      this.app.workspace.setActiveLeaf(leaf, { focus: true });
+      for (const file of files) {
+        await view.pinFile(file);
+      }
+      if (options?.prompt) {
+        view.setInputText(options.prompt, { focus: true });
+      } else {
+        view.focusInput();
+      }
+    });
+  }
+
+  private requireCapability(capability: SystemSculptApiCapability, message: string): void {
+    if (!this.hasCapability(capability)) {
+      throw new SystemSculptApiError("capability_unavailable", message);
+    }
+  }
+
+  private requireText(value: unknown, name: string): string {
+    const text = typeof value === "string" ? value.trim() : "";
+    if (!text) {
+      throw new SystemSculptApiError("invalid_argument", `${name} must be a non-empty string.`);
+    }
+    return text;
+  }
+
+  private requireFile(path: unknown): TFile {
+    const normalized = normalizePath(this.requireText(path, "path"));
+    const file = this.app.vault.getAbstractFileByPath(normalized);
+    if (!(file instanceof TFile)) {
+      throw new SystemSculptApiError("not_found", `No file at ${normalized}.`);
+    }
+    return file;
+  }
+
+  private readLimit(options?: SystemSculptApiSearchOptions): number {
+    const limit = options?.limit;
+    if (limit === undefined) {
+      return DEFAULT_SEARCH_LIMIT;
+    }
+    if (typeof limit !== "number" || !Number.isFinite(limit) || limit < 1) {
+      throw new SystemSculptApiError("invalid_argument", "limit must be a positive number.");
+    }
+    return Math.min(Math.floor(limit), MAX_SEARCH_LIMIT);
+  }
+
+  private async wrap<T>(label: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof SystemSculptApiError) {
+        throw error;
+      }
+      throw new SystemSculptApiError("operation_failed", `${label} failed: ${describeError(error)}`, error);
+    }
+  }
+}
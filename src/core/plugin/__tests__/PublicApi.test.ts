@@ -0,0 +1,147 @@
+/** @jest-environment jsdom */
+
+const mockChatViews: Array<{
+  containerEl: HTMLElement;
+  pinFile: jest.Mock;
+  setInputText: jest.Mock;
+  focusInput: jest.Mock;
+}> = [];
+
+jest.mock("../../../views/chatview/AgentChatView", () => ({
+  AgentChatView: jest.fn().mockImplementation(() => {
+    const view = {
+      containerEl: document.createElement("div"),
+      pinFile: jest.fn().mockResolvedValue(undefined),
+      setInputText: jest.fn(),
+      focusInput: jest.fn(),
+    };
+    mockChatViews.push(view);
+    return view;
+  }),
+}));
+
+import { App, TFile } from "obsidian";
+import { PublicApi, SystemSculptApiError, SYSTEMSCULPT_API_VERSION } from "../PublicApi";
+
+function createHarness(options: { embeddingsEnabled?: boolean; licenseKey?: string; files?: string[] } = {}) {
+  const app = new App();
+  const files = new Map((options.files ?? []).map((path) => [path, new TFile({ path })]));
+  (app.vault.getAbstractFileByPath as jest.Mock).mockImplementation((path: string) => files.get(path) ?? null);
+  const leaf = { open: jest.fn().mockResolvedValue(undefined) };
+  (app.workspace as any).getLeaf = jest.fn(() => leaf);
+  (app.workspace as any).setActiveLeaf = jest.fn();
+
+  const embeddings = {
+    searchSimilar: jest.fn().mockResolvedValue([
+      { path: "Notes/Atlas.md", score: 0.91, metadata: { title: "Atlas", excerpt: "Atlas launch plan", lastModified: 0 } },
+    ]),
+    findSimilar: jest.fn().mockResolvedValue([]),
+  };
+  const transcribeFile = jest.fn(async (_file, _context, commit: (text: string, id: string) => Promise<string>) =>
+    commit("hello from the recording", "op-1")
+  );
+  const runProject = jest.fn();
+  const plugin = {
+    manifest: { version: "6.3.1" },
+    settings: { embeddingsEnabled: options.embeddingsEnabled ?? true, licenseKey: options.licenseKey ?? "" },
+    getOrCreateEmbeddingsManager: jest.fn(() => embeddings),
+    getTranscriptionService: jest.fn(() => ({ transcribeFile })),
+    getStudioService: jest.fn(() => ({ runProject })),
+  } as any;
+
+  return { api: new PublicApi(plugin, app), app, embeddings, transcribeFile, runProject, leaf };
+}
+
+describe("PublicApi", () => {
+  beforeEach(() => {
+    mockChatViews.length = 0;
+  });
+
+  it("reports its version and capabilities from settings", () => {
+    const { api } = createHarness({ embeddingsEnabled: false, licenseKey: "" });
+
+    expect(api.version).toBe(SYSTEMSCULPT_API_VERSION);
+    expect(api.pluginVersion).toBe("6.3.1");
+    expect(api.hasCapability("semanticSearch")).toBe(false);
+    expect(api.hasCapability("similarNotes")).toBe(false);
+    expect(api.hasCapability("transcription")).toBe(false);
+    expect(api.hasCapability("studioRuns")).toBe(true);
+    expect(api.hasCapability("chat")).toBe(true);
+  });
+
+  it("rejects unavailable capabilities and bad arguments with typed errors", async () => {
+    const disabled = createHarness({ embeddingsEnabled: false });
+    await expect(disabled.api.search("atlas")).rejects.toMatchObject({
+      name: "SystemSculptApiError",
+      code: "capability_unavailable",
+    });
+    expect(disabled.embeddings.searchSimilar).not.toHaveBeenCalled();
+
+    const { api } = createHarness({ licenseKey: "key", files: ["Notes/Atlas.md"] });
+    await expect(api.search("   ")).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(api.search("atlas", { limit: 0 })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(api.findSimilar("Notes/Missing.md")).rejects.toMatchObject({ code: "not_found" });
+    await expect(api.transcribe("Notes/Atlas.md")).rejects.toMatchObject({ code: "unsupported_file" });
+    await expect(api.runStudioProject("Notes/Atlas.md")).rejects.toBeInstanceOf(SystemSculptApiError);
+  });
+
+  it("maps semantic search results and wraps service failures", async () => {
+    const { api, embeddings } = createHarness();
+
+    await expect(api.search(" atlas ", { limit: 3 })).resolves.toEqual([
+      { path: "Notes/Atlas.md", title: "Atlas", excerpt: "Atlas launch plan", score: 0.91 },
+    ]);
+    expect(embeddings.searchSimilar).toHaveBeenCalledWith("atlas", 3, undefined);
+
+    embeddings.searchSimilar.mockRejectedValueOnce(new Error("index offline"));
+    const failure = await api.search("atlas").catch((error: unknown) => error);
+    expect(failure).toBeInstanceOf(SystemSculptApiError);
+    expect(failure).toMatchObject({ code: "operation_failed", message: "Semantic search failed: index offline" });
+  });
+
+  it("returns the transcript of a vault audio file without writing a note", async () => {
+    const { api, transcribeFile } = createHarness({ licenseKey: "key", files: ["Audio/standup.m4a"] });
+
+    await expect(api.transcribe("Audio/standup.m4a", { timestamped: true })).resolves.toBe("hello from the recording");
+    expect(transcribeFile.mock.calls[0][0].path).toBe("Audio/standup.m4a");
+    expect(transcribeFile.mock.calls[0][1]).toMatchObject({ callerScope: "public-api/transcribe", timestamped: true });
+  });
+
+  it("runs a Studio project and forwards events without letting callbacks fail the run", async () => {
+    const { api, runProject } = createHarness({ files: ["Studio/Digest.systemsculpt"] });
+    runProject.mockImplementation(async (_path: string, options: { onEvent: (event: unknown) => void }) => {
+      options.onEvent({ type: "node.output", runId: "run-1", nodeId: "n1", outputRef: "ref", outputs: { text: "hi" }, at: "t1" });
+      options.onEvent({ type: "run.completed", runId: "run-1", status: "success", at: "t2" });
+      return { runId: "run-1", status: "success", startedAt: "t0", finishedAt: "t2", error: null, executedNodeIds: ["n1"] };
+    });
+    const events: unknown[] = [];
+
+    const run = await api.runStudioProject("Studio/Digest.systemsculpt", {
+      onEvent: (event) => {
+        events.push(event);
+        throw new Error("script bug");
+      },
+    });
+
+    expect(run).toEqual({ runId: "run-1", status: "success", startedAt: "t0", finishedAt: "t2", error: null });
+    expect(events).toEqual([
+      { type: "node.output", runId: "run-1", nodeId: "n1", outputs: { text: "hi" }, at: "t1" },
+      { type: "run.completed", runId: "run-1", status: "success", at: "t2" },
+    ]);
+  });
+
+  it("opens a chat with pinned files and a prefilled prompt", async () => {
+    const { api, app, leaf } = createHarness({ files: ["Notes/Atlas.md", "Notes/Budget.md"] });
+
+    await expect(api.openChat({ files: ["Notes/Atlas.md", "Notes/Gone.md"] })).rejects.toMatchObject({ code: "not_found" });
+    expect(leaf.open).not.toHaveBeenCalled();
+
+    await api.openChat({ files: ["Notes/Atlas.md", "Notes/Budget.md"], prompt: "Compare these." });
+
+    const view = mockChatViews[0];
+    expect(leaf.open).toHaveBeenCalledWith(view);
+    expect((app.workspace as any).setActiveLeaf).toHaveBeenCalledWith(leaf, { focus: true });
+    expect(view.pinFile.mock.calls.map(([file]) => file.path)).toEqual(["Notes/Atlas.md", "Notes/Budget.md"]);
+    expect(view.setInputText).toHaveBeenCalledWith("Compare these.", { focus: true });
+  });
+});
@@ -0,0 +1,189 @@
+/** @jest-environment jsdom */
+
+import { App, Component, Notice, TFile } from "obsidian";
+
+jest.mock("obsidian", () => {
+  const actual = jest.requireActual("obsidian");
+  return { ...actual, Notice: jest.fn() };
+});
+
+const mockLaunchAudioTranscriptionPanel = jest.fn();
+jest.mock("../../../modals/AudioTranscriptionPanel", () => ({
+  launchAudioTranscriptionPanel: (...args: unknown[]) => mockLaunchAudioTranscriptionPanel(...args),
+}));
+
+const mockConfirmOpen = jest.fn();
+const mockConfirmOptions: unknown[] = [];
+jest.mock("../../../modals/ProtocolActionConfirmModal", () => ({
+  ProtocolActionConfirmModal: jest.fn().mockImplementation((_app: unknown, options: unknown) => {
+    mockConfirmOptions.push(options);
+    return { open: mockConfirmOpen };
+  }),
+}));
+
+const mockProcessYouTube = jest.fn();
+jest.mock("../../../features/audio-processor", () => ({
+  canOpenAudioProcessor: jest.fn().mockResolvedValue(true),
+  AudioProcessorService: jest.fn().mockImplementation(() => ({ process: mockProcessYouTube })),
+}));
+
+const mockPanelSucceed = jest.fn();
+jest.mock("../../../features/audio-processor/AudioProcessorPanel", () => ({
+  AudioProcessorPanel: jest.fn().mockImplementation(() => ({
+    update: jest.fn(),
+    succeed: mockPanelSucceed,
+    fail: jest.fn(),
+  })),
+}));
+
+import { ProtocolManager, SYSTEMSCULPT_PROTOCOL_ACTION } from "../protocol";
+import { SystemSculptApiError } from "../PublicApi";
+
+const mockedNotice = Notice as unknown as jest.Mock;
+
+function createHarness(files: string[] = []) {
+  const app = new App();
+  const byPath = new Map(files.map((path) => [path, new TFile({ path })]));
+  (app.vault.getAbstractFileByPath as jest.Mock).mockImplementation((path: string) => byPath.get(path) ?? null);
+  const api = {
+    openChat: jest.fn().mockResolvedValue(undefined),
+    runStudioProject: jest.fn(),
+  };
+  const logger = { error: jest.fn() };
+  const plugin = Object.assign(new Component(), {
+    api,
+    registerObsidianProtocolHandler: jest.fn(),
+    getLogger: jest.fn(() => logger),
+  }) as any;
+  return { manager: new ProtocolManager(plugin, app), plugin, api, logger };
+}
+
+describe("ProtocolManager", () => {
+  beforeEach(() => {
+    mockedNotice.mockClear();
+    mockLaunchAudioTranscriptionPanel.mockClear();
+    mockConfirmOpen.mockReset().mockResolvedValue(true);
+    mockConfirmOptions.length = 0;
+  });
+
+  it("registers the systemsculpt protocol action", () => {
+    const { manager, plugin } = createHarness();
+
+    manager.register();
+
+    expect(plugin.registerObsidianProtocolHandler).toHaveBeenCalledWith(SYSTEMSCULPT_PROTOCOL_ACTION, expect.any(Function));
+  });
+
+  it("opens a chat with pinned files and a prompt", async () => {
+    const { manager, api } = createHarness();
+
+    await manager.handle({ action: "chat", prompt: " Plan my week ", files: "Inbox/a.md, Inbox/b.md", file: "Daily/today.md" });
+
+    expect(api.openChat).toHaveBeenCalledWith({
+      files: ["Daily/today.md", "Inbox/a.md", "Inbox/b.md"],
+      prompt: "Plan my week",
+    });
+  });
+
+  it("runs a Studio project with input values and reports the outcome", async () => {
+    const { manager, api } = createHarness();
+    api.runStudioProject.mockResolvedValue({ runId: "run-1", status: "failed", error: "Node n2 failed." });
+
+    await manager.handle({ action: "studio", path: "Studio/Digest.systemsculpt", "input.topic": "Atlas", "input.": "ignored" });
+
+    expect(mockConfirmOptions[0]).toMatchObject({
+      details: [
+        { label: "Project", value: "Studio/Digest.systemsculpt" },
+        { label: "Input topic", value: "Atlas" },
+      ],
+    });
+    expect(api.runStudioProject).toHaveBeenCalledWith("Studio/Digest.systemsculpt", { inputs: { topic: "Atlas" } });
+    expect(mockedNotice.mock.calls.map(([message]) => message)).toEqual([
+      "Running Digest…",
+      "Digest failed: Node n2 failed.",
+    ]);
+  });
+
+  it("does nothing when the link's run or transcription is not confirmed", async () => {
+    const { manager, api } = createHarness(["Audio/standup.m4a"]);
+    mockConfirmOpen.mockResolvedValue(false);
+
+    await manager.handle({ action: "studio", path: "Studio/Digest.systemsculpt", "input.topic": "Atlas" });
+    await manager.handle({ action: "transcribe", path: "Audio/standup.m4a" });
+
+    expect(mockConfirmOpen).toHaveBeenCalledTimes(2);
+    expect(api.runStudioProject).not.toHaveBeenCalled();
+    expect(mockLaunchAudioTranscriptionPanel).not.toHaveBeenCalled();
+    expect(mockedNotice).not.toHaveBeenCalled();
+  });
+
+  it("opens a chat without asking for confirmation", async () => {
+    const { manager } = createHarness();
+
+    await manager.handle({ action: "chat", prompt: "Hi" });
+
+    expect(mockConfirmOpen).not.toHaveBeenCalled();
+  });
+
+  it("launches the transcription panel for vault audio files only", async () => {
+    const { manager } = createHarness(["Audio/standup.m4a", "Notes/plan.md"]);
+
+    await manager.handle({ action: "transcribe", path: "Audio/standup.m4a", timestamped: "true" });
+    expect(mockLaunchAudioTranscriptionPanel).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ timestamped: true, targetEditor: null, openOnComplete: true })
+    );
+    expect(mockLaunchAudioTranscriptionPanel.mock.calls[0][1].file.path).toBe("Audio/standup.m4a");
+
+    await manager.handle({ action: "transcribe", path: "Notes/plan.md" });
+    expect(mockLaunchAudioTranscriptionPanel).toHaveBeenCalledTimes(1);
+    expect(mockedNotice).toHaveBeenLastCalledWith("Notes/plan.md is not an audio file SystemSculpt can transcribe.", 8000);
+  });
+
+  it("releases a finished YouTube run and aborts one still running when the plugin unloads", async () => {
+    const { manager, plugin } = createHarness();
+    plugin.load();
+    const addChild = jest.spyOn(plugin, "addChild");
+    const removeChild = jest.spyOn(plugin, "removeChild");
+    const url = "https://www.youtube.com/watch?v=dQw4w9WgXcQ";
+    mockProcessYouTube.mockResolvedValueOnce({ path: "Notes/video.md" });
+
+    await manager.handle({ action: "youtube", url });
+
+    expect(mockPanelSucceed).toHaveBeenCalledWith({ path: "Notes/video.md" });
+    expect(removeChild).toHaveBeenCalledWith(addChild.mock.results[0].value);
+
+    let signal: AbortSignal | undefined;
+    mockProcessYouTube.mockImplementationOnce((_source: unknown, options: { signal: AbortSignal }) => {
+      signal = options.signal;
+      return new Promise((_resolve, reject) => {
+        options.signal.addEventListener("abort", () => reject(new Error("aborted")));
+      });
+    });
+    const running = manager.handle({ action: "youtube", url });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(signal?.aborted).toBe(false);
+    plugin.unload();
+    await running;
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("turns unknown actions and failures into notices", async () => {
+    const { manager, api, logger } = createHarness();
+    api.openChat.mockRejectedValue(new SystemSculptApiError("not_found", "No file at Missing.md."));
+
+    await manager.handle({ action: "dance" });
+    expect(mockedNotice).toHaveBeenLastCalledWith(
+      'SystemSculpt link action "dance" is not supported. Use one of: chat, studio, transcribe, youtube, search.',
+      8000
+    );
+
+    await manager.handle({ action: "chat", files: "Missing.md" });
+    expect(mockedNotice).toHaveBeenLastCalledWith("No file at Missing.md.", 8000);
+    expect(logger.error).toHaveBeenCalledWith("SystemSculpt link failed", expect.any(SystemSculptApiError), {
+      source: "ProtocolManager",
+      metadata: { route: "chat" },
+    });
+  });
+});
@@ -1,14 +1,22 @@
-import { App, Notice, WorkspaceLeaf, TFile, normalizePath } from "obsidian";
+import { App, Editor, Notice, WorkspaceLeaf, TFile, normalizePath } from "obsidian";
 import SystemSculptPlugin from "../../main";
 import { RibbonManager } from "./ribbons";
 import { tryCopyToClipboard } from "../../utils/clipboard";
+import { getEditorView } from "../../editor/editor-view";
 import { resolveAbsoluteVaultPath } from "../../utils/vaultPathUtils";
 import { hasHostCapability } from "../../platform/hostCapabilities";
 import { showConfirm } from "../ui/notifications";
+import { showPrompt } from "../ui/modals/PromptModal";
 import { getSurfaceOwnerWindow, resolveSurfaceDomContext } from "../ui/surface";
 import type { ChatMessage } from "../../types";
 import { CHAT_VIEW_TYPE, SYSTEMSCULPT_STUDIO_VIEW_TYPE } from "./viewTypes";
 import { STUDIO_PROJECT_EXTENSION } from "../../studio/types";
+import {
+  parseStudioProjectBundle,
+  serializeStudioProjectBundle,
+  STUDIO_BUNDLE_FILE_SUFFIX,
+  type StudioBundleRequestedGrant,
+} from "../../studio/StudioProjectBundle";
 import {
   isAudioFileExtension,
   isAutoDocumentConversionFileExtension,
@@ -56,10 +64,17 @@ function loadAgentChatViewModule(): AgentChatViewModule {
   return require("../../views/chatview/AgentChatView");
 }
 
+function describeRequestedGrant(grant: StudioBundleRequestedGrant): string {
+  return grant.capability === "cli"
+    ? `run ${(grant.scope.allowedCommandPatterns || []).join(", ")}`
+    : `use ${(grant.scope.allowedPaths || []).join(", ")}`;
+}
+
 export class CommandManager {
   private plugin: SystemSculptPlugin;
   private app: App;
   private ribbonManager: RibbonManager;
+  private lastInlineEditInstruction = "";
 
   constructor(plugin: SystemSculptPlugin, app: App) {
     this.plugin = plugin;
@@ -83,6 +98,7 @@ export class CommandManager {
     this.registerOpenSystemSculptHistory();
     this.registerOpenJanitor();
     this.registerTranscribeAudioFile();
+    this.registerRunWorkflow();
     this.registerAudioProcessorCommands();
     this.registerOpenSystemSculptSearch();
     this.registerReloadObsidian();
@@ -94,6 +110,7 @@ export class CommandManager {
     this.registerOpenEmbeddingsView();
     this.registerEmbeddingsDatabaseCommands();
     this.registerSystemSculptStudioCommands();
+    this.registerInlineEdit();
   }
 
 
@@ -181,6 +198,80 @@ export class CommandManager {
     });
   }
 
+  private registerInlineEdit() {
+    this.plugin.addCommand({
+      id: "edit-selection-with-ai",
+      name: "Edit selection with AI",
+      editorCallback: (editor) => {
+        void this.startInlineEdit(editor);
+      },
+    });
+  }
+
+  /** Shared by the command and the editor context menu entry. */
+  async startInlineEdit(editor: Editor): Promise<void> {
+    // The diff preview lives in the CodeMirror view behind Obsidian's editor.
+    const view = getEditorView(editor);
+    if (!view) {
+      new Notice("Inline editing needs the live editor.");
+      return;
+    }
+    const { InlineEditRun, inlineEditRange } = await import("../../editor/inline-edit");
+    const range = inlineEditRange(view.state);
+    if (!range) {
+      new Notice("Select some text or click into a paragraph to edit it.");
+      return;
+    }
+    const { InlineEditInstructionModal } = await import("../../modals/InlineEditInstructionModal");
+    const passage = view.state.doc.sliceString(range.from, range.to);
+    const client = this.plugin.getManagedCapabilityClient();
+    const instruction = await new InlineEditInstructionModal(this.app, passage, {
+      initialInstruction: this.lastInlineEditInstruction,
+      streams: client.usesOpenAICompatible("textGeneration"),
+    }).open();
+    if (!instruction) return;
+    this.lastInlineEditInstruction = instruction;
+    const { createInlineEditGenerator } = await import("../../services/InlineEditService");
+    const generate = createInlineEditGenerator((operation) => client.generateText(operation));
+    await new InlineEditRun(view, instruction, generate).start(range.from, range.to);
+  }
+
+  private registerRunWorkflow() {
+    this.plugin.addCommand({
+      id: "run-workflow-on-current-file",
+      name: "Run workflow on current file",
+      checkCallback: (checking: boolean) => {
+        const activeFile = this.app.workspace.getActiveFile();
+        if (!activeFile) return false;
+        if (!checking) void this.runWorkflowOnFile(activeFile);
+        return true;
+      },
+    });
+  }
+
+  private async runWorkflowOnFile(file: TFile): Promise<void> {
+    const engine = this.plugin.getWorkflowEngineService();
+    const workflows = await engine.getCommandWorkflows();
+    if (workflows.length === 0) {
+      const folder = this.plugin.settings.workflowEngine?.definitionsFolder ?? "your workflow folder";
+      new Notice(`No command workflows found in ${folder}.`, 6000);
+      return;
+    }
+
+    const run = (workflowId: string) => {
+      void engine.runCommandWorkflow(workflowId, file).catch((error: unknown) => {
+        new Notice(error instanceof Error ? error.message : "Unable to run the workflow.", 7000);
+      });
+    };
+
+    if (workflows.length === 1) {
+      run(workflows[0].id);
+      return;
+    }
+    const { WorkflowPickerModal } = await import("../../modals/WorkflowPickerModal");
+    new WorkflowPickerModal(this.app, workflows, (workflow) => run(workflow.id)).open();
+  }
+
   private registerAudioProcessorCommands() {
     void import("../../features/audio-processor")
       .then(({ resumeAudioProcessorJobs }) => resumeAudioProcessorJobs(this.plugin))
@@ -566,6 +657,36 @@ export class CommandManager {
       },
     });
 
+    this.plugin.addCommand({
+      id: "export-systemsculpt-studio-project-bundle",
+      name: "Export Studio project bundle",
+      checkCallback: (checking: boolean) => {
+        const projectPath = this.resolveActiveStudioProjectPath();
+        if (!projectPath) {
+          return false;
+        }
+        if (!checking) {
+          void this.exportStudioProjectBundle(projectPath);
+        }
+        return true;
+      },
+    });
+
+    this.plugin.addCommand({
+      id: "import-systemsculpt-studio-project-bundle",
+      name: "Import Studio project bundle",
+      checkCallback: (checking: boolean) => {
+        const activeFile = this.app.workspace.getActiveFile();
+        if (!activeFile || !activeFile.path.toLowerCase().endsWith(STUDIO_BUNDLE_FILE_SUFFIX)) {
+          return false;
+        }
+        if (!checking) {
+          void this.importStudioProjectBundle(activeFile);
+        }
+        return true;
+      },
+    });
+
     this.plugin.addCommand({
       id: "fit-systemsculpt-studio-selection-in-viewport",
       name: "Studio: fit selection in viewport",
@@ -649,6 +770,81 @@ export class CommandManager {
     return null;
   }
 
+  private async exportStudioProjectBundle(projectPath: string): Promise<void> {
+    try {
+      const choice = await showPrompt(
+        this.app,
+        "The bundle holds the project, the files its nodes use, and the permissions it was granted as requests to approve again. Run history is not included.",
+        {
+          title: "Export Studio project bundle",
+          primaryButton: "Export",
+          checkboxLabel: "Include cached node results",
+        }
+      );
+      if (!choice?.confirmed) {
+        return;
+      }
+      const bundle = await this.plugin.getStudioService().exportProjectBundle(projectPath, {
+        includeNodeCache: choice.checkboxChecked === true,
+      });
+      const bundlePath = normalizePath(
+        `${projectPath.slice(0, -STUDIO_PROJECT_EXTENSION.length)}${STUDIO_BUNDLE_FILE_SUFFIX}`
+      );
+      const text = serializeStudioProjectBundle(bundle);
+      const existing = this.app.vault.getAbstractFileByPath(bundlePath);
+      if (existing instanceof TFile) {
+        await this.app.vault.modify(existing, text);
+      } else {
+        await this.app.vault.create(bundlePath, text);
+      }
+      new Notice(`Exported Studio bundle: ${bundlePath}`);
+    } catch (error: any) {
+      new Notice(`Unable to export Studio project: ${error?.message || error}`);
+    }
+  }
+
+  private async importStudioProjectBundle(file: TFile): Promise<void> {
+    try {
+      const studio = this.plugin.getStudioService();
+      const bundle = parseStudioProjectBundle(await this.app.vault.read(file));
+      const result = await studio.importProjectBundle(bundle, { folder: file.parent?.path || "" });
+      if (result.requestedGrants.length > 0) {
+        const { confirmed } = await showConfirm(
+          this.app,
+          `The exported project was allowed to ${result.requestedGrants.map(describeRequestedGrant).join("; ")}. Grant the same access here?`,
+          {
+            title: "Approve Studio permissions",
+            primaryButton: "Grant",
+            secondaryButton: "Not now",
+            icon: "shield-alert",
+          }
+        );
+        if (confirmed) {
+          for (const grant of result.requestedGrants) {
+            await studio.addCapabilityGrant(result.path, { capability: grant.capability, scope: grant.scope });
+          }
+        }
+      }
+      const problems = [
+        ...(result.missingNodeKinds.length > 0
+          ? [`unsupported nodes: ${result.missingNodeKinds.join(", ")}`]
+          : []),
+        ...(result.skippedFiles.length > 0
+          ? [`${result.skippedFiles.length} damaged file(s) skipped`]
+          : []),
+      ];
+      new Notice(
+        problems.length > 0
+          ? `Imported ${result.path} with ${problems.join("; ")}.`
+          : `Imported Studio project: ${result.path}`,
+        problems.length > 0 ? 10000 : undefined
+      );
+      await this.plugin.getViewManager().activateSystemSculptStudioView(result.path);
+    } catch (error: any) {
+      new Notice(`Unable to import Studio bundle: ${error?.message || error}`);
+    }
+  }
+
   private async createAndOpenStudioProject(): Promise<{ name: string; path: string }> {
     const studio = this.plugin.getStudioService();
     const created = await studio.createProjectFile();
@@ -0,0 +1,192 @@
+import { Component, Notice, TFile, normalizePath, type App, type ObsidianProtocolData } from "obsidian";
+import type SystemSculptPlugin from "../../main";
+import { isAudioFileExtension, normalizeFileExtension } from "../../constants/fileTypes";
+import { launchAudioTranscriptionPanel } from "../../modals/AudioTranscriptionPanel";
+import type { ProtocolActionConfirmOptions } from "../../modals/ProtocolActionConfirmModal";
+
+/** Registered as `obsidian://systemsculpt`; the `action` query parameter picks the route. */
+export const SYSTEMSCULPT_PROTOCOL_ACTION = "systemsculpt";
+
+export type SystemSculptProtocolRoute = "chat" | "studio" | "transcribe" | "youtube" | "search";
+
+const PROTOCOL_ROUTES: readonly SystemSculptProtocolRoute[] = ["chat", "studio", "transcribe", "youtube", "search"];
+const STUDIO_INPUT_PARAM_PREFIX = "input.";
+const AUDIO_PROCESSOR_UNAVAILABLE_NOTICE = "Audio Processor is temporarily unavailable.";
+
+function readParam(params: ObsidianProtocolData, key: string): string {
+  const value = params[key];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readPathList(params: ObsidianProtocolData): string[] {
+  return [readParam(params, "file"), ...readParam(params, "files").split(",")]
+    .map((path) => path.trim())
+    .filter((path) => path.length > 0);
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Routes `obsidian://systemsculpt?action=<route>&...` links from launchers,
+ * Shortcuts, and bookmarklets. Each route goes through the same entry point
+ * its command or script API counterpart uses, and every failure ends in a
+ * Notice because nothing on the calling side can see a thrown error. Any web
+ * page can open these links, so routes that run projects or spend credits
+ * wait for confirmation; chat and search only open UI.
+ */
+export class ProtocolManager {
+  constructor(private readonly plugin: SystemSculptPlugin, private readonly app: App) {}
+
+  register(): void {
+    this.plugin.registerObsidianProtocolHandler(SYSTEMSCULPT_PROTOCOL_ACTION, (params) => {
+      void this.handle(params);
+    });
+  }
+
+  async handle(params: ObsidianProtocolData): Promise<void> {
+    const route = readParam(params, "action");
+    try {
+      switch (route as SystemSculptProtocolRoute) {
+        case "chat":
+          await this.plugin.api.openChat({ files: readPathList(params), prompt: readParam(params, "prompt") });
+          return;
+        case "studio":
+          await this.runStudioProject(params);
+          return;
+        case "transcribe":
+          await this.transcribe(params);
+          return;
+        case "youtube":
+          await this.processYouTube(params);
+          return;
+        case "search":
+          await this.openSearch(readParam(params, "query"));
+          return;
+        default:
+          new Notice(
+            route
+              ? `SystemSculpt link action "${route}" is not supported. Use one of: ${PROTOCOL_ROUTES.join(", ")}.`
+              : `SystemSculpt links need an action: ${PROTOCOL_ROUTES.join(", ")}.`,
+            8000
+          );
+      }
+    } catch (error) {
+      this.plugin.getLogger().error("SystemSculpt link failed", error, {
+        source: "ProtocolManager",
+        metadata: { route },
+      });
+      new Notice(describeError(error), 8000);
+    }
+  }
+
+  private async runStudioProject(params: ObsidianProtocolData): Promise<void> {
+    const path = readParam(params, "path");
+    const inputs: Record<string, string> = {};
+    for (const [key, value] of Object.entries(params)) {
+      if (key.startsWith(STUDIO_INPUT_PARAM_PREFIX) && key.length > STUDIO_INPUT_PARAM_PREFIX.length) {
+        inputs[key.slice(STUDIO_INPUT_PARAM_PREFIX.length)] = value;
+      }
+    }
+    const name = path.split("/").pop()?.replace(/\.systemsculpt$/i, "") || path;
+    const confirmed = await this.confirm({
+      title: "Run Studio project from a link?",
+      description: "A link asked to run this project. Only continue if you opened it on purpose.",
+      details: [
+        { label: "Project", value: path || "(none)" },
+        ...Object.entries(inputs).map(([key, value]) => ({ label: `Input ${key}`, value })),
+      ],
+      confirmLabel: "Run project",
+    });
+    if (!confirmed) return;
+    new Notice(`Running ${name}…`, 4000);
+    const run = await this.plugin.api.runStudioProject(path, { inputs });
+    new Notice(
+      run.status === "success" ? `${name} finished.` : `${name} ${run.status}: ${run.error || "see its run history"}`,
+      run.status === "success" ? 5000 : 8000
+    );
+  }
+
+  private requireFile(path: string): TFile {
+    if (!path) {
+      throw new Error("This SystemSculpt link needs a path.");
+    }
+    const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+    if (!(file instanceof TFile)) {
+      throw new Error(`No file at ${path}.`);
+    }
+    return file;
+  }
+
+  private async transcribe(params: ObsidianProtocolData): Promise<void> {
+    const file = this.requireFile(readParam(params, "path"));
+    if (!isAudioFileExtension(normalizeFileExtension(file.extension))) {
+      throw new Error(`${file.path} is not an audio file SystemSculpt can transcribe.`);
+    }
+    const confirmed = await this.confirm({
+      title: "Transcribe audio from a link?",
+      description: "A link asked to transcribe this file, which uses your SystemSculpt credits.",
+      details: [{ label: "File", value: file.path }],
+      confirmLabel: "Transcribe",
+    });
+    if (!confirmed) return;
+    launchAudioTranscriptionPanel(this.app, {
+      file,
+      timestamped: readParam(params, "timestamped") === "true",
+      // A link is not aimed at whichever note happens to be open.
+      targetEditor: null,
+      plugin: this.plugin,
+      openOnComplete: true,
+    });
+  }
+
+  private async processYouTube(params: ObsidianProtocolData): Promise<void> {
+    const { AudioProcessorService, canOpenAudioProcessor } = await import("../../features/audio-processor");
+    const { AudioProcessorPanel } = await import("../../features/audio-processor/AudioProcessorPanel");
+    const { requireYouTubeVideoUrl } = await import("../../features/audio-processor/youtube");
+    const { normalizeAudioProcessorOutputPreset } = await import("../../features/audio-processor/types");
+    const youtube = requireYouTubeVideoUrl(readParam(params, "url"));
+    if (!await canOpenAudioProcessor(this.plugin)) {
+      new Notice(AUDIO_PROCESSOR_UNAVAILABLE_NOTICE, 6000);
+      return;
+    }
+    const confirmed = await this.confirm({
+      title: "Process YouTube video from a link?",
+      description: "A link asked to turn this video into a note, which uses your SystemSculpt credits.",
+      details: [{ label: "Video", value: youtube.url }],
+      confirmLabel: "Process video",
+    });
+    if (!confirmed) return;
+    const controller = new AbortController();
+    // Scoped to this run so finished link runs do not pile up unload callbacks.
+    const run = this.plugin.addChild(new Component());
+    run.register(() => controller.abort());
+    const panel = new AudioProcessorPanel(this.plugin, `YouTube · ${youtube.videoId}`, () => controller.abort());
+    try {
+      const note = await new AudioProcessorService(this.plugin).process(
+        { type: "youtube", url: youtube.url },
+        {
+          signal: controller.signal,
+          outputPreset: normalizeAudioProcessorOutputPreset(readParam(params, "preset") || undefined),
+          onProgress: (event) => panel.update(event),
+        }
+      );
+      panel.succeed(note);
+    } catch (error) {
+      panel.fail(error);
+    } finally {
+      this.plugin.removeChild(run);
+    }
+  }
+
+  private async confirm(options: ProtocolActionConfirmOptions): Promise<boolean> {
+    const { ProtocolActionConfirmModal } = await import("../../modals/ProtocolActionConfirmModal");
+    return new ProtocolActionConfirmModal(this.app, options).open();
+  }
+
+  private async openSearch(query: string): Promise<void> {
+    const { SystemSculptSearchModal } = await import("../../modals/SystemSculptSearchModal");
+    new SystemSculptSearchModal(this.plugin, query).open();
+  }
+}
@@ -4,8 +4,12 @@ import {
   DEFAULT_SETTINGS,
   LogLevel,
   createDefaultWorkflowEngineSettings,
+  type CapabilityProviderChoice,
+  type CapabilityProviderSettings,
+  type OpenAICompatibleProviderSettings,
   type PendingAudioProcessorUpload,
   type PendingRecorderCapture,
+  type TranscriptionOutputFormat,
   type WorkflowEngineSettings,
   type WorkflowSkipEntry,
 } from "../../types";
@@ -22,6 +26,7 @@ import {
   normalizePreferredMicrophoneId,
   seedCurrentHostPreferredMicrophoneId,
 } from "../../services/recorder/RecorderPreferenceStore";
+import { TRANSCRIPTION_OUTPUT_FORMATS } from "../../services/transcription/TranscriptFormats";
 
 const DEVICE_LOCAL_RECORDER_PREFERENCE_SCHEMA_VERSION = 10;
 const AUDIO_JOB_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,255}$/;
@@ -38,15 +43,17 @@ function normalizeWorkflowEngineSettings(value: unknown): WorkflowEngineSettings
       if (!rawEntry || typeof rawEntry !== "object" || Array.isArray(rawEntry)) continue;
       const entry = rawEntry as Record<string, unknown>;
       if (
-        entry.type !== "transcription"
+        (entry.type !== "transcription" && entry.type !== "workflow")
         || typeof entry.path !== "string"
         || typeof entry.skippedAt !== "string"
       ) continue;
+      if (entry.type === "workflow" && typeof entry.workflowId !== "string") continue;
       skippedFiles[key] = {
         path: entry.path,
-        type: "transcription",
+        type: entry.type,
         skippedAt: entry.skippedAt,
         ...(typeof entry.reason === "string" ? { reason: entry.reason } : {}),
+        ...(entry.type === "workflow" ? { workflowId: entry.workflowId as string } : {}),
       };
     }
   }
@@ -66,6 +73,9 @@ function normalizeWorkflowEngineSettings(value: unknown): WorkflowEngineSettings
     autoTranscribeInboxNotes: typeof candidate.autoTranscribeInboxNotes === "boolean"
       ? candidate.autoTranscribeInboxNotes
       : defaults.autoTranscribeInboxNotes,
+    definitionsFolder: typeof candidate.definitionsFolder === "string" && candidate.definitionsFolder.trim()
+      ? candidate.definitionsFolder
+      : defaults.definitionsFolder,
     skippedFiles,
   } as Record<string, unknown>;
   delete normalized.automations;
@@ -74,6 +84,34 @@ function normalizeWorkflowEngineSettings(value: unknown): WorkflowEngineSettings
   return normalized as unknown as WorkflowEngineSettings;
 }
 
+function normalizeCapabilityProviderChoice(value: unknown): CapabilityProviderChoice {
+  return value === "openai-compatible" ? "openai-compatible" : "systemsculpt";
+}
+
+function normalizeCapabilityProviderSettings(value: unknown): CapabilityProviderSettings {
+  const raw = value && typeof value === "object" && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+  return {
+    chat: normalizeCapabilityProviderChoice(raw.chat),
+    textGeneration: normalizeCapabilityProviderChoice(raw.textGeneration),
+    embeddings: normalizeCapabilityProviderChoice(raw.embeddings),
+  };
+}
+
+function normalizeOpenAICompatibleProviderSettings(value: unknown): OpenAICompatibleProviderSettings {
+  const raw = value && typeof value === "object" && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+  const text = (field: unknown) => (typeof field === "string" ? field.trim() : "");
+  return {
+    baseUrl: text(raw.baseUrl).replace(/\/+$/, ""),
+    chatModel: text(raw.chatModel),
+    textGenerationModel: text(raw.textGenerationModel),
+    embeddingsModel: text(raw.embeddingsModel),
+  };
+}
+
 function normalizePendingAudioProcessorUpload(value: unknown): PendingAudioProcessorUpload | null {
   if (!value || typeof value !== "object" || Array.isArray(value)) return null;
   const entry = value as Record<string, unknown>;
@@ -573,6 +611,14 @@ export class SettingsManager {
       validatedSettings.extractionsDirectory = defaultSettings.extractionsDirectory;
     }
 
+    if (typeof validatedSettings.promptTemplatesDirectory !== 'string') {
+      validatedSettings.promptTemplatesDirectory = defaultSettings.promptTemplatesDirectory;
+    }
+
+    if (typeof validatedSettings.agentPersonasDirectory !== 'string') {
+      validatedSettings.agentPersonasDirectory = defaultSettings.agentPersonasDirectory;
+    }
+
     // Validate saved chats directory
     if (typeof validatedSettings.savedChatsDirectory !== 'string') {
       validatedSettings.savedChatsDirectory = defaultSettings.savedChatsDirectory;
@@ -709,7 +755,7 @@ export class SettingsManager {
       validatedSettings.autoSubmitAfterTranscription = defaultSettings.autoSubmitAfterTranscription;
     }
 
-    if (validatedSettings.transcriptionOutputFormat !== "markdown" && validatedSettings.transcriptionOutputFormat !== "srt") {
+    if (!TRANSCRIPTION_OUTPUT_FORMATS.includes(validatedSettings.transcriptionOutputFormat as TranscriptionOutputFormat)) {
       validatedSettings.transcriptionOutputFormat = defaultSettings.transcriptionOutputFormat;
     }
 
@@ -729,6 +775,14 @@ export class SettingsManager {
       validatedSettings.licenseKey = defaultSettings.licenseKey;
     }
 
+    validatedSettings.capabilityProviders = normalizeCapabilityProviderSettings(validatedSettings.capabilityProviders);
+    validatedSettings.openAICompatibleProvider = normalizeOpenAICompatibleProviderSettings(
+      validatedSettings.openAICompatibleProvider
+    );
+    if (typeof validatedSettings.openAICompatibleApiKey !== "string") {
+      validatedSettings.openAICompatibleApiKey = defaultSettings.openAICompatibleApiKey;
+    }
+
     if (typeof validatedSettings.defaultChatTag !== "string") {
       validatedSettings.defaultChatTag = defaultSettings.defaultChatTag;
     }
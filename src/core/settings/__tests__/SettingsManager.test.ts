@@ -238,6 +238,42 @@ describe("SettingsManager managed settings contract", () => {
     expect(manager.settings.workflowEngine).not.toHaveProperty("managedTextOperations");
   });
 
+  it("keeps workflow skips with their workflow id and defaults the definitions folder", async () => {
+    const plugin = createPlugin({
+      workflowEngine: {
+        definitionsFolder: "  ",
+        skippedFiles: {
+          "workflow::meetings::Inbox/standup.md": {
+            path: "Inbox/standup.md",
+            type: "workflow",
+            workflowId: "meetings",
+            skippedAt: "2026-10-19T00:00:00.000Z",
+            reason: "step_failed: Disk full",
+          },
+          "workflow::orphan::Inbox/other.md": {
+            path: "Inbox/other.md",
+            type: "workflow",
+            skippedAt: "2026-10-19T00:00:00.000Z",
+          },
+        },
+      },
+    });
+    const manager = new SettingsManager(plugin);
+
+    await manager.loadSettings();
+
+    expect(manager.settings.workflowEngine.definitionsFolder).toBe("SystemSculpt/Workflows");
+    expect(manager.settings.workflowEngine.skippedFiles).toEqual({
+      "workflow::meetings::Inbox/standup.md": {
+        path: "Inbox/standup.md",
+        type: "workflow",
+        workflowId: "meetings",
+        skippedAt: "2026-10-19T00:00:00.000Z",
+        reason: "step_failed: Disk full",
+      },
+    });
+  });
+
   it("moves the current-host v9 microphone preference to device-local storage", async () => {
     const ownerWindow = installOwnerWindow();
     const plugin = createPlugin({
@@ -6,7 +6,7 @@ import {
   LEGACY_UPDATE_KEYS_REMOVED_IN_V8,
 } from "./migrations/SettingsMigrator";
 
-const CURRENT_SECRET_KEYS = ["licenseKey"] as const;
+const CURRENT_SECRET_KEYS = ["licenseKey", "openAICompatibleApiKey"] as const;
 
 /**
  * Backups never carry retired provider credentials or configuration. This is
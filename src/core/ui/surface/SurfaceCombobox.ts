@@ -39,8 +39,11 @@ export interface SurfaceComboboxCommitContext<T> {
   event: Event;
 }
 
+/** Single-line search fields and multi-line composers can both drive a listbox. */
+export type SurfaceComboboxInput = HTMLInputElement | HTMLTextAreaElement;
+
 export interface SurfaceComboboxOptions<T> {
-  input: HTMLInputElement;
+  input: SurfaceComboboxInput;
   listbox: HTMLElement;
   getItemKey: (item: T) => string;
   filterItems: (items: readonly T[], query: string) => readonly T[];
@@ -95,7 +98,7 @@ let nextComboboxId = 0;
  * windows never fall back to the plugin's primary browser realm.
  */
 export class SurfaceCombobox<T> {
-  public readonly input: HTMLInputElement;
+  public readonly input: SurfaceComboboxInput;
   public readonly listbox: HTMLElement;
   public readonly listboxId: string;
   public readonly ownerDocument: Document;
@@ -0,0 +1,165 @@
+/** @jest-environment jsdom */
+
+import { describe, expect, it } from "@jest/globals";
+import { EditorState } from "@codemirror/state";
+import { EditorView, runScopeHandlers } from "@codemirror/view";
+import { ghostTextExtension, type GhostTextRequest } from "../ghost-text";
+import {
+  buildEditorCompletionMessages,
+  cleanEditorCompletion,
+  createEditorCompletionSource,
+} from "../../services/EditorCompletionService";
+import type { ManagedTextGenerationOperation } from "../../services/managed/ManagedTextGenerationAdapter";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => { resolve = done; });
+  return { promise, resolve };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function editor(doc: string, complete: (request: GhostTextRequest) => Promise<string>): EditorView {
+  return new EditorView({
+    parent: document.body,
+    state: EditorState.create({
+      doc,
+      selection: { anchor: doc.length },
+      extensions: ghostTextExtension({ complete, delayMs: 0, filePath: () => "Notes/Today.md" }),
+    }),
+  });
+}
+
+function type(view: EditorView, text: string): void {
+  const pos = view.state.selection.main.head;
+  view.dispatch({ changes: { from: pos, insert: text }, selection: { anchor: pos + text.length }, userEvent: "input.type" });
+}
+
+function press(view: EditorView, key: string): boolean {
+  return runScopeHandlers(view, new KeyboardEvent("keydown", { key }), "editor");
+}
+
+const ghost = (view: EditorView) => view.dom.querySelector(".ss-ghost-text")?.textContent ?? null;
+
+describe("ghost text", () => {
+  it("suggests a continuation after a pause and accepts it with Tab", async () => {
+    const requests: GhostTextRequest[] = [];
+    const view = editor("The plan is", async (request) => {
+      requests.push(request);
+      return " to ship on Friday.";
+    });
+
+    type(view, " simple");
+    await flush();
+    await flush();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ before: "The plan is simple", after: "", filePath: "Notes/Today.md" });
+    expect(ghost(view)).toBe(" to ship on Friday.");
+
+    type(view, " to");
+    expect(ghost(view)).toBe(" ship on Friday.");
+
+    expect(press(view, "Tab")).toBe(true);
+    expect(view.state.doc.toString()).toBe("The plan is simple to ship on Friday.");
+    expect(view.state.selection.main.head).toBe(view.state.doc.length);
+    expect(ghost(view)).toBeNull();
+    expect(press(view, "Tab")).toBe(false);
+    view.destroy();
+  });
+
+  it("aborts the request in flight when the user keeps typing", async () => {
+    const pending = deferred<string>();
+    const requests: GhostTextRequest[] = [];
+    const view = editor("Draft", (request) => {
+      requests.push(request);
+      return requests.length === 1 ? pending.promise : Promise.resolve("");
+    });
+
+    type(view, " one");
+    await flush();
+    expect(requests).toHaveLength(1);
+
+    type(view, "x");
+    expect(requests[0].signal.aborted).toBe(true);
+    pending.resolve(" late answer");
+    await flush();
+    await flush();
+
+    expect(ghost(view)).toBeNull();
+    expect(requests).toHaveLength(2);
+    view.destroy();
+  });
+
+  it("dismisses the suggestion with Escape or a different keystroke", async () => {
+    const view = editor("Hello", async () => " world");
+
+    type(view, ",");
+    await flush();
+    await flush();
+    expect(ghost(view)).toBe(" world");
+    expect(press(view, "Escape")).toBe(true);
+    expect(ghost(view)).toBeNull();
+
+    type(view, "!");
+    await flush();
+    await flush();
+    type(view, "?");
+    expect(ghost(view)).toBeNull();
+    view.destroy();
+  });
+
+  it("does not suggest in the middle of a line", async () => {
+    const requests: GhostTextRequest[] = [];
+    const view = editor("one three", async (request) => {
+      requests.push(request);
+      return "two";
+    });
+    view.dispatch({ selection: { anchor: 4 } });
+
+    type(view, "two ");
+    await flush();
+
+    expect(requests).toHaveLength(0);
+    view.destroy();
+  });
+});
+
+describe("editor completion service", () => {
+  it("keeps a continuation to one inline fragment", () => {
+    expect(cleanEditorCompletion("The plan is ", "```\nto ship.\n\nNext paragraph\n```")).toBe("to ship.");
+    expect(cleanEditorCompletion("The plan is", "The plan is simple.")).toBe(" simple.");
+    expect(cleanEditorCompletion("The plan", "is simple.")).toBe(" is simple.");
+    expect(cleanEditorCompletion("The pl", ", mostly.")).toBe(", mostly.");
+  });
+
+  it("adds related notes to the prompt and skips them when lookup fails", async () => {
+    const prompts: string[] = [];
+    const generateText = async (operation: ManagedTextGenerationOperation) => {
+      expect(operation.purpose).toBe("editor_completion");
+      expect(operation.operationId).toMatch(/^completion:[A-Za-z0-9]+$/);
+      prompts.push(String(operation.buildMessages()[1].content));
+      return { text: " next", finishReason: "stop" as const };
+    };
+    const request = { before: "Start", after: "", filePath: "A.md", signal: new AbortController().signal };
+
+    const related = createEditorCompletionSource({
+      generateText,
+      neighbours: async () => [
+        { path: "A.md", excerpt: "itself" },
+        { path: "B.md", excerpt: "Related fact" },
+      ],
+    });
+    await expect(related(request)).resolves.toBe(" next");
+    expect(prompts[0]).toContain("From B.md:\nRelated fact");
+    expect(prompts[0]).not.toContain("From A.md");
+
+    const failing = createEditorCompletionSource({
+      generateText,
+      neighbours: async () => { throw new Error("index busy"); },
+    });
+    await expect(failing(request)).resolves.toBe(" next");
+    expect(prompts[1]).not.toContain("Related notes");
+    expect(buildEditorCompletionMessages({ ...request, after: " tail" }, [])[1].content).toContain("Text after the cursor:\n tail");
+  });
+});
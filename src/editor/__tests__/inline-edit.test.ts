@@ -0,0 +1,126 @@
+/** @jest-environment jsdom */
+
+import { describe, expect, it } from "@jest/globals";
+import { EditorSelection, EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { diffInlineEdit, diffStreamingInlineEdit } from "../inline-edit-diff";
+import {
+  hasInlineEdit,
+  inlineEditExtension,
+  inlineEditRange,
+  InlineEditRun,
+  type InlineEditRequest,
+} from "../inline-edit";
+import { cleanInlineEditText } from "../../services/InlineEditService";
+
+function apply(original: string, hunks: ReturnType<typeof diffInlineEdit>): string {
+  return [...hunks].reverse().reduce(
+    (text, hunk) => text.slice(0, hunk.from) + hunk.insert + text.slice(hunk.to),
+    original,
+  );
+}
+
+function editor(doc: string): EditorView {
+  return new EditorView({
+    parent: document.body,
+    state: EditorState.create({ doc, extensions: inlineEditExtension() }),
+  });
+}
+
+describe("inline edit diff", () => {
+  it("splits a rewrite into word-level hunks that reproduce it", () => {
+    const original = "The quick brown fox jumps over the lazy dog.";
+    const proposed = "A slow brown fox jumps over the sleepy dog!";
+    const hunks = diffInlineEdit(original, proposed);
+
+    expect(hunks.map((hunk) => [original.slice(hunk.from, hunk.to), hunk.insert])).toEqual([
+      ["The quick", "A slow"],
+      ["lazy", "sleepy"],
+      [".", "!"],
+    ]);
+    expect(apply(original, hunks)).toBe(proposed);
+    expect(diffInlineEdit(original, original)).toEqual([]);
+  });
+
+  it("does not show the unwritten tail of a streaming rewrite as deleted", () => {
+    const original = "First sentence. Second sentence.";
+
+    expect(diffStreamingInlineEdit(original, "First line")).toEqual([
+      { from: 6, to: 6, insert: "line" },
+    ]);
+    expect(diffStreamingInlineEdit(original, "First sentence.")).toEqual([]);
+  });
+});
+
+describe("inline edit in the editor", () => {
+  it("uses the selection, or the paragraph around the cursor", () => {
+    const doc = "Title\n\nLine one\nline two\n\nAfter";
+    const selected = EditorState.create({ doc, selection: EditorSelection.range(0, 5) });
+    const cursor = EditorState.create({ doc, selection: EditorSelection.cursor(doc.indexOf("one")) });
+    const blank = EditorState.create({ doc, selection: EditorSelection.cursor(6) });
+
+    expect(inlineEditRange(selected)).toEqual({ from: 0, to: 5 });
+    expect(inlineEditRange(cursor)).toEqual({ from: 7, to: 24 });
+    expect(inlineEditRange(blank)).toBeNull();
+  });
+
+  it("streams a preview and applies only the hunks the user accepts", async () => {
+    const view = editor("Keep this. The cat sat on a mat. Keep that.");
+    const requests: InlineEditRequest[] = [];
+    const run = new InlineEditRun(view, "Use a dog", async (request) => {
+      requests.push(request);
+      request.onText("The dog");
+      expect(view.state.doc.toString()).toBe("Keep this. The cat sat on a mat. Keep that.");
+      expect(view.dom.querySelector(".ss-inline-edit__added")?.textContent).toBe("dog");
+      return "The dog sat on a rug.";
+    });
+
+    await run.start(11, 32);
+
+    expect(requests[0]).toMatchObject({ instruction: "Use a dog", passage: "The cat sat on a mat." });
+    const [cat, mat] = run.pendingHunkIds();
+    expect(view.dom.querySelectorAll(".ss-inline-edit__removed")).toHaveLength(2);
+    run.accept([cat]);
+    expect(view.state.doc.toString()).toBe("Keep this. The dog sat on a mat. Keep that.");
+    run.reject([mat]);
+    expect(view.state.doc.toString()).toBe("Keep this. The dog sat on a mat. Keep that.");
+    expect(hasInlineEdit(view)).toBe(false);
+    view.destroy();
+  });
+
+  it("retries a single hunk with its original words and the rejected rewrite", async () => {
+    const view = editor("Hello world");
+    const responses = ["Hello there", "Hi there"];
+    const requests: InlineEditRequest[] = [];
+    const run = new InlineEditRun(view, "Friendlier", async (request) => {
+      requests.push(request);
+      return request.excerpt ? "planet" : responses[0];
+    });
+
+    await run.start(0, 11);
+    const [hunk] = run.pendingHunkIds();
+    await run.retry(hunk);
+
+    expect(requests[1].excerpt).toEqual({ original: "world", previous: "there" });
+    run.accept(run.pendingHunkIds());
+    expect(view.state.doc.toString()).toBe("Hello planet");
+    view.destroy();
+  });
+
+  it("drops the preview when the user edits the passage themselves", async () => {
+    const view = editor("Hello world");
+    const run = new InlineEditRun(view, "Shout", async () => "HELLO WORLD");
+    await run.start(0, 11);
+
+    view.dispatch({ changes: { from: 0, insert: "Oh, " } });
+
+    expect(hasInlineEdit(view)).toBe(false);
+    expect(view.state.doc.toString()).toBe("Oh, Hello world");
+    view.destroy();
+  });
+
+  it("keeps the passage's own edge whitespace and strips a wrapping fence", () => {
+    expect(cleanInlineEditText("  Old text\n", "```markdown\nNew text\n```\n", true)).toBe("  New text\n");
+    expect(cleanInlineEditText("Old", "```\nNew", false)).toBe("New");
+  });
+});
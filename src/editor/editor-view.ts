@@ -0,0 +1,11 @@
+import type { Editor } from "obsidian";
+import { EditorView } from "@codemirror/view";
+
+/**
+ * The CodeMirror 6 view behind an Obsidian editor. Obsidian keeps it on the
+ * untyped `cm` field, so it is checked here instead of cast at each call site.
+ */
+export function getEditorView(editor: Editor): EditorView | null {
+  const view: unknown = Reflect.get(editor, "cm");
+  return view instanceof EditorView ? view : null;
+}
@@ -0,0 +1,211 @@
+import {
+  Prec,
+  StateEffect,
+  StateField,
+  type EditorState,
+  type Extension,
+} from "@codemirror/state";
+import {
+  Decoration,
+  EditorView,
+  keymap,
+  ViewPlugin,
+  WidgetType,
+  type ViewUpdate,
+} from "@codemirror/view";
+import { createSurfaceElement, getSurfaceOwnerWindow } from "../core/ui/surface";
+
+/**
+ * Ghost-text continuations for the markdown editor. After a pause in typing
+ * the extension asks for a short continuation of the text before the cursor
+ * and shows it greyed out; Tab accepts it, Escape or any other edit dismisses
+ * it. Every keystroke aborts the request in flight, so a slow answer never
+ * lands on text the user has already moved past.
+ */
+
+export type GhostTextRequest = Readonly<{
+  /** Up to {@link GHOST_TEXT_CONTEXT_BEFORE} characters before the cursor. */
+  before: string;
+  /** Up to {@link GHOST_TEXT_CONTEXT_AFTER} characters after the cursor. */
+  after: string;
+  filePath: string | null;
+  signal: AbortSignal;
+}>;
+
+export type GhostTextSource = (request: GhostTextRequest) => Promise<string>;
+
+export type GhostTextOptions = Readonly<{
+  complete: GhostTextSource;
+  /** The note being edited, for context lookups. */
+  filePath?: (state: EditorState) => string | null;
+  delayMs?: number;
+}>;
+
+export const GHOST_TEXT_DELAY_MS = 700;
+export const GHOST_TEXT_CONTEXT_BEFORE = 3_000;
+export const GHOST_TEXT_CONTEXT_AFTER = 600;
+
+type GhostSuggestion = Readonly<{ pos: number; text: string }>;
+
+const setSuggestion = StateEffect.define<GhostSuggestion | null>();
+
+class GhostTextWidget extends WidgetType {
+  constructor(private readonly text: string) {
+    super();
+  }
+
+  eq(other: GhostTextWidget): boolean {
+    return other.text === this.text;
+  }
+
+  toDOM(view: EditorView): HTMLElement {
+    const element = createSurfaceElement(view.dom.ownerDocument, "span");
+    element.className = "ss-ghost-text";
+    element.textContent = this.text;
+    return element;
+  }
+
+  ignoreEvent(): boolean {
+    return false;
+  }
+}
+
+/** The single character-for-character insertion at `pos`, if that is all the transaction did. */
+function insertionAt(changes: ViewUpdate["changes"], pos: number): string | null {
+  let inserted: string | null = null;
+  let other = false;
+  changes.iterChanges((fromA, toA, _fromB, _toB, text) => {
+    if (fromA === pos && toA === pos && inserted === null) inserted = text.toString();
+    else other = true;
+  });
+  return other ? null : inserted;
+}
+
+const suggestionField = StateField.define<GhostSuggestion | null>({
+  create: () => null,
+  update(value, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setSuggestion)) return effect.value;
+    }
+    if (!value) return null;
+    if (tr.docChanged) {
+      // Typing the suggestion's own next characters keeps the rest of it.
+      const typed = insertionAt(tr.changes, value.pos);
+      if (!typed || typed.length >= value.text.length || !value.text.startsWith(typed)) return null;
+      value = { pos: value.pos + typed.length, text: value.text.slice(typed.length) };
+    }
+    const selection = tr.state.selection.main;
+    return selection.empty && selection.head === value.pos ? value : null;
+  },
+  provide: (field) => EditorView.decorations.from(field, (value) => value
+    ? Decoration.set([Decoration.widget({ widget: new GhostTextWidget(value.text), side: 1 }).range(value.pos)])
+    : Decoration.none),
+});
+
+function acceptGhostText(view: EditorView): boolean {
+  const suggestion = view.state.field(suggestionField, false);
+  if (!suggestion) return false;
+  const end = suggestion.pos + suggestion.text.length;
+  view.dispatch({
+    changes: { from: suggestion.pos, insert: suggestion.text },
+    selection: { anchor: end },
+    effects: setSuggestion.of(null),
+    userEvent: "input.complete",
+    scrollIntoView: true,
+  });
+  return true;
+}
+
+function dismissGhostText(view: EditorView): boolean {
+  if (!view.state.field(suggestionField, false)) return false;
+  view.dispatch({ effects: setSuggestion.of(null) });
+  return true;
+}
+
+/** Suggest only at the end of a line, or before trailing closing punctuation. */
+function canSuggestAt(state: EditorState): boolean {
+  const selection = state.selection.main;
+  if (!selection.empty) return false;
+  const line = state.doc.lineAt(selection.head);
+  const rest = state.sliceDoc(selection.head, line.to);
+  const typed = state.sliceDoc(line.from, selection.head);
+  return /^[\s)\]}"'*_`]*$/.test(rest) && typed.trim().length > 0;
+}
+
+function ghostTextPlugin(options: GhostTextOptions) {
+  return ViewPlugin.fromClass(class {
+    private timer: number | null = null;
+    private controller: AbortController | null = null;
+
+    constructor(private readonly view: EditorView) {}
+
+    update(update: ViewUpdate): void {
+      if (!update.docChanged && !update.selectionSet) return;
+      this.cancel();
+      const typed = update.transactions.some((tr) => tr.isUserEvent("input.type") || tr.isUserEvent("delete"));
+      if (!typed || update.view.composing || update.state.field(suggestionField, false)) return;
+      if (!canSuggestAt(update.state)) return;
+      this.timer = getSurfaceOwnerWindow(this.view.dom).setTimeout(
+        () => void this.request(),
+        options.delayMs ?? GHOST_TEXT_DELAY_MS,
+      );
+    }
+
+    destroy(): void {
+      this.cancel();
+    }
+
+    private cancel(): void {
+      if (this.timer !== null) getSurfaceOwnerWindow(this.view.dom).clearTimeout(this.timer);
+      this.timer = null;
+      this.controller?.abort();
+      this.controller = null;
+    }
+
+    private async request(): Promise<void> {
+      this.timer = null;
+      const { state } = this.view;
+      const pos = state.selection.main.head;
+      const controller = new AbortController();
+      this.controller = controller;
+      let text: string;
+      try {
+        text = await options.complete({
+          before: state.sliceDoc(Math.max(0, pos - GHOST_TEXT_CONTEXT_BEFORE), pos),
+          after: state.sliceDoc(pos, Math.min(state.doc.length, pos + GHOST_TEXT_CONTEXT_AFTER)),
+          filePath: options.filePath?.(state) ?? null,
+          signal: controller.signal,
+        });
+      } catch {
+        // Suggestions are best effort; a failed one simply doesn't appear.
+        return;
+      } finally {
+        if (this.controller === controller) this.controller = null;
+      }
+      if (controller.signal.aborted || !text) return;
+      if (this.view.state.doc !== state.doc || this.view.state.selection.main.head !== pos) return;
+      this.view.dispatch({ effects: setSuggestion.of({ pos, text }) });
+    }
+  });
+}
+
+const ghostTextTheme = EditorView.baseTheme({
+  ".ss-ghost-text": {
+    color: "var(--text-faint)",
+    whiteSpace: "pre-wrap",
+    pointerEvents: "none",
+  },
+});
+
+/** Opt-in continuation suggestions; see `editorCompletionsEnabled`. */
+export function ghostTextExtension(options: GhostTextOptions): Extension {
+  return [
+    suggestionField,
+    ghostTextPlugin(options),
+    Prec.highest(keymap.of([
+      { key: "Tab", run: acceptGhostText },
+      { key: "Escape", run: dismissGhostText },
+    ])),
+    ghostTextTheme,
+  ];
+}
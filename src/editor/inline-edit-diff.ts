@@ -0,0 +1,139 @@
+/**
+ * Word-level diff for inline AI edits. The rewrite is compared token by token
+ * (words, whitespace runs, single punctuation marks) against the original so
+ * each hunk is a phrase the user can accept or reject on its own.
+ */
+
+/** A replacement of `original.slice(from, to)` by `insert`. */
+export type InlineEditHunk = Readonly<{
+  from: number;
+  to: number;
+  insert: string;
+}>;
+
+/**
+ * Above this many tokens on both sides (after trimming the common prefix and
+ * suffix) the changed middle becomes a single hunk instead of running the
+ * quadratic LCS table.
+ */
+export const MAX_INLINE_DIFF_TOKENS = 2_000;
+
+const TOKEN = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+
+export function tokenizeForInlineDiff(text: string): string[] {
+  return text.match(TOKEN) ?? [];
+}
+
+type Change = { from: number; to: number; insert: string };
+
+function commonPrefix(left: readonly string[], right: readonly string[]): number {
+  let count = 0;
+  while (count < left.length && count < right.length && left[count] === right[count]) count += 1;
+  return count;
+}
+
+function commonSuffix(left: readonly string[], right: readonly string[], prefix: number): number {
+  let count = 0;
+  while (
+    count < left.length - prefix
+    && count < right.length - prefix
+    && left[left.length - 1 - count] === right[right.length - 1 - count]
+  ) count += 1;
+  return count;
+}
+
+/** Token-level LCS over the trimmed middles, emitted as raw changes. */
+function lcsChanges(
+  left: readonly string[],
+  right: readonly string[],
+  leftOffset: number,
+): Change[] {
+  const rows = left.length + 1;
+  const columns = right.length + 1;
+  const table = new Uint16Array(rows * columns);
+  for (let i = left.length - 1; i >= 0; i -= 1) {
+    for (let j = right.length - 1; j >= 0; j -= 1) {
+      table[i * columns + j] = left[i] === right[j]
+        ? table[(i + 1) * columns + j + 1] + 1
+        : Math.max(table[(i + 1) * columns + j], table[i * columns + j + 1]);
+    }
+  }
+
+  const changes: Change[] = [];
+  let pending: Change | null = null;
+  let offset = leftOffset;
+  let i = 0;
+  let j = 0;
+  const flush = () => {
+    if (pending) changes.push(pending);
+    pending = null;
+  };
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && left[i] === right[j]) {
+      flush();
+      offset += left[i].length;
+      i += 1;
+      j += 1;
+    } else if (
+      j < right.length
+      && (i === left.length || table[i * columns + j + 1] >= table[(i + 1) * columns + j])
+    ) {
+      pending ??= { from: offset, to: offset, insert: "" };
+      pending.insert += right[j];
+      j += 1;
+    } else {
+      pending ??= { from: offset, to: offset, insert: "" };
+      offset += left[i].length;
+      pending.to = offset;
+      i += 1;
+    }
+  }
+  flush();
+  return changes;
+}
+
+/** Joins changes separated only by whitespace so "the quick" → "a slow" is one hunk. */
+function mergeAcrossWhitespace(original: string, changes: readonly Change[]): Change[] {
+  const merged: Change[] = [];
+  for (const change of changes) {
+    const previous = merged[merged.length - 1];
+    const between = previous ? original.slice(previous.to, change.from) : "";
+    if (previous && /^\s+$/.test(between)) {
+      previous.insert += between + change.insert;
+      previous.to = change.to;
+    } else {
+      merged.push({ ...change });
+    }
+  }
+  return merged;
+}
+
+/** Hunks that turn `original` into `proposed`, in document order. */
+export function diffInlineEdit(original: string, proposed: string): InlineEditHunk[] {
+  if (original === proposed) return [];
+  const left = tokenizeForInlineDiff(original);
+  const right = tokenizeForInlineDiff(proposed);
+  const prefix = commonPrefix(left, right);
+  const suffix = commonSuffix(left, right, prefix);
+  const leftMiddle = left.slice(prefix, left.length - suffix);
+  const rightMiddle = right.slice(prefix, right.length - suffix);
+  const start = left.slice(0, prefix).join("").length;
+
+  const changes = leftMiddle.length > MAX_INLINE_DIFF_TOKENS || rightMiddle.length > MAX_INLINE_DIFF_TOKENS
+    ? [{ from: start, to: start + leftMiddle.join("").length, insert: rightMiddle.join("") }]
+    : lcsChanges(leftMiddle, rightMiddle, start);
+  return mergeAcrossWhitespace(original, changes).map((change) => Object.freeze(change));
+}
+
+/**
+ * Diff against a rewrite that is still arriving. Whatever the rewrite has not
+ * reached yet would read as a deletion of the original's tail, so the trailing
+ * hunk keeps its new text but deletes nothing until the stream completes.
+ */
+export function diffStreamingInlineEdit(original: string, partial: string): InlineEditHunk[] {
+  const hunks = diffInlineEdit(original, partial);
+  const last = hunks[hunks.length - 1];
+  if (!last || last.to !== original.length) return hunks;
+  const head = hunks.slice(0, -1);
+  return last.insert ? [...head, Object.freeze({ from: last.from, to: last.from, insert: last.insert })] : head;
+}
@@ -0,0 +1,479 @@
+import {
+  Annotation,
+  StateEffect,
+  StateField,
+  type EditorState,
+  type Extension,
+  type Range,
+} from "@codemirror/state";
+import { Decoration, EditorView, ViewPlugin, WidgetType, type DecorationSet } from "@codemirror/view";
+import { createSurfaceElement } from "../core/ui/surface";
+import type { TextModificationState } from "../types";
+import { diffInlineEdit, diffStreamingInlineEdit } from "./inline-edit-diff";
+
+/**
+ * Inline AI edits for the markdown editor. The rewrite streams into a diff
+ * drawn over the original text: removed words are struck through in place and
+ * new words appear beside them, each hunk with its own accept, reject and
+ * retry buttons. Nothing touches the document until a hunk is accepted.
+ */
+
+export type InlineEditRequest = Readonly<{
+  instruction: string;
+  /** The whole passage being edited, as it currently reads. */
+  passage: string;
+  /** Set when retrying one hunk: the original words and the rejected rewrite. */
+  excerpt?: Readonly<{ original: string; previous: string }>;
+  signal: AbortSignal;
+  /** Reports the accumulated rewrite; buffered providers call it once. */
+  onText: (text: string) => void;
+}>;
+
+export type InlineEditGenerate = (request: InlineEditRequest) => Promise<string>;
+
+type InlineEditHunkState = Readonly<{
+  id: number;
+  from: number;
+  to: number;
+  insert: string;
+  retrying: boolean;
+}>;
+
+type InlineEditValue = Readonly<{
+  run: InlineEditRun;
+  from: number;
+  to: number;
+  text: TextModificationState;
+  hunks: readonly InlineEditHunkState[];
+}>;
+
+const startEffect = StateEffect.define<{ run: InlineEditRun; from: number; to: number }>();
+const proposalEffect = StateEffect.define<{ run: InlineEditRun; text: string; done: boolean }>();
+const hunkTextEffect = StateEffect.define<{ run: InlineEditRun; id: number; text: string; done: boolean }>();
+const resolveEffect = StateEffect.define<{ run: InlineEditRun; ids: readonly number[] }>();
+const errorEffect = StateEffect.define<{ run: InlineEditRun; message: string; discardHunks: boolean }>();
+const endEffect = StateEffect.define<InlineEditRun>();
+
+/** Marks the transactions that apply accepted hunks, so they don't cancel the edit. */
+const acceptAnnotation = Annotation.define<boolean>();
+
+let nextHunkId = 1;
+
+function toHunkStates(
+  original: string,
+  proposed: string,
+  offset: number,
+  streaming: boolean,
+): InlineEditHunkState[] {
+  const hunks = streaming ? diffStreamingInlineEdit(original, proposed) : diffInlineEdit(original, proposed);
+  return hunks.map((hunk) => ({
+    id: nextHunkId++,
+    from: hunk.from + offset,
+    to: hunk.to + offset,
+    insert: hunk.insert,
+    retrying: false,
+  }));
+}
+
+const inlineEditField = StateField.define<InlineEditValue | null>({
+  create: () => null,
+  update(value, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(startEffect)) {
+        const { run, from, to } = effect.value;
+        const originalText = tr.state.doc.sliceString(from, to);
+        return {
+          run,
+          from,
+          to,
+          text: { originalText, modifiedText: "", isStreaming: true, streamComplete: false },
+          hunks: [],
+        };
+      }
+    }
+    if (!value) return null;
+
+    if (tr.docChanged) {
+      // Someone else edited the passage; the diff no longer describes it.
+      if (!tr.annotation(acceptAnnotation) && tr.changes.touchesRange(value.from, value.to)) {
+        value.run.abort();
+        return null;
+      }
+      value = {
+        ...value,
+        from: tr.changes.mapPos(value.from, -1),
+        to: tr.changes.mapPos(value.to, 1),
+        hunks: value.hunks.map((hunk) => ({
+          ...hunk,
+          from: tr.changes.mapPos(hunk.from, -1),
+          to: tr.changes.mapPos(hunk.to, 1),
+        })),
+      };
+    }
+
+    for (const effect of tr.effects) {
+      if (effect.is(endEffect) && effect.value === value.run) return null;
+      if (effect.is(proposalEffect) && effect.value.run === value.run) {
+        const { text, done } = effect.value;
+        const current = tr.state.doc.sliceString(value.from, value.to);
+        value = {
+          ...value,
+          text: { ...value.text, modifiedText: text, isStreaming: !done, streamComplete: done, error: undefined },
+          hunks: toHunkStates(current, text, value.from, !done),
+        };
+      } else if (effect.is(hunkTextEffect) && effect.value.run === value.run) {
+        const { id, text, done } = effect.value;
+        value = {
+          ...value,
+          hunks: value.hunks.map((hunk) => hunk.id === id ? { ...hunk, insert: text, retrying: !done } : hunk),
+        };
+      } else if (effect.is(resolveEffect) && effect.value.run === value.run) {
+        const ids = new Set(effect.value.ids);
+        value = { ...value, hunks: value.hunks.filter((hunk) => !ids.has(hunk.id)) };
+        if (!value.text.isStreaming && value.hunks.length === 0) return null;
+      } else if (effect.is(errorEffect) && effect.value.run === value.run) {
+        value = {
+          ...value,
+          text: { ...value.text, isStreaming: false, streamComplete: false, error: effect.value.message },
+          hunks: effect.value.discardHunks ? [] : value.hunks,
+        };
+      }
+    }
+    return value;
+  },
+  provide: (field) => EditorView.decorations.from(field, (value) => value ? buildDecorations(value) : Decoration.none),
+});
+
+function button(
+  parent: HTMLElement,
+  label: string,
+  text: string,
+  disabled: boolean,
+  action: () => void,
+): void {
+  const element = parent.createEl("button", {
+    cls: "ss-inline-edit__button",
+    text,
+    attr: { type: "button", "aria-label": label, title: label },
+  });
+  element.disabled = disabled;
+  // Mouse down would move the editor selection into the widget first.
+  element.addEventListener("mousedown", (event) => event.preventDefault());
+  element.addEventListener("click", (event) => {
+    event.preventDefault();
+    action();
+  });
+}
+
+class InsertionWidget extends WidgetType {
+  constructor(
+    private readonly run: InlineEditRun,
+    private readonly hunk: InlineEditHunkState,
+    private readonly locked: boolean,
+  ) {
+    super();
+  }
+
+  eq(other: InsertionWidget): boolean {
+    return other.run === this.run
+      && other.hunk.id === this.hunk.id
+      && other.hunk.insert === this.hunk.insert
+      && other.hunk.retrying === this.hunk.retrying
+      && other.locked === this.locked;
+  }
+
+  toDOM(view: EditorView): HTMLElement {
+    const wrapper = createSurfaceElement(view.dom.ownerDocument, "span");
+    wrapper.className = "ss-inline-edit__hunk";
+    if (this.hunk.insert) wrapper.createSpan({ cls: "ss-inline-edit__added", text: this.hunk.insert });
+    const controls = wrapper.createSpan({ cls: "ss-inline-edit__controls" });
+    const busy = this.locked || this.hunk.retrying;
+    button(controls, "Accept change", "✓", busy, () => this.run.accept([this.hunk.id]));
+    button(controls, "Reject change", "✕", busy, () => this.run.reject([this.hunk.id]));
+    button(controls, "Retry change", "↻", busy, () => void this.run.retry(this.hunk.id));
+    return wrapper;
+  }
+
+  ignoreEvent(): boolean {
+    return true;
+  }
+}
+
+class ToolbarWidget extends WidgetType {
+  constructor(
+    private readonly run: InlineEditRun,
+    private readonly text: TextModificationState,
+    private readonly hunkCount: number,
+  ) {
+    super();
+  }
+
+  eq(other: ToolbarWidget): boolean {
+    return other.run === this.run
+      && other.hunkCount === this.hunkCount
+      && other.text.isStreaming === this.text.isStreaming
+      && other.text.error === this.text.error;
+  }
+
+  toDOM(view: EditorView): HTMLElement {
+    const toolbar = createSurfaceElement(view.dom.ownerDocument, "span");
+    toolbar.className = "ss-inline-edit__toolbar";
+    const status = this.text.error
+      ?? (this.text.isStreaming
+        ? "Rewriting…"
+        : this.hunkCount === 0 ? "No changes" : `${this.hunkCount} change${this.hunkCount === 1 ? "" : "s"}`);
+    toolbar.createSpan({ cls: "ss-inline-edit__status", text: status });
+    if (this.text.isStreaming) {
+      button(toolbar, "Stop", "Stop", false, () => this.run.cancel());
+      return toolbar;
+    }
+    const ids = () => this.run.pendingHunkIds();
+    button(toolbar, "Accept all changes", "Accept all", this.hunkCount === 0, () => this.run.accept(ids()));
+    button(toolbar, "Reject all changes", "Reject all", false, () => this.run.cancel());
+    button(toolbar, "Retry the whole rewrite", "Retry", false, () => void this.run.retryAll());
+    return toolbar;
+  }
+
+  ignoreEvent(): boolean {
+    return true;
+  }
+}
+
+const removedMark = Decoration.mark({ class: "ss-inline-edit__removed" });
+const passageMark = Decoration.mark({ class: "ss-inline-edit__passage" });
+
+function buildDecorations(value: InlineEditValue): DecorationSet {
+  const ranges: Range<Decoration>[] = [];
+  if (value.to > value.from) ranges.push(passageMark.range(value.from, value.to));
+  const locked = value.text.isStreaming;
+  for (const hunk of value.hunks) {
+    if (hunk.to > hunk.from) ranges.push(removedMark.range(hunk.from, hunk.to));
+    ranges.push(Decoration.widget({
+      widget: new InsertionWidget(value.run, hunk, locked),
+      side: 1,
+    }).range(hunk.to));
+  }
+  ranges.push(Decoration.widget({
+    widget: new ToolbarWidget(value.run, value.text, value.hunks.length),
+    side: 2,
+  }).range(value.to));
+  return Decoration.set(ranges, true);
+}
+
+const inlineEditTheme = EditorView.baseTheme({
+  ".ss-inline-edit__passage": {
+    backgroundColor: "rgba(var(--color-accent-rgb), 0.06)",
+  },
+  ".ss-inline-edit__removed": {
+    color: "var(--text-error)",
+    textDecoration: "line-through",
+    backgroundColor: "rgba(var(--color-red-rgb), 0.1)",
+  },
+  ".ss-inline-edit__added": {
+    color: "var(--text-success)",
+    backgroundColor: "rgba(var(--color-green-rgb), 0.12)",
+    whiteSpace: "pre-wrap",
+  },
+  ".ss-inline-edit__controls, .ss-inline-edit__toolbar": {
+    display: "inline-flex",
+    gap: "2px",
+    marginInlineStart: "4px",
+    verticalAlign: "middle",
+  },
+  ".ss-inline-edit__toolbar": {
+    gap: "4px",
+    padding: "0 4px",
+    borderRadius: "var(--radius-s)",
+    backgroundColor: "var(--background-secondary)",
+    fontSize: "var(--font-ui-smaller)",
+  },
+  ".ss-inline-edit__status": {
+    color: "var(--text-muted)",
+    alignSelf: "center",
+  },
+  ".ss-inline-edit__button": {
+    padding: "0 6px",
+    height: "auto",
+    fontSize: "var(--font-ui-smaller)",
+    lineHeight: "1.6",
+    boxShadow: "none",
+  },
+});
+
+/** Aborts in-flight generation when the editor closes. */
+const inlineEditTeardown = ViewPlugin.define((view) => ({
+  destroy() {
+    view.state.field(inlineEditField, false)?.run.abort();
+  },
+}));
+
+/** Registered once by the plugin; idle until an inline edit starts. */
+export function inlineEditExtension(): Extension {
+  return [inlineEditField, inlineEditTheme, inlineEditTeardown];
+}
+
+/**
+ * The range an inline edit works on: the selection when there is one,
+ * otherwise the paragraph around the cursor (blank lines delimit it).
+ */
+export function inlineEditRange(state: EditorState): { from: number; to: number } | null {
+  const selection = state.selection.main;
+  if (!selection.empty) return { from: selection.from, to: selection.to };
+  const { doc } = state;
+  const cursorLine = doc.lineAt(selection.head);
+  if (!cursorLine.text.trim()) return null;
+  let first = cursorLine.number;
+  let last = cursorLine.number;
+  while (first > 1 && doc.line(first - 1).text.trim()) first -= 1;
+  while (last < doc.lines && doc.line(last + 1).text.trim()) last += 1;
+  return { from: doc.line(first).from, to: doc.line(last).to };
+}
+
+/** Whether the editor is showing an inline edit. */
+export function hasInlineEdit(view: EditorView): boolean {
+  return Boolean(view.state.field(inlineEditField, false));
+}
+
+/** One inline edit in one editor: owns its requests and applies the user's decisions. */
+export class InlineEditRun {
+  private controller: AbortController | null = null;
+  private readonly hunkControllers = new Map<number, AbortController>();
+
+  constructor(
+    private readonly view: EditorView,
+    private readonly instruction: string,
+    private readonly generate: InlineEditGenerate,
+  ) {}
+
+  public pendingHunkIds(): number[] {
+    return this.value()?.hunks.map((hunk) => hunk.id) ?? [];
+  }
+
+  /** Applies hunks to the document and removes them from the preview. */
+  public accept(ids: readonly number[]): void {
+    const value = this.value();
+    if (!value || value.text.isStreaming) return;
+    const wanted = new Set(ids);
+    const hunks = value.hunks.filter((hunk) => wanted.has(hunk.id) && !hunk.retrying);
+    if (hunks.length === 0) return;
+    this.view.dispatch({
+      changes: hunks.map((hunk) => ({ from: hunk.from, to: hunk.to, insert: hunk.insert })),
+      effects: resolveEffect.of({ run: this, ids: hunks.map((hunk) => hunk.id) }),
+      annotations: acceptAnnotation.of(true),
+      userEvent: "input.ai-edit",
+    });
+  }
+
+  public reject(ids: readonly number[]): void {
+    if (!this.value()) return;
+    for (const id of ids) this.hunkControllers.get(id)?.abort();
+    this.view.dispatch({ effects: resolveEffect.of({ run: this, ids }) });
+  }
+
+  /** Stops any request and clears the preview, leaving the document as it is. */
+  public cancel(): void {
+    this.abort();
+    if (this.value()) this.view.dispatch({ effects: endEffect.of(this) });
+  }
+
+  /** Stops requests without touching the editor; safe to call mid-update. */
+  public abort(): void {
+    this.controller?.abort();
+    this.controller = null;
+    for (const controller of this.hunkControllers.values()) controller.abort();
+    this.hunkControllers.clear();
+  }
+
+  /** Rewrites the passage as it now reads; accepted hunks are kept. */
+  public async retryAll(): Promise<void> {
+    const value = this.value();
+    if (!value || value.text.isStreaming) return;
+    for (const controller of this.hunkControllers.values()) controller.abort();
+    this.hunkControllers.clear();
+    this.view.dispatch({ effects: startEffect.of({ run: this, from: value.from, to: value.to }) });
+    await this.generatePassage();
+  }
+
+  /** Asks for a different rewrite of one hunk's original words. */
+  public async retry(id: number): Promise<void> {
+    const value = this.value();
+    const hunk = value?.hunks.find((candidate) => candidate.id === id);
+    if (!value || !hunk || hunk.retrying || value.text.isStreaming) return;
+    const controller = new AbortController();
+    this.hunkControllers.set(id, controller);
+    const previous = hunk.insert;
+    const dispatchText = (text: string, done: boolean) => {
+      if (controller.signal.aborted) return;
+      if (!this.value()?.hunks.some((candidate) => candidate.id === id)) {
+        controller.abort();
+        return;
+      }
+      this.view.dispatch({ effects: hunkTextEffect.of({ run: this, id, text, done }) });
+    };
+    dispatchText(previous, false);
+    try {
+      const text = await this.generate({
+        instruction: this.instruction,
+        passage: this.view.state.doc.sliceString(value.from, value.to),
+        excerpt: { original: this.view.state.doc.sliceString(hunk.from, hunk.to), previous },
+        signal: controller.signal,
+        onText: (partial) => dispatchText(partial, false),
+      });
+      dispatchText(text, true);
+    } catch (error) {
+      dispatchText(previous, true);
+      if (!controller.signal.aborted) this.fail(error, false);
+    } finally {
+      if (this.hunkControllers.get(id) === controller) this.hunkControllers.delete(id);
+    }
+  }
+
+  /** Shows the preview over `from`–`to` and streams the first rewrite into it. */
+  public async start(from: number, to: number): Promise<void> {
+    const existing = this.view.state.field(inlineEditField, false);
+    existing?.run.cancel();
+    this.view.dispatch({ effects: startEffect.of({ run: this, from, to }) });
+    await this.generatePassage();
+  }
+
+  private async generatePassage(): Promise<void> {
+    const value = this.value();
+    if (!value) return;
+    this.controller?.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+    const dispatchText = (text: string, done: boolean) => {
+      if (controller.signal.aborted) return;
+      if (!this.value()) {
+        controller.abort();
+        return;
+      }
+      this.view.dispatch({ effects: proposalEffect.of({ run: this, text, done }) });
+    };
+    try {
+      const text = await this.generate({
+        instruction: this.instruction,
+        passage: value.text.originalText,
+        signal: controller.signal,
+        onText: (partial) => dispatchText(partial, false),
+      });
+      dispatchText(text, true);
+    } catch (error) {
+      // A half-streamed rewrite is not worth accepting piecemeal.
+      if (!controller.signal.aborted) this.fail(error, true);
+    } finally {
+      if (this.controller === controller) this.controller = null;
+    }
+  }
+
+  private fail(error: unknown, discardHunks: boolean): void {
+    if (!this.value()) return;
+    const message = error instanceof Error && error.message ? error.message : "The rewrite failed.";
+    this.view.dispatch({ effects: errorEffect.of({ run: this, message, discardHunks }) });
+  }
+
+  private value(): InlineEditValue | null {
+    const value = this.view.state.field(inlineEditField, false);
+    return value?.run === this ? value : null;
+  }
+}
@@ -17,7 +17,7 @@ ErrorCollectorService.initializeEarlyLogsCapture();
 /**
  * SystemSculpt AI Plugin for Obsidian
  */
-import { Plugin, Notice, FileSystemAdapter, apiVersion } from "obsidian";
+import { Plugin, Notice, FileSystemAdapter, apiVersion, editorInfoField } from "obsidian";
 export { StudioProjectGenerationStore } from "./studio/persistence/StudioProjectGenerationStore";
 export { ObsidianStudioGenerationAdapter } from "./studio/persistence/ObsidianStudioGenerationAdapter";
 import { checkObsidianCompatibility, MINIMUM_OBSIDIAN_VERSION } from "./core/plugin/lifecycle/ObsidianCompat";
@@ -31,6 +31,7 @@ import { SettingsManager } from "./core/settings/SettingsManager";
 import { LicenseManager } from "./core/license/LicenseManager";
 import type { ViewManager } from "./core/plugin/views";
 import type { CommandManager } from "./core/plugin/commands";
+import type { ProtocolManager } from "./core/plugin/protocol";
 import { setLogLevel } from "./utils/errorHandling";
 import { errorLogger } from "./utils/errorLogger";
 import { DirectoryManager } from "./core/DirectoryManager";
@@ -51,10 +52,15 @@ import { tryCopyToClipboard } from "./utils/clipboard";
 import { EventEmitter } from "./core/EventEmitter";
 import { LifecycleCoordinator, LifecycleFailureEvent } from "./core/plugin/lifecycle/LifecycleCoordinator";
 import { WorkflowEngineService } from "./services/workflow/WorkflowEngineService";
+import { StudioTriggerService } from "./studio/StudioTriggerService";
 import type { SystemSculptSearchEngine } from "./services/search/SystemSculptSearchEngine";
 import { relativeLineNumbersExtension } from "./editor/relative-line-numbers";
+import { ghostTextExtension } from "./editor/ghost-text";
+import { createEditorCompletionSource } from "./services/EditorCompletionService";
+import { inlineEditExtension } from "./editor/inline-edit";
 import { type Extension } from "@codemirror/state";
 import type { StudioService } from "./studio/StudioService";
+import { PublicApi, type SystemSculptApi } from "./core/plugin/PublicApi";
 import { SYSTEMSCULPT_STUDIO_VIEW_TYPE } from "./core/plugin/viewTypes";
 import { API_BASE_URL } from "./constants/api";
 import { ManagedCapabilityClient } from "./services/managed/ManagedCapabilityClient";
@@ -66,6 +72,7 @@ import { getDevelopmentBuildIdentity } from "./core/plugin/DevelopmentBuildIdent
 
 type ViewManagerModule = typeof import("./core/plugin/views");
 type CommandManagerModule = typeof import("./core/plugin/commands");
+type ProtocolManagerModule = typeof import("./core/plugin/protocol");
 type StudioServiceModule = typeof import("./studio/StudioService");
 type SystemSculptSearchEngineModule = typeof import("./services/search/SystemSculptSearchEngine");
 type RecorderServiceModule = typeof import("./services/RecorderService");
@@ -79,6 +86,10 @@ function loadCommandManagerModule(): CommandManagerModule {
   return require("./core/plugin/commands");
 }
 
+function loadProtocolManagerModule(): ProtocolManagerModule {
+  return require("./core/plugin/protocol");
+}
+
 function loadStudioServiceModule(): StudioServiceModule {
   return require("./studio/StudioService");
 }
@@ -170,6 +181,7 @@ export default class SystemSculptPlugin extends Plugin {
   private licenseManager: LicenseManager;
   private viewManager: ViewManager | null = null;
   private commandManager: CommandManager;
+  private protocolManager: ProtocolManager | null = null;
   private fileContextMenuService: FileContextMenuService | null = null;
   private isUnloading = false;
   private isPreloadingDone = false;
@@ -194,16 +206,22 @@ export default class SystemSculptPlugin extends Plugin {
   private workflowEngineService: WorkflowEngineService | null = null;
   private searchEngine: SystemSculptSearchEngine | null = null;
   private studioService: StudioService | null = null;
+  private studioTriggerService: StudioTriggerService | null = null;
   private managedCapabilityGraph: ManagedCapabilityClientGraph | null = null;
   private pluginUpdateService: PluginUpdateService | null = null;
+  private publicApi: SystemSculptApi | null = null;
   /** Live-reconfigurable slot for the relative line number gutter editor extension. */
   private readonly relativeLineNumberExtensions: Extension[] = [];
   private relativeLineNumbersApplied = false;
+  /** Live-reconfigurable slot for the ghost-text continuation editor extension. */
+  private readonly editorCompletionExtensions: Extension[] = [];
+  private editorCompletionsApplied = false;
   private pendingSettingsFocusTab: string | null = null;
   // Removed complex settings callback system - embeddings are now completely on-demand
 
   // Simple initialization tracking
   private embeddingsInitialized = false;
+  private embeddingsProviderKey: string | null = null;
 
   private criticalInitializationPromise: Promise<void> | null = null;
   private deferredInitializationPromise: Promise<void> | null = null;
@@ -219,6 +237,17 @@ export default class SystemSculptPlugin extends Plugin {
     return this._aiService;
   }
 
+  /**
+   * Stable, versioned surface for scripts (Templater, Dataview, other
+   * plugins). See docs/public-api.md.
+   */
+  public get api(): SystemSculptApi {
+    if (!this.publicApi) {
+      this.publicApi = new PublicApi(this, this.app);
+    }
+    return this.publicApi;
+  }
+
   public getManagedCapabilityClient(): ManagedCapabilityClient {
     return this.getManagedCapabilityGraph().client;
   }
@@ -227,6 +256,11 @@ export default class SystemSculptPlugin extends Plugin {
     if (!this.managedCapabilityGraph) this.managedCapabilityGraph = ManagedCapabilityClientFactory.createGraph({
       baseUrl: new URL(API_BASE_URL).origin, pluginVersion: this.manifest.version,
       licenseKey: () => this.settings.licenseKey,
+      providerChoices: () => this.settings.capabilityProviders,
+      openAICompatibleProfile: () => ({
+        ...this.settings.openAICompatibleProvider,
+        apiKey: this.settings.openAICompatibleApiKey,
+      }),
     });
     return this.managedCapabilityGraph;
   }
@@ -237,6 +271,7 @@ export default class SystemSculptPlugin extends Plugin {
   public getOrCreateEmbeddingsManager(): EmbeddingsManager {
     if (!this.embeddingsManager) {
       this.embeddingsManager = new EmbeddingsManager(this.app, this);
+      this.embeddingsProviderKey = this.currentEmbeddingsProviderKey();
 
       // Initialize in background if not already done
       if (!this.embeddingsInitialized) {
@@ -259,6 +294,27 @@ export default class SystemSculptPlugin extends Plugin {
     return manager;
   }
 
+  private currentEmbeddingsProviderKey(): string {
+    const profile = this.settings.openAICompatibleProvider;
+    return this.settings.capabilityProviders.embeddings === "openai-compatible"
+      ? `openai-compatible|${profile.baseUrl}|${profile.embeddingsModel}`
+      : "systemsculpt";
+  }
+
+  /**
+   * The embeddings manager binds its index gateway and generation state at
+   * construction, so switching the embeddings provider (or its server or
+   * model) replaces the manager instead of mutating it.
+   */
+  private async syncEmbeddingsProvider(): Promise<void> {
+    const manager = this.embeddingsManager;
+    if (!manager || this.embeddingsProviderKey === this.currentEmbeddingsProviderKey()) return;
+    this.embeddingsManager = null;
+    this.embeddingsInitialized = false;
+    await manager.cleanup();
+    if (this.settings.embeddingsEnabled) this.getOrCreateEmbeddingsManager();
+  }
+
   public getSearchEngine(): SystemSculptSearchEngine {
     if (!this.searchEngine) {
       const { SystemSculptSearchEngine } = loadSystemSculptSearchEngineModule();
@@ -599,8 +655,11 @@ export default class SystemSculptPlugin extends Plugin {
 
         PlatformContext.initialize();
         // Registered empty; filled in / cleared by syncRelativeLineNumbersExtension()
-        // once settings load and whenever the toggle changes.
+        // and syncEditorCompletionsExtension() once settings load and whenever
+        // their toggles change.
         this.registerEditorExtension(this.relativeLineNumberExtensions);
+        this.registerEditorExtension(this.editorCompletionExtensions);
+        this.registerEditorExtension(inlineEditExtension());
         this.ensureSettingsManagerInstance();
       },
     });
@@ -634,6 +693,15 @@ export default class SystemSculptPlugin extends Plugin {
           })
         );
 
+        this.registerEvent(
+          this.app.workspace.on("editor-menu", (menu, editor) => {
+            menu.addItem((item) => item
+              .setTitle("Edit with AI")
+              .setIcon("wand-2")
+              .onClick(() => void this.ensureCommandManager().startInlineEdit(editor)));
+          })
+        );
+
         this.registerEvent(
           this.app.workspace.on("systemsculpt:settings-updated", () => {
             try {
@@ -645,6 +713,12 @@ export default class SystemSculptPlugin extends Plugin {
               });
             }
 
+            void this.syncEmbeddingsProvider().catch((error) => {
+              this.getLogger().error("Embeddings provider switch failed", error, {
+                source: "SystemSculptPlugin",
+              });
+            });
+
             try {
               this.syncRelativeLineNumbersExtension();
             } catch (error) {
@@ -653,6 +727,14 @@ export default class SystemSculptPlugin extends Plugin {
                 source: "SystemSculptPlugin",
               });
             }
+
+            try {
+              this.syncEditorCompletionsExtension();
+            } catch (error) {
+              this.getLogger().error("Continuation suggestions settings sync failed", error, {
+                source: "SystemSculptPlugin",
+              });
+            }
           })
         );
 
@@ -1217,6 +1299,13 @@ export default class SystemSculptPlugin extends Plugin {
           source: "SystemSculptPlugin",
         });
       }
+      try {
+        this.syncEditorCompletionsExtension();
+      } catch (error) {
+        logger.error("Continuation suggestions startup sync failed", error, {
+          source: "SystemSculptPlugin",
+        });
+      }
 
       const debugMode = this.settings.debugMode ?? false;
       const logLevel = debugMode ? LogLevel.DEBUG : this.settings.logLevel ?? LogLevel.WARNING;
@@ -1483,6 +1572,9 @@ export default class SystemSculptPlugin extends Plugin {
       wrap("workflowEngine", "workflow engine service", () => {
         this.ensureWorkflowEngineService();
       }),
+      wrap("studioTriggers", "Studio trigger service", () => {
+        this.ensureStudioTriggerService();
+      }),
     ]);
 
     if (failures.length > 0) {
@@ -1536,6 +1628,36 @@ export default class SystemSculptPlugin extends Plugin {
     this.app.workspace.updateOptions();
   }
 
+  /**
+   * Apply or remove ghost-text continuations across open editors to match the
+   * current setting, the same way as {@link syncRelativeLineNumbersExtension}.
+   */
+  syncEditorCompletionsExtension(): void {
+    const enabled = Boolean(this.settings.editorCompletionsEnabled);
+    if (enabled === this.editorCompletionsApplied) {
+      return;
+    }
+
+    this.editorCompletionExtensions.length = 0;
+    if (enabled) {
+      this.editorCompletionExtensions.push(ghostTextExtension({
+        complete: createEditorCompletionSource({
+          generateText: (operation) => this.getManagedCapabilityClient().generateText(operation),
+          neighbours: async (filePath, signal) => {
+            // Never wait on indexing: a suggestion that arrives late is useless.
+            const manager = this.settings.embeddingsEnabled ? this.embeddingsManager : null;
+            if (!manager?.isReady()) return [];
+            const results = await manager.findSimilar(filePath, 4, signal);
+            return results.map((result) => ({ path: result.path, excerpt: result.metadata.excerpt }));
+          },
+        }),
+        filePath: (state) => state.field(editorInfoField, false)?.file?.path ?? null,
+      }));
+    }
+    this.editorCompletionsApplied = enabled;
+    this.app.workspace.updateOptions();
+  }
+
   private async initializeManagers() {
     if (this.managersInitialized) {
       return;
@@ -1591,6 +1713,18 @@ export default class SystemSculptPlugin extends Plugin {
     return this.commandManager;
   }
 
+  private ensureProtocolManager(): ProtocolManager {
+    if (this.protocolManager) {
+      return this.protocolManager;
+    }
+
+    const { ProtocolManager } = loadProtocolManagerModule();
+    const protocolManager = new ProtocolManager(this, this.app);
+    protocolManager.register();
+    this.protocolManager = protocolManager;
+    return this.protocolManager;
+  }
+
   private async performManagersInitialization() {
     const tracer = this.getInitializationTracer();
     const phase = tracer.startPhase("managers.initialize", {
@@ -1609,6 +1743,7 @@ export default class SystemSculptPlugin extends Plugin {
       this.ensureViewManager();
       this.registerStudioExtensionsIfNeeded();
       this.ensureCommandManager();
+      this.ensureProtocolManager();
 
       const metadata = {
         managers: [
@@ -1616,6 +1751,7 @@ export default class SystemSculptPlugin extends Plugin {
           "ResumeChatService",
           "ViewManager",
           "CommandManager",
+          "ProtocolManager",
         ],
       };
 
@@ -1775,6 +1911,11 @@ export default class SystemSculptPlugin extends Plugin {
         this.searchEngine = null;
       }
 
+      if (this.studioTriggerService) {
+        this.studioTriggerService.destroy();
+        this.studioTriggerService = null;
+      }
+
       if (this.studioService) {
         await this.studioService.dispose().catch(() => {});
         this.studioService = null;
@@ -2066,6 +2207,19 @@ export default class SystemSculptPlugin extends Plugin {
     return this.workflowEngineService;
   }
 
+  getWorkflowEngineService(): WorkflowEngineService {
+    return this.ensureWorkflowEngineService();
+  }
+
+  private ensureStudioTriggerService(): StudioTriggerService {
+    if (!this.studioTriggerService) {
+      this.studioTriggerService = new StudioTriggerService(this, () => this.getStudioService());
+      this.studioTriggerService.initialize();
+    }
+
+    return this.studioTriggerService;
+  }
+
   getTranscriptionService(): TranscriptionService {
     return this.transcriptionService;
   }
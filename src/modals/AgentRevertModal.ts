@@ -0,0 +1,131 @@
+import { App, setIcon } from "obsidian";
+import { StandardModal } from "../core/ui/modals/standard/StandardModal";
+import { DiffViewer } from "../components/DiffViewer";
+import { generateDiff } from "../utils/diffUtils";
+import type { MutationFileImage } from "../views/chatview/agent/MutationJournal";
+import type { MutationRevertPlan } from "../views/chatview/agent/MutationRevert";
+
+export interface AgentRevertModalOptions {
+  title: string;
+  description: string;
+  plan: MutationRevertPlan;
+}
+
+export type AgentRevertDecision = Readonly<{ overwriteConflicts: boolean }>;
+
+function imageText(image: MutationFileImage): string | null {
+  return image.exists ? image.content : "";
+}
+
+function fileStatus(file: MutationRevertPlan["files"][number]): { label: string; icon: string } {
+  if (file.unrestorable) return { label: "Cannot restore", icon: "ban" };
+  if (file.conflict) return { label: "Edited since", icon: "alert-triangle" };
+  if (!file.restored.exists) return { label: "Will be deleted", icon: "file-minus" };
+  if (!file.current.exists) return { label: "Will be recreated", icon: "file-plus" };
+  return { label: "Will be restored", icon: "rotate-ccw" };
+}
+
+/** Previews an agent revert file by file and asks how to treat conflicts. */
+export class AgentRevertModal extends StandardModal {
+  private resolver: ((decision: AgentRevertDecision | null) => void) | null = null;
+  private overwriteConflicts = false;
+  private readonly viewers: DiffViewer[] = [];
+
+  constructor(
+    app: App,
+    private readonly options: AgentRevertModalOptions,
+  ) {
+    super(app);
+    this.setSize("large");
+    this.modalEl.addClass("ss-agent-revert-modal");
+  }
+
+  onOpen(): void {
+    super.onOpen();
+    this.addTitle(this.options.title, this.options.description);
+    this.renderFiles();
+    this.addActionButton("agent.revert.cancel", "Cancel", () => this.settle(null));
+    this.addActionButton(
+      "agent.revert.accept",
+      "Revert",
+      () => this.settle({ overwriteConflicts: this.overwriteConflicts }),
+      true,
+      "undo-2",
+    );
+  }
+
+  open(): Promise<AgentRevertDecision | null> {
+    return new Promise((resolve) => {
+      this.resolver = resolve;
+      super.open();
+    });
+  }
+
+  onClose(): void {
+    this.viewers.forEach((viewer) => viewer.unload());
+    this.resolve(null);
+    super.onClose();
+  }
+
+  private renderFiles(): void {
+    const { plan } = this.options;
+    const list = this.contentEl.createDiv({ cls: "ss-agent-revert__files" });
+    for (const file of plan.files) {
+      const status = fileStatus(file);
+      const row = list.createDiv({
+        cls: `ss-agent-revert__file${file.conflict ? " is-conflict" : ""}`,
+      });
+      const header = row.createDiv({ cls: "ss-agent-revert__file-header" });
+      setIcon(header.createSpan({ cls: "ss-agent-revert__file-icon" }), status.icon);
+      header.createSpan({ cls: "ss-agent-revert__file-path", text: file.path });
+      header.createSpan({ cls: "ss-agent-revert__file-status", text: status.label });
+      if (file.unrestorable) continue;
+      const current = imageText(file.current);
+      const restored = imageText(file.restored);
+      if (current === null || restored === null) continue;
+      const viewer = new DiffViewer({
+        container: row.createDiv({ cls: "ss-agent-revert__diff" }),
+        diffResult: generateDiff(current, restored, 3),
+        fileName: file.path,
+        maxContextLines: 3,
+        showLineNumbers: true,
+      });
+      viewer.render();
+      this.viewers.push(viewer);
+    }
+    for (const move of plan.moves) {
+      const row = list.createDiv({
+        cls: `ss-agent-revert__file${move.conflict ? " is-conflict" : ""}`,
+      });
+      const header = row.createDiv({ cls: "ss-agent-revert__file-header" });
+      setIcon(header.createSpan({ cls: "ss-agent-revert__file-icon" }), move.conflict ? "alert-triangle" : "undo-2");
+      header.createSpan({ cls: "ss-agent-revert__file-path", text: `${move.from} → ${move.to}` });
+      header.createSpan({
+        cls: "ss-agent-revert__file-status",
+        text: move.conflict ? "Moved or replaced since" : "Will be moved back",
+      });
+    }
+
+    if (plan.files.some((file) => file.conflict) || plan.moves.some((move) => move.conflict)) {
+      const label = this.contentEl.createEl("label", { cls: "ss-agent-revert__overwrite" });
+      const checkbox = label.createEl("input", { type: "checkbox" });
+      checkbox.dataset.testid = "agent.revert.overwrite";
+      label.createSpan({ text: "Also revert files edited after the agent changed them" });
+      this.registerDomEvent(checkbox, "change", () => {
+        this.overwriteConflicts = checkbox.checked;
+      });
+    }
+  }
+
+  private settle(decision: AgentRevertDecision | null): void {
+    this.resolve(decision);
+    this.close();
+  }
+
+  private resolve(decision: AgentRevertDecision | null): void {
+    const resolve = this.resolver;
+    if (!resolve) return;
+    this.resolver = null;
+    resolve(decision);
+  }
+}
@@ -16,12 +16,14 @@ import {
   captureNoteInsertionTarget,
   type TranscriptionInsertionValidator,
 } from "../services/transcription/NoteInsertionTarget";
+import type { TranscriptionOutputFormat } from "../types";
 import { formatFileSize } from "../utils/FileValidator";
 import { tryCopyToClipboard } from "../utils/clipboard";
 
 export interface AudioTranscriptionPanelOptions {
   file: TFile;
   timestamped?: boolean;
+  outputFormat?: TranscriptionOutputFormat;
   targetEditor?: Editor | null;
   validateInsertionTarget?: TranscriptionInsertionValidator;
   openOnComplete?: boolean;
@@ -93,6 +95,7 @@ export class AudioTranscriptionPanel {
       targetEditor: this.targetEditor,
       validateInsertionTarget: this.validateInsertionTarget,
       timestamped: this.options.timestamped,
+      ...(this.options.outputFormat ? { outputFormat: this.options.outputFormat } : {}),
       ...(this.resumeOperationId ? { resumeOperationId: this.resumeOperationId } : {}),
       onProgress: (event) => this.handleProgress(event),
     });
@@ -0,0 +1,85 @@
+import { App } from "obsidian";
+import { StandardModal } from "../core/ui/modals/standard/StandardModal";
+
+const PREVIEW_LENGTH = 240;
+
+export interface InlineEditInstructionOptions {
+  initialInstruction?: string;
+  /** False when the rewrite arrives in one piece instead of streaming in. */
+  streams: boolean;
+}
+
+/** Asks how the selected passage should be rewritten. */
+export class InlineEditInstructionModal extends StandardModal {
+  private resolver: ((instruction: string | null) => void) | null = null;
+
+  constructor(
+    app: App,
+    private readonly passage: string,
+    private readonly options: InlineEditInstructionOptions,
+  ) {
+    super(app);
+    this.setSize("medium");
+    this.modalEl.addClass("ss-inline-edit-modal");
+  }
+
+  onOpen(): void {
+    super.onOpen();
+    this.addTitle(
+      "Edit with AI",
+      this.options.streams
+        ? "Describe the change. You can accept or reject each edit afterwards."
+        : "Describe the change. SystemSculpt shows the rewrite once it is finished; you can accept or reject each edit afterwards.",
+    );
+    const preview = this.passage.trim();
+    this.contentEl.createDiv({
+      cls: "ss-inline-edit-modal__passage",
+      text: preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH)}…` : preview,
+    });
+    const input = this.contentEl.createEl("textarea", {
+      cls: "ss-inline-edit-modal__instruction",
+      attr: { rows: "3", placeholder: "Make it more concise" },
+    });
+    input.value = this.options.initialInstruction ?? "";
+    input.dataset.testid = "inline-edit.instruction";
+    this.registerDomEvent(input, "keydown", (event) => {
+      const key = event as KeyboardEvent;
+      if (key.key !== "Enter" || key.shiftKey || key.isComposing) return;
+      event.preventDefault();
+      this.submit(input.value);
+    });
+    this.addActionButton("inline-edit.cancel", "Cancel", () => this.settle(null));
+    this.addActionButton("inline-edit.submit", "Rewrite", () => this.submit(input.value), true, "wand-2");
+    input.focus();
+    input.select();
+  }
+
+  open(): Promise<string | null> {
+    return new Promise((resolve) => {
+      this.resolver = resolve;
+      super.open();
+    });
+  }
+
+  onClose(): void {
+    this.resolve(null);
+    super.onClose();
+  }
+
+  private submit(value: string): void {
+    const instruction = value.trim();
+    if (instruction) this.settle(instruction);
+  }
+
+  private settle(instruction: string | null): void {
+    this.resolve(instruction);
+    this.close();
+  }
+
+  private resolve(instruction: string | null): void {
+    const resolve = this.resolver;
+    if (!resolve) return;
+    this.resolver = null;
+    resolve(instruction);
+  }
+}
@@ -0,0 +1,76 @@
+import { App } from "obsidian";
+import { StandardModal } from "../core/ui/modals/standard/StandardModal";
+import type { PromptTemplate } from "../services/prompts/PromptTemplates";
+
+/** Asks for the custom variables of a prompt template before it is inserted. */
+export class PromptTemplateVariablesModal extends StandardModal {
+  private resolver: ((values: Record<string, string> | null) => void) | null = null;
+  private readonly values: Record<string, string> = {};
+
+  constructor(
+    app: App,
+    private readonly template: PromptTemplate,
+  ) {
+    super(app);
+    this.setSize("small");
+    this.modalEl.addClass("ss-prompt-variables-modal");
+  }
+
+  onOpen(): void {
+    super.onOpen();
+    this.addTitle(`/${this.template.command}`, this.template.description || "Fill in the template.");
+    const form = this.contentEl.createDiv({ cls: "ss-prompt-variables__fields" });
+    let first: HTMLInputElement | null = null;
+    for (const variable of this.template.variables) {
+      this.values[variable.name] = variable.defaultValue ?? "";
+      const field = form.createEl("label", { cls: "ss-prompt-variables__field" });
+      field.createSpan({ cls: "ss-prompt-variables__label", text: variable.name });
+      if (variable.description) {
+        field.createSpan({ cls: "ss-prompt-variables__description", text: variable.description });
+      }
+      const input = field.createEl("input", {
+        cls: "ss-prompt-variables__input",
+        type: "text",
+        value: this.values[variable.name],
+      });
+      input.dataset.testid = `prompt.variables.${variable.name}`;
+      this.registerDomEvent(input, "input", () => {
+        this.values[variable.name] = input.value;
+      });
+      this.registerDomEvent(input, "keydown", (event) => {
+        const key = event as KeyboardEvent;
+        if (key.key !== "Enter" || key.isComposing) return;
+        event.preventDefault();
+        this.settle({ ...this.values });
+      });
+      first ??= input;
+    }
+    this.addActionButton("prompt.variables.cancel", "Cancel", () => this.settle(null));
+    this.addActionButton("prompt.variables.insert", "Insert", () => this.settle({ ...this.values }), true);
+    first?.focus();
+  }
+
+  open(): Promise<Record<string, string> | null> {
+    return new Promise((resolve) => {
+      this.resolver = resolve;
+      super.open();
+    });
+  }
+
+  onClose(): void {
+    this.resolve(null);
+    super.onClose();
+  }
+
+  private settle(values: Record<string, string> | null): void {
+    this.resolve(values);
+    this.close();
+  }
+
+  private resolve(values: Record<string, string> | null): void {
+    const resolve = this.resolver;
+    if (!resolve) return;
+    this.resolver = null;
+    resolve(values);
+  }
+}
@@ -0,0 +1,70 @@
+import { App } from "obsidian";
+import { StandardModal } from "../core/ui/modals/standard/StandardModal";
+
+export interface ProtocolActionConfirmDetail {
+  label: string;
+  value: string;
+}
+
+export interface ProtocolActionConfirmOptions {
+  title: string;
+  description: string;
+  details: readonly ProtocolActionConfirmDetail[];
+  confirmLabel: string;
+}
+
+/**
+ * Asks before a `obsidian://systemsculpt` link runs something. Any web page can
+ * open these links, so routes that write notes or spend credits wait for the
+ * user to see exactly what the link asks for.
+ */
+export class ProtocolActionConfirmModal extends StandardModal {
+  private resolver: ((confirmed: boolean) => void) | null = null;
+
+  constructor(
+    app: App,
+    private readonly options: ProtocolActionConfirmOptions,
+  ) {
+    super(app);
+    this.setSize("small");
+    this.modalEl.addClass("ss-protocol-confirm-modal");
+  }
+
+  onOpen(): void {
+    super.onOpen();
+    this.addTitle(this.options.title, this.options.description);
+    const body = this.contentEl.createDiv({ cls: "ss-modal__custom-content" });
+    const list = body.createEl("ul");
+    for (const detail of this.options.details) {
+      const item = list.createEl("li");
+      item.createEl("strong", { text: `${detail.label}: ` });
+      item.appendText(detail.value);
+    }
+    this.addActionButton("protocol.confirm.cancel", "Cancel", () => this.settle(false));
+    this.addActionButton("protocol.confirm.accept", this.options.confirmLabel, () => this.settle(true), true);
+  }
+
+  open(): Promise<boolean> {
+    return new Promise((resolve) => {
+      this.resolver = resolve;
+      super.open();
+    });
+  }
+
+  onClose(): void {
+    this.resolve(false);
+    super.onClose();
+  }
+
+  private settle(confirmed: boolean): void {
+    this.resolve(confirmed);
+    this.close();
+  }
+
+  private resolve(confirmed: boolean): void {
+    const resolve = this.resolver;
+    if (!resolve) return;
+    this.resolver = null;
+    resolve(confirmed);
+  }
+}
@@ -11,15 +11,27 @@ export type ChatFontSize = "small" | "medium" | "large";
 export interface ChatSettingsValues {
   approvalMode: ChatApprovalMode;
   chatFontSize: ChatFontSize;
+  /** Persona note path; empty for no persona. */
+  persona?: string;
+}
+
+export interface ChatPersonaChoice {
+  path: string;
+  name: string;
+  /** Tool access the persona switches the chat to when picked. */
+  approvalMode?: ChatApprovalMode;
 }
 
 export type ChatSettingsChange =
   | { kind: "approval-mode"; value: ChatApprovalMode }
-  | { kind: "font-size"; value: ChatFontSize };
+  | { kind: "font-size"; value: ChatFontSize }
+  | { kind: "persona"; value: string };
 
 export interface ChatSettingsModalOptions {
   initialValues: ChatSettingsValues;
   approvalModeDisabled?: boolean;
+  /** The persona row is shown only when at least one persona exists. */
+  personas?: readonly ChatPersonaChoice[];
   onChange: (change: ChatSettingsChange) => void | Promise<void>;
 }
 
@@ -48,6 +60,7 @@ export class StandardChatSettingsModal extends StandardModal {
   private readonly options: ChatSettingsModalOptions;
   private readonly controlIdPrefix: string;
   private radioGroups: UiRadioGroupHandle[] = [];
+  private approvalGroup: UiRadioGroupHandle<ChatApprovalMode> | null = null;
   private values: ChatSettingsValues;
 
   constructor(app: App, options: ChatSettingsModalOptions) {
@@ -66,7 +79,31 @@ export class StandardChatSettingsModal extends StandardModal {
 
     const settingsEl = this.contentEl.createDiv({ cls: "ss-chat-settings" });
 
-    this.createChoiceGroup(settingsEl, {
+    const personas = this.options.personas ?? [];
+    if (personas.length > 0) {
+      this.createChoiceGroup(settingsEl, {
+        id: "persona",
+        title: "Persona",
+        description: "Instructions and allowed tools for this chat.",
+        value: this.values.persona ?? "",
+        choices: [
+          { value: "", label: "None" },
+          ...personas.map((persona) => ({ value: persona.path, label: persona.name })),
+        ],
+        disabled: this.options.approvalModeDisabled === true,
+        onSelect: async (persona) => {
+          await this.applyChange({ kind: "persona", value: persona });
+          this.values.persona = persona;
+          const approvalMode = personas.find((choice) => choice.path === persona)?.approvalMode;
+          if (approvalMode) {
+            this.values.approvalMode = approvalMode;
+            this.approvalGroup?.setValue(approvalMode);
+          }
+        },
+      });
+    }
+
+    this.approvalGroup = this.createChoiceGroup<ChatApprovalMode>(settingsEl, {
       id: "approval",
       title: "Tool access",
       value: this.values.approvalMode,
@@ -107,7 +144,7 @@ export class StandardChatSettingsModal extends StandardModal {
   private createChoiceGroup<T extends string>(
     container: HTMLElement,
     options: ChoiceGroupOptions<T>
-  ): void {
+  ): UiRadioGroupHandle<T> {
     const titleId = `${this.controlIdPrefix}-${options.id}-title`;
     const section = container.createEl("section", {
       cls: "ss-chat-settings__row",
@@ -145,7 +182,7 @@ export class StandardChatSettingsModal extends StandardModal {
       bindings.push({ value: choice.value, button });
     });
 
-    this.radioGroups.push(createUiRadioGroup(choices, bindings, {
+    const group = createUiRadioGroup(choices, bindings, {
       value: options.value,
       labelledBy: titleId,
       disabled: options.disabled,
@@ -155,12 +192,15 @@ export class StandardChatSettingsModal extends StandardModal {
       onError: (error) => {
         this.reportChangeFailure(error);
       },
-    }));
+    });
+    this.radioGroups.push(group);
+    return group;
   }
 
   private destroyRadioGroups(): void {
     this.radioGroups.forEach((group) => group.destroy());
     this.radioGroups = [];
+    this.approvalGroup = null;
   }
 
   private async applyChange(change: ChatSettingsChange): Promise<void> {
@@ -11,6 +11,7 @@ import type {
   SearchHit,
   SearchResponse,
 } from "../services/search/SystemSculptSearchEngine";
+import { SearchQuerySyntaxError } from "../services/search/searchQuery";
 
 export class SystemSculptSearchModal extends StandardModal {
   private static nextListId = 0;
@@ -32,7 +33,7 @@ export class SystemSculptSearchModal extends StandardModal {
   private previewAbortController: AbortController | null = null;
   private querySerial = 0;
 
-  constructor(plugin: SystemSculptPlugin) {
+  constructor(plugin: SystemSculptPlugin, private readonly initialQuery = "") {
     super(plugin.app);
     this.engine = plugin.getSearchEngine();
     this.setSize("large");
@@ -57,6 +58,13 @@ export class SystemSculptSearchModal extends StandardModal {
     this.initializeCombobox();
 
     this.ownerWindow.setTimeout(() => this.searchInputEl?.focus(), 0);
+    const initialQuery = this.initialQuery.trim();
+    if (initialQuery && this.searchInputEl) {
+      // Goes through the input listener so the clear button and combobox match typed input.
+      this.searchInputEl.value = initialQuery;
+      this.searchInputEl.dispatchEvent(new Event("input"));
+      return;
+    }
     void this.renderRecents();
   }
 
@@ -197,8 +205,7 @@ export class SystemSculptSearchModal extends StandardModal {
       }
     } catch (error) {
       if (this.isAbortError(error) || serial < this.querySerial) return;
-      this.setStatus("Search unavailable");
-      this.renderError("Search failed", "Try the search again.");
+      this.renderSearchFailure(error);
     } finally {
       if (this.searchAbortController === controller) {
         this.searchAbortController = null;
@@ -241,8 +248,7 @@ export class SystemSculptSearchModal extends StandardModal {
       }
     } catch (error) {
       if (!this.isAbortError(error) && serial === this.querySerial) {
-        this.setStatus("Search unavailable");
-        this.renderError("Search failed", "Try the search again.");
+        this.renderSearchFailure(error);
       }
     } finally {
       if (controller && this.searchAbortController === controller) {
@@ -403,6 +409,16 @@ export class SystemSculptSearchModal extends StandardModal {
     });
   }
 
+  private renderSearchFailure(error: unknown) {
+    if (error instanceof SearchQuerySyntaxError) {
+      this.setStatus("Check the query");
+      this.renderError("Search query has a problem", error.message);
+      return;
+    }
+    this.setStatus("Search unavailable");
+    this.renderError("Search failed", "Try the search again.");
+  }
+
   private renderError(title: string, detail: string) {
     if (!this.listEl || !this.combobox) return;
     this.combobox.showState((listbox) => {
@@ -23,12 +23,15 @@ import {
   type NoteInsertionTarget,
 } from "../services/transcription/NoteInsertionTarget";
 import { getTranscriptionMaxFileSize } from "../services/transcription/TranscriptionCoordinator";
-import type { SystemSculptSettings } from "../types";
+import {
+  normalizeTranscriptionOutputFormat,
+  requiresTimestampedTranscript,
+} from "../services/transcription/TranscriptFormats";
+import type { SystemSculptSettings, TranscriptionOutputFormat } from "../types";
 import { formatFileSize, validateBrowserFileSize } from "../utils/FileValidator";
 import { launchAudioTranscriptionPanel } from "./AudioTranscriptionPanel";
 
 type AudioSource = "vault" | "device";
-type TranscriptionOutputFormat = "markdown" | "srt";
 
 type TranscribeAudioSelection =
   | { kind: "vault"; file: TFile }
@@ -78,9 +81,7 @@ export class TranscribeAudioFileModal extends StandardModal {
     super(plugin.app);
     this.plugin = plugin;
     this.insertionTarget = captureNoteInsertionTarget(this.app);
-    this.outputFormat = plugin.settings.transcriptionOutputFormat === "srt"
-      ? "srt"
-      : "markdown";
+    this.outputFormat = normalizeTranscriptionOutputFormat(plugin.settings.transcriptionOutputFormat);
 
     this.setSize("medium");
     this.modalEl.addClass("ss-modal--scrollable", "ss-transcribe-audio-modal");
@@ -313,27 +314,26 @@ export class TranscribeAudioFileModal extends StandardModal {
     });
 
     const options = section.createDiv({ cls: "ss-transcribe-audio__output-options" });
-    const markdownButton = this.createOutputOption(
-      options,
-      "transcribe.output.markdown",
-      "Markdown",
-      "Readable note",
-      "file-text",
-    );
-    const srtButton = this.createOutputOption(
-      options,
-      "transcribe.output.srt",
-      "SRT",
-      "Timed subtitles",
-      "captions",
-    );
+    const choices: Array<{ value: TranscriptionOutputFormat; label: string; detail: string; icon: string }> = [
+      { value: "markdown", label: "Markdown", detail: "Readable note", icon: "file-text" },
+      { value: "srt", label: "SRT", detail: "Timed subtitles", icon: "captions" },
+      { value: "vtt", label: "WebVTT", detail: "Captions for web players", icon: "monitor-play" },
+      { value: "json", label: "JSON", detail: "Timed segments", icon: "braces" },
+      { value: "speakers", label: "Speakers", detail: "Note with a heading per speaker", icon: "users" },
+    ];
 
     this.outputGroup = createUiRadioGroup(
       options,
-      [
-        { value: "markdown", button: markdownButton },
-        { value: "srt", button: srtButton },
-      ],
+      choices.map((choice) => ({
+        value: choice.value,
+        button: this.createOutputOption(
+          options,
+          `transcribe.output.${choice.value}`,
+          choice.label,
+          choice.detail,
+          choice.icon,
+        ),
+      })),
       {
         value: this.outputFormat,
         labelledBy: titleId,
@@ -603,7 +603,8 @@ export class TranscribeAudioFileModal extends StandardModal {
       this.close();
       launchAudioTranscriptionPanel(this.app, {
         file,
-        timestamped: this.outputFormat === "srt",
+        timestamped: requiresTimestampedTranscript(this.outputFormat),
+        outputFormat: this.outputFormat,
         targetEditor: this.insertionTarget.editor,
         validateInsertionTarget: this.insertionTarget.validate,
         plugin: this.plugin,
@@ -0,0 +1,38 @@
+import { App, SuggestModal } from "obsidian";
+import type { WorkflowDefinition } from "../types/workflows";
+
+/**
+ * Lets a person choose which command-triggered workflow to run on the
+ * active file when more than one is defined.
+ */
+export class WorkflowPickerModal extends SuggestModal<WorkflowDefinition> {
+  constructor(
+    app: App,
+    private readonly workflows: readonly WorkflowDefinition[],
+    private readonly onChoose: (workflow: WorkflowDefinition) => void,
+  ) {
+    super(app);
+    this.setPlaceholder("Choose a workflow to run");
+  }
+
+  getSuggestions(query: string): WorkflowDefinition[] {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) return [...this.workflows];
+    return this.workflows.filter((workflow) =>
+      workflow.name.toLowerCase().includes(normalized)
+      || workflow.trigger.value.toLowerCase().includes(normalized)
+      || workflow.id.toLowerCase().includes(normalized));
+  }
+
+  renderSuggestion(workflow: WorkflowDefinition, el: HTMLElement): void {
+    el.createDiv({ text: workflow.name });
+    const detail = workflow.description ?? workflow.trigger.description ?? workflow.trigger.value;
+    if (detail && detail !== workflow.name) {
+      el.createEl("small", { text: detail });
+    }
+  }
+
+  onChooseSuggestion(workflow: WorkflowDefinition): void {
+    this.onChoose(workflow);
+  }
+}
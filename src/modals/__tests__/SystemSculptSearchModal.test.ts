@@ -5,6 +5,7 @@ import { readFileSync } from "node:fs";
 import { App } from "obsidian";
 import { SystemSculptSearchModal } from "../SystemSculptSearchModal";
 import { SearchResponse } from "../../services/search/SystemSculptSearchEngine";
+import { SearchQuerySyntaxError } from "../../services/search/searchQuery";
 
 const flush = async (cycles = 2) => {
   for (let i = 0; i < cycles; i++) {
@@ -297,6 +298,20 @@ describe("SystemSculptSearchModal", () => {
       expect(listEl?.querySelector('[data-path="notes/test.md"]')).toBeNull();
     });
 
+    it("shows query syntax problems instead of a generic failure", async () => {
+      modal.onOpen();
+      plugin._testEngine.search.mockRejectedValueOnce(
+        new SearchQuerySyntaxError(["modified: needs a date like 2026-01-31 or 2026-01, optionally after >, >=, <, or <=."])
+      );
+
+      await (modal as any).executeSearch("modified:>soon");
+
+      const listEl = (modal as any).listEl as HTMLElement;
+      expect(listEl.textContent).toContain("Search query has a problem");
+      expect(listEl.textContent).toContain("modified: needs a date like 2026-01-31");
+      expect(listEl.textContent).not.toContain("Search failed");
+    });
+
     it("refreshes metadata-only results after the content index finishes", async () => {
       const first = createMockSearchResponse({
         results: [{ path: "notes/title-hit.md", title: "Title Hit", score: 0.8, origin: "lexical", updatedAt: Date.now() }],
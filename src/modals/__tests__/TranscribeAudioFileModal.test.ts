@@ -160,7 +160,7 @@ describe("TranscribeAudioFileModal", () => {
     expect(filteredOptions[0].dataset.path).toBe("Audio/clip-7.mp3");
   });
 
-  it("always shows Markdown and SRT, but keeps a one-off choice local", async () => {
+  it("always shows every transcript format, but keeps a one-off choice local", async () => {
     const file = audioFile();
     const { app, plugin, updateSettings } = createPlugin();
     (app.vault.getFiles as jest.Mock).mockReturnValue([file]);
@@ -170,7 +170,13 @@ describe("TranscribeAudioFileModal", () => {
     const outputOptions = modal.modalEl.querySelectorAll<HTMLButtonElement>(
       '.ss-transcribe-audio__output-option[role="radio"]',
     );
-    expect(outputOptions).toHaveLength(2);
+    expect(Array.from(outputOptions, (option) => option.dataset.testid)).toEqual([
+      "transcribe.output.markdown",
+      "transcribe.output.srt",
+      "transcribe.output.vtt",
+      "transcribe.output.json",
+      "transcribe.output.speakers",
+    ]);
     expect(outputOptions[0].getAttribute("aria-checked")).toBe("true");
 
     outputOptions[1].click();
@@ -188,6 +194,26 @@ describe("TranscribeAudioFileModal", () => {
     }));
   });
 
+  it("starts from the saved format and passes it to the transcription", async () => {
+    const file = audioFile();
+    const { app, plugin } = createPlugin({ transcriptionOutputFormat: "vtt" });
+    (app.vault.getFiles as jest.Mock).mockReturnValue([file]);
+
+    const modal = new TranscribeAudioFileModal(plugin);
+    modal.onOpen();
+    expect(modal.modalEl.querySelector<HTMLButtonElement>(
+      '[data-testid="transcribe.output.vtt"]',
+    )!.getAttribute("aria-checked")).toBe("true");
+    modal.modalEl.querySelector<HTMLButtonElement>(".ss-transcribe-audio__file")!.click();
+    await (modal as any).handleTranscribe();
+
+    expect(launchPanel).toHaveBeenCalledWith(app, expect.objectContaining({
+      file,
+      timestamped: true,
+      outputFormat: "vtt",
+    }));
+  });
+
   it("saves the format only when Remember this format is checked", async () => {
     const file = audioFile();
     const { app, plugin, updateSettings } = createPlugin();
@@ -0,0 +1,88 @@
+import type { GhostTextRequest, GhostTextSource } from "../editor/ghost-text";
+import type {
+  ManagedTextGenerationMessage,
+  ManagedTextGenerationOperation,
+  ManagedTextGenerationResult,
+} from "./managed/ManagedTextGenerationAdapter";
+
+export type EditorCompletionNeighbour = Readonly<{ path: string; excerpt: string }>;
+
+export type EditorCompletionDependencies = Readonly<{
+  generateText: (operation: ManagedTextGenerationOperation) => Promise<ManagedTextGenerationResult>;
+  /** Semantically related notes; empty when embeddings are off or still indexing. */
+  neighbours: (filePath: string, signal: AbortSignal) => Promise<readonly EditorCompletionNeighbour[]>;
+}>;
+
+export const MAX_EDITOR_COMPLETION_NEIGHBOURS = 3;
+export const MAX_EDITOR_COMPLETION_LENGTH = 280;
+const MAX_NEIGHBOUR_EXCERPT = 600;
+
+const SYSTEM_PROMPT = [
+  "You continue the user's Markdown note from the cursor.",
+  "Reply with only the next few words or at most one sentence, exactly as they should be inserted.",
+  "Do not repeat text that is already before the cursor. Match the note's language, tone and formatting.",
+].join(" ");
+
+function createOperationId(): string {
+  const random = window.crypto?.randomUUID?.().replace(/-/g, "")
+    ?? `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+  return `completion:${random}`.slice(0, 128);
+}
+
+export function buildEditorCompletionMessages(
+  request: Pick<GhostTextRequest, "before" | "after" | "filePath">,
+  neighbours: readonly EditorCompletionNeighbour[],
+): ManagedTextGenerationMessage[] {
+  const related = neighbours.map((neighbour) =>
+    `From ${neighbour.path}:\n${neighbour.excerpt.slice(0, MAX_NEIGHBOUR_EXCERPT)}`);
+  const sections = [
+    ...(request.filePath ? [`Note: ${request.filePath}`] : []),
+    ...(related.length > 0 ? [`Related notes, for reference only:\n\n${related.join("\n\n")}`] : []),
+    `Text before the cursor:\n${request.before}`,
+    ...(request.after.trim() ? [`Text after the cursor:\n${request.after}`] : []),
+    "Continue from the cursor.",
+  ];
+  return [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: sections.join("\n\n") },
+  ];
+}
+
+/**
+ * Keeps a continuation to what fits inline: no code fences, no echo of the
+ * text already typed, nothing past the first paragraph break.
+ */
+export function cleanEditorCompletion(before: string, text: string): string {
+  let completion = text.replace(/^\s*```[\w-]*\r?\n?|\r?\n?```\s*$/g, "");
+  const tail = before.slice(-80).trimStart();
+  if (tail && completion.startsWith(tail)) completion = completion.slice(tail.length);
+  completion = completion.split(/\r?\n\s*\r?\n/)[0].trimEnd();
+  if (/\s$/.test(before)) completion = completion.trimStart();
+  else if (/^\S/.test(completion) && /[\p{L}\p{N}]$/u.test(before) && /^[\p{L}\p{N}]/u.test(completion)) {
+    // The model answered with a new word but forgot the space.
+    completion = ` ${completion}`;
+  }
+  return completion.length > MAX_EDITOR_COMPLETION_LENGTH
+    ? completion.slice(0, MAX_EDITOR_COMPLETION_LENGTH).replace(/\s+\S*$/, "")
+    : completion;
+}
+
+/** Serves ghost-text suggestions from the text-generation capability. */
+export function createEditorCompletionSource(dependencies: EditorCompletionDependencies): GhostTextSource {
+  return async (request) => {
+    const neighbours = request.filePath
+      ? await dependencies.neighbours(request.filePath, request.signal)
+        .then((found) => found.filter((neighbour) => neighbour.path !== request.filePath)
+          .slice(0, MAX_EDITOR_COMPLETION_NEIGHBOURS))
+        .catch(() => [])
+      : [];
+    if (request.signal.aborted) return "";
+    const result = await dependencies.generateText({
+      operationId: createOperationId(),
+      purpose: "editor_completion",
+      signal: request.signal,
+      buildMessages: () => buildEditorCompletionMessages(request, neighbours),
+    });
+    return cleanEditorCompletion(request.before, result.text);
+  };
+}
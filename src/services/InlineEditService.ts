@@ -0,0 +1,82 @@
+import type { InlineEditGenerate, InlineEditRequest } from "../editor/inline-edit";
+import type {
+  ManagedTextGenerationMessage,
+  ManagedTextGenerationOperation,
+  ManagedTextGenerationResult,
+} from "./managed/ManagedTextGenerationAdapter";
+
+const SYSTEM_PROMPT = [
+  "You edit a passage from a Markdown note.",
+  "Apply the user's instruction and reply with the rewritten text only: no preamble, no explanation, no code fences.",
+  "Keep the Markdown formatting, links and language of the passage unless the instruction says otherwise.",
+].join(" ");
+
+const OPENING_FENCE = /^\s*```[\w-]*[ \t]*\r?\n/;
+const CLOSING_FENCE = /\r?\n```\s*$/;
+
+function createOperationId(): string {
+  const random = window.crypto?.randomUUID?.().replace(/-/g, "")
+    ?? `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+  return `inline-edit:${random}`.slice(0, 128);
+}
+
+export function buildInlineEditMessages(
+  request: Pick<InlineEditRequest, "instruction" | "passage" | "excerpt">,
+): ManagedTextGenerationMessage[] {
+  const { instruction, passage, excerpt } = request;
+  if (!excerpt) {
+    return [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: `Instruction: ${instruction}\n\nPassage:\n${passage}` },
+    ];
+  }
+  return [
+    { role: "system", content: SYSTEM_PROMPT },
+    {
+      role: "user",
+      content: [
+        `Instruction: ${instruction}`,
+        `Passage, for context:\n${passage}`,
+        excerpt.original
+          ? `Rewrite only this excerpt of the passage:\n${excerpt.original}`
+          : "Write only the text to insert where the previous attempt inserted text.",
+        `A previous attempt produced:\n${excerpt.previous || "(nothing)"}`,
+        "Give a different version. Reply with the replacement for the excerpt only.",
+      ].join("\n\n"),
+    },
+  ];
+}
+
+/**
+ * Models sometimes wrap the answer in a code fence or pad it with blank
+ * lines. The rewrite keeps the passage's own surrounding whitespace instead,
+ * so accepting it never adds or eats line breaks at the edges.
+ */
+export function cleanInlineEditText(passage: string, text: string, complete: boolean): string {
+  let body = text.replace(OPENING_FENCE, "");
+  if (complete) body = body.replace(CLOSING_FENCE, "");
+  const leading = passage.match(/^\s*/)?.[0] ?? "";
+  const trailing = passage.slice(leading.length).match(/\s*$/)?.[0] ?? "";
+  body = body.trimStart();
+  return complete ? `${leading}${body.trimEnd()}${trailing}` : `${leading}${body}`;
+}
+
+/** Serves inline edits from the text-generation capability (managed or the user's own provider). */
+export function createInlineEditGenerator(
+  generateText: (operation: ManagedTextGenerationOperation) => Promise<ManagedTextGenerationResult>,
+): InlineEditGenerate {
+  return async (request) => {
+    const source = request.excerpt ? request.excerpt.original : request.passage;
+    const result = await generateText({
+      operationId: createOperationId(),
+      purpose: "inline_edit",
+      signal: request.signal,
+      buildMessages: () => buildInlineEditMessages(request),
+      onText: (text) => request.onText(cleanInlineEditText(source, text, false)),
+    });
+    if (result.finishReason !== "stop") {
+      throw new Error("The rewrite was cut off before it finished. Try a shorter passage.");
+    }
+    return cleanInlineEditText(source, result.text, true);
+  };
+}
@@ -171,6 +171,46 @@ describe("ManagedTextGenerationAdapter", () => {
     expect(request).not.toHaveBeenCalled();
   });
 
+  it.each([
+    ["inline_edit", "inline edits"],
+    ["editor_completion", "continuation suggestions"],
+  ] as const)("sends %s only once the server contract lists it", async (purpose, label) => {
+    const current = harness();
+    const buildMessages = jest.fn();
+    await expect(current.adapter.generate({ ...operation(buildMessages), purpose })).rejects.toMatchObject({
+      code: "capability_unavailable",
+      message: expect.stringContaining(label),
+    });
+    expect(buildMessages).not.toHaveBeenCalled();
+    expect(current.request).not.toHaveBeenCalled();
+
+    const editorContract = {
+      ...textContract,
+      purpose: { presence: "required", values: [purpose, "transcript_postprocess", "workflow_automation"] },
+    };
+    const { adapter, request } = harness({
+      outcome: "allowed",
+      descriptor: { ...descriptor, request_contracts: [descriptor.request_contracts[0], editorContract] },
+      requestContract: editorContract,
+    } as any);
+    await adapter.generate({ ...operation(), purpose });
+    expect(request.mock.calls[0][0].body.purpose).toBe(purpose);
+  });
+
+  it("rejects a lease listing purposes the client does not know", async () => {
+    const unknownContract = {
+      ...textContract,
+      purpose: { presence: "required", values: ["chat", "transcript_postprocess", "workflow_automation"] },
+    };
+    const { adapter, request } = harness({
+      outcome: "allowed",
+      descriptor: { ...descriptor, request_contracts: [descriptor.request_contracts[0], unknownContract] },
+      requestContract: unknownContract,
+    } as any);
+    await expect(adapter.generate(operation())).rejects.toMatchObject({ code: "capability_unavailable" });
+    expect(request).not.toHaveBeenCalled();
+  });
+
   it.each([
     [400, "invalid_request", false],
     [401, "license_required", false],
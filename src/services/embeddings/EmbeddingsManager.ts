@@ -9,13 +9,19 @@ import type {
 } from "./types";
 import {
   ManagedEmbeddingsError,
-  type ManagedEmbeddingsIndexAdapter,
+  type EmbeddingsIndexGateway,
 } from "./gateway/ManagedEmbeddingsIndexAdapter";
 import {
   EmbeddingsProcessor,
   type EmbeddingSourceRevision,
 } from "./processing/EmbeddingsProcessor";
 import { VectorSearch } from "./search/VectorSearch";
+import {
+  AnnIndexRegistry,
+  annSnapshotFileName,
+  type AnnIndexSnapshot,
+} from "./search/AnnIndexRegistry";
+import type { HnswSearchHit } from "./search/HnswIndex";
 import { EmbeddingsStorage } from "./storage/EmbeddingsStorage";
 import { EmbeddingsIndexFile } from "./storage/EmbeddingsIndexFile";
 import {
@@ -108,9 +114,11 @@ type FileState = {
  */
 export class EmbeddingsManager {
   private readonly storage: EmbeddingsStorage;
-  private readonly gateway: ManagedEmbeddingsIndexAdapter;
+  private readonly gateway: EmbeddingsIndexGateway;
   private readonly processor: EmbeddingsProcessor;
   private readonly search = new VectorSearch();
+  private readonly annIndex: AnnIndexRegistry;
+  private detachAnnIndex: (() => void) | null = null;
   private readonly processingMutex = new Mutex();
   private readonly failedFiles = new Map<string, FailedEmbeddingFile>();
   private readonly queryCache = new Map<string, { vector: Float32Array; namespace: string; expiresAt: number }>();
@@ -158,6 +166,24 @@ export class EmbeddingsManager {
       this.gateway,
       this.storage,
     );
+    const annStorage = this.storage as EmbeddingsStorage & Partial<Pick<
+      EmbeddingsStorage,
+      "addMutationListener" | "countVectorsInNamespace" | "scanVectorsByNamespace"
+    >>;
+    this.annIndex = new AnnIndexRegistry({
+      store: {
+        countVectorsInNamespace: (namespace) => typeof annStorage.countVectorsInNamespace === "function"
+          ? annStorage.countVectorsInNamespace(namespace)
+          : Promise.resolve(0),
+        scanVectorsByNamespace: (namespace, onBatch, options) => typeof annStorage.scanVectorsByNamespace === "function"
+          ? annStorage.scanVectorsByNamespace(namespace, onBatch, options)
+          : Promise.resolve(),
+      },
+      fileFor: (namespace) => this.getAnnSnapshotFile(namespace),
+    });
+    if (typeof annStorage.addMutationListener === "function") {
+      this.detachAnnIndex = annStorage.addMutationListener((mutation) => this.annIndex.apply(mutation));
+    }
   }
 
   async initialize(): Promise<void> {
@@ -197,6 +223,8 @@ export class EmbeddingsManager {
     this.setupFileWatchers();
     this.initialized = true;
     this.refreshLifecycle({ phase: this.processingSuspended ? "paused" : "idle", ready: true });
+    const searchNamespace = this.getSearchNamespace();
+    if (searchNamespace) void this.annIndex.ensure(searchNamespace).catch(() => undefined);
   }
 
   async processVault(onProgress?: (progress: ProcessingProgress) => void): Promise<EmbeddingsRunResult> {
@@ -657,6 +685,10 @@ export class EmbeddingsManager {
     this.fileWatchers = [];
     await this.processingMutex.runExclusive(() => this.flushPortableIndex());
     this.portableCheckpoint?.cancel();
+    this.detachAnnIndex?.();
+    this.detachAnnIndex = null;
+    try { await this.annIndex.flush(); } catch { /* the graph is rebuilt on next launch */ }
+    this.annIndex.dispose();
     this.queryCache.clear();
     this.lifecycle.clearListeners();
   }
@@ -1317,6 +1349,8 @@ export class EmbeddingsManager {
         })()
       )),
     );
+    const approximate = await this.searchApproximateNamespace(namespace, queries, limit, eligiblePaths, signal);
+    if (approximate) return approximate;
     const sets = queries.map(() => [] as SearchResult[]);
     await scan.call(this.storage, namespace, (batch: EmbeddingVector[]) => {
       if (signal?.aborted) return;
@@ -1335,6 +1369,48 @@ export class EmbeddingsManager {
     return signal?.aborted ? queries.map(() => []) : sets;
   }
 
+  /**
+   * HNSW candidates re-ranked against the stored Float32 vectors. Null sends
+   * the caller to the exact scan: the graph is not ready, or filtering left
+   * fewer eligible candidates than requested while more may exist.
+   */
+  private async searchApproximateNamespace(
+    namespace: string,
+    queries: Float32Array[],
+    limit: number,
+    eligiblePaths: Set<string>,
+    signal?: AbortSignal,
+  ): Promise<SearchResult[][] | null> {
+    const storage = this.storage as EmbeddingsStorage & Partial<Pick<EmbeddingsStorage, "getVectorsByIds">>;
+    if (typeof storage.getVectorsByIds !== "function") return null;
+    const candidateCount = Math.max(limit * 2, 64);
+    const hitSets: HnswSearchHit[][] = [];
+    for (const query of queries) {
+      const hits = this.annIndex.search(namespace, query, candidateCount);
+      if (!hits) return null;
+      hitSets.push(hits);
+    }
+    const ids = new Set(hitSets.flatMap((hits) => hits.map((hit) => hit.id)));
+    const records = await storage.getVectorsByIds([...ids]);
+    if (signal?.aborted) return queries.map(() => []);
+    const byId = new Map(records.map((vector) => [vector.id, vector]));
+    const sets: SearchResult[][] = [];
+    for (let index = 0; index < queries.length; index++) {
+      const candidates = hitSets[index]
+        .map((hit) => byId.get(hit.id))
+        .filter((vector): vector is EmbeddingVector => (
+          vector !== undefined
+          && vector.metadata.namespace === namespace
+          && vector.metadata.isEmpty !== true
+          && eligiblePaths.has(vector.path)
+          && !this.isPathExcluded(vector.path)
+        ));
+      if (candidates.length < limit && hitSets[index].length === candidateCount) return null;
+      sets.push(this.search.findSimilar(queries[index], candidates, limit));
+    }
+    return sets;
+  }
+
   private selectQueryVectors(vectors: EmbeddingVector[]): EmbeddingVector[] {
     const selected: EmbeddingVector[] = [];
     const ordered = [...vectors].sort((left, right) => {
@@ -1461,6 +1537,14 @@ export class EmbeddingsManager {
     return this.portableIndexFile;
   }
 
+  private getAnnSnapshotFile(namespace: string): EmbeddingsIndexFile<AnnIndexSnapshot> | null {
+    if (!this.isPortableIndexEnabled() || !this.app.vault.adapter) return null;
+    return new EmbeddingsIndexFile<AnnIndexSnapshot>(this.app.vault.adapter, {
+      dir: ".systemsculpt/embeddings/ann",
+      fileName: annSnapshotFileName(namespace),
+    });
+  }
+
   private async restorePortableIndexIfEmpty(): Promise<void> {
     const file = this.getPortableIndexFile();
     if (!file) return;
@@ -0,0 +1,88 @@
+import { TFile } from "obsidian";
+import { EmbeddingsManager } from "../EmbeddingsManager";
+import { VectorSearch } from "../search/VectorSearch";
+import type { EmbeddingVector } from "../types";
+
+const namespace = "systemsculpt:managed:semantic-v1:v2:2";
+
+function vector(path: string, values: [number, number]): EmbeddingVector {
+  return {
+    id: `${namespace}::${path}#0`,
+    path,
+    chunkId: 0,
+    vector: new Float32Array(values),
+    metadata: {
+      title: path,
+      excerpt: path,
+      mtime: 1,
+      contentHash: path,
+      generation: "semantic-v1",
+      dimension: 2,
+      createdAt: 1,
+      namespace,
+      complete: true,
+    },
+  };
+}
+
+function managerHarness(vectors: EmbeddingVector[]) {
+  const manager = Object.create(EmbeddingsManager.prototype) as any;
+  const byId = new Map(vectors.map((entry) => [entry.id, entry]));
+  manager.app = {
+    vault: {
+      getAbstractFileByPath: jest.fn((path: string) => new TFile({ path, name: path, extension: "md" })),
+    },
+  };
+  manager.storage = {
+    getDistinctPaths: jest.fn(() => vectors.map((entry) => entry.path)),
+    getVectorsByIds: jest.fn(async (ids: string[]) => ids.flatMap((id) => byId.get(id) ?? [])),
+    scanVectorsByNamespace: jest.fn(async (_namespace: string, onBatch: (batch: EmbeddingVector[]) => void) => {
+      onBatch(vectors);
+    }),
+  };
+  manager.annIndex = { search: jest.fn(() => vectors.map((entry) => ({ id: entry.id, score: 1 }))) };
+  manager.search = new VectorSearch();
+  manager.isFileReadyInNamespace = jest.fn(() => true);
+  manager.isPathExcluded = jest.fn(() => false);
+  return manager;
+}
+
+describe("EmbeddingsManager approximate search", () => {
+  const vectors = [
+    vector("Source.md", [1, 0]),
+    vector("Close.md", [0.9, 0.1]),
+    vector("Far.md", [0.2, 1]),
+  ];
+
+  it("re-ranks index candidates exactly and skips the namespace scan", async () => {
+    const manager = managerHarness(vectors);
+
+    const [results] = await manager.searchIndexedNamespace(namespace, [new Float32Array([1, 0])], 2, undefined, "Source.md");
+
+    expect(results.map((result: { path: string }) => result.path)).toEqual(["Close.md", "Far.md"]);
+    expect(manager.storage.getVectorsByIds).toHaveBeenCalledTimes(1);
+    expect(manager.storage.scanVectorsByNamespace).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the exact scan while the index is not ready", async () => {
+    const manager = managerHarness(vectors);
+    manager.annIndex.search.mockReturnValue(null);
+
+    const [results] = await manager.searchIndexedNamespace(namespace, [new Float32Array([1, 0])], 2);
+
+    expect(results.map((result: { path: string }) => result.path)).toEqual(["Source.md", "Close.md"]);
+    expect(manager.storage.scanVectorsByNamespace).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back when filtering leaves a full candidate list short of the limit", async () => {
+    const manager = managerHarness(vectors);
+    manager.isPathExcluded.mockImplementation((path: string) => path !== "Close.md");
+    manager.annIndex.search.mockImplementation((_namespace: string, _query: Float32Array, k: number) => (
+      Array.from({ length: k }, () => ({ id: vectors[0].id, score: 1 }))
+    ));
+
+    await manager.searchIndexedNamespace(namespace, [new Float32Array([1, 0])], 2);
+
+    expect(manager.storage.scanVectorsByNamespace).toHaveBeenCalledTimes(1);
+  });
+});
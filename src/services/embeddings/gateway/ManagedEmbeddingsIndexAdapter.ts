@@ -118,6 +118,16 @@ export type ManagedEmbeddingsIndexQueryResult = Readonly<{
   vector: Float32Array;
 }>;
 
+/**
+ * The index surface EmbeddingsManager depends on. SystemSculpt serves it from
+ * the managed gateway; OpenAICompatibleEmbeddingsIndexAdapter serves it from a
+ * user-configured server.
+ */
+export type EmbeddingsIndexGateway = Pick<
+  ManagedEmbeddingsIndexAdapter,
+  "getMetadata" | "query" | "index" | "activeGeneration" | "metadata"
+>;
+
 type IndexTransport = Pick<
   HostedTransportAdapter,
   | "managedEmbeddingsIndex"
@@ -0,0 +1,288 @@
+import { sha256HexFromArrayBuffer } from "../../../studio/hash";
+import {
+  OpenAICompatibleError,
+  type OpenAICompatibleClient,
+} from "../../providers/OpenAICompatibleClient";
+import { buildManagedNamespace } from "../utils/namespace";
+import {
+  MANAGED_EMBEDDINGS_INDEX_CONTRACT,
+  MANAGED_EMBEDDINGS_INDEX_MAX_QUERY_CHARS,
+  MANAGED_EMBEDDINGS_INDEX_MAX_RESULT_BYTES,
+  MANAGED_EMBEDDINGS_INDEX_MAX_SOURCE_BYTES,
+  MANAGED_EMBEDDINGS_INDEX_VECTOR_ENCODING,
+  ManagedEmbeddingsError,
+  type ManagedEmbeddingsErrorCode,
+  type ManagedEmbeddingsIndexChunk,
+  type ManagedEmbeddingsIndexGeneration,
+  type ManagedEmbeddingsIndexMetadata,
+  type ManagedEmbeddingsIndexOperation,
+  type ManagedEmbeddingsIndexQueryResult,
+  type ManagedEmbeddingsIndexResult,
+} from "./ManagedEmbeddingsIndexAdapter";
+
+const INDEX_SCHEMA_VERSION = 1;
+const MAX_CHUNK_CHARS = 2_000;
+const MAX_EXCERPT_LENGTH = 512;
+const MAX_HEADING_LENGTH = 256;
+const EMBEDDING_BATCH_SIZE = 16;
+const FRONTMATTER = /^---\r?\n[\s\S]*?\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+const HEADING = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/;
+const FENCE = /^[ \t]*(```|~~~)/;
+
+/** A heading-scoped slice of a note, before it is embedded. */
+export type OpenAICompatibleEmbeddingChunk = Readonly<{
+  headingPath: readonly string[];
+  text: string;
+}>;
+
+function requestCancelled(): ManagedEmbeddingsError {
+  return new ManagedEmbeddingsError("request_cancelled", "Embedding request cancelled.", 0, null);
+}
+
+function providerErrorCode(error: OpenAICompatibleError): ManagedEmbeddingsErrorCode {
+  if (error.code === "not_configured") return "capability_unavailable";
+  if (error.code === "invalid_response") return "invalid_response";
+  if (error.status === 400 || error.status === 404 || error.status === 413 || error.status === 422) {
+    return "invalid_request";
+  }
+  if (error.status === 429) return "rate_limited";
+  return "temporarily_unavailable";
+}
+
+function splitLongText(text: string): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const candidate = current ? `${current}\n\n${paragraph}` : paragraph;
+    if (candidate.length <= MAX_CHUNK_CHARS) {
+      current = candidate;
+      continue;
+    }
+    if (current) pieces.push(current);
+    current = paragraph;
+    while (current.length > MAX_CHUNK_CHARS) {
+      pieces.push(current.slice(0, MAX_CHUNK_CHARS));
+      current = current.slice(MAX_CHUNK_CHARS);
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Splits note markdown into heading-scoped chunks of at most MAX_CHUNK_CHARS.
+ * Frontmatter is dropped and headings inside fenced code are treated as text,
+ * mirroring the section structure the managed index reports.
+ */
+export function chunkMarkdownForEmbedding(markdown: string): OpenAICompatibleEmbeddingChunk[] {
+  const body = markdown.replace(/^\uFEFF/, "").replace(FRONTMATTER, "");
+  const chunks: OpenAICompatibleEmbeddingChunk[] = [];
+  const path: string[] = [];
+  let sectionPath: readonly string[] = [];
+  let lines: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    const text = lines.join("\n").trim();
+    lines = [];
+    if (!text) return;
+    for (const piece of splitLongText(text)) {
+      const trimmed = piece.trim();
+      if (trimmed) chunks.push({ headingPath: sectionPath, text: trimmed });
+    }
+  };
+
+  for (const line of body.split(/\r?\n/)) {
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch) {
+      fence = fence === null ? fenceMatch[1] : fence === fenceMatch[1] ? null : fence;
+      lines.push(line);
+      continue;
+    }
+    const heading = fence === null ? line.match(HEADING) : null;
+    if (!heading) {
+      lines.push(line);
+      continue;
+    }
+    flush();
+    const depth = heading[1].length;
+    path.length = Math.min(path.length, depth - 1);
+    while (path.length < depth - 1) path.push("");
+    path.push(heading[2].trim().slice(0, MAX_HEADING_LENGTH));
+    sectionPath = path.filter((title) => title.length > 0);
+    lines.push(line);
+  }
+  flush();
+  return chunks;
+}
+
+function normalizeVector(vector: Float32Array): Float32Array | null {
+  let sum = 0;
+  for (const value of vector) sum += value * value;
+  const norm = Math.sqrt(sum);
+  if (!Number.isFinite(norm) || norm === 0) return null;
+  const normalized = new Float32Array(vector.length);
+  for (let index = 0; index < vector.length; index += 1) normalized[index] = vector[index] / norm;
+  return normalized;
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const encoded = new TextEncoder().encode(text);
+  return await sha256HexFromArrayBuffer(
+    encoded.buffer.slice(encoded.byteOffset, encoded.byteOffset + encoded.byteLength) as ArrayBuffer,
+  );
+}
+
+/**
+ * Serves the managed embeddings index contract from an OpenAI-compatible
+ * /embeddings endpoint. Chunking happens locally, and the generation id is
+ * derived from the base URL and model so vectors from different models never
+ * share a namespace.
+ */
+export class OpenAICompatibleEmbeddingsIndexAdapter {
+  public activeGeneration?: ManagedEmbeddingsIndexGeneration;
+  public metadata?: ManagedEmbeddingsIndexMetadata;
+
+  constructor(private readonly client: Pick<OpenAICompatibleClient, "embed" | "getProfile">) {}
+
+  async getMetadata(signal?: AbortSignal): Promise<ManagedEmbeddingsIndexMetadata> {
+    if (signal?.aborted) throw requestCancelled();
+    const id = await this.generationId();
+    const metadata: ManagedEmbeddingsIndexMetadata = {
+      contract: MANAGED_EMBEDDINGS_INDEX_CONTRACT,
+      vectorEncoding: MANAGED_EMBEDDINGS_INDEX_VECTOR_ENCODING,
+      generation: {
+        id,
+        indexSchemaVersion: INDEX_SCHEMA_VERSION,
+        indexNamespaceTemplate: `systemsculpt:managed:${id}:v${INDEX_SCHEMA_VERSION}:<dimensions>`,
+      },
+      limits: {
+        maxSourceBytes: MANAGED_EMBEDDINGS_INDEX_MAX_SOURCE_BYTES,
+        maxResultBytes: MANAGED_EMBEDDINGS_INDEX_MAX_RESULT_BYTES,
+      },
+    };
+    this.metadata = metadata;
+    return metadata;
+  }
+
+  async query(query: string, signal?: AbortSignal): Promise<ManagedEmbeddingsIndexQueryResult> {
+    if (signal?.aborted) throw requestCancelled();
+    const normalized = typeof query === "string" ? query.trim() : "";
+    if (normalized.length < 1 || normalized.length > MANAGED_EMBEDDINGS_INDEX_MAX_QUERY_CHARS) {
+      throw new ManagedEmbeddingsError("invalid_request", "Embedding query is invalid.", 400);
+    }
+    const [vector] = await this.embed([normalized], signal);
+    return {
+      contract: MANAGED_EMBEDDINGS_INDEX_CONTRACT,
+      vectorEncoding: MANAGED_EMBEDDINGS_INDEX_VECTOR_ENCODING,
+      generation: await this.generationFor(vector.length),
+      vector,
+    };
+  }
+
+  async index(operation: ManagedEmbeddingsIndexOperation): Promise<ManagedEmbeddingsIndexResult> {
+    if (operation.signal?.aborted) throw requestCancelled();
+    let markdown: unknown;
+    try {
+      markdown = operation.prepare().markdown;
+    } catch (error) {
+      if (error instanceof ManagedEmbeddingsError) throw error;
+      throw new ManagedEmbeddingsError("local_preparation_failed", "Embedding source preparation failed.", 0);
+    }
+    if (
+      typeof markdown !== "string"
+      || markdown.length < 1
+      || new TextEncoder().encode(markdown).byteLength > MANAGED_EMBEDDINGS_INDEX_MAX_SOURCE_BYTES
+    ) {
+      throw new ManagedEmbeddingsError("invalid_request", "Embedding source is invalid.", 400);
+    }
+    const contentSha256 = await sha256Hex(markdown);
+    const pieces = chunkMarkdownForEmbedding(markdown);
+    if (pieces.length === 0) {
+      return {
+        contract: MANAGED_EMBEDDINGS_INDEX_CONTRACT,
+        source: { contentSha256 },
+        empty: true,
+        vectorEncoding: MANAGED_EMBEDDINGS_INDEX_VECTOR_ENCODING,
+        generation: null,
+        chunks: [],
+      };
+    }
+
+    const vectors: Float32Array[] = [];
+    for (let start = 0; start < pieces.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = pieces.slice(start, start + EMBEDDING_BATCH_SIZE);
+      vectors.push(...await this.embed(
+        batch.map((piece) => (piece.headingPath.length > 0 ? `${piece.headingPath.join(" › ")}\n\n${piece.text}` : piece.text)),
+        operation.signal,
+      ));
+    }
+    const dimensions = vectors[0].length;
+    if (vectors.some((vector) => vector.length !== dimensions)) {
+      throw new ManagedEmbeddingsError("invalid_response", "The embeddings model returned vectors of different sizes.", 200);
+    }
+    const chunks: ManagedEmbeddingsIndexChunk[] = [];
+    for (let ordinal = 0; ordinal < pieces.length; ordinal += 1) {
+      const piece = pieces[ordinal];
+      chunks.push({
+        ordinal,
+        textHash: await sha256Hex(piece.text),
+        headingPath: piece.headingPath,
+        excerpt: piece.text.slice(0, MAX_EXCERPT_LENGTH),
+        length: piece.text.length,
+        vector: vectors[ordinal],
+      });
+    }
+    const generation = await this.generationFor(dimensions);
+    this.activeGeneration = generation;
+    return {
+      contract: MANAGED_EMBEDDINGS_INDEX_CONTRACT,
+      source: { contentSha256 },
+      empty: false,
+      vectorEncoding: MANAGED_EMBEDDINGS_INDEX_VECTOR_ENCODING,
+      generation,
+      chunks,
+    };
+  }
+
+  private async generationId(): Promise<string> {
+    const profile = this.client.getProfile();
+    const digest = await sha256Hex(`${profile.baseUrl.trim().replace(/\/+$/, "")}|${profile.embeddingsModel.trim()}`);
+    return `byo-${digest.slice(0, 16)}`;
+  }
+
+  private async generationFor(dimensions: number): Promise<ManagedEmbeddingsIndexGeneration> {
+    const id = await this.generationId();
+    try {
+      return {
+        id,
+        indexSchemaVersion: INDEX_SCHEMA_VERSION,
+        indexNamespace: buildManagedNamespace(dimensions, id, INDEX_SCHEMA_VERSION),
+        dimensions,
+      };
+    } catch {
+      throw new ManagedEmbeddingsError("invalid_response", "The embeddings model returned an unsupported vector size.", 200);
+    }
+  }
+
+  private async embed(input: string[], signal?: AbortSignal): Promise<Float32Array[]> {
+    let vectors: Float32Array[];
+    try {
+      vectors = await this.client.embed({ model: this.client.getProfile().embeddingsModel, input, signal });
+    } catch (error) {
+      if (signal?.aborted || (error instanceof Error && error.name === "AbortError")) throw requestCancelled();
+      if (error instanceof OpenAICompatibleError) {
+        throw new ManagedEmbeddingsError(providerErrorCode(error), error.message, error.status ?? 0);
+      }
+      throw new ManagedEmbeddingsError("temporarily_unavailable", "The embeddings provider could not be reached.", 0);
+    }
+    if (signal?.aborted) throw requestCancelled();
+    return vectors.map((vector) => {
+      const normalized = normalizeVector(vector);
+      if (!normalized) {
+        throw new ManagedEmbeddingsError("invalid_response", "The embeddings model returned an empty vector.", 200);
+      }
+      return normalized;
+    });
+  }
+}
@@ -0,0 +1,110 @@
+import { OpenAICompatibleError } from "../../../providers/OpenAICompatibleClient";
+import {
+  MANAGED_EMBEDDINGS_INDEX_CONTRACT,
+  ManagedEmbeddingsError,
+} from "../ManagedEmbeddingsIndexAdapter";
+import {
+  OpenAICompatibleEmbeddingsIndexAdapter,
+  chunkMarkdownForEmbedding,
+} from "../OpenAICompatibleEmbeddingsIndexAdapter";
+
+function harness(embeddingsModel = "nomic-embed-text", baseUrl = "http://localhost:11434/v1") {
+  const embed = jest.fn(async ({ input }: { input: readonly string[] }) =>
+    input.map((_, index) => Float32Array.from([3, 4, index])));
+  const getProfile = jest.fn(() => ({
+    baseUrl,
+    apiKey: "",
+    chatModel: "",
+    textGenerationModel: "",
+    embeddingsModel,
+  }));
+  return { adapter: new OpenAICompatibleEmbeddingsIndexAdapter({ embed, getProfile }), embed };
+}
+
+describe("chunkMarkdownForEmbedding", () => {
+  it("drops frontmatter and scopes chunks by heading path", () => {
+    const chunks = chunkMarkdownForEmbedding([
+      "---",
+      "tags: [a]",
+      "---",
+      "Intro line.",
+      "# Project",
+      "Overview.",
+      "## Tasks",
+      "```md",
+      "# not a heading",
+      "```",
+      "### Deep",
+      "Detail.",
+      "# Other",
+      "Tail.",
+    ].join("\n"));
+
+    expect(chunks.map((chunk) => chunk.headingPath)).toEqual([
+      [],
+      ["Project"],
+      ["Project", "Tasks"],
+      ["Project", "Tasks", "Deep"],
+      ["Other"],
+    ]);
+    expect(chunks[0].text).toBe("Intro line.");
+    expect(chunks[2].text).toContain("# not a heading");
+  });
+
+  it("splits oversized sections at paragraph boundaries", () => {
+    const paragraph = "x".repeat(1_500);
+    const chunks = chunkMarkdownForEmbedding(`# Long\n\n${paragraph}\n\n${paragraph}`);
+
+    expect(chunks.length).toBe(2);
+    expect(chunks.every((chunk) => chunk.text.length <= 2_000)).toBe(true);
+  });
+});
+
+describe("OpenAICompatibleEmbeddingsIndexAdapter", () => {
+  it("derives a stable generation from the base URL and model", async () => {
+    const first = await harness().adapter.getMetadata();
+    const again = await harness("nomic-embed-text", "http://localhost:11434/v1/").adapter.getMetadata();
+    const otherModel = await harness("mxbai-embed-large").adapter.getMetadata();
+
+    expect(first.contract).toBe(MANAGED_EMBEDDINGS_INDEX_CONTRACT);
+    expect(first.generation.id).toMatch(/^byo-[0-9a-f]{16}$/);
+    expect(again.generation.id).toBe(first.generation.id);
+    expect(otherModel.generation.id).not.toBe(first.generation.id);
+  });
+
+  it("indexes heading-prefixed chunks with normalized vectors", async () => {
+    const { adapter, embed } = harness();
+
+    const result = await adapter.index({ prepare: () => ({ markdown: "# Heading\n\nPrivate vault text." }) } as any);
+
+    expect(embed).toHaveBeenCalledWith(expect.objectContaining({
+      model: "nomic-embed-text",
+      input: ["Heading\n\n# Heading\n\nPrivate vault text."],
+    }));
+    expect(result.empty).toBe(false);
+    expect(result.chunks).toHaveLength(1);
+    expect(Array.from(result.chunks[0].vector)).toEqual([expect.closeTo(0.6), expect.closeTo(0.8), 0]);
+    expect(result.chunks[0].headingPath).toEqual(["Heading"]);
+    expect(result.generation?.indexNamespace).toBe(`systemsculpt:managed:${result.generation?.id}:v1:3`);
+    expect(adapter.activeGeneration).toEqual(result.generation);
+  });
+
+  it("reports empty notes without calling the provider", async () => {
+    const { adapter, embed } = harness();
+
+    const result = await adapter.index({ prepare: () => ({ markdown: "---\na: 1\n---\n" }) } as any);
+
+    expect(result).toMatchObject({ empty: true, generation: null, chunks: [] });
+    expect(embed).not.toHaveBeenCalled();
+  });
+
+  it("maps provider failures onto managed embeddings errors", async () => {
+    const { adapter, embed } = harness();
+    embed.mockRejectedValueOnce(new OpenAICompatibleError("http_error", "Busy", 429));
+
+    const error = await adapter.query("search").catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ManagedEmbeddingsError);
+    expect(error).toMatchObject({ code: "rate_limited", status: 429 });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * AnnBenchmark - compares the HNSW path with the exact dot-product scan on a
+ * synthetic corpus. Used by `npm run bench:embeddings:ann` and the recall test.
+ *
+ * The corpus mimics note embeddings: topic centroids plus variation along a
+ * shared low-dimensional subspace, plus a little isotropic noise. Uniformly
+ * random high-dimensional vectors are nearly orthogonal and have no real
+ * neighbours, which says nothing about how the index behaves on a vault.
+ *
+ * Pure module: no IndexedDB, no Obsidian, no Node.
+ */
+
+import { HnswIndex, SeededRandom, type HnswIndexOptions } from "./HnswIndex";
+
+export interface AnnBenchmarkOptions {
+  vectors: number;
+  dimensions: number;
+  queries: number;
+  k: number;
+  clusters?: number;
+  seed?: number;
+  index?: Omit<HnswIndexOptions, "dimensions">;
+  now?: () => number;
+}
+
+export interface AnnBenchmarkReport {
+  vectors: number;
+  dimensions: number;
+  queries: number;
+  k: number;
+  buildMs: number;
+  exact: { p50Ms: number; p95Ms: number };
+  ann: { p50Ms: number; p95Ms: number };
+  /** Mean share of the exact top-k that the re-ranked index candidates also returned. */
+  recallAtK: number;
+}
+
+/** Unit vectors around `clusters` random centroids, varying along a shared latent subspace. */
+export function generateClusteredVectors(
+  count: number,
+  dimensions: number,
+  clusters = 32,
+  seed = 1,
+  latentDimensions = 24,
+): Float32Array[] {
+  const random = new SeededRandom(seed);
+  const gaussian = () => {
+    const u = Math.max(random.next(), Number.EPSILON);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random.next());
+  };
+  const centroids = Array.from({ length: Math.max(1, clusters) }, () => {
+    return normalize(Float32Array.from({ length: dimensions }, gaussian));
+  });
+  const basis = Array.from({ length: latentDimensions }, () => {
+    return normalize(Float32Array.from({ length: dimensions }, gaussian));
+  });
+  return Array.from({ length: count }, () => {
+    const centroid = centroids[Math.floor(random.next() * centroids.length)];
+    const vector = Float32Array.from(centroid, (value) => value + 0.1 * gaussian() / Math.sqrt(dimensions));
+    for (const direction of basis) {
+      const weight = 0.4 * gaussian() / Math.sqrt(latentDimensions);
+      for (let index = 0; index < dimensions; index++) vector[index] += weight * direction[index];
+    }
+    return normalize(vector);
+  });
+}
+
+export function exactTopK(query: Float32Array, vectors: readonly Float32Array[], k: number): number[] {
+  const scored = vectors.map((vector, index) => ({ index, score: dot(query, vector) }));
+  scored.sort((a, b) => b.score - a.score);
+  return scored.slice(0, k).map((entry) => entry.index);
+}
+
+export function runAnnBenchmark(options: AnnBenchmarkOptions): AnnBenchmarkReport {
+  const now = options.now ?? (() => Date.now());
+  const seed = options.seed ?? 1;
+  // Queries are held-out draws from the same distribution as the corpus.
+  const generated = generateClusteredVectors(options.vectors + options.queries, options.dimensions, options.clusters, seed);
+  const corpus = generated.slice(0, options.vectors);
+  const queries = generated.slice(options.vectors);
+
+  const buildStarted = now();
+  const index = new HnswIndex({ dimensions: options.dimensions, ...options.index });
+  corpus.forEach((vector, position) => index.add(String(position), vector));
+  const buildMs = now() - buildStarted;
+
+  const exactTimes: number[] = [];
+  const annTimes: number[] = [];
+  let recall = 0;
+  for (const query of queries) {
+    let started = now();
+    const expected = exactTopK(query, corpus, options.k);
+    exactTimes.push(now() - started);
+
+    // Mirror EmbeddingsManager: over-fetch candidates, then re-rank exactly.
+    started = now();
+    const candidates = index.search(query, Math.max(options.k * 2, 64)).map((hit) => Number(hit.id));
+    const reranked = candidates
+      .map((position) => ({ position, score: dot(query, corpus[position]) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.k);
+    annTimes.push(now() - started);
+
+    const found = new Set(reranked.map((entry) => entry.position));
+    recall += expected.filter((position) => found.has(position)).length / Math.max(1, expected.length);
+  }
+
+  return {
+    vectors: options.vectors,
+    dimensions: options.dimensions,
+    queries: options.queries,
+    k: options.k,
+    buildMs,
+    exact: { p50Ms: percentile(exactTimes, 0.5), p95Ms: percentile(exactTimes, 0.95) },
+    ann: { p50Ms: percentile(annTimes, 0.5), p95Ms: percentile(annTimes, 0.95) },
+    recallAtK: queries.length === 0 ? 0 : recall / queries.length,
+  };
+}
+
+function percentile(values: readonly number[], rank: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(rank * sorted.length))];
+}
+
+function dot(left: Float32Array, right: Float32Array): number {
+  let sum = 0;
+  for (let index = 0; index < left.length; index++) sum += left[index] * right[index];
+  return sum;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm) || 1;
+  for (let index = 0; index < vector.length; index++) vector[index] /= norm;
+  return vector;
+}
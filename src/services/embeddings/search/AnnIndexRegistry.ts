@@ -0,0 +1,346 @@
+/**
+ * AnnIndexRegistry - keeps one HNSW graph per embeddings namespace in step
+ * with EmbeddingsStorage and checkpoints it next to the portable index.
+ *
+ * A graph is only trusted when it matches the store. Loading compares the
+ * snapshot's `sourceCount` with the namespace's record count and rebuilds
+ * from a namespace scan on any mismatch. The first change after a checkpoint
+ * deletes the snapshot, so a crash before the next write leaves no stale
+ * graph behind. Mutations that arrive while a graph loads or builds are queued
+ * and replayed; replay is idempotent (add replaces, remove ignores unknown ids).
+ *
+ * Building and compacting run on the UI thread, so both insert a chunk of
+ * vectors at a time and yield between chunks. A graph being compacted keeps
+ * serving searches and taking writes, which are replayed onto the new graph.
+ *
+ * `search` returns null whenever the graph is not ready or the namespace is
+ * small enough for the exact scan to be cheap; callers fall back to it.
+ */
+
+import type { EmbeddingVector } from "../types";
+import type { EmbeddingsStorageMutation } from "../storage/EmbeddingsStorage";
+import { parseNamespaceDimension } from "../utils/namespace";
+import { yieldToEventLoop } from "../../../utils/yieldToEventLoop";
+import { HnswIndex, type HnswSearchHit, type SerializedHnswIndex } from "./HnswIndex";
+
+/** Below this many vectors the exact scan is fast enough on its own. */
+export const ANN_MIN_VECTORS = 2_000;
+/** Rebuild without tombstones once they are this share of the graph. */
+const COMPACT_TOMBSTONE_RATIO = 0.25;
+/** Inserts between yields; one insert costs around a millisecond on a large graph. */
+const BUILD_CHUNK_SIZE = 25;
+
+export interface AnnIndexSnapshot {
+  namespace: string;
+  /** Records in the namespace when the graph was saved. */
+  sourceCount: number;
+  savedAt: number;
+  index: SerializedHnswIndex;
+}
+
+export interface AnnIndexStore {
+  countVectorsInNamespace(namespace: string): Promise<number>;
+  scanVectorsByNamespace(
+    namespace: string,
+    onBatch: (vectors: EmbeddingVector[]) => void,
+    options?: { batchSize?: number; signal?: AbortSignal },
+  ): Promise<void>;
+}
+
+export interface AnnSnapshotFile {
+  read(): Promise<AnnIndexSnapshot | null>;
+  write(snapshot: AnnIndexSnapshot): Promise<void>;
+  remove(): Promise<void>;
+}
+
+export interface AnnIndexRegistryOptions {
+  store: AnnIndexStore;
+  /** Snapshot location for a namespace, or null to keep graphs in memory only. */
+  fileFor?: (namespace: string) => AnnSnapshotFile | null;
+  minVectors?: number;
+  quietMs?: number;
+}
+
+type AnnEntry = {
+  state: "loading" | "ready";
+  index: HnswIndex | null;
+  pending: EmbeddingsStorageMutation[];
+  /** Changed since the last checkpoint. */
+  dirty: boolean;
+  /** A tombstone-free copy is being built; writes also queue in `pending`. */
+  compacting: boolean;
+};
+
+/** Snapshot file name for a namespace; `:` is not portable across filesystems. */
+export function annSnapshotFileName(namespace: string): string {
+  return `${namespace.replace(/[^A-Za-z0-9._-]/g, "~")}.hnsw.json`;
+}
+
+export class AnnIndexRegistry {
+  private readonly entries = new Map<string, AnnEntry>();
+  private readonly loads = new Map<string, Promise<void>>();
+  /** Namespaces whose on-disk snapshot was already discarded this session. */
+  private readonly discarded = new Set<string>();
+  private readonly minVectors: number;
+  private readonly quietMs: number;
+  private timer: number | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private disposed = false;
+
+  constructor(private readonly options: AnnIndexRegistryOptions) {
+    this.minVectors = options.minVectors ?? ANN_MIN_VECTORS;
+    this.quietMs = options.quietMs ?? 5_000;
+  }
+
+  isReady(namespace: string): boolean {
+    return this.entries.get(namespace)?.state === "ready";
+  }
+
+  /**
+   * Approximate top-k ids for the query, or null when the caller should use
+   * the exact scan. A miss starts loading the graph in the background.
+   */
+  search(namespace: string, query: Float32Array, k: number): HnswSearchHit[] | null {
+    const entry = this.entries.get(namespace);
+    if (entry?.state === "ready" && entry.index) return entry.index.search(query, k, Math.max(k, 64));
+    void this.ensure(namespace).catch(() => undefined);
+    return null;
+  }
+
+  /** Load or build the namespace graph if it is large enough to be worth it. */
+  async ensure(namespace: string): Promise<void> {
+    if (this.disposed || this.entries.get(namespace)?.state === "ready") return;
+    const inFlight = this.loads.get(namespace);
+    if (inFlight) return inFlight;
+    const load = this.load(namespace).finally(() => this.loads.delete(namespace));
+    this.loads.set(namespace, load);
+    return load;
+  }
+
+  /** Feed a committed storage change; wire to `EmbeddingsStorage.addMutationListener`. */
+  apply(mutation: EmbeddingsStorageMutation): void {
+    if (this.disposed) return;
+    if (mutation.kind === "invalidate") {
+      for (const namespace of [...this.entries.keys()]) {
+        if (mutation.matches(namespace)) this.drop(namespace);
+      }
+      return;
+    }
+    for (const namespace of this.namespacesOf(mutation)) {
+      const entry = this.entries.get(namespace);
+      if (!entry) {
+        this.discardSnapshot(namespace);
+        continue;
+      }
+      if (entry.state === "loading") {
+        entry.pending.push(mutation);
+        continue;
+      }
+      if (entry.compacting) entry.pending.push(mutation);
+      this.applyTo(namespace, entry, mutation);
+      this.markDirty(namespace, entry);
+    }
+  }
+
+  /** Write every changed graph now. */
+  async flush(): Promise<void> {
+    this.cancelTimer();
+    const dirty = [...this.entries].filter(([, entry]) => entry.dirty && entry.state === "ready");
+    this.writeChain = this.writeChain.catch(() => undefined).then(async () => {
+      for (const [namespace, entry] of dirty) await this.persist(namespace, entry);
+    });
+    await this.writeChain;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.cancelTimer();
+    this.entries.clear();
+  }
+
+  private async load(namespace: string): Promise<void> {
+    const dimensions = parseNamespaceDimension(namespace);
+    if (!dimensions) return;
+    // Registered before the first await so concurrent writes queue instead of
+    // being mistaken for changes to an unloaded namespace.
+    const entry: AnnEntry = {
+      state: "loading",
+      index: null,
+      pending: [],
+      dirty: false,
+      compacting: false,
+    };
+    this.entries.set(namespace, entry);
+    try {
+      const count = await this.options.store.countVectorsInNamespace(namespace);
+      if (this.disposed || count < this.minVectors) {
+        if (this.entries.get(namespace) === entry) this.entries.delete(namespace);
+        if (entry.pending.length > 0) this.discardSnapshot(namespace);
+        return;
+      }
+      entry.index = await this.readSnapshot(namespace, dimensions, count);
+      if (!entry.index) {
+        entry.index = await this.build(namespace, entry, dimensions);
+        entry.dirty = true;
+      }
+    } catch (error) {
+      if (this.entries.get(namespace) === entry) this.entries.delete(namespace);
+      if (entry.pending.length > 0) this.discardSnapshot(namespace);
+      throw error;
+    }
+    // Dropped by an invalidation while loading: the graph describes deleted data.
+    if (this.entries.get(namespace) !== entry) return;
+    for (const mutation of entry.pending.splice(0)) {
+      this.applyTo(namespace, entry, mutation);
+      entry.dirty = true;
+    }
+    entry.state = "ready";
+    if (entry.dirty) {
+      // Whatever is on disk no longer describes this graph.
+      this.discarded.delete(namespace);
+      this.discardSnapshot(namespace);
+      this.schedule();
+    }
+  }
+
+  private async readSnapshot(namespace: string, dimensions: number, count: number): Promise<HnswIndex | null> {
+    const snapshot = await this.options.fileFor?.(namespace)?.read();
+    if (!snapshot || snapshot.namespace !== namespace || snapshot.sourceCount !== count) return null;
+    const index = HnswIndex.deserialize(snapshot.index);
+    return index && index.dimensions === dimensions && index.size === count ? index : null;
+  }
+
+  /** Null when the entry was dropped before the graph was finished. */
+  private async build(namespace: string, entry: AnnEntry, dimensions: number): Promise<HnswIndex | null> {
+    // The scan callback runs inside an IndexedDB transaction, which commits as
+    // soon as it waits on anything else, so inserting happens after the scan.
+    const vectors: Array<{ id: string; vector: Float32Array }> = [];
+    await this.options.store.scanVectorsByNamespace(namespace, (batch) => {
+      for (const vector of batch) vectors.push({ id: vector.id, vector: vector.vector });
+    });
+    return this.runInChunks(namespace, entry, insertAll(new HnswIndex({ dimensions }), vectors));
+  }
+
+  private async compact(namespace: string, entry: AnnEntry): Promise<void> {
+    if (!entry.index) return;
+    entry.compacting = true;
+    const index = await this.runInChunks(namespace, entry, entry.index.compactSteps());
+    entry.compacting = false;
+    if (!index) return;
+    entry.index = index;
+    for (const mutation of entry.pending.splice(0)) this.applyTo(namespace, entry, mutation);
+  }
+
+  /**
+   * Steps through `work` a chunk at a time, yielding to the event loop in
+   * between. Null when the entry was dropped or the registry disposed meanwhile.
+   */
+  private async runInChunks<T>(namespace: string, entry: AnnEntry, work: Generator<void, T>): Promise<T | null> {
+    for (;;) {
+      for (let step = 0; step < BUILD_CHUNK_SIZE; step++) {
+        const next = work.next();
+        if (next.done) return next.value;
+      }
+      await yieldToEventLoop();
+      if (this.disposed || this.entries.get(namespace) !== entry) return null;
+    }
+  }
+
+  private applyTo(namespace: string, entry: AnnEntry, mutation: EmbeddingsStorageMutation): void {
+    if (!entry.index) return;
+    if (mutation.kind === "put") {
+      for (const vector of mutation.vectors) {
+        if (vector.metadata.namespace === namespace) entry.index.add(vector.id, vector.vector);
+      }
+    } else if (mutation.kind === "remove") {
+      const prefix = `${namespace}::`;
+      for (const id of mutation.ids) {
+        if (id.startsWith(prefix)) entry.index.remove(id);
+      }
+    }
+    if (!entry.compacting && entry.index.tombstoneRatio > COMPACT_TOMBSTONE_RATIO) {
+      void this.compact(namespace, entry);
+    }
+  }
+
+  private namespacesOf(mutation: EmbeddingsStorageMutation): Set<string> {
+    const namespaces = new Set<string>();
+    if (mutation.kind === "put") {
+      for (const vector of mutation.vectors) {
+        if (vector.metadata.namespace) namespaces.add(vector.metadata.namespace);
+      }
+    } else if (mutation.kind === "remove") {
+      for (const id of mutation.ids) {
+        const separator = id.indexOf("::");
+        if (separator > 0) namespaces.add(id.slice(0, separator));
+      }
+    }
+    return namespaces;
+  }
+
+  private markDirty(namespace: string, entry: AnnEntry): void {
+    if (!entry.dirty) {
+      entry.dirty = true;
+      this.discardSnapshot(namespace);
+    }
+    this.schedule();
+  }
+
+  private drop(namespace: string): void {
+    this.entries.delete(namespace);
+    this.discardSnapshot(namespace);
+  }
+
+  private discardSnapshot(namespace: string): void {
+    if (this.discarded.has(namespace)) return;
+    const file = this.options.fileFor?.(namespace);
+    if (!file) return;
+    this.discarded.add(namespace);
+    this.writeChain = this.writeChain.catch(() => undefined).then(() => file.remove()).catch(() => undefined);
+  }
+
+  private async persist(namespace: string, entry: AnnEntry): Promise<void> {
+    const file = this.options.fileFor?.(namespace);
+    if (!entry.index || this.entries.get(namespace) !== entry) return;
+    entry.dirty = false;
+    if (!file) return;
+    try {
+      await file.write({
+        namespace,
+        sourceCount: entry.index.size,
+        savedAt: Date.now(),
+        index: entry.index.serialize(),
+      });
+      this.discarded.delete(namespace);
+    } catch {
+      // A missing snapshot only costs a rebuild on the next launch.
+      entry.dirty = true;
+    }
+  }
+
+  private schedule(): void {
+    if (this.disposed) return;
+    this.cancelTimer();
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      void this.flush().catch(() => undefined);
+    }, this.quietMs);
+  }
+
+  private cancelTimer(): void {
+    if (this.timer === null) return;
+    window.clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+function* insertAll(
+  index: HnswIndex,
+  vectors: ReadonlyArray<{ id: string; vector: Float32Array }>,
+): Generator<void, HnswIndex> {
+  for (const vector of vectors) {
+    index.add(vector.id, vector.vector);
+    yield;
+  }
+  return index;
+}
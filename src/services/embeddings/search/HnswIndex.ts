@@ -0,0 +1,476 @@
+/**
+ * HnswIndex - hierarchical navigable small world graph over unit-normalized
+ * vectors, scored by dot product.
+ *
+ * Vectors are held as int8 (component * 127) so a large vault's graph stays a
+ * quarter of the Float32 size. Scores from this index are therefore
+ * approximate; callers re-rank the returned ids against the stored Float32
+ * vectors before showing anything.
+ *
+ * Removal tombstones a node: it keeps routing traffic through the graph but
+ * never appears in results. `compact()` rebuilds without tombstones once they
+ * start to dominate.
+ *
+ * Pure module: no IndexedDB, no Obsidian, no Node — safe to load in any runtime.
+ */
+
+import { base64ToBytes, bytesToBase64 } from "../storage/EmbeddingsIndexSerialization";
+
+/** Bump when the serialized graph shape changes incompatibly. */
+export const HNSW_INDEX_FORMAT = 1;
+
+const QUANTIZE_SCALE = 127;
+const MAX_LEVEL = 16;
+
+export interface HnswIndexOptions {
+  dimensions: number;
+  /** Neighbours kept per node on upper layers; layer 0 keeps twice as many. */
+  m?: number;
+  /** Candidate list size while inserting. Higher builds slower with better recall. */
+  efConstruction?: number;
+  /** Default candidate list size while searching. */
+  efSearch?: number;
+  seed?: number;
+}
+
+export interface HnswSearchHit {
+  id: string;
+  /** Approximate dot product against the quantized vector. */
+  score: number;
+}
+
+export interface SerializedHnswIndex {
+  format: number;
+  dimensions: number;
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+  rngState: number;
+  entryPoint: number;
+  maxLevel: number;
+  nodes: Array<{
+    /** null for tombstoned nodes that still route searches. */
+    id: string | null;
+    /** Base64 of the int8 components. */
+    vector: string;
+    /** Neighbour node indices per layer, layer 0 first. */
+    links: number[][];
+  }>;
+}
+
+/** Mulberry32: small, fast, and reproducible across runtimes. */
+export class SeededRandom {
+  private current: number;
+
+  constructor(seed: number) {
+    this.current = seed >>> 0;
+  }
+
+  get state(): number {
+    return this.current;
+  }
+
+  next(): number {
+    this.current = (this.current + 0x6d2b79f5) >>> 0;
+    let t = this.current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+function quantize(vector: Float32Array): Int8Array {
+  const out = new Int8Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    const value = Math.max(-1, Math.min(1, vector[i]));
+    out[i] = Math.round(value * QUANTIZE_SCALE);
+  }
+  return out;
+}
+
+function dotQuantized(a: Int8Array, b: Int8Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum / (QUANTIZE_SCALE * QUANTIZE_SCALE);
+}
+
+function dotQuery(query: Float32Array, b: Int8Array): number {
+  let sum = 0;
+  for (let i = 0; i < query.length; i++) sum += query[i] * b[i];
+  return sum / QUANTIZE_SCALE;
+}
+
+type Scored = { node: number; score: number };
+
+/** Binary heap ordered by score; `max` picks the comparison direction. */
+class ScoreHeap {
+  private readonly items: Scored[] = [];
+
+  constructor(private readonly max: boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): Scored | undefined {
+    return this.items[0];
+  }
+
+  push(item: Scored): void {
+    const items = this.items;
+    items.push(item);
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.before(items[index], items[parent])) break;
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  pop(): Scored | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let best = index;
+        if (left < items.length && this.before(items[left], items[best])) best = left;
+        if (right < items.length && this.before(items[right], items[best])) best = right;
+        if (best === index) break;
+        [items[index], items[best]] = [items[best], items[index]];
+        index = best;
+      }
+    }
+    return top;
+  }
+
+  toArray(): Scored[] {
+    return [...this.items];
+  }
+
+  private before(a: Scored, b: Scored): boolean {
+    return this.max ? a.score > b.score : a.score < b.score;
+  }
+}
+
+export class HnswIndex {
+  readonly dimensions: number;
+  private readonly m: number;
+  private readonly mMax0: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelMultiplier: number;
+  private random: SeededRandom;
+  private readonly ids: Array<string | null> = [];
+  private readonly vectors: Int8Array[] = [];
+  private readonly links: number[][][] = [];
+  private readonly nodeById = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+
+  constructor(options: HnswIndexOptions) {
+    if (!Number.isInteger(options.dimensions) || options.dimensions < 1) {
+      throw new Error("HNSW index dimensions must be a positive integer.");
+    }
+    this.dimensions = options.dimensions;
+    this.m = Math.max(2, Math.floor(options.m ?? 16));
+    this.mMax0 = this.m * 2;
+    this.efConstruction = Math.max(this.m, Math.floor(options.efConstruction ?? 100));
+    this.efSearch = Math.max(1, Math.floor(options.efSearch ?? 64));
+    this.levelMultiplier = 1 / Math.log(this.m);
+    this.random = new SeededRandom(options.seed ?? 0x5eed);
+  }
+
+  /** Live (non-tombstoned) vectors. */
+  get size(): number {
+    return this.nodeById.size;
+  }
+
+  /** Share of graph nodes that are tombstones. */
+  get tombstoneRatio(): number {
+    return this.ids.length === 0 ? 0 : (this.ids.length - this.nodeById.size) / this.ids.length;
+  }
+
+  has(id: string): boolean {
+    return this.nodeById.has(id);
+  }
+
+  /** Insert or replace a vector. Vectors of the wrong size are ignored. */
+  add(id: string, vector: Float32Array): boolean {
+    if (!id || vector.length !== this.dimensions) return false;
+    this.remove(id);
+    this.insertNode(id, quantize(vector));
+    return true;
+  }
+
+  remove(id: string): boolean {
+    const node = this.nodeById.get(id);
+    if (node === undefined) return false;
+    this.nodeById.delete(id);
+    this.ids[node] = null;
+    return true;
+  }
+
+  search(query: Float32Array, k: number, ef: number = this.efSearch): HnswSearchHit[] {
+    const limit = Math.max(0, Math.floor(k));
+    if (limit === 0 || this.entryPoint < 0 || query.length !== this.dimensions || this.nodeById.size === 0) {
+      return [];
+    }
+    let current: Scored = { node: this.entryPoint, score: dotQuery(query, this.vectors[this.entryPoint]) };
+    for (let level = this.maxLevel; level > 0; level--) {
+      current = this.greedy(current, level, (node) => dotQuery(query, this.vectors[node]));
+    }
+    // Tombstones still occupy candidate slots, so widen the beam to compensate.
+    const width = Math.ceil(Math.max(ef, limit) / Math.max(0.25, 1 - this.tombstoneRatio));
+    const found = this.searchLayer([current], width, 0, (node) => dotQuery(query, this.vectors[node]));
+    const hits: HnswSearchHit[] = [];
+    for (const item of found.sort((a, b) => b.score - a.score)) {
+      const id = this.ids[item.node];
+      if (id === null) continue;
+      hits.push({ id, score: item.score });
+      if (hits.length === limit) break;
+    }
+    return hits;
+  }
+
+  /** A fresh graph over the live nodes only. */
+  compact(): HnswIndex {
+    const steps = this.compactSteps();
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    return step.value;
+  }
+
+  /**
+   * `compact()` one insert per step, so a caller on the UI thread can yield
+   * between steps. Changes made to this graph while stepping are not carried
+   * over; the caller replays them onto the result.
+   */
+  *compactSteps(): Generator<void, HnswIndex> {
+    const next = new HnswIndex({
+      dimensions: this.dimensions,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      seed: Math.floor(this.random.next() * 4294967296),
+    });
+    const live = [...this.nodeById].map(([id, node]) => [id, this.vectors[node]] as const);
+    for (const [id, vector] of live) {
+      next.insertNode(id, vector);
+      yield;
+    }
+    return next;
+  }
+
+  serialize(): SerializedHnswIndex {
+    return {
+      format: HNSW_INDEX_FORMAT,
+      dimensions: this.dimensions,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      rngState: this.random.state,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.ids.map((id, node) => ({
+        id,
+        vector: bytesToBase64(new Uint8Array(this.vectors[node].buffer, this.vectors[node].byteOffset, this.dimensions)),
+        links: this.links[node].map((layer) => [...layer]),
+      })),
+    };
+  }
+
+  /**
+   * Rebuild a graph from its serialized form. Returns null for anything that
+   * does not describe a consistent graph (a partially synced or hand-edited
+   * file must fall back to a rebuild, never a crash).
+   */
+  static deserialize(input: unknown): HnswIndex | null {
+    if (!input || typeof input !== "object") return null;
+    const data = input as Partial<SerializedHnswIndex>;
+    if (
+      data.format !== HNSW_INDEX_FORMAT
+      || !Number.isInteger(data.dimensions)
+      || !Number.isInteger(data.m)
+      || !Number.isInteger(data.efConstruction)
+      || !Number.isInteger(data.efSearch)
+      || !Number.isInteger(data.rngState)
+      || !Number.isInteger(data.entryPoint)
+      || !Number.isInteger(data.maxLevel)
+      || !Array.isArray(data.nodes)
+    ) {
+      return null;
+    }
+    let index: HnswIndex;
+    try {
+      index = new HnswIndex({
+        dimensions: data.dimensions!,
+        m: data.m,
+        efConstruction: data.efConstruction,
+        efSearch: data.efSearch,
+      });
+    } catch {
+      return null;
+    }
+    index.random = new SeededRandom(data.rngState!);
+    const count = data.nodes.length;
+    for (const raw of data.nodes) {
+      if (!raw || typeof raw !== "object" || typeof raw.vector !== "string" || !Array.isArray(raw.links)) return null;
+      if (raw.id !== null && (typeof raw.id !== "string" || raw.id.length === 0 || index.nodeById.has(raw.id))) return null;
+      if (raw.links.length < 1 || raw.links.length > MAX_LEVEL + 1) return null;
+      let bytes: Uint8Array;
+      try {
+        bytes = base64ToBytes(raw.vector);
+      } catch {
+        return null;
+      }
+      if (bytes.length !== index.dimensions) return null;
+      const links: number[][] = [];
+      for (const layer of raw.links) {
+        if (!Array.isArray(layer) || !layer.every((node) => Number.isInteger(node) && node >= 0 && node < count)) {
+          return null;
+        }
+        links.push([...layer]);
+      }
+      const node = index.ids.length;
+      index.ids.push(raw.id);
+      index.vectors.push(new Int8Array(bytes.buffer, bytes.byteOffset, bytes.length));
+      index.links.push(links);
+      if (raw.id !== null) index.nodeById.set(raw.id, node);
+    }
+    const entryPoint = data.entryPoint!;
+    const maxLevel = data.maxLevel!;
+    if (count === 0 ? entryPoint !== -1 : entryPoint < 0 || entryPoint >= count || index.links[entryPoint].length !== maxLevel + 1) {
+      return null;
+    }
+    index.entryPoint = entryPoint;
+    index.maxLevel = count === 0 ? -1 : maxLevel;
+    return index;
+  }
+
+  private insertNode(id: string, vector: Int8Array): void {
+    const level = Math.min(MAX_LEVEL, Math.floor(-Math.log(1 - this.random.next()) * this.levelMultiplier));
+    const node = this.ids.length;
+    this.ids.push(id);
+    this.vectors.push(vector);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+    this.nodeById.set(id, node);
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    const score = (other: number) => dotQuantized(vector, this.vectors[other]);
+    let current: Scored = { node: this.entryPoint, score: score(this.entryPoint) };
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedy(current, layer, score);
+    }
+    let entries: Scored[] = [current];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(entries, this.efConstruction, layer, score);
+      const neighbours = this.selectNeighbours(candidates, this.m);
+      this.links[node][layer] = neighbours.map((item) => item.node);
+      const cap = layer === 0 ? this.mMax0 : this.m;
+      for (const neighbour of neighbours) {
+        const list = this.links[neighbour.node][layer];
+        list.push(node);
+        if (list.length > cap) {
+          // Overflow drops the weakest link; rerunning the diversity heuristic
+          // here costs O(cap^2) dot products per neighbour and dominates builds.
+          const base = this.vectors[neighbour.node];
+          let weakest = 0;
+          let weakestScore = Infinity;
+          list.forEach((other, position) => {
+            const linkScore = dotQuantized(base, this.vectors[other]);
+            if (linkScore < weakestScore) {
+              weakestScore = linkScore;
+              weakest = position;
+            }
+          });
+          list.splice(weakest, 1);
+        }
+      }
+      entries = candidates;
+    }
+    if (level > this.maxLevel) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+    }
+  }
+
+  private greedy(start: Scored, layer: number, score: (node: number) => number): Scored {
+    let current = start;
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbour of this.links[current.node][layer] ?? []) {
+        const candidate = score(neighbour);
+        if (candidate > current.score) {
+          current = { node: neighbour, score: candidate };
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  private searchLayer(entries: Scored[], ef: number, layer: number, score: (node: number) => number): Scored[] {
+    const visited = new Set<number>();
+    const candidates = new ScoreHeap(true);
+    const results = new ScoreHeap(false);
+    for (const entry of entries) {
+      if (visited.has(entry.node)) continue;
+      visited.add(entry.node);
+      candidates.push(entry);
+      results.push(entry);
+      if (results.size > ef) results.pop();
+    }
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      const worst = results.peek()!;
+      if (closest.score < worst.score && results.size >= ef) break;
+      for (const neighbour of this.links[closest.node][layer] ?? []) {
+        if (visited.has(neighbour)) continue;
+        visited.add(neighbour);
+        const item = { node: neighbour, score: score(neighbour) };
+        if (results.size < ef || item.score > results.peek()!.score) {
+          candidates.push(item);
+          results.push(item);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+    return results.toArray();
+  }
+
+  /**
+   * Keep a candidate only when it is closer to the new node than to any
+   * neighbour already kept, so links spread across clusters instead of
+   * piling into the nearest one; leftover slots are filled by score.
+   */
+  private selectNeighbours(candidates: Scored[], limit: number): Scored[] {
+    const ordered = [...candidates].sort((a, b) => b.score - a.score);
+    const selected: Scored[] = [];
+    const skipped: Scored[] = [];
+    for (const candidate of ordered) {
+      if (selected.length >= limit) break;
+      const diverse = selected.every((kept) => (
+        dotQuantized(this.vectors[candidate.node], this.vectors[kept.node]) < candidate.score
+      ));
+      if (diverse) selected.push(candidate);
+      else skipped.push(candidate);
+    }
+    for (const candidate of skipped) {
+      if (selected.length >= limit) break;
+      selected.push(candidate);
+    }
+    return selected;
+  }
+}
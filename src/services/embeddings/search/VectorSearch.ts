@@ -183,6 +183,7 @@ export class VectorSearch {
     const needsEllipsis = rawExcerpt.length > this.excerptLength;
     const baseExcerpt = needsEllipsis ? `${excerpt}...` : excerpt;
     const sectionTitle = item.vector.metadata.sectionTitle;
+    const headingPath = item.vector.metadata.headingPath;
     const formattedExcerpt =
       sectionTitle && baseExcerpt && !baseExcerpt.startsWith(sectionTitle)
         ? `${sectionTitle} — ${baseExcerpt}`
@@ -195,7 +196,8 @@ export class VectorSearch {
         title: item.vector.metadata.title,
         excerpt: formattedExcerpt,
         lastModified: item.vector.metadata.mtime || Date.now(),
-        sectionTitle
+        sectionTitle,
+        ...(Array.isArray(headingPath) && headingPath.length > 0 ? { headingPath: [...headingPath] } : {})
       }
     };
   }
@@ -0,0 +1,190 @@
+import type { EmbeddingVector } from "../../types";
+import {
+  AnnIndexRegistry,
+  annSnapshotFileName,
+  type AnnIndexSnapshot,
+  type AnnSnapshotFile,
+} from "../AnnIndexRegistry";
+import { generateClusteredVectors } from "../AnnBenchmark";
+
+const NAMESPACE = "systemsculpt:managed:semantic-v1:v2:16";
+const OTHER_NAMESPACE = "systemsculpt:managed:semantic-v2:v2:16";
+
+function record(position: number, vector: Float32Array, namespace = NAMESPACE): EmbeddingVector {
+  const path = `Note-${position}.md`;
+  return {
+    id: `${namespace}::${path}#0`,
+    path,
+    chunkId: 0,
+    vector,
+    metadata: {
+      title: `Note ${position}`,
+      mtime: 1,
+      contentHash: String(position),
+      generation: "semantic-v1",
+      dimension: vector.length,
+      createdAt: 1,
+      namespace,
+      complete: true,
+    },
+  };
+}
+
+function harness(count = 40) {
+  const records = generateClusteredVectors(count + 5, 16, 4, 3).map((vector, position) => record(position, vector));
+  const stored = new Map(records.slice(0, count).map((vector) => [vector.id, vector]));
+  const files = new Map<string, AnnIndexSnapshot>();
+  const store = {
+    countVectorsInNamespace: jest.fn(async (namespace: string) => (
+      [...stored.values()].filter((vector) => vector.metadata.namespace === namespace).length
+    )),
+    scanVectorsByNamespace: jest.fn(async (namespace: string, onBatch: (batch: EmbeddingVector[]) => void) => {
+      onBatch([...stored.values()].filter((vector) => vector.metadata.namespace === namespace));
+    }),
+  };
+  const fileFor = jest.fn((namespace: string): AnnSnapshotFile => ({
+    read: async () => files.get(namespace) ?? null,
+    write: async (snapshot) => { files.set(namespace, JSON.parse(JSON.stringify(snapshot))); },
+    remove: async () => { files.delete(namespace); },
+  }));
+  const registry = new AnnIndexRegistry({ store, fileFor, minVectors: 10, quietMs: 10 });
+  return { registry, records, stored, files, store };
+}
+
+describe("AnnIndexRegistry", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("declines small namespaces so the caller keeps the exact scan", async () => {
+    const { registry, store } = harness(5);
+
+    expect(registry.search(NAMESPACE, new Float32Array(16), 5)).toBeNull();
+    await registry.ensure(NAMESPACE);
+
+    expect(store.scanVectorsByNamespace).not.toHaveBeenCalled();
+    expect(registry.isReady(NAMESPACE)).toBe(false);
+  });
+
+  it("builds from a namespace scan, persists, and reloads without rescanning", async () => {
+    const first = harness();
+    await first.registry.ensure(NAMESPACE);
+
+    expect(first.registry.search(NAMESPACE, first.records[2].vector, 1)?.[0]?.id).toBe(first.records[2].id);
+    await first.registry.flush();
+    expect(first.files.get(NAMESPACE)).toMatchObject({ namespace: NAMESPACE, sourceCount: 40 });
+
+    const second = harness();
+    second.files.set(NAMESPACE, first.files.get(NAMESPACE)!);
+    await second.registry.ensure(NAMESPACE);
+
+    expect(second.store.scanVectorsByNamespace).not.toHaveBeenCalled();
+    expect(second.registry.search(NAMESPACE, second.records[2].vector, 1)?.[0]?.id).toBe(second.records[2].id);
+  });
+
+  it("rebuilds when the snapshot no longer matches the store", async () => {
+    const { registry, files, store } = harness();
+    await registry.ensure(NAMESPACE);
+    await registry.flush();
+    const snapshot = files.get(NAMESPACE)!;
+
+    const rebuilt = harness();
+    rebuilt.files.set(NAMESPACE, { ...snapshot, sourceCount: snapshot.sourceCount - 1 });
+    await rebuilt.registry.ensure(NAMESPACE);
+
+    expect(store.scanVectorsByNamespace).toHaveBeenCalledTimes(1);
+    expect(rebuilt.store.scanVectorsByNamespace).toHaveBeenCalledTimes(1);
+  });
+
+  it("applies committed puts and removals and drops the stale snapshot", async () => {
+    const { registry, records, files } = harness();
+    await registry.ensure(NAMESPACE);
+    await registry.flush();
+    jest.useFakeTimers();
+    expect(files.has(NAMESPACE)).toBe(true);
+
+    registry.apply({ kind: "put", vectors: [records[42]] });
+    registry.apply({ kind: "remove", ids: [records[2].id] });
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(files.has(NAMESPACE)).toBe(false);
+    expect(registry.search(NAMESPACE, records[42].vector, 1)?.[0]?.id).toBe(records[42].id);
+    expect(registry.search(NAMESPACE, records[2].vector, 40)?.map((hit) => hit.id)).not.toContain(records[2].id);
+
+    await jest.advanceTimersByTimeAsync(10);
+    expect(files.get(NAMESPACE)?.sourceCount).toBe(40);
+  });
+
+  it("replays writes that land while the graph is building", async () => {
+    const { registry, records, store, stored } = harness();
+    let release!: () => void;
+    let scanning!: () => void;
+    const scanStarted = new Promise<void>((resolve) => { scanning = resolve; });
+    store.scanVectorsByNamespace.mockImplementationOnce(async (namespace, onBatch) => {
+      scanning();
+      await new Promise<void>((resolve) => { release = resolve; });
+      onBatch([...stored.values()].filter((vector) => vector.metadata.namespace === namespace));
+    });
+
+    const loading = registry.ensure(NAMESPACE);
+    await scanStarted;
+    registry.apply({ kind: "put", vectors: [records[41]] });
+    release();
+    await loading;
+
+    expect(registry.search(NAMESPACE, records[41].vector, 1)?.[0]?.id).toBe(records[41].id);
+  });
+
+  it("yields to the event loop between chunks while building", async () => {
+    const { registry } = harness(60);
+    let ticked = false;
+
+    const loading = registry.ensure(NAMESPACE);
+    window.setTimeout(() => { ticked = true; }, 0);
+    await loading;
+
+    expect(ticked).toBe(true);
+    expect(registry.isReady(NAMESPACE)).toBe(true);
+  });
+
+  it("compacts in the background and keeps writes made meanwhile", async () => {
+    const { registry, records, files } = harness();
+    await registry.ensure(NAMESPACE);
+
+    registry.apply({ kind: "remove", ids: records.slice(0, 11).map((vector) => vector.id) });
+    registry.apply({ kind: "put", vectors: [records[41]] });
+    registry.apply({ kind: "remove", ids: [records[20].id] });
+    expect(registry.search(NAMESPACE, records[41].vector, 1)?.[0]?.id).toBe(records[41].id);
+    await new Promise((resolve) => window.setTimeout(resolve, 0));
+    await registry.flush();
+
+    const snapshot = files.get(NAMESPACE)!;
+    expect(snapshot.sourceCount).toBe(29);
+    // 29 survivors and the put, with only the later removal left as a tombstone.
+    expect(snapshot.index.nodes).toHaveLength(30);
+    const hits = registry.search(NAMESPACE, records[20].vector, 40)?.map((hit) => hit.id);
+    expect(hits).toContain(records[41].id);
+    expect(hits).not.toContain(records[20].id);
+  });
+
+  it("forgets invalidated namespaces and ignores other namespaces' writes", async () => {
+    const { registry, records, files } = harness();
+    await registry.ensure(NAMESPACE);
+    await registry.flush();
+
+    const foreign = record(99, records[3].vector, OTHER_NAMESPACE);
+    registry.apply({ kind: "put", vectors: [foreign] });
+    expect(registry.search(NAMESPACE, records[3].vector, 40)?.map((hit) => hit.id)).not.toContain(foreign.id);
+
+    registry.apply({ kind: "invalidate", matches: (namespace) => namespace === NAMESPACE });
+    await registry.flush();
+
+    expect(registry.isReady(NAMESPACE)).toBe(false);
+    expect(files.has(NAMESPACE)).toBe(false);
+  });
+
+  it("names snapshot files without path-hostile characters", () => {
+    expect(annSnapshotFileName(NAMESPACE)).toBe("systemsculpt~managed~semantic-v1~v2~16.hnsw.json");
+  });
+});
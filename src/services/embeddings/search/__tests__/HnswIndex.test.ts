@@ -0,0 +1,106 @@
+import { HnswIndex, HNSW_INDEX_FORMAT } from "../HnswIndex";
+import { exactTopK, generateClusteredVectors, runAnnBenchmark } from "../AnnBenchmark";
+
+function buildIndex(vectors: Float32Array[], dimensions: number) {
+  const index = new HnswIndex({ dimensions, efConstruction: 64 });
+  vectors.forEach((vector, position) => index.add(`n${position}`, vector));
+  return index;
+}
+
+describe("HnswIndex", () => {
+  const dimensions = 32;
+  const corpus = generateClusteredVectors(600, dimensions, 8, 7);
+
+  it("finds the exact neighbours of held-out queries after exact re-ranking", () => {
+    const report = runAnnBenchmark({ vectors: 600, dimensions, queries: 20, k: 10, clusters: 8 });
+
+    expect(report.recallAtK).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it("returns stored vectors as their own nearest neighbour", () => {
+    const index = buildIndex(corpus, dimensions);
+
+    expect(index.size).toBe(600);
+    for (const position of [0, 150, 599]) {
+      expect(index.search(corpus[position], 1)[0]?.id).toBe(`n${position}`);
+    }
+  });
+
+  it("replaces vectors by id and never returns removed ids", () => {
+    const index = buildIndex(corpus.slice(0, 100), dimensions);
+    const target = corpus[0];
+
+    index.add("n5", target);
+    expect(index.size).toBe(100);
+    expect(index.search(target, 2).map((hit) => hit.id).sort()).toEqual(["n0", "n5"]);
+
+    index.remove("n0");
+    index.remove("n5");
+    expect(index.has("n0")).toBe(false);
+    const ids = index.search(target, 10).map((hit) => hit.id);
+    expect(ids).toHaveLength(10);
+    expect(ids).not.toContain("n0");
+    expect(ids).not.toContain("n5");
+    // The replaced n5 node and both removals leave three tombstones.
+    expect(index.tombstoneRatio).toBeCloseTo(3 / 101);
+  });
+
+  it("compacts tombstones away while keeping live neighbours", () => {
+    const index = buildIndex(corpus.slice(0, 100), dimensions);
+    for (let position = 0; position < 50; position++) index.remove(`n${position}`);
+
+    const compacted = index.compact();
+
+    expect(compacted.size).toBe(50);
+    expect(compacted.tombstoneRatio).toBe(0);
+    expect(compacted.search(corpus[75], 1)[0]?.id).toBe("n75");
+  });
+
+  it("ignores vectors with the wrong dimension", () => {
+    const index = new HnswIndex({ dimensions: 3 });
+
+    expect(index.add("bad", new Float32Array([1, 0]))).toBe(false);
+    expect(index.size).toBe(0);
+    expect(index.search(new Float32Array([1, 0, 0]), 5)).toEqual([]);
+  });
+
+  it("round-trips through serialization with identical results", () => {
+    const index = buildIndex(corpus.slice(0, 200), dimensions);
+    index.remove("n3");
+    const query = corpus[400];
+
+    const restored = HnswIndex.deserialize(JSON.parse(JSON.stringify(index.serialize())));
+
+    expect(restored).not.toBeNull();
+    expect(restored!.size).toBe(199);
+    expect(restored!.search(query, 10)).toEqual(index.search(query, 10));
+    restored!.add("late", corpus[401]);
+    expect(restored!.search(corpus[401], 1)[0]?.id).toBe("late");
+  });
+
+  it("rejects malformed snapshots instead of throwing", () => {
+    const valid = buildIndex(corpus.slice(0, 20), dimensions).serialize();
+
+    expect(HnswIndex.deserialize(null)).toBeNull();
+    expect(HnswIndex.deserialize({ ...valid, format: HNSW_INDEX_FORMAT + 1 })).toBeNull();
+    expect(HnswIndex.deserialize({ ...valid, entryPoint: 99 })).toBeNull();
+    expect(HnswIndex.deserialize({
+      ...valid,
+      nodes: valid.nodes.map((node, position) => position === 0 ? { ...node, links: [[500]] } : node),
+    })).toBeNull();
+    expect(HnswIndex.deserialize({
+      ...valid,
+      nodes: valid.nodes.map((node, position) => position === 0 ? { ...node, vector: "AA==" } : node),
+    })).toBeNull();
+  });
+
+  it("agrees with the exact scan helper on trivial data", () => {
+    const vectors = [new Float32Array([1, 0]), new Float32Array([0, 1]), new Float32Array([0.8, 0.6])];
+    const index = new HnswIndex({ dimensions: 2 });
+    vectors.forEach((vector, position) => index.add(String(position), vector));
+
+    expect(index.search(new Float32Array([1, 0]), 2).map((hit) => Number(hit.id))).toEqual(
+      exactTopK(new Float32Array([1, 0]), vectors, 2),
+    );
+  });
+});
@@ -22,7 +22,11 @@ export interface EmbeddingsIndexFileOptions {
   fileName?: string;
 }
 
-export class EmbeddingsIndexFile {
+/**
+ * The payload type defaults to the portable snapshot; derived indexes (e.g. the
+ * per-namespace ANN graphs) reuse the same atomic-write path with their own shape.
+ */
+export class EmbeddingsIndexFile<T = SerializedEmbeddingsIndex> {
   private readonly dir: string;
   private readonly filePath: string;
 
@@ -51,11 +55,11 @@ export class EmbeddingsIndexFile {
    * Read and JSON-parse the snapshot. Returns null when absent or unparseable
    * (a partially-synced or hand-edited file must never crash startup).
    */
-  public async read(): Promise<SerializedEmbeddingsIndex | null> {
+  public async read(): Promise<T | null> {
     try {
       if (!(await this.adapter.exists(this.filePath))) return null;
       const text = await this.adapter.read(this.filePath);
-      return JSON.parse(text) as SerializedEmbeddingsIndex;
+      return JSON.parse(text) as T;
     } catch {
       return null;
     }
@@ -64,7 +68,7 @@ export class EmbeddingsIndexFile {
   /**
    * Write the snapshot, creating the directory if needed.
    */
-  public async write(index: SerializedEmbeddingsIndex): Promise<void> {
+  public async write(index: T): Promise<void> {
     if (!(await this.adapter.exists(this.dir))) {
       await this.adapter.mkdir(this.dir);
     }
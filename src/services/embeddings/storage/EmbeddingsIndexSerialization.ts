@@ -44,7 +44,7 @@ export interface SerializedEmbeddingsIndex {
 
 const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
 
-function bytesToBase64(bytes: Uint8Array): string {
+export function bytesToBase64(bytes: Uint8Array): string {
   let binary = "";
   const CHUNK = 0x8000;
   for (let i = 0; i < bytes.length; i += CHUNK) {
@@ -54,7 +54,7 @@ function bytesToBase64(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
-function base64ToBytes(base64: string): Uint8Array {
+export function base64ToBytes(base64: string): Uint8Array {
   if (!BASE64_PATTERN.test(base64)) {
     throw new Error("Invalid base64 payload.");
   }
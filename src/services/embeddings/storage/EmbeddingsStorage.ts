@@ -25,6 +25,16 @@ const DB_VERSION = 11;
 const STORE_NAME = 'embeddings';
 const STATE_STORE_NAME = "semantic_state";
 
+/**
+ * A committed change to the vector store. Listeners run after the IndexedDB
+ * transaction completes, so they only ever see durable state.
+ */
+export type EmbeddingsStorageMutation =
+  | Readonly<{ kind: "put"; vectors: readonly EmbeddingVector[] }>
+  | Readonly<{ kind: "remove"; ids: readonly string[] }>
+  /** Whole namespaces disappeared; `matches` selects them by namespace. */
+  | Readonly<{ kind: "invalidate"; matches: (namespace: string) => boolean }>;
+
 export class EmbeddingsStorage {
   public static buildDbName(vaultInstanceId: string): string {
     const id = String(vaultInstanceId || "").trim();
@@ -39,9 +49,24 @@ export class EmbeddingsStorage {
   private initialized = false;
   // Root records only: enough for synchronous freshness and path statistics.
   private pathsSet: Set<string> = new Set();
+  private readonly mutationListeners = new Set<(mutation: EmbeddingsStorageMutation) => void>();
 
   constructor(private readonly dbName: string) {}
 
+  /** Observe committed vector changes, e.g. to keep a derived search index current. */
+  public addMutationListener(listener: (mutation: EmbeddingsStorageMutation) => void): () => void {
+    this.mutationListeners.add(listener);
+    return () => { this.mutationListeners.delete(listener); };
+  }
+
+  private emitMutation(mutation: EmbeddingsStorageMutation): void {
+    if (mutation.kind === "put" && mutation.vectors.length === 0) return;
+    if (mutation.kind === "remove" && mutation.ids.length === 0) return;
+    for (const listener of this.mutationListeners) {
+      try { listener(mutation); } catch { /* derived indexes must not break storage */ }
+    }
+  }
+
   /**
    * Fast count of vectors stored in the DB (does not require loading into memory).
    */
@@ -56,6 +81,17 @@ export class EmbeddingsStorage {
     });
   }
 
+  /** Fast count of records in one namespace through the namespace index. */
+  public async countVectorsInNamespace(namespace: string): Promise<number> {
+    if (!this.db || !namespace) return 0;
+    return await new Promise<number>((resolve, reject) => {
+      const tx = this.db!.transaction([STORE_NAME], "readonly");
+      const req = tx.objectStore(STORE_NAME).index("by_namespace").count(IDBKeyRange.only(namespace));
+      req.onsuccess = () => resolve(typeof req.result === "number" ? req.result : 0);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
   private normalizeDirPrefix(dir: string): string {
     if (!dir) return "";
     return dir.endsWith("/") ? dir : `${dir}/`;
@@ -187,6 +223,7 @@ export class EmbeddingsStorage {
             if (vector.path) this.pathsSet.add(vector.path);
           }
         }
+        this.emitMutation({ kind: "put", vectors });
         resolve();
       };
       transaction.onerror = () => reject(transaction.error);
@@ -228,11 +265,13 @@ export class EmbeddingsStorage {
       const tx = this.db!.transaction([STORE_NAME], "readwrite");
       const store = tx.objectStore(STORE_NAME);
       const namespacePrefix = `${namespace}::${path}#`;
+      const removedIds: string[] = [];
       const request = store.index("by_path").getAllKeys(IDBKeyRange.only(path));
       request.onsuccess = () => {
         for (const id of (request.result || []) as string[]) {
           if (id.startsWith(namespacePrefix) || id.startsWith("systemsculpt:local-empty:")) {
             store.delete(id);
+            if (!ids.has(id)) removedIds.push(id);
           }
         }
         for (const vector of vectors) store.put(vector);
@@ -249,6 +288,8 @@ export class EmbeddingsStorage {
         }
         this.cache.set(root.id, root);
         this.pathsSet.add(path);
+        this.emitMutation({ kind: "remove", ids: removedIds });
+        this.emitMutation({ kind: "put", vectors });
         resolve();
       };
       tx.onerror = () => reject(tx.error);
@@ -269,9 +310,11 @@ export class EmbeddingsStorage {
     await new Promise<void>((resolve, reject) => {
       const tx = this.db!.transaction([STORE_NAME], "readwrite");
       const store = tx.objectStore(STORE_NAME);
+      let removedIds: string[] = [];
       const request = store.index("by_path").getAllKeys(IDBKeyRange.only(path));
       request.onsuccess = () => {
-        for (const id of (request.result || []) as string[]) store.delete(id);
+        removedIds = (request.result || []) as string[];
+        for (const id of removedIds) store.delete(id);
         for (const vector of vectors) store.put(vector);
       };
       request.onerror = () => reject(request.error);
@@ -286,6 +329,9 @@ export class EmbeddingsStorage {
         }
         if (vectors.length > 0) this.pathsSet.add(path);
         else this.pathsSet.delete(path);
+        const replacedIds = new Set(vectors.map((vector) => vector.id));
+        this.emitMutation({ kind: "remove", ids: removedIds.filter((id) => !replacedIds.has(id)) });
+        this.emitMutation({ kind: "put", vectors });
         resolve();
       };
       tx.onerror = () => reject(tx.error);
@@ -347,6 +393,8 @@ export class EmbeddingsStorage {
           this.cache.delete(oldId);
           const chunkId = updated.chunkId ?? this.parseChunkIdFromId(updated.id);
           if (chunkId === 0) this.cache.set(newId, updated);
+          this.emitMutation({ kind: "remove", ids: [oldId] });
+          this.emitMutation({ kind: "put", vectors: [updated] });
         }
         resolve();
       };
@@ -504,6 +552,22 @@ export class EmbeddingsStorage {
     return { imported: vectors.length };
   }
 
+  /** Read specific records in one transaction; ids that no longer exist are skipped. */
+  async getVectorsByIds(ids: readonly string[]): Promise<EmbeddingVector[]> {
+    if (!this.db || ids.length === 0) return [];
+    return await new Promise<EmbeddingVector[]>((resolve, reject) => {
+      const tx = this.db!.transaction([STORE_NAME], "readonly");
+      const store = tx.objectStore(STORE_NAME);
+      const found: Array<EmbeddingVector | undefined> = new Array(ids.length);
+      ids.forEach((id, position) => {
+        const request = store.get(id);
+        request.onsuccess = () => { found[position] = request.result as EmbeddingVector | undefined; };
+      });
+      tx.oncomplete = () => resolve(found.filter((vector): vector is EmbeddingVector => Boolean(vector)));
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
   async getVectorsByNamespace(namespace: string): Promise<EmbeddingVector[]> {
     if (!namespace) return [];
 
@@ -580,6 +644,7 @@ export class EmbeddingsStorage {
       request.onsuccess = () => {
         this.cache.clear();
         this.pathsSet.clear();
+        this.emitMutation({ kind: "invalidate", matches: () => true });
         resolve();
       };
 
@@ -601,7 +666,10 @@ export class EmbeddingsStorage {
 
     return new Promise((resolve, reject) => {
       const deleteRequest = indexedDB.deleteDatabase(this.dbName);
-      deleteRequest.onsuccess = () => resolve();
+      deleteRequest.onsuccess = () => {
+        this.emitMutation({ kind: "invalidate", matches: () => true });
+        resolve();
+      };
       deleteRequest.onerror = () => reject(deleteRequest.error);
       deleteRequest.onblocked = () => reject(new Error("IndexedDB reset was blocked by another open connection."));
     });
@@ -670,6 +738,7 @@ export class EmbeddingsStorage {
       tx.oncomplete = () => {
         for (const id of toRemove) this.cache.delete(id);
         this.refreshPathsCache();
+        this.emitMutation({ kind: "remove", ids: toRemove });
         resolve();
       };
       tx.onerror = () => reject(tx.error);
@@ -685,9 +754,11 @@ export class EmbeddingsStorage {
     await new Promise<void>((resolve, reject) => {
       const tx = this.db!.transaction([STORE_NAME], 'readwrite');
       const store = tx.objectStore(STORE_NAME);
+      let removedIds: string[] = [];
       const req = store.index('by_path').getAllKeys(IDBKeyRange.only(path));
       req.onsuccess = () => {
-        for (const key of (req.result || []) as string[]) store.delete(key);
+        removedIds = (req.result || []) as string[];
+        for (const key of removedIds) store.delete(key);
       };
       req.onerror = () => reject(req.error);
       tx.oncomplete = () => {
@@ -695,6 +766,7 @@ export class EmbeddingsStorage {
           if (vector.path === path) this.cache.delete(id);
         }
         this.pathsSet.delete(path);
+        this.emitMutation({ kind: "remove", ids: removedIds });
         resolve();
       };
       tx.onerror = () => reject(tx.error);
@@ -723,6 +795,7 @@ export class EmbeddingsStorage {
       tx.oncomplete = () => {
         for (const id of deletedIds) this.cache.delete(id);
         this.refreshPathsCache();
+        this.emitMutation({ kind: "remove", ids: deletedIds });
         resolve();
       };
       tx.onerror = () => reject(tx.error);
@@ -742,10 +815,14 @@ export class EmbeddingsStorage {
       const tx = this.db!.transaction([STORE_NAME], "readwrite");
       const store = tx.objectStore(STORE_NAME);
       const prefix = `${namespace}::${path}#`;
+      const removedIds: string[] = [];
       const request = store.index("by_path").getAllKeys(IDBKeyRange.only(path));
       request.onsuccess = () => {
         for (const id of (request.result || []) as string[]) {
-          if (id.startsWith(prefix) && !keepIds.has(id)) store.delete(id);
+          if (id.startsWith(prefix) && !keepIds.has(id) && id !== root.id) {
+            store.delete(id);
+            removedIds.push(id);
+          }
         }
         store.put(root);
       };
@@ -756,6 +833,8 @@ export class EmbeddingsStorage {
         }
         this.cache.set(root.id, root);
         this.pathsSet.add(path);
+        this.emitMutation({ kind: "remove", ids: removedIds });
+        this.emitMutation({ kind: "put", vectors: [root] });
         resolve();
       };
       tx.onerror = () => reject(tx.error);
@@ -770,9 +849,11 @@ export class EmbeddingsStorage {
       const tx = this.db!.transaction([STORE_NAME], 'readwrite');
       const store = tx.objectStore(STORE_NAME);
       const updates: EmbeddingVector[] = [];
+      const removedIds: string[] = [];
       const req = store.index('by_path').getAll(IDBKeyRange.only(oldPath));
       req.onsuccess = () => {
         for (const vector of (req.result || []) as EmbeddingVector[]) {
+          removedIds.push(vector.id);
           const chunkId = typeof vector.chunkId === 'number' ? vector.chunkId : this.parseChunkIdFromId(vector.id);
           const namespace = typeof vector.metadata?.namespace === "string" ? vector.metadata.namespace : "";
           if (!namespace) {
@@ -799,6 +880,8 @@ export class EmbeddingsStorage {
         }
         this.pathsSet.delete(oldPath);
         if (updates.length > 0) this.pathsSet.add(newPath);
+        this.emitMutation({ kind: "remove", ids: removedIds });
+        this.emitMutation({ kind: "put", vectors: updates });
         resolve();
       };
       tx.onerror = () => reject(tx.error);
@@ -822,11 +905,15 @@ export class EmbeddingsStorage {
       const range = IDBKeyRange.bound(oldPrefix, `${oldPrefix}\uffff`);
       const deletedRootIds: string[] = [];
       const updatedRoots: EmbeddingVector[] = [];
+      const removedIds: string[] = [];
+      const updated: EmbeddingVector[] = [];
 
       tx.oncomplete = () => {
         for (const id of deletedRootIds) this.cache.delete(id);
         for (const vector of updatedRoots) this.cache.set(vector.id, vector);
         this.refreshPathsCache();
+        this.emitMutation({ kind: "remove", ids: removedIds });
+        this.emitMutation({ kind: "put", vectors: updated });
         resolve();
       };
       tx.onerror = () => reject(tx.error);
@@ -848,17 +935,19 @@ export class EmbeddingsStorage {
         // is advancing, which escapes the event callback as an unhandled
         // exception and aborts the whole vault operation.
         store.delete(cursor.primaryKey);
+        removedIds.push(currentId);
         if (namespace) {
           const relativePath = (value.path || "").slice(oldPrefix.length);
           const newPath = `${newPrefix}${relativePath}`;
-          const updated: EmbeddingVector = {
+          const moved: EmbeddingVector = {
             ...value,
             id: buildVectorId(namespace, newPath, chunkId),
             path: newPath,
             chunkId,
           };
-          store.put(updated);
-          if (chunkId === 0) updatedRoots.push(updated);
+          store.put(moved);
+          updated.push(moved);
+          if (chunkId === 0) updatedRoots.push(moved);
         }
         if (chunkId === 0) deletedRootIds.push(currentId);
         cursor.continue();
@@ -884,6 +973,7 @@ export class EmbeddingsStorage {
       tx.oncomplete = () => {
         for (const id of deletedIds) this.cache.delete(id);
         this.refreshPathsCache();
+        this.emitMutation({ kind: "remove", ids: deletedIds });
         resolve();
       };
       tx.onerror = () => reject(tx.error);
@@ -917,6 +1007,10 @@ export class EmbeddingsStorage {
       tx.oncomplete = () => {
         for (const id of deletedIds) this.cache.delete(id);
         this.refreshPathsCache();
+        this.emitMutation({
+          kind: "invalidate",
+          matches: (namespace) => namespace.startsWith(MANAGED_EMBEDDING_FAMILY_PREFIX),
+        });
         resolve();
       };
       tx.onerror = () => reject(tx.error);
@@ -937,6 +1031,7 @@ export class EmbeddingsStorage {
   async removeNamespacesExcept(prefix: string, keepNamespace: string): Promise<number> {
     if (!this.db || !prefix || !keepNamespace) return 0;
     let removed = 0;
+    const removedNamespaces = new Set<string>();
     await new Promise<void>((resolve, reject) => {
       const tx = this.db!.transaction([STORE_NAME], "readwrite");
       const store = tx.objectStore(STORE_NAME);
@@ -948,6 +1043,7 @@ export class EmbeddingsStorage {
         const vector = cursor.value as EmbeddingVector;
         if (vector.metadata.namespace !== keepNamespace) {
           store.delete(cursor.primaryKey);
+          removedNamespaces.add(vector.metadata.namespace);
           removed += 1;
         }
         cursor.continue();
@@ -960,6 +1056,9 @@ export class EmbeddingsStorage {
           }
         }
         this.refreshPathsCache();
+        if (removedNamespaces.size > 0) {
+          this.emitMutation({ kind: "invalidate", matches: (namespace) => removedNamespaces.has(namespace) });
+        }
         resolve();
       };
       tx.onerror = () => reject(tx.error);
@@ -59,6 +59,7 @@ export interface SearchResult {
     excerpt: string;
     lastModified: number;
     sectionTitle?: string;
+    headingPath?: string[];
     lexicalScore?: number;
   };
 }
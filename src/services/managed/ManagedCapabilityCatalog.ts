@@ -4,6 +4,10 @@ import {
   ManagedCapabilityCatalogContract,
   ManagedRequestContractId,
 } from "./ManagedTypes";
+import {
+  MANAGED_TEXT_GENERATION_CORE_PURPOSES,
+  MANAGED_TEXT_GENERATION_PURPOSES,
+} from "./ManagedTextGenerationAdapter";
 
 type DescriptorRule = {
   alias: ManagedCapabilityAlias;
@@ -55,6 +59,24 @@ function fingerprint(value: unknown): string {
   return `${serialized.length}:${fnv.toString(16)}:${djb.toString(16)}`;
 }
 
+/**
+ * The text_generation contract may list purposes the server added after the
+ * core set. Known extra purposes are left out of the fingerprint so the rest
+ * of the contract is still pinned; unknown ones keep it from matching.
+ */
+function fingerprintedContract(contractId: ManagedRequestContractId, contract: Record<string, any>): unknown {
+  const values: unknown = contract.purpose?.values;
+  if (contractId !== "text_generation" || !Array.isArray(values)) return contract;
+  if (!values.every((value) => MANAGED_TEXT_GENERATION_PURPOSES.includes(value))) return contract;
+  return {
+    ...contract,
+    purpose: {
+      ...contract.purpose,
+      values: values.filter((value) => MANAGED_TEXT_GENERATION_CORE_PURPOSES.includes(value)),
+    },
+  };
+}
+
 function validLimits(value: unknown): value is Record<string, string | number | boolean> {
   return !!value && typeof value === "object" && !Array.isArray(value)
     && Object.values(value).every((entry) => ["string", "number", "boolean"].includes(typeof entry) && (typeof entry !== "number" || Number.isFinite(entry)));
@@ -101,7 +123,7 @@ export class ManagedCapabilityCatalog {
 
       rule.contracts.forEach((contractId, contractIndex) => {
         const contract = descriptor.request_contracts[contractIndex];
-        if (!contract || contract.capability !== contractId || fingerprint(contract) !== CONTRACT_FINGERPRINTS[contractId]) {
+        if (!contract || contract.capability !== contractId || fingerprint(fingerprintedContract(contractId, contract)) !== CONTRACT_FINGERPRINTS[contractId]) {
           throw new Error(`Malformed request contract ${contractId}`);
         }
       });
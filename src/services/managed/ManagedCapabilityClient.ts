@@ -3,19 +3,63 @@ import {
   ManagedTextGenerationAdapter,
   type ManagedTextGenerationOperation,
 } from "./ManagedTextGenerationAdapter";
-import { ManagedEmbeddingsIndexAdapter } from "../embeddings/gateway/ManagedEmbeddingsIndexAdapter";
+import {
+  ManagedEmbeddingsIndexAdapter,
+  type EmbeddingsIndexGateway,
+} from "../embeddings/gateway/ManagedEmbeddingsIndexAdapter";
+import { OpenAICompatibleEmbeddingsIndexAdapter } from "../embeddings/gateway/OpenAICompatibleEmbeddingsIndexAdapter";
 import { HostedTransportAdapter } from "./adapters/HostedTransportAdapter";
+import type { OpenAICompatibleClient } from "../providers/OpenAICompatibleClient";
+import { OpenAICompatibleTextGenerationAdapter } from "../providers/OpenAICompatibleTextGenerationAdapter";
+import type { CapabilityProviderSettings } from "../../types";
+
+/** Per-capability provider selection plus the client for the user's own server. */
+export type CapabilityProviderRouting = Readonly<{
+  choices: () => CapabilityProviderSettings;
+  openAICompatible: OpenAICompatibleClient;
+}>;
 
 export class ManagedCapabilityClient {
   private readonly textGeneration: ManagedTextGenerationAdapter;
   private readonly embeddingsIndex: ManagedEmbeddingsIndexAdapter;
+  private customTextGeneration: OpenAICompatibleTextGenerationAdapter | null = null;
+  private customEmbeddingsIndex: OpenAICompatibleEmbeddingsIndexAdapter | null = null;
 
-  constructor(private readonly dependencies: { admission: ManagedAdmission; transport: HostedTransportAdapter }) {
+  constructor(private readonly dependencies: {
+    admission: ManagedAdmission;
+    transport: HostedTransportAdapter;
+    providers?: CapabilityProviderRouting;
+  }) {
     this.textGeneration = new ManagedTextGenerationAdapter(dependencies);
     this.embeddingsIndex = new ManagedEmbeddingsIndexAdapter(dependencies.transport);
   }
   getCatalog() { return this.dependencies.transport.getCatalog(); }
   getAdmission() { return this.dependencies.transport.getAdmission(); }
-  generateText(operation: ManagedTextGenerationOperation) { return this.textGeneration.generate(operation); }
-  getEmbeddingsIndex(): ManagedEmbeddingsIndexAdapter { return this.embeddingsIndex; }
+
+  /** True when the capability is routed to the user's OpenAI-compatible server. */
+  usesOpenAICompatible(capability: keyof CapabilityProviderSettings): boolean {
+    return this.dependencies.providers?.choices()[capability] === "openai-compatible";
+  }
+
+  getOpenAICompatibleClient(): OpenAICompatibleClient | null {
+    return this.dependencies.providers?.openAICompatible ?? null;
+  }
+
+  generateText(operation: ManagedTextGenerationOperation) {
+    const providers = this.dependencies.providers;
+    if (providers && this.usesOpenAICompatible("textGeneration")) {
+      this.customTextGeneration ??= new OpenAICompatibleTextGenerationAdapter(providers.openAICompatible);
+      return this.customTextGeneration.generate(operation);
+    }
+    return this.textGeneration.generate(operation);
+  }
+
+  getEmbeddingsIndex(): EmbeddingsIndexGateway {
+    const providers = this.dependencies.providers;
+    if (providers && this.usesOpenAICompatible("embeddings")) {
+      this.customEmbeddingsIndex ??= new OpenAICompatibleEmbeddingsIndexAdapter(providers.openAICompatible);
+      return this.customEmbeddingsIndex;
+    }
+    return this.embeddingsIndex;
+  }
 }
@@ -1,9 +1,13 @@
 import { ManagedAdmission } from "./ManagedAdmission";
 import { ManagedCapabilityClient } from "./ManagedCapabilityClient";
 import { HostedTransportAdapter } from "./adapters/HostedTransportAdapter";
+import { OpenAICompatibleClient, type OpenAICompatibleProfile } from "../providers/OpenAICompatibleClient";
+import type { CapabilityProviderSettings } from "../../types";
 
 export type ManagedCapabilityClientFactoryOptions = Readonly<{
   baseUrl: string; pluginVersion: string; licenseKey: () => string;
+  providerChoices?: () => CapabilityProviderSettings;
+  openAICompatibleProfile?: () => OpenAICompatibleProfile;
 }>;
 
 export type ManagedCapabilityClientGraph = Readonly<{
@@ -16,7 +20,13 @@ export class ManagedCapabilityClientFactory {
   static createGraph(options: ManagedCapabilityClientFactoryOptions): ManagedCapabilityClientGraph {
     const transport = new HostedTransportAdapter({ baseUrl: options.baseUrl, pluginVersion: options.pluginVersion, licenseKey: options.licenseKey });
     const admission = new ManagedAdmission({ transport, licenseKey: options.licenseKey });
-    const client = new ManagedCapabilityClient({ admission, transport });
+    const providers = options.providerChoices && options.openAICompatibleProfile
+      ? {
+          choices: options.providerChoices,
+          openAICompatible: new OpenAICompatibleClient({ profile: options.openAICompatibleProfile }),
+        }
+      : undefined;
+    const client = new ManagedCapabilityClient({ admission, transport, providers });
     return Object.freeze({ transport, admission, client });
   }
 
@@ -2,7 +2,21 @@ import type { ManagedAdmission } from "./ManagedAdmission";
 import type { ManagedAdmissionOutcome, ManagedLease, ManagedTransportResult } from "./ManagedTypes";
 import type { HostedTransportAdapter } from "./adapters/HostedTransportAdapter";
 
-export type ManagedTextGenerationPurpose = "transcript_postprocess" | "workflow_automation";
+export type ManagedTextGenerationPurpose = "transcript_postprocess" | "workflow_automation" | "inline_edit" | "editor_completion";
+/** Purposes every text_generation contract lists. */
+export const MANAGED_TEXT_GENERATION_CORE_PURPOSES: readonly ManagedTextGenerationPurpose[] = [
+  "transcript_postprocess",
+  "workflow_automation",
+];
+/**
+ * Every purpose the client can send. Purposes beyond the core set are only
+ * sent once the server's contract lists them.
+ */
+export const MANAGED_TEXT_GENERATION_PURPOSES: readonly ManagedTextGenerationPurpose[] = [
+  ...MANAGED_TEXT_GENERATION_CORE_PURPOSES,
+  "inline_edit",
+  "editor_completion",
+];
 export const MANAGED_TRANSCRIPT_POSTPROCESSING_CONTRACT_HEADER =
   "x-systemsculpt-transcript-postprocessing-contract" as const;
 export const MANAGED_TRANSCRIPT_POSTPROCESSING_CONTRACT =
@@ -17,6 +31,11 @@ export type ManagedTextGenerationOperation = Readonly<{
   purpose: ManagedTextGenerationPurpose;
   buildMessages: () => readonly ManagedTextGenerationMessage[] | Promise<readonly ManagedTextGenerationMessage[]>;
   onDispatch?: () => void | Promise<void>;
+  /**
+   * Receives the accumulated text while a streaming provider responds. The
+   * managed route is buffered and never calls it; use the result instead.
+   */
+  onText?: (text: string) => void;
   signal?: AbortSignal;
 }>;
 
@@ -96,7 +115,13 @@ const MAX_MESSAGES = 8;
 const MAX_MESSAGE_BYTES = 524_288;
 const MAX_AGGREGATE_BYTES = 1_048_576;
 const MAX_ERROR_MESSAGE_LENGTH = 2_048;
-const PURPOSES: readonly ManagedTextGenerationPurpose[] = ["transcript_postprocess", "workflow_automation"];
+const PURPOSES = MANAGED_TEXT_GENERATION_PURPOSES;
+const PURPOSE_LABELS: Readonly<Record<ManagedTextGenerationPurpose, string>> = Object.freeze({
+  transcript_postprocess: "transcript post-processing",
+  workflow_automation: "workflow steps",
+  inline_edit: "inline edits",
+  editor_completion: "continuation suggestions",
+});
 const STATUS_CODES: Readonly<Record<number, Readonly<{ code: ManagedTextGenerationErrorCode; retryable: boolean }>>> = Object.freeze({
   400: { code: "invalid_request", retryable: false },
   401: { code: "license_required", retryable: false },
@@ -158,8 +183,11 @@ function throwIfAborted(signal: AbortSignal | undefined, operationId: string, am
   if (signal?.aborted) throw localAbort(operationId, ambiguous);
 }
 
-function exactPurposeValues(value: readonly string[] | undefined): boolean {
-  return !!value && value.length === PURPOSES.length && PURPOSES.every((purpose) => value.includes(purpose));
+function knownPurposeValues(value: readonly string[] | undefined): boolean {
+  return !!value
+    && new Set(value).size === value.length
+    && MANAGED_TEXT_GENERATION_CORE_PURPOSES.every((purpose) => value.includes(purpose))
+    && value.every((purpose) => PURPOSES.includes(purpose as ManagedTextGenerationPurpose));
 }
 
 function validLease(lease: ManagedLease): boolean {
@@ -174,7 +202,7 @@ function validLease(lease: ManagedLease): boolean {
     && contract.header_value === "text_generation"
     && contract.background_eligible === true
     && contract.purpose?.presence === "required"
-    && exactPurposeValues(contract.purpose.values)
+    && knownPurposeValues(contract.purpose.values)
     && descriptor.request_contracts.includes(contract);
 }
 
@@ -396,6 +424,13 @@ export class ManagedTextGenerationAdapter {
         operationId: operation.operationId,
       });
     }
+    if (!lease.requestContract?.purpose?.values.includes(operation.purpose)) {
+      throw new ManagedTextGenerationError({
+        code: "capability_unavailable",
+        message: `SystemSculpt does not offer ${PURPOSE_LABELS[operation.purpose]} yet. Choose your own text generation provider in settings to use them.`,
+        operationId: operation.operationId,
+      });
+    }
 
     const messages = validateMessages(operation.operationId, await operation.buildMessages());
     throwIfAborted(operation.signal, operation.operationId, false);
@@ -67,6 +67,21 @@ describe("ManagedCapabilityCatalog", () => {
     expect(() => ManagedCapabilityCatalog.parse(malformedGeneration)).toThrow();
   });
 
+  it("accepts a text generation contract that adds known purposes and rejects unknown ones", () => {
+    const extended = structuredClone(fixture) as any;
+    extended.capabilities[0].request_contracts[1].purpose.values.unshift("editor_completion", "inline_edit");
+    expect(ManagedCapabilityCatalog.parse(extended).capabilities[0].request_contracts[1].purpose?.values)
+      .toEqual(["editor_completion", "inline_edit", "transcript_postprocess", "workflow_automation"]);
+
+    const unknown = structuredClone(fixture) as any;
+    unknown.capabilities[0].request_contracts[1].purpose.values.unshift("chat");
+    expect(() => ManagedCapabilityCatalog.parse(unknown)).toThrow();
+
+    const missingCore = structuredClone(fixture) as any;
+    missingCore.capabilities[0].request_contracts[1].purpose.values = ["inline_edit", "workflow_automation"];
+    expect(() => ManagedCapabilityCatalog.parse(missingCore)).toThrow();
+  });
+
   it("rejects descriptor field, placement, metering, background, limits, or extra-property drift", () => {
     for (const mutate of [
       (copy: any) => { copy.capabilities.reverse(); },
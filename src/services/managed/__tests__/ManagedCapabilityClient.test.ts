@@ -10,3 +10,50 @@ describe("ManagedCapabilityClient", () => {
     expect(client.getEmbeddingsIndex()).toBe(client.getEmbeddingsIndex());
   });
 });
+
+describe("ManagedCapabilityClient provider routing", () => {
+  function routedClient(choices: Record<string, string>) {
+    const openAICompatible = {
+      complete: jest.fn().mockResolvedValue({ id: "cmpl_1", text: "Local", finishReason: "stop", usage: null }),
+      getProfile: () => ({
+        baseUrl: "http://localhost:8080/v1",
+        apiKey: "",
+        chatModel: "",
+        textGenerationModel: "local-model",
+        embeddingsModel: "local-embed",
+      }),
+    };
+    const client = new ManagedCapabilityClient({
+      admission: { acquireLease: jest.fn() } as any,
+      transport: {} as any,
+      providers: { choices: () => choices as any, openAICompatible: openAICompatible as any },
+    });
+    return { client, openAICompatible };
+  }
+
+  it("routes text generation and embeddings to the selected OpenAI-compatible provider", async () => {
+    const { client, openAICompatible } = routedClient({
+      chat: "systemsculpt",
+      textGeneration: "openai-compatible",
+      embeddings: "openai-compatible",
+    });
+
+    const result = await client.generateText({
+      operationId: "studio:op_1",
+      purpose: "workflow_automation",
+      buildMessages: () => [{ role: "user", content: "Hi" }],
+    });
+
+    expect(result.text).toBe("Local");
+    expect(openAICompatible.complete).toHaveBeenCalledTimes(1);
+    expect(client.usesOpenAICompatible("chat")).toBe(false);
+    expect(client.getEmbeddingsIndex()).toBe(client.getEmbeddingsIndex());
+    expect(client.getEmbeddingsIndex().constructor.name).toBe("OpenAICompatibleEmbeddingsIndexAdapter");
+  });
+
+  it("keeps the managed adapters when SystemSculpt is selected", () => {
+    const { client } = routedClient({ chat: "systemsculpt", textGeneration: "systemsculpt", embeddings: "systemsculpt" });
+
+    expect(client.getEmbeddingsIndex().constructor.name).toBe("ManagedEmbeddingsIndexAdapter");
+  });
+});
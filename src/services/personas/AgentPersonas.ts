@@ -0,0 +1,129 @@
+import { normalizePath, TFile, type App } from "obsidian";
+import type { ThinAgentContextSource } from "../managed/ThinAgentV1Contract";
+import {
+  FIRST_PARTY_TOOL_NAMES,
+  isFirstPartyToolName,
+  normalizeFirstPartyToolName,
+  type FirstPartyToolName,
+} from "../../tools/toolNames";
+import type { ChatApprovalMode } from "../../views/chatview/storage/ChatPersistenceTypes";
+
+/**
+ * Agent personas are vault notes in the personas folder. The body holds the
+ * instructions sent with every turn; frontmatter narrows what the agent may do:
+ *
+ * ```yaml
+ * name: Research
+ * description: Reads and searches, never edits
+ * tools: [read, list_items, find, search, semantic_search, open, context]
+ * approval: ask            # or full-access
+ * auto_approve: [write]    # mutating tools that skip the approval prompt
+ * pinned: ["[[Research guide]]"]
+ * ```
+ *
+ * Omitting `tools` allows every first-party tool.
+ */
+export type AgentPersona = Readonly<{
+  path: string;
+  name: string;
+  description: string;
+  instructions: string;
+  /** Null allows every first-party tool. */
+  allowedTools: readonly FirstPartyToolName[] | null;
+  approvalMode?: ChatApprovalMode;
+  autoApproveTools: readonly FirstPartyToolName[];
+  pinnedFiles: readonly string[];
+}>;
+
+export const DEFAULT_AGENT_PERSONAS_DIRECTORY = "SystemSculpt/Personas";
+
+const FRONTMATTER = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function list(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  return entries.filter((entry): entry is string => typeof entry === "string")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function toolList(value: unknown): FirstPartyToolName[] {
+  const tools = new Set<FirstPartyToolName>();
+  for (const entry of list(value)) {
+    const name = normalizeFirstPartyToolName(entry);
+    if (isFirstPartyToolName(name)) tools.add(name);
+  }
+  // Keep the canonical order so the turn context reads the same every time.
+  return FIRST_PARTY_TOOL_NAMES.filter((name) => tools.has(name));
+}
+
+/** Builds a persona from a note's text and its parsed frontmatter. */
+export function parseAgentPersona(
+  input: Readonly<{ path: string; basename: string; content: string; frontmatter?: Record<string, unknown> | null }>,
+): AgentPersona {
+  const frontmatter = input.frontmatter ?? {};
+  const approval = text(frontmatter.approval);
+  const allowedTools = frontmatter.tools === undefined || frontmatter.tools === null
+    ? null
+    : toolList(frontmatter.tools);
+  return {
+    path: input.path,
+    name: text(frontmatter.name) || input.basename,
+    description: text(frontmatter.description),
+    instructions: input.content.replace(FRONTMATTER, "").trim(),
+    allowedTools,
+    ...(approval === "ask" || approval === "full-access" ? { approvalMode: approval } : {}),
+    autoApproveTools: toolList(frontmatter.auto_approve),
+    pinnedFiles: list(frontmatter.pinned).map((entry) => entry.replace(/^\[\[(.*?)\]\]$/, "$1").trim()),
+  };
+}
+
+/** The persona's part of a turn's context: who the agent is and what it may use. */
+export function agentPersonaContextSource(persona: AgentPersona): ThinAgentContextSource {
+  const tools = persona.allowedTools === null
+    ? "all vault tools"
+    : persona.allowedTools.length > 0 ? persona.allowedTools.join(", ") : "none";
+  return {
+    kind: "text",
+    path: persona.path,
+    content: [
+      `Agent persona: ${persona.name}`,
+      `Allowed tools: ${tools}. Calls to other tools are refused.`,
+      persona.instructions,
+    ].filter(Boolean).join("\n\n"),
+  };
+}
+
+/** Reads the personas folder on demand so edits to a persona apply on the next turn. */
+export class AgentPersonaLibrary {
+  constructor(
+    private readonly app: App,
+    private readonly folder: () => string,
+  ) {}
+
+  public async list(): Promise<AgentPersona[]> {
+    const folder = normalizePath(this.folder().trim() || DEFAULT_AGENT_PERSONAS_DIRECTORY);
+    const prefix = `${folder}/`;
+    const files = this.app.vault.getMarkdownFiles()
+      .filter((file) => file.path.startsWith(prefix))
+      .sort((left, right) => left.path.localeCompare(right.path));
+    const personas: AgentPersona[] = [];
+    for (const file of files) personas.push(await this.read(file));
+    return personas;
+  }
+
+  /** Null when the persona note was moved or deleted. */
+  public async get(path: string): Promise<AgentPersona | null> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? this.read(file) : null;
+  }
+
+  private async read(file: TFile): Promise<AgentPersona> {
+    const content = await this.app.vault.cachedRead(file);
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? null;
+    return parseAgentPersona({ path: file.path, basename: file.basename, content, frontmatter });
+  }
+}
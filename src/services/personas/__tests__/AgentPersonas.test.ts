@@ -0,0 +1,73 @@
+import { TFile } from "obsidian";
+import {
+  agentPersonaContextSource,
+  AgentPersonaLibrary,
+  parseAgentPersona,
+} from "../AgentPersonas";
+
+describe("agent personas", () => {
+  it("reads instructions, tools, approval and pinned notes from a persona note", () => {
+    const persona = parseAgentPersona({
+      path: "SystemSculpt/Personas/Gardener.md",
+      basename: "Gardener",
+      content: "---\nname: Vault gardener\n---\nTidy the inbox into topic folders.\n",
+      frontmatter: {
+        name: "Vault gardener",
+        description: "Files notes",
+        tools: ["move", "read", "list_items", "teleport", "create_folders"],
+        approval: "ask",
+        auto_approve: "move, create_folders",
+        pinned: ["[[Filing rules]]"],
+      },
+    });
+
+    expect(persona).toEqual({
+      path: "SystemSculpt/Personas/Gardener.md",
+      name: "Vault gardener",
+      description: "Files notes",
+      instructions: "Tidy the inbox into topic folders.",
+      allowedTools: ["read", "create_folders", "list_items", "move"],
+      approvalMode: "ask",
+      autoApproveTools: ["create_folders", "move"],
+      pinnedFiles: ["Filing rules"],
+    });
+    expect(agentPersonaContextSource(persona)).toEqual({
+      kind: "text",
+      path: "SystemSculpt/Personas/Gardener.md",
+      content: "Agent persona: Vault gardener\n\n"
+        + "Allowed tools: read, create_folders, list_items, move. Calls to other tools are refused.\n\n"
+        + "Tidy the inbox into topic folders.",
+    });
+  });
+
+  it("allows every tool when the note does not list any", () => {
+    const persona = parseAgentPersona({ path: "P/Open.md", basename: "Open", content: "Be brief." });
+
+    expect(persona.name).toBe("Open");
+    expect(persona.allowedTools).toBeNull();
+    expect(persona.approvalMode).toBeUndefined();
+    expect(agentPersonaContextSource(persona)).toMatchObject({
+      content: expect.stringContaining("Allowed tools: all vault tools."),
+    });
+  });
+
+  it("lists persona notes from the configured folder only", async () => {
+    const files = [
+      new TFile({ path: "Personas/Research.md" }),
+      new TFile({ path: "Notes/Research.md" }),
+    ];
+    const app: any = {
+      vault: {
+        getMarkdownFiles: () => files,
+        getAbstractFileByPath: (path: string) => files.find((file) => file.path === path) ?? null,
+        cachedRead: async () => "Read only.",
+      },
+      metadataCache: { getFileCache: () => ({ frontmatter: { tools: ["read", "search"] } }) },
+    };
+    const library = new AgentPersonaLibrary(app, () => "Personas");
+
+    expect((await library.list()).map((persona) => persona.path)).toEqual(["Personas/Research.md"]);
+    expect(await library.get("Personas/Missing.md")).toBeNull();
+    expect((await library.get("Personas/Research.md"))?.allowedTools).toEqual(["read", "search"]);
+  });
+});
@@ -0,0 +1,184 @@
+import { normalizePath, TFile, type App } from "obsidian";
+
+/**
+ * Prompt templates are vault notes in the templates folder. Each note becomes
+ * a `/` command in the chat composer. Frontmatter is optional:
+ *
+ * ```yaml
+ * name: review
+ * description: Review the selection for clarity
+ * variables:
+ *   - audience
+ *   - name: tone
+ *     description: How it should sound
+ *     default: friendly
+ * ```
+ *
+ * `{{selection}}`, `{{active_note}}`, `{{active_note_title}}`, `{{date}}` and
+ * `{{time}}` fill themselves in; every other placeholder is asked for before
+ * the prompt lands in the composer.
+ */
+
+export const BUILT_IN_PROMPT_VARIABLES = [
+  "selection",
+  "active_note",
+  "active_note_title",
+  "date",
+  "time",
+] as const;
+
+export type BuiltInPromptVariable = (typeof BUILT_IN_PROMPT_VARIABLES)[number];
+
+export type PromptTemplateVariable = Readonly<{
+  name: string;
+  description?: string;
+  defaultValue?: string;
+}>;
+
+export type PromptTemplate = Readonly<{
+  /** Command name typed after `/`. */
+  command: string;
+  name: string;
+  description: string;
+  path: string;
+  body: string;
+  /** Placeholders the user is asked for, in order of first appearance. */
+  variables: readonly PromptTemplateVariable[];
+}>;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+const FRONTMATTER = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+
+function isBuiltIn(name: string): name is BuiltInPromptVariable {
+  return (BUILT_IN_PROMPT_VARIABLES as readonly string[]).includes(name);
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export function promptCommandName(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function declaredVariables(value: unknown): PromptTemplateVariable[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry): PromptTemplateVariable[] => {
+    if (typeof entry === "string") return entry.trim() ? [{ name: entry.trim() }] : [];
+    if (!entry || typeof entry !== "object") return [];
+    const record = entry as Record<string, unknown>;
+    const name = text(record.name);
+    if (!name) return [];
+    const description = text(record.description);
+    const defaultValue = record.default === undefined || record.default === null
+      ? ""
+      : String(record.default);
+    return [{
+      name,
+      ...(description ? { description } : {}),
+      ...(defaultValue ? { defaultValue } : {}),
+    }];
+  });
+}
+
+/** Builds a template from a note's text and its parsed frontmatter. */
+export function parsePromptTemplate(
+  input: Readonly<{ path: string; basename: string; content: string; frontmatter?: Record<string, unknown> | null }>,
+): PromptTemplate | null {
+  const frontmatter = input.frontmatter ?? {};
+  const body = input.content.replace(FRONTMATTER, "").trim();
+  if (!body) return null;
+  const name = text(frontmatter.name) || input.basename;
+  const command = promptCommandName(name);
+  if (!command) return null;
+
+  const declared = new Map(declaredVariables(frontmatter.variables).map((variable) => [variable.name, variable]));
+  const variables: PromptTemplateVariable[] = [];
+  const seen = new Set<string>();
+  for (const match of body.matchAll(PLACEHOLDER)) {
+    const variable = match[1];
+    if (isBuiltIn(variable) || seen.has(variable)) continue;
+    seen.add(variable);
+    variables.push(declared.get(variable) ?? { name: variable });
+  }
+  return {
+    command,
+    name,
+    description: text(frontmatter.description),
+    path: input.path,
+    body,
+    variables,
+  };
+}
+
+/** Fills placeholders. Unknown names are left as written so nothing silently vanishes. */
+export function renderPromptTemplate(
+  template: Pick<PromptTemplate, "body">,
+  values: Readonly<Record<string, string>>,
+): string {
+  return template.body.replace(PLACEHOLDER, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder);
+}
+
+/** Local `{{date}}` and `{{time}}` values, formatted the way notes usually write them. */
+export function promptClockValues(now: Date): Readonly<{ date: string; time: string }> {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+  };
+}
+
+/** Ranks templates for a `/` query: command prefix first, then substring matches. */
+export function matchPromptTemplates(
+  templates: readonly PromptTemplate[],
+  query: string,
+): PromptTemplate[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [...templates];
+  const prefix = templates.filter((template) => template.command.startsWith(needle));
+  const rest = templates.filter((template) =>
+    !template.command.startsWith(needle)
+    && `${template.command} ${template.name} ${template.description}`.toLowerCase().includes(needle));
+  return [...prefix, ...rest];
+}
+
+/** Reads the templates folder on demand; the folder is small and edits show up immediately. */
+export class PromptTemplateLibrary {
+  constructor(
+    private readonly app: App,
+    private readonly folder: () => string,
+  ) {}
+
+  public async list(): Promise<PromptTemplate[]> {
+    const folder = normalizePath(this.folder().trim() || "SystemSculpt/Prompts");
+    const prefix = `${folder}/`;
+    const files = this.app.vault.getMarkdownFiles()
+      .filter((file) => file.path.startsWith(prefix))
+      .sort((left, right) => left.path.localeCompare(right.path));
+    const templates: PromptTemplate[] = [];
+    const commands = new Set<string>();
+    for (const file of files) {
+      const template = await this.read(file);
+      // The first note wins a command name so `/name` stays predictable.
+      if (!template || commands.has(template.command)) continue;
+      commands.add(template.command);
+      templates.push(template);
+    }
+    return templates;
+  }
+
+  private async read(file: TFile): Promise<PromptTemplate | null> {
+    try {
+      const content = await this.app.vault.cachedRead(file);
+      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? null;
+      return parsePromptTemplate({ path: file.path, basename: file.basename, content, frontmatter });
+    } catch {
+      return null;
+    }
+  }
+}
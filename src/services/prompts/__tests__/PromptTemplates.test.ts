@@ -0,0 +1,84 @@
+import { TFile } from "obsidian";
+import {
+  matchPromptTemplates,
+  parsePromptTemplate,
+  promptClockValues,
+  PromptTemplateLibrary,
+  renderPromptTemplate,
+} from "../PromptTemplates";
+
+describe("prompt templates", () => {
+  it("reads names, descriptions and custom variables from frontmatter and the body", () => {
+    const template = parsePromptTemplate({
+      path: "SystemSculpt/Prompts/Review.md",
+      basename: "Review",
+      content: "---\nname: Code Review\n---\nReview {{selection}} for {{ audience }} in a {{tone}} tone. Keep {{audience}} in mind.",
+      frontmatter: {
+        name: "Code Review",
+        description: "Review the selection",
+        variables: [{ name: "tone", description: "How it should sound", default: "friendly" }],
+      },
+    });
+
+    expect(template).toEqual({
+      command: "code-review",
+      name: "Code Review",
+      description: "Review the selection",
+      path: "SystemSculpt/Prompts/Review.md",
+      body: "Review {{selection}} for {{ audience }} in a {{tone}} tone. Keep {{audience}} in mind.",
+      variables: [
+        { name: "audience" },
+        { name: "tone", description: "How it should sound", defaultValue: "friendly" },
+      ],
+    });
+  });
+
+  it("fills known placeholders and leaves unknown ones as written", () => {
+    expect(renderPromptTemplate(
+      { body: "Summarize {{selection}} on {{date}} for {{reader}}." },
+      { selection: "the notes", date: "2026-01-02" },
+    )).toBe("Summarize the notes on 2026-01-02 for {{reader}}.");
+    expect(promptClockValues(new Date(2026, 0, 2, 9, 5))).toEqual({ date: "2026-01-02", time: "09:05" });
+  });
+
+  it("skips empty notes and ranks command prefixes ahead of other matches", () => {
+    expect(parsePromptTemplate({ path: "P/Empty.md", basename: "Empty", content: "---\na: 1\n---\n" })).toBeNull();
+    const templates = ["summarize", "rewrite", "review"].map((basename) =>
+      parsePromptTemplate({ path: `P/${basename}.md`, basename, content: `Do ${basename}` })!);
+
+    expect(matchPromptTemplates(templates, "re").map((template) => template.command))
+      .toEqual(["rewrite", "review"]);
+    expect(matchPromptTemplates(templates, "mar").map((template) => template.command))
+      .toEqual(["summarize"]);
+  });
+
+  it("lists notes under the configured folder and keeps the first note for a command", async () => {
+    const file = (path: string) => {
+      const entry = new TFile();
+      entry.path = path;
+      entry.basename = path.split("/").pop()!.replace(/\.md$/, "");
+      return entry;
+    };
+    const contents: Record<string, string> = {
+      "Prompts/A/Review.md": "First review",
+      "Prompts/B/Review.md": "Second review",
+      "Prompts/Rewrite.md": "Rewrite {{selection}}",
+      "Elsewhere/Summarize.md": "Not a template",
+    };
+    const app = {
+      vault: {
+        getMarkdownFiles: () => Object.keys(contents).map(file),
+        cachedRead: async (entry: TFile) => contents[entry.path],
+      },
+      metadataCache: { getFileCache: () => null },
+    };
+    const library = new PromptTemplateLibrary(app as any, () => "Prompts");
+
+    const templates = await library.list();
+
+    expect(templates.map((template) => [template.command, template.body])).toEqual([
+      ["review", "First review"],
+      ["rewrite", "Rewrite {{selection}}"],
+    ]);
+  });
+});
@@ -0,0 +1,365 @@
+import { PlatformRequestClient } from "../PlatformRequestClient";
+
+/**
+ * Connection profile resolved from settings at call time, so edits in the
+ * settings tab apply to the next request without rebuilding the client.
+ */
+export type OpenAICompatibleProfile = Readonly<{
+  baseUrl: string;
+  apiKey: string;
+  chatModel: string;
+  textGenerationModel: string;
+  embeddingsModel: string;
+}>;
+
+export type OpenAICompatibleContentPart =
+  | Readonly<{ type: "text"; text: string }>
+  | Readonly<{ type: "image_url"; image_url: Readonly<{ url: string }> }>;
+
+export type OpenAICompatibleMessage = Readonly<{
+  role: "system" | "user" | "assistant";
+  content: string | readonly OpenAICompatibleContentPart[];
+}>;
+
+export type OpenAICompatibleCompletion = Readonly<{
+  id: string | null;
+  text: string;
+  finishReason: string | null;
+  usage: Readonly<{ promptTokens: number; completionTokens: number; totalTokens: number }> | null;
+}>;
+
+export type OpenAICompatibleCompletionRequest = Readonly<{
+  model: string;
+  messages: readonly OpenAICompatibleMessage[];
+  signal?: AbortSignal;
+}>;
+
+export type OpenAICompatibleErrorCode = "not_configured" | "http_error" | "network_error" | "invalid_response";
+
+export class OpenAICompatibleError extends Error {
+  public readonly code: OpenAICompatibleErrorCode;
+  public readonly status?: number;
+  public readonly retryable: boolean;
+
+  constructor(code: OpenAICompatibleErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = "OpenAICompatibleError";
+    this.code = code;
+    this.status = status;
+    this.retryable = code === "network_error" || status === 429 || (status !== undefined && status >= 500);
+  }
+}
+
+type JsonRecord = { readonly [key: string]: unknown };
+
+const MAX_ERROR_MESSAGE_LENGTH = 512;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isAbort(error: unknown, signal?: AbortSignal): boolean {
+  return signal?.aborted === true || (error instanceof Error && error.name === "AbortError");
+}
+
+function abortError(): DOMException {
+  return new DOMException("The operation was aborted", "AbortError");
+}
+
+function nonNegativeInteger(value: unknown): number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 ? value : 0;
+}
+
+function parseUsage(value: unknown): OpenAICompatibleCompletion["usage"] {
+  if (!isRecord(value)) return null;
+  const promptTokens = nonNegativeInteger(value.prompt_tokens);
+  const completionTokens = nonNegativeInteger(value.completion_tokens);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: nonNegativeInteger(value.total_tokens) || promptTokens + completionTokens,
+  };
+}
+
+/** Servers disagree on error bodies: `{error:{message}}`, `{error:"..."}`, or `{message}`. */
+function errorMessageFromBody(value: unknown): string | null {
+  if (!isRecord(value)) return null;
+  const error = value.error;
+  const message = isRecord(error) ? error.message : typeof error === "string" ? error : value.message;
+  return typeof message === "string" && message.trim() ? message.trim().slice(0, MAX_ERROR_MESSAGE_LENGTH) : null;
+}
+
+/** OpenAI-style servers send JSON error bodies; a plain-text or HTML body is reported by status alone. */
+function parseErrorBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    if (error instanceof SyntaxError) return null;
+    throw error;
+  }
+}
+
+/** Validates a base URL typed into settings; the version path (e.g. /v1) is part of it. */
+export function normalizeOpenAICompatibleBaseUrl(value: string): string | null {
+  const trimmed = value.trim().replace(/\/+$/, "");
+  try {
+    const url = new URL(trimmed);
+    return url.protocol === "http:" || url.protocol === "https:" ? trimmed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Minimal client for the OpenAI-compatible REST surface shared by OpenAI,
+ * llama.cpp, Ollama, vLLM and similar servers: chat completions (buffered or
+ * SSE), embeddings, and the model list.
+ */
+export class OpenAICompatibleClient {
+  private readonly requestClient: PlatformRequestClient;
+
+  constructor(
+    private readonly options: Readonly<{
+      profile: () => OpenAICompatibleProfile;
+      requestClient?: PlatformRequestClient;
+    }>
+  ) {
+    this.requestClient = options.requestClient ?? new PlatformRequestClient();
+  }
+
+  getProfile(): OpenAICompatibleProfile {
+    return this.options.profile();
+  }
+
+  async complete(request: OpenAICompatibleCompletionRequest): Promise<OpenAICompatibleCompletion> {
+    const response = await this.send("/chat/completions", "POST", this.completionBody(request, false), request.signal);
+    return this.parseCompletion(await this.readJson(response));
+  }
+
+  /**
+   * Streams a chat completion and reports the accumulated text after every
+   * delta. Hosts that block direct fetch (CORS on a local server) fall back to
+   * Obsidian's buffered transport, so onText may fire only once.
+   */
+  async stream(
+    request: OpenAICompatibleCompletionRequest & { onText: (text: string) => void }
+  ): Promise<OpenAICompatibleCompletion> {
+    const body = this.completionBody(request, true);
+    let response: Response;
+    try {
+      response = await this.send("/chat/completions", "POST", body, request.signal, { stream: true });
+    } catch (error) {
+      if (isAbort(error, request.signal) || error instanceof OpenAICompatibleError) throw error;
+      response = await this.send("/chat/completions", "POST", body, request.signal, {
+        stream: true,
+        transport: "requestUrl",
+      });
+    }
+    const contentType = response.headers.get("content-type")?.toLowerCase() ?? "";
+    if (!contentType.includes("text/event-stream")) {
+      const completion = this.parseCompletion(await this.readJson(response));
+      request.onText(completion.text);
+      return completion;
+    }
+    return await this.readEventStream(response, request.onText, request.signal);
+  }
+
+  async embed(request: Readonly<{ model: string; input: readonly string[]; signal?: AbortSignal }>): Promise<Float32Array[]> {
+    if (!request.model.trim()) {
+      throw new OpenAICompatibleError("not_configured", "Choose an embeddings model for your OpenAI-compatible provider.");
+    }
+    const response = await this.send(
+      "/embeddings",
+      "POST",
+      { model: request.model.trim(), input: [...request.input] },
+      request.signal
+    );
+    const value = await this.readJson(response);
+    const data = isRecord(value) ? value.data : null;
+    if (!Array.isArray(data) || data.length !== request.input.length) {
+      throw new OpenAICompatibleError("invalid_response", "The embeddings response did not contain one vector per input.");
+    }
+    const vectors: Float32Array[] = new Array(data.length);
+    data.forEach((item, position) => {
+      const index = isRecord(item) && Number.isInteger(item.index) ? (item.index as number) : position;
+      const embedding = isRecord(item) ? item.embedding : null;
+      if (
+        index < 0
+        || index >= data.length
+        || vectors[index]
+        || !Array.isArray(embedding)
+        || embedding.length === 0
+        || !embedding.every((entry) => typeof entry === "number" && Number.isFinite(entry))
+      ) {
+        throw new OpenAICompatibleError("invalid_response", "The embeddings response contained an invalid vector.");
+      }
+      vectors[index] = Float32Array.from(embedding as number[]);
+    });
+    return vectors;
+  }
+
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    const value = await this.readJson(await this.send("/models", "GET", undefined, signal));
+    const data = isRecord(value) ? value.data : null;
+    if (!Array.isArray(data)) {
+      throw new OpenAICompatibleError("invalid_response", "The model list response was not recognized.");
+    }
+    return data
+      .map((item) => (isRecord(item) && typeof item.id === "string" ? item.id : ""))
+      .filter((id) => id.length > 0);
+  }
+
+  private completionBody(request: OpenAICompatibleCompletionRequest, stream: boolean): JsonRecord {
+    if (!request.model.trim()) {
+      throw new OpenAICompatibleError("not_configured", "Choose a model for your OpenAI-compatible provider.");
+    }
+    return {
+      model: request.model.trim(),
+      stream,
+      messages: request.messages,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+    };
+  }
+
+  private async send(
+    path: string,
+    method: "GET" | "POST",
+    body: unknown,
+    signal: AbortSignal | undefined,
+    options: { stream?: boolean; transport?: "requestUrl" } = {}
+  ): Promise<Response> {
+    const profile = this.options.profile();
+    const baseUrl = normalizeOpenAICompatibleBaseUrl(profile.baseUrl);
+    if (!baseUrl) {
+      throw new OpenAICompatibleError(
+        "not_configured",
+        "Set the base URL of your OpenAI-compatible provider, for example http://localhost:11434/v1."
+      );
+    }
+    if (signal?.aborted) throw abortError();
+    const apiKey = profile.apiKey.trim();
+    let response: Response;
+    try {
+      response = await this.requestClient.request({
+        url: `${baseUrl}${path}`,
+        method,
+        body,
+        signal,
+        stream: options.stream === true,
+        ...(options.transport ? { transport: options.transport } : {}),
+        ...(apiKey ? { headers: { Authorization: `Bearer ${apiKey}` } } : {}),
+      });
+    } catch (error) {
+      if (isAbort(error, signal)) throw error;
+      if (options.stream && !options.transport) throw error;
+      throw new OpenAICompatibleError(
+        "network_error",
+        `Could not reach ${baseUrl}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!response.ok) {
+      const detail = errorMessageFromBody(parseErrorBody(await response.text()));
+      throw new OpenAICompatibleError(
+        "http_error",
+        detail ? `Provider error (${response.status}): ${detail}` : `Provider request failed (${response.status}).`,
+        response.status
+      );
+    }
+    return response;
+  }
+
+  private async readJson(response: Response): Promise<unknown> {
+    try {
+      return await response.json();
+    } catch {
+      throw new OpenAICompatibleError("invalid_response", "The provider returned a response that is not JSON.");
+    }
+  }
+
+  private parseCompletion(value: unknown): OpenAICompatibleCompletion {
+    const choice = isRecord(value) && Array.isArray(value.choices) ? value.choices[0] : null;
+    const message = isRecord(choice) ? choice.message : null;
+    if (!isRecord(value) || !isRecord(message) || (typeof message.content !== "string" && message.content !== null)) {
+      throw new OpenAICompatibleError("invalid_response", "The chat completion response was not recognized.");
+    }
+    return {
+      id: typeof value.id === "string" && value.id ? value.id : null,
+      text: message.content ?? "",
+      finishReason: isRecord(choice) && typeof choice.finish_reason === "string" ? choice.finish_reason : null,
+      usage: parseUsage(value.usage),
+    };
+  }
+
+  private async readEventStream(
+    response: Response,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<OpenAICompatibleCompletion> {
+    let id: string | null = null;
+    let text = "";
+    let finishReason: string | null = null;
+    let usage: OpenAICompatibleCompletion["usage"] = null;
+    let buffer = "";
+    let done = false;
+
+    const consumeLine = (line: string): void => {
+      if (!line.startsWith("data:")) return;
+      const data = line.slice(5).trim();
+      if (!data) return;
+      if (data === "[DONE]") {
+        done = true;
+        return;
+      }
+      let event: unknown;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        throw new OpenAICompatibleError("invalid_response", "The provider sent an unreadable stream event.");
+      }
+      if (!isRecord(event)) return;
+      const message = errorMessageFromBody(event);
+      if (isRecord(event.error) || typeof event.error === "string") {
+        throw new OpenAICompatibleError("http_error", message ?? "The provider reported a stream error.");
+      }
+      if (typeof event.id === "string" && event.id && !id) id = event.id;
+      if (event.usage) usage = parseUsage(event.usage);
+      const choice = Array.isArray(event.choices) ? event.choices[0] : null;
+      if (!isRecord(choice)) return;
+      if (typeof choice.finish_reason === "string") finishReason = choice.finish_reason;
+      const delta = isRecord(choice.delta) ? choice.delta.content : null;
+      if (typeof delta === "string" && delta.length > 0) {
+        text += delta;
+        onText(text);
+      }
+    };
+    const consume = (chunk: string, flush: boolean): void => {
+      buffer += chunk;
+      const lines = buffer.split(/\r?\n/);
+      buffer = flush ? "" : lines.pop() ?? "";
+      for (const line of lines) {
+        if (done) return;
+        consumeLine(line);
+      }
+    };
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      consume(await response.text(), true);
+    } else {
+      const decoder = new TextDecoder();
+      try {
+        while (!done) {
+          if (signal?.aborted) throw abortError();
+          const { value, done: finished } = await reader.read();
+          if (finished) break;
+          consume(decoder.decode(value, { stream: true }), false);
+        }
+        consume(decoder.decode(), true);
+      } finally {
+        await reader.cancel().catch(() => {});
+      }
+    }
+    if (signal?.aborted) throw abortError();
+    return { id, text, finishReason, usage };
+  }
+}
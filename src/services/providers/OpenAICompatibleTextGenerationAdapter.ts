@@ -0,0 +1,114 @@
+import {
+  ManagedTextGenerationError,
+  type ManagedTextGenerationErrorCode,
+  type ManagedTextGenerationMessage,
+  type ManagedTextGenerationOperation,
+  type ManagedTextGenerationResult,
+} from "../managed/ManagedTextGenerationAdapter";
+import { OpenAICompatibleError, type OpenAICompatibleClient } from "./OpenAICompatibleClient";
+
+const MAX_MESSAGES = 8;
+
+function invalid(operationId: string, message: string): ManagedTextGenerationError {
+  return new ManagedTextGenerationError({ code: "invalid_request", message, operationId });
+}
+
+function localAbort(operationId: string, ambiguous: boolean): ManagedTextGenerationError {
+  return new ManagedTextGenerationError({
+    code: ambiguous ? "ambiguous_outcome" : "local_aborted",
+    message: ambiguous
+      ? "Text generation was stopped locally after the request was sent."
+      : "Text generation was stopped locally before the request was sent.",
+    operationId,
+    ambiguous,
+    abort: true,
+  });
+}
+
+function errorCode(error: OpenAICompatibleError): ManagedTextGenerationErrorCode {
+  if (error.code === "not_configured") return "capability_unavailable";
+  if (error.code === "invalid_response") return "invalid_response";
+  if (error.code === "network_error") return "temporarily_unavailable";
+  if (error.status === 400 || error.status === 404 || error.status === 422) return "invalid_request";
+  if (error.status === 429) return "rate_limited";
+  return "upstream_failed";
+}
+
+function validateMessages(operationId: string, value: unknown): ManagedTextGenerationMessage[] {
+  if (!Array.isArray(value) || value.length < 1 || value.length > MAX_MESSAGES) {
+    throw invalid(operationId, "Text generation requires 1-8 messages.");
+  }
+  return value.map((item) => {
+    const role = item?.role;
+    const content = item?.content;
+    if ((role !== "system" && role !== "user") || typeof content !== "string" || content.length === 0) {
+      throw invalid(operationId, "Text generation messages need a system or user role and non-empty content.");
+    }
+    return Object.freeze({ role, content });
+  });
+}
+
+/**
+ * Serves the managed text_generation contract from an OpenAI-compatible
+ * server, so Studio, workflows, and transcript post-processing keep their
+ * result and error handling when the user brings their own provider.
+ */
+export class OpenAICompatibleTextGenerationAdapter {
+  constructor(private readonly client: Pick<OpenAICompatibleClient, "complete" | "stream" | "getProfile">) {}
+
+  async generate(operation: ManagedTextGenerationOperation): Promise<ManagedTextGenerationResult> {
+    const operationId = operation.operationId;
+    if (typeof operationId !== "string" || operationId.length < 1 || operationId.length > 128) {
+      throw invalid(String(operationId ?? ""), "Text generation requires a 1-128 character operation ID.");
+    }
+    if (operation.signal?.aborted) throw localAbort(operationId, false);
+    const model = this.client.getProfile().textGenerationModel;
+    if (!model.trim()) {
+      throw new ManagedTextGenerationError({
+        code: "capability_unavailable",
+        message: "Choose a text generation model for your OpenAI-compatible provider in settings.",
+        operationId,
+      });
+    }
+
+    const messages = validateMessages(operationId, await operation.buildMessages());
+    if (operation.signal?.aborted) throw localAbort(operationId, false);
+    await operation.onDispatch?.();
+    if (operation.signal?.aborted) throw localAbort(operationId, false);
+
+    try {
+      const onText = operation.onText;
+      const completion = onText
+        ? await this.client.stream({ model, messages, signal: operation.signal, onText })
+        : await this.client.complete({ model, messages, signal: operation.signal });
+      if (operation.signal?.aborted) throw localAbort(operationId, true);
+      const usage = completion.usage ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      return Object.freeze({
+        operationId,
+        requestId: completion.id ?? operationId,
+        text: completion.text,
+        finishReason: completion.finishReason === "length" ? "length" : "stop",
+        usage: Object.freeze({ ...usage }),
+      });
+    } catch (error) {
+      if (error instanceof ManagedTextGenerationError) throw error;
+      if (operation.signal?.aborted || (error instanceof Error && error.name === "AbortError")) {
+        throw localAbort(operationId, true);
+      }
+      if (error instanceof OpenAICompatibleError) {
+        throw new ManagedTextGenerationError({
+          code: errorCode(error),
+          message: error.message,
+          operationId,
+          status: error.status,
+          retryable: error.retryable,
+        });
+      }
+      throw new ManagedTextGenerationError({
+        code: "upstream_failed",
+        message: error instanceof Error ? error.message : String(error),
+        operationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import {
+  OpenAICompatibleClient,
+  OpenAICompatibleError,
+  normalizeOpenAICompatibleBaseUrl,
+  type OpenAICompatibleProfile,
+} from "../OpenAICompatibleClient";
+
+const profile: OpenAICompatibleProfile = {
+  baseUrl: "http://localhost:11434/v1/",
+  apiKey: "",
+  chatModel: "llama3.1",
+  textGenerationModel: "llama3.1",
+  embeddingsModel: "nomic-embed-text",
+};
+
+function jsonResponse(value: unknown, status = 200): Response {
+  return new Response(JSON.stringify(value), { status, headers: { "content-type": "application/json" } });
+}
+
+function sseResponse(events: string[]): Response {
+  return new Response(events.map((event) => `data: ${event}\n\n`).join(""), {
+    status: 200,
+    headers: { "content-type": "text/event-stream" },
+  });
+}
+
+function harness(overrides: Partial<OpenAICompatibleProfile> = {}) {
+  const request = jest.fn();
+  const client = new OpenAICompatibleClient({
+    profile: () => ({ ...profile, ...overrides }),
+    requestClient: { request } as any,
+  });
+  return { client, request };
+}
+
+describe("OpenAICompatibleClient", () => {
+  it("normalizes base URLs and rejects non-http schemes", () => {
+    expect(normalizeOpenAICompatibleBaseUrl(" http://localhost:8080/v1// ")).toBe("http://localhost:8080/v1");
+    expect(normalizeOpenAICompatibleBaseUrl("file:///tmp")).toBeNull();
+    expect(normalizeOpenAICompatibleBaseUrl("not a url")).toBeNull();
+  });
+
+  it("posts buffered completions without an Authorization header when no key is set", async () => {
+    const { client, request } = harness();
+    request.mockResolvedValue(jsonResponse({
+      id: "cmpl_1",
+      choices: [{ message: { role: "assistant", content: "Hello" }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 3, completion_tokens: 1 },
+    }));
+
+    const completion = await client.complete({ model: "llama3.1", messages: [{ role: "user", content: "Hi" }] });
+
+    expect(completion).toEqual({
+      id: "cmpl_1",
+      text: "Hello",
+      finishReason: "stop",
+      usage: { promptTokens: 3, completionTokens: 1, totalTokens: 4 },
+    });
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({
+      url: "http://localhost:11434/v1/chat/completions",
+      method: "POST",
+      stream: false,
+      body: { model: "llama3.1", stream: false, messages: [{ role: "user", content: "Hi" }] },
+    }));
+    expect(request.mock.calls[0][0].headers).toBeUndefined();
+  });
+
+  it("sends the API key as a bearer token", async () => {
+    const { client, request } = harness({ apiKey: " sk-test " });
+    request.mockResolvedValue(jsonResponse({ data: [{ id: "a" }, { id: "b" }, {}] }));
+
+    await expect(client.listModels()).resolves.toEqual(["a", "b"]);
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({
+      url: "http://localhost:11434/v1/models",
+      method: "GET",
+      headers: { Authorization: "Bearer sk-test" },
+    }));
+  });
+
+  it("accumulates streamed deltas and stops at [DONE]", async () => {
+    const { client, request } = harness();
+    request.mockResolvedValue(sseResponse([
+      JSON.stringify({ id: "cmpl_2", choices: [{ delta: { content: "Hel" } }] }),
+      JSON.stringify({ id: "cmpl_2", choices: [{ delta: { content: "lo" }, finish_reason: "stop" }] }),
+      JSON.stringify({ choices: [], usage: { prompt_tokens: 2, completion_tokens: 2, total_tokens: 4 } }),
+      "[DONE]",
+      JSON.stringify({ choices: [{ delta: { content: "ignored" } }] }),
+    ]));
+    const onText = jest.fn();
+
+    const completion = await client.stream({ model: "llama3.1", messages: [{ role: "user", content: "Hi" }], onText });
+
+    expect(onText.mock.calls.map(([text]) => text)).toEqual(["Hel", "Hello"]);
+    expect(completion).toEqual({
+      id: "cmpl_2",
+      text: "Hello",
+      finishReason: "stop",
+      usage: { promptTokens: 2, completionTokens: 2, totalTokens: 4 },
+    });
+    expect(request.mock.calls[0][0].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+
+  it("retries a blocked stream through the buffered transport", async () => {
+    const { client, request } = harness();
+    request
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(jsonResponse({ choices: [{ message: { content: "Buffered" }, finish_reason: "stop" }] }));
+    const onText = jest.fn();
+
+    const completion = await client.stream({ model: "llama3.1", messages: [{ role: "user", content: "Hi" }], onText });
+
+    expect(completion.text).toBe("Buffered");
+    expect(onText).toHaveBeenCalledWith("Buffered");
+    expect(request.mock.calls[1][0]).toMatchObject({ stream: true, transport: "requestUrl" });
+  });
+
+  it("surfaces stream error events and HTTP error bodies", async () => {
+    const { client, request } = harness();
+    request.mockResolvedValueOnce(sseResponse([JSON.stringify({ error: { message: "model not loaded" } })]));
+    await expect(client.stream({ model: "m", messages: [{ role: "user", content: "Hi" }], onText: jest.fn() }))
+      .rejects.toMatchObject({ code: "http_error", message: "model not loaded" });
+
+    request.mockResolvedValueOnce(jsonResponse({ error: "slow down" }, 429));
+    const error = await client.complete({ model: "m", messages: [{ role: "user", content: "Hi" }] }).catch((e) => e);
+    expect(error).toBeInstanceOf(OpenAICompatibleError);
+    expect(error).toMatchObject({ code: "http_error", status: 429, retryable: true });
+    expect(error.message).toContain("slow down");
+
+    request.mockResolvedValueOnce(new Response("<html>Bad gateway</html>", { status: 502 }));
+    await expect(client.complete({ model: "m", messages: [{ role: "user", content: "Hi" }] }))
+      .rejects.toMatchObject({ code: "http_error", status: 502, message: "Provider request failed (502)." });
+  });
+
+  it("returns embeddings in input order using the index field", async () => {
+    const { client, request } = harness();
+    request.mockResolvedValue(jsonResponse({
+      data: [
+        { index: 1, embedding: [0, 1] },
+        { index: 0, embedding: [1, 0] },
+      ],
+    }));
+
+    const vectors = await client.embed({ model: "nomic-embed-text", input: ["a", "b"] });
+
+    expect(vectors.map((vector) => Array.from(vector))).toEqual([[1, 0], [0, 1]]);
+  });
+
+  it("refuses to send without a base URL or model", async () => {
+    const { client, request } = harness({ baseUrl: "" });
+    await expect(client.listModels()).rejects.toMatchObject({ code: "not_configured" });
+    await expect(client.embed({ model: " ", input: ["a"] })).rejects.toMatchObject({ code: "not_configured" });
+    expect(request).not.toHaveBeenCalled();
+  });
+});
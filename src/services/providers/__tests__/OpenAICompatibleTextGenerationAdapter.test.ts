@@ -0,0 +1,111 @@
+import { ManagedTextGenerationError } from "../../managed/ManagedTextGenerationAdapter";
+import { OpenAICompatibleError } from "../OpenAICompatibleClient";
+import { OpenAICompatibleTextGenerationAdapter } from "../OpenAICompatibleTextGenerationAdapter";
+
+function harness(textGenerationModel = "llama3.1") {
+  const complete = jest.fn().mockResolvedValue({
+    id: "cmpl_1",
+    text: "Generated",
+    finishReason: "stop",
+    usage: { promptTokens: 2, completionTokens: 3, totalTokens: 5 },
+  });
+  const stream = jest.fn(async (request: { onText: (text: string) => void }) => {
+    request.onText("Gener");
+    request.onText("Generated");
+    return { id: "cmpl_2", text: "Generated", finishReason: "stop" };
+  });
+  const getProfile = jest.fn(() => ({
+    baseUrl: "http://localhost:8080/v1",
+    apiKey: "",
+    chatModel: "",
+    textGenerationModel,
+    embeddingsModel: "",
+  }));
+  return { adapter: new OpenAICompatibleTextGenerationAdapter({ complete, stream, getProfile }), complete, stream };
+}
+
+const operation = (overrides: Record<string, unknown> = {}) => ({
+  operationId: "studio:op_1",
+  purpose: "workflow_automation" as const,
+  buildMessages: () => [
+    { role: "system" as const, content: "Be concise." },
+    { role: "user" as const, content: "Source" },
+  ],
+  ...overrides,
+});
+
+describe("OpenAICompatibleTextGenerationAdapter", () => {
+  it("returns the managed result shape from the provider completion", async () => {
+    const { adapter, complete } = harness();
+    const onDispatch = jest.fn();
+
+    await expect(adapter.generate(operation({ onDispatch }))).resolves.toEqual({
+      operationId: "studio:op_1",
+      requestId: "cmpl_1",
+      text: "Generated",
+      finishReason: "stop",
+      usage: { promptTokens: 2, completionTokens: 3, totalTokens: 5 },
+    });
+    expect(onDispatch).toHaveBeenCalledTimes(1);
+    expect(complete).toHaveBeenCalledWith(expect.objectContaining({
+      model: "llama3.1",
+      messages: [
+        { role: "system", content: "Be concise." },
+        { role: "user", content: "Source" },
+      ],
+    }));
+  });
+
+  it("streams through the provider when the caller wants partial text", async () => {
+    const { adapter, complete, stream } = harness();
+    const onText = jest.fn();
+
+    await expect(adapter.generate(operation({ onText }))).resolves.toMatchObject({
+      requestId: "cmpl_2",
+      text: "Generated",
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    });
+    expect(onText.mock.calls).toEqual([["Gener"], ["Generated"]]);
+    expect(stream).toHaveBeenCalledWith(expect.objectContaining({ model: "llama3.1", onText }));
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it("reports a missing model as capability_unavailable before building messages", async () => {
+    const { adapter, complete } = harness(" ");
+    const buildMessages = jest.fn();
+
+    await expect(adapter.generate(operation({ buildMessages }))).rejects.toMatchObject({ code: "capability_unavailable" });
+    expect(buildMessages).not.toHaveBeenCalled();
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it("rejects assistant messages like the managed contract", async () => {
+    const { adapter } = harness();
+    await expect(adapter.generate(operation({
+      buildMessages: () => [{ role: "assistant", content: "No" }],
+    }))).rejects.toMatchObject({ code: "invalid_request" });
+  });
+
+  it("maps provider failures onto managed error codes", async () => {
+    const { adapter, complete } = harness();
+    complete.mockRejectedValueOnce(new OpenAICompatibleError("http_error", "Busy", 429));
+    const rateLimited = await adapter.generate(operation()).catch((error) => error);
+    expect(rateLimited).toBeInstanceOf(ManagedTextGenerationError);
+    expect(rateLimited).toMatchObject({ code: "rate_limited", status: 429, retryable: true });
+
+    complete.mockRejectedValueOnce(new OpenAICompatibleError("network_error", "Could not reach"));
+    await expect(adapter.generate(operation())).rejects.toMatchObject({ code: "temporarily_unavailable" });
+  });
+
+  it("treats an abort after dispatch as an ambiguous outcome", async () => {
+    const { adapter, complete } = harness();
+    const controller = new AbortController();
+    complete.mockImplementation(async () => {
+      controller.abort();
+      throw new DOMException("The operation was aborted", "AbortError");
+    });
+
+    await expect(adapter.generate(operation({ signal: controller.signal })))
+      .rejects.toMatchObject({ code: "ambiguous_outcome", ambiguous: true });
+  });
+});
@@ -2,6 +2,17 @@ import { App, EventRef, TFile } from "obsidian";
 import SystemSculptPlugin from "../../main";
 import { shouldExcludeFromSearch, fuzzyMatchScore } from "../../tools/vault/searchUtils";
 import { extractCanvasText } from "./canvasTextExtractor";
+import {
+  literalSearchQuery,
+  matchesSearchQueryFilters,
+  matchesSearchQueryText,
+  parseSearchQuery,
+  type ParsedSearchQuery,
+  type SearchQueryHaystack,
+  type SearchQuerySyntax,
+} from "./searchQuery";
+
+export { SearchQuerySyntaxError, type SearchQuerySyntax } from "./searchQuery";
 
 export type SearchMode = "smart" | "lexical" | "semantic";
 export type SortMode = "relevance" | "recency";
@@ -63,6 +74,9 @@ interface IndexedDocument {
   size: number;
 }
 
+/** Decides whether a note survives the query's operators, phrases, and exclusions. */
+type DocumentFilter = (doc: SearchQueryHaystack & { path: string }) => boolean;
+
 interface QueryTerm {
   value: string;
   exact: Set<string>;
@@ -136,6 +150,8 @@ export class SystemSculptSearchEngine {
   private readonly RECENT_PREVIEW_CONCURRENCY = 2;
   private readonly MAX_RECENT_PREVIEW_FILE_BYTES = 1024 * 1024;
   private readonly SEMANTIC_TIMEOUT_MS = 1500;
+  private readonly FILTERED_SEMANTIC_POOL_FACTOR = 5;
+  private readonly FILTERED_SEMANTIC_MIN_POOL = 50;
   private readonly UNICODE_TOKEN_PATTERN = /[\p{L}\p{N}\p{M}]+/gu;
   private lastLexicalInspect = 0;
 
@@ -146,20 +162,36 @@ export class SystemSculptSearchEngine {
   }
 
   /**
-   * Run a search across the vault
+   * Run a search across the vault. `awaitIndex` makes smart searches wait for
+   * the content index instead of answering from titles and paths meanwhile.
+   * The query may use the operators parseSearchQuery accepts; they narrow the
+   * candidates before lexical and semantic scoring, and a malformed query
+   * throws SearchQuerySyntaxError. `syntax: "literal"` reads the query as
+   * plain words instead, for callers passing text nobody typed as a query.
    */
-  async search(query: string, options?: { mode?: SearchMode; sort?: SortMode; limit?: number; signal?: AbortSignal }): Promise<SearchResponse> {
+  async search(
+    query: string,
+    options?: {
+      mode?: SearchMode;
+      sort?: SortMode;
+      limit?: number;
+      signal?: AbortSignal;
+      awaitIndex?: boolean;
+      syntax?: SearchQuerySyntax;
+    }
+  ): Promise<SearchResponse> {
     const mode: SearchMode = options?.mode ?? "smart";
     const sort: SortMode = options?.sort ?? "relevance";
     const limit = options?.limit ?? 80;
     const signal = options?.signal;
 
     const searchStart = performance.now();
-    const normalizedQuery = query.trim().toLowerCase();
-    const terms = normalizedQuery.split(/\s+/).filter(Boolean);
-    const phrase = normalizedQuery;
+    const parsed = options?.syntax === "literal" ? literalSearchQuery(query) : parseSearchQuery(query);
+    const terms = parsed.terms;
+    const phrase = parsed.text.toLowerCase().replace(/\s+/g, " ");
+    const accept = this.buildDocumentFilter(parsed);
 
-    if (terms.length === 0) {
+    if (terms.length === 0 && !accept) {
       const recents = await this.getRecent(limit);
       return {
         results: recents,
@@ -180,10 +212,12 @@ export class SystemSculptSearchEngine {
       throw new DOMException("Search aborted", "AbortError");
     }
 
-    if (mode === "smart" && !this.contentIndexReady) {
+    if (mode === "smart" && !this.contentIndexReady && options?.awaitIndex !== true) {
       this.refreshEligibilityIfChanged();
       const metadataStart = performance.now();
-      const metadataHits = this.runMetadataSearch(terms, phrase, limit, sort);
+      const metadataHits = terms.length > 0
+        ? this.runMetadataSearch(terms, phrase, limit, sort, accept)
+        : this.runFilterListing(accept, limit);
       this.scheduleIndexing();
       const totalMs = performance.now() - searchStart;
       return {
@@ -216,7 +250,9 @@ export class SystemSculptSearchEngine {
     }
 
     const lexStart = performance.now();
-    const lexicalHits = this.runLexicalSearch(terms, phrase, limit, sort);
+    const lexicalHits = terms.length > 0
+      ? this.runLexicalSearch(terms, phrase, limit, sort, accept)
+      : this.runFilterListing(accept, limit);
     const lexMs = performance.now() - lexStart;
 
     let semanticHits: SearchHit[] = [];
@@ -232,11 +268,16 @@ export class SystemSculptSearchEngine {
       this.ensureEmbeddingsManager();
       embeddingsIndicator = this.getEmbeddingsIndicator();
     }
-    const embeddingsEligible = this.shouldUseEmbeddings(mode, embeddingsIndicator, terms);
+    const embeddingsEligible = terms.length > 0 && this.shouldUseEmbeddings(mode, embeddingsIndicator, terms);
 
     if (embeddingsEligible) {
       const semStart = performance.now();
-      semanticHits = await this.runSemanticSearch(query, limit, signal);
+      // Filters apply after retrieval here, so a filtered search ranks a wider pool.
+      const semanticPool = accept ? Math.max(limit * this.FILTERED_SEMANTIC_POOL_FACTOR, this.FILTERED_SEMANTIC_MIN_POOL) : limit;
+      semanticHits = await this.runSemanticSearch(parsed.text, semanticPool, signal);
+      if (accept) {
+        semanticHits = semanticHits.filter((hit) => accept(this.getFilterHaystack(hit.path))).slice(0, limit);
+      }
       semMs = performance.now() - semStart;
       usedEmbeddings = semanticHits.length > 0;
     } else if (mode === "semantic" && (!embeddingsIndicator.enabled || !embeddingsIndicator.available)) {
@@ -722,16 +763,22 @@ export class SystemSculptSearchEngine {
     return `${trimmed.slice(0, this.PREVIEW_CHARS)}...`;
   }
 
-  private runLexicalSearch(terms: string[], phrase: string, limit: number, sort: SortMode): SearchHit[] {
+  private runLexicalSearch(
+    terms: string[],
+    phrase: string,
+    limit: number,
+    sort: SortMode,
+    accept: DocumentFilter | null = null
+  ): SearchHit[] {
     const queryTerms = this.buildQueryTerms(terms);
-    const candidates = this.collectCandidateDocs(queryTerms, limit);
+    const candidates = this.collectCandidateDocs(queryTerms, limit, accept);
     const candidateMap = new Map<string, IndexedDocument>();
 
     for (const doc of candidates) {
       candidateMap.set(doc.path, doc);
     }
     if (this.shouldUseSubstringCandidateFallback(queryTerms, phrase, candidateMap.size)) {
-      for (const doc of this.collectSubstringCandidateDocs(terms, phrase, limit)) {
+      for (const doc of this.collectSubstringCandidateDocs(terms, phrase, limit, accept)) {
         candidateMap.set(doc.path, doc);
       }
     }
@@ -1011,11 +1058,24 @@ export class SystemSculptSearchEngine {
     }
   }
 
-  private collectCandidateDocs(queryTerms: QueryTerm[], limit: number): IndexedDocument[] {
+  private collectCandidateDocs(
+    queryTerms: QueryTerm[],
+    limit: number,
+    accept: DocumentFilter | null = null
+  ): IndexedDocument[] {
     const counts = new Map<string, number>();
+    const rejected = new Set<string>();
     for (const term of queryTerms) {
       const termPaths = this.pathsForQueryTerm(term);
       for (const path of termPaths) {
+        if (accept && !counts.has(path)) {
+          // Filter before the candidate cap so narrow filters keep their matches.
+          const doc = this.index.get(path);
+          if (rejected.has(path) || !doc || !accept(doc)) {
+            rejected.add(path);
+            continue;
+          }
+        }
         counts.set(path, (counts.get(path) ?? 0) + 1);
       }
     }
@@ -1060,12 +1120,18 @@ export class SystemSculptSearchEngine {
     return /[^\x00-\x7F]/.test(value) || this.tokenizeSearchText(value).size === 0;
   }
 
-  private collectSubstringCandidateDocs(terms: string[], phrase: string, limit: number): IndexedDocument[] {
+  private collectSubstringCandidateDocs(
+    terms: string[],
+    phrase: string,
+    limit: number,
+    accept: DocumentFilter | null = null
+  ): IndexedDocument[] {
     const matches: IndexedDocument[] = [];
     const cap = Math.max(limit * 8, this.CANDIDATE_LIMIT);
     const searchableTerms = terms.filter(Boolean);
 
     for (const doc of this.index.values()) {
+      if (accept && !accept(doc)) continue;
       if (
         this.documentContainsSubstring(doc, phrase) ||
         searchableTerms.some((term) => this.documentContainsSubstring(doc, term))
@@ -1083,7 +1149,13 @@ export class SystemSculptSearchEngine {
     return doc.lowerTitle.includes(value) || doc.lowerPath.includes(value) || doc.body.includes(value);
   }
 
-  private runMetadataSearch(terms: string[], phrase: string, limit: number, sort: SortMode): SearchHit[] {
+  private runMetadataSearch(
+    terms: string[],
+    phrase: string,
+    limit: number,
+    sort: SortMode,
+    accept: DocumentFilter | null = null
+  ): SearchHit[] {
     const queryTerms = terms.map((value) => ({
       value,
       exact: new Set([value]),
@@ -1092,6 +1164,7 @@ export class SystemSculptSearchEngine {
     }));
 
     const hits = this.getEligibleFiles()
+      .filter((file) => !accept || accept(this.getFilterHaystack(file.path)))
       .map((file) => this.scoreMetadataFile(file, queryTerms, phrase))
       .filter((hit): hit is SearchHit => hit !== null)
       .sort((a, b) => b.score - a.score || (b.updatedAt || 0) - (a.updatedAt || 0))
@@ -1194,6 +1267,50 @@ export class SystemSculptSearchEngine {
     return score;
   }
 
+  /**
+   * Operator filters read the metadata cache once per search; phrases and
+   * exclusions are checked per note against its indexed text.
+   */
+  private buildDocumentFilter(parsed: ParsedSearchQuery): DocumentFilter | null {
+    const checksText = parsed.phrases.length > 0 || parsed.excluded.length > 0;
+    if (parsed.filters.length === 0 && !checksText) return null;
+    const allowed = parsed.filters.length > 0
+      ? new Set(
+        this.getEligibleFiles()
+          .filter((file) => matchesSearchQueryFilters(file, this.app.metadataCache.getFileCache(file), parsed.filters))
+          .map((file) => file.path)
+      )
+      : null;
+    return (doc) => (!allowed || allowed.has(doc.path)) && (!checksText || matchesSearchQueryText(doc, parsed));
+  }
+
+  /** Indexed text when the note is indexed, otherwise its title and path only. */
+  private getFilterHaystack(path: string): SearchQueryHaystack & { path: string } {
+    const indexed = this.index.get(path);
+    if (indexed) return indexed;
+    const lowerPath = path.toLowerCase();
+    const name = lowerPath.split("/").pop() ?? lowerPath;
+    return { path, lowerPath, lowerTitle: name.replace(/\.[^.]+$/, ""), body: "" };
+  }
+
+  /** Operator-only queries list every matching note, newest first. */
+  private runFilterListing(accept: DocumentFilter | null, limit: number): SearchHit[] {
+    const files = this.getEligibleFiles().filter((file) => !accept || accept(this.getFilterHaystack(file.path)));
+    return this.selectRecentFiles(files, limit).map((file) => {
+      const indexed = this.index.get(file.path);
+      return {
+        path: file.path,
+        title: indexed?.title ?? file.basename,
+        excerpt: indexed?.preview,
+        score: 0.5,
+        lexScore: 0.5,
+        origin: "lexical" as const,
+        updatedAt: file.stat?.mtime || 0,
+        size: file.stat?.size || 0,
+      };
+    });
+  }
+
   private pathsForQueryTerm(term: QueryTerm): Set<string> {
     const paths = new Set<string>();
     const add = (token: string) => {
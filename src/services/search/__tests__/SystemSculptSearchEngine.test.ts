@@ -1,4 +1,4 @@
-import { SystemSculptSearchEngine } from "../SystemSculptSearchEngine";
+import { SearchQuerySyntaxError, SystemSculptSearchEngine } from "../SystemSculptSearchEngine";
 import { App, TFile } from "obsidian";
 
 const makePlugin = (app: App) =>
@@ -572,4 +572,80 @@ describe("SystemSculptSearchEngine lexical mode", () => {
 
     expect(res.results.map((r) => r.path)).not.toContain("notes/research.canvas");
   });
+  it("applies query operators before lexical scoring", async () => {
+    const { app } = buildFixture();
+    (app.metadataCache.getFileCache as jest.Mock).mockImplementation((file: TFile) =>
+      file.path === "notes/fresh-orange.md" ? { frontmatter: { tags: ["harvest"], status: "Done" } } : null
+    );
+    const plugin = makePlugin(app);
+    const engine = new SystemSculptSearchEngine(app as any, plugin);
+
+    const tagged = await engine.search("orange tag:#harvest", { mode: "lexical", limit: 10 });
+    expect(tagged.results.map((r) => r.path)).toEqual(["notes/fresh-orange.md"]);
+
+    const untagged = await engine.search("orange -property:status=done", { mode: "lexical", limit: 10 });
+    expect(untagged.results.map((r) => r.path)).toContain("notes/orange-juice.md");
+    expect(untagged.results.map((r) => r.path)).not.toContain("notes/fresh-orange.md");
+
+    const canvases = await engine.search("ext:canvas", { mode: "lexical", limit: 10 });
+    expect(canvases.results.map((r) => r.path)).toEqual(["notes/research.canvas"]);
+  });
+
+  it("honors quoted phrases and exclusions against note bodies", async () => {
+    const { app } = buildFixture();
+    const plugin = makePlugin(app);
+    const engine = new SystemSculptSearchEngine(app as any, plugin);
+
+    const phrase = await engine.search('"orange harvest"', { mode: "lexical", limit: 10 });
+    expect(phrase.results.map((r) => r.path)).toEqual(["notes/fresh-orange.md"]);
+
+    const excluded = await engine.search("orange -squeezed", { mode: "lexical", limit: 10 });
+    expect(excluded.results.map((r) => r.path)).toContain("notes/fresh-orange.md");
+    expect(excluded.results.map((r) => r.path)).not.toContain("notes/orange-juice.md");
+  });
+
+  it("filters semantic candidates with the same operators and sends only the free text", async () => {
+    const { app } = buildFixture();
+    const plugin = makePlugin(app);
+    plugin.settings.embeddingsEnabled = true;
+    const searchSimilar = jest.fn(() =>
+      Promise.resolve([
+        { path: "notes/unrelated.md", score: 0.9, metadata: { title: "unrelated" } },
+        { path: "notes/orange-juice.md", score: 0.8, metadata: { title: "orange-juice" } },
+      ])
+    );
+    plugin.embeddingsManager = {
+      searchSimilar,
+      isReady: () => true,
+      hasAnyEmbeddings: () => true,
+      getStats: () => ({ total: 7, processed: 7, present: 7, needsProcessing: 0 }),
+    };
+    plugin.getOrCreateEmbeddingsManager = jest.fn(() => plugin.embeddingsManager);
+    const engine = new SystemSculptSearchEngine(app as any, plugin);
+
+    const res = await engine.search("citrus path:orange", { mode: "semantic", limit: 5 });
+
+    expect(searchSimilar).toHaveBeenCalledWith("citrus", 50, undefined);
+    expect(res.results.map((r) => r.path)).toEqual(["notes/orange-juice.md"]);
+  });
+
+  it("rejects malformed operator values with a syntax error", async () => {
+    const { app } = buildFixture();
+    const plugin = makePlugin(app);
+    const engine = new SystemSculptSearchEngine(app as any, plugin);
+
+    await expect(engine.search("orange modified:>soon", { mode: "lexical", limit: 10 })).rejects.toBeInstanceOf(
+      SearchQuerySyntaxError
+    );
+  });
+
+  it("reads a literal query as plain words without operator errors", async () => {
+    const { app } = buildFixture();
+    const plugin = makePlugin(app);
+    const engine = new SystemSculptSearchEngine(app as any, plugin);
+
+    const res = await engine.search('orange "juice tag:', { mode: "lexical", limit: 10, syntax: "literal" });
+
+    expect(res.results.map((r) => r.path)).toContain("notes/orange-juice.md");
+  });
 });
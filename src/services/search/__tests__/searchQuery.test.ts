@@ -0,0 +1,96 @@
+import { TFile } from "obsidian";
+import {
+  matchesSearchQueryFilters,
+  matchesSearchQueryText,
+  literalSearchQuery,
+  parseSearchQuery,
+  readSearchNoteTags,
+  SearchQuerySyntaxError,
+} from "../searchQuery";
+
+describe("parseSearchQuery", () => {
+  it("separates free text, phrases, exclusions, and operators", () => {
+    const parsed = parseSearchQuery('Launch "release notes" -draft path:Projects/ -tag:#archive ext:.MD property:status=Done');
+
+    expect(parsed.text).toBe("Launch release notes");
+    expect(parsed.terms).toEqual(["launch", "release", "notes"]);
+    expect(parsed.phrases).toEqual(["release notes"]);
+    expect(parsed.excluded).toEqual(["draft"]);
+    expect(parsed.filters).toEqual([
+      { type: "path", value: "projects/", negated: false },
+      { type: "tag", value: "archive", negated: true },
+      { type: "ext", value: "md", negated: false },
+      { type: "property", key: "status", value: "done", negated: false },
+    ]);
+  });
+
+  it("keeps unknown name: prefixes and quoted operator values", () => {
+    const parsed = parseSearchQuery('todo:later path:"Daily Notes"');
+
+    expect(parsed.text).toBe("todo:later");
+    expect(parsed.filters).toEqual([{ type: "path", value: "daily notes", negated: false }]);
+  });
+
+  it("turns modified: comparisons into local-time bounds", () => {
+    const [after] = parseSearchQuery("modified:>2026-01-01").filters;
+    const [month] = parseSearchQuery("modified:2026-02").filters;
+
+    expect(after).toMatchObject({ min: new Date(2026, 0, 2).getTime(), max: null });
+    expect(month).toMatchObject({ min: new Date(2026, 1, 1).getTime(), max: new Date(2026, 2, 1).getTime() });
+  });
+
+  it("reports every problem in one syntax error", () => {
+    let failure: unknown;
+    try {
+      parseSearchQuery('modified:>2026-13-01 tag: "open');
+    } catch (error) {
+      failure = error;
+    }
+
+    expect(failure).toBeInstanceOf(SearchQuerySyntaxError);
+    expect((failure as SearchQuerySyntaxError).problems).toHaveLength(3);
+  });
+});
+
+describe("literalSearchQuery", () => {
+  it("reads quotes, exclusions, and operators as plain words", () => {
+    expect(literalSearchQuery(' "open  -draft tag: ')).toEqual({
+      text: '"open -draft tag:',
+      terms: ['"open', "-draft", "tag:"],
+      phrases: [],
+      excluded: [],
+      filters: [],
+    });
+  });
+});
+
+describe("search query matching", () => {
+  const file = new TFile({ path: "Projects/Atlas.md", stat: { mtime: new Date(2026, 0, 15).getTime() } });
+  const cache = { tags: [{ tag: "#work/launch" }], frontmatter: { status: ["Active", "Review"] } } as any;
+
+  it("matches operator filters against the file and its metadata", () => {
+    const matches = (query: string) => matchesSearchQueryFilters(file, cache, parseSearchQuery(query).filters);
+
+    expect(matches("path:projects tag:work ext:md property:status=review modified:>=2026-01")).toBe(true);
+    expect(matches("-tag:work")).toBe(false);
+    expect(matches("property:owner")).toBe(false);
+    expect(matches("modified:<2026-01-15")).toBe(false);
+  });
+
+  it("requires phrases and rejects exclusions across title, path, and body", () => {
+    const haystack = { lowerTitle: "atlas", lowerPath: "projects/atlas.md", body: "the launch plan is ready" };
+
+    expect(matchesSearchQueryText(haystack, parseSearchQuery('"launch plan"'))).toBe(true);
+    expect(matchesSearchQueryText(haystack, parseSearchQuery('"plan launch"'))).toBe(false);
+    expect(matchesSearchQueryText(haystack, parseSearchQuery("plan -projects"))).toBe(false);
+  });
+
+  it("reads inline and frontmatter tags without the hash", () => {
+    expect(readSearchNoteTags({
+      tags: [{ tag: "#Project/Atlas", position: {} as never }],
+      frontmatter: { tags: ["meeting", "#project/atlas"] },
+    })).toEqual(["project/atlas", "meeting"]);
+    expect(readSearchNoteTags({ frontmatter: { tags: "a, b" } })).toEqual(["a", "b"]);
+    expect(readSearchNoteTags(null)).toEqual([]);
+  });
+});
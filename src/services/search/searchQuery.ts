@@ -0,0 +1,270 @@
+import type { CachedMetadata, TFile } from "obsidian";
+
+export type SearchQueryFilter =
+  | { type: "path"; value: string; negated: boolean }
+  | { type: "tag"; value: string; negated: boolean }
+  | { type: "ext"; value: string; negated: boolean }
+  /** `value` null means the property only has to be set. */
+  | { type: "property"; key: string; value: string | null; negated: boolean }
+  /** Local-time bounds on the modified time: `min` inclusive, `max` exclusive. */
+  | { type: "modified"; min: number | null; max: number | null; negated: boolean };
+
+export interface ParsedSearchQuery {
+  /** Free text for semantic search, operators and exclusions removed. */
+  text: string;
+  /** Lowercased words from the free text and its quoted phrases. */
+  terms: string[];
+  /** Lowercased quoted phrases a note must contain. */
+  phrases: string[];
+  /** Lowercased words and phrases a note must not contain. */
+  excluded: string[];
+  filters: SearchQueryFilter[];
+}
+
+/** The text a note is checked against for phrases and exclusions, lowercased. */
+export interface SearchQueryHaystack {
+  lowerTitle: string;
+  lowerPath: string;
+  body: string;
+}
+
+/**
+ * "operators" reads the search box grammar; "literal" reads plain words, for
+ * text that comes from a program rather than a person typing a query.
+ */
+export type SearchQuerySyntax = "operators" | "literal";
+
+export class SearchQuerySyntaxError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(problems.join(" "));
+    this.name = "SearchQuerySyntaxError";
+  }
+}
+
+const SEARCH_QUERY_OPERATORS = new Set(["path", "tag", "property", "modified", "ext"]);
+const COMPARATOR_PATTERN = /^(>=|<=|>|<|=)?(.*)$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/;
+
+type RawToken = { negated: boolean; operator: string | null; value: string; quoted: boolean };
+
+function tokenize(query: string, problems: string[]): RawToken[] {
+  const tokens: RawToken[] = [];
+  let index = 0;
+  while (index < query.length) {
+    while (index < query.length && /\s/.test(query[index])) index += 1;
+    if (index >= query.length) break;
+
+    const start = index;
+    let negated = false;
+    if (query[index] === "-" && index + 1 < query.length && !/\s/.test(query[index + 1])) {
+      negated = true;
+      index += 1;
+    }
+
+    let operator: string | null = null;
+    const operatorMatch = /^([A-Za-z]+):/.exec(query.slice(index));
+    if (operatorMatch && SEARCH_QUERY_OPERATORS.has(operatorMatch[1].toLowerCase())) {
+      operator = operatorMatch[1].toLowerCase();
+      index += operatorMatch[0].length;
+    }
+
+    if (query[index] === "\"") {
+      const close = query.indexOf("\"", index + 1);
+      if (close === -1) {
+        problems.push(`Close the quote that starts at "${query.slice(start, start + 24)}".`);
+        tokens.push({ negated, operator, value: query.slice(index + 1), quoted: true });
+        break;
+      }
+      tokens.push({ negated, operator, value: query.slice(index + 1, close), quoted: true });
+      index = close + 1;
+      continue;
+    }
+
+    let end = index;
+    while (end < query.length && !/\s/.test(query[end])) end += 1;
+    tokens.push({ negated, operator, value: query.slice(index, end), quoted: false });
+    index = end;
+  }
+  return tokens;
+}
+
+function startOfLocalDay(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+function parseModifiedFilter(value: string, negated: boolean): SearchQueryFilter | string {
+  const [, comparator = "=", rawDate] = COMPARATOR_PATTERN.exec(value) ?? [];
+  const match = DATE_PATTERN.exec((rawDate ?? "").trim());
+  const year = Number(match?.[1]);
+  const month = Number(match?.[2]);
+  const day = match?.[3] ? Number(match[3]) : 1;
+  const start = match ? startOfLocalDay(year, month, day) : null;
+  if (!start) {
+    return `modified: needs a date like 2026-01-31 or 2026-01, optionally after >, >=, <, or <=.`;
+  }
+  const end = match?.[3] ? new Date(year, month - 1, day + 1) : new Date(year, month, 1);
+  const bounds: Record<string, [number | null, number | null]> = {
+    "=": [start.getTime(), end.getTime()],
+    ">": [end.getTime(), null],
+    ">=": [start.getTime(), null],
+    "<": [null, start.getTime()],
+    "<=": [null, end.getTime()],
+  };
+  const [min, max] = bounds[comparator];
+  return { type: "modified", min, max, negated };
+}
+
+function parseFilter(token: RawToken & { operator: string }): SearchQueryFilter | string {
+  const value = token.value.trim();
+  if (!value) {
+    return `${token.operator}: needs a value.`;
+  }
+  switch (token.operator) {
+    case "path":
+      return { type: "path", value: value.toLowerCase(), negated: token.negated };
+    case "tag": {
+      const tag = normalizeSearchTag(value);
+      return tag ? { type: "tag", value: tag, negated: token.negated } : "tag: needs a tag name.";
+    }
+    case "ext": {
+      const extension = value.replace(/^\./, "").toLowerCase();
+      return extension ? { type: "ext", value: extension, negated: token.negated } : "ext: needs an extension.";
+    }
+    case "property": {
+      const separator = value.indexOf("=");
+      const key = (separator === -1 ? value : value.slice(0, separator)).trim();
+      if (!key) {
+        return "property: needs a key, as in property:status=done.";
+      }
+      const expected = separator === -1 ? null : value.slice(separator + 1).trim().toLowerCase();
+      return { type: "property", key, value: expected, negated: token.negated };
+    }
+    default:
+      return parseModifiedFilter(value, token.negated);
+  }
+}
+
+/**
+ * Parses the search box grammar: free words, "quoted phrases", -exclusions,
+ * and the operators path:, tag:, property:key=value, modified:>2026-01-01,
+ * and ext:, each negatable with a leading minus. Words before an unknown
+ * `name:` stay plain text. Throws SearchQuerySyntaxError listing every
+ * problem when any part cannot be used.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const problems: string[] = [];
+  const parsed: ParsedSearchQuery = { text: "", terms: [], phrases: [], excluded: [], filters: [] };
+  const textParts: string[] = [];
+
+  for (const token of tokenize(query, problems)) {
+    if (token.operator) {
+      const filter = parseFilter(token as RawToken & { operator: string });
+      if (typeof filter === "string") {
+        problems.push(filter);
+      } else {
+        parsed.filters.push(filter);
+      }
+      continue;
+    }
+    const value = token.value.trim();
+    if (!value) continue;
+    const lower = value.toLowerCase();
+    if (token.negated) {
+      parsed.excluded.push(lower);
+      continue;
+    }
+    textParts.push(value);
+    parsed.terms.push(...lower.split(/\s+/).filter(Boolean));
+    if (token.quoted && /\s/.test(value)) {
+      parsed.phrases.push(lower.replace(/\s+/g, " "));
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new SearchQuerySyntaxError(problems);
+  }
+  parsed.text = textParts.join(" ");
+  return parsed;
+}
+
+/**
+ * Reads the query as plain words: quotes, minus signs and `name:` prefixes are
+ * ordinary text, so any input is accepted.
+ */
+export function literalSearchQuery(query: string): ParsedSearchQuery {
+  const text = query.trim().replace(/\s+/g, " ");
+  return {
+    text,
+    terms: text.toLowerCase().split(" ").filter(Boolean),
+    phrases: [],
+    excluded: [],
+    filters: [],
+  };
+}
+
+export function normalizeSearchTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+/** Inline and frontmatter tags of a note, lowercased without `#`. */
+export function readSearchNoteTags(cache: CachedMetadata | null | undefined): string[] {
+  const tags = (cache?.tags || []).map((entry) => normalizeSearchTag(entry.tag));
+  const frontmatterTags: unknown = cache?.frontmatter?.tags ?? cache?.frontmatter?.tag;
+  const declared = Array.isArray(frontmatterTags)
+    ? frontmatterTags
+    : typeof frontmatterTags === "string"
+      ? frontmatterTags.split(/[,\s]+/)
+      : [];
+  for (const entry of declared) {
+    if (typeof entry === "string" && normalizeSearchTag(entry)) {
+      tags.push(normalizeSearchTag(entry));
+    }
+  }
+  return Array.from(new Set(tags));
+}
+
+function propertyMatches(cache: CachedMetadata | null | undefined, key: string, expected: string | null): boolean {
+  const frontmatter = cache?.frontmatter;
+  if (!frontmatter) return false;
+  const actualKey = Object.keys(frontmatter).find((entry) => entry.toLowerCase() === key.toLowerCase());
+  if (actualKey === undefined) return false;
+  const raw: unknown = frontmatter[actualKey];
+  const values = (Array.isArray(raw) ? raw : [raw])
+    .filter((entry) => entry !== null && entry !== undefined && entry !== "")
+    .map((entry) => String(entry).toLowerCase());
+  return expected === null ? values.length > 0 : values.includes(expected);
+}
+
+function filterMatches(filter: SearchQueryFilter, file: TFile, cache: CachedMetadata | null | undefined): boolean {
+  switch (filter.type) {
+    case "path":
+      return file.path.toLowerCase().includes(filter.value);
+    case "ext":
+      return file.extension.toLowerCase() === filter.value;
+    case "tag":
+      return readSearchNoteTags(cache).some((tag) => tag === filter.value || tag.startsWith(`${filter.value}/`));
+    case "property":
+      return propertyMatches(cache, filter.key, filter.value);
+    case "modified": {
+      const mtime = file.stat?.mtime ?? 0;
+      return (filter.min === null || mtime >= filter.min) && (filter.max === null || mtime < filter.max);
+    }
+  }
+}
+
+/** True when the file passes every operator filter, before any text matching. */
+export function matchesSearchQueryFilters(
+  file: TFile,
+  cache: CachedMetadata | null | undefined,
+  filters: SearchQueryFilter[]
+): boolean {
+  return filters.every((filter) => filterMatches(filter, file, cache) !== filter.negated);
+}
+
+/** True when the note contains every quoted phrase and none of the exclusions. */
+export function matchesSearchQueryText(haystack: SearchQueryHaystack, parsed: ParsedSearchQuery): boolean {
+  const contains = (value: string) =>
+    haystack.lowerTitle.includes(value) || haystack.lowerPath.includes(value) || haystack.body.includes(value);
+  return parsed.phrases.every(contains) && !parsed.excluded.some(contains);
+}
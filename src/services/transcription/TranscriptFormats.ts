@@ -0,0 +1,201 @@
+import type { TranscriptionOutputFormat } from "../../types";
+
+export type { TranscriptionOutputFormat } from "../../types";
+
+export const TRANSCRIPTION_OUTPUT_FORMATS = [
+  "markdown",
+  "srt",
+  "vtt",
+  "json",
+  "speakers",
+] as const satisfies readonly TranscriptionOutputFormat[];
+
+export function normalizeTranscriptionOutputFormat(value: unknown): TranscriptionOutputFormat {
+  return TRANSCRIPTION_OUTPUT_FORMATS.includes(value as TranscriptionOutputFormat)
+    ? value as TranscriptionOutputFormat
+    : "markdown";
+}
+
+/** Every format except plain Markdown is built from the managed SRT cues. */
+export function requiresTimestampedTranscript(format: TranscriptionOutputFormat): boolean {
+  return format !== "markdown";
+}
+
+export function getTranscriptOutputExtension(format: TranscriptionOutputFormat): string {
+  switch (format) {
+    case "srt":
+      return "srt";
+    case "vtt":
+      return "vtt";
+    case "json":
+      return "json";
+    default:
+      return "md";
+  }
+}
+
+export interface TranscriptSegment {
+  /** Seconds from the start of the audio. */
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+export class TranscriptFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranscriptFormatError";
+  }
+}
+
+const CUE_TIMING = /^(\d{1,2}:)?(\d{1,2}):(\d{2})[,.](\d{1,3})\s*-->\s*(\d{1,2}:)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+const VOICE_TAG = /^<v(?:\.[^\s>]*)?\s+([^>]+)>\s*/i;
+const SPEAKER_PREFIX = /^\[\s*(speaker[\s_-]?\d+)\s*\]\s*:?\s*|^(speaker[\s_-]?\d+)\s*:\s*/i;
+
+function toSeconds(hours: string | undefined, minutes: string, seconds: string, millis: string): number {
+  const wholeHours = hours ? Number(hours.slice(0, -1)) : 0;
+  return wholeHours * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis.padEnd(3, "0")) / 1000;
+}
+
+/** Diarized cues label speakers as `SPEAKER_00`; people read them as `Speaker 1`. */
+function normalizeSpeaker(label: string): string {
+  const trimmed = label.trim().replace(/\s+/g, " ");
+  const numbered = /^speaker[\s_-]?(\d+)$/i.exec(trimmed);
+  if (!numbered) return trimmed;
+  const index = Number(numbered[1]);
+  // Diarizer labels (`SPEAKER_00`) count from zero; "Speaker 2" is already one-based.
+  const zeroBased = trimmed.includes("_") || numbered[1].startsWith("0");
+  return `Speaker ${zeroBased ? index + 1 : index}`;
+}
+
+function splitSpeaker(text: string): { speaker?: string; text: string } {
+  for (const pattern of [VOICE_TAG, SPEAKER_PREFIX]) {
+    const match = pattern.exec(text);
+    if (match) {
+      return {
+        speaker: normalizeSpeaker(match[1] ?? match[2]),
+        text: text.slice(match[0].length).replace(/<\/v>/gi, "").trim(),
+      };
+    }
+  }
+  return { text };
+}
+
+/**
+ * Reads SRT (or WebVTT) cues into segments. Only diarizer labels (`<v …>`,
+ * `[SPEAKER_00]`, `Speaker 2:`) become speakers, so bracketed sound cues like
+ * `[Music]:` stay part of the text.
+ */
+export function parseTranscriptCues(source: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = source.replace(/\r\n?/g, "\n").split(/\n\s*\n/);
+  for (const block of blocks) {
+    const lines = block.split("\n").map((line) => line.trim()).filter((line) => line.length > 0);
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    if (timingIndex === -1 || timingIndex > 1) continue;
+    const timing = CUE_TIMING.exec(lines[timingIndex])!;
+    const text = lines.slice(timingIndex + 1).join(" ").trim();
+    if (!text) continue;
+    segments.push({
+      start: toSeconds(timing[1], timing[2], timing[3], timing[4]),
+      end: toSeconds(timing[5], timing[6], timing[7], timing[8]),
+      ...splitSpeaker(text),
+    });
+  }
+  return segments;
+}
+
+function requireSegments(source: string): TranscriptSegment[] {
+  const segments = parseTranscriptCues(source);
+  if (segments.length === 0) {
+    throw new TranscriptFormatError("The transcript came back without timing cues, so it cannot be saved in this format.");
+  }
+  return segments;
+}
+
+const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+
+function formatCueTimestamp(totalSeconds: number): string {
+  const totalMillis = Math.max(0, Math.round(totalSeconds * 1000));
+  const hours = Math.floor(totalMillis / 3_600_000);
+  const minutes = Math.floor(totalMillis / 60_000) % 60;
+  const seconds = Math.floor(totalMillis / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(totalMillis % 1000, 3)}`;
+}
+
+function formatClock(totalSeconds: number): string {
+  const whole = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor(whole / 60) % 60;
+  const clock = `${pad(minutes)}:${pad(whole % 60)}`;
+  return hours > 0 ? `${hours}:${clock}` : clock;
+}
+
+function roundSeconds(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export function formatWebVtt(source: string): string {
+  const cues = requireSegments(source).map((segment, index) => [
+    String(index + 1),
+    `${formatCueTimestamp(segment.start)} --> ${formatCueTimestamp(segment.end)}`,
+    segment.speaker ? `<v ${segment.speaker}>${segment.text}` : segment.text,
+  ].join("\n"));
+  return `WEBVTT\n\n${cues.join("\n\n")}\n`;
+}
+
+/**
+ * Structured transcript for aligning with notes. The content is deterministic
+ * for a given transcript so a retried commit can find its earlier file.
+ */
+export function formatTranscriptJson(
+  source: string,
+  details: { sourcePath: string; language?: string },
+): string {
+  const segments = requireSegments(source);
+  const speakers = Array.from(new Set(segments.flatMap((segment) => segment.speaker ? [segment.speaker] : [])));
+  const document = {
+    schema: "systemsculpt-transcript-v1",
+    source: details.sourcePath,
+    language: details.language?.trim() || null,
+    duration: roundSeconds(Math.max(...segments.map((segment) => segment.end))),
+    speakers,
+    segments: segments.map((segment, index) => ({
+      id: index + 1,
+      start: roundSeconds(segment.start),
+      end: roundSeconds(segment.end),
+      ...(segment.speaker ? { speaker: segment.speaker } : {}),
+      text: segment.text,
+    })),
+  };
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+export function transcriptPlainText(source: string): string {
+  return requireSegments(source).map((segment) => segment.text).join(" ");
+}
+
+/**
+ * Markdown with one heading per speaker turn. Without diarization labels the
+ * cues become plain paragraphs, so the note still reads as a transcript.
+ */
+export function formatSpeakerMarkdown(source: string): string {
+  const segments = requireSegments(source);
+  if (!segments.some((segment) => segment.speaker)) {
+    return segments.map((segment) => segment.text).join(" ");
+  }
+  const turns: Array<{ speaker: string; start: number; texts: string[] }> = [];
+  for (const segment of segments) {
+    const speaker = segment.speaker ?? "Unknown speaker";
+    const previous = turns[turns.length - 1];
+    if (previous && previous.speaker === speaker) {
+      previous.texts.push(segment.text);
+    } else {
+      turns.push({ speaker, start: segment.start, texts: [segment.text] });
+    }
+  }
+  return turns
+    .map((turn) => `### ${turn.speaker} (${formatClock(turn.start)})\n${turn.texts.join(" ")}`)
+    .join("\n\n");
+}
@@ -26,6 +26,15 @@ import {
   verifyLocalCommitReceipt,
 } from "./LocalCommitReceipt";
 import type { TranscriptionInsertionValidator } from "./NoteInsertionTarget";
+import {
+  formatSpeakerMarkdown,
+  formatTranscriptJson,
+  formatWebVtt,
+  getTranscriptOutputExtension,
+  requiresTimestampedTranscript,
+  transcriptPlainText,
+  type TranscriptionOutputFormat,
+} from "./TranscriptFormats";
 import { TranscriptionTitleService } from "./TranscriptionTitleService";
 
 const MIME_TYPES: Readonly<Record<string, string>> = Object.freeze({
@@ -119,6 +128,8 @@ export interface TranscriptionRequest {
   targetEditor?: Editor | null;
   validateInsertionTarget?: TranscriptionInsertionValidator;
   timestamped?: boolean;
+  /** Output file format. Defaults to SRT when `timestamped`, Markdown otherwise. */
+  outputFormat?: TranscriptionOutputFormat;
   resumeOperationId?: string;
   /** Persist a replacement recovery ID before a completed-but-edited output is retried. */
   onOperationIdChange?: (operationId: string) => Promise<void> | void;
@@ -177,6 +188,15 @@ function isAbortError(error: unknown): boolean {
     && (error as { name?: unknown }).name === "AbortError";
 }
 
+function resolveOutputFormat(request: TranscriptionRequest): TranscriptionOutputFormat {
+  return request.outputFormat ?? (request.timestamped === true ? "srt" : "markdown");
+}
+
+/** Markdown-based outputs keep the note header, title, and origin insertion. */
+function isNoteOutputFormat(format: TranscriptionOutputFormat): boolean {
+  return format === "markdown" || format === "speakers";
+}
+
 function createOperationId(ownerWindow: Window): string {
   const random = ownerWindow.crypto?.randomUUID?.().replace(/-/g, "")
     ?? `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
@@ -344,14 +364,16 @@ export class TranscriptionCoordinator {
   public async start(request: TranscriptionRequest): Promise<TranscriptionResult> {
     const controller = this.createController(request.signal);
     const operationId = request.resumeOperationId ?? createOperationId(this.ownerWindow);
-    const outputPolicy = this.snapshotOutputPolicy(request);
+    const outputFormat = resolveOutputFormat(request);
+    const timestamped = requiresTimestampedTranscript(outputFormat);
+    const outputPolicy = this.snapshotOutputPolicy(request, outputFormat);
     const sourceIdentity = buildOpaqueSourceIdentity({
       callerScope: request.callerScope ?? "transcription/ui",
       destination: request.destination,
       logicalSource: request.logicalSource ?? request.filePath,
-      timestamped: request.timestamped === true,
+      timestamped,
       language: request.language,
-      recoveryVariant: this.buildRequestRecoveryVariant(request, outputPolicy),
+      recoveryVariant: this.buildRequestRecoveryVariant(request, outputPolicy, outputFormat),
     });
     this.activeOperationId = operationId;
     let retryOperationId = operationId;
@@ -378,7 +400,7 @@ export class TranscriptionCoordinator {
       this.assertTranscribableSize(file);
       const source = this.createManagedSource(file, controller.signal, sourceIdentity);
       const managedContext: ManagedTranscriptionContext = {
-        timestamped: request.timestamped,
+        ...(timestamped || request.timestamped !== undefined ? { timestamped } : {}),
         language: request.language,
         signal: controller.signal,
         maxAudioBytes: getTranscriptionMaxFileSize(),
@@ -432,7 +454,6 @@ export class TranscriptionCoordinator {
       }
       await adoptRemoteOperationId(remote.operationId);
       throwIfAborted(controller.signal);
-      const timestamped = request.timestamped === true;
       let recoveredOutput: RecoveredTranscriptionOutput | null = null;
       let recoveryWarning: string | undefined;
       if (remote.kind === "local_receipt") {
@@ -503,6 +524,7 @@ export class TranscriptionCoordinator {
           file,
           remote,
           request,
+          outputFormat,
           outputPolicy,
           report,
           controller.signal,
@@ -517,7 +539,7 @@ export class TranscriptionCoordinator {
       if (
         remote.kind === "transcript"
         && request.destination === "note"
-        && !timestamped
+        && isNoteOutputFormat(outputFormat)
         && outputPolicy.autoPasteAtOrigin
         && request.targetEditor
       ) {
@@ -658,8 +680,12 @@ export class TranscriptionCoordinator {
     }
   }
 
-  private snapshotOutputPolicy(request: TranscriptionRequest): TranscriptionOutputPolicy {
-    const postProcessingEnabled = request.timestamped !== true
+  private snapshotOutputPolicy(
+    request: TranscriptionRequest,
+    outputFormat: TranscriptionOutputFormat,
+  ): TranscriptionOutputPolicy {
+    // Cleanup rewrites prose, so it would break cue text and speaker turns.
+    const postProcessingEnabled = outputFormat === "markdown"
       && this.plugin.settings.postProcessingEnabled;
     const configuredPrompt = String(this.plugin.settings.postProcessingPrompt || "").trim();
     return Object.freeze({
@@ -676,9 +702,13 @@ export class TranscriptionCoordinator {
   private buildRequestRecoveryVariant(
     request: TranscriptionRequest,
     outputPolicy: TranscriptionOutputPolicy,
+    outputFormat: TranscriptionOutputFormat,
   ): string {
     return JSON.stringify({
       schema: "transcription-output-v2",
+      // Markdown and SRT predate per-format variants; leaving them out keeps
+      // their pending recoveries addressable after an update.
+      ...(outputFormat === "markdown" || outputFormat === "srt" ? {} : { outputFormat }),
       cleanOutput: outputPolicy.cleanOutput,
       postProcessingEnabled: outputPolicy.postProcessingEnabled,
       postProcessingPromptHash: outputPolicy.postProcessingEnabled
@@ -693,6 +723,7 @@ export class TranscriptionCoordinator {
     file: TFile,
     remote: Readonly<{ kind: "transcript"; operationId: string; text: string }>,
     request: TranscriptionRequest,
+    outputFormat: TranscriptionOutputFormat,
     outputPolicy: TranscriptionOutputPolicy,
     report: (phase: TranscriptionPhase, progress: number, message: string) => void,
     signal: AbortSignal,
@@ -702,7 +733,6 @@ export class TranscriptionCoordinator {
     outputPath: string;
     warning?: string;
   }>> {
-    const timestamped = request.timestamped === true;
     let processedText = remote.text;
     let warning: string | undefined;
     if (outputPolicy.postProcessingEnabled) {
@@ -718,26 +748,23 @@ export class TranscriptionCoordinator {
     }
     throwIfAborted(signal);
 
-    const finalText = timestamped
-      ? remote.text.trim()
-      : this.composeFinalText(
-        file,
-        remote.text,
-        processedText,
-        request.destination,
-        request.sourceOwnership,
-        outputPolicy,
-        outputPolicy.postProcessingEnabled && !warning,
-      );
-    const insertionText = timestamped ? finalText : processedText;
+    const { finalText, insertionText, titleSourceText } = this.renderTranscriptionOutput(
+      file,
+      remote.text,
+      processedText,
+      request,
+      outputFormat,
+      outputPolicy,
+      outputPolicy.postProcessingEnabled && !warning,
+    );
 
     await this.adapter().beginLocalCommit(remote.operationId, signal);
     throwIfAborted(signal);
     const planned = await this.planTranscriptionOutput(
       file,
       finalText,
-      processedText,
-      timestamped,
+      titleSourceText,
+      outputFormat,
       signal,
       remote.operationId,
       outputPolicy.cleanOutput,
@@ -758,6 +785,69 @@ export class TranscriptionCoordinator {
     };
   }
 
+  /**
+   * Builds the file content for the chosen format. Every format is rendered
+   * before the local commit begins, so a transcript that cannot be converted
+   * never leaves a receipt behind.
+   */
+  private renderTranscriptionOutput(
+    file: TFile,
+    rawText: string,
+    processedText: string,
+    request: TranscriptionRequest,
+    outputFormat: TranscriptionOutputFormat,
+    outputPolicy: TranscriptionOutputPolicy,
+    postProcessingApplied: boolean,
+  ): Readonly<{ finalText: string; insertionText: string; titleSourceText: string }> {
+    switch (outputFormat) {
+      case "srt": {
+        const finalText = rawText.trim();
+        return { finalText, insertionText: finalText, titleSourceText: finalText };
+      }
+      case "vtt": {
+        const finalText = formatWebVtt(rawText);
+        return { finalText, insertionText: finalText, titleSourceText: finalText };
+      }
+      case "json": {
+        const finalText = formatTranscriptJson(rawText, {
+          sourcePath: file.path,
+          language: request.language,
+        });
+        return { finalText, insertionText: finalText, titleSourceText: finalText };
+      }
+      case "speakers": {
+        const speakerText = formatSpeakerMarkdown(rawText);
+        return {
+          finalText: this.composeFinalText(
+            file,
+            speakerText,
+            speakerText,
+            request.destination,
+            request.sourceOwnership,
+            outputPolicy,
+            false,
+          ),
+          insertionText: speakerText,
+          titleSourceText: transcriptPlainText(rawText),
+        };
+      }
+      default:
+        return {
+          finalText: this.composeFinalText(
+            file,
+            rawText,
+            processedText,
+            request.destination,
+            request.sourceOwnership,
+            outputPolicy,
+            postProcessingApplied,
+          ),
+          insertionText: processedText,
+          titleSourceText: processedText,
+        };
+    }
+  }
+
   private composeFinalText(
     file: TFile,
     rawText: string,
@@ -807,7 +897,7 @@ export class TranscriptionCoordinator {
     file: TFile,
     content: string,
     titleSourceText: string,
-    timestamped: boolean,
+    outputFormat: TranscriptionOutputFormat,
     signal: AbortSignal,
     operationId: string,
     cleanOutput: boolean,
@@ -815,15 +905,16 @@ export class TranscriptionCoordinator {
     throwIfAborted(signal);
     const titleService = TranscriptionTitleService.getInstance(this.plugin);
     const folderPath = file.path.split("/").slice(0, -1).join("/");
-    const extension = timestamped ? "srt" : "md";
-    const fallbackBasename = timestamped
-      ? file.basename
-      : titleService.buildFallbackBasename(file.basename);
+    const noteOutput = isNoteOutputFormat(outputFormat);
+    const extension = getTranscriptOutputExtension(outputFormat);
+    const fallbackBasename = noteOutput
+      ? titleService.buildFallbackBasename(file.basename)
+      : file.basename;
     // Recovery markers are useful metadata for the rich transcript format, but
     // the clean-output contract must remain literal: only the processed text is
-    // written to the note. Clean Markdown and SRT recover by exact content
-    // matching instead.
-    const marker = timestamped || cleanOutput
+    // written to the note. Clean Markdown and the subtitle and JSON formats
+    // recover by exact content matching instead.
+    const marker = !noteOutput || cleanOutput
       ? null
       : `<!-- systemsculpt-transcription:${operationId} -->`;
     const storedContent = marker ? `${content.trimEnd()}\n\n${marker}\n` : content;
@@ -850,7 +941,7 @@ export class TranscriptionCoordinator {
         existing: true,
       };
     }
-    const predictedBasename = timestamped
+    const predictedBasename = !noteOutput
       ? fallbackBasename
       : await this.predictOutputBasename(titleService, file.basename, fallbackBasename, titleSourceText);
     const outputPath = this.findAvailableOutputPath(folderPath, predictedBasename, extension);
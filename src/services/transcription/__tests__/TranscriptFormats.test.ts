@@ -0,0 +1,110 @@
+import {
+  formatSpeakerMarkdown,
+  formatTranscriptJson,
+  formatWebVtt,
+  normalizeTranscriptionOutputFormat,
+  parseTranscriptCues,
+  TranscriptFormatError,
+} from "../TranscriptFormats";
+
+const DIARIZED_SRT = [
+  "1",
+  "00:00:01,000 --> 00:00:02,500",
+  "[SPEAKER_00]: Welcome back everyone.",
+  "",
+  "2",
+  "00:00:02,500 --> 00:00:04,000",
+  "[SPEAKER_00]: Let's start.",
+  "",
+  "3",
+  "00:01:05,250 --> 00:01:07,000",
+  "Speaker 2: Thanks for having me.",
+  "",
+].join("\n");
+
+describe("parseTranscriptCues", () => {
+  it("reads SRT cues with speaker labels", () => {
+    expect(parseTranscriptCues(DIARIZED_SRT)).toEqual([
+      { start: 1, end: 2.5, speaker: "Speaker 1", text: "Welcome back everyone." },
+      { start: 2.5, end: 4, speaker: "Speaker 1", text: "Let's start." },
+      { start: 65.25, end: 67, speaker: "Speaker 2", text: "Thanks for having me." },
+    ]);
+  });
+
+  it("leaves bracketed sound cues and unlabelled text alone", () => {
+    const [cue] = parseTranscriptCues("1\r\n00:00:00,000 --> 00:00:01,000\r\n[Music] plays softly\r\n");
+
+    expect(cue).toEqual({ start: 0, end: 1, text: "[Music] plays softly" });
+  });
+
+  it("does not read a bracketed sound cue before a colon as a speaker", () => {
+    const [cue] = parseTranscriptCues("1\n00:00:00,000 --> 00:00:01,000\n[Music]: soft piano\n");
+
+    expect(cue).toEqual({ start: 0, end: 1, text: "[Music]: soft piano" });
+  });
+});
+
+describe("transcript formats", () => {
+  it("writes WebVTT with voice tags", () => {
+    expect(formatWebVtt(DIARIZED_SRT)).toBe([
+      "WEBVTT",
+      "",
+      "1",
+      "00:00:01.000 --> 00:00:02.500",
+      "<v Speaker 1>Welcome back everyone.",
+      "",
+      "2",
+      "00:00:02.500 --> 00:00:04.000",
+      "<v Speaker 1>Let's start.",
+      "",
+      "3",
+      "00:01:05.250 --> 00:01:07.000",
+      "<v Speaker 2>Thanks for having me.",
+      "",
+    ].join("\n"));
+  });
+
+  it("writes JSON segments with their cue timings", () => {
+    const parsed = JSON.parse(formatTranscriptJson(DIARIZED_SRT, { sourcePath: "Audio/talk.m4a", language: "en" }));
+
+    expect(parsed).toMatchObject({
+      schema: "systemsculpt-transcript-v1",
+      source: "Audio/talk.m4a",
+      language: "en",
+      duration: 67,
+      speakers: ["Speaker 1", "Speaker 2"],
+    });
+    expect(parsed.segments[1]).toEqual({
+      id: 2,
+      start: 2.5,
+      end: 4,
+      speaker: "Speaker 1",
+      text: "Let's start.",
+    });
+  });
+
+  it("groups consecutive cues into one heading per speaker turn", () => {
+    expect(formatSpeakerMarkdown(DIARIZED_SRT)).toBe([
+      "### Speaker 1 (00:01)",
+      "Welcome back everyone. Let's start.",
+      "",
+      "### Speaker 2 (01:05)",
+      "Thanks for having me.",
+    ].join("\n"));
+  });
+
+  it("falls back to plain text when no speakers are labelled", () => {
+    const srt = "1\n00:00:00,000 --> 00:00:01,000\nHello\n\n2\n00:00:01,000 --> 00:00:02,000\nthere";
+
+    expect(formatSpeakerMarkdown(srt)).toBe("Hello there");
+  });
+
+  it("rejects transcripts without timing cues", () => {
+    expect(() => formatWebVtt("just some text")).toThrow(TranscriptFormatError);
+  });
+
+  it("normalizes unknown stored formats to Markdown", () => {
+    expect(normalizeTranscriptionOutputFormat("vtt")).toBe("vtt");
+    expect(normalizeTranscriptionOutputFormat("docx")).toBe("markdown");
+  });
+});
@@ -254,6 +254,118 @@ describe("TranscriptionCoordinator", () => {
     expect(result.insertedIntoOrigin).toBe(false);
   });
 
+  it("commits WebVTT built from the timestamped transcript under one receipt", async () => {
+    const { adapter, app, coordinator, events } = harness({ autoPaste: true, postProcess: true });
+    adapter.transcribe.mockResolvedValueOnce({
+      kind: "transcript",
+      operationId: "transcription-op-1",
+      text: "1\n00:00:00,000 --> 00:00:01,500\n[SPEAKER_00]: Hello there\n",
+    });
+    const targetEditor = { replaceSelection: jest.fn() } as any;
+
+    const result = await coordinator.start({
+      filePath: "Recordings/demo.webm",
+      destination: "note",
+      targetEditor,
+      outputFormat: "vtt",
+    });
+
+    expect(adapter.transcribe).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ timestamped: true }),
+    );
+    expect(events).toEqual([
+      "commit:begin",
+      "commit:receipt",
+      "write:Recordings/demo.vtt",
+      "commit:complete",
+    ]);
+    expect(app.vault.create).toHaveBeenCalledWith(
+      "Recordings/demo.vtt",
+      "WEBVTT\n\n1\n00:00:00.000 --> 00:00:01.500\n<v Speaker 1>Hello there\n",
+    );
+    expect(adapter.recordLocalCommitReceipt).toHaveBeenCalledWith(
+      "transcription-op-1",
+      createLocalCommitReceipt("Recordings/demo.vtt", (app.vault.create as jest.Mock).mock.calls[0][1], null),
+      expect.anything(),
+    );
+    expect(mockProcessTranscription).not.toHaveBeenCalled();
+    expect(targetEditor.replaceSelection).not.toHaveBeenCalled();
+    expect(result.outputPath).toBe("Recordings/demo.vtt");
+  });
+
+  it("writes JSON segments next to the audio without inserting them", async () => {
+    const { adapter, app, coordinator } = harness();
+    adapter.transcribe.mockResolvedValueOnce({
+      kind: "transcript",
+      operationId: "transcription-op-1",
+      text: "1\n00:00:00,000 --> 00:00:02,000\nHello world\n",
+    });
+
+    const result = await coordinator.start({
+      filePath: "Recordings/demo.webm",
+      destination: "note",
+      language: "en",
+      outputFormat: "json",
+    });
+
+    const written = JSON.parse((app.vault.create as jest.Mock).mock.calls[0][1]);
+    expect(result.outputPath).toBe("Recordings/demo.json");
+    expect(written).toMatchObject({
+      source: "Recordings/demo.webm",
+      language: "en",
+      segments: [{ id: 1, start: 0, end: 2, text: "Hello world" }],
+    });
+  });
+
+  it("saves and inserts speaker-headed Markdown without cleanup", async () => {
+    const { adapter, app, coordinator } = harness({ autoPaste: true, postProcess: true, clean: false });
+    adapter.transcribe.mockResolvedValueOnce({
+      kind: "transcript",
+      operationId: "transcription-op-1",
+      text: [
+        "1", "00:00:00,000 --> 00:00:01,000", "[SPEAKER_00]: Hi.", "",
+        "2", "00:00:01,000 --> 00:00:02,000", "[SPEAKER_01]: Hello.", "",
+      ].join("\n"),
+    });
+    const targetEditor = { replaceSelection: jest.fn() } as any;
+
+    const result = await coordinator.start({
+      filePath: "Recordings/demo.webm",
+      destination: "note",
+      targetEditor,
+      validateInsertionTarget: () => true,
+      outputFormat: "speakers",
+    });
+
+    const stored = (app.vault.create as jest.Mock).mock.calls[0][1] as string;
+    expect(result.outputPath).toBe("Recordings/demo - transcript.md");
+    expect(stored).toContain("## Transcript\n### Speaker 1 (00:00)\nHi.\n\n### Speaker 2 (00:01)\nHello.");
+    expect(stored).toContain("<!-- systemsculpt-transcription:transcription-op-1 -->");
+    expect(mockProcessTranscription).not.toHaveBeenCalled();
+    expect(targetEditor.replaceSelection).toHaveBeenCalledWith(
+      "### Speaker 1 (00:00)\nHi.\n\n### Speaker 2 (00:01)\nHello.",
+    );
+    expect(result.insertedIntoOrigin).toBe(true);
+  });
+
+  it("keeps SRT recovery identities stable while separating the new formats", async () => {
+    const identities: string[] = [];
+    for (const request of [{ timestamped: true }, { outputFormat: "srt" as const }, { outputFormat: "vtt" as const }]) {
+      const { adapter, coordinator } = harness();
+      adapter.transcribe.mockResolvedValueOnce({
+        kind: "transcript",
+        operationId: "transcription-op-1",
+        text: "1\n00:00:00,000 --> 00:00:01,000\nHello\n",
+      });
+      await coordinator.start({ filePath: "Recordings/demo.webm", destination: "note", ...request });
+      identities.push((adapter.transcribe.mock.calls[0][0] as unknown as { identity: string }).identity);
+    }
+
+    expect(identities[1]).toBe(identities[0]);
+    expect(identities[2]).not.toBe(identities[0]);
+  });
+
   it("fences every local write after explicit abort", async () => {
     const { adapter, app, coordinator } = harness();
     let release!: () => void;
@@ -0,0 +1,259 @@
+import YAML from "yaml";
+import { App, TFile, normalizePath } from "obsidian";
+import type {
+  WorkflowCondition,
+  WorkflowConditionType,
+  WorkflowDefinition,
+  WorkflowStep,
+  WorkflowStepType,
+  WorkflowTrigger,
+  WorkflowTriggerType,
+} from "../../types/workflows";
+
+const TRIGGER_TYPES: readonly WorkflowTriggerType[] = ["folder", "tag", "command"];
+const CONDITION_TYPES: readonly WorkflowConditionType[] = ["folderRegex", "tag", "frontmatter"];
+const STEP_TYPES: readonly WorkflowStepType[] = [
+  "route-note",
+  "ai-preset",
+  "write-note",
+  "extract-tasks",
+  "push-tasks",
+  "add-backlinks",
+];
+const ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+export type WorkflowDefinitionProblem = Readonly<{
+  path: string;
+  message: string;
+}>;
+
+export type WorkflowDefinitionLoadResult = Readonly<{
+  definitions: readonly WorkflowDefinition[];
+  problems: readonly WorkflowDefinitionProblem[];
+}>;
+
+export type WorkflowDefinitionParseResult =
+  | Readonly<{ ok: true; definition: WorkflowDefinition }>
+  | Readonly<{ ok: false; message: string }>;
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function readText(value: unknown): string | null {
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+}
+
+function slugify(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "workflow";
+}
+
+function extractFrontmatter(content: string): string | null {
+  const normalizedStart = content.startsWith("\uFEFF") ? content.slice(1) : content;
+  const match = normalizedStart.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+  return match ? match[1] : null;
+}
+
+function parseTrigger(value: unknown): WorkflowTrigger | string {
+  if (!isRecord(value)) return "Workflow trigger must be an object with a type and value.";
+  const type = value.type as WorkflowTriggerType;
+  if (!TRIGGER_TYPES.includes(type)) {
+    return `Workflow trigger type must be one of: ${TRIGGER_TYPES.join(", ")}.`;
+  }
+  const triggerValue = readText(value.value);
+  if (!triggerValue) return "Workflow trigger requires a value.";
+  const description = readText(value.description);
+  return { type, value: triggerValue, ...(description ? { description } : {}) };
+}
+
+function parseCondition(value: unknown, index: number): WorkflowCondition | string {
+  if (!isRecord(value)) return `Condition ${index + 1} must be an object with a type and value.`;
+  const type = value.type as WorkflowConditionType;
+  if (!CONDITION_TYPES.includes(type)) {
+    return `Condition ${index + 1} type must be one of: ${CONDITION_TYPES.join(", ")}.`;
+  }
+  const conditionValue = readText(value.value);
+  if (!conditionValue) return `Condition ${index + 1} requires a value.`;
+  if (type === "folderRegex") {
+    try {
+      new RegExp(conditionValue);
+    } catch {
+      return `Condition ${index + 1} is not a valid regular expression.`;
+    }
+  }
+  const description = readText(value.description);
+  return { type, value: conditionValue, ...(description ? { description } : {}) };
+}
+
+function parseStep(value: unknown, index: number): WorkflowStep | string {
+  if (!isRecord(value)) return `Step ${index + 1} must be an object with a type.`;
+  const type = value.type as WorkflowStepType;
+  if (!STEP_TYPES.includes(type)) {
+    return `Step ${index + 1} type must be one of: ${STEP_TYPES.join(", ")}.`;
+  }
+  const id = readText(value.id) ?? `step-${index + 1}`;
+  if (!ID_PATTERN.test(id)) {
+    return `Step ${index + 1} id may only contain letters, numbers, dots, dashes, and underscores.`;
+  }
+  if (value.config !== undefined && !isRecord(value.config)) {
+    return `Step ${index + 1} config must be an object.`;
+  }
+  return {
+    id,
+    type,
+    label: readText(value.label) ?? type,
+    ...(isRecord(value.config) ? { config: { ...value.config } } : {}),
+  };
+}
+
+/**
+ * Validate a raw definition object. Unknown keys are ignored so definition
+ * notes can keep ordinary Obsidian properties such as tags or aliases.
+ */
+export function normalizeWorkflowDefinition(
+  raw: unknown,
+  fallbackId: string,
+): WorkflowDefinitionParseResult {
+  if (!isRecord(raw)) {
+    return { ok: false, message: "Workflow definition must be a YAML object." };
+  }
+
+  const id = readText(raw.id) ?? slugify(fallbackId);
+  if (!ID_PATTERN.test(id)) {
+    return {
+      ok: false,
+      message: "Workflow id may only contain letters, numbers, dots, dashes, and underscores.",
+    };
+  }
+
+  const trigger = parseTrigger(raw.trigger);
+  if (typeof trigger === "string") return { ok: false, message: trigger };
+
+  const conditions: WorkflowCondition[] = [];
+  if (raw.conditions !== undefined) {
+    if (!Array.isArray(raw.conditions)) {
+      return { ok: false, message: "Workflow conditions must be a list." };
+    }
+    for (const [index, item] of raw.conditions.entries()) {
+      const condition = parseCondition(item, index);
+      if (typeof condition === "string") return { ok: false, message: condition };
+      conditions.push(condition);
+    }
+  }
+
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    return { ok: false, message: "Workflow requires at least one step." };
+  }
+  const steps: WorkflowStep[] = [];
+  const stepIds = new Set<string>();
+  for (const [index, item] of raw.steps.entries()) {
+    const step = parseStep(item, index);
+    if (typeof step === "string") return { ok: false, message: step };
+    if (stepIds.has(step.id)) {
+      return { ok: false, message: `Step id "${step.id}" is used more than once.` };
+    }
+    stepIds.add(step.id);
+    steps.push(step);
+  }
+
+  const description = readText(raw.description);
+  return {
+    ok: true,
+    definition: {
+      id,
+      name: readText(raw.name) ?? fallbackId,
+      trigger,
+      ...(conditions.length > 0 ? { conditions } : {}),
+      steps,
+      ...(description ? { description } : {}),
+    },
+  };
+}
+
+/** Parse the YAML frontmatter of a definition note. */
+export function parseWorkflowDefinitionNote(
+  content: string,
+  fallbackId: string,
+): WorkflowDefinitionParseResult {
+  const yamlContent = extractFrontmatter(content);
+  if (yamlContent === null) {
+    return { ok: false, message: "Workflow note has no frontmatter." };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(yamlContent);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message.split("\n")[0] : String(error);
+    return { ok: false, message: `Workflow frontmatter is not valid YAML: ${detail}` };
+  }
+  return normalizeWorkflowDefinition(parsed, fallbackId);
+}
+
+export function isWorkflowDefinitionPath(filePath: string, folderPath: string | undefined): boolean {
+  const folder = normalizePath(folderPath ?? "").replace(/\/+$/, "");
+  if (!folder) return false;
+  const normalizedFile = normalizePath(filePath);
+  return normalizedFile.startsWith(`${folder}/`) && normalizedFile.toLowerCase().endsWith(".md");
+}
+
+/**
+ * Load every workflow note under `folderPath`. Invalid notes are reported as
+ * problems instead of failing the whole load, and the first note to claim an
+ * id wins so a duplicated file cannot silently replace a working workflow.
+ */
+export async function loadWorkflowDefinitions(
+  app: App,
+  folderPath: string,
+): Promise<WorkflowDefinitionLoadResult> {
+  const files = app.vault
+    .getFiles()
+    .filter((file): file is TFile => isWorkflowDefinitionPath(file.path, folderPath))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const definitions: WorkflowDefinition[] = [];
+  const problems: WorkflowDefinitionProblem[] = [];
+  const seenIds = new Map<string, string>();
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await app.vault.read(file);
+    } catch (error) {
+      problems.push({
+        path: file.path,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    const result = parseWorkflowDefinitionNote(content, file.basename);
+    if (!result.ok) {
+      problems.push({ path: file.path, message: result.message });
+      continue;
+    }
+
+    const existingPath = seenIds.get(result.definition.id);
+    if (existingPath) {
+      problems.push({
+        path: file.path,
+        message: `Workflow id "${result.definition.id}" is already defined in ${existingPath}.`,
+      });
+      continue;
+    }
+
+    seenIds.set(result.definition.id, file.path);
+    definitions.push(result.definition);
+  }
+
+  return { definitions, problems };
+}
@@ -5,6 +5,7 @@ import {
   WorkflowSkipEntry,
   createDefaultWorkflowEngineSettings,
 } from "../../types";
+import type { WorkflowDefinition, WorkflowRunRecord } from "../../types/workflows";
 import { TranscriptionService } from "../TranscriptionService";
 import {
   BulkTranscriptionConfirmModal,
@@ -16,16 +17,42 @@ import {
   createLocalCommitReceipt,
   verifyLocalCommitReceipt,
 } from "../transcription/LocalCommitReceipt";
+import {
+  type WorkflowDefinitionLoadResult,
+  isWorkflowDefinitionPath,
+  loadWorkflowDefinitions,
+} from "./WorkflowDefinitionLoader";
+import {
+  type WorkflowFileEvent,
+  hasWorkflowProcessedMarker,
+  matchesWorkflowDefinition,
+  matchesWorkflowTrigger,
+  readWorkflowFileFacts,
+} from "./WorkflowMatcher";
+import { WorkflowStepRunner } from "./WorkflowStepRunner";
 
 const DEBOUNCE_MS = 800;
 const BULK_THRESHOLD = 3;
 const BATCH_SIZE = 3;
 const INTER_BATCH_DELAY_MS = 1000;
+const MAX_RECENT_WORKFLOW_RUNS = 50;
 
 interface PendingFileEvent {
   file: TFile;
 }
 
+interface PendingWorkflowRun {
+  definition: WorkflowDefinition;
+  file: TFile;
+  event: WorkflowFileEvent;
+}
+
+function createWorkflowRunId(definitionId: string): string {
+  const random = window.crypto?.randomUUID?.().replace(/-/g, "").slice(0, 16)
+    ?? `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+  return `${definitionId}.${random}`;
+}
+
 export class WorkflowEngineService {
   private readonly plugin: SystemSculptPlugin;
   private readonly app: App;
@@ -37,6 +64,16 @@ export class WorkflowEngineService {
   private abortController: AbortController | null = null;
   private stopRequested = false;
   private stopReason: { type: "user" | "error"; error?: unknown } | null = null;
+  private definitionsCache: { folder: string; result: Promise<WorkflowDefinitionLoadResult> } | null = null;
+  private reportedDefinitionProblems = "";
+  private pendingWorkflowRuns: PendingWorkflowRun[] = [];
+  private workflowDebounceTimer: number | null = null;
+  private isRunningWorkflows = false;
+  private workflowAbortController: AbortController | null = null;
+  private readonly activeWorkflowRuns: Array<{ definitionId: string; file: TFile }> = [];
+  private readonly completedWorkflowRuns = new Set<string>();
+  private recentWorkflowRuns: WorkflowRunRecord[] = [];
+  private stepRunner: WorkflowStepRunner | null = null;
 
   constructor(plugin: SystemSculptPlugin) {
     this.plugin = plugin;
@@ -48,13 +85,30 @@ export class WorkflowEngineService {
 
     this.plugin.registerEvent(
       this.app.vault.on("create", (file) => {
-        void this.handleFileEvent(file);
+        void this.handleFileEvent(file, "created");
+      })
+    );
+
+    this.plugin.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        if (isWorkflowDefinitionPath(oldPath, this.getWorkflowSettings().definitionsFolder)) {
+          this.invalidateDefinitions();
+        }
+        void this.handleFileEvent(file, "moved");
       })
     );
 
     this.plugin.registerEvent(
-      this.app.vault.on("rename", (file, _oldPath) => {
-        void this.handleFileEvent(file);
+      this.app.vault.on("delete", (file) => {
+        if (isWorkflowDefinitionPath(file.path, this.getWorkflowSettings().definitionsFolder)) {
+          this.invalidateDefinitions();
+        }
+      })
+    );
+
+    this.plugin.registerEvent(
+      this.app.metadataCache.on("changed", (file) => {
+        void this.handleFileEvent(file, "changed");
       })
     );
   }
@@ -64,11 +118,42 @@ export class WorkflowEngineService {
     this.requestStop({ type: "user" });
     this.clearDebounceTimer();
     this.pendingFiles = [];
+    if (this.workflowDebounceTimer !== null) {
+      window.clearTimeout(this.workflowDebounceTimer);
+      this.workflowDebounceTimer = null;
+    }
+    this.pendingWorkflowRuns = [];
+    this.workflowAbortController?.abort();
+    this.workflowAbortController = null;
+    this.definitionsCache = null;
     this.progressWidget?.close();
     this.progressWidget = null;
     this.abortController = null;
   }
 
+  /** Recent user-defined workflow runs with their per-step logs, newest first. */
+  getRecentWorkflowRuns(): readonly WorkflowRunRecord[] {
+    return [...this.recentWorkflowRuns].reverse();
+  }
+
+  async getCommandWorkflows(): Promise<WorkflowDefinition[]> {
+    const { definitions } = await this.getDefinitions(this.getWorkflowSettings());
+    return definitions.filter((definition) => definition.trigger.type === "command");
+  }
+
+  /**
+   * Run a command-triggered workflow against `file` now. Manual runs bypass
+   * the skip list so a person can retry a workflow that failed earlier.
+   */
+  async runCommandWorkflow(definitionId: string, file: TFile): Promise<WorkflowRunRecord | null> {
+    const definitions = await this.getCommandWorkflows();
+    const definition = definitions.find((candidate) => candidate.id === definitionId);
+    if (!definition) {
+      throw new Error(`No command workflow named "${definitionId}" was found.`);
+    }
+    return await this.runWorkflow({ definition, file, event: "command" });
+  }
+
   private clearDebounceTimer(): void {
     if (this.debounceTimer !== null) {
       window.clearTimeout(this.debounceTimer);
@@ -85,6 +170,10 @@ export class WorkflowEngineService {
     return `transcription::default::${filePath}`;
   }
 
+  private buildWorkflowSkipKey(workflowId: string, filePath: string): string {
+    return `workflow::${workflowId}::${filePath}`;
+  }
+
   private getSkipMap(settings: WorkflowEngineSettings): Record<string, WorkflowSkipEntry> {
     return settings.skippedFiles ?? {};
   }
@@ -101,22 +190,30 @@ export class WorkflowEngineService {
     files: PendingFileEvent[],
     reason: string
   ): Promise<number> {
-    if (files.length === 0) return 0;
+    const timestamp = new Date().toISOString();
+    return await this.persistSkipEntries(files.map((pending) => ({
+      key: this.buildSkipKey(pending.file.path),
+      entry: {
+        path: pending.file.path,
+        type: "transcription",
+        skippedAt: timestamp,
+        reason,
+      },
+    })));
+  }
+
+  private async persistSkipEntries(
+    entries: Array<{ key: string; entry: WorkflowSkipEntry }>
+  ): Promise<number> {
+    if (entries.length === 0) return 0;
     const settings = this.getWorkflowSettings();
     const existing = this.getSkipMap(settings);
     const updated: Record<string, WorkflowSkipEntry> = { ...existing };
-    const timestamp = new Date().toISOString();
     let added = 0;
 
-    for (const pending of files) {
-      const key = this.buildSkipKey(pending.file.path);
+    for (const { key, entry } of entries) {
       if (updated[key]) continue;
-      updated[key] = {
-        path: pending.file.path,
-        type: "transcription",
-        skippedAt: timestamp,
-        reason,
-      };
+      updated[key] = entry;
       added += 1;
     }
 
@@ -211,16 +308,32 @@ export class WorkflowEngineService {
     };
   }
 
-  private async handleFileEvent(file: TAbstractFile): Promise<void> {
+  private async handleFileEvent(
+    file: TAbstractFile,
+    event: WorkflowFileEvent = "created"
+  ): Promise<void> {
     if (this.disposed || !(file instanceof TFile)) {
       return;
     }
 
     const settings = this.getWorkflowSettings();
+    if (isWorkflowDefinitionPath(file.path, settings.definitionsFolder)) {
+      this.invalidateDefinitions();
+      return;
+    }
     if (!this.isEngineActive(settings)) {
       return;
     }
 
+    if (event !== "changed") {
+      this.queueTranscription(file, settings);
+    }
+    if (settings.enabled) {
+      await this.queueWorkflowRuns(file, event, settings);
+    }
+  }
+
+  private queueTranscription(file: TFile, settings: WorkflowEngineSettings): void {
     const pending = this.classifyFile(file, settings);
     if (!pending) {
       return;
@@ -257,6 +370,222 @@ export class WorkflowEngineService {
     return null;
   }
 
+  private invalidateDefinitions(): void {
+    this.definitionsCache = null;
+  }
+
+  private getDefinitions(settings: WorkflowEngineSettings): Promise<WorkflowDefinitionLoadResult> {
+    const folder = settings.definitionsFolder;
+    if (!this.definitionsCache || this.definitionsCache.folder !== folder) {
+      const result = loadWorkflowDefinitions(this.app, folder).then((loaded) => {
+        this.reportDefinitionProblems(loaded);
+        return loaded;
+      });
+      this.definitionsCache = { folder, result };
+    }
+    return this.definitionsCache.result;
+  }
+
+  private reportDefinitionProblems(result: WorkflowDefinitionLoadResult): void {
+    const signature = result.problems.map((problem) => `${problem.path}:${problem.message}`).join("\n");
+    if (signature === this.reportedDefinitionProblems) return;
+    this.reportedDefinitionProblems = signature;
+    if (result.problems.length === 0) return;
+
+    this.plugin.getLogger().warn("Some workflow definitions could not be loaded", {
+      source: "WorkflowEngineService",
+      metadata: { problems: result.problems },
+    });
+    const first = result.problems[0];
+    const more = result.problems.length > 1 ? ` (+${result.problems.length - 1} more)` : "";
+    new Notice(`Workflow ${first.path} was not loaded: ${first.message}${more}`, 8000);
+  }
+
+  private async queueWorkflowRuns(
+    file: TFile,
+    event: WorkflowFileEvent,
+    settings: WorkflowEngineSettings
+  ): Promise<void> {
+    const { definitions } = await this.getDefinitions(settings);
+    if (this.disposed || definitions.length === 0) {
+      return;
+    }
+
+    const facts = readWorkflowFileFacts(this.app, file);
+    let queued = false;
+    for (const definition of definitions) {
+      // Folder triggers fire on create, before the metadata cache has parsed the
+      // note, so conditions are checked again with fresh facts when the run starts.
+      const matches = event === "changed"
+        ? matchesWorkflowDefinition(definition, event, facts)
+        : matchesWorkflowTrigger(definition.trigger, event, facts);
+      if (!matches || this.isWorkflowRunBlocked(definition.id, file, settings)) {
+        continue;
+      }
+      if (hasWorkflowProcessedMarker(facts, definition.id)) {
+        continue;
+      }
+      this.pendingWorkflowRuns.push({ definition, file, event });
+      queued = true;
+    }
+
+    if (!queued) {
+      return;
+    }
+    if (this.workflowDebounceTimer !== null) {
+      window.clearTimeout(this.workflowDebounceTimer);
+    }
+    this.workflowDebounceTimer = window.setTimeout(() => {
+      this.workflowDebounceTimer = null;
+      void this.flushWorkflowRuns();
+    }, DEBOUNCE_MS);
+  }
+
+  private isWorkflowRunBlocked(
+    definitionId: string,
+    file: TFile,
+    settings: WorkflowEngineSettings
+  ): boolean {
+    const key = this.buildWorkflowSkipKey(definitionId, file.path);
+    return Boolean(this.getSkipMap(settings)[key])
+      || this.completedWorkflowRuns.has(key)
+      || this.activeWorkflowRuns.some((run) => run.definitionId === definitionId && run.file === file)
+      || this.pendingWorkflowRuns.some((run) => run.definition.id === definitionId && run.file === file);
+  }
+
+  private async flushWorkflowRuns(): Promise<void> {
+    if (this.disposed || this.isRunningWorkflows) {
+      return;
+    }
+
+    this.isRunningWorkflows = true;
+    try {
+      while (!this.disposed && this.pendingWorkflowRuns.length > 0) {
+        const pending = this.pendingWorkflowRuns.shift();
+        if (pending) {
+          await this.runWorkflow(pending);
+        }
+      }
+    } finally {
+      this.isRunningWorkflows = false;
+    }
+  }
+
+  private async runWorkflow(pending: PendingWorkflowRun): Promise<WorkflowRunRecord | null> {
+    const { definition, file, event } = pending;
+    const logger = this.plugin.getLogger();
+    if (event !== "command") {
+      const facts = readWorkflowFileFacts(this.app, file);
+      if (!matchesWorkflowDefinition(definition, event, facts) || hasWorkflowProcessedMarker(facts, definition.id)) {
+        logger.debug("Workflow conditions no longer match", {
+          source: "WorkflowEngineService",
+          metadata: { workflowId: definition.id, file: file.path },
+        });
+        return null;
+      }
+    }
+
+    const sourcePath = file.path;
+    const activeRun = { definitionId: definition.id, file };
+    const controller = new AbortController();
+    this.activeWorkflowRuns.push(activeRun);
+    this.workflowAbortController = controller;
+
+    try {
+      const record = await this.getStepRunner().run(definition, file, {
+        runId: createWorkflowRunId(definition.id),
+        signal: controller.signal,
+        onStepComplete: (log) => {
+          logger.debug("Workflow step finished", {
+            source: "WorkflowEngineService",
+            metadata: { workflowId: definition.id, file: sourcePath, ...log },
+          });
+        },
+      });
+      this.recordWorkflowRun(record);
+
+      if (record.status === "completed") {
+        this.completedWorkflowRuns.add(this.buildWorkflowSkipKey(definition.id, sourcePath));
+        this.completedWorkflowRuns.add(this.buildWorkflowSkipKey(definition.id, file.path));
+        await this.markWorkflowProcessed(file, definition.id);
+        new Notice(`Workflow "${definition.name}" finished for ${file.name}.`);
+      } else if (record.status === "failed" && !this.disposed) {
+        const failedStep = record.steps.find((step) => step.status === "failed");
+        const reason = failedStep?.message ?? "Workflow step failed.";
+        if (event !== "command") {
+          await this.persistSkipEntries([{
+            key: this.buildWorkflowSkipKey(definition.id, sourcePath),
+            entry: {
+              path: sourcePath,
+              type: "workflow",
+              workflowId: definition.id,
+              skippedAt: new Date().toISOString(),
+              reason: `step_failed: ${reason}`,
+            },
+          }]);
+        }
+        new Notice(
+          `Workflow "${definition.name}" stopped on ${file.name}: ${reason}${event === "command" ? "" : " You can clear skips in Settings -> Workflow."}`,
+          8000
+        );
+      }
+      return record;
+    } finally {
+      const index = this.activeWorkflowRuns.indexOf(activeRun);
+      if (index >= 0) this.activeWorkflowRuns.splice(index, 1);
+      if (this.workflowAbortController === controller) {
+        this.workflowAbortController = null;
+      }
+    }
+  }
+
+  private recordWorkflowRun(record: WorkflowRunRecord): void {
+    this.recentWorkflowRuns.push(record);
+    if (this.recentWorkflowRuns.length > MAX_RECENT_WORKFLOW_RUNS) {
+      this.recentWorkflowRuns = this.recentWorkflowRuns.slice(-MAX_RECENT_WORKFLOW_RUNS);
+    }
+    const logger = this.plugin.getLogger();
+    const metadata = {
+      workflowId: record.workflowId,
+      file: record.filePath,
+      status: record.status,
+      steps: record.steps,
+    };
+    if (record.status === "failed") {
+      logger.warn("Workflow run failed", { source: "WorkflowEngineService", metadata });
+    } else {
+      logger.info("Workflow run finished", { source: "WorkflowEngineService", metadata });
+    }
+  }
+
+  private async markWorkflowProcessed(file: TFile, workflowId: string): Promise<void> {
+    if (file.extension !== "md") {
+      return;
+    }
+    await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+      const existing = frontmatter.workflow_processed_by;
+      const processedBy = Array.isArray(existing)
+        ? existing.filter((value): value is string => typeof value === "string")
+        : typeof existing === "string" && existing ? [existing] : [];
+      if (!processedBy.includes(workflowId)) {
+        processedBy.push(workflowId);
+      }
+      frontmatter.workflow_processed_by = processedBy;
+      frontmatter.workflow_processed_at = new Date().toISOString();
+    });
+  }
+
+  private getStepRunner(): WorkflowStepRunner {
+    if (!this.stepRunner) {
+      this.stepRunner = new WorkflowStepRunner({
+        app: this.app,
+        generateText: (operation) => this.plugin.getManagedCapabilityClient().generateText(operation),
+        delay: (ms) => this.delay(ms),
+      });
+    }
+    return this.stepRunner;
+  }
+
   private async flushPendingFiles(): Promise<void> {
     if (this.disposed || this.isProcessingBulk || this.pendingFiles.length === 0) {
       return;
@@ -0,0 +1,139 @@
+import { App, TFile, normalizePath } from "obsidian";
+import type {
+  WorkflowCondition,
+  WorkflowDefinition,
+  WorkflowTrigger,
+} from "../../types/workflows";
+
+/**
+ * Vault events the workflow engine reacts to. `command` is a manual run from
+ * the command palette and only matches command-triggered workflows.
+ */
+export type WorkflowFileEvent = "created" | "moved" | "changed" | "command";
+
+export type WorkflowFileFacts = Readonly<{
+  path: string;
+  tags: readonly string[];
+  frontmatter: Readonly<Record<string, unknown>> | null;
+}>;
+
+export function normalizeWorkflowTag(tag: string): string {
+  return tag.trim().replace(/^#+/, "").toLowerCase();
+}
+
+function collectFrontmatterTags(value: unknown): string[] {
+  if (typeof value === "string") {
+    return value.split(/[,\s]+/).filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === "string");
+  }
+  return [];
+}
+
+export function readWorkflowFileFacts(app: App, file: TFile): WorkflowFileFacts {
+  const cache = app.metadataCache.getFileCache(file);
+  const frontmatter = cache?.frontmatter ?? null;
+  const tags = new Set<string>();
+  for (const tag of collectFrontmatterTags(frontmatter?.tags ?? frontmatter?.tag)) {
+    const normalized = normalizeWorkflowTag(tag);
+    if (normalized) tags.add(normalized);
+  }
+  for (const entry of cache?.tags ?? []) {
+    const normalized = normalizeWorkflowTag(entry.tag);
+    if (normalized) tags.add(normalized);
+  }
+  return { path: file.path, tags: Array.from(tags), frontmatter };
+}
+
+export function isPathInWorkflowFolder(filePath: string, folderPath: string): boolean {
+  const normalizedFolder = normalizePath(folderPath).replace(/^\/+|\/+$/g, "");
+  if (!normalizedFolder) return false;
+  const normalizedFile = normalizePath(filePath);
+  return normalizedFile === normalizedFolder || normalizedFile.startsWith(`${normalizedFolder}/`);
+}
+
+/** Tags match exactly or as a parent of a nested tag (`meeting` matches `meeting/weekly`). */
+export function hasWorkflowTag(facts: WorkflowFileFacts, tag: string): boolean {
+  const wanted = normalizeWorkflowTag(tag);
+  if (!wanted) return false;
+  return facts.tags.some((candidate) => candidate === wanted || candidate.startsWith(`${wanted}/`));
+}
+
+export function matchesWorkflowTrigger(
+  trigger: WorkflowTrigger,
+  event: WorkflowFileEvent,
+  facts: WorkflowFileFacts,
+): boolean {
+  switch (trigger.type) {
+    case "folder":
+      return (event === "created" || event === "moved") && isPathInWorkflowFolder(facts.path, trigger.value);
+    case "tag":
+      return event !== "command" && hasWorkflowTag(facts, trigger.value);
+    case "command":
+      return event === "command";
+    default:
+      return false;
+  }
+}
+
+function frontmatterValueMatches(actual: unknown, expected: string): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some((item) => frontmatterValueMatches(item, expected));
+  }
+  if (actual === null || actual === undefined) return false;
+  return String(actual).trim().toLowerCase() === expected.trim().toLowerCase();
+}
+
+/**
+ * Frontmatter conditions accept `key` (present and truthy), `key=value`, and
+ * `key!=value`. List properties match when any item equals the value.
+ */
+function matchesFrontmatterCondition(facts: WorkflowFileFacts, expression: string): boolean {
+  const frontmatter = facts.frontmatter ?? {};
+  const negated = expression.match(/^([^=!]+)!=(.*)$/);
+  if (negated) {
+    return !frontmatterValueMatches(frontmatter[negated[1].trim()], negated[2]);
+  }
+  const equals = expression.match(/^([^=]+)=(.*)$/);
+  if (equals) {
+    return frontmatterValueMatches(frontmatter[equals[1].trim()], equals[2]);
+  }
+  const value = frontmatter[expression.trim()];
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+export function matchesWorkflowCondition(
+  condition: WorkflowCondition,
+  facts: WorkflowFileFacts,
+): boolean {
+  switch (condition.type) {
+    case "folderRegex":
+      try {
+        return new RegExp(condition.value).test(facts.path);
+      } catch {
+        return false;
+      }
+    case "tag":
+      return hasWorkflowTag(facts, condition.value);
+    case "frontmatter":
+      return matchesFrontmatterCondition(facts, condition.value);
+    default:
+      return false;
+  }
+}
+
+export function matchesWorkflowDefinition(
+  definition: WorkflowDefinition,
+  event: WorkflowFileEvent,
+  facts: WorkflowFileFacts,
+): boolean {
+  if (!matchesWorkflowTrigger(definition.trigger, event, facts)) return false;
+  return (definition.conditions ?? []).every((condition) => matchesWorkflowCondition(condition, facts));
+}
+
+export function hasWorkflowProcessedMarker(facts: WorkflowFileFacts, workflowId: string): boolean {
+  const value = facts.frontmatter?.workflow_processed_by;
+  if (Array.isArray(value)) return value.includes(workflowId);
+  return value === workflowId;
+}
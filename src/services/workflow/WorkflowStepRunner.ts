@@ -0,0 +1,495 @@
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+import type {
+  WorkflowDefinition,
+  WorkflowRunRecord,
+  WorkflowStep,
+  WorkflowStepLog,
+} from "../../types/workflows";
+import type {
+  ManagedTextGenerationOperation,
+  ManagedTextGenerationResult,
+} from "../managed/ManagedTextGenerationAdapter";
+
+const DEFAULT_STEP_RETRIES = 1;
+const MAX_STEP_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const TASK_LINE_PATTERN = /^\s*[-*+] \[ \] (.+?)\s*$/;
+
+/**
+ * A step failure the runner should not retry, such as a missing config key.
+ * Transient vault and network failures stay plain errors and are retried.
+ */
+export class WorkflowStepError extends Error {
+  public readonly retryable: boolean;
+
+  constructor(message: string, options: { retryable?: boolean } = {}) {
+    super(message);
+    this.name = "WorkflowStepError";
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+export type WorkflowStepRunnerDependencies = Readonly<{
+  app: App;
+  generateText: (operation: ManagedTextGenerationOperation) => Promise<ManagedTextGenerationResult>;
+  delay?: (ms: number) => Promise<void>;
+  now?: () => Date;
+}>;
+
+export type WorkflowRunOptions = Readonly<{
+  runId: string;
+  signal?: AbortSignal;
+  onStepComplete?: (log: WorkflowStepLog) => void;
+}>;
+
+interface WorkflowRunContext {
+  readonly definition: WorkflowDefinition;
+  readonly runId: string;
+  readonly signal?: AbortSignal;
+  file: TFile;
+  sourcePath: string;
+  lastOutput: string;
+  outputs: Record<string, string>;
+  tasks: string[];
+  /**
+   * Incomplete replies per AI step. The service replays a finished operation's
+   * reply, so each retry after one runs under a fresh operation id.
+   */
+  incompleteReplies: Record<string, number>;
+}
+
+type StepOutcome = Readonly<{ message: string; skipped?: boolean }>;
+
+function abortError(): DOMException {
+  return new DOMException("Aborted", "AbortError");
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError"
+    || error instanceof DOMException && error.name === "AbortError";
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof WorkflowStepError) return error.retryable;
+  if (error && typeof error === "object" && "retryable" in error) {
+    return (error as { retryable?: unknown }).retryable === true;
+  }
+  return true;
+}
+
+function readString(step: WorkflowStep, key: string): string | null {
+  const value = step.config?.[key];
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+}
+
+function requireString(step: WorkflowStep, key: string): string {
+  const value = readString(step, key);
+  if (!value) {
+    throw new WorkflowStepError(`Step "${step.label}" requires config.${key}.`);
+  }
+  return value;
+}
+
+function readStringList(step: WorkflowStep, key: string): string[] {
+  const value = step.config?.[key];
+  if (typeof value === "string") return value.trim() ? [value.trim()] : [];
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function readRetries(step: WorkflowStep): number {
+  const value = step.config?.retries;
+  if (typeof value !== "number" || !Number.isFinite(value)) return DEFAULT_STEP_RETRIES;
+  return Math.max(0, Math.min(MAX_STEP_RETRIES, Math.floor(value)));
+}
+
+function stripMarkdownExtension(path: string): string {
+  return path.endsWith(".md") ? path.slice(0, -3) : path;
+}
+
+function wikiLink(path: string): string {
+  return `[[${stripMarkdownExtension(path)}]]`;
+}
+
+function splitPath(path: string): { folder: string; name: string } {
+  const index = path.lastIndexOf("/");
+  return index < 0
+    ? { folder: "", name: path }
+    : { folder: path.slice(0, index), name: path.slice(index + 1) };
+}
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function sanitizeOperationSegment(value: string): string {
+  return value.replace(/[^A-Za-z0-9._:-]+/g, "-");
+}
+
+/** Append `lines` under `heading`, creating the heading at the end when missing. */
+export function appendUnderHeading(content: string, heading: string | null, lines: string[]): string {
+  const block = lines.join("\n");
+  const base = content.replace(/\s+$/, "");
+  if (!heading) {
+    return base ? `${base}\n\n${block}\n` : `${block}\n`;
+  }
+
+  const headingLine = `## ${heading}`;
+  const contentLines = base ? base.split("\n") : [];
+  const headingIndex = contentLines.findIndex((line) => line.trim() === headingLine);
+  if (headingIndex < 0) {
+    return base ? `${base}\n\n${headingLine}\n\n${block}\n` : `${headingLine}\n\n${block}\n`;
+  }
+
+  let insertAt = contentLines.length;
+  for (let index = headingIndex + 1; index < contentLines.length; index += 1) {
+    if (/^#{1,2} /.test(contentLines[index])) {
+      insertAt = index;
+      break;
+    }
+  }
+  while (insertAt > headingIndex + 1 && contentLines[insertAt - 1].trim() === "") {
+    insertAt -= 1;
+  }
+  contentLines.splice(insertAt, 0, ...lines);
+  return `${contentLines.join("\n")}\n`;
+}
+
+/**
+ * Executes the steps of one workflow definition against one file, in order.
+ * Each step gets a bounded number of retries, and every attempt outcome lands
+ * in the returned run record so failures can be explained after the fact.
+ */
+export class WorkflowStepRunner {
+  private readonly app: App;
+  private readonly delay: (ms: number) => Promise<void>;
+  private readonly now: () => Date;
+
+  constructor(private readonly dependencies: WorkflowStepRunnerDependencies) {
+    this.app = dependencies.app;
+    this.delay = dependencies.delay ?? ((ms) => new Promise((resolve) => window.setTimeout(resolve, ms)));
+    this.now = dependencies.now ?? (() => new Date());
+  }
+
+  async run(
+    definition: WorkflowDefinition,
+    file: TFile,
+    options: WorkflowRunOptions,
+  ): Promise<WorkflowRunRecord> {
+    const context: WorkflowRunContext = {
+      definition,
+      runId: options.runId,
+      signal: options.signal,
+      file,
+      sourcePath: file.path,
+      lastOutput: "",
+      outputs: {},
+      tasks: [],
+      incompleteReplies: {},
+    };
+    const startedAt = this.now().toISOString();
+    const logs: WorkflowStepLog[] = [];
+    let status: WorkflowRunRecord["status"] = "completed";
+
+    for (const step of definition.steps) {
+      if (status !== "completed") {
+        const timestamp = this.now().toISOString();
+        logs.push({
+          stepId: step.id,
+          type: step.type,
+          status: "skipped",
+          attempts: 0,
+          startedAt: timestamp,
+          finishedAt: timestamp,
+          message: "Skipped after an earlier step stopped the run.",
+        });
+        continue;
+      }
+
+      const log = await this.runStepWithRetries(step, context);
+      logs.push(log);
+      options.onStepComplete?.(log);
+      if (log.status === "failed") {
+        status = options.signal?.aborted ? "cancelled" : "failed";
+      }
+    }
+
+    return {
+      workflowId: definition.id,
+      workflowName: definition.name,
+      filePath: context.file.path,
+      status,
+      startedAt,
+      finishedAt: this.now().toISOString(),
+      steps: logs,
+    };
+  }
+
+  private async runStepWithRetries(step: WorkflowStep, context: WorkflowRunContext): Promise<WorkflowStepLog> {
+    const startedAt = this.now().toISOString();
+    const maxAttempts = readRetries(step) + 1;
+    let attempts = 0;
+
+    while (attempts < maxAttempts) {
+      attempts += 1;
+      try {
+        if (context.signal?.aborted) throw abortError();
+        const outcome = await this.executeStep(step, context);
+        return {
+          stepId: step.id,
+          type: step.type,
+          status: outcome.skipped ? "skipped" : "completed",
+          attempts,
+          startedAt,
+          finishedAt: this.now().toISOString(),
+          message: outcome.message,
+        };
+      } catch (error) {
+        const aborted = isAbortError(error) || context.signal?.aborted === true;
+        if (aborted || !isRetryable(error) || attempts >= maxAttempts) {
+          return {
+            stepId: step.id,
+            type: step.type,
+            status: "failed",
+            attempts,
+            startedAt,
+            finishedAt: this.now().toISOString(),
+            message: aborted
+              ? "Stopped before the step finished."
+              : error instanceof Error ? error.message : String(error),
+          };
+        }
+        await this.delay(RETRY_BASE_DELAY_MS * attempts);
+      }
+    }
+
+    // The loop always returns; this keeps the compiler satisfied.
+    throw new WorkflowStepError(`Step "${step.label}" did not run.`);
+  }
+
+  private async executeStep(step: WorkflowStep, context: WorkflowRunContext): Promise<StepOutcome> {
+    switch (step.type) {
+      case "route-note":
+        return await this.routeNote(step, context);
+      case "ai-preset":
+        return await this.runAiPreset(step, context);
+      case "write-note":
+        return await this.writeNote(step, context);
+      case "extract-tasks":
+        return await this.extractTasks(step, context);
+      case "push-tasks":
+        return await this.pushTasks(step, context);
+      case "add-backlinks":
+        return await this.addBacklinks(step, context);
+      default:
+        throw new WorkflowStepError(`Unsupported workflow step type: ${String(step.type)}`);
+    }
+  }
+
+  private async routeNote(step: WorkflowStep, context: WorkflowRunContext): Promise<StepOutcome> {
+    const folder = normalizePath(this.renderTemplate(requireString(step, "folder"), context));
+    const currentFolder = context.file.parent?.path ?? splitPath(context.file.path).folder;
+    if (normalizePath(currentFolder) === folder) {
+      return { message: `Already in ${folder}.`, skipped: true };
+    }
+
+    await this.ensureFolder(folder);
+    const targetPath = this.findAvailablePath(folder, context.file.basename, context.file.extension);
+    await this.app.fileManager.renameFile(context.file, targetPath);
+    context.outputs[step.id] = targetPath;
+    return { message: `Moved to ${targetPath}.` };
+  }
+
+  private async runAiPreset(step: WorkflowStep, context: WorkflowRunContext): Promise<StepOutcome> {
+    const prompt = requireString(step, "prompt");
+    const inputStep = readString(step, "input");
+    const input = inputStep ? context.outputs[inputStep] : await this.readSourceText(context);
+    if (!input?.trim()) {
+      throw new WorkflowStepError(`Step "${step.label}" has no input text.`);
+    }
+
+    const incomplete = context.incompleteReplies[step.id] ?? 0;
+    const operationId = [
+      "workflow",
+      sanitizeOperationSegment(context.runId),
+      sanitizeOperationSegment(step.id),
+      ...(incomplete > 0 ? [`retry-${incomplete}`] : []),
+    ].join(":").slice(0, 128);
+    const result = await this.dependencies.generateText({
+      operationId,
+      purpose: "workflow_automation",
+      signal: context.signal,
+      buildMessages: () => [
+        { role: "system", content: prompt },
+        { role: "user", content: input },
+      ],
+    });
+    const text = result.text.trim();
+    if (result.finishReason !== "stop" || !text) {
+      context.incompleteReplies[step.id] = incomplete + 1;
+      throw new WorkflowStepError(`Step "${step.label}" returned an incomplete response.`, { retryable: true });
+    }
+
+    context.outputs[step.id] = text;
+    context.lastOutput = text;
+
+    const output = readString(step, "output") ?? "append";
+    if (output === "append" && context.file.extension === "md") {
+      const heading = readString(step, "heading") ?? step.label;
+      await this.app.vault.process(context.file, (content) => appendUnderHeading(content, heading, [text]));
+      return { message: `Appended ${text.length} characters under "${heading}".` };
+    }
+    if (output === "frontmatter" && context.file.extension === "md") {
+      const property = requireString(step, "property");
+      await this.app.fileManager.processFrontMatter(context.file, (frontmatter: Record<string, unknown>) => {
+        frontmatter[property] = text;
+      });
+      return { message: `Saved the response to the "${property}" property.` };
+    }
+    return { message: `Generated ${text.length} characters.` };
+  }
+
+  private async writeNote(step: WorkflowStep, context: WorkflowRunContext): Promise<StepOutcome> {
+    const rawPath = this.renderTemplate(requireString(step, "path"), context);
+    const targetPath = normalizePath(rawPath.endsWith(".md") ? rawPath : `${rawPath}.md`);
+    const content = this.renderTemplate(readString(step, "content") ?? "{{output}}", context);
+    const collision = readString(step, "collision") ?? "increment";
+    const existing = this.app.vault.getAbstractFileByPath(targetPath);
+
+    if (existing instanceof TFile) {
+      if (collision === "skip") {
+        context.outputs[step.id] = existing.path;
+        return { message: `${targetPath} already exists.`, skipped: true };
+      }
+      if (collision === "overwrite") {
+        await this.app.vault.modify(existing, content);
+        context.outputs[step.id] = existing.path;
+        return { message: `Overwrote ${existing.path}.` };
+      }
+    }
+
+    const { folder, name } = splitPath(targetPath);
+    await this.ensureFolder(folder);
+    const path = existing ? this.findAvailablePath(folder, name.slice(0, -3), "md") : targetPath;
+    await this.app.vault.create(path, content);
+    context.outputs[step.id] = path;
+    return { message: `Created ${path}.` };
+  }
+
+  private async extractTasks(step: WorkflowStep, context: WorkflowRunContext): Promise<StepOutcome> {
+    const inputStep = readString(step, "input");
+    const input = inputStep ? context.outputs[inputStep] ?? "" : await this.readSourceText(context);
+    const tasks = input
+      .split("\n")
+      .map((line) => line.match(TASK_LINE_PATTERN)?.[1])
+      .filter((task): task is string => Boolean(task));
+    context.tasks = Array.from(new Set([...context.tasks, ...tasks]));
+    context.outputs[step.id] = tasks.map((task) => `- [ ] ${task}`).join("\n");
+    return tasks.length > 0
+      ? { message: `Found ${tasks.length} task${tasks.length === 1 ? "" : "s"}.` }
+      : { message: "No open tasks found.", skipped: true };
+  }
+
+  private async pushTasks(step: WorkflowStep, context: WorkflowRunContext): Promise<StepOutcome> {
+    if (context.tasks.length === 0) {
+      return { message: "No tasks to push.", skipped: true };
+    }
+    const targetPath = this.renderTemplate(requireString(step, "target"), context);
+    const heading = readString(step, "heading");
+    const link = wikiLink(context.file.path);
+    const target = await this.getOrCreateNote(targetPath);
+    let added = 0;
+
+    await this.app.vault.process(target, (content) => {
+      const lines = context.tasks
+        .map((task) => `- [ ] ${task} (${link})`)
+        .filter((line) => !content.includes(line));
+      added = lines.length;
+      return lines.length > 0 ? appendUnderHeading(content, heading, lines) : content;
+    });
+    return added > 0
+      ? { message: `Added ${added} task${added === 1 ? "" : "s"} to ${target.path}.` }
+      : { message: `Tasks were already in ${target.path}.`, skipped: true };
+  }
+
+  private async addBacklinks(step: WorkflowStep, context: WorkflowRunContext): Promise<StepOutcome> {
+    const targets = [...readStringList(step, "targets"), ...readStringList(step, "target")]
+      .map((target) => this.renderTemplate(target, context));
+    if (targets.length === 0) {
+      throw new WorkflowStepError(`Step "${step.label}" requires config.target or config.targets.`);
+    }
+    const heading = readString(step, "heading");
+    const link = wikiLink(context.file.path);
+    const updated: string[] = [];
+
+    for (const targetPath of targets) {
+      const target = await this.getOrCreateNote(targetPath);
+      await this.app.vault.process(target, (content) => {
+        if (content.includes(link)) return content;
+        updated.push(target.path);
+        return appendUnderHeading(content, heading, [`- ${link}`]);
+      });
+    }
+    return updated.length > 0
+      ? { message: `Linked from ${updated.join(", ")}.` }
+      : { message: "Backlinks already present.", skipped: true };
+  }
+
+  private async readSourceText(context: WorkflowRunContext): Promise<string> {
+    if (context.file.extension !== "md") {
+      throw new WorkflowStepError(`${context.file.path} is not a Markdown note.`);
+    }
+    return await this.app.vault.read(context.file);
+  }
+
+  private renderTemplate(template: string, context: WorkflowRunContext): string {
+    return template.replace(/\{\{\s*([A-Za-z0-9._-]+)\s*\}\}/g, (match, key: string) => {
+      if (key === "date") return formatDate(this.now());
+      if (key === "basename") return context.file.basename;
+      if (key === "path") return context.file.path;
+      if (key === "folder") return context.file.parent?.path ?? splitPath(context.file.path).folder;
+      if (key === "link") return wikiLink(context.file.path);
+      if (key === "source") return wikiLink(context.sourcePath);
+      if (key === "workflow") return context.definition.name;
+      if (key === "output") return context.lastOutput;
+      if (key === "tasks") return context.tasks.map((task) => `- [ ] ${task}`).join("\n");
+      if (key.startsWith("output.")) return context.outputs[key.slice("output.".length)] ?? "";
+      return match;
+    });
+  }
+
+  private async getOrCreateNote(rawPath: string): Promise<TFile> {
+    const path = normalizePath(rawPath.endsWith(".md") ? rawPath : `${rawPath}.md`);
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) return existing;
+    if (existing) throw new WorkflowStepError(`${path} is a folder, not a note.`);
+    await this.ensureFolder(splitPath(path).folder);
+    return await this.app.vault.create(path, "");
+  }
+
+  private async ensureFolder(folder: string): Promise<void> {
+    if (!folder) return;
+    const existing = this.app.vault.getAbstractFileByPath(folder);
+    if (existing instanceof TFolder) return;
+    if (existing) throw new WorkflowStepError(`${folder} is a file, not a folder.`);
+    await this.app.vault.createFolder(folder);
+  }
+
+  private findAvailablePath(folder: string, baseName: string, extension: string): string {
+    const base = baseName.trim() || "Untitled";
+    let attempt = 0;
+    let candidate: string;
+    do {
+      const suffix = attempt === 0 ? "" : ` (${attempt})`;
+      candidate = normalizePath(folder ? `${folder}/${base}${suffix}.${extension}` : `${base}${suffix}.${extension}`);
+      attempt += 1;
+    } while (this.app.vault.getAbstractFileByPath(candidate));
+    return candidate;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+import { App, TFile } from "obsidian";
+import {
+  isWorkflowDefinitionPath,
+  loadWorkflowDefinitions,
+  normalizeWorkflowDefinition,
+  parseWorkflowDefinitionNote,
+} from "../WorkflowDefinitionLoader";
+
+const MEETING_NOTE = [
+  "---",
+  "id: meeting-notes",
+  "name: Meeting notes",
+  "tags: [workflow]",
+  "trigger:",
+  "  type: folder",
+  "  value: Inbox",
+  "conditions:",
+  "  - type: tag",
+  "    value: meeting",
+  "steps:",
+  "  - id: summarize",
+  "    type: ai-preset",
+  "    label: Summary",
+  "    config:",
+  "      prompt: Summarize the meeting.",
+  "  - type: route-note",
+  "    config:",
+  "      folder: Meetings",
+  "---",
+  "",
+  "Routes meeting notes out of the inbox.",
+].join("\n");
+
+describe("parseWorkflowDefinitionNote", () => {
+  it("reads a definition from note frontmatter and fills step defaults", () => {
+    const result = parseWorkflowDefinitionNote(MEETING_NOTE, "Meeting notes");
+
+    expect(result).toEqual({
+      ok: true,
+      definition: {
+        id: "meeting-notes",
+        name: "Meeting notes",
+        trigger: { type: "folder", value: "Inbox" },
+        conditions: [{ type: "tag", value: "meeting" }],
+        steps: [
+          {
+            id: "summarize",
+            type: "ai-preset",
+            label: "Summary",
+            config: { prompt: "Summarize the meeting." },
+          },
+          {
+            id: "step-2",
+            type: "route-note",
+            label: "route-note",
+            config: { folder: "Meetings" },
+          },
+        ],
+      },
+    });
+  });
+
+  it("rejects notes without frontmatter or with invalid YAML", () => {
+    expect(parseWorkflowDefinitionNote("just text", "x")).toEqual({
+      ok: false,
+      message: "Workflow note has no frontmatter.",
+    });
+    const invalid = parseWorkflowDefinitionNote("---\ntrigger: [unclosed\n---\n", "x");
+    expect(invalid.ok).toBe(false);
+    expect(!invalid.ok && invalid.message).toContain("not valid YAML");
+  });
+});
+
+describe("normalizeWorkflowDefinition", () => {
+  const base = {
+    trigger: { type: "tag", value: "clipping" },
+    steps: [{ type: "extract-tasks" }],
+  };
+
+  it("derives the id and name from the note name", () => {
+    const result = normalizeWorkflowDefinition(base, "Web Clippings!");
+
+    expect(result.ok && result.definition.id).toBe("web-clippings");
+    expect(result.ok && result.definition.name).toBe("Web Clippings!");
+  });
+
+  it.each([
+    [{ ...base, trigger: { type: "schedule", value: "daily" } }, "trigger type must be one of"],
+    [{ ...base, trigger: { type: "folder" } }, "trigger requires a value"],
+    [{ ...base, steps: [] }, "at least one step"],
+    [{ ...base, steps: [{ type: "teleport" }] }, "Step 1 type must be one of"],
+    [{ ...base, steps: [{ id: "a", type: "route-note" }, { id: "a", type: "add-backlinks" }] }, "used more than once"],
+    [{ ...base, conditions: [{ type: "folderRegex", value: "([" }] }, "not a valid regular expression"],
+    [{ ...base, conditions: { type: "tag" } }, "conditions must be a list"],
+    [{ ...base, steps: [{ type: "route-note", config: "Meetings" }] }, "config must be an object"],
+  ])("reports invalid definitions (%#)", (raw, message) => {
+    const result = normalizeWorkflowDefinition(raw, "Broken");
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.message).toContain(message);
+  });
+});
+
+describe("loadWorkflowDefinitions", () => {
+  it("loads notes in the folder, reports problems, and keeps the first duplicate id", async () => {
+    const app = new App();
+    const files = [
+      new TFile({ path: "Workflows/b-duplicate.md" }),
+      new TFile({ path: "Workflows/a-meeting.md" }),
+      new TFile({ path: "Workflows/broken.md" }),
+      new TFile({ path: "Workflows/readme.txt" }),
+      new TFile({ path: "Elsewhere/meeting.md" }),
+    ];
+    (app.vault.getFiles as jest.Mock).mockReturnValue(files);
+    (app.vault.read as jest.Mock).mockImplementation(async (file: TFile) => {
+      if (file.path === "Workflows/broken.md") return "no frontmatter";
+      return MEETING_NOTE;
+    });
+
+    const result = await loadWorkflowDefinitions(app, "Workflows");
+
+    expect(result.definitions.map((definition) => definition.id)).toEqual(["meeting-notes"]);
+    expect(result.problems).toEqual([
+      {
+        path: "Workflows/b-duplicate.md",
+        message: 'Workflow id "meeting-notes" is already defined in Workflows/a-meeting.md.',
+      },
+      { path: "Workflows/broken.md", message: "Workflow note has no frontmatter." },
+    ]);
+    expect(app.vault.read).toHaveBeenCalledTimes(3);
+  });
+
+  it("only treats Markdown notes inside the configured folder as definitions", () => {
+    expect(isWorkflowDefinitionPath("Workflows/meeting.md", "Workflows")).toBe(true);
+    expect(isWorkflowDefinitionPath("Workflows/nested/meeting.md", "Workflows/")).toBe(true);
+    expect(isWorkflowDefinitionPath("Workflows-old/meeting.md", "Workflows")).toBe(false);
+    expect(isWorkflowDefinitionPath("Workflows/audio.mp3", "Workflows")).toBe(false);
+    expect(isWorkflowDefinitionPath("Workflows/meeting.md", "")).toBe(false);
+  });
+});
@@ -45,6 +45,8 @@ describe("WorkflowEngineService", () => {
     ) => commit("Transcribed text", "workflow-transcription-op-1"));
 
     mockApp = new App();
+    (mockApp.metadataCache as any).on = jest.fn(() => ({ unload: jest.fn() }));
+    (mockApp.fileManager as any).processFrontMatter = jest.fn();
     (mockApp.vault.getFiles as jest.Mock).mockReturnValue([]);
     (mockApp.vault.getAbstractFileByPath as jest.Mock).mockReturnValue(null);
 
@@ -57,6 +59,7 @@ describe("WorkflowEngineService", () => {
           autoTranscribeInboxNotes: false,
           inboxFolder: "Inbox",
           processedNotesFolder: "",
+          definitionsFolder: "Workflows",
           skippedFiles: {},
         },
       },
@@ -67,6 +70,7 @@ describe("WorkflowEngineService", () => {
         warn: jest.fn(),
       }),
       registerEvent: jest.fn(),
+      getManagedCapabilityClient: jest.fn(() => ({ generateText: jest.fn() })),
       saveSettings: jest.fn().mockResolvedValue(undefined),
     };
 
@@ -78,10 +82,14 @@ describe("WorkflowEngineService", () => {
   });
 
   describe("lifecycle", () => {
-    it("registers create and rename listeners", () => {
+    it("registers vault and metadata listeners", () => {
       service.initialize();
 
-      expect(mockPlugin.registerEvent).toHaveBeenCalledTimes(2);
+      expect(mockPlugin.registerEvent).toHaveBeenCalledTimes(4);
+      expect(mockApp.vault.on).toHaveBeenCalledWith("create", expect.any(Function));
+      expect(mockApp.vault.on).toHaveBeenCalledWith("rename", expect.any(Function));
+      expect(mockApp.vault.on).toHaveBeenCalledWith("delete", expect.any(Function));
+      expect(mockApp.metadataCache.on).toHaveBeenCalledWith("changed", expect.any(Function));
     });
 
     it("clears pending work, timers, and progress on destroy", () => {
@@ -228,6 +236,169 @@ describe("WorkflowEngineService", () => {
     });
   });
 
+  describe("user-defined workflows", () => {
+    const definitionNote = (trigger: string, extra = "") => [
+      "---",
+      "id: meetings",
+      "name: Meetings",
+      "trigger:",
+      trigger,
+      extra,
+      "steps:",
+      "  - id: route",
+      "    type: route-note",
+      "    config:",
+      "      folder: Meetings",
+      "---",
+    ].filter(Boolean).join("\n");
+
+    function useDefinition(content: string): TFile {
+      const definitionFile = new TFile({ path: "Workflows/meetings.md" });
+      (mockApp.vault.getFiles as jest.Mock).mockReturnValue([definitionFile]);
+      (mockApp.vault.read as jest.Mock).mockResolvedValue(content);
+      return definitionFile;
+    }
+
+    beforeEach(() => {
+      mockPlugin.settings.workflowEngine.enabled = true;
+    });
+
+    it("queues folder-triggered workflows for files arriving in the folder", async () => {
+      useDefinition(definitionNote("  type: folder\n  value: Inbox"));
+      const file = new TFile({ path: "Inbox/standup.md" });
+
+      await (service as any).handleFileEvent(file, "created");
+      await (service as any).handleFileEvent(file, "changed");
+
+      expect((service as any).pendingWorkflowRuns).toEqual([
+        expect.objectContaining({ file, event: "created", definition: expect.objectContaining({ id: "meetings" }) }),
+      ]);
+    });
+
+    it("queues tag-triggered workflows once the metadata cache reports the tag", async () => {
+      useDefinition(definitionNote("  type: tag\n  value: meeting"));
+      const file = new TFile({ path: "Notes/standup.md" });
+      (mockApp.metadataCache.getFileCache as jest.Mock).mockReturnValue({ tags: [{ tag: "#meeting" }] });
+
+      await (service as any).handleFileEvent(file, "changed");
+
+      expect((service as any).pendingWorkflowRuns).toHaveLength(1);
+    });
+
+    it("does not queue workflows that are skipped, already processed, or disabled", async () => {
+      useDefinition(definitionNote("  type: tag\n  value: meeting"));
+      const skipped = new TFile({ path: "Notes/skipped.md" });
+      const processed = new TFile({ path: "Notes/processed.md" });
+      mockPlugin.settings.workflowEngine.skippedFiles = {
+        "workflow::meetings::Notes/skipped.md": {
+          path: "Notes/skipped.md",
+          type: "workflow",
+          workflowId: "meetings",
+          skippedAt: "2026-10-19T00:00:00.000Z",
+        },
+      };
+      (mockApp.metadataCache.getFileCache as jest.Mock).mockImplementation((file: TFile) => ({
+        tags: [{ tag: "#meeting" }],
+        frontmatter: file === processed ? { workflow_processed_by: ["meetings"] } : {},
+      }));
+
+      await (service as any).handleFileEvent(skipped, "changed");
+      await (service as any).handleFileEvent(processed, "changed");
+      mockPlugin.settings.workflowEngine.enabled = false;
+      mockPlugin.settings.workflowEngine.autoTranscribeInboxNotes = true;
+      await (service as any).handleFileEvent(new TFile({ path: "Notes/other.md" }), "changed");
+
+      expect((service as any).pendingWorkflowRuns).toEqual([]);
+    });
+
+    it("reloads definitions after a definition note changes", async () => {
+      const definitionFile = useDefinition(definitionNote("  type: folder\n  value: Inbox"));
+
+      await (service as any).handleFileEvent(new TFile({ path: "Inbox/a.md" }), "created");
+      await (service as any).handleFileEvent(definitionFile, "changed");
+      await (service as any).handleFileEvent(new TFile({ path: "Inbox/b.md" }), "created");
+
+      expect(mockApp.vault.read).toHaveBeenCalledTimes(2);
+    });
+
+    it("records a completed run and marks the note processed", async () => {
+      useDefinition(definitionNote("  type: folder\n  value: Inbox"));
+      const file = new TFile({ path: "Inbox/standup.md" });
+      const { definitions } = await (service as any).getDefinitions(mockPlugin.settings.workflowEngine);
+      const run = jest.spyOn((service as any).getStepRunner(), "run").mockResolvedValue({
+        workflowId: "meetings",
+        workflowName: "Meetings",
+        filePath: "Inbox/standup.md",
+        status: "completed",
+        startedAt: "2026-10-19T00:00:00.000Z",
+        finishedAt: "2026-10-19T00:00:01.000Z",
+        steps: [],
+      });
+
+      await (service as any).runWorkflow({ definition: definitions[0], file, event: "created" });
+
+      expect(run).toHaveBeenCalledWith(definitions[0], file, expect.objectContaining({
+        runId: expect.stringMatching(/^meetings\./),
+      }));
+      expect((mockApp.fileManager as any).processFrontMatter).toHaveBeenCalledWith(file, expect.any(Function));
+      expect(service.getRecentWorkflowRuns()).toHaveLength(1);
+      expect((service as any).isWorkflowRunBlocked("meetings", file, mockPlugin.settings.workflowEngine)).toBe(true);
+    });
+
+    it("adds a workflow skip entry when an automatic run fails", async () => {
+      useDefinition(definitionNote("  type: folder\n  value: Inbox"));
+      const file = new TFile({ path: "Inbox/standup.md" });
+      const { definitions } = await (service as any).getDefinitions(mockPlugin.settings.workflowEngine);
+      jest.spyOn((service as any).getStepRunner(), "run").mockResolvedValue({
+        workflowId: "meetings",
+        workflowName: "Meetings",
+        filePath: "Inbox/standup.md",
+        status: "failed",
+        startedAt: "2026-10-19T00:00:00.000Z",
+        finishedAt: "2026-10-19T00:00:01.000Z",
+        steps: [{
+          stepId: "route",
+          type: "route-note",
+          status: "failed",
+          attempts: 2,
+          startedAt: "2026-10-19T00:00:00.000Z",
+          finishedAt: "2026-10-19T00:00:01.000Z",
+          message: "Disk full",
+        }],
+      });
+
+      await (service as any).runWorkflow({ definition: definitions[0], file, event: "created" });
+
+      expect(mockPlugin.settings.workflowEngine.skippedFiles).toEqual({
+        "workflow::meetings::Inbox/standup.md": expect.objectContaining({
+          type: "workflow",
+          workflowId: "meetings",
+          reason: "step_failed: Disk full",
+        }),
+      });
+      expect((mockApp.fileManager as any).processFrontMatter).not.toHaveBeenCalled();
+    });
+
+    it("runs command workflows on demand and rejects unknown ids", async () => {
+      useDefinition(definitionNote("  type: command\n  value: Route meeting"));
+      const file = new TFile({ path: "Notes/standup.md" });
+      const run = jest.spyOn((service as any).getStepRunner(), "run").mockResolvedValue({
+        workflowId: "meetings",
+        workflowName: "Meetings",
+        filePath: "Meetings/standup.md",
+        status: "completed",
+        startedAt: "2026-10-19T00:00:00.000Z",
+        finishedAt: "2026-10-19T00:00:01.000Z",
+        steps: [],
+      });
+
+      await expect(service.getCommandWorkflows()).resolves.toHaveLength(1);
+      await expect(service.runCommandWorkflow("meetings", file)).resolves.toMatchObject({ status: "completed" });
+      await expect(service.runCommandWorkflow("missing", file)).rejects.toThrow('No command workflow named "missing"');
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("bulk processing", () => {
     function createWidget() {
       return {
@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import { App, TFile } from "obsidian";
+import type { WorkflowDefinition } from "../../../types/workflows";
+import {
+  hasWorkflowProcessedMarker,
+  matchesWorkflowCondition,
+  matchesWorkflowDefinition,
+  matchesWorkflowTrigger,
+  readWorkflowFileFacts,
+  type WorkflowFileFacts,
+} from "../WorkflowMatcher";
+
+function facts(overrides: Partial<WorkflowFileFacts> = {}): WorkflowFileFacts {
+  return {
+    path: "Inbox/standup.md",
+    tags: ["meeting/weekly", "work"],
+    frontmatter: { source: "zoom", people: ["Ana", "Sam"], draft: false },
+    ...overrides,
+  };
+}
+
+describe("readWorkflowFileFacts", () => {
+  it("merges frontmatter and inline tags without hash prefixes", () => {
+    const app = new App();
+    const file = new TFile({ path: "Inbox/standup.md" });
+    (app.metadataCache.getFileCache as jest.Mock).mockReturnValue({
+      frontmatter: { tags: ["#Meeting", "work"], status: "new" },
+      tags: [{ tag: "#meeting" }, { tag: "#follow-up" }],
+    });
+
+    expect(readWorkflowFileFacts(app, file)).toEqual({
+      path: "Inbox/standup.md",
+      tags: ["meeting", "work", "follow-up"],
+      frontmatter: { tags: ["#Meeting", "work"], status: "new" },
+    });
+  });
+
+  it("returns empty facts before the metadata cache has parsed the file", () => {
+    const app = new App();
+
+    expect(readWorkflowFileFacts(app, new TFile({ path: "Inbox/memo.m4a" }))).toEqual({
+      path: "Inbox/memo.m4a",
+      tags: [],
+      frontmatter: null,
+    });
+  });
+});
+
+describe("matchesWorkflowTrigger", () => {
+  it("fires folder triggers only when a file arrives in the folder", () => {
+    const trigger = { type: "folder" as const, value: "Inbox" };
+
+    expect(matchesWorkflowTrigger(trigger, "created", facts())).toBe(true);
+    expect(matchesWorkflowTrigger(trigger, "moved", facts())).toBe(true);
+    expect(matchesWorkflowTrigger(trigger, "changed", facts())).toBe(false);
+    expect(matchesWorkflowTrigger(trigger, "created", facts({ path: "Inbox-old/a.md" }))).toBe(false);
+  });
+
+  it("fires tag triggers for parent tags on vault events but not commands", () => {
+    const trigger = { type: "tag" as const, value: "#meeting" };
+
+    expect(matchesWorkflowTrigger(trigger, "changed", facts())).toBe(true);
+    expect(matchesWorkflowTrigger(trigger, "command", facts())).toBe(false);
+    expect(matchesWorkflowTrigger({ type: "tag", value: "meet" }, "changed", facts())).toBe(false);
+  });
+
+  it("fires command triggers only for manual runs", () => {
+    const trigger = { type: "command" as const, value: "Summarize" };
+
+    expect(matchesWorkflowTrigger(trigger, "command", facts())).toBe(true);
+    expect(matchesWorkflowTrigger(trigger, "created", facts())).toBe(false);
+  });
+});
+
+describe("matchesWorkflowCondition", () => {
+  it.each([
+    [{ type: "folderRegex" as const, value: "^Inbox/" }, true],
+    [{ type: "folderRegex" as const, value: "^Archive/" }, false],
+    [{ type: "folderRegex" as const, value: "([" }, false],
+    [{ type: "tag" as const, value: "work" }, true],
+    [{ type: "tag" as const, value: "personal" }, false],
+    [{ type: "frontmatter" as const, value: "source" }, true],
+    [{ type: "frontmatter" as const, value: "draft" }, false],
+    [{ type: "frontmatter" as const, value: "source=Zoom" }, true],
+    [{ type: "frontmatter" as const, value: "people=Sam" }, true],
+    [{ type: "frontmatter" as const, value: "source!=zoom" }, false],
+    [{ type: "frontmatter" as const, value: "missing!=zoom" }, true],
+  ])("evaluates %o", (condition, expected) => {
+    expect(matchesWorkflowCondition(condition, facts())).toBe(expected);
+  });
+});
+
+describe("matchesWorkflowDefinition", () => {
+  const definition: WorkflowDefinition = {
+    id: "meetings",
+    name: "Meetings",
+    trigger: { type: "folder", value: "Inbox" },
+    conditions: [{ type: "tag", value: "meeting" }, { type: "frontmatter", value: "source=zoom" }],
+    steps: [{ id: "route", type: "route-note", label: "Route" }],
+  };
+
+  it("requires the trigger and every condition", () => {
+    expect(matchesWorkflowDefinition(definition, "created", facts())).toBe(true);
+    expect(matchesWorkflowDefinition(definition, "created", facts({ tags: [] }))).toBe(false);
+    expect(matchesWorkflowDefinition(definition, "changed", facts())).toBe(false);
+  });
+
+  it("recognizes the processed marker in string and list form", () => {
+    expect(hasWorkflowProcessedMarker(facts({ frontmatter: { workflow_processed_by: "meetings" } }), "meetings")).toBe(true);
+    expect(hasWorkflowProcessedMarker(facts({ frontmatter: { workflow_processed_by: ["other", "meetings"] } }), "meetings")).toBe(true);
+    expect(hasWorkflowProcessedMarker(facts(), "meetings")).toBe(false);
+  });
+});
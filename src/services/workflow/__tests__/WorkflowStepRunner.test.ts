@@ -0,0 +1,249 @@
+/**
+ * @jest-environment jsdom
+ */
+import { App, TFile, TFolder } from "obsidian";
+import type { WorkflowDefinition, WorkflowStep } from "../../../types/workflows";
+import { WorkflowStepError, WorkflowStepRunner, appendUnderHeading } from "../WorkflowStepRunner";
+
+type FakeVault = {
+  app: App;
+  contents: Map<string, string>;
+  files: Map<string, TFile>;
+};
+
+function createFakeVault(initial: Record<string, string>): FakeVault {
+  const app = new App();
+  const contents = new Map(Object.entries(initial));
+  const files = new Map<string, TFile>();
+  const folders = new Set<string>(["Inbox"]);
+  for (const path of contents.keys()) files.set(path, new TFile({ path }));
+
+  (app.vault.getAbstractFileByPath as jest.Mock).mockImplementation((path: string) => {
+    if (files.has(path)) return files.get(path);
+    if (folders.has(path)) return new TFolder({ path });
+    return null;
+  });
+  (app.vault.read as jest.Mock).mockImplementation(async (file: TFile) => contents.get(file.path) ?? "");
+  (app.vault.create as jest.Mock).mockImplementation(async (path: string, data: string) => {
+    const file = new TFile({ path });
+    files.set(path, file);
+    contents.set(path, data);
+    return file;
+  });
+  (app.vault.createFolder as jest.Mock).mockImplementation(async (path: string) => {
+    folders.add(path);
+  });
+  (app.vault.modify as jest.Mock).mockImplementation(async (file: TFile, data: string) => {
+    contents.set(file.path, data);
+  });
+  (app.vault as any).process = jest.fn(async (file: TFile, fn: (data: string) => string) => {
+    const next = fn(contents.get(file.path) ?? "");
+    contents.set(file.path, next);
+    return next;
+  });
+  (app.fileManager.renameFile as jest.Mock).mockImplementation(async (file: TFile, newPath: string) => {
+    const data = contents.get(file.path) ?? "";
+    contents.delete(file.path);
+    files.delete(file.path);
+    Object.assign(file, new TFile({ path: newPath }));
+    contents.set(newPath, data);
+    files.set(newPath, file);
+  });
+  (app.fileManager as any).processFrontMatter = jest.fn(async (_file: TFile, fn: (fm: Record<string, unknown>) => void) => {
+    fn({});
+  });
+  return { app, contents, files };
+}
+
+function definition(steps: WorkflowStep[]): WorkflowDefinition {
+  return {
+    id: "meetings",
+    name: "Meetings",
+    trigger: { type: "folder", value: "Inbox" },
+    steps,
+  };
+}
+
+function textResult(text: string, finishReason: "stop" | "length" = "stop") {
+  return {
+    operationId: "op",
+    requestId: "req",
+    text,
+    finishReason,
+    usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+  };
+}
+
+describe("WorkflowStepRunner", () => {
+  const now = () => new Date(2026, 9, 19, 9, 30);
+  let generateText: jest.Mock;
+  let delay: jest.Mock;
+
+  beforeEach(() => {
+    generateText = jest.fn();
+    delay = jest.fn().mockResolvedValue(undefined);
+  });
+
+  it("runs steps in order and threads outputs between them", async () => {
+    const vault = createFakeVault({
+      "Inbox/standup.md": "# Standup\n\n- [ ] Send recap\n- [x] Book room\n* [ ] Update roadmap\n",
+    });
+    generateText.mockResolvedValue(textResult("Short summary."));
+    const runner = new WorkflowStepRunner({ app: vault.app, generateText, delay, now });
+
+    const record = await runner.run(definition([
+      { id: "summary", type: "ai-preset", label: "Summary", config: { prompt: "Summarize." } },
+      { id: "tasks", type: "extract-tasks", label: "Tasks" },
+      { id: "push", type: "push-tasks", label: "Push", config: { target: "Tasks/Inbox", heading: "Open" } },
+      { id: "digest", type: "write-note", label: "Digest", config: { path: "Digests/{{date}} {{basename}}", content: "{{output.summary}}\n\n{{source}}" } },
+      { id: "route", type: "route-note", label: "Route", config: { folder: "Meetings" } },
+      { id: "links", type: "add-backlinks", label: "Links", config: { targets: ["Meetings/Index"] } },
+    ]), vault.files.get("Inbox/standup.md")!, { runId: "run-1" });
+
+    expect(record.status).toBe("completed");
+    expect(record.filePath).toBe("Meetings/standup.md");
+    expect(record.steps.map((step) => [step.stepId, step.status, step.attempts])).toEqual([
+      ["summary", "completed", 1],
+      ["tasks", "completed", 1],
+      ["push", "completed", 1],
+      ["digest", "completed", 1],
+      ["route", "completed", 1],
+      ["links", "completed", 1],
+    ]);
+    expect(generateText).toHaveBeenCalledWith(expect.objectContaining({
+      operationId: "workflow:run-1:summary",
+      purpose: "workflow_automation",
+    }));
+    expect(vault.contents.get("Meetings/standup.md")).toContain("## Summary\n\nShort summary.");
+    expect(vault.contents.get("Tasks/Inbox.md")).toBe(
+      "## Open\n\n- [ ] Send recap ([[Inbox/standup]])\n- [ ] Update roadmap ([[Inbox/standup]])\n",
+    );
+    expect(vault.contents.get("Digests/2026-10-19 standup.md")).toBe("Short summary.\n\n[[Inbox/standup]]");
+    expect(vault.contents.get("Meetings/Index.md")).toBe("- [[Meetings/standup]]\n");
+  });
+
+  it("retries retryable failures and records each attempt", async () => {
+    const vault = createFakeVault({ "Inbox/memo.md": "Notes" });
+    generateText
+      .mockRejectedValueOnce(Object.assign(new Error("Busy"), { retryable: true }))
+      .mockResolvedValueOnce(textResult("Done", "length"))
+      .mockResolvedValueOnce(textResult("Done"));
+    const runner = new WorkflowStepRunner({ app: vault.app, generateText, delay, now });
+
+    const record = await runner.run(definition([
+      { id: "summary", type: "ai-preset", label: "Summary", config: { prompt: "Go", retries: 2, output: "none" } },
+    ]), vault.files.get("Inbox/memo.md")!, { runId: "run-2" });
+
+    expect(record.status).toBe("completed");
+    expect(record.steps[0]).toMatchObject({ status: "completed", attempts: 3 });
+    expect(delay).toHaveBeenNthCalledWith(1, 1000);
+    expect(delay).toHaveBeenNthCalledWith(2, 2000);
+    expect(vault.contents.get("Inbox/memo.md")).toBe("Notes");
+  });
+
+  it("retries a truncated reply under a fresh operation id", async () => {
+    const vault = createFakeVault({ "Inbox/memo.md": "Notes" });
+    generateText
+      .mockResolvedValueOnce(textResult("Half", "length"))
+      .mockRejectedValueOnce(Object.assign(new Error("Busy"), { retryable: true }))
+      .mockResolvedValueOnce(textResult("Whole"));
+    const runner = new WorkflowStepRunner({ app: vault.app, generateText, delay, now });
+
+    const record = await runner.run(definition([
+      { id: "summary", type: "ai-preset", label: "Summary", config: { prompt: "Go", retries: 2, output: "none" } },
+    ]), vault.files.get("Inbox/memo.md")!, { runId: "run-7" });
+
+    expect(record.steps[0]).toMatchObject({ status: "completed", attempts: 3 });
+    // A transport failure keeps the id so the service can recover the same operation.
+    expect(generateText.mock.calls.map(([operation]) => operation.operationId)).toEqual([
+      "workflow:run-7:summary",
+      "workflow:run-7:summary:retry-1",
+      "workflow:run-7:summary:retry-1",
+    ]);
+  });
+
+  it("fails fast on configuration errors and skips the remaining steps", async () => {
+    const vault = createFakeVault({ "Inbox/memo.md": "Notes" });
+    const runner = new WorkflowStepRunner({ app: vault.app, generateText, delay, now });
+
+    const record = await runner.run(definition([
+      { id: "route", type: "route-note", label: "Route" },
+      { id: "links", type: "add-backlinks", label: "Links", config: { target: "Index" } },
+    ]), vault.files.get("Inbox/memo.md")!, { runId: "run-3" });
+
+    expect(record.status).toBe("failed");
+    expect(record.steps).toEqual([
+      expect.objectContaining({ stepId: "route", status: "failed", attempts: 1, message: 'Step "Route" requires config.folder.' }),
+      expect.objectContaining({ stepId: "links", status: "skipped", attempts: 0 }),
+    ]);
+    expect(delay).not.toHaveBeenCalled();
+  });
+
+  it("does not retry non-retryable managed failures", async () => {
+    const vault = createFakeVault({ "Inbox/memo.md": "Notes" });
+    generateText.mockRejectedValue(Object.assign(new Error("No credits"), { retryable: false }));
+    const runner = new WorkflowStepRunner({ app: vault.app, generateText, delay, now });
+
+    const record = await runner.run(definition([
+      { id: "summary", type: "ai-preset", label: "Summary", config: { prompt: "Go", retries: 3 } },
+    ]), vault.files.get("Inbox/memo.md")!, { runId: "run-4" });
+
+    expect(record.steps[0]).toMatchObject({ status: "failed", attempts: 1, message: "No credits" });
+    expect(generateText).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a cancelled run when the signal aborts", async () => {
+    const vault = createFakeVault({ "Inbox/memo.md": "Notes" });
+    const controller = new AbortController();
+    controller.abort();
+    const runner = new WorkflowStepRunner({ app: vault.app, generateText, delay, now });
+
+    const record = await runner.run(definition([
+      { id: "tasks", type: "extract-tasks", label: "Tasks" },
+    ]), vault.files.get("Inbox/memo.md")!, { runId: "run-5", signal: controller.signal });
+
+    expect(record.status).toBe("cancelled");
+    expect(record.steps[0]).toMatchObject({ status: "failed", message: "Stopped before the step finished." });
+  });
+
+  it("skips steps with nothing to do and respects write collisions", async () => {
+    const vault = createFakeVault({
+      "Inbox/memo.md": "No tasks here",
+      "Digests/memo.md": "old",
+    });
+    const runner = new WorkflowStepRunner({ app: vault.app, generateText, delay, now });
+
+    const record = await runner.run(definition([
+      { id: "tasks", type: "extract-tasks", label: "Tasks" },
+      { id: "push", type: "push-tasks", label: "Push", config: { target: "Tasks" } },
+      { id: "keep", type: "write-note", label: "Keep", config: { path: "Digests/memo", content: "new", collision: "skip" } },
+      { id: "copy", type: "write-note", label: "Copy", config: { path: "Digests/memo", content: "new" } },
+      { id: "route", type: "route-note", label: "Route", config: { folder: "Inbox" } },
+    ]), vault.files.get("Inbox/memo.md")!, { runId: "run-6" });
+
+    expect(record.status).toBe("completed");
+    expect(record.steps.map((step) => step.status)).toEqual(["skipped", "skipped", "skipped", "completed", "skipped"]);
+    expect(vault.contents.get("Digests/memo.md")).toBe("old");
+    expect(vault.contents.get("Digests/memo (1).md")).toBe("new");
+  });
+
+  it("exposes a non-retryable step error by default", () => {
+    expect(new WorkflowStepError("bad").retryable).toBe(false);
+    expect(new WorkflowStepError("busy", { retryable: true }).retryable).toBe(true);
+  });
+});
+
+describe("appendUnderHeading", () => {
+  it("appends at the end of an existing section", () => {
+    const content = "# Note\n\n## Tasks\n\n- [ ] One\n\n## Later\n\nText\n";
+
+    expect(appendUnderHeading(content, "Tasks", ["- [ ] Two"])).toBe(
+      "# Note\n\n## Tasks\n\n- [ ] One\n- [ ] Two\n\n## Later\n\nText\n",
+    );
+  });
+
+  it("creates the heading or appends plainly when needed", () => {
+    expect(appendUnderHeading("Body", "Tasks", ["- a"])).toBe("Body\n\n## Tasks\n\n- a\n");
+    expect(appendUnderHeading("", null, ["- a"])).toBe("- a\n");
+  });
+});
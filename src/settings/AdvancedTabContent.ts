@@ -34,6 +34,24 @@ export function displayAdvancedTabContent(containerEl: HTMLElement, tabInstance:
                 });
         });
 
+    new Setting(containerEl)
+        .setName("Continuation suggestions")
+        .setDesc("After a pause in typing, suggest how the sentence continues as faint inline text. Accept it with the tab key or keep typing to ignore it. Uses your text generation model and, when embeddings are on, your most related notes. With SystemSculpt as the model, suggestions appear once its service offers them.")
+        .addToggle((toggle) => {
+            toggle
+                .setValue(Boolean(plugin.settings.editorCompletionsEnabled))
+                .onChange(async (value) => {
+                    await plugin.getSettingsManager().updateSettings({
+                        editorCompletionsEnabled: value,
+                    });
+                    new Notice(
+                        value
+                            ? "Continuation suggestions enabled."
+                            : "Continuation suggestions disabled."
+                    );
+                });
+        });
+
     // Reset to Factory Settings button
     const resetSetting = new Setting(containerEl)
         .setName("Reset to factory settings")
@@ -17,7 +17,9 @@ async function handleDirectoryChange(
         | "recordingsDirectory"
         | "chatsDirectory"
         | "extractionsDirectory"
-        | "savedChatsDirectory",
+        | "savedChatsDirectory"
+        | "promptTemplatesDirectory"
+        | "agentPersonasDirectory",
     createFolder: boolean = false
 ) {
     const { plugin } = tabInstance;
@@ -47,7 +49,9 @@ function createDirectorySetting(
         | "recordingsDirectory"
         | "chatsDirectory"
         | "extractionsDirectory"
-        | "savedChatsDirectory",
+        | "savedChatsDirectory"
+        | "promptTemplatesDirectory"
+        | "agentPersonasDirectory",
     placeholder: string
 ) {
     const { app, plugin } = tabInstance;
@@ -136,6 +140,24 @@ export function displayDirectoriesTabContent(containerEl: HTMLElement, tabInstan
         "Path relative to vault root (empty = file's parent folder)"
     );
 
+    createDirectorySetting(
+        containerEl,
+        tabInstance,
+        "Prompt templates directory",
+        "Notes here become / commands in the chat composer.",
+        "promptTemplatesDirectory",
+        "Path relative to vault root (empty = SystemSculpt/Prompts)"
+    );
+
+    createDirectorySetting(
+        containerEl,
+        tabInstance,
+        "Agent personas directory",
+        "Notes here are personas you can pick in chat settings.",
+        "agentPersonasDirectory",
+        "Path relative to vault root (empty = SystemSculpt/Personas)"
+    );
+
     containerEl.createEl("h3", { text: "Diagnostics" });
 
     const diagnosticsSetting = new Setting(containerEl)
@@ -0,0 +1,130 @@
+import { Notice, Setting } from "obsidian";
+import { SystemSculptSettingTab } from "./SystemSculptSettingTab";
+import { OpenAICompatibleClient } from "../services/providers/OpenAICompatibleClient";
+import type {
+  CapabilityProviderChoice,
+  CapabilityProviderSettings,
+  OpenAICompatibleProviderSettings,
+} from "../types";
+
+const CAPABILITY_ROWS: ReadonlyArray<{ key: keyof CapabilityProviderSettings; name: string; desc: string }> = [
+  { key: "chat", name: "Chat provider", desc: "Where chat turns run. With your own server, chats answer from the conversation and attached notes only: reading, searching, and editing the vault needs SystemSculpt." },
+  { key: "textGeneration", name: "Text generation provider", desc: "Used by Studio, workflows, and transcript post-processing." },
+  { key: "embeddings", name: "Embeddings provider", desc: "Switching providers rebuilds the similar notes index." },
+];
+
+const PROVIDER_OPTIONS: Record<CapabilityProviderChoice, string> = {
+  systemsculpt: "SystemSculpt",
+  "openai-compatible": "OpenAI-compatible server",
+};
+
+export function displayProvidersSection(containerEl: HTMLElement, tabInstance: SystemSculptSettingTab) {
+  containerEl.empty();
+  const { plugin } = tabInstance;
+
+  containerEl.createEl("h3", { text: "Providers" });
+  containerEl.createEl("p", {
+    // eslint-disable-next-line obsidianmd/ui/sentence-case -- Product names.
+    text: "Run chat, text generation, or embeddings against any OpenAI-compatible server, such as llama.cpp, Ollama, or LM Studio.",
+    cls: "setting-item-description",
+  });
+
+  for (const row of CAPABILITY_ROWS) {
+    new Setting(containerEl)
+      .setName(row.name)
+      .setDesc(row.desc)
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOptions(PROVIDER_OPTIONS)
+          .setValue(plugin.settings.capabilityProviders[row.key])
+          .onChange(async (value) => {
+            await plugin.getSettingsManager().updateSettings({
+              capabilityProviders: {
+                ...plugin.settings.capabilityProviders,
+                [row.key]: value as CapabilityProviderChoice,
+              },
+            });
+          });
+      });
+  }
+
+  const updateProfile = async (patch: Partial<OpenAICompatibleProviderSettings>) => {
+    await plugin.getSettingsManager().updateSettings({
+      openAICompatibleProvider: { ...plugin.settings.openAICompatibleProvider, ...patch },
+    });
+  };
+
+  new Setting(containerEl)
+    .setName("Base URL")
+    .setDesc("The server's OpenAI-compatible root, usually ending in /v1.")
+    .addText((text) => {
+      text
+        // eslint-disable-next-line obsidianmd/ui/sentence-case -- Example URL.
+        .setPlaceholder("http://localhost:11434/v1")
+        .setValue(plugin.settings.openAICompatibleProvider.baseUrl)
+        .onChange(async (value) => {
+          await updateProfile({ baseUrl: value });
+        });
+    });
+
+  new Setting(containerEl)
+    .setName("API key")
+    .setDesc("Optional. Local servers usually need none. Excluded from settings backups.")
+    .addText((text) => {
+      text
+        // eslint-disable-next-line obsidianmd/ui/sentence-case -- Example key prefix.
+        .setPlaceholder("sk-...")
+        .setValue(plugin.settings.openAICompatibleApiKey);
+      text.inputEl.type = "password";
+      text.onChange(async (value) => {
+        await plugin.getSettingsManager().updateSettings({ openAICompatibleApiKey: value });
+      });
+    });
+
+  const modelRows: ReadonlyArray<{ key: keyof OpenAICompatibleProviderSettings; name: string; placeholder: string }> = [
+    { key: "chatModel", name: "Chat model", placeholder: "llama3.1:8b" },
+    { key: "textGenerationModel", name: "Text generation model", placeholder: "llama3.1:8b" },
+    { key: "embeddingsModel", name: "Embeddings model", placeholder: "nomic-embed-text" },
+  ];
+  for (const row of modelRows) {
+    new Setting(containerEl)
+      .setName(row.name)
+      .addText((text) => {
+        text
+          .setPlaceholder(row.placeholder)
+          .setValue(plugin.settings.openAICompatibleProvider[row.key])
+          .onChange(async (value) => {
+            await updateProfile({ [row.key]: value });
+          });
+      });
+  }
+
+  new Setting(containerEl)
+    .setName("Test connection")
+    .setDesc("Lists the models the server reports.")
+    .addButton((button) => {
+      button.setButtonText("Test").onClick(async () => {
+        button.setDisabled(true).setButtonText("Testing...");
+        try {
+          const client = new OpenAICompatibleClient({
+            profile: () => ({
+              ...plugin.settings.openAICompatibleProvider,
+              apiKey: plugin.settings.openAICompatibleApiKey,
+            }),
+          });
+          const models = await client.listModels();
+          new Notice(
+            models.length > 0
+              ? `Connected. ${models.length} model${models.length === 1 ? "" : "s"} available: ${models.slice(0, 5).join(", ")}${models.length > 5 ? ", ..." : ""}`
+              : "Connected, but the server reported no models.",
+            6000
+          );
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          new Notice(`Connection failed: ${message}`, 6000);
+        } finally {
+          button.setDisabled(false).setButtonText("Test");
+        }
+      });
+    });
+}
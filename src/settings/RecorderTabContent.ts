@@ -1,12 +1,13 @@
 import { Setting, Notice, DropdownComponent, type ToggleComponent } from "obsidian";
 import { SystemSculptSettingTab } from "./SystemSculptSettingTab";
-import { DEFAULT_SETTINGS } from "../types";
+import { DEFAULT_SETTINGS, createDefaultWorkflowEngineSettings } from "../types";
 import { getSurfaceOwnerWindow } from "../core/ui/surface/SurfaceDomContext";
 import { MicrophoneDeviceCatalog } from "../services/recorder/MicrophoneDeviceCatalog";
 import {
   getCurrentHostPreferredMicrophoneId,
   setCurrentHostPreferredMicrophoneId,
 } from "../services/recorder/RecorderPreferenceStore";
+import { normalizeTranscriptionOutputFormat } from "../services/transcription/TranscriptFormats";
 
 interface RecorderTabRenderScope {
   catalog: MicrophoneDeviceCatalog;
@@ -126,14 +127,19 @@ export async function displayRecorderTabContent(
 
   new Setting(containerEl)
     .setName("Default file format")
-    .setDesc("Choose the format used when you transcribe an audio file.")
+    .setDesc("Choose the format used when you transcribe an audio file. Speaker headings appear when the transcript identifies who is speaking.")
     .addDropdown((dropdown) => {
       dropdown
         .addOption("markdown", "Markdown note (.md)")
         .addOption("srt", "Subtitle file (.srt)")
-        .setValue(plugin.settings.transcriptionOutputFormat ?? "markdown")
-        .onChange(async (value: "markdown" | "srt") => {
-          await plugin.getSettingsManager().updateSettings({ transcriptionOutputFormat: value });
+        .addOption("vtt", "Web captions (.vtt)")
+        .addOption("json", "JSON segments")
+        .addOption("speakers", "Markdown note by speaker (.md)")
+        .setValue(normalizeTranscriptionOutputFormat(plugin.settings.transcriptionOutputFormat))
+        .onChange(async (value) => {
+          await plugin.getSettingsManager().updateSettings({
+            transcriptionOutputFormat: normalizeTranscriptionOutputFormat(value),
+          });
         });
     });
 
@@ -214,9 +220,69 @@ export async function displayRecorderTabContent(
         });
     });
 
+  renderWorkflowSettings(containerEl, tabInstance);
+
   await microphoneDevicesReady;
 }
 
+function renderWorkflowSettings(
+  containerEl: HTMLElement,
+  tabInstance: SystemSculptSettingTab,
+): void {
+  const { plugin } = tabInstance;
+  const currentEngine = () => plugin.settings.workflowEngine ?? createDefaultWorkflowEngineSettings();
+
+  containerEl.createEl("h3", { text: "Workflows" });
+
+  new Setting(containerEl)
+    .setName("Run workflows")
+    .setDesc("Run the workflows defined in your workflow folder when matching notes arrive or change.")
+    .addToggle((toggle) => {
+      toggle
+        .setValue(currentEngine().enabled)
+        .onChange(async (value) => {
+          await plugin.getSettingsManager().updateSettings({
+            workflowEngine: { ...currentEngine(), enabled: value },
+          });
+        });
+    });
+
+  new Setting(containerEl)
+    .setName("Workflow folder")
+    .setDesc("Each note in this folder defines one workflow in its properties: a trigger, optional conditions, and steps.")
+    .addText((text) => {
+      text
+        .setPlaceholder(createDefaultWorkflowEngineSettings().definitionsFolder)
+        .setValue(currentEngine().definitionsFolder);
+      tabInstance.registerListener(text.inputEl, "change", () => {
+        const value = text.inputEl.value.trim() || createDefaultWorkflowEngineSettings().definitionsFolder;
+        text.inputEl.value = value;
+        void plugin.getSettingsManager().updateSettings({
+          workflowEngine: { ...currentEngine(), definitionsFolder: value },
+        });
+      });
+    });
+
+  const skippedCount = Object.keys(currentEngine().skippedFiles ?? {}).length;
+  new Setting(containerEl)
+    .setName("Skipped files")
+    .setDesc(skippedCount === 1
+      ? "1 file is skipped after a cancelled transcription or a failed workflow."
+      : `${skippedCount} files are skipped after a cancelled transcription or a failed workflow.`)
+    .addButton((button) => {
+      button
+        .setButtonText("Clear skips")
+        .setDisabled(skippedCount === 0)
+        .onClick(async () => {
+          await plugin.getSettingsManager().updateSettings({
+            workflowEngine: { ...currentEngine(), skippedFiles: {} },
+          });
+          button.setDisabled(true);
+          new Notice("Skipped files cleared.");
+        });
+    });
+}
+
 function renderMicrophoneSetting(
   containerEl: HTMLElement,
   tabInstance: SystemSculptSettingTab,
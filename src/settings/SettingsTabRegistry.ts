@@ -8,6 +8,7 @@ type BackupTabContentModule = typeof import("./BackupTabContent");
 type EmbeddingsTabContentModule = typeof import("./EmbeddingsTabContent");
 type ImageGenerationTabContentModule = typeof import("./ImageGenerationTabContent");
 type AdvancedTabContentModule = typeof import("./AdvancedTabContent");
+type ProvidersTabContentModule = typeof import("./ProvidersTabContent");
 
 function loadSetupTabContentModule(): SetupTabContentModule {
   return require("./SetupTabContent") as SetupTabContentModule;
@@ -41,6 +42,10 @@ function loadAdvancedTabContentModule(): AdvancedTabContentModule {
   return require("./AdvancedTabContent") as AdvancedTabContentModule;
 }
 
+function loadProvidersTabContentModule(): ProvidersTabContentModule {
+  return require("./ProvidersTabContent") as ProvidersTabContentModule;
+}
+
 export interface SettingsTabConfig {
   id: string;
   label: string;
@@ -148,10 +153,14 @@ export function buildSettingsTabConfigs(tab: SystemSculptSettingTab): SettingsTa
         (parent) => {
           loadAdvancedTabContentModule().displayAdvancedTabContent(parent, tab);
         },
+        (parent) => {
+          const section = parent.createDiv();
+          loadProvidersTabContentModule().displayProvidersSection(section, tab);
+        },
       ],
       anchor: {
-        title: "Advanced, Reset, Diagnostics",
-        desc: "Reset to factory settings and open diagnostics or troubleshooting tools.",
+        title: "Advanced, Providers, Reset, Diagnostics",
+        desc: "Choose an OpenAI-compatible server for chat, text generation, or embeddings, reset to factory settings, and open diagnostics or troubleshooting tools.",
       },
     },
   );
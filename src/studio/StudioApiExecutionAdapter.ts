@@ -46,7 +46,11 @@ export class StudioApiExecutionAdapter implements StudioApiAdapter {
   }
 
   async generateText(request: StudioTextGenerationRequest): Promise<StudioTextGenerationResult> {
-    const id = operationId("text", request.runId, request.nodeId);
+    const id = operationId(
+      "text",
+      request.runId,
+      request.attempt ? `${request.nodeId}-repair-${request.attempt}` : request.nodeId
+    );
     const result = await this.plugin.getManagedCapabilityClient().generateText({
       operationId: id,
       purpose: "workflow_automation",
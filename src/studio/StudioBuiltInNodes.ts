@@ -1,33 +1,51 @@
 import { StudioNodeRegistry } from "./StudioNodeRegistry";
 import { audioExtractNode } from "./nodes/audioExtractNode";
+import { branchNode } from "./nodes/branchNode";
 import { cliCommandNode } from "./nodes/cliCommandNode";
 import { datasetNode } from "./nodes/datasetNode";
 import { imageGenerationNode } from "./nodes/imageGenerationNode";
 import { inputNode } from "./nodes/inputNode";
 import { jsonNode } from "./nodes/jsonNode";
+import { mapNode } from "./nodes/mapNode";
 import { mediaIngestNode } from "./nodes/mediaIngestNode";
+import { mergeNode } from "./nodes/mergeNode";
 import { noteNode } from "./nodes/noteNode";
+import { outputNode } from "./nodes/outputNode";
+import { projectNode } from "./nodes/projectNode";
 import { retiredHttpRequestNode } from "./nodes/retiredHttpRequestNode";
+import { switchNode } from "./nodes/switchNode";
+import { templateNode } from "./nodes/templateNode";
 import { textNode } from "./nodes/textNode";
 import { textOutputNode } from "./nodes/textOutputNode";
 import { textGenerationNode } from "./nodes/textGenerationNode";
 import { transcriptionNode } from "./nodes/transcriptionNode";
 import { terminalNode } from "./nodes/terminalNode";
 import { valueNode } from "./nodes/valueNode";
+import { vaultSearchNode } from "./nodes/vaultSearchNode";
+import { writeNoteNode } from "./nodes/writeNoteNode";
 
 export function registerBuiltInStudioNodes(registry: StudioNodeRegistry): void {
   registry.register(inputNode);
+  registry.register(outputNode);
   registry.register(jsonNode);
   registry.register(noteNode);
+  registry.register(vaultSearchNode);
+  registry.register(writeNoteNode);
   registry.register(textNode);
   registry.register(textOutputNode);
   registry.register(valueNode);
+  registry.register(templateNode);
   registry.register(textGenerationNode);
   registry.register(imageGenerationNode);
   registry.register(mediaIngestNode);
   registry.register(audioExtractNode);
   registry.register(transcriptionNode);
   registry.register(datasetNode);
+  registry.register(branchNode);
+  registry.register(switchNode);
+  registry.register(mergeNode);
+  registry.register(mapNode);
+  registry.register(projectNode);
   registry.register(retiredHttpRequestNode);
   registry.register(cliCommandNode);
   registry.register(terminalNode);
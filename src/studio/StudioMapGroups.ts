@@ -0,0 +1,109 @@
+import type { StudioCompiledGraph } from "./StudioGraphCompiler";
+import { getText } from "./nodes/shared";
+import type { StudioJsonValue, StudioNodeGroup } from "./types";
+
+export type StudioMapGroupPlan = {
+  mapNodeId: string;
+  groupId: string;
+  /** Group nodes in execution order. */
+  bodyNodeIds: string[];
+  /** The body node whose first output is collected as each element's result. */
+  resultNodeId: string;
+  /** Nodes outside the group that feed it; the map node waits for them. */
+  externalDependencyIds: string[];
+};
+
+export type StudioMapGroupResolution = {
+  plans: Map<string, StudioMapGroupPlan>;
+  /** Per map node, the reason its group cannot run. Reported when the node executes. */
+  errors: Map<string, string>;
+};
+
+/** Resolve a map node's group reference by id first, then by name. */
+export function findStudioMapGroup(
+  groups: StudioNodeGroup[] | undefined,
+  reference: StudioJsonValue | undefined
+): StudioNodeGroup | null {
+  const wanted = getText(reference).trim();
+  if (!wanted) return null;
+  const list = groups || [];
+  return (
+    list.find((group) => group.id === wanted) ||
+    list.find((group) => group.name.trim().toLowerCase() === wanted.toLowerCase()) ||
+    null
+  );
+}
+
+export function resolveStudioMapGroups(compiled: StudioCompiledGraph): StudioMapGroupResolution {
+  const plans = new Map<string, StudioMapGroupPlan>();
+  const errors = new Map<string, string>();
+  const ownerByNodeId = new Map<string, string>();
+
+  for (const mapNodeId of compiled.executionOrder) {
+    const mapNode = compiled.nodesById.get(mapNodeId)!;
+    if (mapNode.definition.controlFlow !== "map") continue;
+
+    const reference = getText(mapNode.node.config.groupId).trim();
+    const group = findStudioMapGroup(compiled.project.graph.groups, reference);
+    if (!group) {
+      errors.set(mapNodeId, reference ? `Map group "${reference}" was not found.` : "Map node needs a group to run.");
+      continue;
+    }
+
+    const memberIds = new Set(group.nodeIds.filter((nodeId) => compiled.nodesById.has(nodeId)));
+    if (memberIds.has(mapNodeId)) {
+      errors.set(mapNodeId, "A map node cannot be inside the group it runs.");
+      continue;
+    }
+    if (memberIds.size === 0) {
+      errors.set(mapNodeId, `Map group "${group.name}" has no runnable nodes.`);
+      continue;
+    }
+    const nestedMapId = Array.from(memberIds).find(
+      (nodeId) => compiled.nodesById.get(nodeId)!.definition.controlFlow === "map"
+    );
+    if (nestedMapId) {
+      errors.set(mapNodeId, `Map group "${group.name}" cannot contain another map node ("${nestedMapId}").`);
+      continue;
+    }
+    const claimedId = Array.from(memberIds).find((nodeId) => ownerByNodeId.has(nodeId));
+    if (claimedId) {
+      errors.set(
+        mapNodeId,
+        `Node "${claimedId}" already belongs to the group of map node "${ownerByNodeId.get(claimedId)}".`
+      );
+      continue;
+    }
+
+    const bodyNodeIds = compiled.executionOrder.filter((nodeId) => memberIds.has(nodeId));
+    const sinks = bodyNodeIds.filter((nodeId) =>
+      !compiled.nodesById.get(nodeId)!.outboundEdges.some((edge) => memberIds.has(edge.toNodeId))
+    );
+    const externalDependencyIds = new Set<string>();
+    for (const nodeId of bodyNodeIds) {
+      for (const edge of compiled.nodesById.get(nodeId)!.inboundEdges) {
+        if (edge.fromNodeId !== mapNodeId && !memberIds.has(edge.fromNodeId)) {
+          externalDependencyIds.add(edge.fromNodeId);
+        }
+      }
+    }
+
+    for (const nodeId of bodyNodeIds) {
+      ownerByNodeId.set(nodeId, mapNodeId);
+    }
+    plans.set(mapNodeId, {
+      mapNodeId,
+      groupId: group.id,
+      bodyNodeIds,
+      resultNodeId: sinks[sinks.length - 1],
+      externalDependencyIds: Array.from(externalDependencyIds),
+    });
+  }
+
+  return { plans, errors };
+}
+
+/** Cache key for one element's run of a body node; keyed by inputs so reordered lists still hit. */
+export function mapItemCacheKey(bodyNodeId: string, inputFingerprint: string): string {
+  return `${bodyNodeId}::map:${inputFingerprint}`;
+}
@@ -4,6 +4,8 @@ import type {
   StudioNodeConfigValidationResult,
   StudioNodeDefinition,
 } from "./types";
+import { validateStructuredOutputConfig } from "./nodes/structuredOutput";
+import { STUDIO_TEMPLATE_NODE_KIND, validateTemplateNodeConfig } from "./nodes/templateNode";
 import { isRecord } from "./utils";
 
 function cloneJsonValue<T>(value: T): T {
@@ -284,6 +286,13 @@ export function validateNodeConfig(
     }
   }
 
+  if (definition.kind === STUDIO_TEMPLATE_NODE_KIND) {
+    errors.push(...validateTemplateNodeConfig(merged));
+  }
+  if (definition.kind === "studio.text_generation") {
+    errors.push(...validateStructuredOutputConfig(merged));
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
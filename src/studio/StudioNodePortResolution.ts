@@ -1,15 +1,43 @@
 import { resolveDatasetOutputPorts } from "./nodes/datasetNode";
+import { resolveSwitchOutputPorts } from "./nodes/switchNode";
+import { isStructuredOutputMode, resolveStructuredOutputPorts } from "./nodes/structuredOutput";
+import { STUDIO_TEMPLATE_NODE_KIND, resolveTemplateInputPorts } from "./nodes/templateNode";
+import { STUDIO_SUBPROJECT_NODE_KIND, resolveSubprojectPorts } from "./StudioSubprojects";
 import type { StudioNodeDefinition, StudioNodeInstance } from "./types";
 
 export function resolveNodeDefinitionPorts(
   node: StudioNodeInstance,
   definition: StudioNodeDefinition
 ): StudioNodeDefinition {
-  if (node.kind !== "studio.dataset") {
-    return definition;
+  if (node.kind === "studio.dataset") {
+    return {
+      ...definition,
+      outputPorts: resolveDatasetOutputPorts(node.config),
+    };
   }
-  return {
-    ...definition,
-    outputPorts: resolveDatasetOutputPorts(node.config),
-  };
+  if (node.kind === "studio.switch") {
+    return {
+      ...definition,
+      outputPorts: resolveSwitchOutputPorts(node.config),
+    };
+  }
+  if (node.kind === STUDIO_TEMPLATE_NODE_KIND) {
+    return {
+      ...definition,
+      inputPorts: resolveTemplateInputPorts(node.config),
+    };
+  }
+  if (node.kind === "studio.text_generation" && isStructuredOutputMode(node.config)) {
+    return {
+      ...definition,
+      outputPorts: resolveStructuredOutputPorts(node.config),
+    };
+  }
+  if (node.kind === STUDIO_SUBPROJECT_NODE_KIND) {
+    return {
+      ...definition,
+      ...resolveSubprojectPorts(node.config),
+    };
+  }
+  return definition;
 }
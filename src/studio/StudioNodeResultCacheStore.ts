@@ -9,7 +9,8 @@ const NODE_FINGERPRINT_SALT_BY_KIND: Record<string, string> = { "studio.text_gen
 const encoder = new TextEncoder();
 const decoder = new TextDecoder();
 
-function normalizeNodeConfigForFingerprint(node: StudioNodeInstance): StudioNodeInstance["config"] {
+/** Config minus the fields a node writes back after running (last output, display state). */
+export function normalizeNodeConfigForFingerprint(node: StudioNodeInstance): StudioNodeInstance["config"] {
   if (!isRecord(node.config)) return node.config;
   const config = { ...(node.config as Record<string, StudioJsonValue>) }; const kind = String(node.kind || "").trim();
   if (kind === "studio.text_generation") { if (config.lockOutput !== true) { delete config.value; delete config.lockOutput; } delete config.textDisplayMode; }
@@ -17,14 +18,14 @@ function normalizeNodeConfigForFingerprint(node: StudioNodeInstance): StudioNode
   if (kind === "studio.media_ingest" && isRecord(config.captionBoard)) { const board = { ...(config.captionBoard as Record<string, StudioJsonValue>) }; delete board.lastRenderedAsset; delete board.updatedAt; delete board.sourceAssetPath; config.captionBoard = board; }
   return config;
 }
-function stableStringify(value: unknown): string {
+export function stableStringify(value: unknown): string {
   if (value === null || typeof value === "number" || typeof value === "boolean" || typeof value === "string") return JSON.stringify(value);
   if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
   if (isRecord(value)) return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(",")}}`;
   return JSON.stringify(String(value));
 }
 function createEmptySnapshot(projectId: string): StudioNodeCacheSnapshotV1 { return { schema: NODE_CACHE_SCHEMA, projectId, updatedAt: nowIso(), entries: {} }; }
-function normalizeEntry(raw: unknown): StudioNodeCacheEntry | null {
+export function normalizeStudioNodeCacheEntry(raw: unknown): StudioNodeCacheEntry | null {
   if (!isRecord(raw)) return null;
   const required = ["nodeId", "nodeKind", "nodeVersion", "inputFingerprint", "updatedAt", "runId"] as const;
   if (required.some((key) => typeof raw[key] !== "string" || !(raw[key] as string))) return null;
@@ -36,6 +37,12 @@ export async function buildNodeInputFingerprint(node: StudioNodeInstance, inputs
   return sha256HexFromArrayBuffer(bytes.buffer);
 }
 
+/** The cache document as stored, stamped with the current time. */
+export function serializeStudioNodeCache(snapshot: StudioNodeCacheSnapshotV1): Uint8Array {
+  const normalized: StudioNodeCacheSnapshotV1 = { schema: NODE_CACHE_SCHEMA, projectId: String(snapshot.projectId || ""), updatedAt: nowIso(), entries: snapshot.entries || {} };
+  return encoder.encode(`${JSON.stringify(normalized, null, 2)}\n`);
+}
+
 export class StudioNodeResultCacheStore {
   constructor(private readonly projectStore: StudioProjectStore) {}
   async load(projectPath: string, projectId: string): Promise<StudioNodeCacheSnapshotV1> {
@@ -44,12 +51,11 @@ export class StudioNodeResultCacheStore {
     try {
       const parsed = JSON.parse(decoder.decode(bytes)); if (!isRecord(parsed) || parsed.schema !== NODE_CACHE_SCHEMA || parsed.projectId !== projectId) return createEmptySnapshot(projectId);
       const entries: StudioNodeCacheSnapshotV1["entries"] = {};
-      for (const [nodeId, raw] of Object.entries(isRecord(parsed.entries) ? parsed.entries : {})) { const entry = normalizeEntry(raw); if (entry) entries[nodeId] = entry; }
+      for (const [nodeId, raw] of Object.entries(isRecord(parsed.entries) ? parsed.entries : {})) { const entry = normalizeStudioNodeCacheEntry(raw); if (entry) entries[nodeId] = entry; }
       return { schema: NODE_CACHE_SCHEMA, projectId, updatedAt: typeof parsed.updatedAt === "string" ? parsed.updatedAt : nowIso(), entries };
     } catch { return createEmptySnapshot(projectId); }
   }
   async save(projectPath: string, snapshot: StudioNodeCacheSnapshotV1): Promise<void> {
-    const normalized: StudioNodeCacheSnapshotV1 = { schema: NODE_CACHE_SCHEMA, projectId: String(snapshot.projectId || ""), updatedAt: nowIso(), entries: snapshot.entries || {} };
-    await this.projectStore.replaceCache(projectPath, normalized.projectId, encoder.encode(`${JSON.stringify(normalized, null, 2)}\n`));
+    await this.projectStore.replaceCache(projectPath, String(snapshot.projectId || ""), serializeStudioNodeCache(snapshot));
   }
 }
@@ -19,20 +19,29 @@ const NODE_REFERENCE_SCHEMA = "studio.node-kind-reference.v1" as const;
 
 const NODE_PURPOSES: Readonly<Record<string, string>> = {
   "studio.audio_extract": "Extract audio from a media asset for downstream transcription or processing.",
+  "studio.branch": "Route a value to the true or false output; nodes downstream of the untaken port are skipped.",
   "studio.cli_command": "Run a configured command in an approved filesystem scope on a desktop host.",
   "studio.dataset": "Represent, inspect, and emit structured tabular or record-oriented data.",
   "studio.image_generation": "Generate or edit images through the managed SystemSculpt API.",
   "studio.input": "Provide a static value or text input to downstream executable nodes.",
   "studio.json": "Provide, parse, or normalize JSON content for downstream nodes.",
+  "studio.map": "Run the nodes of a named group once per element of a JSON array (wire the item port into the group) and emit the collected results.",
   "studio.media_ingest": "Reference image, video, audio, or binary media for downstream nodes.",
+  "studio.merge": "Rejoin branched paths by emitting the first input that received a value.",
   "studio.note": "Read one or more vault Markdown notes and emit their content and paths.",
+  "studio.output": "Expose a value as a named output port when this project is embedded in another project.",
+  "studio.project": "Run another .systemsculpt project as one node; its input nodes become input ports and its output nodes become output ports.",
   "studio.retired_http_request": "Retained only for compatibility with older projects; do not add new instances.",
+  "studio.switch": "Route a value to the first case output its text matches, or to default; other outputs are skipped.",
+  "studio.template": "Render text from a template; each {{name}} in config.template becomes an input port.",
   "studio.terminal": "Visual terminal surface; it is canvas content, not an executable graph step.",
   "studio.text": "Provide minimal freeform canvas text that can also feed downstream text inputs.",
   "studio.text_generation": "Generate text from a required prompt input through the managed SystemSculpt API.",
   "studio.text_output": "Display or preserve text produced by another node.",
   "studio.transcription": "Transcribe an audio or video asset through the managed SystemSculpt API.",
   "studio.value": "Provide a typed primitive or structured value to downstream nodes.",
+  "studio.vault_search": "Search vault notes by keywords or meaning for a query input.",
+  "studio.write_note": "Write content into a vault Markdown note at a templated path and merge frontmatter; dryRun previews without writing.",
 };
 
 type AgentConfigFieldReference = {
@@ -69,19 +78,36 @@ function compactConfigField(
   };
 }
 
-function createNodeKindReference(definition: StudioNodeDefinition) {
-  const visualOnly = isStudioVisualOnlyNodeKind(definition.kind);
-  const resizeBounds = resolveStudioGraphNodeResizeBounds({ kind: definition.kind });
-  const sizeLimitProfile = definition.kind === "studio.text"
+function resolveNodeKindCanvas(kind: string) {
+  const resizeBounds = resolveStudioGraphNodeResizeBounds({ kind });
+  const sizeLimitProfile = kind === "studio.text"
     ? "text"
-    : definition.kind === "studio.terminal"
+    : kind === "studio.terminal"
       ? "terminal"
       : resizeBounds.minWidth > 220 || resizeBounds.minHeight > 120
         ? "large"
         : "standard";
+  return {
+    defaultSize: resolveStudioNodeDefaultSize(kind),
+    resizeMode: resolveStudioNodeResizeSemantics(kind),
+    sizeLimitProfile,
+  };
+}
+
+// Most kinds share this canvas and version. The reference lists them once as
+// defaultCanvas and defaultVersion, and each kind repeats only a canvas or
+// version that differs. Every project file embeds this reference, and with
+// the full canvas and version on each kind a new project no longer fits in one
+// ordinary vault read.
+const DEFAULT_NODE_KIND_CANVAS = resolveNodeKindCanvas("studio.input");
+const DEFAULT_NODE_KIND_VERSION = "1.0.0";
+
+function createNodeKindReference(definition: StudioNodeDefinition) {
+  const visualOnly = isStudioVisualOnlyNodeKind(definition.kind);
+  const canvas = resolveNodeKindCanvas(definition.kind);
   return {
     kind: definition.kind,
-    version: definition.version,
+    ...(definition.version !== DEFAULT_NODE_KIND_VERSION ? { version: definition.version } : {}),
     purpose: NODE_PURPOSES[definition.kind] || "Built-in Studio node.",
     ...(definition.hiddenFromInsertMenu === true ? { newNodeAvailability: "existing_only" as const } : {}),
     execution: {
@@ -90,11 +116,7 @@ function createNodeKindReference(definition: StudioNodeDefinition) {
         ? { requiredHostCapabilities: [...definition.requiredHostCapabilities] }
         : {}),
     },
-    canvas: {
-      defaultSize: resolveStudioNodeDefaultSize(definition.kind),
-      resizeMode: resolveStudioNodeResizeSemantics(definition.kind),
-      sizeLimitProfile,
-    },
+    ...(JSON.stringify(canvas) !== JSON.stringify(DEFAULT_NODE_KIND_CANVAS) ? { canvas } : {}),
     ports: {
       inputs: definition.inputPorts.map((port) => ({ ...port })),
       outputs: definition.outputPorts.map((port) => ({ ...port })),
@@ -146,6 +168,7 @@ export const STUDIO_PROJECT_AGENT_GUIDE = {
     coordinateSystem: "Canvas pixels with origin at the top-left; x increases right and y increases down.",
     position: "node.position is the top-left corner of the node card.",
     size: "node.size is optional. Omit it to use the kind default; width is required when size is present and height may be omitted for intrinsic-height content.",
+    kindDefaults: "A nodeKindReference kind without canvas or version uses the reference's defaultCanvas or defaultVersion.",
     layout: "Prefer left-to-right execution flow. Resolve node dimensions before placement, avoid overlap, use about 90px between columns and at least 20px between rows.",
     newNodes: "After this file is edited, Studio selects and frames newly added node IDs.",
   },
@@ -167,6 +190,8 @@ export const STUDIO_PROJECT_NODE_KIND_REFERENCE = {
     text: resolveStudioGraphNodeResizeBounds({ kind: "studio.text" }),
     terminal: resolveStudioGraphNodeResizeBounds({ kind: "studio.terminal" }),
   },
+  defaultVersion: DEFAULT_NODE_KIND_VERSION,
+  defaultCanvas: DEFAULT_NODE_KIND_CANVAS,
   kinds: builtInRegistry.list()
     .sort((left, right) => left.kind.localeCompare(right.kind) || left.version.localeCompare(right.version))
     .map(createNodeKindReference),
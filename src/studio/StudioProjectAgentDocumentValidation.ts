@@ -34,7 +34,8 @@ const NODE_SIZE_FIELDS = new Set(["width", "height"]);
 const EDGE_FIELDS = new Set(["id", "fromNodeId", "fromPortId", "toNodeId", "toPortId"]);
 const GROUP_FIELDS = new Set(["id", "name", "color", "nodeIds"]);
 const PERMISSIONS_FIELDS = new Set(["policyVersion", "policyPath"]);
-const SETTINGS_FIELDS = new Set(["runConcurrency", "defaultFsScope", "retention"]);
+const SETTINGS_FIELDS = new Set(["runConcurrency", "defaultFsScope", "retention", "triggers"]);
+const TRIGGER_TYPES = new Set(["schedule", "file", "tag"]);
 const RETENTION_FIELDS = new Set(["maxRuns", "maxArtifactsMb"]);
 const MIGRATIONS_FIELDS = new Set(["projectSchemaVersion", "applied"]);
 const MIGRATION_FIELDS = new Set(["id", "at"]);
@@ -231,6 +232,16 @@ function assertStrictProjectEnvelope(document: Record<string, unknown>): void {
   );
   assertPositiveIntegerField(retention, "maxRuns", "settings.retention");
   assertPositiveIntegerField(retention, "maxArtifactsMb", "settings.retention");
+  if (hasOwn(settings, "triggers")) {
+    if (!Array.isArray(settings.triggers)) {
+      throw new Error("settings.triggers must be an array.");
+    }
+    settings.triggers.forEach((rawTrigger, index) => {
+      if (!isRecord(rawTrigger) || !TRIGGER_TYPES.has(String(rawTrigger.type))) {
+        throw new Error(`settings.triggers[${index}].type must be schedule, file, or tag.`);
+      }
+    });
+  }
 
   const migrations = assertClosedObject(
     document.migrations,
@@ -0,0 +1,268 @@
+import { normalizePath } from "obsidian";
+import { bytesToBase64, base64ToBytes } from "../services/embeddings/storage/EmbeddingsIndexSerialization";
+import { sha256HexFromArrayBuffer } from "./hash";
+import { deriveStudioAssetsDir } from "./paths";
+import { parseStudioProject } from "./schema";
+import { normalizeStudioNodeCacheEntry } from "./StudioNodeResultCacheStore";
+import type {
+  StudioAssetRef,
+  StudioCapability,
+  StudioCapabilityGrant,
+  StudioNodeCacheSnapshotV1,
+  StudioPermissionPolicyV1,
+  StudioProjectV1,
+} from "./types";
+import { asString, ensureArray, isBlanketCliCommandPattern, isRecord } from "./utils";
+
+/**
+ * A Studio project packed into one JSON file so it can move between vaults.
+ * Support files are keyed by their path inside the project's
+ * `.systemsculpt-assets` folder, so an import only has to swap the folder
+ * prefix. Grants never travel as live permissions: the importing vault sees
+ * them as requests and decides again.
+ */
+
+export const STUDIO_BUNDLE_SCHEMA_V1 = "studio.bundle.v1" as const;
+export const STUDIO_BUNDLE_FILE_SUFFIX = ".systemsculpt-bundle.json" as const;
+
+/** Grants every project gets on open; bundles neither carry nor request these. */
+export const DEFAULT_STUDIO_CLI_COMMAND_PATTERNS = ["ffmpeg", "ffprobe", "*/ffmpeg", "*/ffprobe"] as const;
+
+/** Only content the graph can point at is bundled; runs, policy and manifests stay behind. */
+const BUNDLED_SUPPORT_PATH = /^(?:assets\/sha256\/[0-9a-f]{2}\/[0-9a-f]{64}\.[a-z0-9]+|imports\/[^/]+)$/;
+const CONTENT_ADDRESSED_PATH = /^assets\/sha256\/[0-9a-f]{2}\/([0-9a-f]{64})\.[a-z0-9]+$/;
+const ASSET_HASH = /^[0-9a-f]{64}$/;
+
+export type StudioBundleRequestedGrant = {
+  capability: StudioCapability;
+  scope: StudioCapabilityGrant["scope"];
+};
+
+export type StudioBundleFile = {
+  /** Path relative to the project's `.systemsculpt-assets` folder. */
+  path: string;
+  base64: string;
+};
+
+export type StudioProjectBundleV1 = {
+  schema: typeof STUDIO_BUNDLE_SCHEMA_V1;
+  exportedAt: string;
+  pluginVersion: string;
+  /** The support folder the project's paths were written against. */
+  sourceAssetsDir: string;
+  project: StudioProjectV1;
+  requestedGrants: StudioBundleRequestedGrant[];
+  files: StudioBundleFile[];
+  nodeCache?: StudioNodeCacheSnapshotV1;
+};
+
+export type StudioProjectBundleImportResult = {
+  path: string;
+  project: StudioProjectV1;
+  /** `kind@version` of nodes this plugin cannot run. */
+  missingNodeKinds: string[];
+  /** Grants the exporting vault had beyond the defaults; not applied. */
+  requestedGrants: StudioBundleRequestedGrant[];
+  /** Bundled files that failed validation and were left out. */
+  skippedFiles: string[];
+};
+
+function visitStrings(value: unknown, visit: (text: string) => string): unknown {
+  if (typeof value === "string") return visit(value);
+  if (Array.isArray(value)) return value.map((entry) => visitStrings(entry, visit));
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, visitStrings(entry, visit)]));
+  }
+  return value;
+}
+
+/** Support-relative paths of every file under `assetsDir` that `value` mentions. */
+export function collectStudioSupportReferences(value: unknown, assetsDir: string): string[] {
+  const prefix = `${assetsDir}/`;
+  const found = new Set<string>();
+  visitStrings(value, (text) => {
+    if (text.startsWith(prefix)) {
+      const relative = normalizePath(text.slice(prefix.length));
+      if (BUNDLED_SUPPORT_PATH.test(relative)) found.add(relative);
+    }
+    return text;
+  });
+  return [...found].sort();
+}
+
+/** Rewrites every path under `fromDir` to the same path under `toDir`. */
+export function remapStudioSupportPaths<T>(value: T, fromDir: string, toDir: string): T {
+  if (fromDir === toDir) return value;
+  return visitStrings(value, (text) => (
+    text === fromDir || text.startsWith(`${fromDir}/`) ? `${toDir}${text.slice(fromDir.length)}` : text
+  )) as T;
+}
+
+/** Drops what every project is granted on open anyway, and blanket CLI patterns. */
+function toRequestedGrant(grant: StudioBundleRequestedGrant): StudioBundleRequestedGrant | null {
+  if (grant.capability === "filesystem") {
+    const allowedPaths = (grant.scope.allowedPaths || []).filter((path) => path !== "/");
+    return allowedPaths.length > 0 ? { capability: "filesystem", scope: { allowedPaths } } : null;
+  }
+  const allowedCommandPatterns = (grant.scope.allowedCommandPatterns || []).filter((pattern) => (
+    !isBlanketCliCommandPattern(pattern)
+    && !(DEFAULT_STUDIO_CLI_COMMAND_PATTERNS as readonly string[]).includes(pattern)
+  ));
+  return allowedCommandPatterns.length > 0 ? { capability: "cli", scope: { allowedCommandPatterns } } : null;
+}
+
+/** Grants worth asking the importing vault about, without ids or approval stamps. */
+export function requestedGrantsFromPolicy(policy: StudioPermissionPolicyV1): StudioBundleRequestedGrant[] {
+  return policy.grants.flatMap((grant) => {
+    const requested = toRequestedGrant(grant);
+    return requested ? [requested] : [];
+  });
+}
+
+export function buildStudioProjectBundle(options: {
+  projectPath: string;
+  project: StudioProjectV1;
+  policy: StudioPermissionPolicyV1;
+  files: ReadonlyMap<string, Uint8Array>;
+  nodeCache?: StudioNodeCacheSnapshotV1 | null;
+  pluginVersion: string;
+  exportedAt: string;
+}): StudioProjectBundleV1 {
+  const bundle: StudioProjectBundleV1 = {
+    schema: STUDIO_BUNDLE_SCHEMA_V1,
+    exportedAt: options.exportedAt,
+    pluginVersion: options.pluginVersion,
+    sourceAssetsDir: deriveStudioAssetsDir(options.projectPath),
+    project: options.project,
+    requestedGrants: requestedGrantsFromPolicy(options.policy),
+    files: [...options.files].map(([path, bytes]) => ({ path, base64: bytesToBase64(bytes) })),
+  };
+  if (options.nodeCache) bundle.nodeCache = options.nodeCache;
+  return bundle;
+}
+
+export function serializeStudioProjectBundle(bundle: StudioProjectBundleV1): string {
+  return `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+function parseRequestedGrant(raw: unknown): StudioBundleRequestedGrant | null {
+  if (!isRecord(raw)) return null;
+  const capability = asString(raw.capability).trim();
+  if (capability !== "cli" && capability !== "filesystem") return null;
+  const scope = isRecord(raw.scope) ? raw.scope : {};
+  const list = (value: unknown) => ensureArray<unknown>(value).map((entry) => asString(entry).trim()).filter(Boolean);
+  return toRequestedGrant({
+    capability,
+    scope: capability === "filesystem"
+      ? { allowedPaths: list(scope.allowedPaths) }
+      : { allowedCommandPatterns: list(scope.allowedCommandPatterns) },
+  });
+}
+
+function isBundledAssetRef(value: unknown): value is StudioAssetRef {
+  return isRecord(value)
+    && typeof value.hash === "string" && ASSET_HASH.test(value.hash)
+    && typeof value.mimeType === "string"
+    && typeof value.path === "string"
+    && Number.isInteger(value.sizeBytes) && (value.sizeBytes as number) >= 0;
+}
+
+/**
+ * Keeps cached results only for nodes of the bundled graph whose kind and
+ * version match and whose artifacts are well formed. Other entries are
+ * dropped, so the imported project reruns those nodes.
+ */
+function parseBundledNodeCache(raw: unknown, project: StudioProjectV1): StudioNodeCacheSnapshotV1 | undefined {
+  if (!isRecord(raw) || raw.schema !== "studio.node-cache.v1" || !isRecord(raw.entries)) return undefined;
+  const nodes = new Map(project.graph.nodes.map((node) => [node.id, node]));
+  const entries: StudioNodeCacheSnapshotV1["entries"] = {};
+  for (const [nodeId, value] of Object.entries(raw.entries)) {
+    const entry = normalizeStudioNodeCacheEntry(value);
+    const node = nodes.get(nodeId);
+    if (!entry || !node || entry.nodeId !== nodeId || entry.nodeKind !== node.kind || entry.nodeVersion !== node.version) {
+      continue;
+    }
+    const artifacts = isRecord(value) ? value.artifacts : undefined;
+    if (artifacts !== undefined && !(Array.isArray(artifacts) && artifacts.every(isBundledAssetRef))) {
+      continue;
+    }
+    entries[nodeId] = entry;
+  }
+  if (Object.keys(entries).length === 0) return undefined;
+  return {
+    schema: "studio.node-cache.v1",
+    projectId: asString(raw.projectId),
+    updatedAt: asString(raw.updatedAt),
+    entries,
+  };
+}
+
+export function parseStudioProjectBundle(rawText: string): StudioProjectBundleV1 {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawText);
+  } catch {
+    throw new Error("Invalid Studio bundle: the file is not JSON.");
+  }
+  if (!isRecord(parsed) || asString(parsed.schema) !== STUDIO_BUNDLE_SCHEMA_V1) {
+    throw new Error(`Invalid Studio bundle: expected schema "${STUDIO_BUNDLE_SCHEMA_V1}".`);
+  }
+  const sourceAssetsDir = normalizePath(asString(parsed.sourceAssetsDir).trim());
+  if (!sourceAssetsDir.endsWith(".systemsculpt-assets")) {
+    throw new Error("Invalid Studio bundle: sourceAssetsDir is missing.");
+  }
+  const project = parseStudioProject(JSON.stringify(parsed.project ?? null));
+  const files = ensureArray<unknown>(parsed.files).filter(isRecord).map((file) => ({
+    path: asString(file.path),
+    base64: asString(file.base64),
+  }));
+  const bundle: StudioProjectBundleV1 = {
+    schema: STUDIO_BUNDLE_SCHEMA_V1,
+    exportedAt: asString(parsed.exportedAt),
+    pluginVersion: asString(parsed.pluginVersion),
+    sourceAssetsDir,
+    project,
+    requestedGrants: ensureArray<unknown>(parsed.requestedGrants).flatMap((raw) => {
+      const grant = parseRequestedGrant(raw);
+      return grant ? [grant] : [];
+    }),
+    files,
+  };
+  const nodeCache = parseBundledNodeCache(parsed.nodeCache, project);
+  if (nodeCache) bundle.nodeCache = nodeCache;
+  return bundle;
+}
+
+/**
+ * Decodes the bundled files, dropping any outside the asset and import
+ * folders, any that are not valid base64, and content-addressed assets whose
+ * bytes do not match their hash.
+ */
+export async function decodeStudioBundleFiles(bundle: StudioProjectBundleV1): Promise<{
+  files: Map<string, Uint8Array>;
+  skipped: string[];
+}> {
+  const files = new Map<string, Uint8Array>();
+  const skipped: string[] = [];
+  for (const file of bundle.files) {
+    const path = normalizePath(file.path);
+    if (!BUNDLED_SUPPORT_PATH.test(path) || files.has(path)) {
+      skipped.push(file.path);
+      continue;
+    }
+    let bytes: Uint8Array;
+    try {
+      bytes = base64ToBytes(file.base64);
+    } catch {
+      skipped.push(path);
+      continue;
+    }
+    const expectedHash = CONTENT_ADDRESSED_PATH.exec(path)?.[1];
+    if (expectedHash && await sha256HexFromArrayBuffer(bytes.slice().buffer) !== expectedHash) {
+      skipped.push(path);
+      continue;
+    }
+    files.set(path, bytes);
+  }
+  return { files, skipped };
+}
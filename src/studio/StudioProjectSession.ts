@@ -30,6 +30,7 @@ export type StudioProjectSessionMutationReason =
   | "project.load"
   | "project.reload"
   | "project.repair"
+  | "project.settings"
   | "unknown";
 
 export type StudioProjectSessionExternalUpdateResult = {
@@ -27,12 +27,25 @@ import {
 } from "./persistence/StudioProjectGenerationStore";
 import { ObsidianStudioGenerationAdapter } from "./persistence/ObsidianStudioGenerationAdapter";
 
+/** What a new project starts with instead of an empty graph. */
+export type StudioProjectInitialContents = {
+  project: StudioProjectV1;
+  assets?: readonly StudioAssetGenerationFile[];
+  supportFiles?: readonly StudioSupportGenerationFile[];
+  cacheDocument?: Uint8Array;
+};
+
 type CreateProjectOptions = {
   name: string;
   projectPath?: string;
   minPluginVersion: string;
   maxRuns: number;
   maxArtifactsMb: number;
+  /**
+   * Builds the first generation from the allocated path and the empty
+   * project, so everything is written in one commit or not at all.
+   */
+  contents?: (projectPath: string, project: StudioProjectV1) => StudioProjectInitialContents;
 };
 
 const encoder = new TextEncoder();
@@ -140,13 +153,18 @@ export class StudioProjectStore {
     const initialPath = options.projectPath?.trim() || `${DEFAULT_STUDIO_PROJECTS_DIR}/${fileName}`;
     const projectPath = await this.resolveUniqueProjectPath(initialPath);
     const policyPath = deriveStudioPolicyPath(projectPath);
-    const project = createEmptyStudioProject({ name: options.name.trim() || "Untitled Studio Project", policyPath, minPluginVersion: options.minPluginVersion, maxRuns: options.maxRuns, maxArtifactsMb: options.maxArtifactsMb });
+    const empty = createEmptyStudioProject({ name: options.name.trim() || "Untitled Studio Project", policyPath, minPluginVersion: options.minPluginVersion, maxRuns: options.maxRuns, maxArtifactsMb: options.maxArtifactsMb });
+    const contents = options.contents?.(projectPath, empty) ?? { project: empty };
+    const project = contents.project;
     const result = await this.generations.create({
       kind: "create",
       projectId: project.projectId,
       projectDocument: encoder.encode(serializeStudioProject(project)),
       policyDocument: encoder.encode(serializeStudioPolicy(createDefaultStudioPolicy())),
       projectManifest: encoder.encode(`${JSON.stringify({ schema: "studio.manifest.v1", projectId: project.projectId, projectPath, assetsDir: deriveStudioAssetsDir(projectPath), createdAt: nowIso() }, null, 2)}\n`),
+      assets: contents.assets,
+      supportFiles: contents.supportFiles,
+      cacheDocument: contents.cacheDocument,
     }, { vaultRelativeProjectPath: projectPath });
     if (result.status !== "committed") throw studioPersistenceError("create", result);
     this.remember(projectPath, result.expectedGeneration, result.generation);
@@ -0,0 +1,255 @@
+import { normalizePath } from "obsidian";
+import { normalizeWorkflowTag } from "../services/workflow/WorkflowMatcher";
+import type { StudioProjectTrigger, StudioRunTrigger } from "./types";
+import { asString, ensureArray, isRecord, randomId } from "./utils";
+
+export type StudioCronSchedule = {
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  daysOfWeek: ReadonlySet<number>;
+  // Cron matches either day field when both are restricted.
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+};
+
+type CronField = { name: string; min: number; max: number };
+
+const CRON_FIELDS: readonly CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+// Far enough to reach the next Feb 29 and still end for impossible dates like "0 0 31 2 *".
+const MAX_CRON_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseCronNumber(raw: string, field: CronField): number {
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid ${field.name} "${raw}" in schedule.`);
+  }
+  const value = Number(raw);
+  if (value < field.min || value > field.max) {
+    throw new Error(`The ${field.name} must be between ${field.min} and ${field.max}.`);
+  }
+  return value;
+}
+
+function parseCronField(raw: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  for (const part of raw.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = typeof stepText === "undefined" ? 1 : parseCronNumber(stepText, { ...field, min: 1 });
+    let start = field.min;
+    let end = field.max;
+    if (range !== "*") {
+      const bounds = range.split("-");
+      start = parseCronNumber(bounds[0], field);
+      end = bounds.length > 1 ? parseCronNumber(bounds[1], field) : typeof stepText === "undefined" ? start : field.max;
+      if (bounds.length > 2 || end < start) {
+        throw new Error(`Invalid ${field.name} range "${range}" in schedule.`);
+      }
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/** Parse a five-field cron expression: minute hour day-of-month month day-of-week. */
+export function parseStudioCronExpression(expression: string): StudioCronSchedule {
+  const parts = String(expression || "").trim().split(/\s+/).filter(Boolean);
+  if (parts.length !== CRON_FIELDS.length) {
+    throw new Error("Schedules need five fields: minute hour day-of-month month day-of-week.");
+  }
+  const [minutes, hours, daysOfMonth, months, rawDaysOfWeek] = parts.map((part, index) =>
+    parseCronField(part, CRON_FIELDS[index])
+  );
+  const daysOfWeek = new Set([...rawDaysOfWeek].map((day) => day % 7));
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== "*",
+    dayOfWeekRestricted: parts[4] !== "*",
+  };
+}
+
+function matchesCronDay(schedule: StudioCronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/** First local time strictly after `after` that the schedule matches, or null when it never does. */
+export function nextStudioCronOccurrence(schedule: StudioCronSchedule, after: Date): Date | null {
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+  const limit = after.getTime() + MAX_CRON_SEARCH_MS;
+  while (candidate.getTime() <= limit) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0);
+      continue;
+    }
+    if (!matchesCronDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1);
+      continue;
+    }
+    return candidate;
+  }
+  return null;
+}
+
+/**
+ * Latest local time strictly after `after` and at or before `until` that the
+ * schedule matches, or null when there is none. Walks back from `until`, so
+ * a long gap costs no more than a short one.
+ */
+export function latestStudioCronOccurrence(schedule: StudioCronSchedule, after: Date, until: Date): Date | null {
+  const candidate = new Date(until.getTime());
+  candidate.setSeconds(0, 0);
+  while (candidate.getTime() > after.getTime()) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setDate(1);
+      candidate.setHours(0, -1);
+      continue;
+    }
+    if (!matchesCronDay(schedule, candidate)) {
+      candidate.setHours(0, -1);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setMinutes(-1);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() - 1);
+      continue;
+    }
+    return candidate;
+  }
+  return null;
+}
+
+function parseTrigger(raw: Record<string, unknown>): StudioProjectTrigger | null {
+  const id = asString(raw.id).trim() || randomId("trigger");
+  const enabled = raw.enabled !== false;
+  switch (raw.type) {
+    case "schedule":
+      return {
+        id,
+        type: "schedule",
+        enabled,
+        cron: asString(raw.cron).trim(),
+        catchUp: raw.catchUp === "run_once" ? "run_once" : "skip",
+      };
+    case "file": {
+      const events = ensureArray<unknown>(raw.events).filter(
+        (event): event is "created" | "modified" => event === "created" || event === "modified"
+      );
+      return {
+        id,
+        type: "file",
+        enabled,
+        folder: asString(raw.folder).trim(),
+        events: events.length > 0 ? Array.from(new Set(events)) : ["created"],
+      };
+    }
+    case "tag":
+      return { id, type: "tag", enabled, tag: normalizeWorkflowTag(asString(raw.tag)) };
+    default:
+      return null;
+  }
+}
+
+/** Lenient like the rest of project parsing: unknown trigger types drop, incomplete ones stay editable. */
+export function parseStudioProjectTriggers(raw: unknown): StudioProjectTrigger[] {
+  const seen = new Set<string>();
+  const triggers: StudioProjectTrigger[] = [];
+  for (const entry of ensureArray<unknown>(raw).filter(isRecord)) {
+    const trigger = parseTrigger(entry);
+    if (!trigger) continue;
+    if (seen.has(trigger.id)) {
+      trigger.id = randomId("trigger");
+    }
+    seen.add(trigger.id);
+    triggers.push(trigger);
+  }
+  return triggers;
+}
+
+export function isPathInStudioTriggerFolder(filePath: string, folder: string): boolean {
+  const normalizedFolder = normalizePath(folder || "/").replace(/^\/+|\/+$/g, "");
+  if (!normalizedFolder) {
+    return true;
+  }
+  const normalizedFile = normalizePath(filePath);
+  return normalizedFile.startsWith(`${normalizedFolder}/`);
+}
+
+/** Why a trigger cannot fire, or null when it is complete. */
+export function describeStudioTriggerProblem(trigger: StudioProjectTrigger): string | null {
+  switch (trigger.type) {
+    case "schedule":
+      try {
+        parseStudioCronExpression(trigger.cron);
+        return null;
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+    case "file":
+      return trigger.events.length > 0 ? null : "Choose at least one file event.";
+    case "tag":
+      return trigger.tag ? null : "Enter a tag.";
+  }
+}
+
+export function describeStudioProjectTrigger(trigger: StudioProjectTrigger): string {
+  switch (trigger.type) {
+    case "schedule":
+      return `Schedule ${trigger.cron || "(empty)"}`;
+    case "file":
+      return `Note ${trigger.events.join(" or ")} in ${trigger.folder || "the vault"}`;
+    case "tag":
+      return `Tag #${trigger.tag || "(empty)"} added`;
+  }
+}
+
+export function describeStudioRunTrigger(trigger: StudioRunTrigger | undefined): string {
+  if (!trigger) {
+    return "Manual run";
+  }
+  const label = trigger.type === "schedule" ? "Scheduled" : trigger.type === "file" ? "File" : "Tag";
+  return trigger.detail ? `${label}: ${trigger.detail}` : label;
+}
+
+export function readStudioRunTrigger(raw: unknown): StudioRunTrigger | undefined {
+  if (!isRecord(raw)) return undefined;
+  const triggerId = asString(raw.triggerId).trim();
+  const type = raw.type;
+  if (!triggerId || (type !== "schedule" && type !== "file" && type !== "tag")) {
+    return undefined;
+  }
+  const detail = asString(raw.detail).trim();
+  return { triggerId, type, ...(detail ? { detail } : {}) };
+}
@@ -0,0 +1,181 @@
+import { normalizeNodeConfigForFingerprint, stableStringify } from "./StudioNodeResultCacheStore";
+import type {
+  StudioGraph,
+  StudioNodeInstance,
+  StudioNodeOutputMap,
+  StudioRunSnapshotV1,
+  StudioRunSummary,
+} from "./types";
+import { isRecord } from "./utils";
+
+/**
+ * Reads a published run back from its snapshot and event log, and compares
+ * two runs node by node. Run records are read-only views; nothing here
+ * writes to the project.
+ */
+
+export type StudioRunNodeOutcome = "executed" | "cached" | "failed" | "skipped";
+
+export type StudioRunNodeRecord = {
+  outcome: StudioRunNodeOutcome;
+  outputs?: StudioNodeOutputMap;
+  error?: string;
+};
+
+export type StudioRunRecord = {
+  summary: StudioRunSummary;
+  /** Missing when the snapshot was pruned or could not be parsed. */
+  snapshot: StudioRunSnapshotV1 | null;
+  nodes: Record<string, StudioRunNodeRecord>;
+};
+
+export type StudioRunNodeDiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export type StudioRunPortDiff = {
+  port: string;
+  before: string | null;
+  after: string | null;
+};
+
+export type StudioRunNodeDiff = {
+  nodeId: string;
+  title: string;
+  status: StudioRunNodeDiffStatus;
+  /** The node's config differs between the two snapshots. */
+  configChanged: boolean;
+  before: StudioRunNodeOutcome | null;
+  after: StudioRunNodeOutcome | null;
+  ports: StudioRunPortDiff[];
+};
+
+export function parseStudioRunSnapshot(rawText: string): StudioRunSnapshotV1 | null {
+  try {
+    const parsed: unknown = JSON.parse(rawText);
+    if (!isRecord(parsed) || parsed.schema !== "studio.run.v1" || !isRecord(parsed.project)) return null;
+    return parsed as unknown as StudioRunSnapshotV1;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The authored graph a run started from, or null when the snapshot predates
+ * `sourceGraph`. The executed graph is never restorable: it is scoped to the
+ * run's entry nodes and has project nodes replaced by their inlined children.
+ */
+export function getRestorableStudioRunGraph(record: StudioRunRecord): StudioGraph | null {
+  const graph = record.snapshot?.sourceGraph;
+  return isRecord(graph) && Array.isArray(graph.nodes) && Array.isArray(graph.edges) ? graph : null;
+}
+
+/** Final outcome and outputs per top-level node; nested project-node progress is ignored. */
+export function readStudioRunNodeRecords(eventsText: string): Record<string, StudioRunNodeRecord> {
+  const nodes: Record<string, StudioRunNodeRecord> = {};
+  for (const line of eventsText.split("\n")) {
+    if (!line.trim()) continue;
+    let event: unknown;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (!isRecord(event) || typeof event.nodeId !== "string") continue;
+    const nodeId = event.nodeId;
+    switch (event.type) {
+      case "node.cache_hit":
+        nodes[nodeId] = { ...nodes[nodeId], outcome: "cached" };
+        break;
+      case "node.output":
+        nodes[nodeId] = {
+          outcome: event.outputSource === "cache" || nodes[nodeId]?.outcome === "cached" ? "cached" : "executed",
+          ...(isRecord(event.outputs) ? { outputs: event.outputs as StudioNodeOutputMap } : {}),
+        };
+        break;
+      case "node.failed":
+        nodes[nodeId] = { outcome: "failed", error: typeof event.error === "string" ? event.error : "" };
+        break;
+      case "node.skipped":
+        nodes[nodeId] = { outcome: "skipped" };
+        break;
+    }
+  }
+  return nodes;
+}
+
+export function studioRunDurationMs(summary: StudioRunSummary): number | null {
+  if (!summary.finishedAt) return null;
+  const duration = Date.parse(summary.finishedAt) - Date.parse(summary.startedAt);
+  return Number.isFinite(duration) && duration >= 0 ? duration : null;
+}
+
+export function formatStudioRunDuration(durationMs: number | null): string {
+  if (durationMs === null) return "—";
+  if (durationMs < 1000) return `${durationMs} ms`;
+  const seconds = durationMs / 1000;
+  if (seconds < 60) return `${seconds.toFixed(seconds < 10 ? 1 : 0)} s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes} min ${Math.round(seconds % 60)} s`;
+}
+
+function formatPortValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2) ?? "";
+}
+
+function nodesById(record: StudioRunRecord): Map<string, StudioNodeInstance> {
+  return new Map((record.snapshot?.project.graph.nodes ?? []).map((node) => [node.id, node]));
+}
+
+/**
+ * Compares `after` against `before`, node by node in `after`'s graph order,
+ * then nodes only `before` had. A node is changed when any output port, its
+ * config (ignoring outputs a node stores in its own config), or whether it
+ * failed differs.
+ */
+export function diffStudioRuns(before: StudioRunRecord, after: StudioRunRecord): StudioRunNodeDiff[] {
+  const beforeNodes = nodesById(before);
+  const afterNodes = nodesById(after);
+  const nodeIds = [
+    ...new Set([
+      ...afterNodes.keys(),
+      ...Object.keys(after.nodes),
+      ...beforeNodes.keys(),
+      ...Object.keys(before.nodes),
+    ]),
+  ];
+  return nodeIds.map((nodeId) => {
+    const beforeRecord = before.nodes[nodeId];
+    const afterRecord = after.nodes[nodeId];
+    const beforeNode = beforeNodes.get(nodeId);
+    const afterNode = afterNodes.get(nodeId);
+    const beforeOutputs = beforeRecord?.outputs ?? {};
+    const afterOutputs = afterRecord?.outputs ?? {};
+    const ports = [...new Set([...Object.keys(afterOutputs), ...Object.keys(beforeOutputs)])]
+      .filter((port) => stableStringify(beforeOutputs[port] ?? null) !== stableStringify(afterOutputs[port] ?? null))
+      .map((port) => ({
+        port,
+        before: port in beforeOutputs ? formatPortValue(beforeOutputs[port]) : null,
+        after: port in afterOutputs ? formatPortValue(afterOutputs[port]) : null,
+      }));
+    const configChanged = beforeNode && afterNode
+      ? stableStringify(normalizeNodeConfigForFingerprint(beforeNode)) !== stableStringify(normalizeNodeConfigForFingerprint(afterNode))
+      : false;
+    const inBefore = Boolean(beforeNode || beforeRecord);
+    const inAfter = Boolean(afterNode || afterRecord);
+    const status: StudioRunNodeDiffStatus = !inBefore
+      ? "added"
+      : !inAfter
+        ? "removed"
+        : ports.length > 0 || configChanged || (beforeRecord?.outcome === "failed") !== (afterRecord?.outcome === "failed")
+          ? "changed"
+          : "unchanged";
+    return {
+      nodeId,
+      title: afterNode?.title || beforeNode?.title || nodeId,
+      status,
+      configChanged,
+      before: beforeRecord?.outcome ?? null,
+      after: afterRecord?.outcome ?? null,
+      ports,
+    };
+  });
+}
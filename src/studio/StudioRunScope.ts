@@ -1,4 +1,5 @@
 import type { StudioEdge, StudioProjectV1 } from "./types";
+import { findStudioMapGroup } from "./StudioMapGroups";
 import { isStudioVisualOnlyNodeKind } from "./StudioNodeKinds";
 
 function projectHasVisualOnlyNodes(project: StudioProjectV1): boolean {
@@ -86,6 +87,16 @@ export function scopeProjectForRun(
       keepNodeIds.add(edge.fromNodeId);
       upstreamQueue.push(edge.fromNodeId);
     }
+    // A map node's group produces its results, so it runs with the map node.
+    const node = nodeById.get(nodeId);
+    if (node?.kind === "studio.map") {
+      const group = findStudioMapGroup(executableProject.graph.groups, node.config.groupId);
+      for (const memberId of group?.nodeIds || []) {
+        if (keepNodeIds.has(memberId) || !nodeById.has(memberId)) continue;
+        keepNodeIds.add(memberId);
+        upstreamQueue.push(memberId);
+      }
+    }
   }
 
   const scopedNodes = executableProject.graph.nodes.filter((node) => keepNodeIds.has(node.id));
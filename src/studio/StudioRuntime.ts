@@ -4,23 +4,35 @@ import { desktopHost } from "../platform/desktopOnly";
 import { hasHostCapability } from "../platform/hostCapabilities";
 import { StudioAssetStore } from "./StudioAssetStore";
 import { StudioGraphCompiler, type StudioCompiledGraph } from "./StudioGraphCompiler";
+import { mapItemCacheKey, resolveStudioMapGroups, type StudioMapGroupPlan } from "./StudioMapGroups";
 import { StudioNodeRegistry } from "./StudioNodeRegistry";
 import { buildNodeInputFingerprint, StudioNodeResultCacheStore } from "./StudioNodeResultCacheStore";
 import { StudioPermissionManager } from "./StudioPermissionManager";
 import { StudioSandboxRunner } from "./StudioSandboxRunner";
 import { StudioProjectStore } from "./StudioProjectStore";
+import { StudioVaultNoteStore } from "./persistence/StudioVaultNoteStore";
 import { scopeProjectForRun } from "./StudioRunScope";
+import { expandStudioSubprojects, StudioSubprojectRunTracker } from "./StudioSubprojects";
+import { searchStudioVault } from "./StudioVaultSearch";
+import { readStudioRunTrigger } from "./StudioProjectTriggers";
+import { parseStudioRunSnapshot, readStudioRunNodeRecords, type StudioRunRecord } from "./StudioRunHistory";
 import type {
   StudioApiAdapter,
+  StudioEdge,
+  StudioJsonValue,
+  StudioMapGroupService,
   StudioNodeCacheSnapshotV1,
   StudioManagedOperationRef,
   StudioNodeInputMap,
   StudioNodeOutputMap,
+  StudioNodeResult,
   StudioProjectV1,
   StudioRunEvent,
   StudioRunOptions,
+  StudioRunQueueEntry,
   StudioRunSnapshotV1,
   StudioRunSummary,
+  StudioRunTrigger,
 } from "./types";
 import { deriveStudioRunsDir } from "./paths";
 import { cloneStudioProjectSnapshot } from "./StudioProjectSnapshots";
@@ -30,6 +42,7 @@ import { assertStudioNodeHostAvailable } from "./StudioHostCapabilities";
 type PendingRun = {
   runId: string;
   startedAt: string;
+  trigger?: StudioRunTrigger;
   execute: () => Promise<StudioRunSummary>;
   resolve: (summary: StudioRunSummary) => void;
   reject: (error: unknown) => void;
@@ -64,8 +77,10 @@ const PREVIEWABLE_MEDIA_EXTENSIONS = new Set([
 
 export class StudioRuntime {
   private readonly projectQueues = new Map<string, PendingRun[]>();
-  private readonly activeProjects = new Set<string>();
+  private readonly activeRuns = new Map<string, PendingRun>();
+  private readonly runQueueListeners = new Set<(projectPath: string) => void>();
   private readonly nodeResultCacheStore: StudioNodeResultCacheStore;
+  private readonly vaultNoteStore: StudioVaultNoteStore;
 
   constructor(
     private readonly app: App,
@@ -77,6 +92,7 @@ export class StudioRuntime {
     private readonly apiAdapter: StudioApiAdapter
   ) {
     this.nodeResultCacheStore = new StudioNodeResultCacheStore(projectStore);
+    this.vaultNoteStore = new StudioVaultNoteStore(app.vault);
   }
 
   private runIndexPath(projectPath: string): string {
@@ -106,6 +122,10 @@ export class StudioRuntime {
           cachedNodeIds: Array.isArray(entry.cachedNodeIds)
             ? entry.cachedNodeIds.map((nodeId: unknown) => String(nodeId || "")).filter(Boolean)
             : [],
+          skippedNodeIds: Array.isArray(entry.skippedNodeIds)
+            ? entry.skippedNodeIds.map((nodeId: unknown) => String(nodeId || "")).filter(Boolean)
+            : [],
+          trigger: readStudioRunTrigger(entry.trigger),
         }))
         .filter((entry) => entry.runId.length > 0);
     } catch {
@@ -173,6 +193,21 @@ export class StudioRuntime {
     }
   }
 
+  /** A published run's summary, snapshot and per-node results, or null once retention removed it. */
+  async getRunRecord(projectPath: string, runId: string): Promise<StudioRunRecord | null> {
+    const summary = (await this.readRunIndex(projectPath)).find((run) => run.runId === runId);
+    if (!summary) return null;
+    const runDir = `${deriveStudioRunsDir(projectPath)}/${runId}`;
+    const decoder = new TextDecoder();
+    const snapshotBytes = await this.projectStore.readSupportFile(projectPath, normalizePath(`${runDir}/snapshot.json`));
+    const eventBytes = await this.projectStore.readSupportFile(projectPath, normalizePath(`${runDir}/events.ndjson`));
+    return {
+      summary,
+      snapshot: snapshotBytes ? parseStudioRunSnapshot(decoder.decode(snapshotBytes)) : null,
+      nodes: eventBytes ? readStudioRunNodeRecords(decoder.decode(eventBytes)) : {},
+    };
+  }
+
   async getNodeCacheSnapshot(projectPath: string): Promise<StudioNodeCacheSnapshotV1> {
     const normalizedPath = normalizePath(projectPath);
     const project = await this.projectStore.loadProject(normalizedPath);
@@ -195,11 +230,13 @@ export class StudioRuntime {
       new Set((options?.forceNodeIds || []).map((nodeId) => String(nodeId || "").trim()).filter(Boolean))
     );
     const onEvent = typeof options?.onEvent === "function" ? options.onEvent : undefined;
+    const trigger = options?.trigger ? { ...options.trigger } : undefined;
 
     return await new Promise<StudioRunSummary>((resolve, reject) => {
       const pending: PendingRun = {
         runId,
         startedAt,
+        trigger,
         execute: () =>
           this.executeRun(
             normalizedPath,
@@ -211,9 +248,10 @@ export class StudioRuntime {
                   entryNodeIds: scopedEntryNodeIds.length > 0 ? scopedEntryNodeIds : undefined,
                   forceNodeIds: scopedForceNodeIds.length > 0 ? scopedForceNodeIds : undefined,
                   onEvent,
+                  trigger,
                 }
-              : onEvent
-                ? { onEvent }
+              : onEvent || trigger
+                ? { onEvent, trigger }
                 : undefined
           ),
         resolve,
@@ -223,6 +261,7 @@ export class StudioRuntime {
       const queue = this.projectQueues.get(normalizedPath) || [];
       queue.push(pending);
       this.projectQueues.set(normalizedPath, queue);
+      this.notifyRunQueueChanged(normalizedPath);
       this.drainQueue(normalizedPath).catch((error) => {
         this.plugin.getLogger().error("Studio queue drain failed", error, {
           source: "StudioRuntime",
@@ -245,23 +284,65 @@ export class StudioRuntime {
     return await this.enqueueRun(projectPath, project, options);
   }
 
+  /** The running run first, then queued runs in start order. */
+  getRunQueue(projectPath: string): StudioRunQueueEntry[] {
+    const normalizedPath = normalizePath(projectPath);
+    const active = this.activeRuns.get(normalizedPath);
+    const queued = this.projectQueues.get(normalizedPath) || [];
+    const toEntry = (pending: PendingRun, state: StudioRunQueueEntry["state"]): StudioRunQueueEntry => ({
+      runId: pending.runId,
+      projectPath: normalizedPath,
+      state,
+      queuedAt: pending.startedAt,
+      ...(pending.trigger ? { trigger: { ...pending.trigger } } : {}),
+    });
+    return [
+      ...(active ? [toEntry(active, "running")] : []),
+      ...queued.map((pending) => toEntry(pending, "queued")),
+    ];
+  }
+
+  onRunQueueChanged(listener: (projectPath: string) => void): () => void {
+    this.runQueueListeners.add(listener);
+    return () => {
+      this.runQueueListeners.delete(listener);
+    };
+  }
+
+  private notifyRunQueueChanged(projectPath: string): void {
+    for (const listener of [...this.runQueueListeners]) {
+      try {
+        listener(projectPath);
+      } catch (error) {
+        this.plugin.getLogger().warn("Studio run queue listener failed", {
+          source: "StudioRuntime",
+          metadata: {
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    }
+  }
+
   private async drainQueue(projectPath: string): Promise<void> {
-    if (this.activeProjects.has(projectPath)) return;
+    if (this.activeRuns.has(projectPath)) return;
     const queue = this.projectQueues.get(projectPath);
     if (!queue || queue.length === 0) return;
 
     const next = queue.shift()!;
-    this.activeProjects.add(projectPath);
+    this.activeRuns.set(projectPath, next);
+    this.notifyRunQueueChanged(projectPath);
     try {
       const summary = await next.execute();
       next.resolve(summary);
     } catch (error) {
       next.reject(error);
     } finally {
-      this.activeProjects.delete(projectPath);
+      this.activeRuns.delete(projectPath);
       if (queue.length === 0) {
         this.projectQueues.delete(projectPath);
       }
+      this.notifyRunQueueChanged(projectPath);
       await this.drainQueue(projectPath);
     }
   }
@@ -336,6 +417,7 @@ export class StudioRuntime {
     return this.isPreviewableMediaPath(outputPath);
   }
 
+  /** Vault notes written by nodes; Studio's own project files go through the project store. */
   private async executeRun(
     projectPath: string,
     fullProject: StudioProjectV1,
@@ -344,7 +426,12 @@ export class StudioRuntime {
     options?: StudioRunOptions
   ): Promise<StudioRunSummary> {
     await this.retryPublishedTranscriptionCleanup(projectPath);
-    const project = scopeProjectForRun(cloneStudioProjectSnapshot(fullProject), options?.entryNodeIds);
+    const subprojects = await expandStudioSubprojects(
+      scopeProjectForRun(cloneStudioProjectSnapshot(fullProject), options?.entryNodeIds),
+      projectPath,
+      (subprojectPath) => this.projectStore.loadProject(subprojectPath)
+    );
+    const project = subprojects.project;
     const policy = await this.projectStore.loadPolicy(project.permissionsRef.policyPath);
     const permissions = new StudioPermissionManager(policy);
     const sandbox = new StudioSandboxRunner(permissions);
@@ -358,13 +445,14 @@ export class StudioRuntime {
       createdAt: startedAt,
       project,
       policy,
+      sourceGraph: cloneStudioProjectSnapshot(fullProject).graph,
     };
 
     const persistedEvents: string[] = [];
     const stagedAssetFiles = new Map<string, Uint8Array>();
     const stagedAssetBytesByProjectionPath = new Map<string, Uint8Array>();
 
-    const emit = async (event: StudioRunEvent): Promise<void> => {
+    const publishEvent = async (event: StudioRunEvent): Promise<void> => {
       persistedEvents.push(`${JSON.stringify(event)}\n`);
       if (typeof options?.onEvent === "function") {
         try {
@@ -380,6 +468,19 @@ export class StudioRuntime {
         }
       }
     };
+    // Nodes expanded from project nodes report through their project node.
+    const subprojectTracker = new StudioSubprojectRunTracker(subprojects, (nodeId) => {
+      const nodeState = state.get(nodeId);
+      return {
+        outputs: outputsByNode.get(nodeId),
+        finished: nodeState === "done" || nodeState === "failed" || nodeState === "skipped",
+      };
+    });
+    const emit = async (event: StudioRunEvent): Promise<void> => {
+      for (const translated of subprojectTracker.translate(event)) {
+        await publishEvent(translated);
+      }
+    };
 
     await emit({
       type: "run.started",
@@ -395,6 +496,8 @@ export class StudioRuntime {
     );
     const executedNodeIds: string[] = [];
     const cachedNodeIds: string[] = [];
+    const skippedNodeIds: string[] = [];
+    const untakenNodeIds = new Set<string>();
     const managedOperations = new Map<string, StudioManagedOperationRef>();
 
     const outputsByNode = new Map<string, StudioNodeOutputMap>();
@@ -429,6 +532,24 @@ export class StudioRuntime {
       }
     }
 
+    const mapGroups = resolveStudioMapGroups(compiled);
+    const mapOwnerByNodeId = new Map<string, string>();
+    const mapBodyOutputs = new Map<string, Map<string, StudioNodeOutputMap[]>>();
+    const mapUsedCacheKeys = new Map<string, Set<string>>();
+    for (const plan of mapGroups.plans.values()) {
+      for (const bodyNodeId of plan.bodyNodeIds) {
+        mapOwnerByNodeId.set(bodyNodeId, plan.mapNodeId);
+      }
+      // Body nodes run inside the map node, so whatever feeds the group from
+      // outside has to finish before the map node starts.
+      const mapDependencyIds = compiled.nodesById.get(plan.mapNodeId)!.dependencyNodeIds;
+      for (const dependencyId of plan.externalDependencyIds) {
+        if (mapDependencyIds.includes(dependencyId)) continue;
+        dependencyCount.set(plan.mapNodeId, (dependencyCount.get(plan.mapNodeId) || 0) + 1);
+        dependents.set(dependencyId, [...(dependents.get(dependencyId) || []), plan.mapNodeId]);
+      }
+    }
+
     let fatalError: unknown = null;
 
     const markDependentsReady = (nodeId: string): void => {
@@ -439,6 +560,369 @@ export class StudioRuntime {
       }
     };
 
+    const executeNode = (
+      nodeId: string,
+      inputs: StudioNodeInputMap,
+      mapGroup?: StudioMapGroupService
+    ): Promise<StudioNodeResult> => {
+      const compiledNode = compiled.nodesById.get(nodeId)!;
+      return compiledNode.definition.execute({
+        runId,
+        projectPath,
+        node: compiledNode.node,
+        inputs,
+        signal: abortController.signal,
+        services: {
+          api: this.apiAdapter,
+          storeAsset: async (bytes, mimeType) => {
+            const staged = await this.assetStore.stageArrayBuffer(projectPath, bytes, mimeType);
+            stagedAssetFiles.set(staged.generationFile.contentAddressedPath, staged.generationFile.bytes);
+            stagedAssetBytesByProjectionPath.set(staged.asset.path, staged.generationFile.bytes);
+            return staged.asset;
+          },
+          readAsset: (asset) => {
+            const staged = stagedAssetBytesByProjectionPath.get(asset.path);
+            return staged ? Promise.resolve(staged.slice().buffer) : this.assetStore.readArrayBuffer(asset);
+          },
+          resolveAbsolutePath: (path) => {
+            if (!desktop) {
+              throw new Error("Local filesystem paths require Obsidian Desktop.");
+            }
+            const normalized = String(path || "").trim();
+            if (!normalized) {
+              throw new Error("Filesystem path cannot be empty.");
+            }
+            if (desktop.path.isAbsolute(normalized)) {
+              permissions.assertFilesystemPath(normalized);
+              return normalized;
+            }
+
+            const vaultPath = normalizePath(normalized);
+            permissions.assertFilesystemPath(vaultPath);
+            const adapter = this.app.vault.adapter as {
+              getFullPath?: (relativePath: string) => string;
+              basePath?: unknown;
+            };
+            if (typeof adapter.getFullPath === "function") {
+              return adapter.getFullPath(vaultPath);
+            }
+            if (typeof adapter.basePath === "string" && adapter.basePath.trim().length > 0) {
+              return desktop.path.join(adapter.basePath, vaultPath);
+            }
+            throw new Error(
+              `Unable to resolve an absolute path for "${vaultPath}". Desktop FileSystemAdapter is required.`
+            );
+          },
+          readVaultText: async (vaultPath: string) => {
+            permissions.assertFilesystemPath(vaultPath);
+            const file = this.app.vault.getAbstractFileByPath(vaultPath);
+            if (!(file instanceof TFile)) {
+              throw new Error(`Vault file not found: ${vaultPath}`);
+            }
+            if (!file.path.toLowerCase().endsWith(".md")) {
+              throw new Error(`Vault markdown file required: ${vaultPath}`);
+            }
+            const cachedRead = (this.app.vault as any).cachedRead;
+            if (typeof cachedRead === "function") {
+              return cachedRead.call(this.app.vault, file);
+            }
+            return this.app.vault.read(file);
+          },
+          vaultFileExists: (vaultPath: string) => {
+            permissions.assertFilesystemPath(vaultPath);
+            return this.app.vault.getAbstractFileByPath(normalizePath(vaultPath)) !== null;
+          },
+          writeVaultText: async (vaultPath: string, update: (current: string | null) => string) => {
+            const normalized = normalizePath(vaultPath);
+            permissions.assertFilesystemPath(normalized);
+            return this.vaultNoteStore.save(normalized, update);
+          },
+          statVaultFileSize: async (vaultPath: string) => {
+            permissions.assertFilesystemPath(vaultPath);
+            const file = this.app.vault.getAbstractFileByPath(vaultPath);
+            if (!(file instanceof TFile)) {
+              throw new Error(`Vault file not found: ${vaultPath}`);
+            }
+            const size = Number(file.stat?.size);
+            if (!Number.isFinite(size)) {
+              throw new Error(`Unable to determine vault file size: ${vaultPath}`);
+            }
+            return size;
+          },
+          readVaultBinary: async (vaultPath: string) => {
+            permissions.assertFilesystemPath(vaultPath);
+            const file = this.app.vault.getAbstractFileByPath(vaultPath);
+            if (!(file instanceof TFile)) {
+              throw new Error(`Vault file not found: ${vaultPath}`);
+            }
+            return this.app.vault.readBinary(file);
+          },
+          statLocalFileSize: async (absolutePath: string) => {
+            const normalized = String(absolutePath || "").trim();
+            if (!desktop) {
+              throw new Error("Local filesystem reads require Obsidian Desktop.");
+            }
+            if (!normalized) {
+              throw new Error("Local filesystem read path is empty.");
+            }
+            if (!desktop.path.isAbsolute(normalized)) {
+              throw new Error(
+                `Local filesystem read requires an absolute path. Received "${normalized}".`
+              );
+            }
+            permissions.assertFilesystemPath(normalized);
+            const stat = await desktop.fs.stat(normalized);
+            const size = Number(stat.size);
+            if (!Number.isFinite(size)) {
+              throw new Error(`Unable to determine local file size: ${normalized}`);
+            }
+            return size;
+          },
+          readLocalFileBinary: async (absolutePath: string) => {
+            const normalized = String(absolutePath || "").trim();
+            if (!desktop) {
+              throw new Error("Local filesystem reads require Obsidian Desktop.");
+            }
+            if (!normalized) {
+              throw new Error("Local filesystem read path is empty.");
+            }
+            if (!desktop.path.isAbsolute(normalized)) {
+              throw new Error(
+                `Local filesystem read requires an absolute path. Received "${normalized}".`
+              );
+            }
+            permissions.assertFilesystemPath(normalized);
+            const bytes = await desktop.fs.readFile(normalized);
+            return bytes.buffer.slice(
+              bytes.byteOffset,
+              bytes.byteOffset + bytes.byteLength
+            ) as ArrayBuffer;
+          },
+          writeTempFile: async (bytes, tempOptions) => {
+            if (!desktop || !tempRootDir) {
+              throw new Error("Temporary local files require Obsidian Desktop.");
+            }
+            const prefix = String(tempOptions?.prefix || "studio-node")
+              .trim()
+              .replace(/[^a-zA-Z0-9-_]+/g, "-")
+              .replace(/^-+|-+$/g, "") || "studio-node";
+            const ext = String(tempOptions?.extension || "")
+              .trim()
+              .replace(/^[.]+/, "")
+              .replace(/[^a-zA-Z0-9]+/g, "");
+            const suffix = ext ? `.${ext}` : "";
+            const tempPath = desktop.path.join(
+              tempRootDir,
+              `${prefix}-${randomId("tmp")}${suffix}`
+            );
+            await desktop.fs.writeFile(tempPath, new Uint8Array(bytes));
+            return tempPath;
+          },
+          deleteLocalFile: async (absolutePath: string) => {
+            const normalized = String(absolutePath || "").trim();
+            if (!normalized) {
+              return;
+            }
+            if (!desktop) {
+              return;
+            }
+            try {
+              await desktop.fs.unlink(normalized);
+            } catch {
+              // Best effort cleanup.
+            }
+          },
+          runCli: (request) => sandbox.runCli(request),
+          assertFilesystemPath: (path) => permissions.assertFilesystemPath(path),
+          searchVault: (request) => searchStudioVault(this.app, this.plugin, request),
+          ...(mapGroup ? { mapGroup } : {}),
+        },
+        log: (message) => {
+          this.plugin.getLogger().debug("Studio node log", {
+            source: "StudioRuntime",
+            metadata: {
+              runId,
+              nodeId,
+              message,
+            },
+          });
+        },
+      });
+    };
+
+    const runMapBodyNode = async (
+      plan: StudioMapGroupPlan,
+      bodyNodeId: string,
+      inputs: StudioNodeInputMap,
+      usedCacheKeys: Set<string>
+    ): Promise<StudioNodeOutputMap> => {
+      const compiledNode = compiled.nodesById.get(bodyNodeId)!;
+      const cachePolicy = compiledNode.definition.cachePolicy || "by_inputs";
+      const inputFingerprint = cachePolicy === "by_inputs"
+        ? await buildNodeInputFingerprint(compiledNode.node, inputs)
+        : null;
+      const cacheKey = inputFingerprint ? mapItemCacheKey(bodyNodeId, inputFingerprint) : null;
+      if (cacheKey) {
+        usedCacheKeys.add(cacheKey);
+        const cacheEntry = nodeCacheSnapshot.entries[cacheKey];
+        if (
+          cacheEntry &&
+          !forceNodeIds.has(bodyNodeId) &&
+          !forceNodeIds.has(plan.mapNodeId) &&
+          cacheEntry.nodeKind === compiledNode.node.kind &&
+          cacheEntry.nodeVersion === compiledNode.node.version &&
+          cacheEntry.inputFingerprint === inputFingerprint
+        ) {
+          return cacheEntry.outputs || {};
+        }
+      }
+
+      let result: StudioNodeResult;
+      try {
+        assertStudioNodeHostAvailable(compiledNode.definition);
+        result = await executeNode(bodyNodeId, inputs);
+      } catch (error) {
+        if (compiledNode.node.continueOnError === true) {
+          return {};
+        }
+        throw error;
+      }
+      for (const operation of result.managedOperations || []) {
+        managedOperations.set(`${operation.capability}:${operation.operationId}`, operation);
+      }
+      if (cacheKey) {
+        nodeCacheSnapshot.entries[cacheKey] = {
+          nodeId: bodyNodeId,
+          nodeKind: compiledNode.node.kind,
+          nodeVersion: compiledNode.node.version,
+          inputFingerprint: inputFingerprint!,
+          outputs: result.outputs,
+          artifacts: result.artifacts,
+          updatedAt: nowIso(),
+          runId,
+        };
+      }
+      return result.outputs;
+    };
+
+    const runMapItem = async (
+      plan: StudioMapGroupPlan,
+      item: StudioJsonValue,
+      index: number,
+      usedCacheKeys: Set<string>
+    ): Promise<StudioJsonValue> => {
+      const itemOutputs = new Map(outputsByNode);
+      itemOutputs.set(plan.mapNodeId, { item, index });
+      const skippedInItem = new Set<string>();
+      const isItemEdgeLive = (edge: StudioEdge): boolean => {
+        if (skippedInItem.has(edge.fromNodeId) || untakenNodeIds.has(edge.fromNodeId)) return false;
+        if (compiled.nodesById.get(edge.fromNodeId)?.definition.controlFlow !== "route") return true;
+        return typeof itemOutputs.get(edge.fromNodeId)?.[edge.fromPortId] !== "undefined";
+      };
+
+      for (const bodyNodeId of plan.bodyNodeIds) {
+        const compiledNode = compiled.nodesById.get(bodyNodeId)!;
+        const inboundEdges = compiledNode.inboundEdges;
+        const notTaken = inboundEdges.length > 0 && (
+          compiledNode.definition.controlFlow === "merge"
+            ? inboundEdges.every((edge) => !isItemEdgeLive(edge))
+            : inboundEdges.some((edge) => !isItemEdgeLive(edge))
+        );
+        if (notTaken) {
+          skippedInItem.add(bodyNodeId);
+          continue;
+        }
+        if (compiledNode.node.disabled === true) {
+          itemOutputs.set(bodyNodeId, {});
+          continue;
+        }
+        const inputs = this.mapNodeInputs(compiled, bodyNodeId, itemOutputs);
+        itemOutputs.set(bodyNodeId, await runMapBodyNode(plan, bodyNodeId, inputs, usedCacheKeys));
+      }
+
+      const collected = mapBodyOutputs.get(plan.mapNodeId)!;
+      for (const bodyNodeId of plan.bodyNodeIds) {
+        collected.get(bodyNodeId)![index] = skippedInItem.has(bodyNodeId)
+          ? {}
+          : itemOutputs.get(bodyNodeId) || {};
+      }
+      if (skippedInItem.has(plan.resultNodeId)) {
+        return null;
+      }
+      const resultOutputs = itemOutputs.get(plan.resultNodeId) || {};
+      const resultPort = compiled.nodesById
+        .get(plan.resultNodeId)!
+        .definition.outputPorts.find((port) => typeof resultOutputs[port.id] !== "undefined");
+      return resultPort ? resultOutputs[resultPort.id] : null;
+    };
+
+    const createMapGroupService = (nodeId: string): StudioMapGroupService | undefined => {
+      const planError = mapGroups.errors.get(nodeId);
+      if (planError) {
+        throw new Error(planError);
+      }
+      const plan = mapGroups.plans.get(nodeId);
+      if (!plan) {
+        return undefined;
+      }
+      const usedCacheKeys = new Set<string>();
+      mapUsedCacheKeys.set(nodeId, usedCacheKeys);
+      mapBodyOutputs.set(
+        nodeId,
+        new Map(plan.bodyNodeIds.map((bodyNodeId) => [bodyNodeId, [] as StudioNodeOutputMap[]]))
+      );
+      return {
+        concurrency: Math.min(
+          ...plan.bodyNodeIds.map(
+            (bodyNodeId) => CONCURRENCY_LIMITS[compiled.nodesById.get(bodyNodeId)!.definition.capabilityClass]
+          )
+        ),
+        runItem: (item, index) => runMapItem(plan, item, index, usedCacheKeys),
+      };
+    };
+
+    // Body nodes report one output per port holding every element's value, so
+    // nodes outside the group that read from them receive the collected list.
+    const finishMapBody = async (mapNodeId: string, succeeded: boolean): Promise<void> => {
+      const plan = mapGroups.plans.get(mapNodeId);
+      if (!plan) return;
+      const collected = mapBodyOutputs.get(mapNodeId);
+      const usedCacheKeys = mapUsedCacheKeys.get(mapNodeId);
+      for (const bodyNodeId of plan.bodyNodeIds) {
+        if (succeeded && usedCacheKeys) {
+          // Drop per-element results for elements no longer in the list.
+          const prefix = mapItemCacheKey(bodyNodeId, "");
+          for (const key of Object.keys(nodeCacheSnapshot.entries)) {
+            if (key.startsWith(prefix) && !usedCacheKeys.has(key)) {
+              delete nodeCacheSnapshot.entries[key];
+            }
+          }
+        }
+        const perItem = collected?.get(bodyNodeId) || [];
+        const outputs: StudioNodeOutputMap = {};
+        if (succeeded) {
+          for (const port of compiled.nodesById.get(bodyNodeId)!.definition.outputPorts) {
+            outputs[port.id] = Array.from(perItem, (itemOutputs) => itemOutputs?.[port.id] ?? null);
+          }
+        }
+        outputsByNode.set(bodyNodeId, outputs);
+        state.set(bodyNodeId, "done");
+        if (succeeded) {
+          executedNodeIds.push(bodyNodeId);
+          await emit({
+            type: "node.output",
+            runId,
+            nodeId: bodyNodeId,
+            outputRef: `${runId}:${bodyNodeId}:map`,
+            outputSource: "execution",
+            outputs,
+            at: nowIso(),
+          });
+        }
+        markDependentsReady(bodyNodeId);
+      }
+    };
+
     const startNode = (nodeId: string): void => {
       const compiledNode = compiled.nodesById.get(nodeId)!;
       const nodeClass = compiledNode.definition.capabilityClass;
@@ -490,177 +974,7 @@ export class StudioRuntime {
         }
 
         await emit({ type: "node.started", runId, nodeId, at: nowIso() });
-        const result = await compiledNode.definition.execute({
-          runId,
-          projectPath,
-          node: compiledNode.node,
-          inputs,
-          signal: abortController.signal,
-          services: {
-            api: this.apiAdapter,
-            storeAsset: async (bytes, mimeType) => {
-              const staged = await this.assetStore.stageArrayBuffer(projectPath, bytes, mimeType);
-              stagedAssetFiles.set(staged.generationFile.contentAddressedPath, staged.generationFile.bytes);
-              stagedAssetBytesByProjectionPath.set(staged.asset.path, staged.generationFile.bytes);
-              return staged.asset;
-            },
-            readAsset: (asset) => {
-              const staged = stagedAssetBytesByProjectionPath.get(asset.path);
-              return staged ? Promise.resolve(staged.slice().buffer) : this.assetStore.readArrayBuffer(asset);
-            },
-            resolveAbsolutePath: (path) => {
-              if (!desktop) {
-                throw new Error("Local filesystem paths require Obsidian Desktop.");
-              }
-              const normalized = String(path || "").trim();
-              if (!normalized) {
-                throw new Error("Filesystem path cannot be empty.");
-              }
-              if (desktop.path.isAbsolute(normalized)) {
-                permissions.assertFilesystemPath(normalized);
-                return normalized;
-              }
-
-              const vaultPath = normalizePath(normalized);
-              permissions.assertFilesystemPath(vaultPath);
-              const adapter = this.app.vault.adapter as {
-                getFullPath?: (relativePath: string) => string;
-                basePath?: unknown;
-              };
-              if (typeof adapter.getFullPath === "function") {
-                return adapter.getFullPath(vaultPath);
-              }
-              if (typeof adapter.basePath === "string" && adapter.basePath.trim().length > 0) {
-                return desktop.path.join(adapter.basePath, vaultPath);
-              }
-              throw new Error(
-                `Unable to resolve an absolute path for "${vaultPath}". Desktop FileSystemAdapter is required.`
-              );
-            },
-            readVaultText: async (vaultPath: string) => {
-              permissions.assertFilesystemPath(vaultPath);
-              const file = this.app.vault.getAbstractFileByPath(vaultPath);
-              if (!(file instanceof TFile)) {
-                throw new Error(`Vault file not found: ${vaultPath}`);
-              }
-              if (!file.path.toLowerCase().endsWith(".md")) {
-                throw new Error(`Vault markdown file required: ${vaultPath}`);
-              }
-              const cachedRead = (this.app.vault as any).cachedRead;
-              if (typeof cachedRead === "function") {
-                return cachedRead.call(this.app.vault, file);
-              }
-              return this.app.vault.read(file);
-            },
-            statVaultFileSize: async (vaultPath: string) => {
-              permissions.assertFilesystemPath(vaultPath);
-              const file = this.app.vault.getAbstractFileByPath(vaultPath);
-              if (!(file instanceof TFile)) {
-                throw new Error(`Vault file not found: ${vaultPath}`);
-              }
-              const size = Number(file.stat?.size);
-              if (!Number.isFinite(size)) {
-                throw new Error(`Unable to determine vault file size: ${vaultPath}`);
-              }
-              return size;
-            },
-            readVaultBinary: async (vaultPath: string) => {
-              permissions.assertFilesystemPath(vaultPath);
-              const file = this.app.vault.getAbstractFileByPath(vaultPath);
-              if (!(file instanceof TFile)) {
-                throw new Error(`Vault file not found: ${vaultPath}`);
-              }
-              return this.app.vault.readBinary(file);
-            },
-            statLocalFileSize: async (absolutePath: string) => {
-              const normalized = String(absolutePath || "").trim();
-              if (!desktop) {
-                throw new Error("Local filesystem reads require Obsidian Desktop.");
-              }
-              if (!normalized) {
-                throw new Error("Local filesystem read path is empty.");
-              }
-              if (!desktop.path.isAbsolute(normalized)) {
-                throw new Error(
-                  `Local filesystem read requires an absolute path. Received "${normalized}".`
-                );
-              }
-              permissions.assertFilesystemPath(normalized);
-              const stat = await desktop.fs.stat(normalized);
-              const size = Number(stat.size);
-              if (!Number.isFinite(size)) {
-                throw new Error(`Unable to determine local file size: ${normalized}`);
-              }
-              return size;
-            },
-            readLocalFileBinary: async (absolutePath: string) => {
-              const normalized = String(absolutePath || "").trim();
-              if (!desktop) {
-                throw new Error("Local filesystem reads require Obsidian Desktop.");
-              }
-              if (!normalized) {
-                throw new Error("Local filesystem read path is empty.");
-              }
-              if (!desktop.path.isAbsolute(normalized)) {
-                throw new Error(
-                  `Local filesystem read requires an absolute path. Received "${normalized}".`
-                );
-              }
-              permissions.assertFilesystemPath(normalized);
-              const bytes = await desktop.fs.readFile(normalized);
-              return bytes.buffer.slice(
-                bytes.byteOffset,
-                bytes.byteOffset + bytes.byteLength
-              ) as ArrayBuffer;
-            },
-            writeTempFile: async (bytes, tempOptions) => {
-              if (!desktop || !tempRootDir) {
-                throw new Error("Temporary local files require Obsidian Desktop.");
-              }
-              const prefix = String(tempOptions?.prefix || "studio-node")
-                .trim()
-                .replace(/[^a-zA-Z0-9-_]+/g, "-")
-                .replace(/^-+|-+$/g, "") || "studio-node";
-              const ext = String(tempOptions?.extension || "")
-                .trim()
-                .replace(/^[.]+/, "")
-                .replace(/[^a-zA-Z0-9]+/g, "");
-              const suffix = ext ? `.${ext}` : "";
-              const tempPath = desktop.path.join(
-                tempRootDir,
-                `${prefix}-${randomId("tmp")}${suffix}`
-              );
-              await desktop.fs.writeFile(tempPath, new Uint8Array(bytes));
-              return tempPath;
-            },
-            deleteLocalFile: async (absolutePath: string) => {
-              const normalized = String(absolutePath || "").trim();
-              if (!normalized) {
-                return;
-              }
-              if (!desktop) {
-                return;
-              }
-              try {
-                await desktop.fs.unlink(normalized);
-              } catch {
-                // Best effort cleanup.
-              }
-            },
-            runCli: (request) => sandbox.runCli(request),
-            assertFilesystemPath: (path) => permissions.assertFilesystemPath(path),
-          },
-          log: (message) => {
-            this.plugin.getLogger().debug("Studio node log", {
-              source: "StudioRuntime",
-              metadata: {
-                runId,
-                nodeId,
-                message,
-              },
-            });
-          },
-        });
+        const result = await executeNode(nodeId, inputs, createMapGroupService(nodeId));
 
         outputsByNode.set(nodeId, result.outputs);
         for (const operation of result.managedOperations || []) {
@@ -695,6 +1009,7 @@ export class StudioRuntime {
           at: nowIso(),
         });
 
+        await finishMapBody(nodeId, true);
         markDependentsReady(nodeId);
       })()
         .catch(async (error) => {
@@ -713,6 +1028,7 @@ export class StudioRuntime {
           if (compiledNode.node.continueOnError === true) {
             outputsByNode.set(nodeId, {});
             state.set(nodeId, "done");
+            await finishMapBody(nodeId, false);
             markDependentsReady(nodeId);
             return;
           }
@@ -730,14 +1046,54 @@ export class StudioRuntime {
       runningPromises.set(nodeId, promise);
     };
 
-    const canStartNode = (nodeId: string): boolean => {
+    // An edge is dead when its source was skipped as an untaken branch, or when
+    // a routing node finished without emitting the edge's port.
+    const isEdgeLive = (edge: StudioEdge): boolean => {
+      if (untakenNodeIds.has(edge.fromNodeId)) return false;
+      const source = compiled.nodesById.get(edge.fromNodeId);
+      if (!source || source.definition.controlFlow !== "route") return true;
+      if (state.get(edge.fromNodeId) !== "done") return true;
+      return typeof outputsByNode.get(edge.fromNodeId)?.[edge.fromPortId] !== "undefined";
+    };
+
+    const isBranchNotTaken = (nodeId: string): boolean => {
       const compiledNode = compiled.nodesById.get(nodeId)!;
-      if (compiledNode.node.disabled === true) {
-        state.set(nodeId, "skipped");
-        dependencyCount.set(nodeId, 0);
-        markDependentsReady(nodeId);
-        return false;
+      if (compiledNode.inboundEdges.length === 0) return false;
+      return compiledNode.definition.controlFlow === "merge"
+        ? compiledNode.inboundEdges.every((edge) => !isEdgeLive(edge))
+        : compiledNode.inboundEdges.some((edge) => !isEdgeLive(edge));
+    };
+
+    const skipUntakenNode = async (
+      nodeId: string,
+      reason: "branch_not_taken" | "map_disabled" = "branch_not_taken"
+    ): Promise<void> => {
+      state.set(nodeId, "skipped");
+      untakenNodeIds.add(nodeId);
+      skippedNodeIds.push(nodeId);
+      markDependentsReady(nodeId);
+      await emit({
+        type: "node.skipped",
+        runId,
+        nodeId,
+        reason,
+        at: nowIso(),
+      });
+    };
+
+    const skipDisabledNode = async (nodeId: string): Promise<void> => {
+      state.set(nodeId, "skipped");
+      dependencyCount.set(nodeId, 0);
+      markDependentsReady(nodeId);
+      // A disabled map never runs its group, so the body and everything fed
+      // only by it go the way of an untaken branch.
+      for (const bodyNodeId of mapGroups.plans.get(nodeId)?.bodyNodeIds ?? []) {
+        if (state.get(bodyNodeId) === "pending") await skipUntakenNode(bodyNodeId, "map_disabled");
       }
+    };
+
+    const canStartNode = (nodeId: string): boolean => {
+      const compiledNode = compiled.nodesById.get(nodeId)!;
       const classLimit = CONCURRENCY_LIMITS[compiledNode.definition.capabilityClass];
       const current = runningByClass[compiledNode.definition.capabilityClass];
       return current < classLimit;
@@ -752,6 +1108,18 @@ export class StudioRuntime {
           const currentState = state.get(nodeId);
           if (currentState !== "pending") continue;
           if ((dependencyCount.get(nodeId) || 0) > 0) continue;
+          const mapOwnerId = mapOwnerByNodeId.get(nodeId);
+          if (mapOwnerId && !untakenNodeIds.has(mapOwnerId)) continue;
+          if (isBranchNotTaken(nodeId)) {
+            startedAny = true;
+            await skipUntakenNode(nodeId);
+            continue;
+          }
+          if (compiled.nodesById.get(nodeId)!.node.disabled === true) {
+            startedAny = true;
+            await skipDisabledNode(nodeId);
+            continue;
+          }
           if (!canStartNode(nodeId)) continue;
           startedAny = true;
           startNode(nodeId);
@@ -787,6 +1155,12 @@ export class StudioRuntime {
       }
     }
 
+    if (fatalError === null) {
+      for (const event of subprojectTracker.completeFinishedHosts(runId, nowIso())) {
+        await publishEvent(event);
+      }
+    }
+
     let status: StudioRunSummary["status"] = "success";
     let errorMessage: string | null = null;
     if (fatalError !== null) {
@@ -819,6 +1193,8 @@ export class StudioRuntime {
       error: errorMessage,
       executedNodeIds,
       cachedNodeIds,
+      skippedNodeIds,
+      ...(options?.trigger ? { trigger: options.trigger } : {}),
     };
 
     const currentRuns = await this.readRunIndex(projectPath);
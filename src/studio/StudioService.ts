@@ -5,8 +5,9 @@ import { registerBuiltInStudioNodes } from "./StudioBuiltInNodes";
 import { StudioGraphCompiler } from "./StudioGraphCompiler";
 import { migrateStudioProjectToPathOnlyPorts } from "./StudioGraphMigrations";
 import { StudioNodeRegistry } from "./StudioNodeRegistry";
-import { StudioProjectStore } from "./StudioProjectStore";
+import { StudioProjectStore, type StudioProjectInitialContents } from "./StudioProjectStore";
 import { StudioRuntime } from "./StudioRuntime";
+import { applyStudioProjectInputValues, describeStudioSubproject, type StudioSubprojectPin } from "./StudioSubprojects";
 import { StudioApiExecutionAdapter } from "./StudioApiExecutionAdapter";
 import {
   StudioProjectSession,
@@ -15,19 +16,35 @@ import {
 } from "./StudioProjectSession";
 import { StudioProjectSessionManager } from "./StudioProjectSessionManager";
 import { StudioProjectRecoveryStore } from "./persistence/StudioProjectRecoveryStore";
-import { isBlanketCliCommandPattern, randomId } from "./utils";
+import { serializeStudioNodeCache } from "./StudioNodeResultCacheStore";
+import type { StudioRunRecord } from "./StudioRunHistory";
+import {
+  buildStudioProjectBundle,
+  collectStudioSupportReferences,
+  decodeStudioBundleFiles,
+  DEFAULT_STUDIO_CLI_COMMAND_PATTERNS,
+  remapStudioSupportPaths,
+  type StudioProjectBundleImportResult,
+  type StudioProjectBundleV1,
+} from "./StudioProjectBundle";
+import { isBlanketCliCommandPattern, nowIso, randomId } from "./utils";
 import type {
   StudioAssetRef,
   StudioCapability,
   StudioCapabilityGrant,
+  StudioJsonValue,
   StudioNodeCacheSnapshotV1,
   StudioProjectLintResult,
   StudioProjectV1,
+  StudioRunEvent,
   StudioRunEventHandler,
+  StudioRunQueueEntry,
   StudioRunSummary,
+  StudioRunTrigger,
 } from "./types";
 import {
   DEFAULT_STUDIO_PROJECTS_DIR,
+  deriveStudioAssetsDir,
   deriveStudioImportsDir,
   deriveStudioPolicyPath,
   normalizeStudioProjectPath,
@@ -42,6 +59,8 @@ import {
 import { validateStudioProjectForAgentEdit } from "./StudioProjectAgentContract";
 
 const IMPORTED_FILE_SEGMENT_FALLBACK = "import";
+/** Bundled files under this prefix are content-addressed assets; the rest are imports. */
+const BUNDLED_ASSET_PREFIX = "assets/sha256/";
 
 function sanitizeImportedFileSegment(value: string): string {
   const trimmed = String(value || "").trim();
@@ -107,6 +126,7 @@ export class StudioService {
   private readonly projectSessionManager = new StudioProjectSessionManager();
   private readonly projectRecoveryStore: StudioProjectRecoveryStore;
   private readonly projectSessionOperations = new Map<string, Promise<void>>();
+  private readonly runEventListeners = new Set<(projectPath: string, event: StudioRunEvent) => void>();
 
   constructor(private readonly plugin: SystemSculptPlugin) {
     this.projectStore = new StudioProjectStore(plugin.app);
@@ -314,12 +334,7 @@ export class StudioService {
       changed = true;
     }
 
-    const requiredCliPatterns = [
-      "ffmpeg",
-      "ffprobe",
-      "*/ffmpeg",
-      "*/ffprobe",
-    ];
+    const requiredCliPatterns = [...DEFAULT_STUDIO_CLI_COMMAND_PATTERNS];
     const cliGrant = policy.grants.find((grant) => grant.capability === "cli");
     if (!cliGrant) {
       policy.grants.push({
@@ -361,7 +376,11 @@ export class StudioService {
    * Session ownership belongs to whichever view subsequently opens the path
    * via retainProjectSession.
    */
-  async createProjectFile(options?: { name?: string; projectPath?: string }): Promise<{
+  async createProjectFile(options?: {
+    name?: string;
+    projectPath?: string;
+    contents?: (projectPath: string, project: StudioProjectV1) => StudioProjectInitialContents;
+  }): Promise<{
     path: string;
     project: StudioProjectV1;
   }> {
@@ -376,6 +395,7 @@ export class StudioService {
       minPluginVersion: this.plugin.manifest.version,
       maxRuns: Math.max(1, Math.floor(this.plugin.settings.studioRunRetentionMaxRuns || 100)),
       maxArtifactsMb: Math.max(1, Math.floor(this.plugin.settings.studioRunRetentionMaxArtifactsMb || 1024)),
+      contents: options?.contents,
     });
 
     await this.ensureDefaultPolicy(created.project);
@@ -551,21 +571,66 @@ export class StudioService {
     return normalizeStudioProjectPath(rawPath);
   }
 
+  /**
+   * Every run started through this service, whoever started it: the canvas,
+   * triggers, scripts or links. An open view uses this to show runs it did
+   * not start itself.
+   */
+  onRunEvent(listener: (projectPath: string, event: StudioRunEvent) => void): () => void {
+    this.runEventListeners.add(listener);
+    return () => {
+      this.runEventListeners.delete(listener);
+    };
+  }
+
+  private broadcastRunEvents(projectPath: string, onEvent?: StudioRunEventHandler): StudioRunEventHandler {
+    return async (event) => {
+      await onEvent?.(event);
+      for (const listener of [...this.runEventListeners]) {
+        try {
+          listener(projectPath, event);
+        } catch (error) {
+          this.plugin.getLogger().warn("Studio run event listener failed", {
+            source: "StudioService",
+            metadata: { projectPath, error: error instanceof Error ? error.message : String(error) },
+          });
+        }
+      }
+    };
+  }
+
   async runProject(
     projectPath: string,
-    options?: { onEvent?: StudioRunEventHandler }
+    options?: {
+      onEvent?: StudioRunEventHandler;
+      trigger?: StudioRunTrigger;
+      /** Values for the project's input nodes, keyed by their project-node port ids. */
+      inputValues?: Record<string, StudioJsonValue>;
+    }
   ): Promise<StudioRunSummary> {
     const normalized = this.requireProjectPath(projectPath);
     const session = this.projectSessionManager.getSession(normalized);
+    const onEvent = this.broadcastRunEvents(normalized, options?.onEvent);
+    if (options?.inputValues && Object.keys(options.inputValues).length > 0) {
+      await session?.flushPendingSaveWork({ force: true });
+      const projectSnapshot = session?.getProjectSnapshot() || (await this.projectStore.loadProject(normalized));
+      return this.runtime.runProjectSnapshot(
+        normalized,
+        applyStudioProjectInputValues(projectSnapshot, options.inputValues),
+        { onEvent, trigger: options.trigger }
+      );
+    }
     if (!session) {
       return this.runtime.runProject(normalized, {
-        onEvent: options?.onEvent,
+        onEvent,
+        trigger: options?.trigger,
       });
     }
     await session.flushPendingSaveWork({ force: true });
     const projectSnapshot = session.getProjectSnapshot();
     return this.runtime.runProjectSnapshot(normalized, projectSnapshot, {
-      onEvent: options?.onEvent,
+      onEvent,
+      trigger: options?.trigger,
     });
   }
 
@@ -595,16 +660,36 @@ export class StudioService {
     return this.runtime.runProjectSnapshot(normalized, projectSnapshot, {
       entryNodeIds: [normalizedNodeId],
       forceNodeIds: [normalizedNodeId],
-      onEvent: options?.onEvent,
+      onEvent: this.broadcastRunEvents(normalized, options?.onEvent),
     });
   }
 
+  getRunQueue(projectPath: string): StudioRunQueueEntry[] {
+    const rawPath = String(projectPath || "").trim();
+    if (!rawPath) return [];
+    return this.runtime.getRunQueue(normalizeStudioProjectPath(rawPath));
+  }
+
+  isProjectRunBusy(projectPath: string): boolean {
+    return this.getRunQueue(projectPath).length > 0;
+  }
+
+  onRunQueueChanged(listener: (projectPath: string) => void): () => void {
+    return this.runtime.onRunQueueChanged(listener);
+  }
+
   async getRecentRuns(projectPath: string): Promise<StudioRunSummary[]> {
     const rawPath = String(projectPath || "").trim();
     if (!rawPath) return [];
     return this.runtime.getRecentRuns(normalizeStudioProjectPath(rawPath));
   }
 
+  async getRunRecord(projectPath: string, runId: string): Promise<StudioRunRecord | null> {
+    const rawPath = String(projectPath || "").trim();
+    if (!rawPath) return null;
+    return this.runtime.getRunRecord(normalizeStudioProjectPath(rawPath), runId);
+  }
+
   async getProjectNodeCache(projectPath: string): Promise<StudioNodeCacheSnapshotV1 | null> {
     const rawPath = String(projectPath || "").trim();
     if (!rawPath) {
@@ -614,6 +699,16 @@ export class StudioService {
     return this.runtime.getNodeCacheSnapshot(targetPath);
   }
 
+  /** Revision and ports of a project as a project node would pin them. Reads the saved file, like runs do. */
+  async describeSubproject(projectPath: string): Promise<StudioSubprojectPin> {
+    const rawPath = String(projectPath || "").trim();
+    if (!rawPath) {
+      throw new Error("Project path is required.");
+    }
+    const project = await this.projectStore.loadProject(normalizeStudioProjectPath(rawPath));
+    return describeStudioSubproject(project);
+  }
+
   async storeAsset(projectPath: string, bytes: ArrayBuffer, mimeType: string): Promise<StudioAssetRef> {
     const targetPath = normalizeStudioProjectPath(String(projectPath || "").trim());
     return this.assetStore.storeArrayBuffer(targetPath, bytes, mimeType);
@@ -636,6 +731,103 @@ export class StudioService {
     return normalizePath(`${deriveStudioImportsDir(targetPath)}/${fileName}`);
   }
 
+  /**
+   * Pack a project with the assets and imports its graph points at, its
+   * non-default grants as requests, and optionally its cached node results.
+   * Run history stays in the source vault.
+   */
+  async exportProjectBundle(
+    projectPath: string,
+    options?: { includeNodeCache?: boolean }
+  ): Promise<StudioProjectBundleV1> {
+    const normalized = this.requireProjectPath(projectPath);
+    const session = this.projectSessionManager.getSession(normalized);
+    if (session) {
+      await session.flushPendingSaveWork({ force: true });
+    }
+    const project = session?.getProjectSnapshot() || (await this.projectStore.loadProject(normalized));
+    const policy = await this.projectStore.loadPolicy(project.permissionsRef.policyPath);
+    const nodeCache = options?.includeNodeCache
+      ? await this.runtime.getNodeCacheSnapshot(normalized)
+      : null;
+    const assetsDir = deriveStudioAssetsDir(normalized);
+    const files = new Map<string, Uint8Array>();
+    for (const relativePath of collectStudioSupportReferences([project.graph, nodeCache], assetsDir)) {
+      const bytes = await this.projectStore.readSupportFile(normalized, `${assetsDir}/${relativePath}`);
+      if (bytes) files.set(relativePath, bytes);
+    }
+    return buildStudioProjectBundle({
+      projectPath: normalized,
+      project,
+      policy,
+      files,
+      nodeCache,
+      pluginVersion: this.plugin.manifest.version,
+      exportedAt: nowIso(),
+    });
+  }
+
+  /**
+   * Recreate a bundled project as a new project (new id, new support folder)
+   * in `folder`. Requested grants are returned for the user to approve; they
+   * are never applied here.
+   */
+  async importProjectBundle(
+    bundle: StudioProjectBundleV1,
+    options?: { folder?: string }
+  ): Promise<StudioProjectBundleImportResult> {
+    const { files, skipped } = await decodeStudioBundleFiles(bundle);
+    const folder = String(options?.folder ?? "").trim();
+    // The graph, files and cache go into the project's first generation, so a
+    // failed import leaves no half-filled project behind.
+    const created = await this.createProjectFile({
+      name: bundle.project.name,
+      projectPath: folder
+        ? normalizePath(`${folder}/${sanitizeStudioProjectName(bundle.project.name)}`)
+        : undefined,
+      contents: (projectPath, empty) => {
+        const assetsDir = deriveStudioAssetsDir(projectPath);
+        const remapped = remapStudioSupportPaths(bundle.project, bundle.sourceAssetsDir, assetsDir);
+        const project = migrateStudioProjectToPathOnlyPorts({
+          ...remapped,
+          projectId: empty.projectId,
+          name: empty.name,
+          createdAt: empty.createdAt,
+          permissionsRef: empty.permissionsRef,
+        }).project;
+        const contents: StudioProjectInitialContents = {
+          project,
+          assets: [...files]
+            .filter(([path]) => path.startsWith(BUNDLED_ASSET_PREFIX))
+            .map(([path, bytes]) => ({ contentAddressedPath: path.slice(BUNDLED_ASSET_PREFIX.length), bytes })),
+          supportFiles: [...files]
+            .filter(([path]) => !path.startsWith(BUNDLED_ASSET_PREFIX))
+            .map(([supportRelativePath, bytes]) => ({ supportRelativePath, bytes })),
+        };
+        if (bundle.nodeCache) {
+          const nodeCache = remapStudioSupportPaths(bundle.nodeCache, bundle.sourceAssetsDir, assetsDir);
+          contents.cacheDocument = serializeStudioNodeCache({ ...nodeCache, projectId: project.projectId });
+        }
+        return contents;
+      },
+    });
+    const project = created.project;
+
+    const missingNodeKinds = new Set<string>();
+    for (const node of project.graph.nodes) {
+      if (!this.registry.get(node.kind, node.version)) {
+        missingNodeKinds.add(`${node.kind}@${node.version}`);
+      }
+    }
+    return {
+      path: created.path,
+      project,
+      missingNodeKinds: [...missingNodeKinds].sort(),
+      requestedGrants: bundle.requestedGrants,
+      skippedFiles: skipped,
+    };
+  }
+
   async readAsset(asset: StudioAssetRef): Promise<ArrayBuffer> {
     return this.assetStore.readArrayBuffer(asset);
   }
@@ -0,0 +1,445 @@
+import { normalizePath } from "obsidian";
+import { sha256HexFromArrayBuffer } from "./hash";
+import { findStudioMapGroup } from "./StudioMapGroups";
+import { stableStringify } from "./StudioNodeResultCacheStore";
+import { getText } from "./nodes/shared";
+import type {
+  StudioEdge,
+  StudioJsonValue,
+  StudioNodeInstance,
+  StudioNodeOutputMap,
+  StudioPortDefinition,
+  StudioProjectV1,
+  StudioRunEvent,
+} from "./types";
+import { isRecord } from "./utils";
+
+export const STUDIO_SUBPROJECT_NODE_KIND = "studio.project";
+export const STUDIO_SUBPROJECT_INTERFACE_CONFIG_KEY = "interface";
+export const STUDIO_SUBPROJECT_REVISION_CONFIG_KEY = "pinnedRevision";
+const EXPANDED_NODE_ID_SEPARATOR = "::";
+
+export type StudioSubprojectPort = {
+  id: string;
+  /** Node inside the referenced project: a studio.input for inputs, a studio.output for outputs. */
+  nodeId: string;
+  label: string;
+};
+
+export type StudioSubprojectInterface = {
+  inputs: StudioSubprojectPort[];
+  outputs: StudioSubprojectPort[];
+};
+
+export type StudioSubprojectPin = {
+  projectName: string;
+  revision: string;
+  interface: StudioSubprojectInterface;
+};
+
+export type StudioSubprojectLoader = (projectPath: string) => Promise<StudioProjectV1>;
+
+type ExpandedHost = {
+  hostNode: StudioNodeInstance;
+  projectName: string;
+  expandedNodeIds: string[];
+  outputNodeIdByPort: Map<string, string>;
+  titleByExpandedNodeId: Map<string, string>;
+};
+
+export type StudioSubprojectExpansion = {
+  project: StudioProjectV1;
+  hosts: Map<string, ExpandedHost>;
+  /** Every expanded node id mapped to the canvas node it came from. */
+  hostNodeIdByExpandedNodeId: Map<string, string>;
+};
+
+function portIdFromLabel(label: string, taken: Set<string>): string {
+  const base = label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "") || "port";
+  let candidate = base;
+  let suffix = 2;
+  while (taken.has(candidate)) {
+    candidate = `${base}_${suffix}`;
+    suffix += 1;
+  }
+  taken.add(candidate);
+  return candidate;
+}
+
+/** Ports of a project when it runs as a node: its input nodes and its output nodes, in canvas order. */
+export function deriveStudioSubprojectInterface(project: StudioProjectV1): StudioSubprojectInterface {
+  const inputIds = new Set<string>();
+  const outputIds = new Set<string>();
+  const inputs: StudioSubprojectPort[] = [];
+  const outputs: StudioSubprojectPort[] = [];
+  for (const node of project.graph.nodes) {
+    if (node.kind === "studio.input") {
+      const label = node.title.trim() || node.id;
+      inputs.push({ id: portIdFromLabel(label, inputIds), nodeId: node.id, label });
+    } else if (node.kind === "studio.output") {
+      const label = getText(node.config.name).trim() || node.title.trim() || node.id;
+      outputs.push({ id: portIdFromLabel(label, outputIds), nodeId: node.id, label });
+    }
+  }
+  return { inputs, outputs };
+}
+
+/**
+ * Copy of a project with input node values replaced, keyed by the same port
+ * ids the project exposes as a node. Unknown keys throw and name the inputs
+ * the project has.
+ */
+export function applyStudioProjectInputValues(
+  project: StudioProjectV1,
+  values: Record<string, StudioJsonValue>
+): StudioProjectV1 {
+  const ports = deriveStudioSubprojectInterface(project).inputs;
+  const nodeIdByPort = new Map(ports.map((port) => [port.id, port.nodeId]));
+  const valueByNodeId = new Map<string, StudioJsonValue>();
+  for (const [key, value] of Object.entries(values)) {
+    const nodeId = nodeIdByPort.get(key);
+    if (!nodeId) {
+      const available = ports.map((port) => port.id).join(", ") || "none";
+      throw new Error(`"${project.name}" has no input named "${key}". Inputs: ${available}.`);
+    }
+    valueByNodeId.set(nodeId, value);
+  }
+  if (valueByNodeId.size === 0) {
+    return project;
+  }
+  return {
+    ...project,
+    graph: {
+      ...project.graph,
+      nodes: project.graph.nodes.map((node) =>
+        valueByNodeId.has(node.id)
+          ? { ...node, config: { ...node.config, value: valueByNodeId.get(node.id) as StudioJsonValue } }
+          : node
+      ),
+    },
+  };
+}
+
+/**
+ * Revision of what a project does, not where its cards sit: node kinds,
+ * versions, and configs plus edges. Moving or resizing cards keeps the pin.
+ */
+export async function computeStudioSubprojectRevision(project: StudioProjectV1): Promise<string> {
+  const behavior = {
+    nodes: project.graph.nodes.map((node) => ({
+      id: node.id,
+      kind: node.kind,
+      version: node.version,
+      title: node.title,
+      config: node.config,
+      disabled: node.disabled === true,
+      continueOnError: node.continueOnError === true,
+    })),
+    edges: project.graph.edges,
+    groups: (project.graph.groups || []).map((group) => ({ id: group.id, name: group.name, nodeIds: group.nodeIds })),
+  };
+  const bytes = new TextEncoder().encode(stableStringify(behavior));
+  return sha256HexFromArrayBuffer(bytes.buffer);
+}
+
+export async function describeStudioSubproject(project: StudioProjectV1): Promise<StudioSubprojectPin> {
+  return {
+    projectName: project.name,
+    revision: await computeStudioSubprojectRevision(project),
+    interface: deriveStudioSubprojectInterface(project),
+  };
+}
+
+function readPorts(value: unknown): StudioSubprojectPort[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(isRecord)
+    .map((entry) => ({
+      id: getText(entry.id as StudioJsonValue).trim(),
+      nodeId: getText(entry.nodeId as StudioJsonValue).trim(),
+      label: getText(entry.label as StudioJsonValue).trim(),
+    }))
+    .filter((port) => port.id.length > 0 && port.nodeId.length > 0);
+}
+
+export function readStudioSubprojectInterface(
+  config: Record<string, StudioJsonValue> | undefined | null
+): StudioSubprojectInterface {
+  const raw = config?.[STUDIO_SUBPROJECT_INTERFACE_CONFIG_KEY];
+  if (!isRecord(raw)) {
+    return { inputs: [], outputs: [] };
+  }
+  return { inputs: readPorts(raw.inputs), outputs: readPorts(raw.outputs) };
+}
+
+export function resolveSubprojectPorts(config: Record<string, StudioJsonValue> | undefined | null): {
+  inputPorts: StudioPortDefinition[];
+  outputPorts: StudioPortDefinition[];
+} {
+  const ports = readStudioSubprojectInterface(config);
+  return {
+    inputPorts: ports.inputs.map((port) => ({
+      id: port.id,
+      type: "any" as const,
+      required: false,
+      description: port.label,
+    })),
+    outputPorts: ports.outputs.map((port) => ({
+      id: port.id,
+      type: "any" as const,
+      description: port.label,
+    })),
+  };
+}
+
+/** Record a pin on a project node's config. Returns false when nothing changed. */
+export function applyStudioSubprojectPin(node: StudioNodeInstance, pin: StudioSubprojectPin): boolean {
+  const nextInterface = pin.interface as unknown as StudioJsonValue;
+  const unchanged =
+    node.config[STUDIO_SUBPROJECT_REVISION_CONFIG_KEY] === pin.revision &&
+    stableStringify(node.config[STUDIO_SUBPROJECT_INTERFACE_CONFIG_KEY] ?? null) === stableStringify(nextInterface);
+  if (unchanged) {
+    return false;
+  }
+  node.config[STUDIO_SUBPROJECT_REVISION_CONFIG_KEY] = pin.revision;
+  node.config[STUDIO_SUBPROJECT_INTERFACE_CONFIG_KEY] = nextInterface;
+  return true;
+}
+
+function prefixId(prefix: string, id: string): string {
+  return `${prefix}${EXPANDED_NODE_ID_SEPARATOR}${id}`;
+}
+
+/**
+ * Replace every project node with the nodes of the project it references so
+ * the runtime schedules, caches, and reports them like any other node. Node
+ * ids are prefixed with the host node id; nested project nodes expand
+ * recursively. Throws when a reference is missing, has changed since it was
+ * pinned, or includes itself.
+ */
+export async function expandStudioSubprojects(
+  project: StudioProjectV1,
+  projectPath: string,
+  loadProject: StudioSubprojectLoader
+): Promise<StudioSubprojectExpansion> {
+  const hosts = new Map<string, ExpandedHost>();
+  const hostNodeIdByExpandedNodeId = new Map<string, string>();
+  if (!project.graph.nodes.some((node) => node.kind === STUDIO_SUBPROJECT_NODE_KIND)) {
+    return { project, hosts, hostNodeIdByExpandedNodeId };
+  }
+  const expanded = await expandProject(project, [normalizePath(projectPath)], loadProject, hosts);
+  for (const host of hosts.values()) {
+    for (const expandedNodeId of host.expandedNodeIds) {
+      hostNodeIdByExpandedNodeId.set(expandedNodeId, host.hostNode.id);
+    }
+  }
+  return { project: expanded, hosts, hostNodeIdByExpandedNodeId };
+}
+
+async function expandProject(
+  project: StudioProjectV1,
+  includeStack: string[],
+  loadProject: StudioSubprojectLoader,
+  hosts: Map<string, ExpandedHost> | null
+): Promise<StudioProjectV1> {
+  let nodes = [...project.graph.nodes];
+  let edges = [...project.graph.edges];
+  let groups = [...(project.graph.groups || [])];
+  let entryNodeIds = [...project.graph.entryNodeIds];
+
+  for (const hostNode of project.graph.nodes) {
+    if (hostNode.kind !== STUDIO_SUBPROJECT_NODE_KIND) continue;
+
+    const childPath = normalizePath(getText(hostNode.config.projectPath).trim());
+    if (!childPath || childPath === "/") {
+      throw new Error(`Project node "${hostNode.title}" has no project selected.`);
+    }
+    if (includeStack.includes(childPath)) {
+      throw new Error(
+        `Project node "${hostNode.title}" includes itself: ${[...includeStack, childPath].join(" → ")}.`
+      );
+    }
+    const childProject = await loadProject(childPath);
+    const pinnedRevision = getText(hostNode.config[STUDIO_SUBPROJECT_REVISION_CONFIG_KEY]).trim();
+    if (pinnedRevision && pinnedRevision !== await computeStudioSubprojectRevision(childProject)) {
+      throw new Error(
+        `Project "${childProject.name}" changed since node "${hostNode.title}" pinned it. Clear its pinned revision to use the current version.`
+      );
+    }
+    const ports = pinnedRevision
+      ? readStudioSubprojectInterface(hostNode.config)
+      : deriveStudioSubprojectInterface(childProject);
+    const child = await expandProject(childProject, [...includeStack, childPath], loadProject, null);
+
+    const prefix = hostNode.id;
+    const expandedNodes = child.graph.nodes.map((node): StudioNodeInstance => {
+      const copy: StudioNodeInstance = {
+        ...node,
+        id: prefixId(prefix, node.id),
+        config: { ...node.config },
+        ...(hostNode.continueOnError === true ? { continueOnError: true } : {}),
+        ...(hostNode.disabled === true ? { disabled: true } : {}),
+      };
+      if (node.kind === "studio.map") {
+        const group = findStudioMapGroup(child.graph.groups, node.config.groupId);
+        if (group) {
+          copy.config.groupId = prefixId(prefix, group.id);
+        }
+      }
+      return copy;
+    });
+    const expandedEdges = child.graph.edges.map((edge) => ({
+      ...edge,
+      id: prefixId(prefix, edge.id),
+      fromNodeId: prefixId(prefix, edge.fromNodeId),
+      toNodeId: prefixId(prefix, edge.toNodeId),
+    }));
+    const expandedNodeIds = expandedNodes.map((node) => node.id);
+
+    const inputNodeByPort = new Map(ports.inputs.map((port) => [port.id, prefixId(prefix, port.nodeId)]));
+    const outputNodeIdByPort = new Map(ports.outputs.map((port) => [port.id, prefixId(prefix, port.nodeId)]));
+    const rewire = (edge: StudioEdge): StudioEdge => {
+      if (edge.toNodeId === hostNode.id) {
+        const inputNodeId = inputNodeByPort.get(edge.toPortId);
+        if (!inputNodeId) {
+          throw new Error(`Project node "${hostNode.title}" has no input "${edge.toPortId}".`);
+        }
+        return { ...edge, toNodeId: inputNodeId, toPortId: "value" };
+      }
+      if (edge.fromNodeId === hostNode.id) {
+        const outputNodeId = outputNodeIdByPort.get(edge.fromPortId);
+        if (!outputNodeId) {
+          throw new Error(`Project node "${hostNode.title}" has no output "${edge.fromPortId}".`);
+        }
+        return { ...edge, fromNodeId: outputNodeId, fromPortId: "value" };
+      }
+      return edge;
+    };
+
+    nodes = [...nodes.filter((node) => node.id !== hostNode.id), ...expandedNodes];
+    edges = [...edges.map(rewire), ...expandedEdges];
+    groups = [
+      ...groups.map((group) => ({
+        ...group,
+        nodeIds: group.nodeIds.flatMap((nodeId) => (nodeId === hostNode.id ? expandedNodeIds : [nodeId])),
+      })),
+      ...(child.graph.groups || []).map((group) => ({
+        ...group,
+        id: prefixId(prefix, group.id),
+        nodeIds: group.nodeIds.map((nodeId) => prefixId(prefix, nodeId)),
+      })),
+    ];
+    entryNodeIds = [
+      ...entryNodeIds.filter((nodeId) => nodeId !== hostNode.id),
+      ...child.graph.entryNodeIds.map((nodeId) => prefixId(prefix, nodeId)),
+    ];
+
+    hosts?.set(hostNode.id, {
+      hostNode,
+      projectName: childProject.name,
+      expandedNodeIds,
+      outputNodeIdByPort,
+      titleByExpandedNodeId: new Map(expandedNodes.map((node) => [node.id, node.title])),
+    });
+  }
+
+  return {
+    ...project,
+    graph: {
+      ...project.graph,
+      nodes,
+      edges,
+      entryNodeIds,
+      groups,
+    },
+  };
+}
+
+/**
+ * Translates run events of expanded nodes for the canvas: each becomes a
+ * node.nested event on its project node, and the project node itself gets
+ * started/output/failed events as its inner nodes progress.
+ */
+export class StudioSubprojectRunTracker {
+  private readonly startedHostIds = new Set<string>();
+  private readonly finishedHostIds = new Set<string>();
+
+  constructor(
+    private readonly expansion: StudioSubprojectExpansion,
+    private readonly readNode: (nodeId: string) => {
+      outputs: StudioNodeOutputMap | undefined;
+      finished: boolean;
+    }
+  ) {}
+
+  translate(event: StudioRunEvent): StudioRunEvent[] {
+    if (!("nodeId" in event) || event.type === "node.nested") {
+      return [event];
+    }
+    const hostNodeId = this.expansion.hostNodeIdByExpandedNodeId.get(event.nodeId);
+    const host = hostNodeId ? this.expansion.hosts.get(hostNodeId) : undefined;
+    if (!host) {
+      return [event];
+    }
+
+    const translated: StudioRunEvent[] = [];
+    const hostId = host.hostNode.id;
+    if (!this.startedHostIds.has(hostId)) {
+      this.startedHostIds.add(hostId);
+      translated.push({ type: "node.started", runId: event.runId, nodeId: hostId, at: event.at });
+    }
+    translated.push({
+      type: "node.nested",
+      runId: event.runId,
+      nodeId: hostId,
+      label: host.titleByExpandedNodeId.get(event.nodeId) || event.nodeId,
+      event,
+      at: event.at,
+    });
+    if (event.type === "node.failed" && !this.finishedHostIds.has(hostId)) {
+      this.finishedHostIds.add(hostId);
+      translated.push({
+        type: "node.failed",
+        runId: event.runId,
+        nodeId: hostId,
+        error: `${host.projectName}: ${event.error}`,
+        at: event.at,
+      });
+    }
+    translated.push(...this.completeFinishedHosts(event.runId, event.at, hostId));
+    return translated;
+  }
+
+  /** Emit outputs for project nodes whose inner nodes have all finished. */
+  completeFinishedHosts(runId: string, at: string, onlyHostId?: string): StudioRunEvent[] {
+    const completed: StudioRunEvent[] = [];
+    for (const host of this.expansion.hosts.values()) {
+      const hostId = host.hostNode.id;
+      if (onlyHostId && hostId !== onlyHostId) continue;
+      if (this.finishedHostIds.has(hostId)) continue;
+      if (!host.expandedNodeIds.every((nodeId) => this.readNode(nodeId).finished)) continue;
+      this.finishedHostIds.add(hostId);
+      const outputs: StudioNodeOutputMap = {};
+      for (const [portId, nodeId] of host.outputNodeIdByPort) {
+        const value = this.readNode(nodeId).outputs?.value;
+        if (typeof value !== "undefined") {
+          outputs[portId] = value;
+        }
+      }
+      completed.push({
+        type: "node.output",
+        runId,
+        nodeId: hostId,
+        outputRef: `${runId}:${hostId}:project`,
+        outputSource: "execution",
+        outputs,
+        at,
+      });
+    }
+    return completed;
+  }
+}
@@ -0,0 +1,398 @@
+import { App, TAbstractFile, TFile } from "obsidian";
+import type SystemSculptPlugin from "../main";
+import { hasWorkflowTag, readWorkflowFileFacts } from "../services/workflow/WorkflowMatcher";
+import {
+  describeStudioTriggerProblem,
+  isPathInStudioTriggerFolder,
+  latestStudioCronOccurrence,
+  nextStudioCronOccurrence,
+  parseStudioCronExpression,
+  parseStudioProjectTriggers,
+  type StudioCronSchedule,
+} from "./StudioProjectTriggers";
+import { STUDIO_PROJECT_EXTENSION, type StudioProjectTrigger, type StudioRunSummary, type StudioRunTrigger } from "./types";
+
+const SCHEDULE_CHECK_INTERVAL_MS = 30_000;
+// A schedule time this far in the past was missed (sleep, a long block), not just reached late.
+const MISSED_SCHEDULE_GRACE_MS = 5 * 60 * 1000;
+const FILE_EVENT_DEBOUNCE_MS = 1500;
+
+type ScheduleTrigger = Extract<StudioProjectTrigger, { type: "schedule" }>;
+type FileTrigger = Extract<StudioProjectTrigger, { type: "file" }>;
+type TagTrigger = Extract<StudioProjectTrigger, { type: "tag" }>;
+
+type ScheduledRun = {
+  projectPath: string;
+  trigger: ScheduleTrigger;
+  schedule: StudioCronSchedule;
+  nextAt: number | null;
+};
+
+/** The slice of StudioService that triggers need, so tests can drive the service without a vault. */
+export type StudioTriggerRunHost = {
+  runProject(projectPath: string, options: { trigger: StudioRunTrigger }): Promise<StudioRunSummary>;
+  getRecentRuns(projectPath: string): Promise<StudioRunSummary[]>;
+  isProjectRunBusy(projectPath: string): boolean;
+};
+
+function isStudioSupportPath(path: string): boolean {
+  return path.endsWith(STUDIO_PROJECT_EXTENSION) || path.includes(`${STUDIO_PROJECT_EXTENSION}-assets/`);
+}
+
+function formatScheduleTime(at: number): string {
+  const date = new Date(at);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Starts Studio project runs from the triggers saved in each project's
+ * settings. Schedules only fire while Obsidian is open; a schedule with the
+ * run_once catch-up policy runs once on launch when its last triggered run, or
+ * the project's last save if it never ran, is older than its most recent
+ * scheduled time. File and tag triggers ignore
+ * Studio's own files and any event that arrives while the project is already
+ * running or queued, so a project that writes into the folder it watches does
+ * not start itself again.
+ */
+export class StudioTriggerService {
+  private readonly app: App;
+  private readonly projectTriggers = new Map<string, StudioProjectTrigger[]>();
+  private readonly scheduledRuns = new Map<string, ScheduledRun>();
+  private readonly pendingFileRuns = new Map<string, number>();
+  private readonly taggedFiles = new Map<string, Set<string>>();
+  private readonly reindexing = new Map<string, Promise<void>>();
+  private watchedTagsSignature = "";
+  private started = false;
+  private disposed = false;
+
+  constructor(
+    private readonly plugin: SystemSculptPlugin,
+    private readonly getRunHost: () => StudioTriggerRunHost
+  ) {
+    this.app = plugin.app;
+  }
+
+  initialize(): void {
+    this.disposed = false;
+    // Vault create events replay every file while the vault loads; listen once it is ready.
+    this.app.workspace.onLayoutReady(() => {
+      void this.start();
+    });
+  }
+
+  destroy(): void {
+    this.disposed = true;
+    for (const timer of this.pendingFileRuns.values()) {
+      window.clearTimeout(timer);
+    }
+    this.pendingFileRuns.clear();
+    this.scheduledRuns.clear();
+    this.projectTriggers.clear();
+    this.taggedFiles.clear();
+  }
+
+  private async start(): Promise<void> {
+    if (this.disposed || this.started) return;
+    this.started = true;
+
+    const projectFiles = this.app.vault
+      .getFiles()
+      .filter((file) => file.path.endsWith(STUDIO_PROJECT_EXTENSION));
+    for (const file of projectFiles) {
+      await this.reindexProject(file.path, { catchUp: true });
+    }
+
+    this.plugin.registerEvent(
+      this.app.vault.on("create", (file) => {
+        this.handleVaultFileEvent(file, "created");
+      })
+    );
+    this.plugin.registerEvent(
+      this.app.vault.on("modify", (file) => {
+        this.handleVaultFileEvent(file, "modified");
+      })
+    );
+    this.plugin.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        if (oldPath.endsWith(STUDIO_PROJECT_EXTENSION)) {
+          this.forgetProject(oldPath);
+          this.refreshTaggedFiles();
+        }
+        if (file.path.endsWith(STUDIO_PROJECT_EXTENSION)) {
+          void this.reindexProject(file.path);
+        }
+        const tags = this.taggedFiles.get(oldPath);
+        this.taggedFiles.delete(oldPath);
+        if (tags) {
+          this.taggedFiles.set(file.path, tags);
+        }
+      })
+    );
+    this.plugin.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        if (file.path.endsWith(STUDIO_PROJECT_EXTENSION)) {
+          this.forgetProject(file.path);
+          this.refreshTaggedFiles();
+        }
+        this.taggedFiles.delete(file.path);
+      })
+    );
+    this.plugin.registerEvent(
+      this.app.metadataCache.on("changed", (file) => {
+        this.handleMetadataChanged(file);
+      })
+    );
+    this.plugin.registerInterval(
+      window.setInterval(() => {
+        this.checkSchedules(Date.now());
+      }, SCHEDULE_CHECK_INTERVAL_MS)
+    );
+    this.checkSchedules(Date.now());
+  }
+
+  private handleVaultFileEvent(file: TAbstractFile, event: "created" | "modified"): void {
+    if (this.disposed || !(file instanceof TFile)) return;
+    if (file.path.endsWith(STUDIO_PROJECT_EXTENSION)) {
+      void this.reindexProject(file.path);
+      return;
+    }
+    if (isStudioSupportPath(file.path)) return;
+
+    for (const [projectPath, triggers] of this.projectTriggers) {
+      for (const trigger of triggers) {
+        if (
+          trigger.type === "file"
+          && trigger.events.includes(event)
+          && isPathInStudioTriggerFolder(file.path, trigger.folder)
+          && !this.getRunHost().isProjectRunBusy(projectPath)
+        ) {
+          this.queueFileRun(projectPath, trigger, file.path);
+        }
+      }
+    }
+  }
+
+  private handleMetadataChanged(file: TFile): void {
+    if (this.disposed || isStudioSupportPath(file.path)) return;
+    const tagTriggers = this.listTriggers<TagTrigger>("tag");
+    if (tagTriggers.length === 0) return;
+
+    const facts = readWorkflowFileFacts(this.app, file);
+    const previous = this.taggedFiles.get(file.path) ?? new Set<string>();
+    const current = new Set<string>();
+    for (const { projectPath, trigger } of tagTriggers) {
+      if (!hasWorkflowTag(facts, trigger.tag)) continue;
+      current.add(trigger.tag);
+      if (!previous.has(trigger.tag) && !this.getRunHost().isProjectRunBusy(projectPath)) {
+        this.fire(projectPath, trigger, file.path);
+      }
+    }
+    if (current.size > 0) {
+      this.taggedFiles.set(file.path, current);
+    } else {
+      this.taggedFiles.delete(file.path);
+    }
+  }
+
+  private queueFileRun(projectPath: string, trigger: FileTrigger, filePath: string): void {
+    const key = `${projectPath}::${trigger.id}`;
+    const existing = this.pendingFileRuns.get(key);
+    if (typeof existing === "number") {
+      window.clearTimeout(existing);
+    }
+    const timer = window.setTimeout(() => {
+      this.pendingFileRuns.delete(key);
+      if (!this.disposed) {
+        this.fire(projectPath, trigger, filePath);
+      }
+    }, FILE_EVENT_DEBOUNCE_MS);
+    this.pendingFileRuns.set(key, timer);
+  }
+
+  /**
+   * Record the files that already carry a watched tag, so only a newly added
+   * tag fires. Rebuilt only when the set of watched tags changes because
+   * project saves reindex often.
+   */
+  private refreshTaggedFiles(): void {
+    const tagTriggers = this.listTriggers<TagTrigger>("tag");
+    const signature = Array.from(new Set(tagTriggers.map(({ trigger }) => trigger.tag))).sort().join("\n");
+    if (signature === this.watchedTagsSignature) return;
+    this.watchedTagsSignature = signature;
+    this.taggedFiles.clear();
+    if (tagTriggers.length === 0) return;
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const facts = readWorkflowFileFacts(this.app, file);
+      const tags = new Set(
+        tagTriggers.filter(({ trigger }) => hasWorkflowTag(facts, trigger.tag)).map(({ trigger }) => trigger.tag)
+      );
+      if (tags.size > 0) {
+        this.taggedFiles.set(file.path, tags);
+      }
+    }
+  }
+
+  private listTriggers<T extends StudioProjectTrigger>(
+    type: T["type"]
+  ): Array<{ projectPath: string; trigger: T }> {
+    const matches: Array<{ projectPath: string; trigger: T }> = [];
+    for (const [projectPath, triggers] of this.projectTriggers) {
+      for (const trigger of triggers) {
+        if (trigger.type === type) {
+          matches.push({ projectPath, trigger: trigger as T });
+        }
+      }
+    }
+    return matches;
+  }
+
+  private forgetProject(projectPath: string): void {
+    this.projectTriggers.delete(projectPath);
+    for (const key of [...this.scheduledRuns.keys()]) {
+      if (this.scheduledRuns.get(key)?.projectPath === projectPath) {
+        this.scheduledRuns.delete(key);
+      }
+    }
+  }
+
+  private async reindexProject(projectPath: string, options?: { catchUp?: boolean }): Promise<void> {
+    const previous = this.reindexing.get(projectPath) ?? Promise.resolve();
+    const next = previous.then(() => this.readProjectTriggers(projectPath, options?.catchUp === true));
+    this.reindexing.set(projectPath, next);
+    try {
+      await next;
+    } finally {
+      if (this.reindexing.get(projectPath) === next) {
+        this.reindexing.delete(projectPath);
+      }
+    }
+  }
+
+  private async readProjectTriggers(projectPath: string, catchUp: boolean): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(projectPath);
+    if (this.disposed || !(file instanceof TFile)) return;
+    let triggers: StudioProjectTrigger[] = [];
+    // Enabling a trigger saves the project, so a trigger that never ran cannot
+    // have been due before this.
+    let savedAt = file.stat.mtime;
+    try {
+      const raw = JSON.parse(await this.app.vault.cachedRead(file)) as {
+        updatedAt?: unknown;
+        settings?: { triggers?: unknown };
+      };
+      triggers = parseStudioProjectTriggers(raw?.settings?.triggers);
+      const updatedAt = typeof raw?.updatedAt === "string" ? Date.parse(raw.updatedAt) : Number.NaN;
+      if (Number.isFinite(updatedAt)) savedAt = updatedAt;
+    } catch {
+      // A project mid-edit may not parse; keep its previous triggers until it does.
+      return;
+    }
+
+    const active: StudioProjectTrigger[] = [];
+    for (const trigger of triggers) {
+      if (!trigger.enabled) continue;
+      const problem = describeStudioTriggerProblem(trigger);
+      if (problem) {
+        this.plugin.getLogger().warn("Studio trigger is incomplete and will not fire", {
+          source: "StudioTriggerService",
+          metadata: { projectPath, triggerId: trigger.id, problem },
+        });
+        continue;
+      }
+      active.push(trigger);
+    }
+    const previousSchedules = new Map(
+      [...this.scheduledRuns.entries()].filter(([, scheduled]) => scheduled.projectPath === projectPath)
+    );
+    this.forgetProject(projectPath);
+    if (active.length > 0) {
+      this.projectTriggers.set(projectPath, active);
+    }
+    for (const trigger of active) {
+      if (trigger.type !== "schedule") continue;
+      const key = `${projectPath}::${trigger.id}`;
+      const unchanged = previousSchedules.get(key);
+      if (unchanged && unchanged.trigger.cron === trigger.cron) {
+        // Saving the project must not move or re-fire a schedule that did not change.
+        this.scheduledRuns.set(key, { ...unchanged, trigger });
+        continue;
+      }
+      await this.scheduleTrigger(projectPath, trigger, catchUp ? savedAt : null);
+    }
+    this.refreshTaggedFiles();
+  }
+
+  /** `catchUpSince` is when a trigger that never ran became active, or null to skip catching up. */
+  private async scheduleTrigger(
+    projectPath: string,
+    trigger: ScheduleTrigger,
+    catchUpSince: number | null
+  ): Promise<void> {
+    const schedule = parseStudioCronExpression(trigger.cron);
+    const now = Date.now();
+    const scheduled: ScheduledRun = {
+      projectPath,
+      trigger,
+      schedule,
+      nextAt: nextStudioCronOccurrence(schedule, new Date(now))?.getTime() ?? null,
+    };
+    this.scheduledRuns.set(`${projectPath}::${trigger.id}`, scheduled);
+    if (catchUpSince === null || trigger.catchUp !== "run_once") return;
+
+    const missedAt = await this.findMissedScheduleTime(projectPath, trigger, schedule, catchUpSince, now);
+    if (missedAt !== null && !this.disposed) {
+      this.fire(projectPath, trigger, `missed ${formatScheduleTime(missedAt)}`);
+    }
+  }
+
+  /**
+   * The latest scheduled time since this trigger's last run, or since
+   * `activeSince` when it never ran; null when nothing was missed.
+   */
+  private async findMissedScheduleTime(
+    projectPath: string,
+    trigger: ScheduleTrigger,
+    schedule: StudioCronSchedule,
+    activeSince: number,
+    now: number
+  ): Promise<number | null> {
+    let runs: StudioRunSummary[] = [];
+    try {
+      runs = await this.getRunHost().getRecentRuns(projectPath);
+    } catch {
+      return null;
+    }
+    const lastRun = runs.find((run) => run.trigger?.triggerId === trigger.id);
+    const since = lastRun ? new Date(lastRun.startedAt) : new Date(activeSince);
+    return latestStudioCronOccurrence(schedule, since, new Date(now))?.getTime() ?? null;
+  }
+
+  checkSchedules(now: number): void {
+    if (this.disposed) return;
+    for (const scheduled of this.scheduledRuns.values()) {
+      if (scheduled.nextAt === null || scheduled.nextAt > now) continue;
+      const dueAt = scheduled.nextAt;
+      scheduled.nextAt = nextStudioCronOccurrence(scheduled.schedule, new Date(now))?.getTime() ?? null;
+      const missed = now - dueAt > MISSED_SCHEDULE_GRACE_MS;
+      if (missed && scheduled.trigger.catchUp !== "run_once") continue;
+      this.fire(scheduled.projectPath, scheduled.trigger, missed ? `missed ${formatScheduleTime(dueAt)}` : formatScheduleTime(dueAt));
+    }
+  }
+
+  private fire(projectPath: string, trigger: StudioProjectTrigger, detail: string): void {
+    const runTrigger: StudioRunTrigger = { triggerId: trigger.id, type: trigger.type, detail };
+    void this.getRunHost()
+      .runProject(projectPath, { trigger: runTrigger })
+      .catch((error) => {
+        this.plugin.getLogger().warn("Triggered Studio run failed", {
+          source: "StudioTriggerService",
+          metadata: {
+            projectPath,
+            triggerId: trigger.id,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      });
+  }
+}
@@ -0,0 +1,91 @@
+import { normalizePath, TFile, type App } from "obsidian";
+import type SystemSculptPlugin from "../main";
+import { normalizeSearchTag, readSearchNoteTags } from "../services/search/searchQuery";
+import type { StudioVaultSearchHit, StudioVaultSearchRequest } from "./types";
+
+// Filters and grants drop hits after ranking, so searches rank a wider pool.
+const FILTERED_SEARCH_POOL_FACTOR = 5;
+const FILTERED_SEARCH_MIN_POOL = 50;
+
+export function matchesStudioVaultSearchFilters(
+  path: string,
+  noteTags: string[],
+  filters: Pick<StudioVaultSearchRequest, "folder" | "tags">
+): boolean {
+  const folder = filters.folder.trim() ? normalizePath(filters.folder.trim()).replace(/^\/+|\/+$/g, "") : "";
+  if (folder && !path.startsWith(`${folder}/`)) {
+    return false;
+  }
+  const wanted = filters.tags.map(normalizeSearchTag).filter((tag) => tag.length > 0);
+  if (wanted.length === 0) {
+    return true;
+  }
+  return noteTags.some((tag) => wanted.some((entry) => tag === entry || tag.startsWith(`${entry}/`)));
+}
+
+async function searchSemantic(
+  plugin: SystemSculptPlugin,
+  request: StudioVaultSearchRequest,
+  limit: number
+): Promise<StudioVaultSearchHit[]> {
+  if (!plugin.settings.embeddingsEnabled) {
+    throw new Error("Semantic vault search needs Similar notes turned on in Settings → Knowledge.");
+  }
+  const results = await plugin.getOrCreateEmbeddingsManager().searchSimilar(request.query, limit, request.signal);
+  // Results are per chunk; keep each note's best-scoring chunk.
+  const byPath = new Map<string, StudioVaultSearchHit>();
+  for (const result of results) {
+    const existing = byPath.get(result.path);
+    if (!existing || result.score > existing.score) {
+      byPath.set(result.path, {
+        path: result.path,
+        excerpt: result.metadata?.excerpt || "",
+        score: result.score,
+      });
+    }
+  }
+  return Array.from(byPath.values()).sort((left, right) => right.score - left.score);
+}
+
+/**
+ * Runs a Studio vault search: hybrid and lexical through the search modal's
+ * engine as literal words, semantic straight against the embeddings index. Returns markdown
+ * notes only, best first, after the folder, tag and grant filters.
+ */
+export async function searchStudioVault(
+  app: App,
+  plugin: SystemSculptPlugin,
+  request: StudioVaultSearchRequest
+): Promise<StudioVaultSearchHit[]> {
+  const poolSize = Math.max(request.limit * FILTERED_SEARCH_POOL_FACTOR, FILTERED_SEARCH_MIN_POOL);
+  const hits = request.mode === "semantic"
+    ? await searchSemantic(plugin, request, poolSize)
+    : (
+      await plugin.getSearchEngine().search(request.query, {
+        mode: request.mode === "lexical" ? "lexical" : "smart",
+        limit: poolSize,
+        signal: request.signal,
+        awaitIndex: true,
+        // The query often comes from an upstream model; a stray quote or
+        // `tag:` must not fail the run.
+        syntax: "literal",
+      })
+    ).results.map((hit) => ({ path: hit.path, excerpt: hit.excerpt || "", score: hit.score }));
+
+  const matches: StudioVaultSearchHit[] = [];
+  for (const hit of hits) {
+    const file = app.vault.getAbstractFileByPath(hit.path);
+    if (!(file instanceof TFile) || file.extension.toLowerCase() !== "md") {
+      continue;
+    }
+    const noteTags = request.tags.length > 0 ? readSearchNoteTags(app.metadataCache.getFileCache(file)) : [];
+    if (!matchesStudioVaultSearchFilters(file.path, noteTags, request) || !request.isPathAllowed(file.path)) {
+      continue;
+    }
+    matches.push(hit);
+    if (matches.length >= request.limit) {
+      break;
+    }
+  }
+  return matches;
+}
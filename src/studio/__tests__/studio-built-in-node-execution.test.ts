@@ -3,7 +3,8 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { registerBuiltInStudioNodes } from "../StudioBuiltInNodes";
 import { StudioNodeRegistry } from "../StudioNodeRegistry";
-import type { StudioNodeExecutionContext, StudioJsonValue } from "../types";
+import { resolveNodeDefinitionPorts } from "../StudioNodePortResolution";
+import type { StudioNodeExecutionContext, StudioJsonValue, StudioVaultSearchRequest } from "../types";
 
 function createContext(options: {
   nodeId: string;
@@ -17,6 +18,8 @@ function createContext(options: {
   readAssetMock?: jest.Mock;
   writeTempFileMock?: jest.Mock;
   readVaultTextMock?: jest.Mock;
+  vaultFileExistsMock?: jest.Mock;
+  writeVaultTextMock?: jest.Mock;
   statVaultFileSizeMock?: jest.Mock;
   readVaultBinaryMock?: jest.Mock;
   statLocalFileSizeMock?: jest.Mock;
@@ -45,6 +48,11 @@ function createContext(options: {
   const readAssetMock = options.readAssetMock || jest.fn(async () => new ArrayBuffer(0));
   const writeTempFileMock = options.writeTempFileMock || jest.fn(async () => "/tmp/file.bin");
   const readVaultTextMock = options.readVaultTextMock || jest.fn(async () => "");
+  const vaultFileExistsMock = options.vaultFileExistsMock || jest.fn(() => false);
+  const writeVaultTextMock = options.writeVaultTextMock || jest.fn(
+    async (path: string, update: (current: string | null) => string) =>
+      update(vaultFileExistsMock(path) ? await readVaultTextMock(path) : null)
+  );
   const statVaultFileSizeMock = options.statVaultFileSizeMock || jest.fn(async () => 1);
   const readVaultBinaryMock = options.readVaultBinaryMock || jest.fn(async () => new ArrayBuffer(0));
   const statLocalFileSizeMock = options.statLocalFileSizeMock || jest.fn(async () => 1);
@@ -80,6 +88,8 @@ function createContext(options: {
       readAsset: readAssetMock,
       resolveAbsolutePath: (path) => path,
       readVaultText: readVaultTextMock,
+      vaultFileExists: vaultFileExistsMock,
+      writeVaultText: writeVaultTextMock,
       statVaultFileSize: statVaultFileSizeMock,
       readVaultBinary: readVaultBinaryMock,
       statLocalFileSize: statLocalFileSizeMock,
@@ -918,4 +928,464 @@ describe("Studio built-in text/image node execution", () => {
     }
   });
 
+  it("branch node routes the value to the port its expression selects", async () => {
+    const definition = registry.get("studio.branch", "1.0.0");
+    expect(definition?.controlFlow).toBe("route");
+
+    const taken = await definition!.execute(
+      createContext({
+        nodeId: "branch",
+        kind: "studio.branch",
+        config: { expression: 'value.status == "done"' },
+        inputs: { value: '{"status":"done","count":3}' },
+      })
+    );
+    expect(taken.outputs).toEqual({ true: '{"status":"done","count":3}' });
+
+    const notTaken = await definition!.execute(
+      createContext({
+        nodeId: "branch",
+        kind: "studio.branch",
+        config: { expression: "value.items.length > 2" },
+        inputs: { value: { items: ["a"] } },
+      })
+    );
+    expect(notTaken.outputs).toEqual({ false: { items: ["a"] } });
+  });
+
+  it("branch node prefers a connected condition and reads negative words as false", async () => {
+    const definition = registry.get("studio.branch", "1.0.0");
+
+    const result = await definition!.execute(
+      createContext({
+        nodeId: "branch",
+        kind: "studio.branch",
+        config: { expression: "value" },
+        inputs: { value: "draft", condition: " No " },
+      })
+    );
+
+    expect(result.outputs).toEqual({ false: "draft" });
+  });
+
+  it("switch node exposes one port per case and emits only the first match", async () => {
+    const definition = registry.get("studio.switch", "1.0.0");
+    const config = {
+      field: "value.category",
+      cases: ["bug", "feature", "bug report"],
+      matchMode: "contains",
+      caseSensitive: false,
+    };
+    expect(resolveNodeDefinitionPorts(
+      {
+        id: "switch",
+        kind: "studio.switch",
+        version: "1.0.0",
+        title: "Switch",
+        position: { x: 0, y: 0 },
+        config,
+      },
+      definition!
+    ).outputPorts.map((port) => port.id)).toEqual(["case_1", "case_2", "case_3", "default"]);
+
+    const matched = await definition!.execute(
+      createContext({
+        nodeId: "switch",
+        kind: "studio.switch",
+        config,
+        inputs: { value: { category: "Bug report" } },
+      })
+    );
+    expect(matched.outputs).toEqual({ case_1: { category: "Bug report" } });
+
+    const unmatched = await definition!.execute(
+      createContext({
+        nodeId: "switch",
+        kind: "studio.switch",
+        config,
+        inputs: { value: { category: "question" } },
+      })
+    );
+    expect(unmatched.outputs).toEqual({ default: { category: "question" } });
+  });
+
+  it("switch node reports invalid regular expression cases", async () => {
+    const definition = registry.get("studio.switch", "1.0.0");
+
+    await expect(
+      definition!.execute(
+        createContext({
+          nodeId: "switch",
+          kind: "studio.switch",
+          config: { cases: ["("], matchMode: "regex" },
+          inputs: { value: "text" },
+        })
+      )
+    ).rejects.toThrow('Switch case "(" is not a valid regular expression.');
+  });
+
+  it("merge node emits the first input that received a value", async () => {
+    const definition = registry.get("studio.merge", "1.0.0");
+    expect(definition?.controlFlow).toBe("merge");
+
+    const result = await definition!.execute(
+      createContext({
+        nodeId: "merge",
+        kind: "studio.merge",
+        inputs: { input_2: "from false branch", input_3: "later" },
+      })
+    );
+    expect(result.outputs).toEqual({ value: "from false branch" });
+
+    const empty = await definition!.execute(
+      createContext({ nodeId: "merge", kind: "studio.merge" })
+    );
+    expect(empty.outputs).toEqual({ value: null });
+  });
+
+  it("template node turns placeholders into input ports and renders loops, conditions and filters", async () => {
+    const definition = registry.get("studio.template", "1.0.0");
+    const config = {
+      template: [
+        "# {{title | trim}} ({{published | date \"DD.MM.YYYY\"}})",
+        "{{#each notes as note}}{{@index}}. {{note.name}}: {{note.body | truncate 10}}\n{{/each}}",
+        "{{#if urgent}}Reply today.{{else}}No rush.{{/if}}",
+        "{{#unless notes}}No notes.{{/unless}}{{meta | json}}",
+      ].join("\n"),
+    };
+    expect(resolveNodeDefinitionPorts(
+      {
+        id: "template",
+        kind: "studio.template",
+        version: "1.0.0",
+        title: "Template",
+        position: { x: 0, y: 0 },
+        config,
+      },
+      definition!
+    ).inputPorts).toEqual([
+      { id: "title", type: "any", required: false },
+      { id: "published", type: "any", required: false },
+      { id: "notes", type: "any", required: false },
+      { id: "urgent", type: "any", required: false },
+      { id: "meta", type: "any", required: false },
+    ]);
+
+    const result = await definition!.execute(
+      createContext({
+        nodeId: "template",
+        kind: "studio.template",
+        config,
+        inputs: {
+          title: "  Weekly review ",
+          published: "2026-07-14T12:00:00",
+          notes: JSON.stringify([
+            { name: "Plan", body: "Ship the template node" },
+            { name: "Risks", body: "None" },
+          ]),
+          urgent: "no",
+          meta: { tags: ["a"] },
+        },
+      })
+    );
+    expect(result.outputs).toEqual({
+      text: [
+        "# Weekly review (14.07.2026)",
+        "0. Plan: Ship the t…\n1. Risks: None\n",
+        "No rush.",
+        '{\n  "tags": [\n    "a"\n  ]\n}',
+      ].join("\n"),
+    });
+  });
+
+  it("template node keeps ports of well-formed tags while a block is unfinished", () => {
+    const definition = registry.get("studio.template", "1.0.0");
+    const ports = resolveNodeDefinitionPorts(
+      {
+        id: "template",
+        kind: "studio.template",
+        version: "1.0.0",
+        title: "Template",
+        position: { x: 0, y: 0 },
+        config: { template: "{{intro}} {{#each items as item}}{{item.name}}" },
+      },
+      definition!
+    ).inputPorts;
+    expect(ports.map((port) => port.id)).toEqual(["intro", "items"]);
+  });
+
+  it("structured text generation exposes schema properties as typed ports and repairs invalid replies", async () => {
+    const definition = registry.get("studio.text_generation", "1.0.0");
+    const config = {
+      outputMode: "structured",
+      outputSchema: {
+        type: "object",
+        properties: {
+          summary: { type: "string", description: "One line." },
+          actionItems: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { task: { type: "string" }, owner: { type: "string" }, due: { type: ["string", "null"] } },
+              required: ["task", "owner"],
+            },
+          },
+          count: { type: "integer" },
+          text: { type: "string" },
+        },
+        required: ["summary", "actionItems"],
+        additionalProperties: false,
+      },
+    };
+    expect(resolveNodeDefinitionPorts(
+      {
+        id: "extract",
+        kind: "studio.text_generation",
+        version: "1.0.0",
+        title: "Extract",
+        position: { x: 0, y: 0 },
+        config,
+      },
+      definition!
+    ).outputPorts).toEqual([
+      { id: "text", type: "text", description: "The validated object as JSON text." },
+      { id: "json", type: "json", description: "The validated object." },
+      { id: "summary", type: "text", description: "One line." },
+      { id: "actionItems", type: "json" },
+      { id: "count", type: "number" },
+    ]);
+
+    const replies = [
+      "Here are the action items: Ana ships the draft.",
+      JSON.stringify({ summary: "Sync", actionItems: [{ task: "Ship draft" }], extra: 1 }),
+      '```json\n{"summary":"Sync","actionItems":[{"task":"Ship draft","owner":"Ana","due":null}]}\n```',
+    ];
+    const generateTextMock = jest.fn(async (request: {
+      attempt?: number;
+      buildPayload: () => { prompt: string; systemPrompt?: string };
+    }) => ({
+      text: replies[request.attempt ?? 0],
+      operation: { capability: "text_generation", operationId: `op-${request.attempt ?? 0}` },
+    }));
+
+    const result = await definition!.execute(
+      createContext({
+        nodeId: "extract",
+        kind: "studio.text_generation",
+        config,
+        inputs: { prompt: "Ana will ship the draft." },
+        generateTextMock,
+      })
+    );
+
+    expect(generateTextMock.mock.calls.map(([request]) => request.attempt)).toEqual([undefined, 1, 2]);
+    const firstPayload = generateTextMock.mock.calls[0][0].buildPayload();
+    expect(firstPayload.prompt).toBe("Ana will ship the draft.");
+    expect(firstPayload.systemPrompt).toContain('"actionItems"');
+    const repairPrompt = generateTextMock.mock.calls[2][0].buildPayload().prompt;
+    expect(repairPrompt).toContain("- $.actionItems[0].owner is required.");
+    expect(repairPrompt).toContain("- $.extra is not allowed.");
+    expect(result.managedOperations?.map((operation) => operation.operationId)).toEqual(["op-0", "op-1", "op-2"]);
+    const value = { summary: "Sync", actionItems: [{ task: "Ship draft", owner: "Ana", due: null }] };
+    expect(result.outputs).toEqual({
+      text: JSON.stringify(value, null, 2),
+      json: value,
+      summary: "Sync",
+      actionItems: value.actionItems,
+      count: null,
+    });
+  });
+
+  it("structured text generation fails after the bounded repair attempts", async () => {
+    const definition = registry.get("studio.text_generation", "1.0.0");
+    const generateTextMock = jest.fn(async () => ({
+      text: '{"owner": 3}',
+      operation: { capability: "text_generation", operationId: "op" },
+    }));
+
+    await expect(
+      definition!.execute(
+        createContext({
+          nodeId: "extract",
+          kind: "studio.text_generation",
+          config: {
+            outputMode: "structured",
+            outputSchema: { type: "object", properties: { owner: { type: "string" } } },
+          },
+          inputs: { prompt: "Who owns it?" },
+          generateTextMock,
+        })
+      )
+    ).rejects.toThrow("$.owner should be string.");
+    expect(generateTextMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("vault search node outputs granted hits as separate ports and concatenated note text", async () => {
+    const definition = registry.get("studio.vault_search", "1.0.0");
+    const context = createContext({
+      nodeId: "search",
+      kind: "studio.vault_search",
+      config: { mode: "semantic", topK: 80, folder: " Projects ", tags: ["atlas", " "] },
+      inputs: { query: "  launch risks " },
+      readVaultTextMock: jest.fn(async (path: string) => `Body of ${path}\n`),
+    });
+    const searchVault = jest.fn(async (request: StudioVaultSearchRequest) => [
+      { path: "Projects/Risks.md", excerpt: "Vendor delay", score: 0.91234 },
+      { path: "Private/Diary.md", excerpt: "secret", score: 0.8 },
+      { path: "Projects/Plan.md", excerpt: "Launch in May", score: 0.5 },
+    ].filter((hit) => request.isPathAllowed(hit.path)));
+    context.services.searchVault = searchVault;
+    context.services.assertFilesystemPath = (path) => {
+      if (path.startsWith("Private/")) {
+        throw new Error("Path not granted.");
+      }
+    };
+
+    const result = await definition!.execute(context);
+
+    expect(searchVault).toHaveBeenCalledWith(expect.objectContaining({
+      query: "launch risks",
+      mode: "semantic",
+      limit: 50,
+      folder: "Projects",
+      tags: ["atlas"],
+    }));
+    expect(result.outputs).toEqual({
+      paths: ["Projects/Risks.md", "Projects/Plan.md"],
+      excerpts: ["Vendor delay", "Launch in May"],
+      scores: [0.912, 0.5],
+      content: "# Projects/Risks.md\n\nBody of Projects/Risks.md\n\n---\n\n# Projects/Plan.md\n\nBody of Projects/Plan.md",
+    });
+  });
+
+  it("map node runs every element through the runtime group service in order", async () => {
+    const definition = registry.get("studio.map", "1.0.0");
+    const context = createContext({
+      nodeId: "map",
+      kind: "studio.map",
+      config: { groupId: "Per item", concurrency: 3 },
+      inputs: { items: '["one", "two", "three"]' },
+    });
+    const runItem = jest.fn(async (item: StudioJsonValue, index: number) => `${index}:${String(item)}`);
+    context.services.mapGroup = { concurrency: 2, runItem };
+
+    const result = await definition!.execute(context);
+
+    expect(result.outputs).toEqual({ results: ["0:one", "1:two", "2:three"] });
+    expect(runItem).toHaveBeenCalledTimes(3);
+  });
+
+  it("map node rejects input that is not a JSON array", async () => {
+    const definition = registry.get("studio.map", "1.0.0");
+    const context = createContext({
+      nodeId: "map",
+      kind: "studio.map",
+      config: { groupId: "Per item" },
+      inputs: { items: { not: "a list" } },
+    });
+    context.services.mapGroup = { concurrency: 2, runItem: jest.fn() };
+
+    await expect(definition!.execute(context)).rejects.toThrow(
+      "Map node expects a JSON array on its items input."
+    );
+  });
+
+  it("write note node creates a note at a templated path with merged properties", async () => {
+    const definition = registry.get("studio.write_note", "1.0.0");
+    const writeVaultTextMock = jest.fn(async (_path: string, update: (current: string | null) => string) => update(null));
+    const result = await definition!.execute(
+      createContext({
+        nodeId: "write",
+        kind: "studio.write_note",
+        config: {
+          pathTemplate: "Daily/{{day}} {{topic.name}}",
+          mode: "create",
+          frontmatter: { source: "studio", topic: "{{topic.name}}" },
+        },
+        inputs: {
+          content: "Body text",
+          values: { day: "2026-05-01", topic: { name: "Tides/Moon" } },
+        },
+        writeVaultTextMock,
+      })
+    );
+
+    const expectedText = "---\nsource: studio\ntopic: Tides/Moon\n---\nBody text";
+    expect(result.outputs).toEqual({
+      path: "Daily/2026-05-01 Tides/Moon.md",
+      text: expectedText,
+      status: "created",
+    });
+    expect(writeVaultTextMock).toHaveBeenCalledWith("Daily/2026-05-01 Tides/Moon.md", expect.any(Function));
+  });
+
+  it("write note node numbers a copy when the note exists and skips writes on dry run", async () => {
+    const definition = registry.get("studio.write_note", "1.0.0");
+    const existing = new Set(["Notes/Log.md", "Notes/Log 1.md"]);
+    const writeVaultTextMock = jest.fn(async () => {});
+    const result = await definition!.execute(
+      createContext({
+        nodeId: "write",
+        kind: "studio.write_note",
+        config: { pathTemplate: "Notes/Log", mode: "create", collision: "increment", dryRun: true },
+        inputs: { content: "Entry" },
+        vaultFileExistsMock: jest.fn((path: string) => existing.has(path)),
+        writeVaultTextMock,
+      })
+    );
+
+    expect(result.outputs).toEqual({ path: "Notes/Log 2.md", text: "Entry", status: "preview" });
+    expect(writeVaultTextMock).not.toHaveBeenCalled();
+  });
+
+  it("write note node replaces only the named section of the note as it is at write time", async () => {
+    const definition = registry.get("studio.write_note", "1.0.0");
+    const currentNote =
+      "---\ntags: [daily]\n---\n# Today\n\n## Summary\n\nOld summary\n\n### Detail\n\nOld detail\n\n## Tasks\n\n- [ ] Keep";
+    const readVaultTextMock = jest.fn(async () => "# Stale copy");
+    const result = await definition!.execute(
+      createContext({
+        nodeId: "write",
+        kind: "studio.write_note",
+        config: { pathTemplate: "Daily/Today.md", mode: "replace_section", section: "Summary" },
+        inputs: { content: "New summary" },
+        vaultFileExistsMock: jest.fn(() => true),
+        readVaultTextMock,
+        writeVaultTextMock: jest.fn(async (_path: string, update: (current: string | null) => string) => update(currentNote)),
+      })
+    );
+
+    expect(readVaultTextMock).not.toHaveBeenCalled();
+
+    expect(result.outputs.status).toBe("updated");
+    expect(result.outputs.text).toBe(
+      "---\ntags: [daily]\n---\n# Today\n\n## Summary\n\nNew summary\n\n## Tasks\n\n- [ ] Keep"
+    );
+  });
+
+  it("write note node appends after existing content and rejects unknown placeholders", async () => {
+    const definition = registry.get("studio.write_note", "1.0.0");
+    const appended = await definition!.execute(
+      createContext({
+        nodeId: "write",
+        kind: "studio.write_note",
+        config: { pathTemplate: "Inbox.md", mode: "append" },
+        inputs: { content: "- second" },
+        vaultFileExistsMock: jest.fn(() => true),
+        readVaultTextMock: jest.fn(async () => "- first\n"),
+      })
+    );
+    expect(appended.outputs.text).toBe("- first\n\n- second");
+
+    await expect(
+      definition!.execute(
+        createContext({
+          nodeId: "write",
+          kind: "studio.write_note",
+          config: { pathTemplate: "Notes/{{missing}}.md" },
+          inputs: { content: "x" },
+        })
+      )
+    ).rejects.toThrow("Unknown placeholder {{missing}}. Provide it through the values input.");
+  });
 });
@@ -268,4 +268,60 @@ describe("Studio node config validation", () => {
     expect(result.errors.some((error) => error.message.includes("non-empty path"))).toBe(true);
   });
 
+  it("reports template syntax errors on the template field", () => {
+    const registry = registryWithBuiltIns();
+    const definition = registry.get("studio.template", "1.0.0");
+    expect(definition).not.toBeNull();
+
+    expect(validateNodeConfig(definition!, { template: "{{#each items}}{{this}}{{/each}}" }).isValid).toBe(true);
+    expect(validateNodeConfig(definition!, { template: "{{#each items}}{{this}}" }).errors).toEqual([
+      { fieldKey: "template", message: "{{#each}} is never closed." },
+    ]);
+    expect(validateNodeConfig(definition!, { template: "{{name | shout}}" }).errors[0]?.message).toContain(
+      'Unknown filter "shout"'
+    );
+    expect(validateNodeConfig(definition!, { template: "{{@index}}" }).errors[0]?.message).toBe(
+      "{{@index}} only works inside {{#each}}."
+    );
+  });
+
+  it("requires an output schema with properties in structured text generation mode", () => {
+    const registry = registryWithBuiltIns();
+    const definition = registry.get("studio.text_generation", "1.0.0");
+    expect(definition).not.toBeNull();
+
+    expect(validateNodeConfig(definition!, { outputSchema: { bad: true } }).isValid).toBe(true);
+    expect(validateNodeConfig(definition!, { outputMode: "structured" }).errors).toEqual([
+      {
+        fieldKey: "outputSchema",
+        message: "Structured output needs a JSON Schema object with top-level properties.",
+      },
+    ]);
+    expect(
+      validateNodeConfig(definition!, {
+        outputMode: "structured",
+        outputSchema: { type: "object", properties: { owner: { type: "string" } } },
+      }).isValid
+    ).toBe(true);
+  });
+
+  it("reports schema properties that cannot become their own output ports", () => {
+    const registry = registryWithBuiltIns();
+    const definition = registry.get("studio.text_generation", "1.0.0");
+    expect(definition).not.toBeNull();
+
+    expect(
+      validateNodeConfig(definition!, {
+        outputMode: "structured",
+        outputSchema: { type: "object", properties: { text: { type: "string" }, " ": {}, owner: {} } },
+      }).errors
+    ).toEqual([
+      {
+        fieldKey: "outputSchema",
+        message: 'Schema property "text" clashes with the built-in text output. Rename it to give it its own port.',
+      },
+      { fieldKey: "outputSchema", message: "Schema properties need a name to become output ports." },
+    ]);
+  });
+
 });
@@ -68,6 +68,7 @@ describe("Studio persistence architecture lint", () => {
       "src/studio/persistence/ObsidianStudioGenerationAdapter.ts",
       "src/studio/persistence/StudioProjectGenerationStore.ts",
       "src/studio/persistence/StudioProjectRecoveryStore.ts",
+      "src/studio/persistence/StudioVaultNoteStore.ts",
     ]);
     const allowedNonProjectContexts = new Set([
       "src/main.ts#rotateDiagnosticsFile",
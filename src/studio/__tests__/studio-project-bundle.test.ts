@@ -0,0 +1,241 @@
+import { sha256HexFromArrayBuffer } from "../hash";
+import { deriveStudioAssetsDir } from "../paths";
+import {
+  buildStudioProjectBundle,
+  collectStudioSupportReferences,
+  decodeStudioBundleFiles,
+  parseStudioProjectBundle,
+  serializeStudioProjectBundle,
+} from "../StudioProjectBundle";
+import { StudioService } from "../StudioService";
+import type { StudioPermissionPolicyV1, StudioProjectV1 } from "../types";
+import {
+  createManagedCapabilityGraphStub,
+  getManagedStudioTestVaultName,
+} from "./managed-capability-graph.stub";
+
+const SOURCE_PATH = "Team/Pipelines/Captions.systemsculpt";
+const SOURCE_ASSETS = deriveStudioAssetsDir(SOURCE_PATH);
+const encoder = new TextEncoder();
+
+function createPluginStub(): any {
+  return {
+    app: {
+      vault: {
+        adapter: {
+          exists: jest.fn(async () => false),
+          mkdir: jest.fn(async () => {}),
+          write: jest.fn(async () => {}),
+          read: jest.fn(async () => ""),
+        },
+        getName: getManagedStudioTestVaultName,
+        configDir: ".obsidian",
+      },
+    },
+    manifest: { id: "systemsculpt-ai", version: "9.9.9", dir: "/tmp/systemsculpt-ai" },
+    settings: {
+      studioDefaultProjectsFolder: "SystemSculpt/Studio",
+      studioRunRetentionMaxRuns: 100,
+      studioRunRetentionMaxArtifactsMb: 1024,
+    },
+    getLogger: () => ({ warn: jest.fn(), error: jest.fn() }),
+    getManagedCapabilityGraph: createManagedCapabilityGraphStub,
+  };
+}
+
+function projectFixture(projectId: string, projectPath: string, nodes: StudioProjectV1["graph"]["nodes"]): StudioProjectV1 {
+  return {
+    schema: "studio.project.v1",
+    projectId,
+    name: "Captions",
+    createdAt: "2026-07-13T00:00:00.000Z",
+    updatedAt: "2026-07-13T00:00:00.000Z",
+    engine: { apiMode: "systemsculpt_only", minPluginVersion: "1.0.0" },
+    graph: { nodes, edges: [], entryNodeIds: [], groups: [] },
+    permissionsRef: { policyVersion: 1, policyPath: `${deriveStudioAssetsDir(projectPath)}/policy/grants.json` },
+    settings: {
+      runConcurrency: "adaptive",
+      defaultFsScope: "vault",
+      retention: { maxRuns: 100, maxArtifactsMb: 1024 },
+    },
+    migrations: { projectSchemaVersion: "1.0.0", applied: [{ id: "studio.text-node-kinds.v1", at: "2026-07-13T00:00:00.000Z" }] },
+  };
+}
+
+function policyFixture(): StudioPermissionPolicyV1 {
+  return {
+    schema: "studio.policy.v1",
+    version: 1,
+    updatedAt: "2026-07-13T00:00:00.000Z",
+    grants: [
+      { id: "g1", capability: "filesystem", scope: { allowedPaths: ["/"] }, grantedAt: "x", grantedByUser: true },
+      { id: "g2", capability: "cli", scope: { allowedCommandPatterns: ["ffmpeg", "yt-dlp *", "*"] }, grantedAt: "x", grantedByUser: true },
+    ],
+  };
+}
+
+async function assetFixture(text: string): Promise<{ path: string; bytes: Uint8Array }> {
+  const bytes = encoder.encode(text);
+  const hash = await sha256HexFromArrayBuffer(bytes.slice().buffer);
+  return { path: `assets/sha256/${hash.slice(0, 2)}/${hash}.png`, bytes };
+}
+
+describe("Studio project bundles", () => {
+  it("packs referenced files and turns non-default grants into requests", async () => {
+    const asset = await assetFixture("png-bytes");
+    const project = projectFixture("proj_source", SOURCE_PATH, [
+      {
+        id: "media",
+        kind: "studio.media_ingest",
+        version: "1.0.0",
+        title: "Media",
+        position: { x: 0, y: 0 },
+        config: { sourcePath: `${SOURCE_ASSETS}/${asset.path}`, note: "Inbox/elsewhere.md" },
+      },
+    ]);
+
+    expect(collectStudioSupportReferences(project.graph, SOURCE_ASSETS)).toEqual([asset.path]);
+
+    const bundle = parseStudioProjectBundle(serializeStudioProjectBundle(buildStudioProjectBundle({
+      projectPath: SOURCE_PATH,
+      project,
+      policy: policyFixture(),
+      files: new Map([[asset.path, asset.bytes]]),
+      pluginVersion: "9.9.9",
+      exportedAt: "2026-07-14T00:00:00.000Z",
+    })));
+
+    expect(bundle.sourceAssetsDir).toBe(SOURCE_ASSETS);
+    expect(bundle.requestedGrants).toEqual([
+      { capability: "cli", scope: { allowedCommandPatterns: ["yt-dlp *"] } },
+    ]);
+    expect(bundle.nodeCache).toBeUndefined();
+    const decoded = await decodeStudioBundleFiles(bundle);
+    expect(Array.from(decoded.files.get(asset.path) || [])).toEqual(Array.from(asset.bytes));
+    expect(decoded.skipped).toEqual([]);
+  });
+
+  it("skips bundled files outside the support folders or with the wrong hash", async () => {
+    const asset = await assetFixture("real");
+    const bundle = parseStudioProjectBundle(JSON.stringify({
+      schema: "studio.bundle.v1",
+      sourceAssetsDir: SOURCE_ASSETS,
+      project: projectFixture("proj_source", SOURCE_PATH, []),
+      files: [
+        { path: asset.path, base64: btoa("tampered") },
+        { path: "policy/grants.json", base64: btoa("{}") },
+        { path: "imports/../../escape.md", base64: btoa("x") },
+        { path: "imports/clip.wav", base64: btoa("wav") },
+      ],
+    }));
+
+    const decoded = await decodeStudioBundleFiles(bundle);
+
+    expect([...decoded.files.keys()]).toEqual(["imports/clip.wav"]);
+    expect(decoded.skipped).toHaveLength(3);
+  });
+
+  it("keeps only cached results that match a bundled node", () => {
+    const entry = (nodeId: string, extra: Record<string, unknown> = {}) => ({
+      nodeId,
+      nodeKind: "studio.media_ingest",
+      nodeVersion: "1.0.0",
+      inputFingerprint: "abc",
+      outputs: { path: "x" },
+      updatedAt: "2026-07-14T00:00:00.000Z",
+      runId: "run_1",
+      ...extra,
+    });
+    const bundle = parseStudioProjectBundle(JSON.stringify({
+      schema: "studio.bundle.v1",
+      sourceAssetsDir: SOURCE_ASSETS,
+      project: projectFixture("proj_source", SOURCE_PATH, [
+        { id: "media", kind: "studio.media_ingest", version: "1.0.0", title: "Media", position: { x: 0, y: 0 }, config: {} },
+        { id: "older", kind: "studio.media_ingest", version: "2.0.0", title: "Older", position: { x: 0, y: 0 }, config: {} },
+        { id: "art", kind: "studio.media_ingest", version: "1.0.0", title: "Art", position: { x: 0, y: 0 }, config: {} },
+      ]),
+      files: [],
+      nodeCache: {
+        schema: "studio.node-cache.v1",
+        projectId: "proj_source",
+        updatedAt: "2026-07-14T00:00:00.000Z",
+        entries: {
+          media: entry("media"),
+          older: entry("older"),
+          ghost: entry("ghost"),
+          renamed: entry("media"),
+          art: entry("art", { artifacts: [{ path: "x.png" }] }),
+          broken: "not an entry",
+        },
+      },
+    }));
+
+    expect(Object.keys(bundle.nodeCache?.entries ?? {})).toEqual(["media"]);
+  });
+
+  it("rejects files that are not Studio bundles", () => {
+    expect(() => parseStudioProjectBundle("not json")).toThrow("not JSON");
+    expect(() => parseStudioProjectBundle(JSON.stringify({ schema: "studio.project.v1" }))).toThrow("studio.bundle.v1");
+  });
+
+  it("imports into a new project, remapping asset paths and reporting unknown node kinds", async () => {
+    const service = new StudioService(createPluginStub());
+    const targetPath = "Shared/Captions.systemsculpt";
+    const targetAssets = deriveStudioAssetsDir(targetPath);
+    const created = projectFixture("proj_target", targetPath, []);
+    let contents: any;
+    const createProject = jest.spyOn((service as any).projectStore, "createProject").mockImplementation(async (options: any) => {
+      contents = options.contents(targetPath, created);
+      return { path: targetPath, project: contents.project };
+    });
+    jest.spyOn(service as any, "ensureDefaultPolicy").mockResolvedValue(undefined);
+    const asset = await assetFixture("png-bytes");
+    const sourcePath = `${SOURCE_ASSETS}/${asset.path}`;
+    const bundle = buildStudioProjectBundle({
+      projectPath: SOURCE_PATH,
+      project: projectFixture("proj_source", SOURCE_PATH, [
+        { id: "media", kind: "studio.media_ingest", version: "1.0.0", title: "Media", position: { x: 0, y: 0 }, config: { sourcePath } },
+        { id: "future", kind: "studio.teleport", version: "2.0.0", title: "Future", position: { x: 200, y: 0 }, config: {} },
+      ]),
+      policy: policyFixture(),
+      files: new Map([[asset.path, asset.bytes]]),
+      nodeCache: {
+        schema: "studio.node-cache.v1",
+        projectId: "proj_source",
+        updatedAt: "2026-07-14T00:00:00.000Z",
+        entries: {
+          media: {
+            nodeId: "media",
+            nodeKind: "studio.media_ingest",
+            nodeVersion: "1.0.0",
+            inputFingerprint: "abc",
+            outputs: { path: sourcePath },
+            updatedAt: "2026-07-14T00:00:00.000Z",
+            runId: "run_1",
+          },
+        },
+      },
+      pluginVersion: "9.9.9",
+      exportedAt: "2026-07-14T00:00:00.000Z",
+    });
+
+    const result = await service.importProjectBundle(bundle, { folder: "Shared" });
+
+    expect(createProject).toHaveBeenCalledWith(expect.objectContaining({ name: "Captions", projectPath: "Shared/Captions.systemsculpt" }));
+    expect(contents.assets).toEqual([{ contentAddressedPath: asset.path.slice("assets/sha256/".length), bytes: expect.any(Uint8Array) }]);
+    expect(contents.supportFiles).toEqual([]);
+    const saved = contents.project as StudioProjectV1;
+    expect(saved.projectId).toBe("proj_target");
+    expect(saved.permissionsRef).toEqual(created.permissionsRef);
+    expect(saved.graph.nodes[0].config).toEqual({ sourcePath: `${targetAssets}/${asset.path}` });
+    const cache = JSON.parse(new TextDecoder().decode(contents.cacheDocument as Uint8Array));
+    expect(cache.projectId).toBe("proj_target");
+    expect(cache.entries.media.outputs.path).toBe(`${targetAssets}/${asset.path}`);
+    expect(result).toMatchObject({
+      path: targetPath,
+      missingNodeKinds: ["studio.teleport@2.0.0"],
+      requestedGrants: [{ capability: "cli", scope: { allowedCommandPatterns: ["yt-dlp *"] } }],
+      skippedFiles: [],
+    });
+  });
+});
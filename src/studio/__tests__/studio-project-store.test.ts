@@ -201,6 +201,31 @@ describe("StudioProjectStore", () => {
     }
   });
 
+  it("creates a project with its starting files and cache in the first generation", async () => {
+    const { store } = createStore();
+    const bytes = (text: string) => new TextEncoder().encode(text);
+    const created = await store.createProject({
+      name: "Imported",
+      minPluginVersion: "4.13.0",
+      maxRuns: 100,
+      maxArtifactsMb: 512,
+      contents: (projectPath, project) => ({
+        project: { ...project, name: `Imported at ${projectPath}` },
+        assets: [{ contentAddressedPath: `ab/${"a".repeat(64)}.png`, bytes: bytes("png") }],
+        supportFiles: [{ supportRelativePath: "imports/clip.wav", bytes: bytes("wav") }],
+        cacheDocument: bytes("{}"),
+      }),
+    });
+
+    const assetsDir = deriveStudioAssetsDir(created.path);
+    expect(created.project.name).toBe(`Imported at ${created.path}`);
+    expect(await store.readSupportFile(created.path, `${assetsDir}/assets/sha256/ab/${"a".repeat(64)}.png`)).toEqual(bytes("png"));
+    expect(await store.readSupportFile(created.path, `${assetsDir}/imports/clip.wav`)).toEqual(bytes("wav"));
+    expect(await store.readSupportFile(created.path, `${assetsDir}/cache/node-results.json`)).toEqual(bytes("{}"));
+    const recovered = await store.generations.recover(created.project.projectId);
+    expect(recovered.status === "ready" && recovered.expectedGeneration.revision).toBe(0);
+  });
+
   it("force reload invalidates the selected generation and ingests a one-file external edit", async () => {
     const { store, files } = createStore();
     const created = await store.createProject({ name: "Direct edit", minPluginVersion: "4.13.0", maxRuns: 100, maxArtifactsMb: 512 });
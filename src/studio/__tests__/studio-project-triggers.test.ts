@@ -0,0 +1,275 @@
+/**
+ * @jest-environment jsdom
+ */
+import { TFile } from "obsidian";
+import {
+  latestStudioCronOccurrence,
+  nextStudioCronOccurrence,
+  parseStudioCronExpression,
+  parseStudioProjectTriggers,
+} from "../StudioProjectTriggers";
+import { StudioTriggerService, type StudioTriggerRunHost } from "../StudioTriggerService";
+import type { StudioProjectTrigger, StudioRunSummary } from "../types";
+
+const PROJECT_PATH = "Studio/Digest.systemsculpt";
+
+function at(text: string): Date {
+  return new Date(text);
+}
+
+function projectText(triggers: StudioProjectTrigger[], updatedAt?: string): string {
+  return JSON.stringify({ ...(updatedAt ? { updatedAt } : {}), settings: { triggers } });
+}
+
+function runSummary(triggerId: string, startedAt: string): StudioRunSummary {
+  return {
+    runId: `run_${startedAt}`,
+    status: "success",
+    startedAt,
+    finishedAt: startedAt,
+    error: null,
+    trigger: { triggerId, type: "schedule" },
+  };
+}
+
+function createHarness(options: {
+  triggers: StudioProjectTrigger[];
+  recentRuns?: StudioRunSummary[];
+  updatedAt?: string;
+  busy?: boolean;
+  tags?: Record<string, string[]>;
+}) {
+  const handlers = new Map<string, (...args: any[]) => void>();
+  const projectFile = new TFile({ path: PROJECT_PATH });
+  const notes = Object.keys(options.tags ?? {}).map((path) => new TFile({ path }));
+  const fileTags = new Map(Object.entries(options.tags ?? {}));
+  const app = {
+    workspace: { onLayoutReady: (callback: () => void) => callback() },
+    vault: {
+      getFiles: () => [projectFile, ...notes],
+      getMarkdownFiles: () => notes,
+      getAbstractFileByPath: (path: string) => (path === PROJECT_PATH ? projectFile : null),
+      cachedRead: jest.fn(async () => projectText(options.triggers, options.updatedAt)),
+      on: (name: string, handler: (...args: any[]) => void) => {
+        handlers.set(`vault:${name}`, handler);
+        return {};
+      },
+    },
+    metadataCache: {
+      getFileCache: (file: TFile) => ({
+        tags: (fileTags.get(file.path) ?? []).map((tag) => ({ tag: `#${tag}` })),
+      }),
+      on: (name: string, handler: (...args: any[]) => void) => {
+        handlers.set(`metadata:${name}`, handler);
+        return {};
+      },
+    },
+  };
+  const plugin = {
+    app,
+    registerEvent: jest.fn(),
+    registerInterval: jest.fn(),
+    getLogger: () => ({ warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+  } as any;
+  const host: jest.Mocked<StudioTriggerRunHost> = {
+    runProject: jest.fn(async () => runSummary("manual", "2026-10-19T07:00:00.000")),
+    getRecentRuns: jest.fn(async () => options.recentRuns ?? []),
+    isProjectRunBusy: jest.fn(() => options.busy === true),
+  };
+  const service = new StudioTriggerService(plugin, () => host);
+  return { service, host, handlers, fileTags };
+}
+
+async function flushAsync(): Promise<void> {
+  for (let index = 0; index < 10; index += 1) {
+    await Promise.resolve();
+  }
+}
+
+describe("Studio project triggers", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("finds the next matching time for ranges, steps, and lists", () => {
+    const weekdayMornings = parseStudioCronExpression("30 7 * * 1-5");
+    const quarterHours = parseStudioCronExpression("*/15 9,17 * * *");
+
+    // 2026-10-17 is a Saturday.
+    expect(nextStudioCronOccurrence(weekdayMornings, at("2026-10-17T08:00:00"))).toEqual(at("2026-10-19T07:30:00"));
+    expect(nextStudioCronOccurrence(quarterHours, at("2026-10-19T09:15:00"))).toEqual(at("2026-10-19T09:30:00"));
+    expect(nextStudioCronOccurrence(quarterHours, at("2026-10-19T09:50:00"))).toEqual(at("2026-10-19T17:00:00"));
+  });
+
+  it("matches either day field when both are restricted and never matches impossible dates", () => {
+    const firstOrMonday = parseStudioCronExpression("0 0 1 * 1");
+
+    expect(nextStudioCronOccurrence(firstOrMonday, at("2026-10-19T12:00:00"))).toEqual(at("2026-10-26T00:00:00"));
+    expect(nextStudioCronOccurrence(parseStudioCronExpression("0 0 31 2 *"), at("2026-10-19T00:00:00"))).toBeNull();
+  });
+
+  it("finds the latest matching time in a range without stepping through each occurrence", () => {
+    const weekdayMornings = parseStudioCronExpression("30 7 * * 1-5");
+    const everyMinute = parseStudioCronExpression("* * * * *");
+
+    // 2026-10-18 is a Sunday, so the latest weekday morning is Friday's.
+    expect(latestStudioCronOccurrence(weekdayMornings, at("2026-10-01T00:00:00"), at("2026-10-18T12:00:00")))
+      .toEqual(at("2026-10-16T07:30:00"));
+    expect(latestStudioCronOccurrence(weekdayMornings, at("2026-10-16T07:30:00"), at("2026-10-18T12:00:00"))).toBeNull();
+    expect(latestStudioCronOccurrence(everyMinute, at("2016-10-19T00:00:00"), at("2026-10-19T09:00:45")))
+      .toEqual(at("2026-10-19T09:00:00"));
+    expect(latestStudioCronOccurrence(parseStudioCronExpression("0 0 1 1 *"), at("2024-06-01T00:00:00"), at("2026-10-19T00:00:00")))
+      .toEqual(at("2026-01-01T00:00:00"));
+  });
+
+  it("rejects malformed schedules with a readable reason", () => {
+    expect(() => parseStudioCronExpression("0 7 * *")).toThrow("Schedules need five fields");
+    expect(() => parseStudioCronExpression("0 25 * * *")).toThrow("The hour must be between 0 and 23.");
+    expect(() => parseStudioCronExpression("x 7 * * *")).toThrow('Invalid minute "x" in schedule.');
+  });
+
+  it("parses saved triggers leniently and drops unknown types", () => {
+    const triggers = parseStudioProjectTriggers([
+      { id: "digest", type: "schedule", cron: "0 7 * * *", catchUp: "run_once" },
+      { id: "inbox", type: "file", folder: "Inbox", events: ["modified", "renamed"], enabled: false },
+      { id: "review", type: "tag", tag: "#Review" },
+      { id: "hook", type: "webhook" },
+    ]);
+
+    expect(triggers).toEqual([
+      { id: "digest", type: "schedule", enabled: true, cron: "0 7 * * *", catchUp: "run_once" },
+      { id: "inbox", type: "file", enabled: false, folder: "Inbox", events: ["modified"] },
+      { id: "review", type: "tag", enabled: true, tag: "review" },
+    ]);
+  });
+
+  it("runs a missed schedule once on launch when catch-up is enabled", async () => {
+    jest.useFakeTimers({ now: at("2026-10-19T09:00:00") });
+    const { service, host } = createHarness({
+      triggers: [{ id: "digest", type: "schedule", enabled: true, cron: "0 7 * * *", catchUp: "run_once" }],
+      recentRuns: [runSummary("digest", at("2026-10-18T07:00:00").toISOString())],
+    });
+
+    service.initialize();
+    await flushAsync();
+
+    expect(host.runProject).toHaveBeenCalledTimes(1);
+    expect(host.runProject).toHaveBeenCalledWith(PROJECT_PATH, {
+      trigger: { triggerId: "digest", type: "schedule", detail: "missed 2026-10-19 07:00" },
+    });
+  });
+
+  it("catches up a schedule that never ran from the project's last save", async () => {
+    jest.useFakeTimers({ now: at("2026-10-19T09:00:00") });
+    const trigger: StudioProjectTrigger = {
+      id: "digest",
+      type: "schedule",
+      enabled: true,
+      cron: "0 7 * * *",
+      catchUp: "run_once",
+    };
+    const missed = createHarness({ triggers: [trigger], updatedAt: at("2026-10-18T20:00:00").toISOString() });
+    const savedSince = createHarness({ triggers: [trigger], updatedAt: at("2026-10-19T08:00:00").toISOString() });
+
+    missed.service.initialize();
+    savedSince.service.initialize();
+    await flushAsync();
+
+    expect(missed.host.runProject).toHaveBeenCalledTimes(1);
+    expect(missed.host.runProject).toHaveBeenCalledWith(PROJECT_PATH, {
+      trigger: { triggerId: "digest", type: "schedule", detail: "missed 2026-10-19 07:00" },
+    });
+    expect(savedSince.host.runProject).not.toHaveBeenCalled();
+  });
+
+  it("does not catch up when the schedule skips missed runs or already ran", async () => {
+    jest.useFakeTimers({ now: at("2026-10-19T09:00:00") });
+    const skipping = createHarness({
+      triggers: [{ id: "digest", type: "schedule", enabled: true, cron: "0 7 * * *", catchUp: "skip" }],
+      recentRuns: [runSummary("digest", at("2026-10-18T07:00:00").toISOString())],
+    });
+    const upToDate = createHarness({
+      triggers: [{ id: "digest", type: "schedule", enabled: true, cron: "0 7 * * *", catchUp: "run_once" }],
+      recentRuns: [runSummary("digest", at("2026-10-19T07:00:00").toISOString())],
+    });
+
+    skipping.service.initialize();
+    upToDate.service.initialize();
+    await flushAsync();
+
+    expect(skipping.host.runProject).not.toHaveBeenCalled();
+    expect(upToDate.host.runProject).not.toHaveBeenCalled();
+  });
+
+  it("fires a schedule when its time arrives while Obsidian is open", async () => {
+    jest.useFakeTimers({ now: at("2026-10-19T06:59:30") });
+    const { service, host } = createHarness({
+      triggers: [{ id: "digest", type: "schedule", enabled: true, cron: "0 7 * * *", catchUp: "skip" }],
+    });
+    service.initialize();
+    await flushAsync();
+
+    service.checkSchedules(at("2026-10-19T07:00:10").getTime());
+    service.checkSchedules(at("2026-10-19T07:00:40").getTime());
+
+    expect(host.runProject).toHaveBeenCalledTimes(1);
+    expect(host.runProject.mock.calls[0][1].trigger.detail).toBe("2026-10-19 07:00");
+  });
+
+  it("debounces file events in the watched folder and ignores Studio files", async () => {
+    jest.useFakeTimers();
+    const { service, host, handlers } = createHarness({
+      triggers: [{ id: "inbox", type: "file", enabled: true, folder: "Inbox", events: ["created"] }],
+    });
+    service.initialize();
+    await flushAsync();
+
+    handlers.get("vault:create")!(new TFile({ path: "Inbox/one.md" }));
+    handlers.get("vault:create")!(new TFile({ path: "Inbox/two.md" }));
+    handlers.get("vault:create")!(new TFile({ path: "Archive/three.md" }));
+    handlers.get("vault:create")!(new TFile({ path: "Inbox/Other.systemsculpt-assets/runs/index.json" }));
+    handlers.get("vault:modify")!(new TFile({ path: "Inbox/one.md" }));
+    jest.advanceTimersByTime(2000);
+
+    expect(host.runProject).toHaveBeenCalledTimes(1);
+    expect(host.runProject).toHaveBeenCalledWith(PROJECT_PATH, {
+      trigger: { triggerId: "inbox", type: "file", detail: "Inbox/two.md" },
+    });
+    service.destroy();
+  });
+
+  it("ignores file events while the project is already running", async () => {
+    jest.useFakeTimers();
+    const { service, host, handlers } = createHarness({
+      triggers: [{ id: "inbox", type: "file", enabled: true, folder: "", events: ["modified"] }],
+      busy: true,
+    });
+    service.initialize();
+    await flushAsync();
+
+    handlers.get("vault:modify")!(new TFile({ path: "Daily/2026-10-19.md" }));
+    jest.advanceTimersByTime(2000);
+
+    expect(host.runProject).not.toHaveBeenCalled();
+  });
+
+  it("fires a tag trigger only when the tag is newly added", async () => {
+    jest.useFakeTimers();
+    const { service, host, handlers, fileTags } = createHarness({
+      triggers: [{ id: "review", type: "tag", enabled: true, tag: "review" }],
+      tags: { "Notes/old.md": ["review"], "Notes/new.md": [] },
+    });
+    service.initialize();
+    await flushAsync();
+
+    handlers.get("metadata:changed")!(new TFile({ path: "Notes/old.md" }));
+    fileTags.set("Notes/new.md", ["review/weekly"]);
+    handlers.get("metadata:changed")!(new TFile({ path: "Notes/new.md" }));
+    handlers.get("metadata:changed")!(new TFile({ path: "Notes/new.md" }));
+
+    expect(host.runProject).toHaveBeenCalledTimes(1);
+    expect(host.runProject).toHaveBeenCalledWith(PROJECT_PATH, {
+      trigger: { triggerId: "review", type: "tag", detail: "Notes/new.md" },
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  diffStudioRuns,
+  formatStudioRunDuration,
+  getRestorableStudioRunGraph,
+  readStudioRunNodeRecords,
+  studioRunDurationMs,
+  type StudioRunRecord,
+} from "../StudioRunHistory";
+import type { StudioNodeInstance, StudioRunSummary } from "../types";
+
+function summary(runId: string, overrides: Partial<StudioRunSummary> = {}): StudioRunSummary {
+  return {
+    runId,
+    status: "success",
+    startedAt: "2026-07-14T10:00:00.000Z",
+    finishedAt: "2026-07-14T10:00:02.500Z",
+    error: null,
+    ...overrides,
+  };
+}
+
+function textNode(id: string, config: Record<string, unknown>): StudioNodeInstance {
+  return {
+    id,
+    kind: "studio.text_generation",
+    version: "1.0.0",
+    title: id,
+    position: { x: 0, y: 0 },
+    config: config as StudioNodeInstance["config"],
+  };
+}
+
+function runRecord(runId: string, nodes: StudioNodeInstance[], results: StudioRunRecord["nodes"]): StudioRunRecord {
+  return {
+    summary: summary(runId),
+    snapshot: {
+      schema: "studio.run.v1",
+      runId,
+      projectId: "proj_1",
+      createdAt: "2026-07-14T10:00:00.000Z",
+      project: {
+        graph: { nodes, edges: [], entryNodeIds: [] },
+      },
+    } as unknown as StudioRunRecord["snapshot"],
+    nodes: results,
+  };
+}
+
+describe("Studio run history", () => {
+  it("reads each node's final outcome from the event log", () => {
+    const events = [
+      { type: "run.started", runId: "run_1", at: "x" },
+      { type: "node.started", runId: "run_1", nodeId: "a", at: "x" },
+      { type: "node.output", runId: "run_1", nodeId: "a", outputs: { text: "hi" }, outputSource: "execution", at: "x" },
+      { type: "node.cache_hit", runId: "run_1", nodeId: "b", cacheUpdatedAt: "x", at: "x" },
+      { type: "node.output", runId: "run_1", nodeId: "b", outputs: { text: "cached" }, outputSource: "cache", at: "x" },
+      { type: "node.failed", runId: "run_1", nodeId: "c", error: "boom", at: "x" },
+      { type: "node.skipped", runId: "run_1", nodeId: "d", reason: "branch_not_taken", at: "x" },
+    ].map((event) => JSON.stringify(event)).join("\n");
+
+    expect(readStudioRunNodeRecords(`${events}\nnot json\n`)).toEqual({
+      a: { outcome: "executed", outputs: { text: "hi" } },
+      b: { outcome: "cached", outputs: { text: "cached" } },
+      c: { outcome: "failed", error: "boom" },
+      d: { outcome: "skipped" },
+    });
+  });
+
+  it("restores only the authored source graph, never the executed one", () => {
+    const legacy = runRecord("run_1", [textNode("a", {})], {});
+    const sourceGraph = { nodes: [textNode("a", {}), textNode("b", {})], edges: [], entryNodeIds: [] };
+    const current = {
+      ...legacy,
+      snapshot: { ...legacy.snapshot!, sourceGraph },
+    };
+
+    expect(getRestorableStudioRunGraph(legacy)).toBeNull();
+    expect(getRestorableStudioRunGraph(current)).toBe(sourceGraph);
+  });
+
+  it("formats run durations", () => {
+    expect(formatStudioRunDuration(studioRunDurationMs(summary("run_1")))).toBe("2.5 s");
+    expect(formatStudioRunDuration(studioRunDurationMs(summary("run_2", { finishedAt: null })))).toBe("—");
+    expect(formatStudioRunDuration(125_000)).toBe("2 min 5 s");
+    expect(formatStudioRunDuration(40)).toBe("40 ms");
+  });
+
+  it("diffs node outputs between two runs, ignoring outputs stored in config", () => {
+    const before = runRecord(
+      "run_1",
+      [
+        textNode("draft", { prompt: "Write", value: "old draft" }),
+        textNode("title", { prompt: "Title" }),
+        textNode("gone", { prompt: "Old" }),
+      ],
+      {
+        draft: { outcome: "executed", outputs: { text: "old draft" } },
+        title: { outcome: "cached", outputs: { text: "Same" } },
+        gone: { outcome: "executed", outputs: { text: "x" } },
+      }
+    );
+    const after = runRecord(
+      "run_2",
+      [
+        textNode("draft", { prompt: "Write", value: "new draft" }),
+        textNode("title", { prompt: "A better title" }),
+        textNode("fresh", { prompt: "New" }),
+      ],
+      {
+        draft: { outcome: "executed", outputs: { text: "new draft" } },
+        title: { outcome: "executed", outputs: { text: "Same" } },
+        fresh: { outcome: "executed", outputs: { text: "y" } },
+      }
+    );
+
+    const diffs = Object.fromEntries(diffStudioRuns(before, after).map((diff) => [diff.nodeId, diff]));
+
+    expect(diffs.draft).toMatchObject({
+      status: "changed",
+      configChanged: false,
+      ports: [{ port: "text", before: "old draft", after: "new draft" }],
+    });
+    expect(diffs.title).toMatchObject({ status: "changed", configChanged: true, before: "cached", after: "executed", ports: [] });
+    expect(diffs.fresh.status).toBe("added");
+    expect(diffs.gone.status).toBe("removed");
+    expect(diffStudioRuns(after, after).every((diff) => diff.status === "unchanged")).toBe(true);
+  });
+});
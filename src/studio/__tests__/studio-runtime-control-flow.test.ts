@@ -0,0 +1,384 @@
+import { Platform } from "obsidian";
+import { registerBuiltInStudioNodes } from "../StudioBuiltInNodes";
+import { StudioGraphCompiler } from "../StudioGraphCompiler";
+import { StudioNodeRegistry } from "../StudioNodeRegistry";
+import { StudioRuntime } from "../StudioRuntime";
+import type {
+  StudioEdge,
+  StudioJsonValue,
+  StudioNodeCacheSnapshotV1,
+  StudioNodeDefinition,
+  StudioNodeInstance,
+  StudioProjectV1,
+  StudioRunEvent,
+} from "../types";
+
+function projectFixture(nodes: StudioNodeInstance[], edges: StudioEdge[]): StudioProjectV1 {
+  return {
+    schema: "studio.project.v1",
+    projectId: "proj_control_flow",
+    name: "Control Flow",
+    createdAt: "2026-03-22T00:00:00.000Z",
+    updatedAt: "2026-03-22T00:00:00.000Z",
+    engine: {
+      apiMode: "systemsculpt_only",
+      minPluginVersion: "1.0.0",
+    },
+    graph: {
+      nodes,
+      edges,
+      entryNodeIds: [nodes[0].id],
+      groups: [],
+    },
+    permissionsRef: {
+      policyVersion: 1,
+      policyPath: "Studio/Test.systemsculpt-assets/policy/grants.json",
+    },
+    settings: {
+      runConcurrency: "adaptive",
+      defaultFsScope: "vault",
+      retention: {
+        maxRuns: 10,
+        maxArtifactsMb: 128,
+      },
+    },
+    migrations: {
+      projectSchemaVersion: "1.0.0",
+      applied: [],
+    },
+  };
+}
+
+function node(id: string, kind: string, config: Record<string, StudioJsonValue> = {}): StudioNodeInstance {
+  return {
+    id,
+    kind,
+    version: "1.0.0",
+    title: id,
+    position: { x: 0, y: 0 },
+    config,
+  };
+}
+
+function edge(fromNodeId: string, fromPortId: string, toNodeId: string, toPortId: string): StudioEdge {
+  return {
+    id: `${fromNodeId}:${fromPortId}->${toNodeId}:${toPortId}`,
+    fromNodeId,
+    fromPortId,
+    toNodeId,
+    toPortId,
+  };
+}
+
+function createRuntime(options?: {
+  registry?: StudioNodeRegistry;
+  cacheSnapshot?: StudioNodeCacheSnapshotV1;
+}): StudioRuntime {
+  const app = {
+    vault: {
+      adapter: {},
+      getAbstractFileByPath: jest.fn(),
+      read: jest.fn(),
+      readBinary: jest.fn(),
+    },
+  } as any;
+  const plugin = {
+    app,
+    getLogger: () => ({ warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+  } as any;
+  const projectStore = {
+    readSupportFile: jest.fn(async () => null),
+    loadPolicy: jest.fn(async () => ({
+      schema: "studio.policy.v1",
+      version: 1,
+      updatedAt: "2026-03-22T00:00:00.000Z",
+      grants: [],
+    })),
+    publishRun: jest.fn(async () => undefined),
+  } as any;
+  const registry = options?.registry || createRegistry();
+  const runtime = new StudioRuntime(
+    app,
+    plugin,
+    projectStore,
+    registry,
+    new StudioGraphCompiler(),
+    {
+      stageArrayBuffer: jest.fn(),
+      readArrayBuffer: jest.fn(),
+    } as any,
+    {
+      beginLocalCommit: jest.fn(async () => undefined),
+      completeLocalCommit: jest.fn(async () => undefined),
+    } as any
+  );
+  (runtime as any).nodeResultCacheStore = {
+    load: jest.fn(async () => options?.cacheSnapshot || ({
+      projectId: "proj_control_flow",
+      updatedAt: "2026-03-22T00:00:00.000Z",
+      entries: {},
+    })),
+  };
+  return runtime;
+}
+
+function createRegistry(): StudioNodeRegistry {
+  const registry = new StudioNodeRegistry();
+  registerBuiltInStudioNodes(registry);
+  return registry;
+}
+
+function outputsOf(events: StudioRunEvent[], nodeId: string) {
+  const event = events.find((entry) => entry.type === "node.output" && entry.nodeId === nodeId);
+  return event?.type === "node.output" ? event.outputs : undefined;
+}
+
+describe("StudioRuntime control flow", () => {
+  const platform = Platform as typeof Platform & { isDesktopApp: boolean };
+
+  beforeEach(() => {
+    platform.isDesktopApp = false;
+  });
+
+  it("skips everything downstream of the untaken branch and rejoins at a merge", async () => {
+    const project = projectFixture(
+      [
+        node("source", "studio.text", { value: "done" }),
+        node("branch", "studio.branch", { expression: 'value == "done"' }),
+        node("on_true", "studio.value"),
+        node("on_false", "studio.value"),
+        node("after_false", "studio.value"),
+        node("merge", "studio.merge"),
+        node("result", "studio.value"),
+      ],
+      [
+        edge("source", "text", "branch", "value"),
+        edge("branch", "true", "on_true", "value"),
+        edge("branch", "false", "on_false", "value"),
+        edge("on_false", "value", "after_false", "value"),
+        edge("on_true", "value", "merge", "input_1"),
+        edge("after_false", "value", "merge", "input_2"),
+        edge("merge", "value", "result", "value"),
+      ]
+    );
+    const events: StudioRunEvent[] = [];
+
+    const summary = await createRuntime().runProjectSnapshot("Studio/Test.systemsculpt", project, {
+      onEvent: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(summary.status).toBe("success");
+    expect(summary.skippedNodeIds).toEqual(["on_false", "after_false"]);
+    expect(summary.executedNodeIds).toEqual(
+      expect.arrayContaining(["source", "branch", "on_true", "merge", "result"])
+    );
+    expect(events.filter((event) => event.type === "node.skipped")).toEqual([
+      expect.objectContaining({ nodeId: "on_false", reason: "branch_not_taken" }),
+      expect.objectContaining({ nodeId: "after_false", reason: "branch_not_taken" }),
+    ]);
+    expect(events.some((event) => event.type === "node.started" && event.nodeId === "on_false")).toBe(false);
+    expect(outputsOf(events, "result")).toEqual({ value: "done" });
+  });
+
+  it("routes a switch to the matching case and skips the other cases", async () => {
+    const project = projectFixture(
+      [
+        node("source", "studio.json", { value: { kind: "invoice" } }),
+        node("switch", "studio.switch", { field: "value.kind", cases: ["receipt", "invoice"] }),
+        node("receipt", "studio.value"),
+        node("invoice", "studio.value"),
+        node("other", "studio.value"),
+      ],
+      [
+        edge("source", "json", "switch", "value"),
+        edge("switch", "case_1", "receipt", "value"),
+        edge("switch", "case_2", "invoice", "value"),
+        edge("switch", "default", "other", "value"),
+      ]
+    );
+    const events: StudioRunEvent[] = [];
+
+    const summary = await createRuntime().runProjectSnapshot("Studio/Test.systemsculpt", project, {
+      onEvent: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(summary.status).toBe("success");
+    expect(summary.skippedNodeIds).toEqual(["receipt", "other"]);
+    expect(outputsOf(events, "invoice")).toEqual({ value: { kind: "invoice" } });
+  });
+
+  it("skips a merge node when none of its inputs were taken", async () => {
+    const project = projectFixture(
+      [
+        node("source", "studio.text", { value: "no" }),
+        node("branch", "studio.branch"),
+        node("merge", "studio.merge"),
+        node("fallback", "studio.value"),
+      ],
+      [
+        edge("source", "text", "branch", "value"),
+        edge("branch", "true", "merge", "input_1"),
+        edge("branch", "false", "fallback", "value"),
+      ]
+    );
+
+    const summary = await createRuntime().runProjectSnapshot("Studio/Test.systemsculpt", project);
+
+    expect(summary.status).toBe("success");
+    expect(summary.skippedNodeIds).toEqual(["merge"]);
+    expect(summary.executedNodeIds).toContain("fallback");
+  });
+});
+
+describe("StudioRuntime map groups", () => {
+  const platform = Platform as typeof Platform & { isDesktopApp: boolean };
+
+  beforeEach(() => {
+    platform.isDesktopApp = false;
+  });
+
+  function createUppercaseRegistry(calls: string[], inFlight: { current: number; max: number }) {
+    const registry = createRegistry();
+    const uppercaseNode: StudioNodeDefinition = {
+      kind: "test.uppercase",
+      version: "1.0.0",
+      requiredHostCapabilities: [],
+      capabilityClass: "api",
+      cachePolicy: "by_inputs",
+      inputPorts: [{ id: "text", type: "any", required: true }],
+      outputPorts: [{ id: "text", type: "text" }],
+      configDefaults: {},
+      configSchema: { fields: [], allowUnknownKeys: true },
+      async execute(context) {
+        const text = String(context.inputs.text);
+        calls.push(text);
+        inFlight.current += 1;
+        inFlight.max = Math.max(inFlight.max, inFlight.current);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight.current -= 1;
+        return { outputs: { text: text.toUpperCase() } };
+      },
+    };
+    registry.register(uppercaseNode);
+    return registry;
+  }
+
+  function mapProject(items: StudioJsonValue, concurrency = 4): StudioProjectV1 {
+    const project = projectFixture(
+      [
+        node("items", "studio.json", { value: items }),
+        node("map", "studio.map", { groupId: "Per item", concurrency }),
+        node("upper", "test.uppercase"),
+        node("results", "studio.value"),
+        node("all_upper", "studio.value"),
+      ],
+      [
+        edge("items", "json", "map", "items"),
+        edge("map", "item", "upper", "text"),
+        edge("map", "results", "results", "value"),
+        edge("upper", "text", "all_upper", "value"),
+      ]
+    );
+    project.graph.groups = [{ id: "group_1", name: "Per item", nodeIds: ["upper"] }];
+    return project;
+  }
+
+  it("runs the group once per element with bounded concurrency and collects the results", async () => {
+    const calls: string[] = [];
+    const inFlight = { current: 0, max: 0 };
+    const events: StudioRunEvent[] = [];
+    const runtime = createRuntime({ registry: createUppercaseRegistry(calls, inFlight) });
+
+    const summary = await runtime.runProjectSnapshot("Studio/Test.systemsculpt", mapProject(["a", "b", "c", "d"]), {
+      onEvent: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(summary.status).toBe("success");
+    expect(calls.sort()).toEqual(["a", "b", "c", "d"]);
+    expect(inFlight.max).toBe(2);
+    expect(outputsOf(events, "results")).toEqual({ value: ["A", "B", "C", "D"] });
+    expect(outputsOf(events, "upper")).toEqual({ text: ["A", "B", "C", "D"] });
+    expect(outputsOf(events, "all_upper")).toEqual({ value: ["A", "B", "C", "D"] });
+  });
+
+  it("reuses cached per-element results and drops results for removed elements", async () => {
+    const calls: string[] = [];
+    const cacheSnapshot: StudioNodeCacheSnapshotV1 = {
+      schema: "studio.node-cache.v1",
+      projectId: "proj_control_flow",
+      updatedAt: "2026-03-22T00:00:00.000Z",
+      entries: {},
+    };
+    const runtime = createRuntime({
+      registry: createUppercaseRegistry(calls, { current: 0, max: 0 }),
+      cacheSnapshot,
+    });
+
+    await runtime.runProjectSnapshot("Studio/Test.systemsculpt", mapProject(["a", "b"]));
+    expect(Object.keys(cacheSnapshot.entries).filter((key) => key.startsWith("upper::"))).toHaveLength(2);
+
+    calls.length = 0;
+    const events: StudioRunEvent[] = [];
+    await runtime.runProjectSnapshot("Studio/Test.systemsculpt", mapProject(["b", "c"]), {
+      onEvent: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(calls).toEqual(["c"]);
+    expect(outputsOf(events, "results")).toEqual({ value: ["B", "C"] });
+    expect(Object.keys(cacheSnapshot.entries).filter((key) => key.startsWith("upper::"))).toHaveLength(2);
+  });
+
+  it("keeps the mapped group when running from a node downstream of the map", async () => {
+    const calls: string[] = [];
+    const runtime = createRuntime({ registry: createUppercaseRegistry(calls, { current: 0, max: 0 }) });
+
+    const summary = await runtime.runProjectSnapshot("Studio/Test.systemsculpt", mapProject(["x"]), {
+      entryNodeIds: ["results"],
+    });
+
+    expect(summary.status).toBe("success");
+    expect(calls).toEqual(["x"]);
+  });
+
+  it("skips the group and what it feeds when the map node is disabled", async () => {
+    const calls: string[] = [];
+    const events: StudioRunEvent[] = [];
+    const project = mapProject(["a", "b"]);
+    project.graph.nodes[1].disabled = true;
+
+    const summary = await createRuntime({
+      registry: createUppercaseRegistry(calls, { current: 0, max: 0 }),
+    }).runProjectSnapshot("Studio/Test.systemsculpt", project, {
+      onEvent: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(summary.status).toBe("success");
+    expect(calls).toEqual([]);
+    expect(summary.skippedNodeIds).toEqual(["upper", "all_upper"]);
+    expect(
+      events.filter((event) => event.type === "node.skipped").map((event) => [event.nodeId, event.type === "node.skipped" && event.reason])
+    ).toEqual([["upper", "map_disabled"], ["all_upper", "branch_not_taken"]]);
+    expect(outputsOf(events, "results")).toBeDefined();
+  });
+
+  it("fails the map node when its group cannot be found", async () => {
+    const project = mapProject(["a"]);
+    project.graph.nodes[1].config.groupId = "Missing";
+
+    await expect(
+      createRuntime({
+        registry: createUppercaseRegistry([], { current: 0, max: 0 }),
+      }).runProjectSnapshot("Studio/Test.systemsculpt", project)
+    ).rejects.toThrow('Map group "Missing" was not found.');
+  });
+});
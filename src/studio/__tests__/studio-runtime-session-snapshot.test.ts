@@ -202,6 +202,7 @@ describe("StudioRuntime session snapshot runs", () => {
     const snapshotBytes = [...generationFiles].find(([path]) => path.endsWith("/snapshot.json"))?.[1];
     expect(snapshotBytes).toBeDefined();
     expect(new TextDecoder().decode(snapshotBytes)).toContain("Live Session Snapshot");
+    expect(JSON.parse(new TextDecoder().decode(snapshotBytes)).sourceGraph).toEqual(project.graph);
     expect(compiler.compile).toHaveBeenCalledWith(
       expect.objectContaining({ name: "Live Session Snapshot" }),
       expect.anything()
@@ -68,7 +68,17 @@ describe("Studio schema", () => {
         ]),
       },
     });
-    expect(serialized.length).toBeLessThan(20_000);
+    const inputKind = document.nodeKindReference.kinds.find((entry: any) => entry.kind === "studio.input");
+    expect(inputKind).not.toHaveProperty("canvas");
+    expect(inputKind).not.toHaveProperty("version");
+    expect(document.nodeKindReference).toMatchObject({
+      defaultVersion: "1.0.0",
+      defaultCanvas: { sizeLimitProfile: "standard" },
+    });
+    expect(document.agentGuide.canvas.kindDefaults).toContain("defaultCanvas");
+    // An ordinary vault read returns about 24 KB in one call, and a new project
+    // must leave room for its graph within that.
+    expect(serialized.length).toBeLessThan(22_000);
     expect(serialized.indexOf('"graph"')).toBeLessThan(
       serialized.lastIndexOf('\n  "nodeKindReference"')
     );
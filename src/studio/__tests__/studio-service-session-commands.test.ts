@@ -255,11 +255,54 @@ describe("StudioService session-backed mutation commands", () => {
     expect(runtime.runProjectSnapshot).toHaveBeenCalledWith(
       session.getProjectPath(),
       expect.objectContaining({ name: "Live Session Snapshot" }),
-      { onEvent: undefined }
+      { onEvent: expect.any(Function) }
     );
     expect(runtime.runProject).not.toHaveBeenCalled();
   });
 
+  it("runs input values against the open session and reports the run to run-event listeners", async () => {
+    const project = projectFixture();
+    project.graph.nodes.push({
+      id: "node_topic",
+      kind: "studio.input",
+      version: "1.0.0",
+      title: "Topic",
+      position: { x: 0, y: 0 },
+      config: { value: "" },
+      continueOnError: false,
+      disabled: false,
+    });
+    const service = new StudioService(createPluginStub());
+    const session = createSession("Studio/Test.systemsculpt", project);
+    const flushSpy = jest.spyOn(session, "flushPendingSaveWork").mockResolvedValue();
+    await retainExistingSession(service, session);
+    const started = { type: "run.started", runId: "run_link", at: "2026-03-22T00:00:00.000Z" } as const;
+    const runtime = {
+      runProjectSnapshot: jest.fn(async (_path: string, _project: unknown, options: { onEvent: (event: unknown) => Promise<void> }) => {
+        await options.onEvent(started);
+        return { runId: "run_link", status: "success" };
+      }),
+      runProject: jest.fn(),
+    };
+    (service as any).runtime = runtime;
+    const callerEvents: unknown[] = [];
+    const observed: Array<[string, unknown]> = [];
+    const detach = service.onRunEvent((projectPath, event) => observed.push([projectPath, event]));
+
+    await service.runProject(session.getProjectPath(), {
+      inputValues: { topic: "Atlas" },
+      onEvent: (event) => { callerEvents.push(event); },
+    });
+    detach();
+
+    expect(flushSpy).toHaveBeenCalledWith({ force: true });
+    expect(runtime.runProject).not.toHaveBeenCalled();
+    const runProject = runtime.runProjectSnapshot.mock.calls[0][1] as StudioProjectV1;
+    expect(runProject.graph.nodes.find((node) => node.id === "node_topic")?.config.value).toBe("Atlas");
+    expect(callerEvents).toEqual([started]);
+    expect(observed).toEqual([[session.getProjectPath(), started]]);
+  });
+
   it("falls back to a store-backed run when no session is retained for the path", async () => {
     const service = new StudioService(createPluginStub());
     const summary = {
@@ -280,7 +323,7 @@ describe("StudioService session-backed mutation commands", () => {
     const result = await service.runProject("Studio/Cold.systemsculpt");
 
     expect(result).toBe(summary);
-    expect(runtime.runProject).toHaveBeenCalledWith("Studio/Cold.systemsculpt", { onEvent: undefined });
+    expect(runtime.runProject).toHaveBeenCalledWith("Studio/Cold.systemsculpt", { onEvent: expect.any(Function) });
     expect(runtime.runProjectSnapshot).not.toHaveBeenCalled();
   });
 
@@ -332,7 +375,7 @@ describe("StudioService session-backed mutation commands", () => {
       {
         entryNodeIds: ["node_live"],
         forceNodeIds: ["node_live"],
-        onEvent: undefined,
+        onEvent: expect.any(Function),
       }
     );
     expect(runtime.runProject).not.toHaveBeenCalled();
@@ -0,0 +1,338 @@
+import { Platform } from "obsidian";
+import { registerBuiltInStudioNodes } from "../StudioBuiltInNodes";
+import { StudioGraphCompiler } from "../StudioGraphCompiler";
+import { StudioNodeRegistry } from "../StudioNodeRegistry";
+import { resolveNodeDefinitionPorts } from "../StudioNodePortResolution";
+import { StudioRuntime } from "../StudioRuntime";
+import {
+  applyStudioProjectInputValues,
+  computeStudioSubprojectRevision,
+  deriveStudioSubprojectInterface,
+  describeStudioSubproject,
+  expandStudioSubprojects,
+} from "../StudioSubprojects";
+import type {
+  StudioEdge,
+  StudioJsonValue,
+  StudioNodeInstance,
+  StudioProjectV1,
+  StudioRunEvent,
+} from "../types";
+
+function projectFixture(name: string, nodes: StudioNodeInstance[], edges: StudioEdge[]): StudioProjectV1 {
+  return {
+    schema: "studio.project.v1",
+    projectId: `proj_${name.toLowerCase()}`,
+    name,
+    createdAt: "2026-03-22T00:00:00.000Z",
+    updatedAt: "2026-03-22T00:00:00.000Z",
+    engine: {
+      apiMode: "systemsculpt_only",
+      minPluginVersion: "1.0.0",
+    },
+    graph: {
+      nodes,
+      edges,
+      entryNodeIds: nodes.length > 0 ? [nodes[0].id] : [],
+      groups: [],
+    },
+    permissionsRef: {
+      policyVersion: 1,
+      policyPath: `Studio/${name}.systemsculpt-assets/policy/grants.json`,
+    },
+    settings: {
+      runConcurrency: "adaptive",
+      defaultFsScope: "vault",
+      retention: {
+        maxRuns: 10,
+        maxArtifactsMb: 128,
+      },
+    },
+    migrations: {
+      projectSchemaVersion: "1.0.0",
+      applied: [],
+    },
+  };
+}
+
+function node(
+  id: string,
+  kind: string,
+  config: Record<string, StudioJsonValue> = {},
+  title: string = id
+): StudioNodeInstance {
+  return {
+    id,
+    kind,
+    version: "1.0.0",
+    title,
+    position: { x: 0, y: 0 },
+    config,
+  };
+}
+
+function edge(fromNodeId: string, fromPortId: string, toNodeId: string, toPortId: string): StudioEdge {
+  return {
+    id: `${fromNodeId}:${fromPortId}->${toNodeId}:${toPortId}`,
+    fromNodeId,
+    fromPortId,
+    toNodeId,
+    toPortId,
+  };
+}
+
+function summarizerProject(): StudioProjectV1 {
+  return projectFixture(
+    "Summarizer",
+    [
+      node("topic", "studio.input", { value: "default topic" }, "Topic"),
+      node("echo", "studio.value"),
+      node("result", "studio.output", { name: "Summary" }, "Result"),
+    ],
+    [
+      edge("topic", "out", "echo", "value"),
+      edge("echo", "value", "result", "value"),
+    ]
+  );
+}
+
+function createRegistry(): StudioNodeRegistry {
+  const registry = new StudioNodeRegistry();
+  registerBuiltInStudioNodes(registry);
+  return registry;
+}
+
+function loaderFor(projects: Record<string, StudioProjectV1>) {
+  return jest.fn(async (projectPath: string) => {
+    const project = projects[projectPath];
+    if (!project) {
+      throw new Error(`Missing project ${projectPath}`);
+    }
+    return project;
+  });
+}
+
+function createRuntime(projects: Record<string, StudioProjectV1>): StudioRuntime {
+  const app = {
+    vault: {
+      adapter: {},
+      getAbstractFileByPath: jest.fn(),
+      read: jest.fn(),
+      readBinary: jest.fn(),
+    },
+  } as any;
+  const plugin = {
+    app,
+    getLogger: () => ({ warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+  } as any;
+  const projectStore = {
+    loadProject: loaderFor(projects),
+    readSupportFile: jest.fn(async () => null),
+    loadPolicy: jest.fn(async () => ({
+      schema: "studio.policy.v1",
+      version: 1,
+      updatedAt: "2026-03-22T00:00:00.000Z",
+      grants: [],
+    })),
+    publishRun: jest.fn(async () => undefined),
+  } as any;
+  const runtime = new StudioRuntime(
+    app,
+    plugin,
+    projectStore,
+    createRegistry(),
+    new StudioGraphCompiler(),
+    {
+      stageArrayBuffer: jest.fn(),
+      readArrayBuffer: jest.fn(),
+    } as any,
+    {
+      beginLocalCommit: jest.fn(async () => undefined),
+      completeLocalCommit: jest.fn(async () => undefined),
+    } as any
+  );
+  (runtime as any).nodeResultCacheStore = {
+    load: jest.fn(async () => ({
+      projectId: "proj_host",
+      updatedAt: "2026-03-22T00:00:00.000Z",
+      entries: {},
+    })),
+  };
+  return runtime;
+}
+
+describe("Studio subprojects", () => {
+  const platform = Platform as typeof Platform & { isDesktopApp: boolean };
+
+  beforeEach(() => {
+    platform.isDesktopApp = false;
+  });
+
+  it("derives ports from input titles and output names", () => {
+    const ports = deriveStudioSubprojectInterface(summarizerProject());
+
+    expect(ports).toEqual({
+      inputs: [{ id: "topic", nodeId: "topic", label: "Topic" }],
+      outputs: [{ id: "summary", nodeId: "result", label: "Summary" }],
+    });
+  });
+
+  it("sets input node values by port id and rejects unknown inputs", () => {
+    const project = summarizerProject();
+
+    const applied = applyStudioProjectInputValues(project, { topic: "Atlas launch" });
+
+    expect(applied.graph.nodes.find((entry) => entry.id === "topic")?.config.value).toBe("Atlas launch");
+    expect(project.graph.nodes.find((entry) => entry.id === "topic")?.config.value).toBe("default topic");
+    expect(() => applyStudioProjectInputValues(project, { subject: "Atlas" })).toThrow(
+      '"Summarizer" has no input named "subject". Inputs: topic.'
+    );
+  });
+
+  it("resolves project node ports from the pinned interface", async () => {
+    const pin = await describeStudioSubproject(summarizerProject());
+    const host = node("sub", "studio.project", {
+      projectPath: "Studio/Summarizer.systemsculpt",
+      pinnedRevision: pin.revision,
+      interface: pin.interface as unknown as StudioJsonValue,
+    });
+
+    const definition = resolveNodeDefinitionPorts(host, createRegistry().get("studio.project", "1.0.0")!);
+
+    expect(definition.inputPorts.map((port) => port.id)).toEqual(["topic"]);
+    expect(definition.outputPorts.map((port) => port.id)).toEqual(["summary"]);
+  });
+
+  it("keeps the revision when only card layout changes", async () => {
+    const original = summarizerProject();
+    const moved = summarizerProject();
+    moved.graph.nodes[1].position = { x: 400, y: 200 };
+    const edited = summarizerProject();
+    edited.graph.nodes[0].config.value = "another topic";
+
+    const revision = await computeStudioSubprojectRevision(original);
+
+    expect(await computeStudioSubprojectRevision(moved)).toBe(revision);
+    expect(await computeStudioSubprojectRevision(edited)).not.toBe(revision);
+  });
+
+  it("rewires host edges onto the expanded input and output nodes", async () => {
+    const host = projectFixture(
+      "Host",
+      [
+        node("source", "studio.text", { value: "tides" }),
+        node("sub", "studio.project", { projectPath: "Studio/Summarizer.systemsculpt" }),
+        node("sink", "studio.value"),
+      ],
+      [
+        edge("source", "text", "sub", "topic"),
+        edge("sub", "summary", "sink", "value"),
+      ]
+    );
+
+    const expansion = await expandStudioSubprojects(
+      host,
+      "Studio/Host.systemsculpt",
+      loaderFor({ "Studio/Summarizer.systemsculpt": summarizerProject() })
+    );
+
+    expect(expansion.project.graph.nodes.map((entry) => entry.id)).toEqual([
+      "source",
+      "sink",
+      "sub::topic",
+      "sub::echo",
+      "sub::result",
+    ]);
+    expect(expansion.project.graph.edges).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ fromNodeId: "source", toNodeId: "sub::topic", toPortId: "value" }),
+        expect.objectContaining({ fromNodeId: "sub::result", fromPortId: "value", toNodeId: "sink" }),
+        expect.objectContaining({ fromNodeId: "sub::topic", toNodeId: "sub::echo" }),
+      ])
+    );
+    expect(expansion.hostNodeIdByExpandedNodeId.get("sub::echo")).toBe("sub");
+  });
+
+  it("rejects a project that includes itself through another project", async () => {
+    const first = projectFixture(
+      "First",
+      [node("inner", "studio.project", { projectPath: "Studio/Second.systemsculpt" }, "Second")],
+      []
+    );
+    const second = projectFixture(
+      "Second",
+      [node("inner", "studio.project", { projectPath: "Studio/First.systemsculpt" }, "First")],
+      []
+    );
+
+    await expect(
+      expandStudioSubprojects(
+        first,
+        "Studio/First.systemsculpt",
+        loaderFor({ "Studio/First.systemsculpt": first, "Studio/Second.systemsculpt": second })
+      )
+    ).rejects.toThrow(
+      'Project node "First" includes itself: Studio/First.systemsculpt → Studio/Second.systemsculpt → Studio/First.systemsculpt.'
+    );
+  });
+
+  it("rejects a project that changed after it was pinned", async () => {
+    const host = projectFixture(
+      "Host",
+      [
+        node("sub", "studio.project", {
+          projectPath: "Studio/Summarizer.systemsculpt",
+          pinnedRevision: "stale",
+        }, "Summarize"),
+      ],
+      []
+    );
+
+    await expect(
+      expandStudioSubprojects(
+        host,
+        "Studio/Host.systemsculpt",
+        loaderFor({ "Studio/Summarizer.systemsculpt": summarizerProject() })
+      )
+    ).rejects.toThrow('Project "Summarizer" changed since node "Summarize" pinned it.');
+  });
+
+  it("runs the embedded project and reports its progress through the project node", async () => {
+    const pin = await describeStudioSubproject(summarizerProject());
+    const host = projectFixture(
+      "Host",
+      [
+        node("source", "studio.text", { value: "tides" }),
+        node("sub", "studio.project", {
+          projectPath: "Studio/Summarizer.systemsculpt",
+          pinnedRevision: pin.revision,
+          interface: pin.interface as unknown as StudioJsonValue,
+        }),
+        node("sink", "studio.value"),
+      ],
+      [
+        edge("source", "text", "sub", "topic"),
+        edge("sub", "summary", "sink", "value"),
+      ]
+    );
+    const events: StudioRunEvent[] = [];
+
+    const summary = await createRuntime({
+      "Studio/Summarizer.systemsculpt": summarizerProject(),
+    }).runProjectSnapshot("Studio/Host.systemsculpt", host, {
+      onEvent: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(summary.status).toBe("success");
+    expect(events.some((event) => "nodeId" in event && event.nodeId.startsWith("sub::"))).toBe(false);
+    expect(events.filter((event) => event.type === "node.nested").map((event) => event.label)).toEqual(
+      expect.arrayContaining(["Topic", "echo", "Result"])
+    );
+    const hostOutput = events.find((event) => event.type === "node.output" && event.nodeId === "sub");
+    expect(hostOutput?.type === "node.output" ? hostOutput.outputs : undefined).toEqual({ summary: "tides" });
+    const sinkOutput = events.find((event) => event.type === "node.output" && event.nodeId === "sink");
+    expect(sinkOutput?.type === "node.output" ? sinkOutput.outputs : undefined).toEqual({ value: "tides" });
+  });
+});
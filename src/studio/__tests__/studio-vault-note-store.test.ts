@@ -0,0 +1,56 @@
+import { TFile, TFolder, type Vault } from "obsidian";
+import { StudioVaultNoteStore } from "../persistence/StudioVaultNoteStore";
+
+function createVault(entries: Record<string, TFile | TFolder>, texts: Map<string, string>) {
+  const vault = {
+    getAbstractFileByPath: jest.fn((path: string) => entries[path] ?? null),
+    process: jest.fn(async (file: TFile, fn: (data: string) => string) => {
+      const next = fn(texts.get(file.path) ?? "");
+      texts.set(file.path, next);
+      return next;
+    }),
+    createFolder: jest.fn(async (path: string) => {
+      entries[path] = new TFolder({ path });
+    }),
+    create: jest.fn(async (path: string, text: string) => {
+      texts.set(path, text);
+      return new TFile({ path });
+    }),
+  };
+  return vault;
+}
+
+describe("StudioVaultNoteStore", () => {
+  it("updates an existing note from its text at write time", async () => {
+    const texts = new Map([["Inbox.md", "- first\n- typed while the run was busy"]]);
+    const vault = createVault({ "Inbox.md": new TFile({ path: "Inbox.md" }) }, texts);
+    const store = new StudioVaultNoteStore(vault as unknown as Vault);
+
+    const written = await store.save("Inbox.md", (current) => `${current}\n- from Studio`);
+
+    expect(written).toBe("- first\n- typed while the run was busy\n- from Studio");
+    expect(texts.get("Inbox.md")).toBe(written);
+    expect(vault.create).not.toHaveBeenCalled();
+  });
+
+  it("creates missing folders and a new note", async () => {
+    const texts = new Map<string, string>();
+    const vault = createVault({ Daily: new TFolder({ path: "Daily" }) }, texts);
+    const store = new StudioVaultNoteStore(vault as unknown as Vault);
+
+    const written = await store.save("Daily/2026/Today.md", (current) => current ?? "New note");
+
+    expect(written).toBe("New note");
+    expect(vault.createFolder).toHaveBeenCalledTimes(1);
+    expect(vault.createFolder).toHaveBeenCalledWith("Daily/2026");
+    expect(texts.get("Daily/2026/Today.md")).toBe("New note");
+  });
+
+  it("refuses non-markdown paths and folders", async () => {
+    const vault = createVault({ "Notes.md": new TFolder({ path: "Notes.md" }) }, new Map());
+    const store = new StudioVaultNoteStore(vault as unknown as Vault);
+
+    await expect(store.save("Data/table.csv", () => "")).rejects.toThrow("Vault markdown file required: Data/table.csv");
+    await expect(store.save("Notes.md", () => "")).rejects.toThrow("Vault path is a folder, not a note: Notes.md");
+  });
+});
@@ -0,0 +1,36 @@
+import { TFile } from "obsidian";
+import { matchesStudioVaultSearchFilters, searchStudioVault } from "../StudioVaultSearch";
+
+describe("Studio vault search filters", () => {
+  it("matches the folder and any wanted tag, including nested tags", () => {
+    const filters = { folder: "Projects/", tags: ["#project"] };
+    expect(matchesStudioVaultSearchFilters("Projects/Atlas.md", ["project/atlas"], filters)).toBe(true);
+    expect(matchesStudioVaultSearchFilters("Projects/Atlas.md", ["projects"], filters)).toBe(false);
+    expect(matchesStudioVaultSearchFilters("ProjectsArchive/Atlas.md", ["project"], filters)).toBe(false);
+    expect(matchesStudioVaultSearchFilters("Inbox/Idea.md", [], { folder: "", tags: [] })).toBe(true);
+  });
+
+  it("fills the limit from granted notes when better-ranked hits are refused", async () => {
+    const paths = ["Private/One.md", "Private/Two.md", "Projects/Atlas.md", "Projects/Plan.md"];
+    const app = {
+      vault: { getAbstractFileByPath: (path: string) => new TFile({ path }) },
+      metadataCache: { getFileCache: () => null },
+    };
+    const search = jest.fn(async (_query: string, options: { limit: number }) => ({
+      results: paths.slice(0, options.limit).map((path, index) => ({ path, excerpt: path, score: 1 - index / 10 })),
+    }));
+    const plugin = { getSearchEngine: () => ({ search }) };
+
+    const hits = await searchStudioVault(app as never, plugin as never, {
+      query: "atlas",
+      mode: "hybrid",
+      limit: 2,
+      folder: "",
+      tags: [],
+      isPathAllowed: (path) => !path.startsWith("Private/"),
+      signal: new AbortController().signal,
+    });
+
+    expect(hits.map((hit) => hit.path)).toEqual(["Projects/Atlas.md", "Projects/Plan.md"]);
+  });
+});
@@ -0,0 +1,54 @@
+import type { StudioJsonValue, StudioNodeDefinition } from "../types";
+import { evaluateStudioPredicate, isStudioTruthy } from "./controlFlow";
+import { getText } from "./shared";
+
+export const branchNode: StudioNodeDefinition = {
+  kind: "studio.branch",
+  version: "1.0.0",
+  requiredHostCapabilities: [],
+  capabilityClass: "local_cpu",
+  cachePolicy: "by_inputs",
+  controlFlow: "route",
+  inputPorts: [
+    { id: "value", type: "any", required: true },
+    {
+      id: "condition",
+      type: "any",
+      required: false,
+      description: "Optional. When connected, its truthiness decides the branch instead of the expression.",
+    },
+  ],
+  outputPorts: [
+    { id: "true", type: "any", description: "Receives the value when the condition holds." },
+    { id: "false", type: "any", description: "Receives the value when the condition does not hold." },
+  ],
+  configDefaults: {
+    expression: "",
+  },
+  configSchema: {
+    fields: [
+      {
+        key: "expression",
+        label: "Condition",
+        description:
+          "Leave empty to test the value itself. Otherwise compare a path with a literal, for example value.status == \"done\", value.length > 3, !value.archived, value contains urgent, or value matches /^yes/i.",
+        type: "text",
+        required: false,
+        placeholder: "value.status == \"done\"",
+      },
+    ],
+    allowUnknownKeys: true,
+  },
+  async execute(context) {
+    const inputs = context.inputs as Record<string, StudioJsonValue>;
+    const value = inputs.value;
+    const passed = Object.prototype.hasOwnProperty.call(inputs, "condition")
+      ? isStudioTruthy(inputs.condition)
+      : evaluateStudioPredicate(value, getText(context.node.config.expression as StudioJsonValue));
+    return {
+      outputs: {
+        [passed ? "true" : "false"]: value,
+      },
+    };
+  },
+};
@@ -0,0 +1,145 @@
+import type { StudioJsonValue } from "../types";
+import { isRecord } from "../utils";
+import { getText } from "./shared";
+
+const FALSE_WORDS = new Set(["", "false", "no", "off", "0", "null", "none"]);
+const PATH_PATTERN = /^value((?:\.[A-Za-z_][A-Za-z0-9_-]*|\[\d+\])*)$/;
+const COMPARISON_PATTERN = /^(\S+)\s*(==|!=|>=|<=|>|<|\s(?:contains|matches)\s)\s*(.+)$/;
+
+type ComparisonOperator = "==" | "!=" | ">=" | "<=" | ">" | "<" | "contains" | "matches";
+
+/**
+ * Truthiness for routing. Text is false when it reads as a negative word so a
+ * model answering "no" or "false" takes the false branch.
+ */
+export function isStudioTruthy(value: StudioJsonValue | undefined): boolean {
+  if (value === null || typeof value === "undefined") return false;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0 && !Number.isNaN(value);
+  if (typeof value === "string") return !FALSE_WORDS.has(value.trim().toLowerCase());
+  if (Array.isArray(value)) return value.length > 0;
+  return Object.keys(value).length > 0;
+}
+
+function parseJsonText(value: string): StudioJsonValue | undefined {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return undefined;
+  try {
+    return JSON.parse(trimmed) as StudioJsonValue;
+  } catch {
+    return undefined;
+  }
+}
+
+function splitPath(path: string): string[] {
+  return Array.from(path.matchAll(/\.([A-Za-z_][A-Za-z0-9_-]*)|\[(\d+)\]/g))
+    .map((match) => match[1] ?? match[2]);
+}
+
+/**
+ * Read `value`, `value.field`, or `value.items[0]` from a port value. Text that
+ * holds JSON is parsed first so generated JSON can be routed without an extra
+ * JSON node. `length` reads the length of text and lists.
+ */
+export function readStudioValuePath(subject: StudioJsonValue | undefined, path: string): StudioJsonValue | undefined {
+  const match = path.trim().match(PATH_PATTERN);
+  if (!match) {
+    throw new Error(`Unsupported value path "${path}". Use value, value.field, or value.items[0].`);
+  }
+  let current: StudioJsonValue | undefined = subject;
+  for (const segment of splitPath(match[1])) {
+    if (typeof current === "string") {
+      if (segment === "length") {
+        current = current.length;
+        continue;
+      }
+      current = parseJsonText(current);
+    }
+    if (Array.isArray(current)) {
+      current = segment === "length" ? current.length : current[Number(segment)];
+    } else if (isRecord(current)) {
+      current = (current as Record<string, StudioJsonValue>)[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function parseLiteral(raw: string): StudioJsonValue {
+  const trimmed = raw.trim();
+  try {
+    return JSON.parse(trimmed) as StudioJsonValue;
+  } catch {
+    return trimmed.replace(/^'(.*)'$/, "$1");
+  }
+}
+
+function parseRegex(literal: StudioJsonValue): RegExp {
+  const source = getText(literal);
+  const delimited = source.match(/^\/(.*)\/([a-z]*)$/);
+  try {
+    return delimited ? new RegExp(delimited[1], delimited[2]) : new RegExp(source);
+  } catch {
+    throw new Error(`Invalid regular expression in branch expression: ${source}`);
+  }
+}
+
+function compare(actual: StudioJsonValue | undefined, operator: ComparisonOperator, literal: StudioJsonValue): boolean {
+  if (operator === "contains") {
+    if (Array.isArray(actual)) {
+      return actual.some((item) => getText(item) === getText(literal));
+    }
+    return getText(actual).includes(getText(literal));
+  }
+  if (operator === "matches") {
+    return parseRegex(literal).test(getText(actual));
+  }
+
+  const actualNumber = typeof actual === "number" ? actual : Number(getText(actual).trim());
+  const literalNumber = typeof literal === "number" ? literal : Number.NaN;
+  const numeric = Number.isFinite(actualNumber) && Number.isFinite(literalNumber);
+  if (operator === "==" || operator === "!=") {
+    const equal = numeric
+      ? actualNumber === literalNumber
+      : literal === null
+        ? actual === null || typeof actual === "undefined"
+        : typeof literal === "boolean"
+          ? isStudioTruthy(actual) === literal
+          : getText(actual).trim() === getText(literal).trim();
+    return operator === "==" ? equal : !equal;
+  }
+  if (!numeric) return false;
+  switch (operator) {
+    case ">": return actualNumber > literalNumber;
+    case ">=": return actualNumber >= literalNumber;
+    case "<": return actualNumber < literalNumber;
+    case "<=": return actualNumber <= literalNumber;
+  }
+}
+
+/**
+ * Evaluate a branch expression against a subject value. An empty expression
+ * tests the subject's truthiness. Otherwise the expression is a value path,
+ * optionally compared with a literal, and may be negated with a leading `!`:
+ * `value.status == "done"`, `value.length > 3`, `!value.archived`,
+ * `value contains urgent`, `value matches /^yes/i`.
+ */
+export function evaluateStudioPredicate(subject: StudioJsonValue | undefined, expression: string): boolean {
+  let source = expression.trim();
+  if (!source) return isStudioTruthy(subject);
+  let negated = false;
+  if (source.startsWith("!") && !source.startsWith("!=")) {
+    negated = true;
+    source = source.slice(1).trim();
+  }
+  const comparison = source.match(COMPARISON_PATTERN);
+  const result = comparison
+    ? compare(
+        readStudioValuePath(subject, comparison[1]),
+        comparison[2].trim() as ComparisonOperator,
+        parseLiteral(comparison[3]),
+      )
+    : isStudioTruthy(readStudioValuePath(subject, source));
+  return negated ? !result : result;
+}
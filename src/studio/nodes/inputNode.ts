@@ -7,7 +7,14 @@ export const inputNode: StudioNodeDefinition = {
   requiredHostCapabilities: [],
   capabilityClass: "local_cpu",
   cachePolicy: "by_inputs",
-  inputPorts: [],
+  inputPorts: [
+    {
+      id: "value",
+      type: "any",
+      required: false,
+      description: "Optional. Replaces the configured value, for example when this project runs as a node in another project.",
+    },
+  ],
   outputPorts: [
     { id: "out", type: "any" },
     { id: "text", type: "text" },
@@ -28,7 +35,10 @@ export const inputNode: StudioNodeDefinition = {
     allowUnknownKeys: true,
   },
   async execute(context) {
-    const rawValue = context.node.config.value as StudioJsonValue;
+    const inputs = context.inputs as Record<string, StudioJsonValue>;
+    const rawValue = Object.prototype.hasOwnProperty.call(inputs, "value")
+      ? inputs.value
+      : context.node.config.value as StudioJsonValue;
     return {
       outputs: {
         out: rawValue ?? "",
@@ -151,7 +151,7 @@ function repairCommonJsonFormattingIssues(value: string): string {
   return repaired;
 }
 
-function parseJsonTextOrThrow(text: string): StudioJsonValue {
+export function parseJsonTextOrThrow(text: string): StudioJsonValue {
   const trimmed = String(text || "").trim();
   if (!trimmed) {
     throw new Error(
@@ -0,0 +1,101 @@
+import type { StudioJsonValue, StudioNodeDefinition } from "../types";
+import { asNumber } from "../utils";
+import { getText } from "./shared";
+
+const DEFAULT_MAP_CONCURRENCY = 2;
+const MAX_MAP_CONCURRENCY = 8;
+
+function readMapItems(value: StudioJsonValue | undefined): StudioJsonValue[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value.trim()) as StudioJsonValue;
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Reported below with the same message as any other non-array input.
+    }
+  }
+  throw new Error("Map node expects a JSON array on its items input.");
+}
+
+export const mapNode: StudioNodeDefinition = {
+  kind: "studio.map",
+  version: "1.0.0",
+  requiredHostCapabilities: [],
+  capabilityClass: "local_cpu",
+  cachePolicy: "never",
+  controlFlow: "map",
+  inputPorts: [{ id: "items", type: "any", required: true }],
+  outputPorts: [
+    { id: "item", type: "any", description: "Wire into the mapped group; receives one element per pass." },
+    { id: "index", type: "number", description: "Zero-based position of the current element." },
+    { id: "results", type: "json", description: "The group's result for every element, in input order." },
+  ],
+  configDefaults: {
+    groupId: "",
+    concurrency: DEFAULT_MAP_CONCURRENCY,
+  },
+  configSchema: {
+    fields: [
+      {
+        key: "groupId",
+        label: "Group",
+        description:
+          "Name or id of the group to run once per element. The group's last node without a downstream node in the group provides each result.",
+        type: "text",
+        required: true,
+        placeholder: "Summarize transcript",
+      },
+      {
+        key: "concurrency",
+        label: "Concurrency",
+        description: "Elements processed at once. Capped by the Studio limit for the slowest node class in the group.",
+        type: "number",
+        required: false,
+        min: 1,
+        max: MAX_MAP_CONCURRENCY,
+        integer: true,
+      },
+    ],
+    allowUnknownKeys: true,
+  },
+  async execute(context) {
+    const mapGroup = context.services.mapGroup;
+    if (!mapGroup) {
+      throw new Error("Map node requires the Studio runtime to run its group.");
+    }
+    const items = readMapItems((context.inputs as Record<string, StudioJsonValue>).items);
+    const configured = asNumber(context.node.config.concurrency) ?? DEFAULT_MAP_CONCURRENCY;
+    const concurrency = Math.max(1, Math.min(Math.floor(configured), mapGroup.concurrency, items.length || 1));
+    const results: StudioJsonValue[] = new Array<StudioJsonValue>(items.length).fill(null);
+
+    let nextIndex = 0;
+    const worker = async (): Promise<void> => {
+      while (nextIndex < items.length) {
+        if (context.signal.aborted) {
+          throw new Error("Map run was cancelled.");
+        }
+        const index = nextIndex;
+        nextIndex += 1;
+        try {
+          results[index] = await mapGroup.runItem(items[index], index);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new Error(`Map item ${index + 1} of ${items.length} failed: ${message}`);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+    context.log(`Mapped ${items.length} item(s) through group "${getText(context.node.config.groupId)}".`);
+    return {
+      outputs: {
+        results,
+      },
+    };
+  },
+};
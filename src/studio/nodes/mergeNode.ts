@@ -0,0 +1,30 @@
+import type { StudioJsonValue, StudioNodeDefinition } from "../types";
+
+const MERGE_INPUT_PORT_IDS = ["input_1", "input_2", "input_3", "input_4"] as const;
+
+export const mergeNode: StudioNodeDefinition = {
+  kind: "studio.merge",
+  version: "1.0.0",
+  requiredHostCapabilities: [],
+  capabilityClass: "local_cpu",
+  cachePolicy: "by_inputs",
+  controlFlow: "merge",
+  inputPorts: MERGE_INPUT_PORT_IDS.map((id) => ({ id, type: "any" as const, required: false })),
+  outputPorts: [
+    { id: "value", type: "any", description: "The first input that received a value, in port order." },
+  ],
+  configDefaults: {},
+  configSchema: {
+    fields: [],
+    allowUnknownKeys: true,
+  },
+  async execute(context) {
+    const inputs = context.inputs as Record<string, StudioJsonValue>;
+    const portId = MERGE_INPUT_PORT_IDS.find((id) => typeof inputs[id] !== "undefined");
+    return {
+      outputs: {
+        value: portId ? inputs[portId] : null,
+      },
+    };
+  },
+};
@@ -0,0 +1,35 @@
+import type { StudioJsonValue, StudioNodeDefinition } from "../types";
+
+export const outputNode: StudioNodeDefinition = {
+  kind: "studio.output",
+  version: "1.0.0",
+  requiredHostCapabilities: [],
+  capabilityClass: "local_cpu",
+  cachePolicy: "by_inputs",
+  inputPorts: [{ id: "value", type: "any", required: true }],
+  outputPorts: [{ id: "value", type: "any" }],
+  configDefaults: {
+    name: "",
+  },
+  configSchema: {
+    fields: [
+      {
+        key: "name",
+        label: "Output Name",
+        description: "Port name when this project runs as a node in another project. Defaults to the node title.",
+        type: "text",
+        required: false,
+        placeholder: "summary",
+      },
+    ],
+    allowUnknownKeys: true,
+  },
+  async execute(context) {
+    const inputs = context.inputs as Record<string, StudioJsonValue>;
+    return {
+      outputs: {
+        value: inputs.value ?? null,
+      },
+    };
+  },
+};
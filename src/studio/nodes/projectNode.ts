@@ -0,0 +1,40 @@
+import { STUDIO_PROJECT_EXTENSION, type StudioNodeDefinition } from "../types";
+import { STUDIO_SUBPROJECT_NODE_KIND } from "../StudioSubprojects";
+
+export const projectNode: StudioNodeDefinition = {
+  kind: STUDIO_SUBPROJECT_NODE_KIND,
+  version: "1.0.0",
+  requiredHostCapabilities: [],
+  capabilityClass: "local_cpu",
+  cachePolicy: "never",
+  // Ports come from the referenced project's input and output nodes.
+  inputPorts: [],
+  outputPorts: [],
+  configDefaults: {
+    projectPath: "",
+    pinnedRevision: "",
+  },
+  configSchema: {
+    fields: [
+      {
+        key: "projectPath",
+        label: "Project",
+        description: "Studio project to run as this node. Its input nodes become inputs and its output nodes become outputs.",
+        type: "file_path",
+        required: true,
+        accept: STUDIO_PROJECT_EXTENSION,
+      },
+      {
+        key: "pinnedRevision",
+        label: "Pinned Revision",
+        description: "Runs fail when the project changes after it was pinned. Clear to pin the current version.",
+        type: "text",
+        required: false,
+      },
+    ],
+    allowUnknownKeys: true,
+  },
+  async execute() {
+    throw new Error("Project nodes are expanded into their project's nodes before a run starts.");
+  },
+};
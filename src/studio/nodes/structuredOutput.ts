@@ -0,0 +1,250 @@
+import type {
+  StudioJsonValue,
+  StudioNodeConfigValidationError,
+  StudioPortDataType,
+  StudioPortDefinition,
+} from "../types";
+import { isRecord } from "../utils";
+import { parseJsonTextOrThrow } from "./jsonNode";
+
+export const TEXT_GENERATION_OUTPUT_MODE_CONFIG_KEY = "outputMode";
+export const TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY = "outputSchema";
+
+// A reply that fails validation gets up to this many follow-up requests that
+// quote the errors back before the node fails.
+export const STRUCTURED_OUTPUT_REPAIR_ATTEMPTS = 2;
+
+type JsonSchema = Record<string, unknown>;
+
+const STRUCTURED_BASE_OUTPUT_PORTS: StudioPortDefinition[] = [
+  { id: "text", type: "text", description: "The validated object as JSON text." },
+  { id: "json", type: "json", description: "The validated object." },
+];
+
+function isBaseOutputPortId(key: string): boolean {
+  return STRUCTURED_BASE_OUTPUT_PORTS.some((port) => port.id === key);
+}
+
+export function isStructuredOutputMode(config: Record<string, StudioJsonValue> | undefined | null): boolean {
+  return config?.[TEXT_GENERATION_OUTPUT_MODE_CONFIG_KEY] === "structured";
+}
+
+export function readStructuredOutputSchema(value: StudioJsonValue | undefined): JsonSchema | null {
+  if (!isRecord(value) || !isRecord(value.properties)) {
+    return null;
+  }
+  return value;
+}
+
+function readSchemaTypes(schema: unknown): string[] {
+  if (!isRecord(schema)) {
+    return [];
+  }
+  const declared = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return declared.filter((entry): entry is string => typeof entry === "string");
+}
+
+function portTypeForSchema(schema: unknown): StudioPortDataType {
+  const types = readSchemaTypes(schema).filter((type) => type !== "null");
+  if (types.length !== 1) {
+    return "any";
+  }
+  switch (types[0]) {
+    case "string":
+      return "text";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "object":
+    case "array":
+      return "json";
+    default:
+      return "any";
+  }
+}
+
+export function resolveStructuredOutputPorts(
+  config: Record<string, StudioJsonValue> | undefined | null
+): StudioPortDefinition[] {
+  const schema = readStructuredOutputSchema(config?.[TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY]);
+  if (!schema) {
+    return [...STRUCTURED_BASE_OUTPUT_PORTS];
+  }
+  const properties = schema.properties as Record<string, unknown>;
+  // `validateStructuredOutputConfig` reports the properties skipped here.
+  const propertyPorts = Object.keys(properties)
+    .filter((key) => key.trim().length > 0 && !isBaseOutputPortId(key))
+    .map((key) => {
+      const description = isRecord(properties[key]) ? properties[key].description : undefined;
+      return {
+        id: key,
+        type: portTypeForSchema(properties[key]),
+        ...(typeof description === "string" && description.trim() ? { description: description.trim() } : {}),
+      };
+    });
+  return [...STRUCTURED_BASE_OUTPUT_PORTS, ...propertyPorts];
+}
+
+export function validateStructuredOutputConfig(
+  config: Record<string, StudioJsonValue>
+): StudioNodeConfigValidationError[] {
+  if (!isStructuredOutputMode(config)) {
+    return [];
+  }
+  const schema = readStructuredOutputSchema(config[TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY]);
+  if (!schema) {
+    return [{
+      fieldKey: TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY,
+      message: "Structured output needs a JSON Schema object with top-level properties.",
+    }];
+  }
+  // Each top-level property becomes an output port, so its name has to be a
+  // usable port id that does not shadow the built-in text and json outputs.
+  return Object.keys(schema.properties as Record<string, unknown>).flatMap((key) => {
+    if (key.trim().length === 0) {
+      return [{
+        fieldKey: TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY,
+        message: "Schema properties need a name to become output ports.",
+      }];
+    }
+    if (isBaseOutputPortId(key)) {
+      return [{
+        fieldKey: TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY,
+        message: `Schema property "${key}" clashes with the built-in ${key} output. Rename it to give it its own port.`,
+      }];
+    }
+    return [];
+  });
+}
+
+function matchesSchemaType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return isRecord(value) && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Checks a value against the JSON Schema keywords structured output relies on:
+ * type, enum, properties, required, additionalProperties, and items. Other
+ * keywords are accepted without checking. Returns one message per problem.
+ */
+export function validateAgainstStructuredSchema(value: unknown, schema: unknown, path = "$"): string[] {
+  if (!isRecord(schema)) {
+    return [];
+  }
+  const types = readSchemaTypes(schema);
+  if (types.length > 0 && !types.some((type) => matchesSchemaType(value, type))) {
+    return [`${path} should be ${types.join(" or ")}.`];
+  }
+  const errors: string[] = [];
+  if (Array.isArray(schema.enum) && !schema.enum.some((entry) => JSON.stringify(entry) === JSON.stringify(value))) {
+    errors.push(`${path} should be one of ${schema.enum.map((entry) => JSON.stringify(entry)).join(", ")}.`);
+  }
+  if (isRecord(value) && !Array.isArray(value)) {
+    const properties = isRecord(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (typeof key === "string" && !Object.prototype.hasOwnProperty.call(value, key)) {
+          errors.push(`${path}.${key} is required.`);
+        }
+      }
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      if (Object.prototype.hasOwnProperty.call(properties, key)) {
+        errors.push(...validateAgainstStructuredSchema(entry, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed.`);
+      } else if (isRecord(schema.additionalProperties)) {
+        errors.push(...validateAgainstStructuredSchema(entry, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+  if (Array.isArray(value) && isRecord(schema.items)) {
+    value.forEach((entry, index) => {
+      errors.push(...validateAgainstStructuredSchema(entry, schema.items, `${path}[${index}]`));
+    });
+  }
+  return errors;
+}
+
+export function buildStructuredOutputInstructions(schema: JsonSchema): string {
+  return [
+    "Respond with a single JSON object that matches this JSON Schema.",
+    "Reply with the JSON only: no Markdown fences and no commentary.",
+    "",
+    JSON.stringify(schema, null, 2),
+  ].join("\n");
+}
+
+export function buildStructuredOutputRepairPrompt(options: {
+  prompt: string;
+  reply: string;
+  errors: string[];
+}): string {
+  return [
+    options.prompt,
+    "",
+    "Your previous reply was:",
+    options.reply.trim() || "(empty)",
+    "",
+    "It did not match the schema:",
+    ...options.errors.map((error) => `- ${error}`),
+    "",
+    "Reply again with only the corrected JSON object.",
+  ].join("\n");
+}
+
+export type StructuredOutputParseResult =
+  | { ok: true; value: Record<string, StudioJsonValue> }
+  | { ok: false; errors: string[] };
+
+export function parseStructuredOutput(text: string, schema: JsonSchema): StructuredOutputParseResult {
+  let value: StudioJsonValue;
+  try {
+    value = parseJsonTextOrThrow(text);
+  } catch {
+    return { ok: false, errors: ["The reply is not valid JSON."] };
+  }
+  if (!isRecord(value) || Array.isArray(value)) {
+    return { ok: false, errors: ["$ should be object."] };
+  }
+  const errors = validateAgainstStructuredSchema(value, schema);
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: value as Record<string, StudioJsonValue> };
+}
+
+export function buildStructuredOutputs(
+  value: Record<string, StudioJsonValue>,
+  schema: JsonSchema
+): Record<string, StudioJsonValue> {
+  const outputs: Record<string, StudioJsonValue> = {
+    text: JSON.stringify(value, null, 2),
+    json: value,
+  };
+  for (const port of resolveStructuredOutputPorts({ [TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY]: schema as StudioJsonValue })) {
+    if (isBaseOutputPortId(port.id)) {
+      continue;
+    }
+    // Optional properties the reply left out still reach downstream nodes.
+    outputs[port.id] = Object.prototype.hasOwnProperty.call(value, port.id) ? value[port.id] : null;
+  }
+  return outputs;
+}
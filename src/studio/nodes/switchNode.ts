@@ -0,0 +1,129 @@
+import type {
+  StudioJsonValue,
+  StudioNodeDefinition,
+  StudioPortDefinition,
+} from "../types";
+import { readStudioValuePath } from "./controlFlow";
+import { getText } from "./shared";
+
+type SwitchMatchMode = "equals" | "contains" | "regex";
+
+const SWITCH_DEFAULT_PORT: StudioPortDefinition = {
+  id: "default",
+  type: "any",
+  description: "Receives the value when no case matches.",
+};
+
+export function readSwitchCases(value: StudioJsonValue | undefined): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map((entry) => getText(entry as StudioJsonValue).trim()).filter((entry) => entry.length > 0);
+}
+
+export function switchCasePortId(index: number): string {
+  return `case_${index + 1}`;
+}
+
+export function resolveSwitchOutputPorts(
+  config: Record<string, StudioJsonValue> | undefined | null
+): StudioPortDefinition[] {
+  return [
+    ...readSwitchCases(config?.cases).map((caseText, index) => ({
+      id: switchCasePortId(index),
+      type: "any" as const,
+      description: caseText,
+    })),
+    SWITCH_DEFAULT_PORT,
+  ];
+}
+
+function readMatchMode(value: StudioJsonValue | undefined): SwitchMatchMode {
+  const mode = getText(value).trim();
+  return mode === "contains" || mode === "regex" ? mode : "equals";
+}
+
+function matchesCase(subject: string, caseText: string, mode: SwitchMatchMode, caseSensitive: boolean): boolean {
+  if (mode === "regex") {
+    try {
+      return new RegExp(caseText, caseSensitive ? "" : "i").test(subject);
+    } catch {
+      throw new Error(`Switch case "${caseText}" is not a valid regular expression.`);
+    }
+  }
+  const left = caseSensitive ? subject : subject.toLowerCase();
+  const right = caseSensitive ? caseText : caseText.toLowerCase();
+  return mode === "contains" ? left.includes(right) : left === right;
+}
+
+export const switchNode: StudioNodeDefinition = {
+  kind: "studio.switch",
+  version: "1.0.0",
+  requiredHostCapabilities: [],
+  capabilityClass: "local_cpu",
+  cachePolicy: "by_inputs",
+  controlFlow: "route",
+  inputPorts: [{ id: "value", type: "any", required: true }],
+  outputPorts: [SWITCH_DEFAULT_PORT],
+  configDefaults: {
+    field: "value",
+    cases: [],
+    matchMode: "equals",
+    caseSensitive: false,
+  },
+  configSchema: {
+    fields: [
+      {
+        key: "field",
+        label: "Match On",
+        description: "Path to the text to match, for example value or value.category for JSON input.",
+        type: "text",
+        required: false,
+        placeholder: "value",
+      },
+      {
+        key: "cases",
+        label: "Cases",
+        description: "One case per line. Each case gets its own output port; the first match wins.",
+        type: "string_list",
+        required: false,
+      },
+      {
+        key: "matchMode",
+        label: "Match Mode",
+        type: "select",
+        required: false,
+        options: [
+          { value: "equals", label: "Equals" },
+          { value: "contains", label: "Contains" },
+          { value: "regex", label: "Regular expression" },
+        ],
+      },
+      {
+        key: "caseSensitive",
+        label: "Case Sensitive",
+        type: "boolean",
+        required: false,
+      },
+    ],
+    allowUnknownKeys: true,
+  },
+  async execute(context) {
+    const inputs = context.inputs as Record<string, StudioJsonValue>;
+    const config = context.node.config as Record<string, StudioJsonValue>;
+    const value = inputs.value;
+    const field = getText(config.field).trim() || "value";
+    const subject = getText(readStudioValuePath(value, field)).trim();
+    const mode = readMatchMode(config.matchMode);
+    const caseSensitive = config.caseSensitive === true;
+    const matchedIndex = readSwitchCases(config.cases).findIndex((caseText) =>
+      matchesCase(subject, caseText, mode, caseSensitive)
+    );
+    const portId = matchedIndex >= 0 ? switchCasePortId(matchedIndex) : SWITCH_DEFAULT_PORT.id;
+    return {
+      outputs: {
+        [portId]: value,
+      },
+    };
+  },
+};
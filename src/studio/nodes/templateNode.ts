@@ -0,0 +1,322 @@
+import type {
+  StudioJsonValue,
+  StudioNodeConfigValidationError,
+  StudioNodeDefinition,
+  StudioPortDefinition,
+} from "../types";
+import { isStudioTruthy, readStudioValuePath } from "./controlFlow";
+import { getText } from "./shared";
+
+export const STUDIO_TEMPLATE_NODE_KIND = "studio.template";
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const PATH_PATTERN = /^(@index|[A-Za-z_][A-Za-z0-9_]*)((?:\.[A-Za-z_][A-Za-z0-9_-]*|\[\d+\])*)$/;
+const EACH_PATTERN = /^(\S+)(?:\s+as\s+([A-Za-z_][A-Za-z0-9_]*))?$/;
+const FILTER_ARG_PATTERN = /"([^"]*)"|'([^']*)'|(\S+)/g;
+const DATE_TOKEN_PATTERN = /YYYY|MM|DD|HH|mm|ss/g;
+const TEMPLATE_FILTERS = ["trim", "truncate", "json", "date"] as const;
+
+type TemplateFilterName = (typeof TEMPLATE_FILTERS)[number];
+
+type TemplatePath = { root: string; rest: string };
+
+type TemplateFilter = { name: TemplateFilterName; args: string[] };
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "value"; path: TemplatePath; filters: TemplateFilter[] }
+  | { type: "each"; path: TemplatePath; alias: string | null; body: TemplateNode[] }
+  | { type: "if"; path: TemplatePath; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+type OpenBlock = {
+  node: Extract<TemplateNode, { type: "each" | "if" }>;
+  name: "each" | "if" | "unless";
+  inElse: boolean;
+};
+
+type RenderScope = {
+  inputs: Record<string, StudioJsonValue>;
+  locals: Map<string, StudioJsonValue>;
+};
+
+function parsePath(raw: string): TemplatePath {
+  const match = raw.trim().match(PATH_PATTERN);
+  if (!match) {
+    throw new Error(`"${raw.trim()}" is not a value name. Use name, name.field, or name.items[0].`);
+  }
+  return { root: match[1], rest: match[2] };
+}
+
+function parseFilter(raw: string): TemplateFilter {
+  const [name = "", ...args] = Array.from(raw.trim().matchAll(FILTER_ARG_PATTERN))
+    .map((match) => match[1] ?? match[2] ?? match[3]);
+  if (!(TEMPLATE_FILTERS as readonly string[]).includes(name)) {
+    throw new Error(`Unknown filter "${name}". Use ${TEMPLATE_FILTERS.join(", ")}.`);
+  }
+  if (name === "truncate" && !/^[1-9]\d*$/.test(args[0] ?? "")) {
+    throw new Error("truncate needs a length, for example {{summary | truncate 200}}.");
+  }
+  return { name: name as TemplateFilterName, args };
+}
+
+/**
+ * Parses `{{name | filter}}`, `{{#each list as item}}…{{/each}}`, and
+ * `{{#if name}}…{{else}}…{{/if}}` (or `#unless`). Throws on the first
+ * malformed tag or unbalanced block.
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const target = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    if (open.node.type === "each") return open.node.body;
+    return open.inElse ? open.node.otherwise : open.node.then;
+  };
+  let cursor = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    if (match.index > cursor) {
+      target().push({ type: "text", text: template.slice(cursor, match.index) });
+    }
+    cursor = match.index + match[0].length;
+    const tag = match[1].trim();
+    if (!tag) {
+      throw new Error("Empty {{ }} tag.");
+    }
+    if (tag.startsWith("#")) {
+      const [, name = "", rest = ""] = tag.match(/^#(\S*)\s*([\s\S]*)$/) ?? [];
+      if (name === "each") {
+        const each = rest.match(EACH_PATTERN);
+        if (!each) throw new Error("Write loops as {{#each list}} or {{#each list as item}}.");
+        const node: OpenBlock["node"] = { type: "each", path: parsePath(each[1]), alias: each[2] ?? null, body: [] };
+        target().push(node);
+        stack.push({ node, name, inElse: false });
+      } else if (name === "if" || name === "unless") {
+        const node: OpenBlock["node"] = { type: "if", path: parsePath(rest), negate: name === "unless", then: [], otherwise: [] };
+        target().push(node);
+        stack.push({ node, name, inElse: false });
+      } else {
+        throw new Error(`Unknown block {{#${name}}}. Use #each, #if, or #unless.`);
+      }
+    } else if (tag.startsWith("/")) {
+      const name = tag.slice(1).trim();
+      const open = stack.pop();
+      if (!open) throw new Error(`{{/${name}}} has no opening block.`);
+      if (open.name !== name) throw new Error(`{{/${name}}} closes {{#${open.name}}}.`);
+    } else if (tag === "else") {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.type !== "if" || open.inElse) {
+        throw new Error("{{else}} must sit inside {{#if}} or {{#unless}}, once.");
+      }
+      open.inElse = true;
+    } else {
+      const [path, ...filters] = tag.split("|");
+      target().push({ type: "value", path: parsePath(path), filters: filters.map(parseFilter) });
+    }
+  }
+  if (cursor < template.length) {
+    target().push({ type: "text", text: template.slice(cursor) });
+  }
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new Error(`{{#${unclosed.name}}} is never closed.`);
+  }
+  return root;
+}
+
+function collectInputNames(nodes: TemplateNode[], locals: Set<string>, names: Set<string>): void {
+  const visit = (path: TemplatePath, scope: Set<string>) => {
+    if (path.root === "@index" || path.root === "this") {
+      if (!scope.has(path.root)) {
+        throw new Error(`{{${path.root}}} only works inside {{#each}}.`);
+      }
+      return;
+    }
+    if (!scope.has(path.root)) names.add(path.root);
+  };
+  for (const node of nodes) {
+    if (node.type === "value") {
+      visit(node.path, locals);
+    } else if (node.type === "if") {
+      visit(node.path, locals);
+      collectInputNames(node.then, locals, names);
+      collectInputNames(node.otherwise, locals, names);
+    } else if (node.type === "each") {
+      visit(node.path, locals);
+      const inner = new Set(locals).add("this").add("@index");
+      if (node.alias) inner.add(node.alias);
+      collectInputNames(node.body, inner, names);
+    }
+  }
+}
+
+/** Names of the values a template reads from outside, in first-use order. */
+export function readTemplateInputNames(template: string): string[] {
+  const names = new Set<string>();
+  collectInputNames(parseTemplate(template), new Set(), names);
+  return [...names];
+}
+
+export function resolveTemplateInputPorts(
+  config: Record<string, StudioJsonValue> | undefined | null
+): StudioPortDefinition[] {
+  let names: string[];
+  try {
+    names = readTemplateInputNames(getText(config?.template));
+  } catch {
+    // Keep the ports of every well-formed tag while a block is half typed, so
+    // existing edges survive the edit.
+    const tags = Array.from(getText(config?.template).matchAll(TAG_PATTERN)).map((match) => match[1].trim());
+    const locals = new Set(["this", "@index", "else"]);
+    for (const tag of tags) {
+      const alias = tag.match(/^#each\s+\S+\s+as\s+(\S+)$/)?.[1];
+      if (alias) locals.add(alias);
+    }
+    names = tags.flatMap((tag) => {
+      const expression = tag.replace(/^#(?:each|if|unless)\s+/, "").replace(/\s+as\s+\S+$/, "");
+      const root = expression.split("|")[0].trim().match(PATH_PATTERN)?.[1];
+      return root && !locals.has(root) ? [root] : [];
+    });
+  }
+  return [...new Set(names)].map((id) => ({ id, type: "any" as const, required: false }));
+}
+
+export function validateTemplateNodeConfig(
+  config: Record<string, StudioJsonValue>
+): StudioNodeConfigValidationError[] {
+  if (typeof config.template !== "string") {
+    return [];
+  }
+  try {
+    readTemplateInputNames(config.template);
+    return [];
+  } catch (error) {
+    return [{ fieldKey: "template", message: error instanceof Error ? error.message : String(error) }];
+  }
+}
+
+function resolvePath(path: TemplatePath, scope: RenderScope): StudioJsonValue | undefined {
+  const base = path.root === "@index" || scope.locals.has(path.root)
+    ? scope.locals.get(path.root)
+    : scope.inputs[path.root];
+  return path.rest ? readStudioValuePath(base, `value${path.rest}`) : base;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function formatTemplateDate(value: StudioJsonValue | undefined, format: string): string {
+  const raw = typeof value === "number" ? value : getText(value).trim();
+  const date = raw === "" ? new Date(Number.NaN) : new Date(raw);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`date could not read "${getText(value)}" as a date.`);
+  }
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+  return format.replace(DATE_TOKEN_PATTERN, (token) => parts[token]);
+}
+
+function applyFilters(value: StudioJsonValue | undefined, filters: TemplateFilter[]): string {
+  let current: StudioJsonValue | undefined = value;
+  for (const filter of filters) {
+    switch (filter.name) {
+      case "trim":
+        current = getText(current).trim();
+        break;
+      case "truncate": {
+        const text = getText(current);
+        const limit = Number(filter.args[0]);
+        current = text.length > limit ? `${text.slice(0, limit).trimEnd()}…` : text;
+        break;
+      }
+      case "json":
+        current = JSON.stringify(current ?? null, null, 2);
+        break;
+      case "date":
+        current = formatTemplateDate(current, filter.args[0] ?? "YYYY-MM-DD");
+        break;
+    }
+  }
+  return getText(current);
+}
+
+function readList(value: StudioJsonValue | undefined, name: string): StudioJsonValue[] {
+  if (value === null || typeof value === "undefined" || value === "") return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string" && value.trim().startsWith("[")) {
+    try {
+      const parsed = JSON.parse(value) as StudioJsonValue;
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // Fall through to the error below.
+    }
+  }
+  throw new Error(`{{#each ${name}}} needs a JSON array.`);
+}
+
+function renderNodes(nodes: TemplateNode[], scope: RenderScope): string {
+  let out = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      out += node.text;
+    } else if (node.type === "value") {
+      out += applyFilters(resolvePath(node.path, scope), node.filters);
+    } else if (node.type === "if") {
+      const holds = isStudioTruthy(resolvePath(node.path, scope)) !== node.negate;
+      out += renderNodes(holds ? node.then : node.otherwise, scope);
+    } else {
+      readList(resolvePath(node.path, scope), `${node.path.root}${node.path.rest}`).forEach((item, index) => {
+        const locals = new Map(scope.locals).set("this", item).set("@index", index);
+        if (node.alias) locals.set(node.alias, item);
+        out += renderNodes(node.body, { inputs: scope.inputs, locals });
+      });
+    }
+  }
+  return out;
+}
+
+/** Renders a template against its input port values. Missing values render empty. */
+export function renderStudioTemplate(template: string, inputs: Record<string, StudioJsonValue>): string {
+  return renderNodes(parseTemplate(template), { inputs, locals: new Map() });
+}
+
+export const templateNode: StudioNodeDefinition = {
+  kind: STUDIO_TEMPLATE_NODE_KIND,
+  version: "1.0.0",
+  requiredHostCapabilities: [],
+  capabilityClass: "local_cpu",
+  cachePolicy: "by_inputs",
+  inputPorts: [],
+  outputPorts: [{ id: "text", type: "text" }],
+  configDefaults: {
+    template: "",
+  },
+  configSchema: {
+    fields: [
+      {
+        key: "template",
+        label: "Template",
+        description: "Each {{name}} becomes an input port. Supports #each, #if and filters: trim, truncate, json, date.",
+        type: "textarea",
+        required: true,
+        placeholder: "Summarize {{note | truncate 4000}} for {{audience}}.",
+      },
+    ],
+    allowUnknownKeys: true,
+  },
+  async execute(context) {
+    const config = context.node.config as Record<string, StudioJsonValue>;
+    return {
+      outputs: {
+        text: renderStudioTemplate(getText(config.template), context.inputs as Record<string, StudioJsonValue>),
+      },
+    };
+  },
+};
@@ -1,10 +1,87 @@
-import type { StudioJsonValue, StudioNodeDefinition } from "../types";
+import type {
+  StudioJsonValue,
+  StudioManagedOperationRef,
+  StudioNodeDefinition,
+  StudioNodeExecutionContext,
+  StudioNodeResult,
+} from "../types";
 import {
   getText,
   parseStructuredPromptInput,
   renderTemplate,
   resolveTemplateVariables,
 } from "./shared";
+import {
+  STRUCTURED_OUTPUT_REPAIR_ATTEMPTS,
+  TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY,
+  buildStructuredOutputInstructions,
+  buildStructuredOutputRepairPrompt,
+  buildStructuredOutputs,
+  isStructuredOutputMode,
+  parseStructuredOutput,
+  readStructuredOutputSchema,
+} from "./structuredOutput";
+
+function buildTextGenerationPayload(context: StudioNodeExecutionContext): { prompt: string; systemPrompt?: string } {
+  const structured = parseStructuredPromptInput(context.inputs.prompt);
+  const prompt = structured.prompt.trim();
+  if (!prompt) {
+    throw new Error(`Text generation node "${context.node.id}" requires a prompt input.`);
+  }
+  const configuredTemplate = getText(context.node.config.systemPrompt as StudioJsonValue);
+  const templateVariables = resolveTemplateVariables(context);
+  const configuredSystemPrompt = renderTemplate(configuredTemplate, templateVariables).trim();
+  const systemPrompt = configuredSystemPrompt || structured.systemPrompt.trim() || undefined;
+  return { prompt, systemPrompt };
+}
+
+/**
+ * Asks for JSON matching the configured schema. A reply that fails to parse or
+ * validate is sent back with its errors, a bounded number of times.
+ */
+async function executeStructuredTextGeneration(
+  context: StudioNodeExecutionContext,
+  schema: Record<string, unknown>
+): Promise<StudioNodeResult> {
+  const instructions = buildStructuredOutputInstructions(schema);
+  const managedOperations: StudioManagedOperationRef[] = [];
+  let payload: { prompt: string; systemPrompt?: string } | null = null;
+  let reply = "";
+  let errors: string[] = [];
+  for (let attempt = 0; attempt <= STRUCTURED_OUTPUT_REPAIR_ATTEMPTS; attempt += 1) {
+    const previousReply = reply;
+    const previousErrors = errors;
+    const result = await context.services.api.generateText({
+      runId: context.runId,
+      nodeId: context.node.id,
+      projectPath: context.projectPath,
+      signal: context.signal,
+      ...(attempt > 0 ? { attempt } : {}),
+      buildPayload: () => {
+        payload = payload || buildTextGenerationPayload(context);
+        return {
+          prompt: attempt > 0
+            ? buildStructuredOutputRepairPrompt({ prompt: payload.prompt, reply: previousReply, errors: previousErrors })
+            : payload.prompt,
+          systemPrompt: payload.systemPrompt ? `${payload.systemPrompt}\n\n${instructions}` : instructions,
+        };
+      },
+    });
+    managedOperations.push(result.operation);
+    const parsed = parseStructuredOutput(result.text, schema);
+    if (parsed.ok) {
+      return {
+        outputs: buildStructuredOutputs(parsed.value, schema),
+        managedOperations,
+      };
+    }
+    reply = result.text;
+    errors = parsed.errors;
+  }
+  throw new Error(
+    `Text generation node "${context.node.id}" did not return JSON matching its output schema: ${errors.join(" ")}`
+  );
+}
 
 export const textGenerationNode: StudioNodeDefinition = {
   kind: "studio.text_generation",
@@ -17,6 +94,7 @@ export const textGenerationNode: StudioNodeDefinition = {
   configDefaults: {
     systemPrompt: "",
     textDisplayMode: "rendered",
+    outputMode: "text",
   },
   configSchema: {
     fields: [
@@ -27,36 +105,61 @@ export const textGenerationNode: StudioNodeDefinition = {
         required: false,
         placeholder: "Optional system instructions. Supports {{prompt}} placeholder.",
       },
+      {
+        key: "outputMode",
+        label: "Output",
+        type: "select",
+        required: false,
+        options: [
+          { value: "text", label: "Text" },
+          { value: "structured", label: "Structured JSON" },
+        ],
+      },
+      {
+        key: TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY,
+        label: "Output Schema",
+        type: "json_object",
+        required: false,
+        visibleWhen: { key: "outputMode", equals: "structured" },
+      },
     ],
     allowUnknownKeys: true,
   },
   async execute(context) {
+    const structuredSchema = isStructuredOutputMode(context.node.config)
+      ? readStructuredOutputSchema(context.node.config[TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY])
+      : null;
+    if (isStructuredOutputMode(context.node.config) && !structuredSchema) {
+      throw new Error(`Text generation node "${context.node.id}" needs an output schema with top-level properties.`);
+    }
     const lockOutput = context.node.config.lockOutput === true;
     if (lockOutput) {
+      const lockedText = getText(context.node.config.value as StudioJsonValue);
+      if (structuredSchema) {
+        const parsed = parseStructuredOutput(lockedText, structuredSchema);
+        if (!parsed.ok) {
+          throw new Error(
+            `Text generation node "${context.node.id}" has a locked output that does not match its schema: ${parsed.errors.join(" ")}`
+          );
+        }
+        return { outputs: buildStructuredOutputs(parsed.value, structuredSchema) };
+      }
       return {
         outputs: {
-          text: getText(context.node.config.value as StudioJsonValue),
+          text: lockedText,
         },
       };
     }
+    if (structuredSchema) {
+      return await executeStructuredTextGeneration(context, structuredSchema);
+    }
 
     const result = await context.services.api.generateText({
       runId: context.runId,
       nodeId: context.node.id,
       projectPath: context.projectPath,
       signal: context.signal,
-      buildPayload: () => {
-        const structured = parseStructuredPromptInput(context.inputs.prompt);
-        const prompt = structured.prompt.trim();
-        if (!prompt) {
-          throw new Error(`Text generation node "${context.node.id}" requires a prompt input.`);
-        }
-        const configuredTemplate = getText(context.node.config.systemPrompt as StudioJsonValue);
-        const templateVariables = resolveTemplateVariables(context);
-        const configuredSystemPrompt = renderTemplate(configuredTemplate, templateVariables).trim();
-        const systemPrompt = configuredSystemPrompt || structured.systemPrompt.trim() || undefined;
-        return { prompt, systemPrompt };
-      },
+      buildPayload: () => buildTextGenerationPayload(context),
     });
     return {
       outputs: {
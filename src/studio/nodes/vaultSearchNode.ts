@@ -0,0 +1,118 @@
+import type { StudioJsonValue, StudioNodeDefinition, StudioVaultSearchMode } from "../types";
+import { asNumber } from "../utils";
+import { getText } from "./shared";
+
+export const STUDIO_VAULT_SEARCH_NODE_KIND = "studio.vault_search";
+const DEFAULT_VAULT_SEARCH_TOP_K = 5;
+const MAX_VAULT_SEARCH_TOP_K = 50;
+
+function readVaultSearchMode(value: StudioJsonValue | undefined): StudioVaultSearchMode {
+  const mode = getText(value).trim();
+  return mode === "lexical" || mode === "semantic" ? mode : "hybrid";
+}
+
+function readVaultSearchTags(value: StudioJsonValue | undefined): string[] {
+  const entries = Array.isArray(value) ? value : getText(value).split(",");
+  return entries.map((entry) => getText(entry as StudioJsonValue).trim()).filter((entry) => entry.length > 0);
+}
+
+function formatVaultSearchContent(notes: Array<{ path: string; text: string }>): string {
+  return notes.map((note) => `# ${note.path}\n\n${note.text.trim()}`).join("\n\n---\n\n");
+}
+
+export const vaultSearchNode: StudioNodeDefinition = {
+  kind: STUDIO_VAULT_SEARCH_NODE_KIND,
+  version: "1.0.0",
+  requiredHostCapabilities: [],
+  capabilityClass: "local_io",
+  cachePolicy: "never",
+  inputPorts: [{ id: "query", type: "text", required: true }],
+  outputPorts: [
+    { id: "paths", type: "json" },
+    { id: "excerpts", type: "json" },
+    { id: "scores", type: "json" },
+    { id: "content", type: "text" },
+  ],
+  configDefaults: {
+    mode: "hybrid",
+    topK: DEFAULT_VAULT_SEARCH_TOP_K,
+  },
+  configSchema: {
+    fields: [
+      {
+        key: "mode",
+        label: "Mode",
+        type: "select",
+        required: false,
+        options: [
+          { value: "hybrid", label: "Hybrid" },
+          { value: "lexical", label: "Keywords" },
+          { value: "semantic", label: "Meaning" },
+        ],
+      },
+      {
+        key: "topK",
+        label: "Results",
+        type: "number",
+        required: false,
+        min: 1,
+        max: MAX_VAULT_SEARCH_TOP_K,
+        integer: true,
+      },
+      {
+        key: "folder",
+        label: "Folder",
+        type: "text",
+        required: false,
+        placeholder: "Projects/Atlas",
+      },
+      {
+        key: "tags",
+        label: "Tags",
+        type: "string_list",
+        required: false,
+      },
+    ],
+    allowUnknownKeys: true,
+  },
+  async execute(context) {
+    const searchVault = context.services.searchVault;
+    if (!searchVault) {
+      throw new Error("Vault search node requires the Studio runtime's vault search.");
+    }
+    const query = getText((context.inputs as Record<string, StudioJsonValue>).query).trim();
+    if (!query) {
+      throw new Error(`Vault search node "${context.node.id}" requires a query input.`);
+    }
+    const configuredTopK = asNumber(context.node.config.topK) ?? DEFAULT_VAULT_SEARCH_TOP_K;
+    const hits = await searchVault({
+      query,
+      mode: readVaultSearchMode(context.node.config.mode),
+      limit: Math.max(1, Math.min(Math.floor(configuredTopK), MAX_VAULT_SEARCH_TOP_K)),
+      folder: getText(context.node.config.folder).trim(),
+      tags: readVaultSearchTags(context.node.config.tags),
+      // Notes outside the project's filesystem grants never reach the outputs.
+      isPathAllowed: (path) => {
+        try {
+          context.services.assertFilesystemPath(path);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      signal: context.signal,
+    });
+
+    const notes = await Promise.all(
+      hits.map(async (hit) => ({ path: hit.path, text: await context.services.readVaultText(hit.path) }))
+    );
+    return {
+      outputs: {
+        paths: hits.map((hit) => hit.path),
+        excerpts: hits.map((hit) => hit.excerpt),
+        scores: hits.map((hit) => Math.round(hit.score * 1000) / 1000),
+        content: formatVaultSearchContent(notes),
+      },
+    };
+  },
+};
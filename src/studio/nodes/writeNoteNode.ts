@@ -0,0 +1,316 @@
+import { normalizePath } from "obsidian";
+import YAML from "yaml";
+import type { StudioJsonValue, StudioNodeDefinition, StudioNodeExecutionServices } from "../types";
+import { isRecord } from "../utils";
+import { getText } from "./shared";
+
+type WriteNoteMode = "create" | "append" | "prepend" | "replace_section";
+type WriteNoteCollision = "increment" | "overwrite" | "skip" | "fail";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g;
+const UNSAFE_PATH_CHARACTERS = /[\\:*?"<>|]/g;
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function readTemplateValues(value: StudioJsonValue | undefined): Record<string, StudioJsonValue> {
+  if (typeof value === "string" && value.trim().startsWith("{")) {
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      return isRecord(parsed) ? (parsed as Record<string, StudioJsonValue>) : {};
+    } catch {
+      return {};
+    }
+  }
+  return isRecord(value) ? (value as Record<string, StudioJsonValue>) : {};
+}
+
+function lookupTemplateValue(values: Record<string, StudioJsonValue>, key: string): StudioJsonValue | undefined {
+  let current: StudioJsonValue | undefined = values;
+  for (const segment of key.split(".")) {
+    if (!isRecord(current)) {
+      return undefined;
+    }
+    current = (current as Record<string, StudioJsonValue>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Fill `{{date}}` (YYYY-MM-DD), `{{time}}` (HH-mm), and `{{field}}` or
+ * `{{field.nested}}` placeholders from the values input. Values win over the
+ * built-ins so a graph can supply its own date. Unknown placeholders throw so
+ * a typo never lands in a file name.
+ */
+export function renderWriteNoteTemplate(
+  template: string,
+  values: Record<string, StudioJsonValue>,
+  now: Date,
+  options?: { pathSafe?: boolean }
+): string {
+  const builtIns: Record<string, string> = {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}-${pad(now.getMinutes())}`,
+  };
+  return template.replace(PLACEHOLDER_PATTERN, (_match, key: string) => {
+    const value = lookupTemplateValue(values, key);
+    if (typeof value === "undefined" && !(key in builtIns)) {
+      throw new Error(`Unknown placeholder {{${key}}}. Provide it through the values input.`);
+    }
+    const text = typeof value === "undefined" ? builtIns[key] : getText(value);
+    return options?.pathSafe ? text.replace(UNSAFE_PATH_CHARACTERS, "-") : text;
+  });
+}
+
+function renderFrontmatterValue(
+  value: StudioJsonValue,
+  values: Record<string, StudioJsonValue>,
+  now: Date
+): StudioJsonValue {
+  if (typeof value === "string") {
+    return renderWriteNoteTemplate(value, values, now);
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => renderFrontmatterValue(entry, values, now));
+  }
+  return value;
+}
+
+export function splitNoteFrontmatter(text: string): { properties: Record<string, unknown>; body: string } {
+  const match = text.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { properties: {}, body: text };
+  }
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(match[1]);
+  } catch {
+    throw new Error("The note's existing frontmatter is not valid YAML.");
+  }
+  return {
+    properties: isRecord(parsed) ? parsed : {},
+    body: text.slice(match[0].length),
+  };
+}
+
+/** Merge properties into a note's frontmatter; other existing properties are kept. */
+export function mergeNoteFrontmatter(text: string, properties: Record<string, StudioJsonValue>): string {
+  if (Object.keys(properties).length === 0) {
+    return text;
+  }
+  const existing = splitNoteFrontmatter(text);
+  const merged = { ...existing.properties, ...properties };
+  return `---\n${YAML.stringify(merged)}---\n${existing.body}`;
+}
+
+function joinBlocks(first: string, second: string): string {
+  if (!first.trim()) return second;
+  if (!second.trim()) return first;
+  return `${first.replace(/\s+$/, "")}\n\n${second.replace(/^\s+/, "")}`;
+}
+
+/**
+ * Replace the body of the first heading whose text matches `section`, up to
+ * the next heading of the same or a higher level. A missing section is added
+ * at the end as a level-2 heading.
+ */
+export function replaceNoteSection(text: string, section: string, content: string): string {
+  const target = section.replace(/^#+\s*/, "").trim().toLowerCase();
+  const lines = text.split("\n");
+  const start = lines.findIndex((line) => {
+    const heading = line.match(HEADING_PATTERN);
+    return heading !== null && heading[2].trim().toLowerCase() === target;
+  });
+  if (start < 0) {
+    return joinBlocks(text, `## ${section.replace(/^#+\s*/, "").trim()}\n\n${content}`);
+  }
+  const level = lines[start].match(HEADING_PATTERN)![1].length;
+  let end = start + 1;
+  while (end < lines.length) {
+    const heading = lines[end].match(HEADING_PATTERN);
+    if (heading && heading[1].length <= level) break;
+    end += 1;
+  }
+  const trailing = end < lines.length ? ["", ...lines.slice(end)] : [];
+  return [...lines.slice(0, start + 1), "", content.replace(/\s+$/, ""), ...trailing].join("\n");
+}
+
+function applyWriteMode(existing: string, content: string, mode: WriteNoteMode, section: string): string {
+  switch (mode) {
+    case "append":
+      return joinBlocks(existing, content);
+    case "prepend": {
+      const match = existing.match(FRONTMATTER_PATTERN);
+      const frontmatter = match ? match[0] : "";
+      return `${frontmatter}${joinBlocks(content, existing.slice(frontmatter.length))}`;
+    }
+    case "replace_section":
+      return replaceNoteSection(existing, section, content);
+    case "create":
+      return content;
+  }
+}
+
+function readMode(value: StudioJsonValue | undefined): WriteNoteMode {
+  const mode = getText(value).trim();
+  return mode === "append" || mode === "prepend" || mode === "replace_section" ? mode : "create";
+}
+
+function readCollision(value: StudioJsonValue | undefined): WriteNoteCollision {
+  const collision = getText(value).trim();
+  return collision === "overwrite" || collision === "skip" || collision === "fail" ? collision : "increment";
+}
+
+function toNotePath(rawPath: string): string {
+  const trimmed = rawPath.trim();
+  if (!trimmed) {
+    throw new Error("Write Note node requires a note path.");
+  }
+  return normalizePath(trimmed.toLowerCase().endsWith(".md") ? trimmed : `${trimmed}.md`);
+}
+
+function nextAvailablePath(path: string, services: StudioNodeExecutionServices): string {
+  const base = path.slice(0, -".md".length);
+  let attempt = 1;
+  while (services.vaultFileExists(`${base} ${attempt}.md`)) {
+    attempt += 1;
+  }
+  return `${base} ${attempt}.md`;
+}
+
+export const writeNoteNode: StudioNodeDefinition = {
+  kind: "studio.write_note",
+  version: "1.0.0",
+  requiredHostCapabilities: [],
+  capabilityClass: "local_io",
+  cachePolicy: "never",
+  inputPorts: [
+    { id: "content", type: "text", required: true },
+    {
+      id: "values",
+      type: "any",
+      required: false,
+      description: "Object whose fields fill {{field}} placeholders.",
+    },
+  ],
+  outputPorts: [
+    { id: "path", type: "text" },
+    { id: "text", type: "text" },
+    { id: "status", type: "text" },
+  ],
+  configDefaults: {
+    pathTemplate: "Studio Notes/{{date}}.md",
+    mode: "create",
+    section: "",
+    collision: "increment",
+    frontmatter: {},
+    dryRun: false,
+  },
+  configSchema: {
+    fields: [
+      {
+        key: "pathTemplate",
+        label: "Note Path",
+        description: "Supports {{date}}, {{time}}, and {{field}} from values.",
+        type: "text",
+        required: true,
+        placeholder: "Daily/{{date}}.md",
+      },
+      {
+        key: "mode",
+        label: "Mode",
+        type: "select",
+        required: true,
+        options: [
+          { value: "create", label: "Create note" },
+          { value: "append", label: "Append to note" },
+          { value: "prepend", label: "Prepend to note" },
+          { value: "replace_section", label: "Replace section" },
+        ],
+      },
+      {
+        key: "section",
+        label: "Section Heading",
+        description: "Heading whose content is replaced; added when missing.",
+        type: "text",
+        required: false,
+        placeholder: "Summary",
+        visibleWhen: { key: "mode", equals: "replace_section" },
+      },
+      {
+        key: "collision",
+        label: "If Note Exists",
+        type: "select",
+        required: false,
+        options: [
+          { value: "increment", label: "Create a numbered copy" },
+          { value: "overwrite", label: "Overwrite" },
+          { value: "skip", label: "Skip" },
+          { value: "fail", label: "Fail the run" },
+        ],
+        visibleWhen: { key: "mode", equals: "create" },
+      },
+      {
+        key: "frontmatter",
+        label: "Properties",
+        description: "Frontmatter to merge. Text values support placeholders.",
+        type: "json_object",
+        required: false,
+      },
+      {
+        key: "dryRun",
+        label: "Dry Run",
+        type: "boolean",
+        required: false,
+      },
+    ],
+    allowUnknownKeys: true,
+  },
+  async execute(context) {
+    const config = context.node.config as Record<string, StudioJsonValue>;
+    const inputs = context.inputs as Record<string, StudioJsonValue>;
+    const { services } = context;
+    const values = readTemplateValues(inputs.values);
+    const now = new Date();
+    const mode = readMode(config.mode);
+    const collision = readCollision(config.collision);
+    const section = getText(config.section).trim();
+    if (mode === "replace_section" && !section) {
+      throw new Error("Write Note node needs a section heading in replace section mode.");
+    }
+    const content = getText(inputs.content);
+    const properties = Object.fromEntries(
+      Object.entries(isRecord(config.frontmatter) ? (config.frontmatter as Record<string, StudioJsonValue>) : {})
+        .map(([key, value]) => [key, renderFrontmatterValue(value, values, now)])
+    );
+
+    let path = toNotePath(renderWriteNoteTemplate(getText(config.pathTemplate), values, now, { pathSafe: true }));
+    services.assertFilesystemPath(path);
+    const exists = services.vaultFileExists(path);
+    if (exists && mode === "create") {
+      if (collision === "fail") {
+        throw new Error(`Note already exists: ${path}`);
+      }
+      if (collision === "skip") {
+        return { outputs: { path, text: await services.readVaultText(path), status: "skipped" } };
+      }
+      if (collision === "increment") {
+        path = nextAvailablePath(path, services);
+      }
+    }
+
+    const render = (existing: string) =>
+      mergeNoteFrontmatter(applyWriteMode(existing, content, mode, section), properties);
+    const created = !services.vaultFileExists(path);
+    if (config.dryRun === true) {
+      const existing = exists && mode !== "create" ? await services.readVaultText(path) : "";
+      return { outputs: { path, text: render(existing), status: "preview" } };
+    }
+    // Append, prepend and section modes build on the note as it is at write time.
+    const text = await services.writeVaultText(path, (current) => render(mode === "create" ? "" : current ?? ""));
+    return { outputs: { path, text, status: created ? "created" : "updated" } };
+  },
+};
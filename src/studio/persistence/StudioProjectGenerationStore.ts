@@ -68,6 +68,10 @@ export type StudioProjectGenerationCreateCommand = {
   projectDocument: Uint8Array;
   policyDocument: Uint8Array;
   projectManifest: Uint8Array;
+  /** Content a new project starts with, such as an imported bundle's files. */
+  assets?: readonly StudioAssetGenerationFile[];
+  supportFiles?: readonly StudioSupportGenerationFile[];
+  cacheDocument?: Uint8Array;
 };
 export type StudioProjectGenerationCommand =
   | { kind: "replace_project"; projectId: string; projectDocument: Uint8Array; reason: "discrete_save" | "autosave" | "migration" | "repair" }
@@ -362,6 +366,9 @@ export class StudioProjectGenerationStore {
           ["support/policy/grants.json", command.policyDocument.slice()],
           ["support/project.manifest.json", command.projectManifest.slice()],
         ]);
+        for (const asset of command.assets ?? []) files.set(assetGenerationPath(asset.contentAddressedPath), asset.bytes.slice());
+        for (const file of command.supportFiles ?? []) files.set(supportGenerationPath(file.supportRelativePath), file.bytes.slice());
+        if (command.cacheDocument) files.set("support/cache/node-results.json", command.cacheDocument.slice());
         return this.publish(command.projectId, files, null, "create", validateProjectionLocator(locatorInput));
       } catch (error) { return { status: "invalid_candidate", message: String(error) }; }
     });
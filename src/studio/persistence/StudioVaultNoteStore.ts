@@ -0,0 +1,46 @@
+import { TFile, TFolder, type Vault } from "obsidian";
+
+/**
+ * Writes user notes for Studio nodes. Updates go through `Vault.process`, so
+ * the new text is built from the note as it is at write time and edits made
+ * while a run was busy are not overwritten.
+ */
+export class StudioVaultNoteStore {
+  constructor(private readonly vault: Vault) {}
+
+  /**
+   * Creates or updates a markdown note, creating missing parent folders.
+   * `update` receives the current text, or null for a new note, and returns
+   * the text to store; that text is returned.
+   */
+  async save(vaultPath: string, update: (current: string | null) => string): Promise<string> {
+    if (!vaultPath.toLowerCase().endsWith(".md")) {
+      throw new Error(`Vault markdown file required: ${vaultPath}`);
+    }
+    const existing = this.vault.getAbstractFileByPath(vaultPath);
+    if (existing instanceof TFile) {
+      let written = "";
+      await this.vault.process(existing, (current) => {
+        written = update(current);
+        return written;
+      });
+      return written;
+    }
+    if (existing) {
+      throw new Error(`Vault path is a folder, not a note: ${vaultPath}`);
+    }
+    const segments = vaultPath.split("/").slice(0, -1);
+    for (let index = 1; index <= segments.length; index += 1) {
+      const folder = segments.slice(0, index).join("/");
+      const entry = this.vault.getAbstractFileByPath(folder);
+      if (entry instanceof TFolder) continue;
+      if (entry) {
+        throw new Error(`Vault path is a file, not a folder: ${folder}`);
+      }
+      await this.vault.createFolder(folder);
+    }
+    const text = update(null);
+    await this.vault.create(vaultPath, text);
+    return text;
+  }
+}
@@ -18,6 +18,7 @@ import {
 } from "./utils";
 import { TEXT_NODE_KINDS_MIGRATION_ID } from "./StudioGraphMigrations";
 import { createAgentFacingStudioProjectDocument } from "./StudioProjectAgentContract";
+import { parseStudioProjectTriggers } from "./StudioProjectTriggers";
 
 const DEFAULT_MAX_RUNS = 100;
 const DEFAULT_MAX_ARTIFACTS_MB = 1024;
@@ -225,6 +226,8 @@ function readProjectV1(raw: Record<string, unknown>): StudioProjectV1 {
     Math.floor(asNumber(retentionRaw.maxArtifactsMb) ?? DEFAULT_MAX_ARTIFACTS_MB)
   );
 
+  const triggers = parseStudioProjectTriggers((settingsRaw as Record<string, unknown>).triggers);
+
   const project: StudioProjectV1 = {
     schema: STUDIO_PROJECT_SCHEMA_V1,
     projectId,
@@ -252,6 +255,7 @@ function readProjectV1(raw: Record<string, unknown>): StudioProjectV1 {
         maxRuns,
         maxArtifactsMb,
       },
+      ...(triggers.length > 0 ? { triggers } : {}),
     },
     migrations: {
       projectSchemaVersion: "1.0.0",
@@ -198,6 +198,7 @@ export type StudioProjectV1 = {
       maxRuns: number;
       maxArtifactsMb: number;
     };
+    triggers?: StudioProjectTrigger[];
   };
   migrations: {
     projectSchemaVersion: string;
@@ -207,6 +208,32 @@ export type StudioProjectV1 = {
 
 export type StudioProject = StudioProjectV1;
 
+/**
+ * Starts a project run without the command palette. Schedules use five-field
+ * cron syntax in local time and only fire while Obsidian is open; `catchUp`
+ * decides whether a time missed while the app was closed runs once on launch.
+ */
+export type StudioProjectTrigger =
+  | { id: string; type: "schedule"; enabled: boolean; cron: string; catchUp: "skip" | "run_once" }
+  | { id: string; type: "file"; enabled: boolean; folder: string; events: Array<"created" | "modified"> }
+  | { id: string; type: "tag"; enabled: boolean; tag: string };
+
+export type StudioProjectTriggerType = StudioProjectTrigger["type"];
+
+export type StudioRunTrigger = {
+  triggerId: string;
+  type: StudioProjectTriggerType;
+  detail?: string;
+};
+
+export type StudioRunQueueEntry = {
+  runId: string;
+  projectPath: string;
+  state: "running" | "queued";
+  queuedAt: string;
+  trigger?: StudioRunTrigger;
+};
+
 export type StudioProjectLintResult =
   | {
       ok: true;
@@ -232,6 +259,12 @@ export type StudioRunSnapshotV1 = {
   createdAt: string;
   project: StudioProjectV1;
   policy: StudioPermissionPolicyV1;
+  /**
+   * The graph as authored, before run scoping and subproject expansion.
+   * `project.graph` is what executed; restoring the canvas uses this one.
+   * Missing on snapshots written before graph restore existed.
+   */
+  sourceGraph?: StudioGraph;
 };
 
 export type StudioRunEvent =
@@ -250,7 +283,22 @@ export type StudioRunEvent =
       managedOperations?: StudioManagedOperationRef[];
       at: string;
     }
-  | { type: "node.failed"; runId: string; nodeId: string; error: string; errorStack?: string; at: string };
+  | { type: "node.failed"; runId: string; nodeId: string; error: string; errorStack?: string; at: string }
+  | { type: "node.skipped"; runId: string; nodeId: string; reason: "branch_not_taken" | "map_disabled"; at: string }
+  | {
+      /** Progress of a node inside a project node; `label` is that inner node's title. */
+      type: "node.nested";
+      runId: string;
+      nodeId: string;
+      label: string;
+      event: StudioNodeScopedRunEvent;
+      at: string;
+    };
+
+export type StudioNodeScopedRunEvent = Extract<
+  StudioRunEvent,
+  { type: "node.started" | "node.cache_hit" | "node.output" | "node.failed" | "node.skipped" }
+>;
 
 export type StudioNodeResult = {
   outputs: StudioNodeOutputMap;
@@ -260,6 +308,15 @@ export type StudioNodeResult = {
 
 export type StudioNodeCachePolicy = "by_inputs" | "never";
 
+/**
+ * `route` nodes emit only the output ports they take; edges from the other
+ * ports are dead and their targets are skipped. `merge` nodes run when at
+ * least one inbound edge is live instead of requiring all of them. `map`
+ * nodes own the nodes of a referenced group and run them once per element
+ * through `services.mapGroup`.
+ */
+export type StudioNodeControlFlow = "route" | "merge" | "map";
+
 export type StudioNodeCacheEntry = {
   nodeId: string;
   nodeKind: string;
@@ -288,6 +345,8 @@ export type StudioTextGenerationRequest = {
   nodeId: string;
   projectPath: string;
   signal: AbortSignal;
+  /** Repair attempts for structured output count from 1; the first request omits it. */
+  attempt?: number;
   buildPayload: () => Promise<{ prompt: string; systemPrompt?: string }> | { prompt: string; systemPrompt?: string };
 };
 
@@ -362,12 +421,40 @@ export interface StudioApiAdapter {
   completeLocalCommit(operations: readonly StudioManagedOperationRef[], signal?: AbortSignal): Promise<void>;
 }
 
+export type StudioVaultSearchMode = "hybrid" | "lexical" | "semantic";
+
+export type StudioVaultSearchRequest = {
+  query: string;
+  mode: StudioVaultSearchMode;
+  limit: number;
+  /** Vault folder the results must sit in; empty searches the whole vault. */
+  folder: string;
+  /** Results need at least one of these tags (nested tags count); empty skips the check. */
+  tags: string[];
+  /** The project's filesystem grants; refused notes do not count toward `limit`. */
+  isPathAllowed: (path: string) => boolean;
+  signal: AbortSignal;
+};
+
+export type StudioVaultSearchHit = {
+  path: string;
+  excerpt: string;
+  score: number;
+};
+
 export interface StudioNodeExecutionServices {
   api: StudioApiAdapter;
   storeAsset: (bytes: ArrayBuffer, mimeType: string) => Promise<StudioAssetRef>;
   readAsset: (asset: StudioAssetRef) => Promise<ArrayBuffer>;
   resolveAbsolutePath: (path: string) => string;
   readVaultText: (vaultPath: string) => Promise<string>;
+  vaultFileExists: (vaultPath: string) => boolean;
+  /**
+   * Create or update a vault note, creating missing parent folders. `update`
+   * gets the note's text at write time (null when it is new) and returns the
+   * text to store, which is returned.
+   */
+  writeVaultText: (vaultPath: string, update: (current: string | null) => string) => Promise<string>;
   statVaultFileSize: (vaultPath: string) => Promise<number>;
   readVaultBinary: (vaultPath: string) => Promise<ArrayBuffer>;
   statLocalFileSize: (absolutePath: string) => Promise<number>;
@@ -382,8 +469,17 @@ export interface StudioNodeExecutionServices {
   deleteLocalFile: (absolutePath: string) => Promise<void>;
   runCli: (request: StudioCliExecutionRequest) => Promise<StudioCliExecutionResult>;
   assertFilesystemPath: (path: string) => void;
+  mapGroup?: StudioMapGroupService;
+  searchVault?: (request: StudioVaultSearchRequest) => Promise<StudioVaultSearchHit[]>;
 }
 
+export type StudioMapGroupService = {
+  /** Upper bound on elements in flight, derived from the group's node classes. */
+  concurrency: number;
+  /** Run the group for one element and return its result value. */
+  runItem: (item: StudioJsonValue, index: number) => Promise<StudioJsonValue>;
+};
+
 export type StudioNodeExecutionContext = {
   runId: string;
   projectPath: string;
@@ -401,6 +497,7 @@ export type StudioNodeDefinition<TConfig = Record<string, StudioJsonValue>> = {
   requiredHostCapabilities: readonly HostCapability[];
   capabilityClass: StudioNodeCapabilityClass;
   cachePolicy?: StudioNodeCachePolicy;
+  controlFlow?: StudioNodeControlFlow;
   inputPorts: StudioPortDefinition[];
   outputPorts: StudioPortDefinition[];
   configDefaults: TConfig;
@@ -414,6 +511,7 @@ export type StudioRunOptions = {
   entryNodeIds?: string[];
   forceNodeIds?: string[];
   onEvent?: StudioRunEventHandler;
+  trigger?: StudioRunTrigger;
 };
 
 export type StudioRunSummary = {
@@ -424,4 +522,6 @@ export type StudioRunSummary = {
   error: string | null;
   executedNodeIds?: string[];
   cachedNodeIds?: string[];
+  skippedNodeIds?: string[];
+  trigger?: StudioRunTrigger;
 };
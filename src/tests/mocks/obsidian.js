@@ -383,6 +383,11 @@ class Plugin extends Component {
     this._editorExtensions.push(extension);
     return extension;
   }
+
+  registerObsidianProtocolHandler(action, handler) {
+    this._protocolHandlers = this._protocolHandlers || new Map();
+    this._protocolHandlers.set(action, handler);
+  }
 }
 
 class WorkspaceLeaf {
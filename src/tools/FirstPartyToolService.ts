@@ -109,6 +109,12 @@ export class FirstPartyToolService {
       case "write":
       case "edit":
         return typeof input.path === "string" ? { ...input, path: mapPath(input.path) } : args;
+      case "semantic_search":
+        return {
+          ...input,
+          ...(typeof input.similarTo === "string" ? { similarTo: mapPath(input.similarTo) } : {}),
+          ...(typeof input.folder === "string" ? { folder: mapPath(input.folder) } : {}),
+        };
       case "multi_edit":
         return Array.isArray(input.files)
           ? {
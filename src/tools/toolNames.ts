@@ -9,6 +9,7 @@ export const FIRST_PARTY_TOOL_NAMES = [
   "trash",
   "find",
   "search",
+  "semantic_search",
   "open",
   "context",
 ] as const;
@@ -16,6 +16,7 @@ import {
   TrashFilesParams,
   FindFilesParams,
   GrepVaultParams,
+  SemanticSearchParams,
   ManageWorkspaceParams,
   ManageContextParams
 } from "./types";
@@ -97,6 +98,8 @@ export class VaultToolModule {
         return await this.searchOps.findFiles(args as FindFilesParams);
       case "search":
         return await this.searchOps.grepVault(args as GrepVaultParams);
+      case "semantic_search":
+        return await this.searchOps.semanticSearch(args as SemanticSearchParams);
       case "open":
         return await this.managementOps.manageWorkspace(args as ManageWorkspaceParams);
       case "context":
@@ -800,4 +800,123 @@ Body content here`;
       expect((app.vault.cachedRead as jest.Mock).mock.calls[0][0].path).toBe("notes/test.md");
     });
   });
+
+  describe("semanticSearch", () => {
+    const semanticResult = (path: string, score: number, headingPath?: string[]) => ({
+      path,
+      score,
+      chunkId: 1,
+      metadata: {
+        title: path,
+        excerpt: `Excerpt from ${path}`,
+        lastModified: 0,
+        ...(headingPath ? { headingPath, sectionTitle: headingPath.join(" › ") } : {}),
+      },
+    });
+    let index: any;
+
+    beforeEach(() => {
+      index = {
+        searchSimilar: jest.fn().mockResolvedValue([]),
+        findSimilar: jest.fn().mockResolvedValue([]),
+        getLifecycleSnapshot: jest.fn().mockReturnValue({ ready: true, completed: 3, total: 3, pending: 0 }),
+        hasAnyEmbeddings: jest.fn().mockReturnValue(true),
+      };
+      plugin.settings.embeddingsEnabled = true;
+      plugin.embeddingsManager = index;
+    });
+
+    it("requires exactly one of query or similarTo", async () => {
+      await expect(searchOps.semanticSearch({})).rejects.toThrow("Provide either 'query'");
+      await expect(searchOps.semanticSearch({ query: "a", similarTo: "notes/test.md" }))
+        .rejects.toThrow("Provide only one");
+    });
+
+    it("returns heading-level chunk results for a text query", async () => {
+      index.searchSimilar.mockResolvedValue([
+        semanticResult("notes/test.md", 0.91234, ["Pricing", "Enterprise"]),
+      ]);
+
+      const result = await searchOps.semanticSearch({ query: "how we price big customers", limit: 3 });
+
+      expect(index.searchSimilar).toHaveBeenCalledWith("how we price big customers", 3);
+      expect(result).toMatchObject({
+        mode: "query",
+        status: "ok",
+        results: [{
+          path: "notes/test.md",
+          score: 0.912,
+          headingPath: ["Pricing", "Enterprise"],
+          excerpt: "Excerpt from notes/test.md",
+          chunkId: 1,
+        }],
+      });
+    });
+
+    it("finds notes similar to a path and filters by folder", async () => {
+      index.findSimilar.mockResolvedValue([
+        semanticResult("archive/old.md", 0.8),
+        semanticResult("projects/code.md", 0.7),
+      ]);
+
+      const result = await searchOps.semanticSearch({
+        similarTo: "notes/test.md",
+        folder: "projects",
+        limit: 2,
+      });
+
+      expect(index.findSimilar).toHaveBeenCalledWith("notes/test.md", 10);
+      expect(result.mode).toBe("similar");
+      expect(result.folder).toBe("projects");
+      expect(result.results.map((entry: any) => entry.path)).toEqual(["projects/code.md"]);
+      expect(result.results[0].headingPath).toEqual([]);
+    });
+
+    it("drops results outside the allowed paths", async () => {
+      const restrictedSearch = new SearchOperations(app, ["notes"], plugin);
+      index.searchSimilar.mockResolvedValue([
+        semanticResult("archive/old.md", 0.8),
+        semanticResult("notes/test.md", 0.7),
+      ]);
+
+      const result = await restrictedSearch.semanticSearch({ query: "test" });
+
+      expect(result.results.map((entry: any) => entry.path)).toEqual(["notes/test.md"]);
+    });
+
+    it("reports a disabled index without querying it", async () => {
+      plugin.settings.embeddingsEnabled = false;
+
+      const result = await searchOps.semanticSearch({ query: "test" });
+
+      expect(result).toMatchObject({ status: "disabled", results: [] });
+      expect(result.note).toContain("embeddings are turned off");
+      expect(index.searchSimilar).not.toHaveBeenCalled();
+    });
+
+    it("reports an index that is still building", async () => {
+      index.hasAnyEmbeddings.mockReturnValue(false);
+      index.getLifecycleSnapshot.mockReturnValue({ ready: false, completed: 1, total: 40, pending: 39 });
+
+      const result = await searchOps.semanticSearch({ query: "test" });
+
+      expect(result).toMatchObject({
+        status: "building",
+        results: [],
+        index: { completed: 1, total: 40, pending: 39 },
+      });
+      expect(index.searchSimilar).not.toHaveBeenCalled();
+    });
+
+    it("marks results as partial while the index is still updating", async () => {
+      index.getLifecycleSnapshot.mockReturnValue({ ready: true, completed: 30, total: 40, pending: 10 });
+      index.searchSimilar.mockResolvedValue([semanticResult("notes/test.md", 0.5)]);
+
+      const result = await searchOps.semanticSearch({ query: "test" });
+
+      expect(result.status).toBe("partial");
+      expect(result.results).toHaveLength(1);
+      expect(result.note).toContain("still updating");
+    });
+  });
 });
@@ -24,6 +24,7 @@ const mockMoveItems = jest.fn();
 const mockTrashFiles = jest.fn();
 const mockFindFiles = jest.fn();
 const mockGrepVault = jest.fn();
+const mockSemanticSearch = jest.fn();
 const mockManageWorkspace = jest.fn();
 const mockManageContext = jest.fn();
 
@@ -49,6 +50,7 @@ jest.mock("../tools/SearchOperations", () => ({
   SearchOperations: jest.fn().mockImplementation(() => ({
     findFiles: mockFindFiles,
     grepVault: mockGrepVault,
+    semanticSearch: mockSemanticSearch,
   })),
 }));
 
@@ -298,6 +300,18 @@ describe("VaultToolModule", () => {
       });
     });
 
+    describe("semantic_search tool", () => {
+      it("calls semanticSearch with correct params", async () => {
+        const params = { query: "pricing strategy", limit: 5 };
+        mockSemanticSearch.mockResolvedValue({ status: "ok", results: [] });
+
+        const result = await server.executeTool("semantic_search", params);
+
+        expect(mockSemanticSearch).toHaveBeenCalledWith(params);
+        expect(result).toEqual({ status: "ok", results: [] });
+      });
+    });
+
     describe("open tool", () => {
       it("calls manageWorkspace with correct params", async () => {
         const params = { path: "test.md", action: "open" };
@@ -11,6 +11,7 @@ export const FILESYSTEM_LIMITS = {
   DEFAULT_LIST_PAGE_SIZE: 25,
   MAX_LIST_PAGE_SIZE: 50,
   MAX_SEARCH_RESULTS: 25, // Global results cap for search-type tools (grep/find/etc.)
+  DEFAULT_SEMANTIC_RESULTS: 10, // Default result count for semantic_search
   MAX_FILE_SIZE: 200000, // 200KB max file size for processing
   MAX_CONTENT_SIZE: 250000, // 250KB max content size for writing
   HARD_LIMIT: 25000, // Same as MAX_FILE_READ_LENGTH – absolute per-window cap
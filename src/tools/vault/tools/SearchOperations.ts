@@ -1,5 +1,5 @@
 import { App, TFile, TFolder, normalizePath } from "obsidian";
-import { FindFilesParams, GrepVaultParams } from "../types";
+import { FindFilesParams, GrepVaultParams, SemanticSearchParams } from "../types";
 import { FILESYSTEM_LIMITS } from "../constants";
 import { countTextTokens } from "../../../utils/tokenCounting";
 import {
@@ -15,10 +15,19 @@ import {
 } from "../utils";
 import { extractSearchTerms, calculateScore, sortByScore, formatScoredResults, ScoredResult } from "../searchScoring";
 import SystemSculptPlugin from "../../../main";
+import type { EmbeddingsManager } from "../../../services/embeddings/EmbeddingsManager";
+import type { SearchResult } from "../../../services/embeddings/types";
 
 type CompiledSearchPattern = Readonly<{ raw: string; source: string }>;
 const MAX_SEARCH_SCOPE_PATHS = 64;
 const MAX_SEARCH_SCOPE_PATH_LENGTH = 1024;
+const MAX_SEMANTIC_QUERY_LENGTH = 2000;
+const SEMANTIC_FOLDER_OVERFETCH = 5;
+
+type SemanticSearchIndex = Pick<
+  EmbeddingsManager,
+  "searchSimilar" | "findSimilar" | "getLifecycleSnapshot" | "hasAnyEmbeddings"
+>;
 
 function compileSearchPatterns(
   patterns: string[],
@@ -879,4 +888,119 @@ export class SearchOperations {
     return response;
   }
 
+  /**
+   * Search the semantic index by meaning instead of keywords. Results are the
+   * best-matching heading-level chunk per note. A disabled or still-building
+   * index returns an explicit status so the model can fall back to `search`.
+   */
+  async semanticSearch(params: SemanticSearchParams): Promise<any> {
+    const query = typeof params?.query === "string" ? params.query.trim() : "";
+    const similarTo = typeof params?.similarTo === "string"
+      ? normalizePath(normalizeVaultPath(params.similarTo.trim()))
+      : "";
+    if (!query && !similarTo) {
+      throw new Error("Provide either 'query' (text to search for) or 'similarTo' (a vault note path).");
+    }
+    if (query && similarTo) {
+      throw new Error("Provide only one of 'query' or 'similarTo'.");
+    }
+    if (query.length > MAX_SEMANTIC_QUERY_LENGTH) {
+      throw new Error(`Semantic search 'query' must be no longer than ${MAX_SEMANTIC_QUERY_LENGTH} characters.`);
+    }
+    if (similarTo && !this.isAllowedPath(similarTo)) {
+      throw new Error(`Access denied: ${similarTo}`);
+    }
+
+    const rawLimit = Number(params?.limit ?? FILESYSTEM_LIMITS.DEFAULT_SEMANTIC_RESULTS);
+    const limit = Number.isFinite(rawLimit)
+      ? Math.min(FILESYSTEM_LIMITS.MAX_SEARCH_RESULTS, Math.max(1, Math.floor(rawLimit)))
+      : FILESYSTEM_LIMITS.DEFAULT_SEMANTIC_RESULTS;
+    const folderScope = typeof params?.folder === "string" && params.folder.trim().length > 0
+      ? this.normalizeSearchPaths([params.folder])
+      : null;
+
+    const base = {
+      mode: query ? "query" : "similar",
+      ...(query ? { query } : { similarTo }),
+      ...(folderScope ? { folder: folderScope[0] || "." } : {}),
+    };
+
+    if (this.plugin.settings.embeddingsEnabled !== true) {
+      return {
+        ...base,
+        status: "disabled",
+        results: [],
+        note: "Semantic search is unavailable because embeddings are turned off in Settings > SystemSculpt AI > Knowledge. Use 'search' for keyword matches instead.",
+      };
+    }
+
+    const index = this.getSemanticIndex();
+    if (!index) {
+      return {
+        ...base,
+        status: "unavailable",
+        results: [],
+        note: "The semantic index could not be started. Use 'search' for keyword matches instead.",
+      };
+    }
+
+    const snapshot = index.getLifecycleSnapshot();
+    const progress = { completed: snapshot.completed, total: snapshot.total, pending: snapshot.pending };
+    if (!index.hasAnyEmbeddings()) {
+      return {
+        ...base,
+        status: "building",
+        results: [],
+        index: progress,
+        note: "The semantic index is still building and has no searchable notes yet. Use 'search' for keyword matches or try again later.",
+      };
+    }
+
+    const fetchLimit = folderScope ? limit * SEMANTIC_FOLDER_OVERFETCH : limit;
+    const matches: SearchResult[] = query
+      ? await index.searchSimilar(query, fetchLimit)
+      : await index.findSimilar(similarTo, fetchLimit);
+
+    const results = matches
+      .filter((match) => this.isAllowedPath(match.path) && this.isWithinSearchPaths(match.path, folderScope))
+      .slice(0, limit)
+      .map((match) => ({
+        path: match.path,
+        score: Math.round(match.score * 1000) / 1000,
+        headingPath: match.metadata.headingPath
+          ?? (match.metadata.sectionTitle ? match.metadata.sectionTitle.split(" › ") : []),
+        excerpt: match.metadata.excerpt,
+        ...(typeof match.chunkId === "number" ? { chunkId: match.chunkId } : {}),
+      }));
+
+    const building = snapshot.pending > 0 || !snapshot.ready;
+    const response: Record<string, unknown> = {
+      ...base,
+      status: building ? "partial" : "ok",
+      results,
+      ...(building
+        ? {
+            index: progress,
+            note: "The semantic index is still updating, so recently changed notes may be missing.",
+          }
+        : {}),
+      ...(results.length === 0 && similarTo
+        ? { note: `No similar notes found. '${similarTo}' may not be indexed yet.` }
+        : {}),
+    };
+    while (results.length > 0 && JSON.stringify(response).length > FILESYSTEM_LIMITS.MAX_RESPONSE_CHARS) {
+      results.pop();
+      response.truncated = true;
+    }
+    return response;
+  }
+
+  private getSemanticIndex(): SemanticSearchIndex | null {
+    try {
+      return this.plugin.embeddingsManager ?? this.plugin.getOrCreateEmbeddingsManager();
+    } catch {
+      return null;
+    }
+  }
+
 }
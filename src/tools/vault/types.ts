@@ -219,6 +219,13 @@ export interface GrepVaultParams {
   cursor?: string | null;
 }
 
+export interface SemanticSearchParams {
+  query?: string | null;
+  similarTo?: string | null;
+  limit?: number | null;
+  folder?: string | null;
+}
+
 export interface ManageWorkspaceParams {
   files: Array<{ path: string; intent?: string }>;
 }
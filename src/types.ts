@@ -71,8 +71,37 @@ export type AudioProcessorOutputPreset =
   | "meeting_brief"
   | "clean_transcript";
 
+/** File written when an audio file is transcribed into the vault. */
+export type TranscriptionOutputFormat =
+  | "markdown"
+  | "srt"
+  | "vtt"
+  | "json"
+  | "speakers";
+
 export const LICENSE_URL = "https://systemsculpt.com/pricing";
 
+/** Which backend serves a capability: the SystemSculpt gateway or the user's own server. */
+export type CapabilityProviderChoice = "systemsculpt" | "openai-compatible";
+
+export interface CapabilityProviderSettings {
+  chat: CapabilityProviderChoice;
+  textGeneration: CapabilityProviderChoice;
+  embeddings: CapabilityProviderChoice;
+}
+
+/**
+ * Connection profile for an OpenAI-compatible server (OpenAI, llama.cpp,
+ * Ollama, vLLM, ...). The base URL includes the API version path, e.g.
+ * http://localhost:11434/v1. The API key is stored separately as a secret.
+ */
+export interface OpenAICompatibleProviderSettings {
+  baseUrl: string;
+  chatModel: string;
+  textGenerationModel: string;
+  embeddingsModel: string;
+}
+
 export interface SystemSculptSettings {
   /**
    * Stable identifier unique to this vault installation.
@@ -93,6 +122,12 @@ export interface SystemSculptSettings {
    */
   relativeLineNumbersEnabled?: boolean;
 
+  /**
+   * When enabled, suggest a short continuation as ghost text after a pause in
+   * typing in the markdown editor. Tab accepts the suggestion.
+   */
+  editorCompletionsEnabled?: boolean;
+
   /**
    * Persisted settings schema version, driving the versioned migration chain
    * (see SettingsMigrator). Absent/0 means pre-versioning data, migrated on load.
@@ -106,6 +141,10 @@ export interface SystemSculptSettings {
 
   licenseKey: string;
   licenseValid: boolean;
+  /** Per-capability provider selection; everything defaults to SystemSculpt. */
+  capabilityProviders: CapabilityProviderSettings;
+  openAICompatibleProvider: OpenAICompatibleProviderSettings;
+  openAICompatibleApiKey: string;
   suppressLicenseUpgradePrompt: boolean;
   userName?: string;
   displayName?: string;
@@ -148,10 +187,17 @@ export interface SystemSculptSettings {
    * Default output format when transcribing audio files.
    * - "markdown": Save as a markdown note
    * - "srt": Save as an SRT subtitle file
+   * - "vtt": Save as a WebVTT subtitle file
+   * - "json": Save timed segments as JSON
+   * - "speakers": Save a markdown note with a heading per speaker turn
    */
-  transcriptionOutputFormat?: "markdown" | "srt";
+  transcriptionOutputFormat?: TranscriptionOutputFormat;
   attachmentsDirectory: string;
   extractionsDirectory: string;
+  /** Notes in this folder become `/` commands in the chat composer. */
+  promptTemplatesDirectory: string;
+  /** Notes in this folder are agent personas selectable per chat. */
+  agentPersonasDirectory: string;
   workflowEngine: WorkflowEngineSettings;
 
   /**
@@ -230,10 +276,23 @@ export interface SystemSculptSettings {
 export const DEFAULT_SETTINGS: SystemSculptSettings = {
   vaultInstanceId: "",
   relativeLineNumbersEnabled: false,
+  editorCompletionsEnabled: false,
   schemaVersion: CURRENT_SCHEMA_VERSION,
   embeddingsVectorFormatVersion: 0,
   licenseKey: "",
   licenseValid: false,
+  capabilityProviders: {
+    chat: "systemsculpt",
+    textGeneration: "systemsculpt",
+    embeddings: "systemsculpt",
+  },
+  openAICompatibleProvider: {
+    baseUrl: "",
+    chatModel: "",
+    textGenerationModel: "",
+    embeddingsModel: "",
+  },
+  openAICompatibleApiKey: "",
   suppressLicenseUpgradePrompt: false,
   chatsDirectory: "SystemSculpt/Chats",
   savedChatsDirectory: "SystemSculpt/Saved Chats",
@@ -264,6 +323,8 @@ Please:
   transcriptionOutputFormat: "markdown",
   attachmentsDirectory: "SystemSculpt/Attachments",
   extractionsDirectory: "SystemSculpt/Extractions",
+  promptTemplatesDirectory: "SystemSculpt/Prompts",
+  agentPersonasDirectory: "SystemSculpt/Personas",
   workflowEngine: createDefaultWorkflowEngineSettings(),
 
   skipEmptyNoteWarning: false,
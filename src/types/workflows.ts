@@ -38,11 +38,37 @@ export interface WorkflowDefinition {
   description?: string;
 }
 
+export type WorkflowSkipType = "transcription" | "workflow";
+
 export interface WorkflowSkipEntry {
   path: string;
-  type: "transcription";
+  type: WorkflowSkipType;
   skippedAt: string;
   reason?: string;
+  /** Set for `workflow` skips: the definition that stopped on this file. */
+  workflowId?: string;
+}
+
+export type WorkflowStepStatus = "completed" | "failed" | "skipped";
+
+export interface WorkflowStepLog {
+  stepId: string;
+  type: WorkflowStepType;
+  status: WorkflowStepStatus;
+  attempts: number;
+  startedAt: string;
+  finishedAt: string;
+  message?: string;
+}
+
+export interface WorkflowRunRecord {
+  workflowId: string;
+  workflowName: string;
+  filePath: string;
+  status: "completed" | "failed" | "cancelled";
+  startedAt: string;
+  finishedAt: string;
+  steps: WorkflowStepLog[];
 }
 
 export interface WorkflowEngineSettings {
@@ -51,6 +77,8 @@ export interface WorkflowEngineSettings {
   inboxFolder: string;
   processedNotesFolder: string;
   autoTranscribeInboxNotes: boolean;
+  /** Vault folder whose notes declare workflow definitions in frontmatter. */
+  definitionsFolder: string;
   skippedFiles?: Record<string, WorkflowSkipEntry>;
 }
 
@@ -61,6 +89,7 @@ export function createDefaultWorkflowEngineSettings(): WorkflowEngineSettings {
     inboxFolder: "10 - capture-intake/Inbox",
     processedNotesFolder: "",
     autoTranscribeInboxNotes: true,
+    definitionsFolder: "SystemSculpt/Workflows",
     skippedFiles: {},
   };
 }
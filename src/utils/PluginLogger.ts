@@ -111,6 +111,7 @@ const SAFE_THIN_AGENT_TOOL_NAMES = new Set([
   "trash",
   "find",
   "search",
+  "semantic_search",
   "open",
   "context",
 ]);
@@ -4,6 +4,7 @@ import {
   getToolApprovalDecision,
   isMutatingTool,
   isToolAllowlisted,
+  isToolPermitted,
   requiresUserApproval,
   splitToolName,
 } from "../toolPolicy";
@@ -23,13 +24,15 @@ describe("first-party tool policy", () => {
     for (const name of ["write", "edit", "multi_edit", "create_folders", "move", "trash"]) {
       expect(isMutatingTool(name)).toBe(true);
     }
-    for (const name of ["read", "list_items", "find", "search", "open", "context", "unknown"]) {
+    for (const name of ["read", "list_items", "find", "search", "semantic_search", "open", "context", "unknown"]) {
       expect(isMutatingTool(name)).toBe(false);
     }
   });
 
   it("auto-approves canonical read-only tools and rejects unknown names", () => {
     expect(getToolApprovalDecision("read")).toEqual({ autoApprove: true, reason: "non-mutating" });
+    expect(getToolApprovalDecision("semantic_search")).toEqual({ autoApprove: true, reason: "non-mutating" });
+    expect(requiresUserApproval("semantic_search")).toBe(false);
     expect(getToolApprovalDecision("unknown")).toEqual({ autoApprove: false, reason: "invalid" });
     expect(requiresUserApproval("unknown")).toBe(true);
   });
@@ -66,6 +69,15 @@ describe("first-party tool policy", () => {
     expect(requiresUserApproval("trash", { requireDestructiveApproval: false })).toBe(false);
   });
 
+  it("refuses tools outside a persona allowlist instead of asking to approve them", () => {
+    const policy = { allowedToolNames: new Set(["read", "search", "move"]) };
+    expect(isToolPermitted("read", policy)).toBe(true);
+    expect(isToolPermitted("write", policy)).toBe(false);
+    expect(isToolPermitted("write", {})).toBe(true);
+    expect(requiresUserApproval("write", policy)).toBe(false);
+    expect(requiresUserApproval("move", policy)).toBe(true);
+  });
+
   it("extracts primary paths from canonical calls", () => {
     expect(extractPrimaryPathArg("read", { paths: ["one.md", "two.md"] })).toBe("one.md");
     expect(extractPrimaryPathArg("write", { path: "new.md" })).toBe("new.md");
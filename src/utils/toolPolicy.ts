@@ -26,6 +26,8 @@ export type ToolApprovalPolicy = {
   trustedToolNames?: Set<string>;
   requireDestructiveApproval?: boolean;
   autoApproveAllowlist?: string[];
+  /** When set, first-party tools outside this set are refused without running. */
+  allowedToolNames?: ReadonlySet<string>;
 };
 
 const MUTATING_TOOLS = new Set<FirstPartyToolName>([
@@ -82,6 +84,14 @@ export function getToolApprovalDecision(
   return { autoApprove: false, reason: "mutating-default" };
 }
 
+export function isToolPermitted(
+  toolName: string,
+  policy: ToolApprovalPolicy = {},
+): boolean {
+  if (!policy.allowedToolNames) return true;
+  return normalizedNames(policy.allowedToolNames).has(normalizeFirstPartyToolName(toolName));
+}
+
 export function requiresUserApproval(
   toolName: string,
   policy: ToolApprovalPolicy = {},
@@ -89,6 +99,8 @@ export function requiresUserApproval(
   const canonicalName = normalizeFirstPartyToolName(toolName);
   if (!isFirstPartyToolName(canonicalName)) return true;
   if (!MUTATING_TOOLS.has(canonicalName)) return false;
+  // A refused tool never touches the vault, so there is nothing to approve.
+  if (!isToolPermitted(canonicalName, policy)) return false;
   if (policy.requireDestructiveApproval === false) return false;
   if (canonicalName === "trash") return true;
 
@@ -1,4 +1,4 @@
-import { ItemView, normalizePath, Notice, TFile, WorkspaceLeaf } from "obsidian";
+import { ItemView, MarkdownView, normalizePath, Notice, TFile, WorkspaceLeaf } from "obsidian";
 import type SystemSculptPlugin from "../../main";
 import { getLoadedPluginBuildId } from "../../core/plugin/LoadedPluginBuildIdentity";
 import { CHAT_VIEW_TYPE } from "../../core/plugin/viewTypes";
@@ -49,7 +49,23 @@ import {
   type AgentLifecyclePhase,
   type AgentRunResult,
 } from "./agent/ChatSession";
-import { AgentMutationJournal } from "./agent/MutationJournal";
+import { AgentMutationJournal, readMutationFileImage } from "./agent/MutationJournal";
+import { applyMutationRevert, planMutationRevert } from "./agent/MutationRevert";
+import { AgentRevertModal } from "../../modals/AgentRevertModal";
+import { PromptTemplateVariablesModal } from "../../modals/PromptTemplateVariablesModal";
+import {
+  promptClockValues,
+  PromptTemplateLibrary,
+  renderPromptTemplate,
+  type PromptTemplate,
+} from "../../services/prompts/PromptTemplates";
+import {
+  agentPersonaContextSource,
+  AgentPersonaLibrary,
+  type AgentPersona,
+} from "../../services/personas/AgentPersonas";
+import { ensureVaultFolder } from "../../tools/vault/utils";
+import { OpenAICompatibleConnection } from "./agent/OpenAICompatibleConnection";
 import {
   thinAgentDataUrl,
   toThinAgentUserMessage,
@@ -62,6 +78,7 @@ import {
   type ThinAgentContextSource,
 } from "../../services/managed/ThinAgentV1Contract";
 import { AgentQueueStateRepository } from "./AgentQueueStateRepository";
+import { resolveVaultMention, searchVaultMentions } from "./mentions/VaultMentions";
 import {
   DEFAULT_THIN_AGENT_INPUT_LIMITS,
   type ThinAgentInputLimits,
@@ -80,6 +97,8 @@ type ChatLeafState = Readonly<{
   chatFontSize?: "small" | "medium" | "large";
   approvalMode?: ChatApprovalMode;
   draftKey?: string;
+  /** Transient: scroll to this message after loading. Never written back by getState. */
+  focusMessageId?: string;
 }>;
 
 type PendingHistoricalResubmit = Extract<AgentUserCommitInput, { kind: "resend" }> & Readonly<{
@@ -363,6 +382,8 @@ export class AgentChatView extends ItemView {
   public chatVersion = 0;
   public chatFontSize: "small" | "medium" | "large";
   public approvalMode: ChatApprovalMode;
+  /** Vault path of the persona note this chat runs as, if any. */
+  public personaPath: string | null = null;
   public isFullyLoaded = false;
   public creditsBalance: CreditsBalanceSnapshot | null = null;
 
@@ -447,6 +468,7 @@ export class AgentChatView extends ItemView {
       title: this.chatTitle,
       chatFontSize: this.chatFontSize,
       approvalMode: this.approvalMode,
+      ...(this.personaPath ? { persona: this.personaPath } : {}),
     }));
     this.transcriptCommitUnsubscribe = this.transcript.subscribeToCommits(({ snapshot, role, messageId }) => {
       this.applyTranscriptIdentity(snapshot);
@@ -485,6 +507,9 @@ export class AgentChatView extends ItemView {
    * lets independent conversations run at the same time.
    */
   private createAgentSession(): AgentChatSession {
+    const ownProvider = this.usesOwnChatProvider()
+      ? this.plugin.getManagedCapabilityClient().getOpenAICompatibleClient()
+      : null;
     return new AgentChatSession({
       baseUrl: this.agentBaseUrl,
       pluginVersion: this.plugin.manifest.version,
@@ -512,7 +537,18 @@ export class AgentChatView extends ItemView {
         const snapshot = await this.transcript.persistAssistant(message);
         this.applyTranscriptIdentity(snapshot);
       },
-      reconcileHistory: (messages) => this.reconcileAgentHistory(messages),
+      // A local provider has no server transcript to reconcile against.
+      ...(ownProvider ? {} : {
+        reconcileHistory: (messages: readonly ChatMessage[]) => this.reconcileAgentHistory(messages),
+      }),
+      ...(ownProvider ? {
+        createConnection: (conversationId: string) => new OpenAICompatibleConnection({
+          conversationId,
+          client: ownProvider,
+          history: () => this.pendingForkHistory?.prefix
+            ?? this.transcript.snapshot().messages as readonly ChatMessage[],
+        }),
+      } : {}),
       updateInputLimits: (limits) => {
         this.chatInputLimits = limits;
         this.workspace?.setMessageAttachmentLimits(limits);
@@ -523,6 +559,11 @@ export class AgentChatView extends ItemView {
     });
   }
 
+  /** Chat runs against the user's OpenAI-compatible server instead of SystemSculpt. */
+  private usesOwnChatProvider(): boolean {
+    return this.plugin.settings.capabilityProviders?.chat === "openai-compatible";
+  }
+
   private bindAgentSession(): void {
     if (this.agentSessionBinding) return;
     const binding = new AgentConversationSessionBinding<
@@ -594,6 +635,8 @@ export class AgentChatView extends ItemView {
       onResubmitMessage: (id, text) => this.resubmitMessage(id, text),
       onCancelMessageEdit: (id) => this.cancelMessageEdit(id),
       onCopyText: (text) => tryCopyToClipboard(text, this.containerEl),
+      onRevertTurn: (turnId) => this.revertAgentChanges(turnId),
+      onRevertConversation: () => this.revertAgentChanges(),
       onNewChat: () => this.startNewChat(),
       onOpenHistory: () => this.openHistory(),
       onOpenSettings: () => this.openChatSettings(),
@@ -604,6 +647,14 @@ export class AgentChatView extends ItemView {
         void this.setApprovalMode(mode)
           .catch((error) => this.reportAgentError(error, "approvalModeChange"));
       },
+      promptTemplates: {
+        list: () => new PromptTemplateLibrary(this.app, () => this.plugin.settings.promptTemplatesDirectory).list(),
+        apply: (template) => this.fillPromptTemplate(template),
+      },
+      vaultMentions: {
+        search: (query) => searchVaultMentions(this.app, query),
+        resolve: (target) => resolveVaultMention(this.app, target),
+      },
     });
     this.addChild(this.workspace);
     this.bindAgentSession();
@@ -655,10 +706,14 @@ export class AgentChatView extends ItemView {
     }
     if (state.chatId === this.chatId && this.isFullyLoaded && this.transcript.snapshot().chatId === state.chatId) {
       if (state.approvalMode) this.applyApprovalMode(state.approvalMode);
-      return;
+    } else {
+      if (state.chatFontSize) this.chatFontSize = state.chatFontSize;
+      await this.loadChatById(state.chatId);
+    }
+    const focusMessageId = state.focusMessageId?.trim();
+    if (focusMessageId && this.chatId === state.chatId) {
+      await this.workspace?.revealMessage(focusMessageId);
     }
-    if (state.chatFontSize) this.chatFontSize = state.chatFontSize;
-    await this.loadChatById(state.chatId);
   }
 
   public async loadChatById(chatId: string): Promise<void> {
@@ -708,10 +763,12 @@ export class AgentChatView extends ItemView {
       await this.hydrateQueue(this.draftKey);
       if (loaded.chatFontSize) this.chatFontSize = loaded.chatFontSize;
       this.approvalMode = loaded.approvalMode === "full-access" ? "full-access" : "ask";
+      this.personaPath = loaded.persona ?? null;
       this.applyFontSize();
       this.workspace?.setApprovalMode(this.approvalMode);
       this.workspace?.setTitle(this.chatTitle);
       await this.workspace?.setHistory(loaded.messages as readonly ChatMessage[]);
+      await this.refreshRevertibleTurns();
       const recoverySnapshot = loaded.agentConversationId
         ? cachedTranscriptRecoverySnapshot(loaded.messages)
         : null;
@@ -844,6 +901,50 @@ export class AgentChatView extends ItemView {
     }
   }
 
+  /**
+   * Switches the persona this chat runs as. A persona's approval default and
+   * pinned notes are applied once on selection; the user may change either
+   * afterwards without leaving the persona.
+   */
+  public async setPersona(path: string | null): Promise<void> {
+    const nextPath = path?.trim() || null;
+    if (nextPath === this.personaPath) return;
+    if (this.isRunActive()) {
+      throw new Error("The persona cannot change while SystemSculpt is working.");
+    }
+    const persona = nextPath ? await this.personaLibrary().get(nextPath) : null;
+    if (nextPath && !persona) throw new Error(`Persona not found: ${nextPath}`);
+    this.personaPath = nextPath;
+    if (persona?.approvalMode) this.applyApprovalMode(persona.approvalMode);
+    this.contextLoading = true;
+    try {
+      for (const entry of persona?.pinnedFiles ?? []) {
+        const file = this.app.metadataCache.getFirstLinkpathDest(entry, "")
+          ?? this.app.vault.getAbstractFileByPath(entry);
+        if (file instanceof TFile) await this.contextManager.pinVaultFile(file);
+        else new Notice(`Persona pinned file not found: ${entry}`);
+      }
+    } finally {
+      this.contextLoading = false;
+    }
+    this.syncAttachments();
+    if (this.chatId) await this.saveChat();
+  }
+
+  private personaLibrary(): AgentPersonaLibrary {
+    return new AgentPersonaLibrary(this.app, () => this.plugin.settings.agentPersonasDirectory);
+  }
+
+  /** Re-reads the persona note each turn so edits apply without reselecting it. */
+  private async readActivePersona(): Promise<AgentPersona | null> {
+    if (!this.personaPath) return null;
+    const persona = await this.personaLibrary().get(this.personaPath);
+    if (!persona) {
+      throw new Error(`Persona not found: ${this.personaPath}. Choose another persona in chat settings.`);
+    }
+    return persona;
+  }
+
   private applyApprovalMode(mode: ChatApprovalMode): void {
     this.approvalMode = mode === "full-access" ? "full-access" : "ask";
     this.workspace?.setApprovalMode(this.approvalMode);
@@ -1333,9 +1434,21 @@ export class AgentChatView extends ItemView {
 
   private async readThinAgentContextSources(
     pinnedEntries: ReadonlySet<string>,
+    persona: AgentPersona | null = null,
   ): Promise<ThinAgentContextSource[]> {
     const sources: ThinAgentContextSource[] = [];
     let textBytes = 0;
+    if (persona) {
+      const source = agentPersonaContextSource(persona);
+      if (source.kind === "text") {
+        const byteLength = new TextEncoder().encode(source.content).byteLength;
+        if (byteLength > this.chatInputLimits.maxTextBytesPerBlock) {
+          throw new Error(`The ${persona.name} persona exceeds the pinned text file limit.`);
+        }
+        textBytes += new TextEncoder().encode(source.path).byteLength + byteLength;
+      }
+      sources.push(source);
+    }
     let imageBytes = 0;
     let imageCount = 0;
     for (const entry of pinnedEntries) {
@@ -1415,7 +1528,7 @@ export class AgentChatView extends ItemView {
    * so an offline or slow server cannot paint phantom run state in a draft.
    */
   private async prepareThinConversation(conversationId: string): Promise<void> {
-    if (!this.plugin.settings.licenseKey?.trim()) return;
+    if (!this.plugin.settings.licenseKey?.trim() && !this.usesOwnChatProvider()) return;
     const pluginBuildId = await this.getLoadedPluginBuildId();
     if (this.pendingThinConversationId !== conversationId) return;
     this.thinBootstrapRequest = {
@@ -1539,17 +1652,25 @@ export class AgentChatView extends ItemView {
             message: admittedUserMessage,
           };
       const forceDestructiveApproval = options.forceDestructiveApproval === true;
-      const policy: ToolApprovalPolicy = !forceDestructiveApproval
-        && (this.automationApprovalMode === "auto-approve" || this.approvalMode === "full-access")
-        ? { requireDestructiveApproval: false }
-        : {
-            // The active run reads this same set between continuations so an
-            // "Allow for chat" choice takes effect before the next tool call.
-            trustedToolNames: forceDestructiveApproval
-              ? new Set<string>()
-              : this.sessionTrustedToolNames,
-          };
-      if (!this.plugin.settings.licenseKey?.trim()) {
+      const persona = await this.readActivePersona();
+      if (!this.isCurrentSubmissionOperation(operation)) return;
+      const policy: ToolApprovalPolicy = {
+        ...(!forceDestructiveApproval
+          && (this.automationApprovalMode === "auto-approve" || this.approvalMode === "full-access")
+          ? { requireDestructiveApproval: false }
+          : {
+              // The active run reads this same set between continuations so an
+              // "Allow for chat" choice takes effect before the next tool call.
+              trustedToolNames: forceDestructiveApproval
+                ? new Set<string>()
+                : this.sessionTrustedToolNames,
+              ...(persona && !forceDestructiveApproval
+                ? { autoApproveAllowlist: [...persona.autoApproveTools] }
+                : {}),
+            }),
+        ...(persona?.allowedTools ? { allowedToolNames: new Set<string>(persona.allowedTools) } : {}),
+      };
+      if (!this.plugin.settings.licenseKey?.trim() && !this.usesOwnChatProvider()) {
         throw new Error("Add your SystemSculpt license to start a response.");
       }
       const previousConversationId = this.transcript.snapshot().agentConversationId;
@@ -1590,6 +1711,7 @@ export class AgentChatView extends ItemView {
           options.includeContextFiles === false
             ? new Set()
             : new Set(this.contextManager.getPinnedFiles()),
+          persona,
         ),
         this.getLoadedPluginBuildId(),
       ]);
@@ -1710,6 +1832,8 @@ export class AgentChatView extends ItemView {
           this.logAgentError(error, "unfinishedRunSettlement");
         }
       }
+      // Local tools may have left undo records even when the run failed.
+      await this.refreshRevertibleTurns();
     } catch (error) {
       if (
         this.activeSubmissionOperation !== operation
@@ -2334,6 +2458,7 @@ export class AgentChatView extends ItemView {
       this.workspace?.resetMessageEditor();
       this.sessionTrustedToolNames.clear();
       this.approvalMode = "ask";
+      this.personaPath = null;
       this.workspace?.setApprovalMode(this.approvalMode);
       this.contextLoading = true;
       try { this.contextManager.clearPinnedFiles(); }
@@ -2343,6 +2468,7 @@ export class AgentChatView extends ItemView {
       this.workspace?.setTitle(this.chatTitle);
       this.workspace?.setBanner(null);
       await this.workspace?.setHistory([]);
+      await this.refreshRevertibleTurns();
       await this.workspace?.setAgentSnapshot(null);
       this.syncAttachments();
       this.syncQueue();
@@ -2542,16 +2668,26 @@ export class AgentChatView extends ItemView {
 
   private async openChatSettings(): Promise<void> {
     const { showStandardChatSettingsModal } = await import("../../modals/StandardChatSettingsModal");
+    const personas = await this.personaLibrary().list();
     showStandardChatSettingsModal(this.app, {
       initialValues: {
         approvalMode: this.approvalMode,
         chatFontSize: this.chatFontSize,
+        persona: this.personaPath ?? "",
       },
       approvalModeDisabled: this.isSubmissionActive(),
+      personas: personas.map((persona) => ({
+        path: persona.path,
+        name: persona.name,
+        ...(persona.approvalMode ? { approvalMode: persona.approvalMode } : {}),
+      })),
       onChange: (change) => {
         if (change.kind === "approval-mode") {
           return this.setApprovalMode(change.value);
         }
+        if (change.kind === "persona") {
+          return this.setPersona(change.value || null);
+        }
         return this.setChatFontSize(change.value);
       },
     });
@@ -2647,6 +2783,105 @@ export class AgentChatView extends ItemView {
     return true;
   }
 
+  private async refreshRevertibleTurns(): Promise<void> {
+    try {
+      const conversationId = this.transcript.snapshot().agentConversationId;
+      const records = conversationId
+        ? await this.agentMutationJournal.listUndoRecords(conversationId)
+        : [];
+      if (this.transcript.snapshot().agentConversationId !== conversationId) return;
+      await this.workspace?.setRevertibleTurns([...new Set(records.map((record) => record.turnId))]);
+    } catch (error) {
+      this.logAgentError(error, "refreshRevertibleTurns");
+    }
+  }
+
+  /** Restores the vault files the agent changed in one turn, or in the whole conversation. */
+  /**
+   * The chat view holds focus while a `/` command is chosen, so the note the
+   * user was last working in supplies the selection and active note.
+   */
+  private async fillPromptTemplate(template: PromptTemplate): Promise<string | null> {
+    const leaf = this.app.workspace.getMostRecentLeaf();
+    const view = leaf?.view instanceof MarkdownView ? leaf.view : null;
+    const file = view?.file ?? this.app.workspace.getActiveFile();
+    const activeNote = view?.editor
+      ? view.editor.getValue()
+      : file?.extension === "md" ? await this.app.vault.cachedRead(file) : "";
+    const values: Record<string, string> = {
+      selection: view?.editor?.getSelection() ?? "",
+      active_note: activeNote,
+      active_note_title: file?.basename ?? "",
+      ...promptClockValues(new Date()),
+    };
+    if (template.variables.length > 0) {
+      const custom = await new PromptTemplateVariablesModal(this.app, template).open();
+      if (!custom) return null;
+      Object.assign(values, custom);
+    }
+    return renderPromptTemplate(template, values);
+  }
+
+  private async revertAgentChanges(turnId?: string): Promise<void> {
+    if (this.isSubmissionActive()) {
+      new Notice("Wait for the current response to finish before reverting changes.", 5000);
+      return;
+    }
+    const conversationId = this.transcript.snapshot().agentConversationId;
+    if (!conversationId) return;
+    try {
+      const records = (await this.agentMutationJournal.listUndoRecords(conversationId))
+        .filter((record) => !turnId || record.turnId === turnId);
+      if (records.length === 0) {
+        new Notice("There are no agent changes left to revert.", 5000);
+        await this.refreshRevertibleTurns();
+        return;
+      }
+      const vault = this.app.vault;
+      const plan = await planMutationRevert(
+        records,
+        (path) => readMutationFileImage(vault.adapter, path),
+      );
+      const decision = await new AgentRevertModal(this.app, {
+        title: turnId ? "Revert this turn" : "Revert conversation",
+        description: turnId
+          ? "Restore the files SystemSculpt changed while answering this message."
+          : "Restore every file SystemSculpt changed in this chat.",
+        plan,
+      }).open();
+      if (!decision) return;
+      const outcome = await applyMutationRevert(plan, {
+        write: async (path, content) => {
+          const file = vault.getAbstractFileByPath(path);
+          if (file instanceof TFile) {
+            await vault.modify(file, content);
+            return;
+          }
+          await ensureVaultFolder(this.app, path.split("/").slice(0, -1).join("/"));
+          await vault.create(path, content);
+        },
+        delete: async (path) => {
+          const file = vault.getAbstractFileByPath(path);
+          if (file) await this.app.fileManager.trashFile(file);
+        },
+        move: async (from, to) => {
+          const file = vault.getAbstractFileByPath(from);
+          if (!file) throw new Error(`Cannot move back missing item: ${from}`);
+          await ensureVaultFolder(this.app, to.split("/").slice(0, -1).join("/"));
+          await this.app.fileManager.renameFile(file, to);
+        },
+      }, decision);
+      await this.agentMutationJournal.discardUndoRecords(conversationId, outcome.revertedToolCallIds);
+      await this.refreshRevertibleTurns();
+      const unfinished = outcome.skipped + outcome.failed;
+      new Notice(unfinished > 0
+        ? `Reverted ${outcome.applied} change(s); ${unfinished} left unchanged.`
+        : `Reverted ${outcome.applied} change(s).`, 6000);
+    } catch (error) {
+      this.reportAgentError(error, "revertAgentChanges");
+    }
+  }
+
   private reportAgentError(
     error: unknown,
     method = "reportAgentError",
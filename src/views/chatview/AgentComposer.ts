@@ -1,9 +1,16 @@
 import { Component, Notice, setIcon } from "obsidian";
 import {
   createUiAction,
+  SurfaceCombobox,
   updateUiAction,
   type UiActionTone,
 } from "../../core/ui/surface";
+import { matchPromptTemplates, type PromptTemplate } from "../../services/prompts/PromptTemplates";
+import {
+  vaultMentionReference,
+  type VaultMentionKind,
+  type VaultMentionTarget,
+} from "./mentions/VaultMentions";
 import type { ThinAgentInputLimits } from "../../services/managed/ThinAgentInputLimits";
 import {
   CHAT_ATTACHMENT_PICKER_ACCEPT,
@@ -37,8 +44,37 @@ export type AgentComposerOptions = Readonly<{
   onRemoveAttachment: (attachment: AgentComposerAttachment) => void | Promise<void>;
   onApprovalModeChange?: (mode: "ask" | "full-access") => void;
   onHeightChange?: () => void;
+  /** Enables `/` commands. `apply` resolves the composer text, or null when the user cancels. */
+  promptTemplates?: Readonly<{
+    list: () => Promise<readonly PromptTemplate[]>;
+    apply: (template: PromptTemplate) => Promise<string | null>;
+  }>;
+  /** Enables `@` mentions that attach a note, folder, heading or block to one message. */
+  vaultMentions?: Readonly<{
+    search: (query: string) => readonly VaultMentionTarget[];
+    resolve: (target: VaultMentionTarget) => Promise<ChatMessageAttachment | null>;
+  }>;
+}>;
+
+type ComposerSuggestion =
+  | Readonly<{ kind: "prompt"; key: string; template: PromptTemplate }>
+  | Readonly<{ kind: "mention"; key: string; target: VaultMentionTarget }>;
+
+type SuggestionTrigger = Readonly<{
+  kind: ComposerSuggestion["kind"];
+  query: string;
+  /** Range of the trigger text in the draft, `/` or `@` included. */
+  start: number;
+  end: number;
 }>;
 
+const MENTION_ICONS: Record<VaultMentionKind, string> = {
+  note: "file-text",
+  folder: "folder",
+  heading: "heading",
+  block: "pilcrow",
+};
+
 const DEFAULT_COMPOSER_PLACEHOLDER = "Ask SystemSculpt to work in your vault…";
 const PINNED_FILES_DESCRIPTION =
   "Pinned files are reread for every message. Files SystemSculpt reads while working remain part of this chat, but are not pinned automatically.";
@@ -79,6 +115,10 @@ export class AgentComposer extends Component {
   private readonly sendButton: HTMLButtonElement;
   private readonly stopButton: HTMLButtonElement;
   private readonly hint: HTMLElement;
+  private suggestions: SurfaceCombobox<ComposerSuggestion> | null = null;
+  private suggestionTrigger: SuggestionTrigger | null = null;
+  private suggestionGeneration = 0;
+  private promptTemplateCache: readonly PromptTemplate[] | null = null;
   private running = false;
   private historyEditing = false;
   private readOnlyMessage: string | null = null;
@@ -106,6 +146,13 @@ export class AgentComposer extends Component {
       },
     });
 
+    const suggestionList = options.promptTemplates || options.vaultMentions
+      ? this.element.createDiv({
+        cls: "systemsculpt-agent-suggest-menu",
+        attr: { "data-testid": "chat.composer.suggestions", hidden: "" },
+      })
+      : null;
+
     const prompt = this.element.createDiv({ cls: "systemsculpt-agent-prompt" });
     this.input = prompt.createEl("textarea", {
       cls: "systemsculpt-agent-prompt-input",
@@ -161,9 +208,12 @@ export class AgentComposer extends Component {
     this.registerDomEvent(this.input, "input", () => {
       this.resize();
       this.syncControls();
+      this.syncSuggestions();
     });
     this.registerDomEvent(this.input, "keydown", (event) => {
       if (event.key !== "Enter" || event.shiftKey || event.isComposing) return;
+      // The suggestion menu's own keydown handler commits the highlighted item.
+      if (this.suggestions?.isOpen && this.suggestions.activeItem !== null) return;
       event.preventDefault();
       void this.submit();
     });
@@ -212,6 +262,7 @@ export class AgentComposer extends Component {
     });
     this.registerDomEvent(this.sendButton, "click", () => void this.submit());
     this.registerDomEvent(this.stopButton, "click", () => void this.options.onStop());
+    if (suggestionList) this.createSuggestionMenu(suggestionList);
     this.syncControls();
   }
 
@@ -231,6 +282,7 @@ export class AgentComposer extends Component {
     this.input.value = value;
     this.resize();
     this.syncControls();
+    this.syncSuggestions();
     if (options.focus) this.focus();
   }
 
@@ -248,6 +300,7 @@ export class AgentComposer extends Component {
     this.renderAttachments();
     this.resize();
     this.syncControls();
+    this.syncSuggestions();
   }
 
   public setApprovalMode(mode: "ask" | "full-access"): void {
@@ -449,6 +502,189 @@ export class AgentComposer extends Component {
     }
   }
 
+  private createSuggestionMenu(listbox: HTMLElement): void {
+    const menu = new SurfaceCombobox<ComposerSuggestion>({
+      input: this.input,
+      listbox,
+      listboxLabel: "Suggestions",
+      initiallyOpen: false,
+      bindInputEvents: false,
+      activeMode: "first",
+      navigation: "wrap",
+      closeOnCommit: true,
+      optionCommitEvent: "pointerdown",
+      getItemKey: (item) => item.key,
+      // Items arrive already matched against the typed trigger.
+      filterItems: (items) => items,
+      renderOption: ({ item, listbox: parent }) => this.renderSuggestion(parent, item),
+      renderEmpty: ({ listbox: parent }) => {
+        const trigger = this.suggestionTrigger;
+        parent.createDiv({
+          cls: "systemsculpt-agent-suggest-empty",
+          text: trigger?.kind === "mention"
+            ? "No matching notes, folders or sections."
+            : this.promptTemplateCache ? "No matching prompt templates." : "Loading prompt templates…",
+        });
+      },
+      onCommit: ({ item }) => item.kind === "prompt"
+        ? this.applyPromptTemplate(item.template)
+        : this.insertVaultMention(item.target),
+      onOpenChange: (open) => {
+        listbox.toggleAttribute("hidden", !open);
+        this.options.onHeightChange?.();
+      },
+    });
+    this.suggestions = menu;
+    this.registerDomEvent(this.input, "blur", () => {
+      if (this.suggestions?.isOpen) this.suggestions.setOpen(false);
+    });
+    this.register(() => {
+      this.suggestions = null;
+      menu.destroy();
+    });
+  }
+
+  private renderSuggestion(parent: HTMLElement, item: ComposerSuggestion): HTMLElement {
+    const option = parent.createDiv({ cls: `systemsculpt-agent-suggest-option is-${item.kind}` });
+    if (item.kind === "prompt") {
+      option.createSpan({ cls: "systemsculpt-agent-suggest-command", text: `/${item.template.command}` });
+      if (item.template.description) {
+        option.createSpan({ cls: "systemsculpt-agent-suggest-detail", text: item.template.description });
+      }
+      return option;
+    }
+    setIcon(option.createSpan({ cls: "systemsculpt-agent-suggest-icon" }), MENTION_ICONS[item.target.kind]);
+    option.createSpan({ cls: "systemsculpt-agent-suggest-label", text: item.target.label });
+    if (item.target.detail) {
+      option.createSpan({ cls: "systemsculpt-agent-suggest-detail", text: item.target.detail });
+    }
+    return option;
+  }
+
+  /**
+   * A lone `/command` draft opens prompt templates; an `@` token before the
+   * caret opens vault mentions. Anything else closes the menu.
+   */
+  private readSuggestionTrigger(): SuggestionTrigger | null {
+    if (this.historyEditing || this.readOnlyMessage) return null;
+    const value = this.input.value;
+    const slash = this.options.promptTemplates ? /^\/(\S*)$/.exec(value) : null;
+    if (slash) return { kind: "prompt", query: slash[1], start: 0, end: value.length };
+    if (!this.options.vaultMentions) return null;
+    const caret = this.input.selectionStart ?? value.length;
+    if ((this.input.selectionEnd ?? caret) !== caret) return null;
+    const mention = /(?:^|\s)@([^\s@#]*(?:#[^@\n]*)?)$/.exec(value.slice(0, caret));
+    if (!mention) return null;
+    return { kind: "mention", query: mention[1], start: caret - mention[1].length - 1, end: caret };
+  }
+
+  private syncSuggestions(): void {
+    const menu = this.suggestions;
+    if (!menu) return;
+    const trigger = this.readSuggestionTrigger();
+    this.suggestionTrigger = trigger;
+    if (!trigger) {
+      this.promptTemplateCache = null;
+      if (menu.isOpen) menu.setOpen(false);
+      return;
+    }
+    if (trigger.kind === "mention") {
+      const targets = this.options.vaultMentions?.search(trigger.query) ?? [];
+      menu.setItems(targets.map((target) => ({ kind: "mention", key: target.key, target })));
+    } else if (this.promptTemplateCache) {
+      menu.setItems(this.promptSuggestions(this.promptTemplateCache, trigger.query));
+    } else {
+      menu.setItems([]);
+      void this.loadPromptTemplates();
+    }
+    if (!menu.isOpen) menu.setOpen(true);
+  }
+
+  private promptSuggestions(templates: readonly PromptTemplate[], query: string): ComposerSuggestion[] {
+    return matchPromptTemplates(templates, query)
+      .map((template) => ({ kind: "prompt", key: `prompt:${template.command}`, template }));
+  }
+
+  private async loadPromptTemplates(): Promise<void> {
+    const generation = ++this.suggestionGeneration;
+    let templates: readonly PromptTemplate[] = [];
+    try {
+      templates = await (this.options.promptTemplates?.list() ?? Promise.resolve([]));
+    } catch {
+      new Notice("Prompt templates could not be loaded.", 5000);
+    }
+    if (generation !== this.suggestionGeneration || !this.suggestions) return;
+    this.promptTemplateCache = templates;
+    const trigger = this.suggestionTrigger;
+    if (trigger?.kind === "prompt") {
+      this.suggestions.setItems(this.promptSuggestions(templates, trigger.query));
+    }
+  }
+
+  /**
+   * Swaps the typed `@query` for a wikilink-style reference and attaches the
+   * mentioned scope to this message only.
+   */
+  private async insertVaultMention(target: VaultMentionTarget): Promise<void> {
+    const trigger = this.suggestionTrigger;
+    if (trigger?.kind !== "mention" || this.attachmentBusy) return;
+    const reference = `${vaultMentionReference(target)} `;
+    const value = this.input.value;
+    this.input.value = `${value.slice(0, trigger.start)}${reference}${value.slice(trigger.end)}`;
+    const caret = trigger.start + reference.length;
+    this.input.setSelectionRange(caret, caret);
+    this.suggestionTrigger = null;
+    this.resize();
+
+    const generation = this.attachmentGeneration;
+    const collection = this.messageAttachments;
+    this.attachmentBusy = true;
+    this.syncControls();
+    try {
+      this.hint.setText(`Reading ${target.label}…`);
+      let attachment: ChatMessageAttachment | null = null;
+      try {
+        attachment = await (this.options.vaultMentions?.resolve(target) ?? Promise.resolve(null));
+      } catch {
+        attachment = null;
+      }
+      if (!this.isCurrentAttachmentOperation(generation, collection)) return;
+      if (!attachment) {
+        new Notice(`${target.label} could not be read.`, 5000);
+        return;
+      }
+      const problems = collection.validateSubmission(this.input.value, [...collection.snapshot(), attachment]);
+      if (problems.length > 0) {
+        for (const problem of problems) new Notice(problem.message, 6000);
+        return;
+      }
+      collection.mergeReady([attachment]);
+      this.renderAttachments();
+    } finally {
+      if (this.isCurrentAttachmentOperation(generation, collection)) {
+        this.attachmentBusy = false;
+        this.hint.setText(this.running ? "Enter to queue" : "Enter to send");
+        this.syncControls();
+      }
+    }
+  }
+
+  private async applyPromptTemplate(template: PromptTemplate): Promise<void> {
+    const draft = this.input.value;
+    let text: string | null = null;
+    try {
+      text = await (this.options.promptTemplates?.apply(template) ?? Promise.resolve(null));
+    } catch {
+      new Notice(`/${template.command} could not be filled in.`, 5000);
+    }
+    // Anything typed while the variables modal was open wins over the template.
+    if (text === null || this.input.value !== draft) {
+      this.focus();
+      return;
+    }
+    this.setValue(text, { focus: true });
+  }
+
   private resize(): void {
     const previousHeight = this.input.style.height;
     this.input.setCssStyles({ height: "auto" });
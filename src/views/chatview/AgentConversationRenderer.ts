@@ -54,6 +54,7 @@ export type AgentConversationRendererOptions = Readonly<{
   onResubmitMessage?: (messageId: string, text: string) => boolean | Promise<boolean>;
   onCancelMessageEdit?: (messageId: string) => void | Promise<void>;
   onCopyText?: (text: string) => boolean | Promise<boolean>;
+  onRevertTurn?: (turnId: string) => void | Promise<void>;
 }>;
 
 export type AgentInlineMessageEdit = Readonly<{
@@ -244,6 +245,7 @@ export class AgentConversationRenderer extends Component {
   }>>();
   private historyMessageIds: ReadonlySet<string> = new Set<string>();
   private inlineMessageEdit: AgentInlineMessageEdit | null = null;
+  private revertibleTurnIds: ReadonlySet<string> = new Set<string>();
   private activeTurn: HTMLElement | null = null;
   private activeBody: HTMLElement | null = null;
   private activeTurnId: string | null = null;
@@ -364,9 +366,12 @@ export class AgentConversationRenderer extends Component {
         role: message.role,
         messageIds: turnMessages.map((entry) => entry.message_id),
       });
+      const revertible = message.role === "user"
+        && this.revertibleTurnIds.has(anchorMessage.message_id);
       const fingerprint = JSON.stringify({
         messages: turnMessages,
         inlineEdit,
+        revertible,
       });
       const existing = this.historyRows.get(rowKey);
       if (existing?.fingerprint === fingerprint) {
@@ -434,6 +439,11 @@ export class AgentConversationRenderer extends Component {
     this.inlineMessageEdit = edit;
   }
 
+  /** User turns whose vault changes can still be reverted. Applies on the next history render. */
+  public setRevertibleTurns(turnIds: Iterable<string>): void {
+    this.revertibleTurnIds = new Set(turnIds);
+  }
+
   public focusInlineMessageEdit(): void {
     const input = this.historyRoot.querySelector<HTMLTextAreaElement>(
       ".systemsculpt-agent-message-editor-input",
@@ -1241,7 +1251,10 @@ export class AgentConversationRenderer extends Component {
   private renderMessageActions(row: HTMLElement, message: ChatMessage, text: string): void {
     const canCopy = text.length > 0 && Boolean(this.options.onCopyText);
     const canRetry = message.role === "user" && Boolean(this.options.onRetryMessage);
-    if (!canCopy && !canRetry) return;
+    const canRevert = message.role === "user"
+      && this.revertibleTurnIds.has(message.message_id)
+      && Boolean(this.options.onRevertTurn);
+    if (!canCopy && !canRetry && !canRevert) return;
 
     const actions = row.createDiv({ cls: "systemsculpt-agent-message-actions" });
     if (canCopy) {
@@ -1267,6 +1280,16 @@ export class AgentConversationRenderer extends Component {
       retry.setAttr("data-focus-key", "edit-message");
       retry.onclick = () => void this.options.onRetryMessage?.(message.message_id);
     }
+    if (canRevert) {
+      const revert = createUiAction(actions, {
+        label: "Revert changes from this turn",
+        testId: "chat.turn.revert",
+        icon: "undo-2",
+        size: "icon",
+      });
+      revert.addClass("systemsculpt-agent-inline-button");
+      revert.onclick = () => void this.options.onRevertTurn?.(message.message_id);
+    }
   }
 
   private renderInlineMessageEditor(parent: HTMLElement, edit: AgentInlineMessageEdit): void {
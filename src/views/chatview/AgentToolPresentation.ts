@@ -28,6 +28,7 @@ const TOOL_LABELS: Readonly<Record<string, string>> = {
   trash: "Move to trash",
   find: "Find files",
   search: "Search vault",
+  semantic_search: "Search by meaning",
   open: "Open files",
   context: "Manage pinned files",
 };
@@ -271,6 +272,10 @@ function inputSummary(canonicalName: string, input: Record<string, unknown>): st
   if (canonicalName === "search" || canonicalName === "find") {
     return compact(firstString(input.patterns));
   }
+  if (canonicalName === "semantic_search") {
+    const similarTo = firstString(input.similarTo);
+    return compact(similarTo ? `Similar to ${similarTo}` : firstString(input.query));
+  }
   if (canonicalName === "list_items") {
     return compact(firstString(input.path) ?? firstString(input.paths) ?? "Vault root");
   }
@@ -283,6 +288,18 @@ function inputSummary(canonicalName: string, input: Record<string, unknown>): st
   return null;
 }
 
+const SEMANTIC_INDEX_STATUS_SUMMARIES: Readonly<Record<string, string>> = {
+  disabled: "Semantic index is off",
+  unavailable: "Semantic index unavailable",
+  building: "Semantic index is still building",
+};
+
+function semanticSearchStatusSummary(part: AgentToolPart, canonicalName: string): string | null {
+  if (canonicalName !== "semantic_search" || part.state !== "succeeded") return null;
+  const status = firstString(record(part.output?.data).status);
+  return status ? SEMANTIC_INDEX_STATUS_SUMMARIES[status] ?? null : null;
+}
+
 function contextToolLabel(input: Record<string, unknown>): string {
   const action = firstString(input.action)?.toLowerCase();
   if (action === "add") return "Pin files";
@@ -310,7 +327,10 @@ export function presentAgentTool(part: AgentToolPart): AgentToolPresentation {
     : compact(part.output?.summary ?? part.output?.title);
   const summary = serverTool
     ? null
-    : partialSummary ?? outputSummary ?? inputSummary(canonicalName, input);
+    : partialSummary
+      ?? outputSummary
+      ?? semanticSearchStatusSummary(part, canonicalName)
+      ?? inputSummary(canonicalName, input);
   const query = webSearchQuery(part);
   return {
     canonicalName: unknownServerTool ? "server_action" : canonicalName,
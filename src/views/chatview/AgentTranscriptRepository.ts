@@ -12,6 +12,7 @@ export type AgentTranscriptSaveOptions = Readonly<{
   title?: string;
   chatFontSize?: "small" | "medium" | "large";
   approvalMode?: ChatApprovalMode;
+  persona?: string;
   agentConversationId?: string;
 }>;
 
@@ -37,6 +38,7 @@ export type AgentLoadedTranscript = AgentTranscriptSnapshot & Readonly<{
   contextFiles: readonly string[];
   chatFontSize?: "small" | "medium" | "large";
   approvalMode?: ChatApprovalMode;
+  persona?: string;
 }>;
 
 export type AgentTranscriptCommit = Readonly<{
@@ -276,6 +278,7 @@ export class AgentTranscriptRepository {
         contextFiles: Object.freeze([...(loaded.context_files || [])]),
         ...(loaded.chatFontSize ? { chatFontSize: loaded.chatFontSize } : {}),
         approvalMode: loaded.approvalMode === "full-access" ? "full-access" : "ask",
+        ...(loaded.persona ? { persona: loaded.persona } : {}),
       });
     });
   }
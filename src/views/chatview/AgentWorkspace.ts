@@ -10,6 +10,7 @@ import { AnchoredScroller } from "./AnchoredScroller";
 import {
   AgentComposer,
   type AgentComposerAttachment,
+  type AgentComposerOptions,
   type AgentComposerSubmit,
 } from "./AgentComposer";
 import type { ChatMessageAttachment } from "./attachments/ChatMessageAttachments";
@@ -50,6 +51,8 @@ export type AgentWorkspaceOptions = Readonly<{
   onResubmitMessage?: (messageId: string, text: string) => boolean | Promise<boolean>;
   onCancelMessageEdit?: (messageId: string) => void | Promise<void>;
   onCopyText?: (text: string) => boolean | Promise<boolean>;
+  onRevertTurn?: (turnId: string) => void | Promise<void>;
+  onRevertConversation?: () => void | Promise<void>;
   onNewChat: () => void | Promise<void>;
   onOpenHistory: () => void | Promise<void>;
   onOpenSettings: () => void | Promise<void>;
@@ -57,6 +60,8 @@ export type AgentWorkspaceOptions = Readonly<{
   onCancelQueued?: (id: string) => void | Promise<void>;
   onRunQueuedNow?: (id: string) => void | Promise<void>;
   onApprovalModeChange?: (mode: "ask" | "full-access") => void;
+  promptTemplates?: AgentComposerOptions["promptTemplates"];
+  vaultMentions?: AgentComposerOptions["vaultMentions"];
 }>;
 
 function iconButton(parent: HTMLElement, testId: string, label: string, icon: string): HTMLButtonElement {
@@ -81,6 +86,8 @@ function formatCredits(value: number): string {
   }
 }
 
+const SEARCH_TARGET_HIGHLIGHT_MS = 2400;
+
 const PENDING_AGENT_SNAPSHOT: AgentConversationSnapshot = Object.freeze({
   runId: null,
   turnId: null,
@@ -98,6 +105,7 @@ export class AgentWorkspace extends Component {
   public readonly composer: AgentComposer;
   private readonly titleElement: HTMLElement;
   private readonly creditsButton: HTMLButtonElement | null;
+  private readonly revertButton: HTMLButtonElement | null;
   private readonly emptyState: HTMLElement;
   private readonly banner: HTMLElement;
   private readonly queueElement: HTMLElement;
@@ -147,6 +155,13 @@ export class AgentWorkspace extends Component {
       this.creditsButton.setAttribute("aria-label", "Credits");
       this.registerDomEvent(this.creditsButton, "click", () => void this.options.onOpenCredits?.());
     }
+    this.revertButton = options.onRevertConversation
+      ? iconButton(headerActions, "chat.header.revert", "Revert conversation changes", "undo-2")
+      : null;
+    if (this.revertButton) {
+      this.revertButton.toggleAttribute("hidden", true);
+      this.registerDomEvent(this.revertButton, "click", () => void this.options.onRevertConversation?.());
+    }
     const history = iconButton(headerActions, "chat.header.history", "Chat history", "history");
     const create = iconButton(headerActions, "chat.header.new", "New chat", "square-pen");
     const settings = iconButton(headerActions, "chat.header.settings", "Chat settings", "settings-2");
@@ -180,6 +195,7 @@ export class AgentWorkspace extends Component {
       onResubmitMessage: options.onResubmitMessage,
       onCancelMessageEdit: options.onCancelMessageEdit,
       onCopyText: options.onCopyText,
+      onRevertTurn: options.onRevertTurn,
     });
     this.addChild(this.renderer);
 
@@ -221,6 +237,8 @@ export class AgentWorkspace extends Component {
       onMic: options.onMic,
       onRemoveAttachment: options.onRemoveAttachment,
       onApprovalModeChange: options.onApprovalModeChange,
+      promptTemplates: options.promptTemplates,
+      vaultMentions: options.vaultMentions,
       onHeightChange: () => {
         if (!this.unloaded) this.scroller.notifyViewportGeometryChanged();
       },
@@ -414,6 +432,13 @@ export class AgentWorkspace extends Component {
     });
   }
 
+  /** Shows revert affordances for the given user turns and hides them elsewhere. */
+  public setRevertibleTurns(turnIds: readonly string[]): Promise<void> {
+    this.revertButton?.toggleAttribute("hidden", turnIds.length === 0);
+    this.renderer.setRevertibleTurns(turnIds);
+    return this.renderHistoryPreservingAnchor();
+  }
+
   public showMessageEditor(edit: AgentInlineMessageEdit): Promise<void> {
     this.renderer.setInlineMessageEdit(edit);
     this.composer.setHistoryEditing(true);
@@ -426,6 +451,29 @@ export class AgentWorkspace extends Component {
     return this.renderHistoryPreservingAnchor(false, restoreFocus ? messageId : undefined);
   }
 
+  /**
+   * Scrolls the turn holding a message into view and briefly highlights it.
+   * Waits for pending history renders; resolves false when no turn holds it.
+   */
+  public revealMessage(messageId: string): Promise<boolean> {
+    const generation = this.lifecycleGeneration;
+    let revealed = false;
+    return this.scheduleRender(async () => {
+      if (!this.isLifecycleCurrent(generation)) return;
+      const row = Array.from(
+        this.renderer.element.querySelectorAll<HTMLElement>(".systemsculpt-agent-turn[data-message-id]"),
+      ).find((candidate) =>
+        candidate.dataset.messageId === messageId
+        || (candidate.dataset.messageIds ?? "").split(" ").includes(messageId));
+      const rowId = row ? `message:${row.dataset.messageId}` : null;
+      if (!row || !rowId || !this.registeredRows.has(rowId)) return;
+      this.scroller.jumpTo(rowId, { align: "center" });
+      row.addClass("is-search-target");
+      getSurfaceOwnerWindow(this.element).setTimeout(() => row.removeClass("is-search-target"), SEARCH_TARGET_HIGHLIGHT_MS);
+      revealed = true;
+    }).then(() => revealed);
+  }
+
   public resetMessageEditor(): void {
     this.renderer.setInlineMessageEdit(null);
     this.composer.setHistoryEditing(false);
@@ -24,6 +24,7 @@ type LoadedChatRecord = {
   context_files?: string[];
   chatFontSize?: "small" | "medium" | "large";
   approvalMode?: ChatApprovalMode;
+  persona?: string;
   agentConversationId?: string;
   chatPath: string;
 };
@@ -33,6 +34,7 @@ type SaveChatOptions = {
   title?: string;
   chatFontSize?: "small" | "medium" | "large";
   approvalMode?: ChatApprovalMode;
+  persona?: string;
   agentConversationId?: string;
   /**
    * Reserved for a validated, server-authoritative history reconciliation.
@@ -283,6 +285,7 @@ export class ChatStorageService {
         chatFontSize: options.chatFontSize || "medium",
         approvalMode: options.approvalMode === "full-access" ? "full-access" : "ask",
       };
+      if (options.persona) metadata.persona = options.persona;
       if (agentConversationId) metadata.agentConversationId = agentConversationId;
 
       if (mergedTags.length > 0) {
@@ -480,6 +483,7 @@ export class ChatStorageService {
       context_files: metadata.context_files?.map((f) => f.path) || [],
       chatFontSize: metadata.chatFontSize,
       approvalMode: metadata.approvalMode === "full-access" ? "full-access" : "ask",
+      ...(metadata.persona ? { persona: metadata.persona } : {}),
       agentConversationId: parseAgentConversationId(metadata.agentConversationId),
       chatPath: filePath || `${this.chatDirectory}/${metadata.id}.md`,
     };
@@ -20,6 +20,24 @@ describe("ChatResumeUtils", () => {
     });
   });
 
+  it("carries a focus message into the resume state only when one is given", () => {
+    const state = buildChatResumeState({
+      chatId: "chat-123",
+      title: "Test Chat",
+      chatPath: "SystemSculpt/Chats/test.md",
+      lastModified: Date.now(),
+      messageCount: 2,
+      focusMessageId: "msg-7",
+    });
+
+    expect(state).toEqual({
+      chatId: "chat-123",
+      chatTitle: "Test Chat",
+      file: "SystemSculpt/Chats/test.md",
+      focusMessageId: "msg-7",
+    });
+  });
+
   it("reveals the resumed chat leaf after opening it", async () => {
     const targetLeaf = {
       setViewState: jest.fn().mockResolvedValue(undefined),
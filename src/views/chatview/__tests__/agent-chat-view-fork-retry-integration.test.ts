@@ -338,6 +338,9 @@ describe("AgentChatView historical Retry integration", () => {
     const mutationJournal = {
       claim: jest.fn(async () => ({ kind: "execute" as const })),
       complete: jest.fn(async () => undefined),
+      captureBeforeImage: jest.fn(async () => undefined),
+      captureAfterImage: jest.fn(async () => undefined),
+      listUndoRecords: jest.fn(async () => []),
       idle: jest.fn(async () => undefined),
     };
     const agent = new AgentChatSession({
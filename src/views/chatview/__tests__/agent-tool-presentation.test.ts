@@ -225,6 +225,39 @@ describe("presentAgentTool", () => {
     })).summary).toBe("Research/Plan.md");
   });
 
+  it("summarizes semantic search inputs and a degraded semantic index", () => {
+    expect(presentAgentTool(part({
+      name: "semantic_search",
+      input: { query: "how we price enterprise plans" },
+    }))).toMatchObject({
+      label: "Search by meaning",
+      summary: "how we price enterprise plans",
+      itemCount: null,
+    });
+    expect(presentAgentTool(part({
+      name: "semantic_search",
+      input: { similarTo: "Research/Pricing.md" },
+    })).summary).toBe("Similar to Research/Pricing.md");
+    expect(presentAgentTool(part({
+      name: "semantic_search",
+      state: "succeeded",
+      input: { query: "pricing" },
+      output: { data: { status: "disabled", results: [] } },
+    })).summary).toBe("Semantic index is off");
+    expect(presentAgentTool(part({
+      name: "semantic_search",
+      state: "succeeded",
+      input: { query: "pricing" },
+      output: { data: { status: "building", results: [] } },
+    })).summary).toBe("Semantic index is still building");
+    expect(presentAgentTool(part({
+      name: "semantic_search",
+      state: "succeeded",
+      input: { query: "pricing" },
+      output: { data: { status: "ok", results: [] } },
+    })).summary).toBe("pricing");
+  });
+
   it("uses accurate singular and plural labels for safely countable tools", () => {
     expect(presentAgentTool(part({ input: { paths: ["One.md"] } })).label)
       .toBe("Read 1 file");
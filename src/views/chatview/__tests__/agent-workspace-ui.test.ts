@@ -68,6 +68,102 @@ describe("AgentComposer", () => {
     composer.unload();
   });
 
+  it("offers prompt templates for a lone slash command and inserts the filled prompt", async () => {
+    const parent = document.body.createDiv();
+    const onSubmit = jest.fn();
+    const review = {
+      command: "review",
+      name: "review",
+      description: "Review the selection",
+      path: "SystemSculpt/Prompts/review.md",
+      body: "Review {{selection}}",
+      variables: [],
+    };
+    const summarize = { ...review, command: "summarize", name: "summarize", description: "", path: "SystemSculpt/Prompts/summarize.md" };
+    const apply = jest.fn(async () => "Review the chosen text");
+    const composer = new AgentComposer(parent, {
+      onSubmit,
+      onStop: jest.fn(),
+      onAttach: jest.fn(),
+      onRemoveAttachment: jest.fn(),
+      promptTemplates: { list: async () => [summarize, review], apply },
+    });
+    composer.load();
+    const input = parent.querySelector("textarea")!;
+    const menu = parent.querySelector<HTMLElement>('[data-testid="chat.composer.suggestions"]')!;
+    expect(menu.hidden).toBe(true);
+
+    input.value = "/rev";
+    input.dispatchEvent(new Event("input"));
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(menu.hidden).toBe(false);
+    expect(Array.from(menu.querySelectorAll(".systemsculpt-agent-suggest-command")).map((node) => node.textContent))
+      .toEqual(["/review"]);
+
+    input.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter", bubbles: true }));
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(apply).toHaveBeenCalledWith(review);
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(input.value).toBe("Review the chosen text");
+    expect(menu.hidden).toBe(true);
+    composer.unload();
+  });
+
+  it("turns an @-mention into a reference and a one-message attachment", async () => {
+    const parent = document.body.createDiv();
+    const target = {
+      key: "heading:Plan.md#0",
+      kind: "heading" as const,
+      path: "Plan.md",
+      subpath: "#Goals",
+      label: "Goals",
+      detail: "Plan · H2",
+    };
+    const search = jest.fn(() => [target]);
+    const resolve = jest.fn(async () => ({
+      status: "ready" as const,
+      id: "mention:Plan.md#Goals",
+      name: "Plan.md#Goals",
+      mimeType: "text/markdown",
+      byteLength: 8,
+      kind: "text" as const,
+      contentPart: { type: "text" as const, text: "## Goals" },
+    }));
+    const submissions: unknown[] = [];
+    const composer = new AgentComposer(parent, {
+      onSubmit: async (submission) => { submissions.push(submission); },
+      onStop: jest.fn(),
+      onAttach: jest.fn(),
+      onRemoveAttachment: jest.fn(),
+      vaultMentions: { search, resolve },
+    });
+    composer.load();
+    const input = parent.querySelector("textarea")!;
+
+    input.value = "Summarize @Plan#go";
+    input.dispatchEvent(new Event("input"));
+    expect(search).toHaveBeenLastCalledWith("Plan#go");
+    expect(parent.querySelector(".systemsculpt-agent-suggest-label")?.textContent).toBe("Goals");
+
+    input.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter", bubbles: true }));
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(input.value).toBe("Summarize [[Plan#Goals]] ");
+    expect(composer.getMessageAttachments().map((attachment) => attachment.id)).toEqual(["mention:Plan.md#Goals"]);
+    expect(submissions).toEqual([]);
+
+    input.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter", bubbles: true }));
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(submissions).toEqual([expect.objectContaining({
+      text: "Summarize [[Plan#Goals]]",
+      attachments: [expect.objectContaining({ id: "mention:Plan.md#Goals" })],
+    })]);
+    composer.unload();
+  });
+
   it("makes a saved-history composer visibly read-only until a new chat enables it", async () => {
     const parent = document.body.createDiv();
     const onSubmit = jest.fn(async () => undefined);
@@ -1090,6 +1186,88 @@ describe("AgentWorkspace", () => {
     expect((renderer as any).copyFeedbackTimers.size).toBe(0);
   });
 
+  it("offers turn and conversation revert only for turns with recorded vault changes", async () => {
+    const parent = document.body.createDiv();
+    const onRevertTurn = jest.fn();
+    const onRevertConversation = jest.fn();
+    const workspace = new AgentWorkspace(parent, {
+      app: new App(),
+      sourcePath: () => "SystemSculpt/Chats/chat.md",
+      onSubmit: jest.fn(),
+      onStop: jest.fn(),
+      onAttach: jest.fn(),
+      onRemoveAttachment: jest.fn(),
+      onApprove: jest.fn(),
+      onOpenArtifact: jest.fn(),
+      onCopyArtifactPath: jest.fn(),
+      onRevertTurn,
+      onRevertConversation,
+      onNewChat: jest.fn(),
+      onOpenHistory: jest.fn(),
+      onOpenSettings: jest.fn(),
+    });
+    workspace.load();
+    await workspace.setHistory([
+      { role: "user", message_id: "user-1", content: "Rewrite the note." },
+      { role: "assistant", message_id: "assistant-1", content: "Done." },
+      { role: "user", message_id: "user-2", content: "Thanks." },
+    ]);
+    const header = parent.querySelector<HTMLButtonElement>('[data-testid="chat.header.revert"]')!;
+    const revert = (id: string) => parent
+      .querySelector(`[data-message-id="${id}"]`)!
+      .querySelector<HTMLButtonElement>('[aria-label="Revert changes from this turn"]');
+    expect(header.hasAttribute("hidden")).toBe(true);
+    expect(revert("user-1")).toBeNull();
+
+    await workspace.setRevertibleTurns(["user-1"]);
+
+    expect(header.hasAttribute("hidden")).toBe(false);
+    expect(revert("user-2")).toBeNull();
+    revert("user-1")!.click();
+    expect(onRevertTurn).toHaveBeenCalledWith("user-1");
+    header.click();
+    expect(onRevertConversation).toHaveBeenCalledTimes(1);
+
+    await workspace.setRevertibleTurns([]);
+    expect(header.hasAttribute("hidden")).toBe(true);
+    expect(revert("user-1")).toBeNull();
+    workspace.unload();
+  });
+
+  it("reveals and highlights a saved message by id, including messages grouped into a turn", async () => {
+    jest.useFakeTimers();
+    const parent = document.body.createDiv();
+    const workspace = new AgentWorkspace(parent, {
+      app: new App(),
+      sourcePath: () => "SystemSculpt/Chats/chat.md",
+      onSubmit: jest.fn(),
+      onStop: jest.fn(),
+      onAttach: jest.fn(),
+      onRemoveAttachment: jest.fn(),
+      onApprove: jest.fn(),
+      onOpenArtifact: jest.fn(),
+      onCopyArtifactPath: jest.fn(),
+      onNewChat: jest.fn(),
+      onOpenHistory: jest.fn(),
+      onOpenSettings: jest.fn(),
+    });
+    workspace.load();
+    await workspace.setHistory([
+      { role: "user", message_id: "user-1", content: "Which database did we pick?" },
+      { role: "assistant", message_id: "assistant-1", content: "We decided on Postgres." },
+    ]);
+
+    await expect(workspace.revealMessage("missing")).resolves.toBe(false);
+    await expect(workspace.revealMessage("assistant-1")).resolves.toBe(true);
+
+    const row = parent.querySelector<HTMLElement>('[data-message-id="assistant-1"]')!;
+    expect(row.classList.contains("is-search-target")).toBe(true);
+    jest.advanceTimersByTime(2400);
+    expect(row.classList.contains("is-search-target")).toBe(false);
+    workspace.unload();
+    jest.useRealTimers();
+  });
+
   it("classifies tool-only history turns without action chrome", async () => {
     const parent = document.body.createDiv();
     const onRetryMessage = jest.fn();
@@ -27,6 +27,7 @@ import {
 } from "../../../utils/toolArtifacts";
 import {
   isMutatingTool,
+  isToolPermitted,
   requiresUserApproval,
   type ToolApprovalPolicy,
 } from "../../../utils/toolPolicy";
@@ -46,6 +47,7 @@ import {
 import {
   AgentSession,
   type AgentCommandAckEvent,
+  type AgentConnectionPort,
   type AgentConnectionState,
   type AgentSessionSnapshot,
 } from "./AuthoritativeSession";
@@ -132,6 +134,23 @@ export type AgentRunInput = Readonly<{
 
 type RequestClient = Pick<PlatformRequestClient, "request">;
 
+/**
+ * The connection a chat session drives: the authoritative port plus its
+ * lifecycle. AgentStreamingTransport is the SystemSculpt implementation; a
+ * connection that stages context itself supplies stageContext.
+ */
+export type AgentChatConnection = AgentConnectionPort & Readonly<{
+  connect(): Promise<void>;
+  bootstrap(): Promise<ThinAgentBootstrapResponse>;
+  invalidateBootstrap(): void;
+  close(): void;
+  stageContext?: (
+    rootMessageId: string,
+    contextSources: readonly ThinAgentContextSource[],
+    signal?: AbortSignal,
+  ) => Promise<ThinAgentContextResponse>;
+}>;
+
 export type AgentChatSessionOptions = Readonly<{
   baseUrl: string;
   pluginVersion: string;
@@ -148,6 +167,8 @@ export type AgentChatSessionOptions = Readonly<{
   refreshCredits?: () => Promise<void>;
   reportError?: (error: unknown) => void;
   onLifecycle?: (record: AgentLifecycleRecord) => void;
+  /** Replaces the SystemSculpt transport, e.g. for a bring-your-own provider. */
+  createConnection?: (conversationId: string) => AgentChatConnection;
   requestClient?: RequestClient;
   runStallGraceMs?: number;
   resynchronizationDelayMs?: (attempt: number) => number;
@@ -1265,7 +1286,7 @@ export class AgentChatSession {
   private readonly requestClient: RequestClient;
   private readonly now: () => number;
   private readonly listeners = new Set<(snapshot: AgentConversationSnapshot) => void>();
-  private transport: AgentStreamingTransport | null = null;
+  private transport: AgentChatConnection | null = null;
   private session: AgentSession<WireMessage> | null = null;
   private detachSession: (() => void) | null = null;
   private detachConnectionState: (() => void) | null = null;
@@ -1330,7 +1351,7 @@ export class AgentChatSession {
     }
     this.disconnect();
     const generation = ++this.generation;
-    const transport = new AgentStreamingTransport({
+    const transport = this.options.createConnection?.(conversationId) ?? new AgentStreamingTransport({
       baseUrl: this.options.baseUrl,
       pluginVersion: this.options.pluginVersion,
       licenseKey: this.options.licenseKey,
@@ -1542,6 +1563,16 @@ export class AgentChatSession {
       requestId: rootMessageId,
     });
     try {
+      if (this.transport?.stageContext) {
+        const context = await this.transport.stageContext(rootMessageId, contextSources, signal);
+        this.recordLifecycle({
+          code: "context_prepare_completed",
+          phase: "start",
+          ...(conversationId ? { conversationId } : {}),
+          requestId: rootMessageId,
+        });
+        return context;
+      }
       const bootstrap = await this.issueBootstrap();
       const url = new URL(THIN_AGENT_CONTEXT_PATH, this.options.baseUrl);
       const request = parseThinAgentContextRequest({
@@ -2616,7 +2647,15 @@ export class AgentChatSession {
     let result: ToolCallResult;
     let delivery: PendingToolDelivery;
     try {
-      if (isMutatingTool(call.name)) {
+      if (!replayOnly && !isToolPermitted(call.name, active.approvalPolicy)) {
+        result = {
+          success: false,
+          error: {
+            code: "TOOL_NOT_ALLOWED",
+            message: `The ${call.name} tool is not allowed in this chat.`,
+          },
+        };
+      } else if (isMutatingTool(call.name)) {
         const claim = replayOnly
           ? await this.options.mutationJournal.inspect(
             active.conversationId,
@@ -2699,9 +2738,22 @@ export class AgentChatSession {
             toolCallId: call.callId,
           });
           if (!this.isCallAuthorizedImmediatelyBeforeExecution(active, call)) return;
+          // Undo snapshots are best effort: a failed capture costs the revert
+          // action for this call, never the call itself.
+          await this.options.mutationJournal.captureBeforeImage(
+            active.conversationId,
+            call.callId,
+            active.turnId,
+            call.name,
+            call.input,
+          ).catch((error: unknown) => this.reportLocalIssue(error));
           result = outputAsToolResult(
             toJsonValue(await this.options.executeLocalTool(call, active.abort.signal)),
           );
+          await this.options.mutationJournal.captureAfterImage(
+            active.conversationId,
+            call.callId,
+          ).catch((error: unknown) => this.reportLocalIssue(error));
           try {
             await this.options.mutationJournal.complete(
               active.conversationId,
@@ -28,6 +28,17 @@ const RECORD_FILE_NAME = /^[a-f0-9]{64}\.json$/;
 export const MAX_LEGACY_JOURNAL_CHARACTERS = 4 * 1024 * 1024;
 export const MAX_LEGACY_JOURNAL_BYTES = 4 * 1024 * 1024;
 export const MAX_LEGACY_JOURNAL_RECORDS = 10_000;
+const UNDO_RECORD_VERSION = 1;
+export const MAX_UNDO_CAPTURE_BYTES = 1024 * 1024;
+export const MAX_UNDO_CAPTURE_FILES = 200;
+/** Undo records older than this are pruned; nobody reverts a month-old turn. */
+export const UNDO_RECORD_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+/** Undo records hold whole files, so the newest ones share this much disk. */
+export const MAX_UNDO_STORAGE_BYTES = 64 * 1024 * 1024;
+const UNDO_TEXT_EXTENSIONS = new Set([
+  "md", "markdown", "txt", "canvas", "base", "json", "csv", "tsv", "yaml", "yml",
+  "css", "js", "ts", "html", "xml", "svg", "tex", "bib", "org", "rst", "log",
+]);
 
 export function canonicalAgentToolInput(value: unknown): string {
   if (value === null || typeof value !== "object") return JSON.stringify(value) ?? String(value);
@@ -180,14 +191,166 @@ export type ThinAgentMutationClaim =
   | Readonly<{ kind: "execute" }>
   | Exclude<ThinAgentMutationInspection, Readonly<{ kind: "absent" }>>;
 
+/**
+ * Prior or resulting state of one vault file. `content: null` marks a file
+ * that existed but was binary or too large to capture, so it cannot be
+ * restored.
+ */
+export type MutationFileImage =
+  | Readonly<{ exists: false }>
+  | Readonly<{ exists: true; content: string | null }>;
+
+export type MutationUndoChange =
+  | Readonly<{ kind: "content"; path: string; before: MutationFileImage; after: MutationFileImage | null }>
+  | Readonly<{ kind: "move"; source: string; destination: string }>;
+
+export type MutationUndoRecord = Readonly<{
+  conversationId: string;
+  toolCallId: string;
+  turnId: string;
+  toolName: string;
+  capturedAt: number;
+  changes: readonly MutationUndoChange[];
+}>;
+
+type UndoRecordFile = Readonly<{
+  version: 1;
+  record: MutationUndoRecord;
+}>;
+
+function normalizeUndoPath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/\/{2,}/g, "/").replace(/^\/+|\/+$/g, "");
+}
+
+function stringField(value: Record<string, unknown>, key: string): string | null {
+  const field = value[key];
+  return typeof field === "string" && field.length > 0 ? normalizeUndoPath(field) : null;
+}
+
+function undoTargets(name: string, input: unknown): { paths: string[]; moves: Array<{ source: string; destination: string }>; recursive: boolean } {
+  const params = input && typeof input === "object" ? input as Record<string, unknown> : {};
+  const records = (key: string) => Array.isArray(params[key])
+    ? (params[key] as unknown[]).filter((item): item is Record<string, unknown> => !!item && typeof item === "object")
+    : [];
+  switch (name) {
+    case "write":
+    case "edit": {
+      const path = stringField(params, "path");
+      return { paths: path ? [path] : [], moves: [], recursive: false };
+    }
+    case "multi_edit":
+      return {
+        paths: records("files").map((file) => stringField(file, "path")).filter((path): path is string => !!path),
+        moves: [],
+        recursive: false,
+      };
+    case "move":
+      return {
+        paths: [],
+        moves: records("items").flatMap((item) => {
+          const source = stringField(item, "source");
+          const destination = stringField(item, "destination");
+          return source && destination ? [{ source, destination }] : [];
+        }),
+        recursive: false,
+      };
+    case "trash":
+      return {
+        paths: Array.isArray(params.paths)
+          ? params.paths.filter((path): path is string => typeof path === "string" && path.length > 0).map(normalizeUndoPath)
+          : [],
+        moves: [],
+        recursive: true,
+      };
+    default:
+      return { paths: [], moves: [], recursive: false };
+  }
+}
+
+function parseFileImage(value: unknown): MutationFileImage {
+  if (!value || typeof value !== "object") throw new Error("Undo record contains an invalid file image.");
+  const image = value as Record<string, unknown>;
+  if (image.exists === false) return { exists: false };
+  if (image.exists === true && (typeof image.content === "string" || image.content === null)) {
+    return { exists: true, content: image.content };
+  }
+  throw new Error("Undo record contains an invalid file image.");
+}
+
+function parseUndoRecord(value: unknown): MutationUndoRecord {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Undo record file must be an object.");
+  }
+  const file = value as Record<string, unknown>;
+  const record = file.record as Record<string, unknown> | undefined;
+  if (file.version !== UNDO_RECORD_VERSION || !record || typeof record !== "object"
+    || typeof record.conversationId !== "string"
+    || typeof record.toolCallId !== "string"
+    || typeof record.turnId !== "string"
+    || typeof record.toolName !== "string"
+    || !Number.isSafeInteger(record.capturedAt)
+    || !Array.isArray(record.changes)) {
+    throw new Error("Undo record is invalid.");
+  }
+  const changes = record.changes.map((entry: unknown): MutationUndoChange => {
+    const change = (entry ?? {}) as Record<string, unknown>;
+    if (change.kind === "move" && typeof change.source === "string" && typeof change.destination === "string") {
+      return { kind: "move", source: change.source, destination: change.destination };
+    }
+    if (change.kind === "content" && typeof change.path === "string") {
+      return {
+        kind: "content",
+        path: change.path,
+        before: parseFileImage(change.before),
+        after: change.after === null ? null : parseFileImage(change.after),
+      };
+    }
+    throw new Error("Undo record contains an invalid change.");
+  });
+  return {
+    conversationId: record.conversationId,
+    toolCallId: record.toolCallId,
+    turnId: record.turnId,
+    toolName: record.toolName,
+    capturedAt: record.capturedAt as number,
+    changes,
+  };
+}
+
+/** Reads a vault file the way undo records capture it. */
+export async function readMutationFileImage(
+  adapter: Pick<DataAdapter, "exists" | "read"> & Partial<Pick<DataAdapter, "stat">>,
+  path: string,
+): Promise<MutationFileImage> {
+  if (!(await adapter.exists(path))) return { exists: false };
+  const extension = path.includes(".") ? path.split(".").pop()!.toLowerCase() : "";
+  if (!UNDO_TEXT_EXTENSIONS.has(extension)) return { exists: true, content: null };
+  const stat = await adapter.stat?.(path);
+  if (stat && (stat.type !== "file" || stat.size > MAX_UNDO_CAPTURE_BYTES)) {
+    return { exists: true, content: null };
+  }
+  return { exists: true, content: await adapter.read(path) };
+}
+
+export function sameMutationFileImage(left: MutationFileImage | null, right: MutationFileImage | null): boolean {
+  if (!left || !right || left.exists !== right.exists) return false;
+  return !left.exists || (left.content !== null && left.content === (right as { content: string | null }).content);
+}
+
 /**
  * Crash-safe receipt store for local vault mutations. Each action has one
  * keyed receipt file. Receipts live until their conversation is deleted.
+ * Undo records are pruned sooner, by age and total size, after each capture.
  */
 export class AgentMutationJournal {
   private readonly state: SharedJournalState;
   private readonly recordsPath: string;
   private readonly migrationMarkerPath: string;
+  private readonly undoPath: string;
+  private lastCapturedAt = 0;
+  // Before-images stay in memory until the call returns: a call interrupted
+  // mid-way has an unknown outcome, so it is never offered for revert.
+  private readonly pendingUndo = new Map<string, MutationUndoRecord>();
 
   constructor(
     private readonly adapter: MutationJournalAdapter,
@@ -197,6 +360,7 @@ export class AgentMutationJournal {
     this.state = sharedJournalState(adapter, path);
     this.recordsPath = `${path}.records`;
     this.migrationMarkerPath = `${this.recordsPath}/${LEGACY_MIGRATION_MARKER}`;
+    this.undoPath = `${path}.undo`;
   }
 
   public async inspect(
@@ -320,8 +484,9 @@ export class AgentMutationJournal {
         throw new Error("Mutation journal adapter cannot delete conversations.");
       }
       try {
-        if (!(await this.adapter.exists(this.recordsPath))) return;
-        const listed = await list.call(this.adapter, this.recordsPath);
+        const listed = await this.adapter.exists(this.recordsPath)
+          ? await list.call(this.adapter, this.recordsPath)
+          : { files: [], folders: [] };
         const prefix = `${this.recordsPath}/`;
         for (const storagePath of listed.files) {
           const fileName = storagePath.startsWith(prefix) ? storagePath.slice(prefix.length) : "";
@@ -334,6 +499,22 @@ export class AgentMutationJournal {
             await remove.call(this.adapter, storagePath);
           }
         }
+        if (await this.adapter.exists(this.undoPath)) {
+          const undo = await list.call(this.adapter, this.undoPath);
+          for (const storagePath of undo.files) {
+            if (!RECORD_FILE_NAME.test(storagePath.split("/").pop() ?? "")) continue;
+            let record: MutationUndoRecord | null;
+            try {
+              record = parseUndoRecord(JSON.parse(await this.adapter.read(storagePath)));
+            } catch {
+              // A damaged undo record cannot be reverted by any conversation.
+              record = null;
+            }
+            if (!record || record.conversationId === conversationId) {
+              await remove.call(this.adapter, storagePath);
+            }
+          }
+        }
       } catch (error) {
         this.state.unavailable = true;
         throw error;
@@ -341,6 +522,100 @@ export class AgentMutationJournal {
     });
   }
 
+  /**
+   * Snapshots the files a mutating call is about to touch so the turn can be
+   * reverted later. Call before executing; pair with `captureAfterImage`.
+   */
+  public async captureBeforeImage(
+    conversationId: string,
+    toolCallId: string,
+    turnId: string,
+    name: string,
+    input: unknown,
+  ): Promise<void> {
+    await this.serialize(async () => {
+      const targets = undoTargets(name, input);
+      const changes: MutationUndoChange[] = [];
+      const paths = targets.recursive ? await this.expandFolders(targets.paths) : targets.paths;
+      for (const path of paths) {
+        changes.push({ kind: "content", path, before: await this.readImage(path), after: null });
+      }
+      for (const move of targets.moves) {
+        if (await this.adapter.exists(move.source)) changes.push({ kind: "move", ...move });
+      }
+      if (changes.length === 0) return;
+      this.lastCapturedAt = Math.max(this.now(), this.lastCapturedAt + 1);
+      this.pendingUndo.set(recordKey(conversationId, toolCallId), {
+        conversationId,
+        toolCallId,
+        turnId,
+        toolName: name,
+        capturedAt: this.lastCapturedAt,
+        changes,
+      });
+    });
+  }
+
+  /**
+   * Records what the call actually left behind. Untouched files are dropped,
+   * and a call that changed nothing leaves no undo record.
+   */
+  public async captureAfterImage(conversationId: string, toolCallId: string): Promise<void> {
+    const key = recordKey(conversationId, toolCallId);
+    const storagePath = await this.undoRecordPath(conversationId, toolCallId);
+    await this.serialize(async () => {
+      const record = this.pendingUndo.get(key);
+      if (!record) return;
+      this.pendingUndo.delete(key);
+      const changes: MutationUndoChange[] = [];
+      for (const change of record.changes) {
+        if (change.kind === "move") {
+          if (!(await this.adapter.exists(change.source)) && await this.adapter.exists(change.destination)) {
+            changes.push(change);
+          }
+          continue;
+        }
+        const after = await this.readImage(change.path);
+        if (!sameMutationFileImage(change.before, after)) changes.push({ ...change, after });
+      }
+      if (changes.length === 0) return;
+      await this.writeUndoRecord(storagePath, { ...record, changes });
+      // Housekeeping only: records left behind are pruned after a later capture.
+      await this.pruneUndoRecords().catch(() => undefined);
+    });
+  }
+
+  /** Undo records for a conversation, oldest first. */
+  public async listUndoRecords(conversationId: string): Promise<MutationUndoRecord[]> {
+    return this.serialize(async () => {
+      const list = this.adapter.list;
+      if (!list || !(await this.adapter.exists(this.undoPath))) return [];
+      const listed = await list.call(this.adapter, this.undoPath);
+      const records: MutationUndoRecord[] = [];
+      for (const storagePath of listed.files) {
+        if (!RECORD_FILE_NAME.test(storagePath.split("/").pop() ?? "")) continue;
+        try {
+          const record = parseUndoRecord(JSON.parse(await this.adapter.read(storagePath)));
+          if (record.conversationId === conversationId) records.push(record);
+        } catch {
+          // A damaged undo record only costs the ability to revert that call.
+        }
+      }
+      return records.sort((left, right) => left.capturedAt - right.capturedAt);
+    });
+  }
+
+  public async discardUndoRecords(conversationId: string, toolCallIds: readonly string[]): Promise<void> {
+    const storagePaths = await Promise.all(toolCallIds.map((id) => this.undoRecordPath(conversationId, id)));
+    await this.serialize(async () => {
+      const remove = this.adapter.remove;
+      if (!remove) return;
+      for (const storagePath of storagePaths) {
+        if (await this.adapter.exists(storagePath)) await remove.call(this.adapter, storagePath);
+      }
+    });
+  }
+
   public idle(): Promise<void> {
     return this.state.operations;
   }
@@ -429,6 +704,57 @@ export class AgentMutationJournal {
     await this.adapter.write(storagePath, JSON.stringify(keyed));
   }
 
+  private async undoRecordPath(conversationId: string, toolCallId: string): Promise<string> {
+    return `${this.undoPath}/${await recordFileName(conversationId, toolCallId)}`;
+  }
+
+  private async writeUndoRecord(storagePath: string, record: MutationUndoRecord): Promise<void> {
+    if (!(await this.adapter.exists(this.undoPath))) await this.adapter.mkdir(this.undoPath);
+    const file: UndoRecordFile = { version: UNDO_RECORD_VERSION, record };
+    await this.adapter.write(storagePath, JSON.stringify(file));
+  }
+
+  /** Removes expired undo records, then the oldest ones beyond the size budget. */
+  private async pruneUndoRecords(): Promise<void> {
+    const { list, remove, stat } = this.adapter;
+    if (!list || !remove || !stat) return;
+    const listed = await list.call(this.adapter, this.undoPath);
+    const files: Array<{ storagePath: string; mtime: number; size: number }> = [];
+    for (const storagePath of listed.files) {
+      if (!RECORD_FILE_NAME.test(storagePath.split("/").pop() ?? "")) continue;
+      const fileStat = await stat.call(this.adapter, storagePath);
+      if (fileStat) files.push({ storagePath, mtime: fileStat.mtime, size: fileStat.size });
+    }
+    const now = this.now();
+    let keptBytes = 0;
+    for (const file of files.sort((left, right) => right.mtime - left.mtime)) {
+      keptBytes += file.size;
+      if (now - file.mtime > UNDO_RECORD_RETENTION_MS || keptBytes > MAX_UNDO_STORAGE_BYTES) {
+        await remove.call(this.adapter, file.storagePath);
+      }
+    }
+  }
+
+  private async readImage(path: string): Promise<MutationFileImage> {
+    return readMutationFileImage(this.adapter, path);
+  }
+
+  private async expandFolders(paths: readonly string[]): Promise<string[]> {
+    const expanded: string[] = [];
+    const pending = [...paths];
+    while (pending.length > 0 && expanded.length < MAX_UNDO_CAPTURE_FILES) {
+      const path = pending.shift()!;
+      const stat = await this.adapter.stat?.(path);
+      if (stat?.type === "folder" && this.adapter.list) {
+        const listed = await this.adapter.list(path);
+        pending.push(...listed.files, ...listed.folders);
+        continue;
+      }
+      expanded.push(path);
+    }
+    return expanded;
+  }
+
   private async ensureRecordDirectory(): Promise<void> {
     if (this.state.directoryReady) return;
     const parent = this.recordsPath.split("/").slice(0, -1).join("/");
@@ -0,0 +1,175 @@
+import {
+  sameMutationFileImage,
+  type MutationFileImage,
+  type MutationUndoRecord,
+} from "./MutationJournal";
+
+export type MutationRevertStep =
+  | Readonly<{ kind: "write"; toolCallId: string; path: string; content: string; conflict: boolean }>
+  | Readonly<{ kind: "delete"; toolCallId: string; path: string; conflict: boolean }>
+  | Readonly<{ kind: "move"; toolCallId: string; from: string; to: string; conflict: boolean }>;
+
+export type MutationRevertFilePreview = Readonly<{
+  path: string;
+  current: MutationFileImage;
+  restored: MutationFileImage;
+  /** The file changed after the agent touched it. */
+  conflict: boolean;
+  /** The agent's change cannot be undone because its prior content was not captured. */
+  unrestorable: boolean;
+}>;
+
+export type MutationRevertPlan = Readonly<{
+  /** Newest change first, which is the order they must be applied in. */
+  steps: readonly MutationRevertStep[];
+  files: readonly MutationRevertFilePreview[];
+  moves: readonly Readonly<{ from: string; to: string; conflict: boolean }>[];
+  toolCallIds: readonly string[];
+}>;
+
+export type MutationRevertOperations = Readonly<{
+  write: (path: string, content: string) => Promise<void>;
+  delete: (path: string) => Promise<void>;
+  move: (from: string, to: string) => Promise<void>;
+}>;
+
+export type MutationRevertOutcome = Readonly<{
+  applied: number;
+  skipped: number;
+  failed: number;
+  /** Calls whose every step was restored; their undo records can be dropped. */
+  revertedToolCallIds: readonly string[];
+}>;
+
+function stepPaths(step: MutationRevertStep): string[] {
+  return step.kind === "move" ? [step.from, step.to] : [step.path];
+}
+
+function isWithin(path: string, folder: string): boolean {
+  return path === folder || path.startsWith(`${folder}/`);
+}
+
+/**
+ * Walks undo records newest-first over a virtual copy of the vault, so each
+ * step is checked against the state the later steps will have left behind.
+ */
+export async function planMutationRevert(
+  records: readonly MutationUndoRecord[],
+  readCurrent: (path: string) => Promise<MutationFileImage>,
+): Promise<MutationRevertPlan> {
+  const virtual = new Map<string, MutationFileImage>();
+  const initial = new Map<string, MutationFileImage>();
+  const conflicted = new Set<string>();
+  const unrestorable = new Set<string>();
+  const steps: MutationRevertStep[] = [];
+  const moves: Array<{ from: string; to: string; conflict: boolean }> = [];
+  const order: string[] = [];
+
+  const read = async (path: string): Promise<MutationFileImage> => {
+    const known = virtual.get(path);
+    if (known) return known;
+    const current = await readCurrent(path);
+    virtual.set(path, current);
+    return current;
+  };
+  const track = async (path: string) => {
+    if (initial.has(path)) return;
+    initial.set(path, await read(path));
+    order.push(path);
+  };
+
+  const newestFirst = [...records].sort((left, right) => right.capturedAt - left.capturedAt);
+  for (const record of newestFirst) {
+    for (const change of [...record.changes].reverse()) {
+      if (change.kind === "move") {
+        const destination = await read(change.destination);
+        const source = await read(change.source);
+        const conflict = !destination.exists || source.exists;
+        steps.push({ kind: "move", toolCallId: record.toolCallId, from: change.destination, to: change.source, conflict });
+        moves.push({ from: change.destination, to: change.source, conflict });
+        for (const [path, image] of [...virtual]) {
+          if (!isWithin(path, change.destination)) continue;
+          virtual.set(`${change.source}${path.slice(change.destination.length)}`, image);
+          virtual.set(path, { exists: false });
+        }
+        continue;
+      }
+      await track(change.path);
+      const current = await read(change.path);
+      const conflict = !sameMutationFileImage(current, change.after);
+      if (conflict) conflicted.add(change.path);
+      if (!change.before.exists) {
+        if (current.exists) {
+          steps.push({ kind: "delete", toolCallId: record.toolCallId, path: change.path, conflict });
+        }
+      } else if (change.before.content === null) {
+        unrestorable.add(change.path);
+        continue;
+      } else {
+        steps.push({
+          kind: "write",
+          toolCallId: record.toolCallId,
+          path: change.path,
+          content: change.before.content,
+          conflict,
+        });
+      }
+      virtual.set(change.path, change.before);
+    }
+  }
+
+  return {
+    steps,
+    files: order.map((path) => ({
+      path,
+      current: initial.get(path)!,
+      restored: virtual.get(path) ?? initial.get(path)!,
+      conflict: conflicted.has(path),
+      unrestorable: unrestorable.has(path),
+    })),
+    moves,
+    toolCallIds: [...new Set(records.map((record) => record.toolCallId))],
+  };
+}
+
+/**
+ * Applies a plan step by step. Conflicted paths are left alone unless the user
+ * chose to overwrite them, and an untouched path blocks older steps on it so
+ * a revert never lands on top of content it did not expect.
+ */
+export async function applyMutationRevert(
+  plan: MutationRevertPlan,
+  operations: MutationRevertOperations,
+  options: Readonly<{ overwriteConflicts: boolean }>,
+): Promise<MutationRevertOutcome> {
+  const blocked = new Set<string>();
+  const incomplete = new Set<string>();
+  let applied = 0;
+  let skipped = 0;
+  let failed = 0;
+  for (const step of plan.steps) {
+    const paths = stepPaths(step);
+    if (paths.some((path) => blocked.has(path)) || (step.conflict && !options.overwriteConflicts)) {
+      paths.forEach((path) => blocked.add(path));
+      incomplete.add(step.toolCallId);
+      skipped += 1;
+      continue;
+    }
+    try {
+      if (step.kind === "write") await operations.write(step.path, step.content);
+      else if (step.kind === "delete") await operations.delete(step.path);
+      else await operations.move(step.from, step.to);
+      applied += 1;
+    } catch {
+      paths.forEach((path) => blocked.add(path));
+      incomplete.add(step.toolCallId);
+      failed += 1;
+    }
+  }
+  return {
+    applied,
+    skipped,
+    failed,
+    revertedToolCallIds: plan.toolCallIds.filter((id) => !incomplete.has(id)),
+  };
+}
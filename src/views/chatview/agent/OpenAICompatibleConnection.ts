@@ -0,0 +1,385 @@
+import type { ChatMessage } from "../../../types";
+import { sha256HexFromBytesPortable } from "../../../studio/hash";
+import type {
+  ThinAgentBootstrapResponse,
+  ThinAgentContextResponse,
+  ThinAgentContextSource,
+  ThinAgentRunTerminalData,
+} from "../../../services/managed/ThinAgentV1Contract";
+import { THIN_AGENT_CONTRACT_VERSION } from "../../../services/managed/ThinAgentV1Contract";
+import type {
+  OpenAICompatibleClient,
+  OpenAICompatibleContentPart,
+  OpenAICompatibleMessage,
+} from "../../../services/providers/OpenAICompatibleClient";
+import type { AgentConnectionState } from "./AuthoritativeSession";
+import type { AgentChatConnection } from "./ChatSession";
+import {
+  THIN_AGENT_EVENT_TYPE,
+  type AgentApprovalCommand,
+  type AgentCancelCommand,
+  type AgentKnownRunState,
+  type AgentRegenerateCommand,
+  type AgentServerEvent,
+  type AgentSubmitCommand,
+  type AgentToolResultCommand,
+  type AgentUserMessage,
+} from "./Protocol";
+
+export type OpenAICompatibleConnectionOptions = Readonly<{
+  conversationId: string;
+  client: Pick<OpenAICompatibleClient, "stream" | "getProfile">;
+  /** Transcript to continue from, read once when the conversation first connects. */
+  history: () => readonly ChatMessage[];
+  systemPrompt?: () => string;
+}>;
+
+type HistoryEntry = Readonly<{
+  id: string;
+  message: OpenAICompatibleMessage;
+  /** Vault context the user message was sent with, so a regenerate sees the same notes. */
+  context?: readonly ThinAgentContextSource[];
+}>;
+
+/** A server event without the envelope fields `emit` fills in. */
+type AgentServerFrame = AgentServerEvent extends infer Event
+  ? Event extends AgentServerEvent ? Omit<Event, "type" | "version" | "conversation_id"> : never
+  : never;
+
+type ActiveTurn = Readonly<{
+  requestId: string;
+  runId: string;
+  rootMessageId: string;
+  abort: AbortController;
+}>;
+
+const DEFAULT_SYSTEM_PROMPT =
+  "You are SystemSculpt, a helpful assistant working inside the user's Obsidian vault. Answer in Markdown.";
+const NO_VAULT_TOOLS_PROMPT =
+  "You cannot read, search, or change the vault yourself. Work only from this conversation and the context the user attached.";
+const VAULT_TOOLS_UNAVAILABLE = "Vault tools are not available with your own provider.";
+const MAX_FAILURE_MESSAGE_LENGTH = 512;
+const CONTEXT_REF_SEGMENT_LENGTH = 43;
+const BASE64URL = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  const crypto = window.crypto;
+  if (typeof crypto?.getRandomValues === "function") {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let index = 0; index < length; index += 1) bytes[index] = Math.floor(Math.random() * 256);
+  }
+  return bytes;
+}
+
+function randomHex(bytes = 16): string {
+  return [...randomBytes(bytes)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function randomBase64Url(length: number): string {
+  return [...randomBytes(length)].map((byte) => BASE64URL[byte % 64]).join("");
+}
+
+function decodeTextDataUrl(url: string): string | null {
+  const match = url.match(/^data:[^,]*?(;base64)?,(.*)$/s);
+  if (!match) return null;
+  try {
+    if (!match[1]) return decodeURIComponent(match[2]);
+    const binary = atob(match[2]);
+    const bytes = Uint8Array.from(binary, (character) => character.charCodeAt(0));
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+function textOf(message: Readonly<ChatMessage>): string {
+  if (typeof message.content === "string") return message.content;
+  return (message.content ?? [])
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .filter((text) => text.length > 0)
+    .join("\n\n");
+}
+
+/** Converts a stored transcript message into the provider's chat format. */
+function toProviderHistory(message: Readonly<ChatMessage>): OpenAICompatibleMessage | null {
+  if (message.role === "assistant") {
+    const text = textOf(message).trim();
+    return text ? { role: "assistant", content: text } : null;
+  }
+  if (message.role !== "user") return null;
+  if (typeof message.content === "string") {
+    return message.content.trim() ? { role: "user", content: message.content } : null;
+  }
+  const parts: OpenAICompatibleContentPart[] = (message.content ?? []).map((part) =>
+    part.type === "text"
+      ? { type: "text", text: part.text }
+      : { type: "image_url", image_url: { url: part.image_url.url } });
+  return parts.length > 0 ? { role: "user", content: parts } : null;
+}
+
+function toProviderUser(message: AgentUserMessage, context: readonly ThinAgentContextSource[]): OpenAICompatibleMessage {
+  const parts: OpenAICompatibleContentPart[] = [];
+  for (const part of message.parts) {
+    if (part.type === "text") {
+      parts.push({ type: "text", text: part.text });
+    } else if (part.mediaType.startsWith("image/")) {
+      parts.push({ type: "image_url", image_url: { url: part.url } });
+    } else {
+      const text = decodeTextDataUrl(part.url);
+      const name = part.filename ?? "attachment";
+      parts.push({
+        type: "text",
+        text: text === null ? `[Attached file ${name} could not be read.]` : `Attached file ${name}:\n\n${text}`,
+      });
+    }
+  }
+  for (const source of context) {
+    if (source.kind === "image") parts.push({ type: "image_url", image_url: { url: source.data_url } });
+  }
+  return { role: "user", content: parts };
+}
+
+function contextPrompt(context: readonly ThinAgentContextSource[]): string {
+  const sections = context.flatMap((source) => {
+    if (source.kind === "text") return [`### ${source.path}\n\n${source.content}`];
+    if (source.kind === "document_ref") {
+      return [`### ${source.path}\n\n(This document was processed by SystemSculpt and is not available to this provider.)`];
+    }
+    return [];
+  });
+  return sections.length > 0 ? `Context from the user's vault:\n\n${sections.join("\n\n")}` : "";
+}
+
+function failureMessage(error: unknown): string {
+  const message = error instanceof Error && error.message.trim()
+    ? error.message.trim()
+    : "The provider could not complete this response.";
+  return message.slice(0, MAX_FAILURE_MESSAGE_LENGTH);
+}
+
+/**
+ * Runs a chat conversation against an OpenAI-compatible server while speaking
+ * the same authoritative event protocol as the SystemSculpt agent transport,
+ * so the chat session, presentation, and persistence paths stay unchanged.
+ *
+ * The provider has no durable conversation state: this connection keeps the
+ * history in memory, seeded once from the local transcript. Vault tools are
+ * not offered: the model is told it has none and no turn ever asks the client
+ * to run a tool, so tool results and approvals are rejected. The chat provider
+ * setting says the same.
+ */
+export class OpenAICompatibleConnection implements AgentChatConnection {
+  private connectionState: AgentConnectionState = "idle";
+  private readonly frameListeners = new Set<(frame: AgentServerEvent) => void>();
+  private readonly stateListeners = new Set<(state: AgentConnectionState) => void>();
+  private readonly stagedContext = new Map<string, readonly ThinAgentContextSource[]>();
+  private history: HistoryEntry[] | null = null;
+  private cursor = 0;
+  private active: ActiveTurn | null = null;
+  private disposed = false;
+
+  public constructor(private readonly options: OpenAICompatibleConnectionOptions) {}
+
+  public get state(): AgentConnectionState {
+    return this.connectionState;
+  }
+
+  public addAuthoritativeFrameListener(listener: (frame: AgentServerEvent) => void): () => void {
+    this.frameListeners.add(listener);
+    return () => { this.frameListeners.delete(listener); };
+  }
+
+  public addConnectionStateListener(listener: (state: AgentConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => { this.stateListeners.delete(listener); };
+  }
+
+  /** Publishes the session snapshot; conversation history stays local and is never replayed to the view. */
+  public async connect(): Promise<void> {
+    if (this.disposed) throw new Error("This chat connection is closed.");
+    this.setState("connecting");
+    this.history ??= this.options.history().flatMap((message) => {
+      const converted = toProviderHistory(message);
+      return converted ? [{ id: message.message_id, message: converted }] : [];
+    });
+    await Promise.resolve();
+    if (this.disposed) return;
+    this.emit({
+      kind: "session_snapshot",
+      messages: [],
+      run_state: this.runState(),
+      queued_request_ids: [],
+      cancelled_queued_request_ids: [],
+    });
+    this.setState("open");
+  }
+
+  public async bootstrap(): Promise<ThinAgentBootstrapResponse> {
+    throw new Error("Chats with your own provider do not use a SystemSculpt session.");
+  }
+
+  public invalidateBootstrap(): void {}
+
+  /** Holds vault context locally and returns a reference the next submit can name. */
+  public async stageContext(
+    rootMessageId: string,
+    contextSources: readonly ThinAgentContextSource[],
+  ): Promise<ThinAgentContextResponse> {
+    const contextRef = `ctx1_${randomBase64Url(CONTEXT_REF_SEGMENT_LENGTH)}.${randomBase64Url(CONTEXT_REF_SEGMENT_LENGTH)}`;
+    this.stagedContext.set(contextRef, contextSources);
+    const payload = new TextEncoder().encode(JSON.stringify({ rootMessageId, contextSources }));
+    return {
+      contract_version: THIN_AGENT_CONTRACT_VERSION,
+      context_ref: contextRef,
+      expires_at: new Date(Date.now() + 15 * 60_000).toISOString(),
+      bytes: payload.byteLength,
+      sha256: `sha256:${sha256HexFromBytesPortable(payload)}`,
+    };
+  }
+
+  public async sendSubmit(command: AgentSubmitCommand | AgentRegenerateCommand): Promise<void> {
+    if (this.disposed) return;
+    if (this.active) throw new Error("Wait for the current response to finish.");
+    const history = this.history ?? [];
+    let rootMessageId: string;
+    let context: readonly ThinAgentContextSource[] = [];
+    if (command.kind === "submit") {
+      rootMessageId = command.user_message.id;
+      if (command.context_ref) {
+        context = this.stagedContext.get(command.context_ref) ?? [];
+        this.stagedContext.delete(command.context_ref);
+      }
+      const existing = history.findIndex((entry) => entry.id === rootMessageId);
+      if (existing >= 0) history.splice(existing);
+      history.push({ id: rootMessageId, message: toProviderUser(command.user_message, context), context });
+    } else {
+      rootMessageId = command.root_message_id;
+      const root = history.findIndex((entry) => entry.id === rootMessageId);
+      if (root < 0) throw new Error("The message to regenerate is no longer in this chat.");
+      history.splice(root + 1);
+      context = history[root].context ?? [];
+    }
+    this.history = history;
+
+    const turn: ActiveTurn = {
+      requestId: command.request_id,
+      runId: `run_${randomHex()}`,
+      rootMessageId,
+      abort: new AbortController(),
+    };
+    this.active = turn;
+    this.emit({ kind: "command_ack", request_id: command.request_id, command_kind: command.kind, status: "accepted" });
+    this.emit({ kind: "run_state", run_state: this.runState() });
+    await this.runTurn(turn, context);
+  }
+
+  public async sendToolResult(_command: AgentToolResultCommand): Promise<void> {
+    throw new Error(VAULT_TOOLS_UNAVAILABLE);
+  }
+
+  public async sendApproval(_command: AgentApprovalCommand): Promise<void> {
+    throw new Error(VAULT_TOOLS_UNAVAILABLE);
+  }
+
+  public async sendCancel(command: AgentCancelCommand): Promise<void> {
+    this.emit({ kind: "command_ack", request_id: command.request_id, command_kind: "cancel", status: "accepted" });
+    if (this.active?.requestId === command.request_id) this.active.abort.abort();
+  }
+
+  public close(): void {
+    this.disposed = true;
+    this.active?.abort.abort();
+    this.active = null;
+    this.stagedContext.clear();
+    this.setState("closed");
+  }
+
+  private async runTurn(turn: ActiveTurn, context: readonly ThinAgentContextSource[]): Promise<void> {
+    const assistantId = `assistant_${randomHex()}`;
+    const systemPrompt = [
+      this.options.systemPrompt?.() || DEFAULT_SYSTEM_PROMPT,
+      NO_VAULT_TOOLS_PROMPT,
+      contextPrompt(context),
+    ]
+      .filter((section) => section.length > 0)
+      .join("\n\n");
+    const messages: OpenAICompatibleMessage[] = [
+      { role: "system", content: systemPrompt },
+      ...(this.history ?? []).map((entry) => entry.message),
+    ];
+    const publish = (text: string, state: "streaming" | "done") => {
+      this.emit({
+        kind: "assistant_snapshot",
+        request_id: turn.requestId,
+        message: { id: assistantId, role: "assistant", parts: text ? [{ type: "text", text, state }] : [] },
+      });
+    };
+
+    let terminal: ThinAgentRunTerminalData;
+    try {
+      const completion = await this.options.client.stream({
+        model: this.options.client.getProfile().chatModel,
+        messages,
+        signal: turn.abort.signal,
+        onText: (text) => {
+          if (this.active === turn) publish(text, "streaming");
+        },
+      });
+      if (turn.abort.signal.aborted) throw new DOMException("The operation was aborted", "AbortError");
+      publish(completion.text, "done");
+      this.history?.push({ id: assistantId, message: { role: "assistant", content: completion.text } });
+      terminal = { version: 1, run_id: turn.runId, root_message_id: turn.rootMessageId, outcome: "succeeded", code: "completed" };
+    } catch (error) {
+      terminal = turn.abort.signal.aborted
+        ? { version: 1, run_id: turn.runId, root_message_id: turn.rootMessageId, outcome: "cancelled", code: "cancelled" }
+        : {
+            version: 1,
+            run_id: turn.runId,
+            root_message_id: turn.rootMessageId,
+            outcome: "failed",
+            code: "provider_failed",
+            message: failureMessage(error),
+            incident_id: `incident_${randomHex()}`,
+            retryable: true,
+          };
+    }
+    if (this.disposed || this.active !== turn) return;
+    this.active = null;
+    this.emit({ kind: "terminal", request_id: turn.requestId, terminal });
+    this.emit({ kind: "run_state", run_state: this.runState() });
+  }
+
+  private runState(): AgentKnownRunState {
+    this.cursor += 1;
+    const turn = this.active;
+    return turn
+      ? {
+          version: 1,
+          cursor: this.cursor,
+          state: "running",
+          request_id: turn.requestId,
+          run_id: turn.runId,
+          root_message_id: turn.rootMessageId,
+        }
+      : { version: 1, cursor: this.cursor, state: "idle" };
+  }
+
+  private emit(frame: AgentServerFrame): void {
+    if (this.disposed) return;
+    const event: AgentServerEvent = {
+      type: THIN_AGENT_EVENT_TYPE,
+      version: 1,
+      conversation_id: this.options.conversationId,
+      ...frame,
+    };
+    for (const listener of this.frameListeners) listener(event);
+  }
+
+  private setState(next: AgentConnectionState): void {
+    if (this.connectionState === next) return;
+    this.connectionState = next;
+    for (const listener of this.stateListeners) listener(next);
+  }
+}
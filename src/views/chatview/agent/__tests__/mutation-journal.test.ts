@@ -3,6 +3,8 @@ import {
   AgentMutationJournal,
   MAX_LEGACY_JOURNAL_CHARACTERS,
   MAX_LEGACY_JOURNAL_RECORDS,
+  MAX_UNDO_STORAGE_BYTES,
+  UNDO_RECORD_RETENTION_MS,
   canonicalAgentToolInput,
 } from "../MutationJournal";
 
@@ -25,6 +27,7 @@ function inputFingerprint(name: string, canonicalInput: string): string {
 function adapterHarness(initial?: string | ReadonlyMap<string, string>) {
   const files = new Map<string, string>();
   const directories = new Set<string>(["", ".systemsculpt"]);
+  const stats = new Map<string, { mtime: number; size?: number }>();
   if (typeof initial === "string") files.set(JOURNAL_PATH, initial);
   else if (initial) {
     for (const [path, content] of initial) files.set(path, content);
@@ -49,8 +52,8 @@ function adapterHarness(initial?: string | ReadonlyMap<string, string>) {
         return {
           type: "file" as const,
           ctime: 0,
-          mtime: 0,
-          size: new TextEncoder().encode(content).byteLength,
+          mtime: stats.get(path)?.mtime ?? 0,
+          size: stats.get(path)?.size ?? new TextEncoder().encode(content).byteLength,
         };
       }
       if (directories.has(path)) {
@@ -60,6 +63,7 @@ function adapterHarness(initial?: string | ReadonlyMap<string, string>) {
     }),
     write: jest.fn(async (path: string, value: string) => {
       files.set(path, value);
+      stats.set(path, { mtime: Date.now() });
     }),
     mkdir: jest.fn(async (path: string) => {
       directories.add(path);
@@ -92,6 +96,9 @@ function adapterHarness(initial?: string | ReadonlyMap<string, string>) {
         directories.add(parts.slice(0, index).join("/"));
       }
     },
+    setStat: (path: string, stat: { mtime: number; size?: number }) => {
+      stats.set(path, stat);
+    },
     recordFiles: () => [...files.entries()].filter(([path]) =>
       path.startsWith(`${RECORDS_PATH}/`) && /\/[a-f0-9]{64}\.json$/.test(path)),
   };
@@ -623,4 +630,115 @@ describe("AgentMutationJournal", () => {
     });
     expect(harness.adapter.list).toHaveBeenCalledTimes(1);
   });
+
+  it("captures before and after images for reverting a turn", async () => {
+    const harness = adapterHarness();
+    harness.setFile("Notes/A.md", "old");
+    harness.setFile("Notes/B.md", "keep");
+    const journal = new AgentMutationJournal(harness.adapter, JOURNAL_PATH, () => 5);
+
+    await journal.captureBeforeImage("conversation-a", "call-1", "turn-1", "multi_edit", {
+      files: [{ path: "Notes/A.md", edits: [] }, { path: "Notes/B.md", edits: [] }, { path: "New.md", edits: [] }],
+    });
+    harness.setFile("Notes/A.md", "new");
+    harness.setFile("New.md", "created");
+    await journal.captureAfterImage("conversation-a", "call-1");
+
+    const records = await journal.listUndoRecords("conversation-a");
+    expect(records).toEqual([expect.objectContaining({
+      turnId: "turn-1",
+      toolName: "multi_edit",
+      changes: [
+        { kind: "content", path: "Notes/A.md", before: { exists: true, content: "old" }, after: { exists: true, content: "new" } },
+        { kind: "content", path: "New.md", before: { exists: false }, after: { exists: true, content: "created" } },
+      ],
+    })]);
+    expect(await journal.listUndoRecords("conversation-b")).toEqual([]);
+  });
+
+  it("drops undo records for calls that changed nothing and for discarded calls", async () => {
+    const harness = adapterHarness();
+    harness.setFile("A.md", "same");
+    harness.setFile("B.md", "before");
+    const journal = new AgentMutationJournal(harness.adapter, JOURNAL_PATH);
+
+    await journal.captureBeforeImage("conversation-a", "call-1", "turn-1", "write", { path: "A.md", content: "same" });
+    await journal.captureAfterImage("conversation-a", "call-1");
+    await journal.captureBeforeImage("conversation-a", "call-2", "turn-1", "write", { path: "B.md", content: "after" });
+    await journal.captureBeforeImage("conversation-a", "call-3", "turn-1", "edit", { path: "B.md", edits: [] });
+    harness.setFile("B.md", "after");
+    await journal.captureAfterImage("conversation-a", "call-2");
+
+    expect((await journal.listUndoRecords("conversation-a")).map((record) => record.toolCallId))
+      .toEqual(["call-2"]);
+    await journal.discardUndoRecords("conversation-a", ["call-2"]);
+    expect(await journal.listUndoRecords("conversation-a")).toEqual([]);
+  });
+
+  it("captures trashed folders file by file and moves only when they happened", async () => {
+    const harness = adapterHarness();
+    harness.setFile("Old/One.md", "one");
+    harness.setFile("Old/Deep/Two.png", "binary");
+    harness.setFile("Source.md", "moved");
+    const journal = new AgentMutationJournal(harness.adapter, JOURNAL_PATH);
+
+    await journal.captureBeforeImage("conversation-a", "call-1", "turn-1", "trash", { paths: ["Old"] });
+    await journal.captureBeforeImage("conversation-a", "call-2", "turn-1", "move", {
+      items: [{ source: "Source.md", destination: "Target.md" }, { source: "Missing.md", destination: "Elsewhere.md" }],
+    });
+    for (const path of ["Old/One.md", "Old/Deep/Two.png", "Source.md"]) await harness.adapter.remove(path);
+    harness.setFile("Target.md", "moved");
+    await journal.captureAfterImage("conversation-a", "call-1");
+    await journal.captureAfterImage("conversation-a", "call-2");
+
+    const [trash, move] = await journal.listUndoRecords("conversation-a");
+    expect(trash.changes).toEqual([
+      { kind: "content", path: "Old/One.md", before: { exists: true, content: "one" }, after: { exists: false } },
+      { kind: "content", path: "Old/Deep/Two.png", before: { exists: true, content: null }, after: { exists: false } },
+    ]);
+    expect(move.changes).toEqual([{ kind: "move", source: "Source.md", destination: "Target.md" }]);
+
+    await journal.deleteConversation("conversation-a");
+    expect(await journal.listUndoRecords("conversation-a")).toEqual([]);
+  });
+
+  it("deletes a conversation past a damaged undo record and keeps the journal available", async () => {
+    const harness = adapterHarness();
+    harness.setFile("A.md", "before");
+    const journal = new AgentMutationJournal(harness.adapter, JOURNAL_PATH);
+    await journal.captureBeforeImage("conversation-a", "call-1", "turn-1", "write", { path: "A.md", content: "after" });
+    harness.setFile("A.md", "after");
+    await journal.captureAfterImage("conversation-a", "call-1");
+    const damaged = `${JOURNAL_PATH}.undo/${"0".repeat(64)}.json`;
+    harness.setFile(damaged, "{\"version\":1,\"record\":");
+
+    await journal.deleteConversation("conversation-a");
+
+    expect(harness.file(damaged)).toBeUndefined();
+    expect(await journal.listUndoRecords("conversation-a")).toEqual([]);
+    expect(await journal.claim("conversation-b", "call-1", "write", { path: "B.md" })).toEqual({ kind: "execute" });
+  });
+
+  it("prunes expired undo records and the oldest beyond the size budget", async () => {
+    const harness = adapterHarness();
+    const now = Date.now();
+    const journal = new AgentMutationJournal(harness.adapter, JOURNAL_PATH, () => now);
+    const capture = async (toolCallId: string) => {
+      harness.setFile(`${toolCallId}.md`, "before");
+      await journal.captureBeforeImage("conversation-a", toolCallId, "turn-1", "write", { path: `${toolCallId}.md` });
+      harness.setFile(`${toolCallId}.md`, "after");
+      await journal.captureAfterImage("conversation-a", toolCallId);
+    };
+    const undoPath = (toolCallId: string) =>
+      `${JOURNAL_PATH}.undo/${sha256(JSON.stringify(["conversation-a", toolCallId]))}.json`;
+
+    await capture("expired");
+    await capture("large");
+    harness.setStat(undoPath("expired"), { mtime: now - UNDO_RECORD_RETENTION_MS - 1 });
+    harness.setStat(undoPath("large"), { mtime: now - 2, size: MAX_UNDO_STORAGE_BYTES });
+    await capture("recent");
+
+    expect((await journal.listUndoRecords("conversation-a")).map((record) => record.toolCallId))
+      .toEqual(["recent"]);
+  });
 });
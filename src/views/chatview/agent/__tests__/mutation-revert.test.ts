@@ -0,0 +1,97 @@
+import type { MutationFileImage, MutationUndoChange, MutationUndoRecord } from "../MutationJournal";
+import { applyMutationRevert, planMutationRevert } from "../MutationRevert";
+
+function record(toolCallId: string, capturedAt: number, changes: MutationUndoChange[]): MutationUndoRecord {
+  return {
+    conversationId: "conversation-a",
+    toolCallId,
+    turnId: "turn-1",
+    toolName: "write",
+    capturedAt,
+    changes,
+  };
+}
+
+const text = (content: string): MutationFileImage => ({ exists: true, content });
+const absent: MutationFileImage = { exists: false };
+
+function vault(initial: Record<string, string>) {
+  const files = new Map(Object.entries(initial));
+  return {
+    files,
+    read: async (path: string): Promise<MutationFileImage> =>
+      files.has(path) ? text(files.get(path)!) : absent,
+    operations: {
+      write: jest.fn(async (path: string, content: string) => { files.set(path, content); }),
+      delete: jest.fn(async (path: string) => { files.delete(path); }),
+      move: jest.fn(async (from: string, to: string) => {
+        files.set(to, files.get(from)!);
+        files.delete(from);
+      }),
+    },
+  };
+}
+
+describe("mutation revert", () => {
+  it("restores chained edits, deletes created files, and moves items back", async () => {
+    const state = vault({ "A.md": "v3", "New.md": "created", "Moved/B.md": "b" });
+    const plan = await planMutationRevert([
+      record("call-1", 1, [{ kind: "content", path: "A.md", before: text("v1"), after: text("v2") }]),
+      record("call-2", 2, [{ kind: "content", path: "A.md", before: text("v2"), after: text("v3") }]),
+      record("call-3", 3, [{ kind: "content", path: "New.md", before: absent, after: text("created") }]),
+      record("call-4", 4, [{ kind: "move", source: "B.md", destination: "Moved/B.md" }]),
+    ], state.read);
+
+    expect(plan.files).toEqual([
+      expect.objectContaining({ path: "New.md", current: text("created"), restored: absent, conflict: false }),
+      expect.objectContaining({ path: "A.md", current: text("v3"), restored: text("v1"), conflict: false }),
+    ]);
+    const outcome = await applyMutationRevert(plan, state.operations, { overwriteConflicts: false });
+
+    expect(Object.fromEntries(state.files)).toEqual({ "A.md": "v1", "B.md": "b" });
+    expect(outcome).toEqual({
+      applied: 4,
+      skipped: 0,
+      failed: 0,
+      revertedToolCallIds: ["call-1", "call-2", "call-3", "call-4"],
+    });
+  });
+
+  it("leaves files edited after the agent alone unless told to overwrite them", async () => {
+    const changes: MutationUndoChange[] = [{ kind: "content", path: "A.md", before: text("v1"), after: text("v2") }];
+    const state = vault({ "A.md": "user edit" });
+    const plan = await planMutationRevert([record("call-1", 1, changes)], state.read);
+
+    expect(plan.files[0]).toMatchObject({ conflict: true });
+    const kept = await applyMutationRevert(plan, state.operations, { overwriteConflicts: false });
+    expect(kept).toMatchObject({ applied: 0, skipped: 1, revertedToolCallIds: [] });
+    expect(state.files.get("A.md")).toBe("user edit");
+
+    const forced = await applyMutationRevert(plan, state.operations, { overwriteConflicts: true });
+    expect(forced).toMatchObject({ applied: 1, revertedToolCallIds: ["call-1"] });
+    expect(state.files.get("A.md")).toBe("v1");
+  });
+
+  it("blocks older steps on a path once a newer step on it was skipped", async () => {
+    const state = vault({ "A.md": "user edit" });
+    const plan = await planMutationRevert([
+      record("call-1", 1, [{ kind: "content", path: "A.md", before: text("v1"), after: text("v2") }]),
+      record("call-2", 2, [{ kind: "content", path: "A.md", before: text("v2"), after: text("v3") }]),
+    ], state.read);
+
+    const outcome = await applyMutationRevert(plan, state.operations, { overwriteConflicts: false });
+
+    expect(outcome).toMatchObject({ applied: 0, skipped: 2 });
+    expect(state.operations.write).not.toHaveBeenCalled();
+  });
+
+  it("reports uncaptured content as unrestorable without planning a write", async () => {
+    const state = vault({});
+    const plan = await planMutationRevert([
+      record("call-1", 1, [{ kind: "content", path: "Image.png", before: { exists: true, content: null }, after: absent }]),
+    ], state.read);
+
+    expect(plan.steps).toEqual([]);
+    expect(plan.files).toEqual([expect.objectContaining({ path: "Image.png", unrestorable: true })]);
+  });
+});
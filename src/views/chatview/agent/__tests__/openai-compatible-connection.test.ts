@@ -0,0 +1,186 @@
+import { createHash } from "crypto";
+import type { ChatMessage } from "../../../../types";
+import { OpenAICompatibleConnection } from "../OpenAICompatibleConnection";
+import {
+  THIN_AGENT_COMMAND_TYPE,
+  parseAgentServerEvent,
+  type AgentServerEvent,
+} from "../Protocol";
+
+const CONVERSATION_ID = `conversation_${"a".repeat(32)}`;
+
+function submit(requestId: string, messageId: string, text: string, contextRef?: string) {
+  return {
+    type: THIN_AGENT_COMMAND_TYPE,
+    version: 1 as const,
+    kind: "submit" as const,
+    request_id: requestId,
+    user_message: { id: messageId, role: "user" as const, parts: [{ type: "text" as const, text }] },
+    ...(contextRef ? { context_ref: contextRef } : {}),
+  };
+}
+
+function harness(history: readonly ChatMessage[] = []) {
+  const stream = jest.fn(async (request: { onText: (text: string) => void }) => {
+    request.onText("Hel");
+    request.onText("Hello");
+    return { id: "cmpl_1", text: "Hello", finishReason: "stop", usage: null };
+  });
+  const connection = new OpenAICompatibleConnection({
+    conversationId: CONVERSATION_ID,
+    client: {
+      stream: stream as any,
+      getProfile: () => ({
+        baseUrl: "http://localhost:11434/v1",
+        apiKey: "",
+        chatModel: "llama3.1",
+        textGenerationModel: "",
+        embeddingsModel: "",
+      }),
+    },
+    history: () => history,
+  });
+  const frames: AgentServerEvent[] = [];
+  connection.addAuthoritativeFrameListener((frame) => {
+    frames.push(parseAgentServerEvent(JSON.parse(JSON.stringify(frame)), CONVERSATION_ID));
+  });
+  return { connection, frames, stream };
+}
+
+describe("OpenAICompatibleConnection", () => {
+  it("opens with an empty session snapshot so the local transcript is kept", async () => {
+    const { connection, frames } = harness();
+    const states: string[] = [];
+    connection.addConnectionStateListener((state) => states.push(state));
+
+    await connection.connect();
+
+    expect(states).toEqual(["connecting", "open"]);
+    expect(frames).toEqual([expect.objectContaining({ kind: "session_snapshot", messages: [] })]);
+  });
+
+  it("streams a turn as valid protocol frames and carries history forward", async () => {
+    const { connection, frames, stream } = harness([
+      { role: "user", content: "Earlier question", message_id: "user_0" } as ChatMessage,
+      { role: "assistant", content: "Earlier answer", message_id: "assistant_0" } as ChatMessage,
+    ]);
+    await connection.connect();
+
+    await connection.sendSubmit(submit("req_1", "user_1", "Hi"));
+
+    expect(frames.map((frame) => frame.kind)).toEqual([
+      "session_snapshot",
+      "command_ack",
+      "run_state",
+      "assistant_snapshot",
+      "assistant_snapshot",
+      "assistant_snapshot",
+      "terminal",
+      "run_state",
+    ]);
+    expect(frames[6]).toMatchObject({ terminal: { outcome: "succeeded", root_message_id: "user_1" } });
+    expect(stream.mock.calls[0][0]).toMatchObject({
+      model: "llama3.1",
+      messages: [
+        { role: "system" },
+        { role: "user", content: "Earlier question" },
+        { role: "assistant", content: "Earlier answer" },
+        { role: "user", content: [{ type: "text", text: "Hi" }] },
+      ],
+    });
+
+    await connection.sendSubmit(submit("req_2", "user_2", "Again"));
+    expect((stream.mock.calls[1][0] as any).messages.slice(-2)).toEqual([
+      { role: "assistant", content: "Hello" },
+      { role: "user", content: [{ type: "text", text: "Again" }] },
+    ]);
+  });
+
+  it("adds staged vault context to the system prompt of the next submit", async () => {
+    const { connection, stream } = harness();
+    await connection.connect();
+
+    const staged = await connection.stageContext("user_1", [
+      { kind: "text", path: "Notes/Plan.md", content: "Ship on Friday." } as any,
+    ]);
+    await connection.sendSubmit(submit("req_1", "user_1", "When?", staged.context_ref));
+
+    expect(staged.context_ref).toMatch(/^ctx1_[A-Za-z0-9_-]{43}\.[A-Za-z0-9_-]{43}$/);
+    expect(staged.sha256).toBe(
+      `sha256:${createHash("sha256").update(JSON.stringify({
+        rootMessageId: "user_1",
+        contextSources: [{ kind: "text", path: "Notes/Plan.md", content: "Ship on Friday." }],
+      })).digest("hex")}`
+    );
+    expect((stream.mock.calls[0][0] as any).messages[0].content).toContain("### Notes/Plan.md\n\nShip on Friday.");
+  });
+
+  it("regenerates with the vault context the original message was sent with", async () => {
+    const { connection, stream } = harness();
+    await connection.connect();
+    const staged = await connection.stageContext("user_1", [
+      { kind: "text", path: "Notes/Plan.md", content: "Ship on Friday." } as any,
+    ]);
+    await connection.sendSubmit(submit("req_1", "user_1", "When?", staged.context_ref));
+
+    await connection.sendSubmit({
+      type: THIN_AGENT_COMMAND_TYPE,
+      version: 1,
+      kind: "regenerate",
+      request_id: "req_2",
+      root_message_id: "user_1",
+    });
+
+    const regenerated = (stream.mock.calls[1][0] as any).messages;
+    expect(regenerated[0].content).toContain("### Notes/Plan.md\n\nShip on Friday.");
+    expect(regenerated.slice(1)).toEqual([{ role: "user", content: [{ type: "text", text: "When?" }] }]);
+  });
+
+  it("tells the model it has no vault tools and rejects tool commands", async () => {
+    const { connection, stream } = harness();
+    await connection.connect();
+
+    await connection.sendSubmit(submit("req_1", "user_1", "Find my plan"));
+
+    expect((stream.mock.calls[0][0] as any).messages[0].content).toContain("You cannot read, search, or change the vault yourself.");
+    await expect(connection.sendApproval({
+      type: THIN_AGENT_COMMAND_TYPE,
+      version: 1,
+      kind: "client_tool_approval",
+      request_id: "req_2",
+      tool_call_id: "call_1",
+      approved: true,
+    })).rejects.toThrow("Vault tools are not available with your own provider.");
+  });
+
+  it("reports provider failures as a retryable terminal", async () => {
+    const { connection, frames, stream } = harness();
+    stream.mockRejectedValueOnce(new Error("Could not reach http://localhost:11434/v1"));
+    await connection.connect();
+
+    await connection.sendSubmit(submit("req_1", "user_1", "Hi"));
+
+    expect(frames.find((frame) => frame.kind === "terminal")).toMatchObject({
+      terminal: {
+        outcome: "failed",
+        code: "provider_failed",
+        retryable: true,
+        message: "Could not reach http://localhost:11434/v1",
+      },
+    });
+  });
+
+  it("cancels the active turn", async () => {
+    const { connection, frames, stream } = harness();
+    stream.mockImplementationOnce((request: any) => new Promise((_, reject) => {
+      request.signal.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+    }));
+    await connection.connect();
+
+    const pending = connection.sendSubmit(submit("req_1", "user_1", "Hi"));
+    await connection.sendCancel({ type: THIN_AGENT_COMMAND_TYPE, version: 1, kind: "cancel", request_id: "req_1" });
+    await pending;
+
+    expect(frames.find((frame) => frame.kind === "terminal")).toMatchObject({ terminal: { outcome: "cancelled" } });
+  });
+});
@@ -0,0 +1,182 @@
+import { TFile, TFolder, type App, type CachedMetadata } from "obsidian";
+import { fuzzyMatchScore } from "../../../tools/vault/searchUtils";
+import { createTextAttachmentPart } from "../attachments/ChatAttachmentContent";
+import type { ChatMessageAttachment } from "../attachments/ChatMessageAttachments";
+
+export type VaultMentionKind = "note" | "folder" | "heading" | "block";
+
+/**
+ * One `@` suggestion. Section mentions carry a wikilink-style subpath
+ * (`#Heading` or `#^block-id`) so they read and resolve like `[[note#...]]`.
+ */
+export type VaultMentionTarget = Readonly<{
+  key: string;
+  kind: VaultMentionKind;
+  path: string;
+  subpath?: string;
+  label: string;
+  detail: string;
+}>;
+
+export const MAX_VAULT_MENTION_RESULTS = 20;
+export const MAX_FOLDER_MENTION_FILES = 25;
+export const MAX_FOLDER_MENTION_BYTES = 256 * 1024;
+
+const MENTION_MIME_TYPE = "text/markdown";
+
+function withoutMarkdownExtension(path: string): string {
+  return path.replace(/\.md$/i, "");
+}
+
+function rank<T>(items: readonly T[], query: string, text: (item: T) => string): T[] {
+  if (!query) return items.slice(0, MAX_VAULT_MENTION_RESULTS);
+  return items
+    .map((item) => ({ item, score: fuzzyMatchScore(query, text(item)) }))
+    .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+    .sort((left, right) => left.score - right.score || text(left.item).length - text(right.item).length)
+    .slice(0, MAX_VAULT_MENTION_RESULTS)
+    .map((entry) => entry.item);
+}
+
+function resolveMentionNote(app: App, linkpath: string): TFile | null {
+  const trimmed = linkpath.trim();
+  if (!trimmed) return null;
+  const linked = app.metadataCache.getFirstLinkpathDest(trimmed, "");
+  if (linked) return linked;
+  return rank(app.vault.getMarkdownFiles(), trimmed, (file) => withoutMarkdownExtension(file.path))[0] ?? null;
+}
+
+/** Text to leave in the draft where the `@query` was typed. */
+export function vaultMentionReference(target: VaultMentionTarget): string {
+  if (target.kind === "folder") return `${target.path}/`;
+  return `[[${withoutMarkdownExtension(target.path)}${target.subpath ?? ""}]]`;
+}
+
+/**
+ * Suggestions for the text after `@`. A plain query matches notes and
+ * folders; `note#` lists that note's headings and `note#^` its blocks.
+ */
+export function searchVaultMentions(app: App, query: string): VaultMentionTarget[] {
+  const hash = query.indexOf("#");
+  if (hash < 0) {
+    const notes = app.vault.getMarkdownFiles().map((file): VaultMentionTarget => ({
+      key: `note:${file.path}`,
+      kind: "note",
+      path: file.path,
+      label: file.basename,
+      detail: file.parent && !file.parent.isRoot() ? file.parent.path : "",
+    }));
+    const folders = app.vault.getAllLoadedFiles()
+      .filter((entry): entry is TFolder => entry instanceof TFolder && !entry.isRoot())
+      .map((folder): VaultMentionTarget => ({
+        key: `folder:${folder.path}`,
+        kind: "folder",
+        path: folder.path,
+        label: `${folder.name}/`,
+        detail: folder.parent && !folder.parent.isRoot() ? folder.parent.path : "",
+      }));
+    return rank([...notes, ...folders], query, (target) => withoutMarkdownExtension(target.path));
+  }
+
+  const file = resolveMentionNote(app, query.slice(0, hash));
+  if (!file) return [];
+  const cache = app.metadataCache.getFileCache(file);
+  const section = query.slice(hash + 1);
+  if (section.startsWith("^")) {
+    const blocks = Object.keys(cache?.blocks ?? {}).map((id): VaultMentionTarget => ({
+      key: `block:${file.path}#^${id}`,
+      kind: "block",
+      path: file.path,
+      subpath: `#^${id}`,
+      label: `^${id}`,
+      detail: file.basename,
+    }));
+    return rank(blocks, section.slice(1), (target) => target.label.slice(1));
+  }
+  const headings = (cache?.headings ?? []).map((heading, index): VaultMentionTarget => ({
+    key: `heading:${file.path}#${index}`,
+    kind: "heading",
+    path: file.path,
+    subpath: `#${heading.heading}`,
+    label: heading.heading,
+    detail: `${file.basename} · H${heading.level}`,
+  }));
+  return rank(headings, section, (target) => target.label);
+}
+
+/**
+ * Cuts a heading's section (up to the next heading of the same or higher
+ * level) or a block out of a note, using the offsets Obsidian indexed.
+ */
+export function extractVaultMentionSection(
+  content: string,
+  cache: CachedMetadata | null,
+  subpath: string,
+): string | null {
+  if (subpath.startsWith("#^")) {
+    const block = cache?.blocks?.[subpath.slice(2)];
+    return block ? content.slice(block.position.start.offset, block.position.end.offset).trim() : null;
+  }
+  const headings = cache?.headings ?? [];
+  const index = headings.findIndex((heading) => heading.heading === subpath.slice(1));
+  if (index < 0) return null;
+  const heading = headings[index];
+  const next = headings.slice(index + 1).find((candidate) => candidate.level <= heading.level);
+  return content.slice(heading.position.start.offset, next?.position.start.offset ?? content.length).trim();
+}
+
+async function readFolderMention(app: App, folder: TFolder): Promise<string> {
+  const prefix = `${folder.path}/`;
+  const files = app.vault.getMarkdownFiles()
+    .filter((file) => file.path.startsWith(prefix))
+    .sort((left, right) => left.path.localeCompare(right.path));
+  const sections: string[] = [];
+  const encoder = new TextEncoder();
+  let bytes = 0;
+  for (const file of files.slice(0, MAX_FOLDER_MENTION_FILES)) {
+    const section = `### ${file.path}\n\n${(await app.vault.cachedRead(file)).trim()}`;
+    const size = encoder.encode(section).byteLength;
+    if (sections.length > 0 && bytes + size > MAX_FOLDER_MENTION_BYTES) break;
+    sections.push(section);
+    bytes += size;
+  }
+  const omitted = files.slice(sections.length).map((file) => `- ${file.path}`);
+  return [
+    `Folder ${folder.path}: ${sections.length} of ${files.length} notes included.`,
+    ...sections,
+    ...(omitted.length > 0 ? [`Not included:\n${omitted.join("\n")}`] : []),
+  ].join("\n\n");
+}
+
+/**
+ * Reads exactly the mentioned scope into a one-message attachment. Returns
+ * null when the note, folder or section no longer exists.
+ */
+export async function resolveVaultMention(
+  app: App,
+  target: VaultMentionTarget,
+): Promise<ChatMessageAttachment | null> {
+  const entry = app.vault.getAbstractFileByPath(target.path);
+  let body: string | null = null;
+  if (target.kind === "folder") {
+    if (entry instanceof TFolder) body = await readFolderMention(app, entry);
+  } else if (entry instanceof TFile) {
+    const content = await app.vault.cachedRead(entry);
+    body = target.subpath
+      ? extractVaultMentionSection(content, app.metadataCache.getFileCache(entry), target.subpath)
+      : content;
+  }
+  if (body === null) return null;
+
+  const name = target.kind === "folder" ? `${target.path}/` : `${target.path}${target.subpath ?? ""}`;
+  const bytes = new TextEncoder().encode(body);
+  return Object.freeze({
+    status: "ready" as const,
+    id: `mention:${name}`,
+    name,
+    mimeType: MENTION_MIME_TYPE,
+    byteLength: bytes.byteLength,
+    kind: "text" as const,
+    contentPart: createTextAttachmentPart(name, MENTION_MIME_TYPE, bytes),
+  });
+}
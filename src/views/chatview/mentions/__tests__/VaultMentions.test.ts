@@ -0,0 +1,111 @@
+import { TFile, TFolder } from "obsidian";
+import { parseAttachedTextContent } from "../../attachments/ChatAttachmentContent";
+import {
+  extractVaultMentionSection,
+  MAX_FOLDER_MENTION_FILES,
+  resolveVaultMention,
+  searchVaultMentions,
+  vaultMentionReference,
+} from "../VaultMentions";
+
+const PLAN = [
+  "# Plan",
+  "Intro",
+  "## Goals",
+  "Ship it ^goal-1",
+  "### Detail",
+  "More",
+  "## Risks",
+  "None",
+].join("\n");
+
+function offsetOf(line: number): number {
+  return PLAN.split("\n").slice(0, line).join("\n").length + (line > 0 ? 1 : 0);
+}
+
+const heading = (text: string, level: number, line: number) => ({
+  heading: text,
+  level,
+  position: { start: { line, col: 0, offset: offsetOf(line) }, end: { line, col: 0, offset: offsetOf(line) } },
+});
+
+const PLAN_CACHE = {
+  headings: [heading("Plan", 1, 0), heading("Goals", 2, 2), heading("Detail", 3, 4), heading("Risks", 2, 6)],
+  blocks: {
+    "goal-1": {
+      id: "goal-1",
+      position: { start: { line: 3, col: 0, offset: offsetOf(3) }, end: { line: 3, col: 15, offset: offsetOf(3) + 15 } },
+    },
+  },
+};
+
+function vault(files: Record<string, string>) {
+  const root = new TFolder({ path: "/" });
+  const folders = new Map<string, TFolder>();
+  const entries = Object.keys(files).map((path) => {
+    const file = new TFile({ path });
+    const folderPath = path.split("/").slice(0, -1).join("/");
+    if (folderPath && !folders.has(folderPath)) {
+      const folder = new TFolder({ path: folderPath });
+      (folder as any).parent = root;
+      folders.set(folderPath, folder);
+    }
+    (file as any).parent = folders.get(folderPath) ?? root;
+    return file;
+  });
+  const byPath = new Map<string, unknown>([...entries.map((file) => [file.path, file] as const), ...folders]);
+  return {
+    vault: {
+      getMarkdownFiles: () => entries,
+      getAllLoadedFiles: () => [root, ...folders.values(), ...entries],
+      getAbstractFileByPath: (path: string) => byPath.get(path) ?? null,
+      cachedRead: async (file: TFile) => files[file.path],
+    },
+    metadataCache: {
+      getFirstLinkpathDest: (linkpath: string) =>
+        entries.find((file) => file.path === `${linkpath}.md` || file.basename === linkpath) ?? null,
+      getFileCache: (file: TFile) => (file.path === "Projects/Plan.md" ? PLAN_CACHE : null),
+    },
+  } as any;
+}
+
+describe("vault mentions", () => {
+  it("suggests notes and folders, then headings and blocks of the named note", () => {
+    const app = vault({ "Projects/Plan.md": PLAN, "Inbox.md": "inbox" });
+
+    expect(searchVaultMentions(app, "proj").map((target) => target.key))
+      .toEqual(["folder:Projects", "note:Projects/Plan.md"]);
+    expect(searchVaultMentions(app, "Plan#go").map((target) => [target.label, target.subpath]))
+      .toEqual([["Goals", "#Goals"]]);
+    expect(searchVaultMentions(app, "Plan#^").map((target) => vaultMentionReference(target)))
+      .toEqual(["[[Projects/Plan#^goal-1]]"]);
+  });
+
+  it("extracts a heading's section down to the next heading of its level, and single blocks", () => {
+    expect(extractVaultMentionSection(PLAN, PLAN_CACHE as any, "#Goals"))
+      .toBe("## Goals\nShip it ^goal-1\n### Detail\nMore");
+    expect(extractVaultMentionSection(PLAN, PLAN_CACHE as any, "#^goal-1")).toBe("Ship it ^goal-1");
+    expect(extractVaultMentionSection(PLAN, PLAN_CACHE as any, "#Missing")).toBeNull();
+  });
+
+  it("attaches only the mentioned scope and bounds folder expansion", async () => {
+    const files: Record<string, string> = { "Projects/Plan.md": PLAN };
+    for (let index = 0; index < MAX_FOLDER_MENTION_FILES + 2; index += 1) {
+      files[`Notes/${String(index).padStart(2, "0")}.md`] = `note ${index}`;
+    }
+    const app = vault(files);
+
+    const section = await resolveVaultMention(app, searchVaultMentions(app, "Plan#Risks")[0]);
+    expect(section).toMatchObject({ id: "mention:Projects/Plan.md#Risks", kind: "text", name: "Projects/Plan.md#Risks" });
+    expect(parseAttachedTextContent((section!.contentPart as { text: string }).text)?.body).toBe("## Risks\nNone");
+
+    const folder = await resolveVaultMention(app, { key: "folder:Notes", kind: "folder", path: "Notes", label: "Notes/", detail: "" });
+    const body = parseAttachedTextContent((folder!.contentPart as { text: string }).text)!.body;
+    expect(body).toContain(`${MAX_FOLDER_MENTION_FILES} of ${MAX_FOLDER_MENTION_FILES + 2} notes included`);
+    expect(body).toContain("### Notes/00.md\n\nnote 0");
+    expect(body).toContain(`Not included:\n- Notes/${MAX_FOLDER_MENTION_FILES}.md`);
+
+    expect(await resolveVaultMention(app, { key: "note:Gone.md", kind: "note", path: "Gone.md", label: "Gone", detail: "" }))
+      .toBeNull();
+  });
+});
@@ -528,6 +528,7 @@ export class ChatMarkdownSerializer {
         }).filter((file) => file.path.length > 0)
       : [];
     const tags = this.normalizeTags(parsed.tags);
+    const persona = typeof parsed.persona === "string" ? parsed.persona.trim() : "";
 
     return {
       id,
@@ -539,6 +540,7 @@ export class ChatMarkdownSerializer {
       context_files: processedContextFiles,
       chatFontSize: parsed.chatFontSize as "small" | "medium" | "large" | undefined,
       approvalMode: parsed.approvalMode === "full-access" ? "full-access" : "ask",
+      ...(persona ? { persona } : {}),
       agentConversationId: parseAgentConversationId(parsed.agentConversationId),
     };
   }
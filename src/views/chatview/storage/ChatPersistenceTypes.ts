@@ -22,6 +22,8 @@ export interface ChatMetadata {
   context_files?: ChatContextFileMetadata[];
   chatFontSize?: "small" | "medium" | "large";
   approvalMode?: ChatApprovalMode;
+  /** Vault path of the agent persona note this chat runs as. */
+  persona?: string;
   /**
    * A routing pointer only. The server owns conversation state and validates
    * this identifier on every bootstrap.
@@ -40,16 +42,20 @@ export interface ChatResumeDescriptor {
   chatPath: string;
   lastModified: number;
   messageCount: number;
+  /** Message to scroll to once the chat has loaded. */
+  focusMessageId?: string;
 }
 
 export function buildChatLeafState(input: {
   chatId: string;
   title: string;
   chatPath: string;
+  focusMessageId?: string;
 }): Record<string, unknown> {
   return {
     chatId: input.chatId,
     chatTitle: input.title,
     file: input.chatPath,
+    ...(input.focusMessageId ? { focusMessageId: input.focusMessageId } : {}),
   };
 }
@@ -6,12 +6,24 @@ import {
   createUiState,
   SurfaceCombobox,
 } from "../../core/ui/surface";
+import {
+  rankHistoryEntries,
+  type SystemSculptHistoryMatch,
+  type SystemSculptHistorySemanticHit,
+} from "./historySearch";
 import type { SystemSculptHistoryEntry } from "./types";
 
 interface SystemSculptHistoryModalOptions {
   loadEntries?: (signal?: AbortSignal) => Promise<SystemSculptHistoryEntry[]>;
+  searchSemantic?: (
+    entries: readonly SystemSculptHistoryEntry[],
+    query: string,
+    signal?: AbortSignal
+  ) => Promise<Map<string, SystemSculptHistorySemanticHit>>;
 }
 
+const SEMANTIC_SEARCH_DELAY_MS = 300;
+
 export class SystemSculptHistoryModal extends StandardModal {
   private entries: SystemSculptHistoryEntry[] = [];
   private listEl!: HTMLElement;
@@ -19,6 +31,10 @@ export class SystemSculptHistoryModal extends StandardModal {
   private searchInput!: HTMLInputElement;
   private combobox: SurfaceCombobox<SystemSculptHistoryEntry> | null = null;
   private isLoading = false;
+  private matches = new Map<string, SystemSculptHistoryMatch>();
+  private semanticQuery = "";
+  private semanticHits = new Map<string, SystemSculptHistorySemanticHit>();
+  private semanticTimer: number | null = null;
 
   constructor(
     private readonly plugin: SystemSculptPlugin,
@@ -32,7 +48,7 @@ export class SystemSculptHistoryModal extends StandardModal {
   async onOpen(): Promise<void> {
     super.onOpen();
 
-    this.addTitle("Open history", "Search chats and Studio sessions in one place.");
+    this.addTitle("Open history", "Search chats, including tool output, and Studio sessions in one place.");
     this.renderSearchBar();
     this.renderContainers();
     this.initializeCombobox();
@@ -49,7 +65,10 @@ export class SystemSculptHistoryModal extends StandardModal {
     this.searchInput = this.addSearchBar(
       "history.search",
       "Search chats and Studio sessions…",
-      (query) => this.combobox?.setQuery(query, { writeInput: false }),
+      (query) => {
+        this.combobox?.setQuery(query, { writeInput: false });
+        this.scheduleSemanticSearch(query);
+      },
     );
   }
 
@@ -76,13 +95,12 @@ export class SystemSculptHistoryModal extends StandardModal {
       selectionFollowsActive: true,
       activeClass: "is-selected",
       scrollBehavior: "smooth",
-      getItemKey: (entry) => `${entry.kind}:${entry.id}`,
+      getItemKey: (entry) => this.entryKey(entry),
       filterItems: (entries, query) => {
-        const normalizedQuery = query.trim().toLowerCase();
-        if (!normalizedQuery) return entries;
-        return entries.filter((entry) =>
-          entry.searchText.includes(normalizedQuery)
-          || entry.title.toLowerCase().includes(normalizedQuery));
+        const semanticHits = query.trim() === this.semanticQuery ? this.semanticHits : undefined;
+        const ranked = rankHistoryEntries(entries, query, semanticHits);
+        this.matches = new Map(ranked.map(({ entry, match }) => [this.entryKey(entry), match]));
+        return ranked.map(({ entry }) => entry);
       },
       renderOption: ({ item }) => this.renderEntry(item),
       renderEmpty: ({ query }) => {
@@ -131,6 +149,57 @@ export class SystemSculptHistoryModal extends StandardModal {
     }
   }
 
+  private entryKey(entry: SystemSculptHistoryEntry): string {
+    return `${entry.kind}:${entry.id}`;
+  }
+
+  /** Meaning-based hits arrive after the lexical results and re-rank them in place. */
+  private scheduleSemanticSearch(query: string): void {
+    this.cancelSemanticSearch();
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    const ownerWindow = this.modalEl.ownerDocument.defaultView ?? window;
+    this.semanticTimer = ownerWindow.setTimeout(() => {
+      this.semanticTimer = null;
+      void this.runSemanticSearch(trimmed);
+    }, SEMANTIC_SEARCH_DELAY_MS);
+  }
+
+  private cancelSemanticSearch(): void {
+    if (this.semanticTimer !== null) {
+      (this.modalEl.ownerDocument.defaultView ?? window).clearTimeout(this.semanticTimer);
+      this.semanticTimer = null;
+    }
+  }
+
+  private async runSemanticSearch(query: string): Promise<void> {
+    const task = this.beginAsyncTask("history-semantic");
+    try {
+      const hits = await this.searchSemantic(this.entries, query, task.signal);
+      if (!task.isCurrent() || this.searchInput.value.trim() !== query) return;
+      this.semanticQuery = query;
+      this.semanticHits = hits;
+      if (hits.size > 0) {
+        this.combobox?.refresh();
+      }
+    } catch {
+      // Lexical results already cover the query; meaning is a bonus.
+    }
+  }
+
+  private async searchSemantic(
+    entries: readonly SystemSculptHistoryEntry[],
+    query: string,
+    signal?: AbortSignal
+  ): Promise<Map<string, SystemSculptHistorySemanticHit>> {
+    if (this.options.searchSemantic) {
+      return this.options.searchSemantic(entries, query, signal);
+    }
+
+    const historyProviders = await import("./historyProviders");
+    return historyProviders.searchSystemSculptHistorySemantic(this.plugin, entries, query, signal);
+  }
+
   private async loadEntries(signal?: AbortSignal): Promise<SystemSculptHistoryEntry[]> {
     if (this.options.loadEntries) {
       return this.options.loadEntries(signal);
@@ -185,11 +254,17 @@ export class SystemSculptHistoryModal extends StandardModal {
     const subtitle = row.createDiv("systemsculpt-history-item-subtitle");
     subtitle.setText(entry.subtitle || "");
 
+    const excerpt = this.matches.get(this.entryKey(entry))?.excerpt;
+    if (excerpt) {
+      row.createDiv({ cls: "systemsculpt-history-item-excerpt", text: excerpt });
+    }
+
     return row;
   }
 
   private async openEntry(entry: SystemSculptHistoryEntry): Promise<void> {
-    await entry.openPrimary();
+    const messageId = this.matches.get(this.entryKey(entry))?.messageId;
+    await entry.openPrimary(messageId ? { messageId } : undefined);
     this.close();
   }
 
@@ -226,6 +301,9 @@ export class SystemSculptHistoryModal extends StandardModal {
   }
 
   onClose(): void {
+    this.cancelSemanticSearch();
+    this.semanticQuery = "";
+    this.semanticHits = new Map();
     this.combobox?.destroy();
     this.combobox = null;
     this.stateEl = null;
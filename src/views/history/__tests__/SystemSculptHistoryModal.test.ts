@@ -118,6 +118,51 @@ describe("SystemSculptHistoryModal lifecycle", () => {
     expect(first.openPrimary).not.toHaveBeenCalled();
   });
 
+  it("shows matching-message excerpts, re-ranks by meaning, and opens at the matched message", async () => {
+    jest.useFakeTimers();
+    const decision: SystemSculptHistoryEntry = {
+      ...entry("decision", "Weekly sync"),
+      searchText: "weekly sync",
+      searchMessages: [{
+        messageId: "m4",
+        normalizedText: "we decided to adopt postgres.",
+        readText: () => "We decided to adopt Postgres.",
+      }],
+    };
+    const other = entry("other", "Postgres tuning");
+    const searchSemantic = jest.fn().mockResolvedValue(new Map([["decision", { score: 1 }]]));
+    const plugin = { app: new App() } as any;
+    const modal = new SystemSculptHistoryModal(plugin, {
+      loadEntries: jest.fn().mockResolvedValue([other, decision]),
+      searchSemantic,
+    });
+
+    modal.open();
+    await flush();
+
+    const input = modal.modalEl.querySelector<HTMLInputElement>("input[type=search]")!;
+    const listbox = modal.modalEl.querySelector<HTMLElement>(".systemsculpt-history-list")!;
+    input.value = "postgres";
+    input.dispatchEvent(new Event("input", { bubbles: true }));
+
+    const titles = () => Array.from(listbox.querySelectorAll(".systemsculpt-history-item-title"))
+      .map((title) => title.textContent);
+    expect(titles()).toEqual(["Postgres tuning", "Weekly sync"]);
+    expect(listbox.querySelector(".systemsculpt-history-item-excerpt")?.textContent).toBe("We decided to adopt Postgres.");
+
+    jest.advanceTimersByTime(300);
+    await flush();
+    expect(searchSemantic).toHaveBeenCalledWith([other, decision], "postgres", expect.any(AbortSignal));
+    expect(titles()).toEqual(["Weekly sync", "Postgres tuning"]);
+
+    input.dispatchEvent(new KeyboardEvent("keydown", { key: "Home", bubbles: true, cancelable: true }));
+    input.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter", bubbles: true, cancelable: true }));
+    await flush();
+
+    expect(decision.openPrimary).toHaveBeenCalledWith({ messageId: "m4" });
+    jest.useRealTimers();
+  });
+
   it("allows the mobile history body to shrink in short landscape viewports", () => {
     const css = readFileSync("src/css/components/history.css", "utf8");
 
@@ -62,4 +62,51 @@ describe("chatHistoryProvider", () => {
     });
   });
 
+  it("indexes multipart content and tool results and resumes at a matched message", async () => {
+    const loadChats = jest.fn(async () => [
+      {
+        id: "chat-2",
+        title: "Storage",
+        lastModified: 1,
+        chatPath: "SystemSculpt/Chats/chat-2.md",
+        messages: [
+          { role: "user", message_id: "m1", content: [{ type: "text", text: "Compare the databases" }] },
+          {
+            role: "assistant",
+            message_id: "m2",
+            content: "",
+            messageParts: [{
+              id: "p1",
+              type: "tool_call",
+              timestamp: 1,
+              data: {
+                id: "call-1",
+                messageId: "m2",
+                state: "completed",
+                timestamp: 1,
+                request: { id: "call-1", type: "function", function: { name: "read", arguments: "{}" } },
+                result: { success: true, data: { text: "Decision: adopt Postgres" } },
+              },
+            }],
+          },
+        ],
+      },
+    ]);
+    (ChatStorageService as jest.Mock).mockImplementation(() => ({ loadChats }));
+    (ChatFavoritesService.getInstance as jest.Mock).mockReturnValue({ isFavorite: jest.fn(() => false) });
+    const plugin = { app: {}, settings: { chatsDirectory: "SystemSculpt/Chats" } } as any;
+
+    const [entry] = await createChatHistoryProvider(plugin).loadEntries();
+
+    expect(entry.searchMessages?.map((message) => message.messageId)).toEqual(["m1", "m2"]);
+    expect(entry.searchMessages?.[0].normalizedText).toContain("compare the databases");
+    expect(entry.searchMessages?.[1].normalizedText).toContain("adopt postgres");
+    expect(entry.searchMessages?.[1].readText()).toContain("Decision: adopt Postgres");
+
+    await entry.openPrimary({ messageId: "m2" });
+    expect(ChatResumeUtils.openChatResumeDescriptor).toHaveBeenCalledWith(
+      plugin,
+      expect.objectContaining({ chatId: "chat-2", focusMessageId: "m2" })
+    );
+  });
 });
@@ -1,4 +1,8 @@
-import { createSystemSculptHistoryProviders, sortHistoryEntriesNewestFirst } from "../historyProviders";
+import {
+  createSystemSculptHistoryProviders,
+  searchSystemSculptHistorySemantic,
+  sortHistoryEntriesNewestFirst,
+} from "../historyProviders";
 import type { SystemSculptHistoryEntry } from "../types";
 
 describe("historyProviders", () => {
@@ -51,4 +55,32 @@ describe("historyProviders", () => {
       "studio-session-history",
     ]);
   });
+
+  it("scores chats by meaning only when chat transcripts are embedded", async () => {
+    const searchSimilar = jest.fn().mockResolvedValue([
+      { path: "SystemSculpt/Chats/a.md", score: 0.9, metadata: { title: "a", excerpt: "chunk one", lastModified: 0 } },
+      { path: "SystemSculpt/Chats/a.md", score: 0.4, metadata: { title: "a", excerpt: "chunk two", lastModified: 0 } },
+      { path: "Notes/other.md", score: 0.8, metadata: { title: "other", excerpt: "", lastModified: 0 } },
+    ]);
+    const plugin = {
+      settings: { embeddingsEnabled: true, embeddingsExclusions: { ignoreChatHistory: true } },
+      getOrCreateEmbeddingsManager: () => ({ searchSimilar }),
+    } as any;
+    const entries: SystemSculptHistoryEntry[] = [{
+      id: "chat:a",
+      kind: "chat",
+      title: "A",
+      timestampMs: 1,
+      searchText: "a",
+      metadataPath: "SystemSculpt/Chats/a.md",
+      openPrimary: async () => {},
+    }];
+
+    expect((await searchSystemSculptHistorySemantic(plugin, entries, "database")).size).toBe(0);
+    expect(searchSimilar).not.toHaveBeenCalled();
+
+    plugin.settings.embeddingsExclusions.ignoreChatHistory = false;
+    const hits = await searchSystemSculptHistorySemantic(plugin, entries, "database");
+    expect([...hits.entries()]).toEqual([["chat:a", { score: 0.9, excerpt: "chunk one" }]]);
+  });
 });
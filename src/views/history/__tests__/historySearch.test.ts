@@ -0,0 +1,81 @@
+import { extractChatMessageSearchText, normalizeHistorySearchText, rankHistoryEntries } from "../historySearch";
+import type { SystemSculptHistoryEntry } from "../types";
+
+const chat = (id: string, title: string, timestampMs: number, texts: string[]): SystemSculptHistoryEntry => {
+  const searchMessages = texts.map((text, index) => ({
+    messageId: `${id}-m${index}`,
+    normalizedText: normalizeHistorySearchText(text),
+    readText: () => text,
+  }));
+  return {
+    id,
+    kind: "chat",
+    title,
+    timestampMs,
+    searchText: title.toLowerCase(),
+    searchMessages,
+    openPrimary: jest.fn(),
+  };
+};
+
+describe("extractChatMessageSearchText", () => {
+  it("reads text parts, tool arguments, and tool results but not reasoning", () => {
+    const text = extractChatMessageSearchText({
+      role: "assistant",
+      message_id: "m1",
+      content: [{ type: "text", text: "Here is the plan." }],
+      reasoning: "secret deliberation",
+      tool_calls: [{
+        id: "call-1",
+        messageId: "m1",
+        state: "failed",
+        timestamp: 1,
+        request: { id: "call-1", type: "function", function: { name: "search", arguments: "{\"q\":\"budget\"}" } },
+        result: { success: false, error: { code: "E", message: "Quota exceeded" } },
+      }],
+    });
+
+    expect(text).toContain("Here is the plan.");
+    expect(text).toContain("search");
+    expect(text).toContain("budget");
+    expect(text).toContain("Quota exceeded");
+    expect(text).not.toContain("secret deliberation");
+  });
+});
+
+describe("rankHistoryEntries", () => {
+  it("requires every word, ranks by relevance, and points at the best message", () => {
+    const entries = [
+      chat("chat:old", "Weekly sync", 100, ["We decided to adopt Postgres for storage.", "Unrelated follow-up."]),
+      chat("chat:new", "Storage ideas", 200, ["Postgres or SQLite?"]),
+      chat("chat:none", "Groceries", 300, ["Milk and eggs"]),
+    ];
+
+    const ranked = rankHistoryEntries(entries, "decided postgres");
+
+    expect(ranked.map(({ entry }) => entry.id)).toEqual(["chat:old"]);
+    expect(ranked[0].match.messageId).toBe("chat:old-m0");
+    expect(ranked[0].match.excerpt).toBe("We decided to adopt Postgres for storage.");
+  });
+
+  it("keeps entries matched only by meaning and maps their excerpt to a message", () => {
+    const entries = [
+      chat("chat:a", "Infra", 100, ["We settled on a relational database for the ledger service."]),
+      chat("chat:b", "Lunch", 200, ["Tacos on Friday"]),
+    ];
+    const semanticHits = new Map([
+      ["chat:a", { score: 0.8, excerpt: "We settled on a relational database for the ledger service." }],
+    ]);
+
+    const ranked = rankHistoryEntries(entries, "which db did we choose", semanticHits);
+
+    expect(ranked.map(({ entry }) => entry.id)).toEqual(["chat:a"]);
+    expect(ranked[0].match.messageId).toBe("chat:a-m0");
+  });
+
+  it("returns every entry unranked for an empty query", () => {
+    const entries = [chat("chat:a", "A", 1, []), chat("chat:b", "B", 2, [])];
+
+    expect(rankHistoryEntries(entries, "  ").map(({ entry }) => entry.id)).toEqual(["chat:a", "chat:b"]);
+  });
+});
@@ -2,22 +2,34 @@ import type SystemSculptPlugin from "../../main";
 import { ChatFavoritesService } from "../chatview/ChatFavoritesService";
 import { openChatResumeDescriptor } from "../chatview/ChatResumeUtils";
 import { ChatStorageService } from "../chatview/ChatStorageService";
-import type { SystemSculptHistoryEntry, SystemSculptHistoryProvider } from "./types";
+import type { ChatMessage } from "../../types";
+import { extractChatMessageSearchText, normalizeHistorySearchText } from "./historySearch";
+import type {
+  SystemSculptHistoryEntry,
+  SystemSculptHistoryProvider,
+  SystemSculptHistorySearchMessage,
+} from "./types";
 
-function joinMessageContent(messages: unknown[]): string {
+function buildSearchMessages(messages: unknown): SystemSculptHistorySearchMessage[] {
   if (!Array.isArray(messages)) {
-    return "";
+    return [];
   }
-  return messages
-    .map((message) => {
-      if (!message || typeof message !== "object") {
-        return "";
-      }
-      const content = (message as { content?: unknown }).content;
-      return typeof content === "string" ? content : "";
-    })
-    .filter((value) => value.length > 0)
-    .join("\n");
+  const searchMessages: SystemSculptHistorySearchMessage[] = [];
+  for (const message of messages as ChatMessage[]) {
+    if (!message || typeof message !== "object") {
+      continue;
+    }
+    const normalizedText = normalizeHistorySearchText(extractChatMessageSearchText(message));
+    if (normalizedText.length > 0) {
+      searchMessages.push({
+        messageId: String(message.message_id || ""),
+        normalizedText,
+        // The chat stays loaded for resuming, so only excerpts pay to rebuild the text.
+        readText: () => extractChatMessageSearchText(message),
+      });
+    }
+  }
+  return searchMessages;
 }
 
 function asTimestamp(value: unknown): number {
@@ -42,14 +54,10 @@ export function createChatHistoryProvider(plugin: SystemSculptPlugin): SystemScu
         const isFavorite = chatFavorites.isFavorite(summary.id);
         const messageCount = Array.isArray(summary.messages) ? summary.messages.length : 0;
         const subtitle = `${messageCount} messages`;
-        const searchText = [
-          title,
-          summary.id,
-          joinMessageContent(summary.messages || []),
-        ]
+        const searchMessages = buildSearchMessages(summary.messages);
+        const searchText = [title.toLowerCase(), summary.id.toLowerCase()]
           .filter((segment) => segment.length > 0)
-          .join("\n")
-          .toLowerCase();
+          .join("\n");
 
         return {
           id: `chat:${summary.id}`,
@@ -58,19 +66,21 @@ export function createChatHistoryProvider(plugin: SystemSculptPlugin): SystemScu
           subtitle,
           timestampMs,
           searchText,
+          searchMessages,
           metadataPath: summary.chatPath,
           isFavorite,
           toggleFavorite: async () => {
             await chatFavorites.toggleFavorite(summary.id);
             return chatFavorites.isFavorite(summary.id);
           },
-          openPrimary: async () => {
+          openPrimary: async (target) => {
             await openChatResumeDescriptor(plugin, {
               chatId: summary.id,
               title,
               chatPath: summary.chatPath,
               lastModified: timestampMs,
               messageCount,
+              ...(target?.messageId ? { focusMessageId: target.messageId } : {}),
             });
           },
         };
@@ -1,8 +1,11 @@
 import type SystemSculptPlugin from "../../main";
 import { createChatHistoryProvider } from "./chatHistoryProvider";
 import { createStudioSessionHistoryProvider } from "./studioSessionHistoryProvider";
+import type { SystemSculptHistorySemanticHit } from "./historySearch";
 import type { SystemSculptHistoryEntry, SystemSculptHistoryProvider } from "./types";
 
+const SEMANTIC_HISTORY_CANDIDATES = 40;
+
 export function createSystemSculptHistoryProviders(
   plugin: SystemSculptPlugin,
   includeStudioSessions: boolean = true
@@ -37,3 +40,41 @@ export async function loadSystemSculptHistoryEntries(plugin: SystemSculptPlugin)
 
   return sortHistoryEntriesNewestFirst(groups.flat());
 }
+
+/**
+ * Scores chats by meaning through the embeddings index. Chat transcripts are
+ * only embedded when similar notes is on and chat history is not excluded, so
+ * anything else returns no hits and search stays lexical.
+ */
+export async function searchSystemSculptHistorySemantic(
+  plugin: SystemSculptPlugin,
+  entries: readonly SystemSculptHistoryEntry[],
+  query: string,
+  signal?: AbortSignal
+): Promise<Map<string, SystemSculptHistorySemanticHit>> {
+  const hits = new Map<string, SystemSculptHistorySemanticHit>();
+  const prepared = query.trim();
+  if (!prepared || !plugin.settings.embeddingsEnabled || plugin.settings.embeddingsExclusions?.ignoreChatHistory !== false) {
+    return hits;
+  }
+  const entriesByPath = new Map(
+    entries
+      .filter((entry) => entry.kind === "chat" && entry.metadataPath)
+      .map((entry) => [entry.metadataPath as string, entry])
+  );
+  if (entriesByPath.size === 0) {
+    return hits;
+  }
+
+  const results = await plugin.getOrCreateEmbeddingsManager().searchSimilar(prepared, SEMANTIC_HISTORY_CANDIDATES, signal);
+  for (const result of results) {
+    const entry = entriesByPath.get(result.path);
+    // Results are per chunk and best first, so the first chunk per chat wins.
+    if (!entry || hits.has(entry.id)) continue;
+    hits.set(entry.id, {
+      score: Math.max(0, Math.min(1, result.score ?? 0)),
+      excerpt: result.metadata?.excerpt,
+    });
+  }
+  return hits;
+}
@@ -0,0 +1,205 @@
+import type { ChatMessage } from "../../types";
+import type { ToolCall } from "../../types/toolCalls";
+import type { SystemSculptHistoryEntry, SystemSculptHistorySearchMessage } from "./types";
+
+export type SystemSculptHistoryMatch = {
+  score: number;
+  /** The chat message the query matched best, for resuming at it. */
+  messageId?: string;
+  excerpt?: string;
+};
+
+export type SystemSculptHistorySemanticHit = {
+  score: number;
+  excerpt?: string;
+};
+
+export type RankedHistoryEntry = {
+  entry: SystemSculptHistoryEntry;
+  match: SystemSculptHistoryMatch;
+};
+
+const EXCERPT_RADIUS = 80;
+const TITLE_TERM_WEIGHT = 3;
+const PHRASE_WEIGHT = 2;
+const SEMANTIC_WEIGHT = 4;
+const MAX_TERM_OCCURRENCES = 3;
+
+function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return "";
+  }
+}
+
+function contentText(content: ChatMessage["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part) => (part && part.type === "text" && typeof part.text === "string" ? part.text : ""))
+    .filter((text) => text.length > 0)
+    .join("\n");
+}
+
+function toolCallText(call: ToolCall | undefined): string {
+  if (!call) return "";
+  return [
+    call.request?.function?.name ?? "",
+    call.request?.function?.arguments ?? "",
+    stringifyValue(call.result?.data),
+    call.result?.error?.message ?? "",
+  ]
+    .filter((segment) => segment.length > 0)
+    .join("\n");
+}
+
+/**
+ * Everything searchable in one saved message: text and multipart content,
+ * tool call arguments and results, and tool-role output. Reasoning stays out
+ * so searches land on what was said and done, not on deliberation.
+ */
+export function extractChatMessageSearchText(message: ChatMessage): string {
+  const segments = [contentText(message.content)];
+  for (const part of message.messageParts ?? []) {
+    if (part.type === "content") {
+      segments.push(contentText(part.data));
+    } else if (part.type === "tool_call") {
+      segments.push(toolCallText(part.data));
+    }
+  }
+  if (!message.messageParts?.some((part) => part.type === "tool_call")) {
+    for (const call of message.tool_calls ?? []) {
+      segments.push(toolCallText(call));
+    }
+  }
+  const unique = Array.from(new Set(segments.map((segment) => segment.trim()).filter((segment) => segment.length > 0)));
+  return unique.join("\n");
+}
+
+/** Lowercases and collapses whitespace, the form queries and message text are compared in. */
+export function normalizeHistorySearchText(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function normalizeQuery(query: string): { phrase: string; terms: string[] } {
+  const phrase = normalizeHistorySearchText(query);
+  return { phrase, terms: Array.from(new Set(phrase.split(" ").filter(Boolean))) };
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1 && count < MAX_TERM_OCCURRENCES) {
+    count += 1;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+function buildExcerpt(text: string, needle: string): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  const index = needle ? collapsed.toLowerCase().indexOf(needle) : -1;
+  const start = Math.max(0, index === -1 ? 0 : index - EXCERPT_RADIUS);
+  const end = Math.min(collapsed.length, index === -1 ? EXCERPT_RADIUS * 2 : index + needle.length + EXCERPT_RADIUS);
+  return `${start > 0 ? "…" : ""}${collapsed.slice(start, end).trim()}${end < collapsed.length ? "…" : ""}`;
+}
+
+function scoreMessage(message: SystemSculptHistorySearchMessage, terms: string[], phrase: string): number {
+  const lower = message.normalizedText;
+  let score = 0;
+  for (const term of terms) {
+    const occurrences = countOccurrences(lower, term);
+    if (occurrences > 0) {
+      score += 1 + (occurrences - 1) * 0.25;
+    }
+  }
+  if (terms.length > 1 && lower.includes(phrase)) {
+    score += PHRASE_WEIGHT;
+  }
+  return score;
+}
+
+/** Finds the message a semantic excerpt came from, so semantic hits can still jump. */
+function findMessageForExcerpt(
+  messages: readonly SystemSculptHistorySearchMessage[],
+  excerpt: string
+): SystemSculptHistorySearchMessage | undefined {
+  const probe = normalizeHistorySearchText(excerpt).slice(0, 60);
+  if (probe.length < 12) return undefined;
+  return messages.find((message) => message.normalizedText.includes(probe));
+}
+
+function matchEntry(
+  entry: SystemSculptHistoryEntry,
+  terms: string[],
+  phrase: string,
+  semantic: SystemSculptHistorySemanticHit | undefined
+): SystemSculptHistoryMatch | null {
+  const lowerTitle = entry.title.toLowerCase();
+  const messages = entry.searchMessages ?? [];
+  const coversQuery = terms.every((term) =>
+    lowerTitle.includes(term)
+    || entry.searchText.includes(term)
+    || messages.some((message) => message.normalizedText.includes(term))
+  );
+  if (!coversQuery && !semantic) return null;
+
+  let score = 0;
+  let best: { message: SystemSculptHistorySearchMessage; score: number } | null = null;
+  if (coversQuery) {
+    for (const term of terms) {
+      if (lowerTitle.includes(term)) score += TITLE_TERM_WEIGHT;
+      else if (messages.length === 0) score += 1;
+    }
+    for (const message of messages) {
+      const messageScore = scoreMessage(message, terms, phrase);
+      if (messageScore > 0 && (!best || messageScore > best.score)) {
+        best = { message, score: messageScore };
+      }
+    }
+    score += best?.score ?? 0;
+  }
+  if (semantic) {
+    score += semantic.score * SEMANTIC_WEIGHT;
+  }
+
+  if (best) {
+    const lower = best.message.normalizedText;
+    const needle = lower.includes(phrase) ? phrase : terms.find((term) => lower.includes(term)) ?? "";
+    return { score, messageId: best.message.messageId, excerpt: buildExcerpt(best.message.readText(), needle) };
+  }
+  const semanticMessage = semantic?.excerpt ? findMessageForExcerpt(messages, semantic.excerpt) : undefined;
+  return {
+    score,
+    messageId: semanticMessage?.messageId,
+    excerpt: semantic?.excerpt ? buildExcerpt(semantic.excerpt, "") : undefined,
+  };
+}
+
+/**
+ * Ranks history entries for a query. Every query word has to appear in the
+ * title or the conversation, unless embeddings matched the entry on meaning;
+ * the best-matching message supplies the excerpt and the resume target.
+ * Ties keep the newest entry first.
+ */
+export function rankHistoryEntries(
+  entries: readonly SystemSculptHistoryEntry[],
+  query: string,
+  semanticHits: ReadonlyMap<string, SystemSculptHistorySemanticHit> = new Map()
+): RankedHistoryEntry[] {
+  const { phrase, terms } = normalizeQuery(query);
+  if (terms.length === 0) {
+    return entries.map((entry) => ({ entry, match: { score: 0 } }));
+  }
+  const ranked: RankedHistoryEntry[] = [];
+  for (const entry of entries) {
+    const match = matchEntry(entry, terms, phrase, semanticHits.get(entry.id));
+    if (match) ranked.push({ entry, match });
+  }
+  return ranked.sort((left, right) =>
+    right.match.score - left.match.score || right.entry.timestampMs - left.entry.timestampMs
+  );
+}
@@ -2,18 +2,34 @@ import type { TFile } from "obsidian";
 
 export type SystemSculptHistoryEntryKind = "chat" | "studio_session";
 
+/** One message's searchable text, kept so matches can show an excerpt and jump to it. */
+export type SystemSculptHistorySearchMessage = {
+  messageId: string;
+  /** Lowercased with whitespace collapsed; see `normalizeHistorySearchText`. */
+  normalizedText: string;
+  /** The original text, rebuilt from the message when a match needs an excerpt. */
+  readText: () => string;
+};
+
+/** Where to land when an entry opens, such as the message a search matched. */
+export type SystemSculptHistoryOpenTarget = {
+  messageId?: string;
+};
+
 export type SystemSculptHistoryEntry = {
   id: string;
   kind: SystemSculptHistoryEntryKind;
   title: string;
   subtitle?: string;
   timestampMs: number;
+  /** Lowercased title and identifiers; message text is searched through `searchMessages`. */
   searchText: string;
+  searchMessages?: SystemSculptHistorySearchMessage[];
   badge?: string;
   metadataPath?: string;
   isFavorite?: boolean;
   toggleFavorite?: () => Promise<boolean>;
-  openPrimary: () => Promise<void>;
+  openPrimary: (target?: SystemSculptHistoryOpenTarget) => Promise<void>;
 };
 
 export type StudioSessionRecord = {
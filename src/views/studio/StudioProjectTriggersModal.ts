@@ -0,0 +1,205 @@
+import { App } from "obsidian";
+import { StandardModal } from "../../core/ui/modals/standard/StandardModal";
+import { createUiAction } from "../../core/ui/surface";
+import {
+  describeStudioProjectTrigger,
+  describeStudioTriggerProblem,
+} from "../../studio/StudioProjectTriggers";
+import type { StudioProjectTrigger, StudioProjectTriggerType } from "../../studio/types";
+import { randomId } from "../../studio/utils";
+
+type FileEventChoice = "created" | "modified" | "both";
+
+function createTrigger(type: StudioProjectTriggerType): StudioProjectTrigger {
+  const id = randomId("trigger");
+  switch (type) {
+    case "schedule":
+      return { id, type, enabled: true, cron: "0 7 * * *", catchUp: "run_once" };
+    case "file":
+      return { id, type, enabled: true, folder: "", events: ["created"] };
+    case "tag":
+      return { id, type, enabled: true, tag: "" };
+  }
+}
+
+function readFileEventChoice(events: readonly string[]): FileEventChoice {
+  if (events.includes("created") && events.includes("modified")) return "both";
+  return events.includes("modified") ? "modified" : "created";
+}
+
+/** Edits the triggers stored in a project's settings; changes apply on save. */
+export class StudioProjectTriggersModal extends StandardModal {
+  private triggers: StudioProjectTrigger[];
+  private listEl: HTMLElement | null = null;
+
+  constructor(
+    app: App,
+    triggers: readonly StudioProjectTrigger[],
+    private readonly onSave: (triggers: StudioProjectTrigger[]) => void
+  ) {
+    super(app);
+    this.triggers = triggers.map((trigger) =>
+      trigger.type === "file" ? { ...trigger, events: [...trigger.events] } : { ...trigger }
+    );
+    this.setSize("medium");
+    this.modalEl.addClass("ss-studio-triggers-modal");
+  }
+
+  onOpen(): void {
+    super.onOpen();
+    this.addTitle(
+      "Project triggers",
+      "Run this project while Obsidian is open. Schedules use cron syntax in local time, for example 0 7 * * 1-5."
+    );
+    this.listEl = this.contentEl.createDiv({ cls: "ss-studio-triggers-list" });
+    const addRow = this.contentEl.createDiv({ cls: "ss-studio-triggers-add" });
+    const addOptions: Array<{ type: StudioProjectTriggerType; label: string }> = [
+      { type: "schedule", label: "Add schedule" },
+      { type: "file", label: "Add file trigger" },
+      { type: "tag", label: "Add tag trigger" },
+    ];
+    for (const option of addOptions) {
+      createUiAction(addRow, {
+        label: option.label,
+        testId: `studio.triggers.add-${option.type}`,
+        icon: "plus",
+        size: "small",
+        onSelect: () => {
+          this.triggers.push(createTrigger(option.type));
+          this.renderTriggers();
+        },
+      });
+    }
+    this.renderTriggers();
+    this.addActionButton("studio.triggers.cancel", "Cancel", () => this.close());
+    this.addActionButton(
+      "studio.triggers.save",
+      "Save",
+      () => {
+        this.onSave(this.triggers);
+        this.close();
+      },
+      true
+    );
+  }
+
+  private renderTriggers(): void {
+    const listEl = this.listEl;
+    if (!listEl) return;
+    listEl.empty();
+    if (this.triggers.length === 0) {
+      listEl.createEl("p", { cls: "ss-studio-muted", text: "This project only runs when you start it." });
+      return;
+    }
+    this.triggers.forEach((trigger, index) => this.renderTrigger(listEl, trigger, index));
+  }
+
+  private renderTrigger(listEl: HTMLElement, trigger: StudioProjectTrigger, index: number): void {
+    const row = listEl.createDiv({ cls: "ss-studio-triggers-row" });
+    const header = row.createDiv({ cls: "ss-studio-triggers-row-header" });
+    const enabledLabel = header.createEl("label", { cls: "ss-studio-triggers-enabled" });
+    const enabled = enabledLabel.createEl("input", { type: "checkbox" });
+    enabled.checked = trigger.enabled;
+    enabled.addEventListener("change", () => {
+      trigger.enabled = enabled.checked;
+    });
+    enabledLabel.createSpan({ text: describeStudioProjectTrigger(trigger) });
+    createUiAction(header, {
+      label: "Remove trigger",
+      testId: "studio.triggers.remove",
+      icon: "trash-2",
+      size: "icon",
+      onSelect: () => {
+        this.triggers.splice(index, 1);
+        this.renderTriggers();
+      },
+    });
+
+    const fields = row.createDiv({ cls: "ss-studio-triggers-fields" });
+    const problemEl = row.createDiv({ cls: "ss-studio-triggers-problem" });
+    const refreshProblem = () => {
+      problemEl.setText(describeStudioTriggerProblem(trigger) ?? "");
+    };
+
+    switch (trigger.type) {
+      case "schedule":
+        this.createTextField(fields, "Schedule", trigger.cron, "0 7 * * *", (value) => {
+          trigger.cron = value;
+          refreshProblem();
+        });
+        this.createSelectField(
+          fields,
+          "If Obsidian was closed",
+          trigger.catchUp,
+          [
+            { value: "run_once", label: "Run once on launch" },
+            { value: "skip", label: "Skip missed runs" },
+          ],
+          (value) => {
+            trigger.catchUp = value === "run_once" ? "run_once" : "skip";
+          }
+        );
+        break;
+      case "file":
+        this.createTextField(fields, "Folder", trigger.folder, "Inbox (empty for the whole vault)", (value) => {
+          trigger.folder = value;
+        });
+        this.createSelectField(
+          fields,
+          "When a note is",
+          readFileEventChoice(trigger.events),
+          [
+            { value: "created", label: "Created" },
+            { value: "modified", label: "Modified" },
+            { value: "both", label: "Created or modified" },
+          ],
+          (value) => {
+            trigger.events = value === "both" ? ["created", "modified"] : value === "modified" ? ["modified"] : ["created"];
+          }
+        );
+        break;
+      case "tag":
+        this.createTextField(fields, "Tag", trigger.tag, "#digest", (value) => {
+          trigger.tag = value.replace(/^#+/, "").toLowerCase();
+          refreshProblem();
+        });
+        break;
+    }
+    refreshProblem();
+  }
+
+  private createTextField(
+    parent: HTMLElement,
+    label: string,
+    value: string,
+    placeholder: string,
+    onInput: (value: string) => void
+  ): void {
+    const field = parent.createEl("label", { cls: "ss-studio-triggers-field" });
+    field.createSpan({ text: label });
+    const input = field.createEl("input", { type: "text", attr: { placeholder, "aria-label": label } });
+    input.value = value;
+    input.addEventListener("input", () => {
+      onInput(input.value.trim());
+    });
+  }
+
+  private createSelectField(
+    parent: HTMLElement,
+    label: string,
+    value: string,
+    options: Array<{ value: string; label: string }>,
+    onChange: (value: string) => void
+  ): void {
+    const field = parent.createEl("label", { cls: "ss-studio-triggers-field" });
+    field.createSpan({ text: label });
+    const select = field.createEl("select", { cls: "dropdown", attr: { "aria-label": label } });
+    for (const option of options) {
+      select.createEl("option", { value: option.value, text: option.label });
+    }
+    select.value = value;
+    select.addEventListener("change", () => {
+      onChange(select.value);
+    });
+  }
+}
@@ -0,0 +1,213 @@
+import { App } from "obsidian";
+import { StandardModal } from "../../core/ui/modals/standard/StandardModal";
+import { createUiAction, createUiState, updateUiAction } from "../../core/ui/surface";
+import { describeStudioRunTrigger } from "../../studio/StudioProjectTriggers";
+import {
+  diffStudioRuns,
+  formatStudioRunDuration,
+  getRestorableStudioRunGraph,
+  studioRunDurationMs,
+  type StudioRunNodeDiff,
+  type StudioRunRecord,
+} from "../../studio/StudioRunHistory";
+import type { StudioRunSummary } from "../../studio/types";
+
+const MAX_PORT_PREVIEW = 4000;
+
+export type StudioRunHistoryModalOptions = {
+  runs: readonly StudioRunSummary[];
+  loadRun: (runId: string) => Promise<StudioRunRecord | null>;
+  /** Replace the open graph with the one the run used. */
+  onRestoreGraph: (record: StudioRunRecord) => void;
+};
+
+function formatRunTime(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+function describeNodeCounts(run: StudioRunSummary): string {
+  const parts = [
+    `${run.executedNodeIds?.length ?? 0} executed`,
+    `${run.cachedNodeIds?.length ?? 0} cached`,
+  ];
+  if (run.skippedNodeIds?.length) parts.push(`${run.skippedNodeIds.length} skipped`);
+  return parts.join(" · ");
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_PORT_PREVIEW ? `${text.slice(0, MAX_PORT_PREVIEW)}…` : text;
+}
+
+/** Past runs of the open project: compare two, or restore the graph one used. */
+export class StudioRunHistoryModal extends StandardModal {
+  private readonly selected: string[] = [];
+  private readonly records = new Map<string, Promise<StudioRunRecord | null>>();
+  private listEl: HTMLElement | null = null;
+  private diffEl: HTMLElement | null = null;
+  private compareButton: HTMLButtonElement | null = null;
+
+  constructor(app: App, private readonly options: StudioRunHistoryModalOptions) {
+    super(app);
+    this.setSize("large");
+    this.modalEl.addClass("ss-studio-run-history-modal");
+  }
+
+  onOpen(): void {
+    super.onOpen();
+    this.addTitle("Run history", "Tick two runs to compare their node outputs.");
+    this.listEl = this.contentEl.createDiv({ cls: "ss-studio-run-history-list" });
+    this.diffEl = this.contentEl.createDiv({ cls: "ss-studio-run-history-diff" });
+    this.renderRuns();
+    this.addActionButton("studio.run-history.close", "Close", () => this.close());
+    this.compareButton = this.addActionButton(
+      "studio.run-history.compare",
+      "Compare",
+      () => void this.renderDiff(),
+      true,
+      "git-compare"
+    );
+    this.updateCompareButton();
+  }
+
+  private load(runId: string): Promise<StudioRunRecord | null> {
+    let record = this.records.get(runId);
+    if (!record) {
+      record = this.options.loadRun(runId).catch(() => null);
+      this.records.set(runId, record);
+    }
+    return record;
+  }
+
+  private renderRuns(): void {
+    const listEl = this.listEl;
+    if (!listEl) return;
+    listEl.empty();
+    if (this.options.runs.length === 0) {
+      createUiState(listEl, { kind: "empty", title: "No runs yet", detail: "Finished runs appear here." });
+      return;
+    }
+    for (const run of this.options.runs) {
+      const row = listEl.createDiv({ cls: `ss-studio-run-history-row is-${run.status}` });
+      row.dataset.runId = run.runId;
+      const pick = row.createEl("label", { cls: "ss-studio-run-history-pick" });
+      const checkbox = pick.createEl("input", { type: "checkbox" });
+      checkbox.checked = this.selected.includes(run.runId);
+      checkbox.addEventListener("change", () => this.toggleSelected(run.runId, checkbox.checked));
+      pick.createSpan({ cls: "ss-studio-run-history-time", text: formatRunTime(run.startedAt) });
+
+      const details = row.createDiv({ cls: "ss-studio-run-history-details" });
+      details.createSpan({ cls: "ss-studio-run-history-status", text: run.status });
+      details.createSpan({ text: formatStudioRunDuration(studioRunDurationMs(run)) });
+      details.createSpan({ text: describeNodeCounts(run) });
+      details.createSpan({ text: describeStudioRunTrigger(run.trigger) });
+      if (run.error) {
+        row.createDiv({ cls: "ss-studio-run-history-error", text: run.error });
+      }
+
+      createUiAction(row, {
+        label: "Restore graph",
+        testId: "studio.run-history.restore",
+        icon: "history",
+        size: "small",
+        title: "Replace the canvas with the graph this run used. Undo brings the current graph back.",
+        onSelect: () => void this.restore(run.runId),
+      });
+    }
+  }
+
+  private toggleSelected(runId: string, checked: boolean): void {
+    const index = this.selected.indexOf(runId);
+    if (checked && index < 0) {
+      this.selected.push(runId);
+      // Keep the two most recent picks; the oldest pick is unticked.
+      if (this.selected.length > 2) this.selected.shift();
+    } else if (!checked && index >= 0) {
+      this.selected.splice(index, 1);
+    }
+    this.renderRuns();
+    this.updateCompareButton();
+  }
+
+  private updateCompareButton(): void {
+    if (this.compareButton) {
+      updateUiAction(this.compareButton, { disabled: this.selected.length !== 2 });
+    }
+  }
+
+  private async restore(runId: string): Promise<void> {
+    const record = await this.load(runId);
+    if (!record?.snapshot) {
+      this.showDiffMessage("error", "This run's graph snapshot is no longer available.");
+      return;
+    }
+    if (!getRestorableStudioRunGraph(record)) {
+      this.showDiffMessage("error", "This run was recorded before Studio kept the full graph, so it can't be restored.");
+      return;
+    }
+    this.options.onRestoreGraph(record);
+    this.close();
+  }
+
+  private showDiffMessage(kind: "error" | "info" | "loading", title: string): void {
+    if (!this.diffEl) return;
+    this.diffEl.empty();
+    createUiState(this.diffEl, { kind, title });
+  }
+
+  private async renderDiff(): Promise<void> {
+    if (this.selected.length !== 2) return;
+    // Older run on the left, whichever order they were ticked in.
+    const [older, newer] = this.options.runs
+      .filter((run) => this.selected.includes(run.runId))
+      .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+    this.showDiffMessage("loading", "Loading runs…");
+    const [before, after] = await Promise.all([this.load(older.runId), this.load(newer.runId)]);
+    if (!before || !after) {
+      this.showDiffMessage("error", "One of these runs is no longer stored.");
+      return;
+    }
+    const diffEl = this.diffEl;
+    if (!diffEl) return;
+    diffEl.empty();
+    diffEl.createEl("h4", {
+      text: `${formatRunTime(older.startedAt)} → ${formatRunTime(newer.startedAt)}`,
+    });
+    const diffs = diffStudioRuns(before, after);
+    const changed = diffs.filter((diff) => diff.status !== "unchanged");
+    if (changed.length === 0) {
+      createUiState(diffEl, { kind: "info", title: "Both runs produced the same outputs." });
+      return;
+    }
+    for (const diff of changed) {
+      this.renderNodeDiff(diffEl, diff);
+    }
+    const unchanged = diffs.length - changed.length;
+    if (unchanged > 0) {
+      diffEl.createDiv({
+        cls: "ss-studio-muted",
+        text: `${unchanged} unchanged node${unchanged === 1 ? "" : "s"} hidden.`,
+      });
+    }
+  }
+
+  private renderNodeDiff(parent: HTMLElement, diff: StudioRunNodeDiff): void {
+    const card = parent.createDiv({ cls: `ss-studio-run-history-node is-${diff.status}` });
+    const header = card.createDiv({ cls: "ss-studio-run-history-node-header" });
+    header.createSpan({ cls: "ss-studio-run-history-node-title", text: diff.title });
+    header.createSpan({ cls: "ss-studio-run-history-status", text: diff.status });
+    if (diff.before !== diff.after) {
+      header.createSpan({ text: `${diff.before ?? "not run"} → ${diff.after ?? "not run"}` });
+    }
+    if (diff.configChanged) {
+      header.createSpan({ cls: "ss-studio-run-history-config", text: "settings changed" });
+    }
+    for (const port of diff.ports) {
+      const portEl = card.createDiv({ cls: "ss-studio-run-history-port" });
+      portEl.createDiv({ cls: "ss-studio-run-history-port-name", text: port.port });
+      const columns = portEl.createDiv({ cls: "ss-studio-run-history-port-values" });
+      columns.createEl("pre", { cls: "is-before", text: port.before === null ? "—" : truncate(port.before) });
+      columns.createEl("pre", { cls: "is-after", text: port.after === null ? "—" : truncate(port.after) });
+    }
+  }
+}
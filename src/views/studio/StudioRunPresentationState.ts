@@ -1,6 +1,13 @@
-import type { StudioNodeOutputMap, StudioRunEvent } from "../../studio/types";
+import type { StudioNodeOutputMap, StudioNodeScopedRunEvent, StudioRunEvent } from "../../studio/types";
 
-export type StudioNodeRunStatus = "idle" | "pending" | "running" | "cached" | "succeeded" | "failed";
+export type StudioNodeRunStatus =
+  | "idle"
+  | "pending"
+  | "running"
+  | "cached"
+  | "succeeded"
+  | "failed"
+  | "skipped";
 export type StudioRunLifecycleStatus = "idle" | "running" | "success" | "failed";
 
 type InternalNodeRunState = {
@@ -49,7 +56,7 @@ function toDisplayState(state: InternalNodeRunState): StudioNodeRunDisplayState
 }
 
 function isTerminalStatus(status: StudioNodeRunStatus): boolean {
-  return status === "cached" || status === "succeeded" || status === "failed";
+  return status === "cached" || status === "succeeded" || status === "failed" || status === "skipped";
 }
 
 function valuePreview(value: unknown): string {
@@ -67,6 +74,21 @@ function valuePreview(value: unknown): string {
   }
 }
 
+function nestedEventMessage(label: string, event: StudioNodeScopedRunEvent): string {
+  switch (event.type) {
+    case "node.started":
+      return `Running ${label}`;
+    case "node.cache_hit":
+      return `${label}: cache hit`;
+    case "node.output":
+      return `${label}: done`;
+    case "node.skipped":
+      return `${label}: skipped`;
+    case "node.failed":
+      return `${label}: ${event.error || "failed"}`;
+  }
+}
+
 export function formatNodeOutputPreview(outputs: StudioNodeOutputMap | null): string {
   if (!outputs) {
     return "";
@@ -98,6 +120,8 @@ export function statusLabelForNode(status: StudioNodeRunStatus): string {
       return "Done";
     case "failed":
       return "Failed";
+    case "skipped":
+      return "Skipped";
     case "idle":
     default:
       return "Idle";
@@ -296,6 +320,34 @@ export class StudioRunPresentationState {
       return;
     }
 
+    if (event.type === "node.skipped") {
+      this.setNodeState(event.nodeId, {
+        status: "skipped",
+        message: "Branch not taken",
+        updatedAt: at,
+        outputs: null,
+      });
+      this.markNodeCompleted(event.nodeId);
+      this.progress = {
+        ...this.progress,
+        runId: event.runId,
+      };
+      return;
+    }
+
+    if (event.type === "node.nested") {
+      const current = this.nodeStates.get(event.nodeId) || createInternalNodeState();
+      if (isTerminalStatus(current.status)) {
+        return;
+      }
+      this.setNodeState(event.nodeId, {
+        status: "running",
+        message: nestedEventMessage(event.label, event.event),
+        updatedAt: at,
+      });
+      return;
+    }
+
     if (event.type === "node.failed") {
       this.setNodeState(event.nodeId, {
         status: "failed",
@@ -7,11 +7,16 @@ export function definitionKey(definition: StudioNodeDefinition): string {
 
 const NODE_DESCRIPTION_BY_KIND: Record<string, string> = {
   "studio.input": "Injects starter text or JSON into your graph.",
+  "studio.output": "Marks a value as an output of this project when it runs inside another project.",
+  "studio.project": "Runs another Studio project as a single node, pinned to the version you picked.",
   "studio.json":
     "Build JSON payloads in Composer or Raw mode, pass through upstream JSON, or validate/parse text input into JSON.",
   "studio.value": "Generic value preview node for scalar or unknown output types.",
   "studio.text": "Adds minimal freeform text that can feed downstream text inputs.",
   "studio.note": "Reads selected markdown vault notes and keeps a live read-only preview.",
+  "studio.vault_search": "Finds vault notes matching a query by keywords, meaning, or both, and outputs their text.",
+  "studio.write_note": "Writes text into a vault note: create, append, prepend, or replace a section, with properties.",
+  "studio.template": "Fills a template from its inputs; each {{name}} becomes an input port.",
   "studio.text_output": "Stores editable text and outputs it for downstream nodes.",
   "studio.text_generation": "Calls a text model and returns generated text output.",
   "studio.image_generation": "Generates one or more images from your prompt.",
@@ -20,6 +25,10 @@ const NODE_DESCRIPTION_BY_KIND: Record<string, string> = {
   "studio.transcription": "Transcribes audio media into text.",
   "studio.dataset":
     "Runs a custom query through a configurable adapter, caches results, and outputs text plus discovered structured fields.",
+  "studio.branch": "Routes a value to its true or false output based on a condition.",
+  "studio.switch": "Routes a value to the first matching case output, or to default.",
+  "studio.merge": "Passes on the first input that received a value, rejoining branched paths.",
+  "studio.map": "Runs a group once for every element of a JSON array and collects the results.",
   "studio.retired_http_request": "Retired HTTP Request placeholder. This node cannot execute.",
   "studio.cli_command": "Runs a local shell command and captures output.",
   "studio.terminal":
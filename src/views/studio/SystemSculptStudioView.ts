@@ -21,11 +21,17 @@ import type {
   StudioNodeOutputMap,
   StudioProjectV1,
   StudioRunEvent,
+  StudioRunSummary,
 } from "../../studio/types";
 import { isStudioVisualOnlyNodeKind } from "../../studio/StudioNodeKinds";
 import { scopeProjectForRun } from "../../studio/StudioRunScope";
 import { validateNodeConfig } from "../../studio/StudioNodeConfigValidation";
 import { resolveNodeDefinitionPorts } from "../../studio/StudioNodePortResolution";
+import {
+  applyStudioSubprojectPin,
+  STUDIO_SUBPROJECT_NODE_KIND,
+  STUDIO_SUBPROJECT_REVISION_CONFIG_KEY,
+} from "../../studio/StudioSubprojects";
 import {
   collectStudioHostUnavailableNodes,
   formatStudioHostUnavailableNodesNotice,
@@ -36,6 +42,10 @@ import type {
   StudioProjectSessionMutationReason,
 } from "../../studio/StudioProjectSession";
 import { renderStudioGraphWorkspace } from "./graph-v3/StudioGraphWorkspaceRenderer";
+import { renderStudioGraphRunQueue } from "./graph-v3/StudioGraphRunQueue";
+import { StudioProjectTriggersModal } from "./StudioProjectTriggersModal";
+import { StudioRunHistoryModal } from "./StudioRunHistoryModal";
+import { getRestorableStudioRunGraph } from "../../studio/StudioRunHistory";
 import type { StudioNodeConfigPathBrowseOptions } from "./StudioPathFieldPicker";
 import { createEmbeddableMarkdownEditor } from "../../editor/embeddable-markdown-editor";
 import type {
@@ -186,6 +196,13 @@ export class SystemSculptStudioView extends ItemView {
   private listenerWindow: Window | null = null;
   private detachWindowMigration: (() => void) | null = null;
   private graphViewportEl: HTMLElement | null = null;
+  private runQueueEl: HTMLElement | null = null;
+  private recentRuns: StudioRunSummary[] = [];
+  private recentRunsProjectPath: string | null = null;
+  private detachRunQueueListener: (() => void) | null = null;
+  private detachRunEventListener: (() => void) | null = null;
+  /** Runs started from this view; their events already arrive through runGraph. */
+  private ownRunIds = new Set<string>();
   private nodeContextMenuOverlay: StudioNodeContextMenuOverlay | null = null;
   private nodeActionContextMenuOverlay: StudioSimpleContextMenuOverlay | null = null;
   private nodeDragInProgress = false;
@@ -364,6 +381,16 @@ export class SystemSculptStudioView extends ItemView {
       this.render();
     });
     this.bindVaultEvents();
+    this.detachRunQueueListener?.();
+    this.detachRunQueueListener = this.plugin.getStudioService().onRunQueueChanged((projectPath) => {
+      if (projectPath === this.currentProjectPath) {
+        void this.refreshRunQueue({ reloadRecentRuns: true });
+      }
+    });
+    this.detachRunEventListener?.();
+    this.detachRunEventListener = this.plugin.getStudioService().onRunEvent((projectPath, event) => {
+      this.handleExternalRunEvent(projectPath, event);
+    });
     await this.loadNodeDefinitions();
     this.render();
   }
@@ -373,6 +400,11 @@ export class SystemSculptStudioView extends ItemView {
     this.detachWindowMigration = null;
     this.unbindOwnerWindowEvents();
     this.unbindVaultEvents();
+    this.detachRunQueueListener?.();
+    this.detachRunQueueListener = null;
+    this.detachRunEventListener?.();
+    this.detachRunEventListener = null;
+    this.runQueueEl = null;
     this.clipboardAndDropController.dispose();
     this.clearLayoutSaveTimer();
     this.resetViewportScrollingState();
@@ -1126,6 +1158,24 @@ export class SystemSculptStudioView extends ItemView {
     return `${firstLine.slice(0, 217)}...`;
   }
 
+  /** Shows runs started elsewhere, such as from a link or a trigger, for the open project. */
+  private handleExternalRunEvent(projectPath: string, event: StudioRunEvent): void {
+    if (projectPath !== this.currentProjectPath || !this.currentProject || this.ownRunIds.has(event.runId)) {
+      return;
+    }
+    if (event.type === "run.started") {
+      this.runPresentation.beginRun(this.currentProject.graph.nodes.map((node) => node.id));
+    }
+    this.handleRunEvent(event);
+  }
+
+  private handleOwnRunEvent(event: StudioRunEvent): void {
+    if (event.type === "run.started") {
+      this.ownRunIds.add(event.runId);
+    }
+    this.handleRunEvent(event);
+  }
+
   private handleRunEvent(event: StudioRunEvent): void {
     this.runPresentation.applyEvent(event);
     this.graphInteraction.applyRunEvent(event);
@@ -1663,6 +1713,7 @@ export class SystemSculptStudioView extends ItemView {
       key === "value" &&
       currentNode?.kind === "studio.text" &&
       this.editingTextNodeIds.has(nodeId);
+    const portsBefore = currentNode ? this.describeNodePorts(currentNode) : "";
     const changed = this.commitCurrentProjectMutation(
       "node.config",
       (project) => {
@@ -1707,6 +1758,49 @@ export class SystemSculptStudioView extends ItemView {
     if (node.kind === "studio.note") {
       this.handleNoteNodeConfigMutated(node);
     }
+    // Config-driven ports (structured output properties, switch cases) need a
+    // fresh card; continuous typing waits for the next discrete change.
+    if (options?.mode !== "continuous" && this.describeNodePorts(node) !== portsBefore) {
+      this.render();
+    }
+    if (
+      node.kind === STUDIO_SUBPROJECT_NODE_KIND &&
+      (key === "projectPath" || (key === STUDIO_SUBPROJECT_REVISION_CONFIG_KEY && !String(value ?? "").trim()))
+    ) {
+      void this.pinSubprojectNode(nodeId);
+    }
+  }
+
+  /**
+   * Pins a project node to the current revision of the project it references
+   * and refreshes its ports from that project's input and output nodes.
+   */
+  private async pinSubprojectNode(nodeId: string): Promise<void> {
+    const node = this.currentProject ? this.findNode(this.currentProject, nodeId) : null;
+    const subprojectPath = String(node?.config.projectPath ?? "").trim();
+    if (!node || !subprojectPath) {
+      return;
+    }
+    if (this.currentProjectPath && normalizePath(subprojectPath) === this.currentProjectPath) {
+      new Notice("A project node cannot run the project it is in.");
+      return;
+    }
+    try {
+      const pin = await this.plugin.getStudioService().describeSubproject(subprojectPath);
+      const changed = this.commitCurrentProjectMutation("node.config", (project) => {
+        const target = this.findNode(project, nodeId);
+        if (!target || String(target.config.projectPath ?? "").trim() !== subprojectPath) {
+          return false;
+        }
+        return applyStudioSubprojectPin(target, pin);
+      });
+      if (changed) {
+        this.render();
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`Unable to read project ${subprojectPath}: ${message}`);
+    }
   }
 
   /**
@@ -2213,21 +2307,28 @@ export class SystemSculptStudioView extends ItemView {
       const result = fromNodeId
         ? await studio.runProjectFromNode(this.currentProjectPath, fromNodeId, {
             onEvent: (event) => {
-              this.handleRunEvent(event);
+              this.handleOwnRunEvent(event);
             },
           })
         : await studio.runProject(this.currentProjectPath, {
             onEvent: (event) => {
-              this.handleRunEvent(event);
+              this.handleOwnRunEvent(event);
             },
           });
+      // Listeners see each event after this view does, so forget the run only once it returns.
+      this.ownRunIds.delete(result.runId);
       const executedCount = Array.isArray(result.executedNodeIds)
         ? result.executedNodeIds.length
         : 0;
       const cachedCount = Array.isArray(result.cachedNodeIds)
         ? result.cachedNodeIds.length
         : 0;
-      const runStatsSuffix = ` (${executedCount} executed, ${cachedCount} cached)`;
+      const skippedCount = Array.isArray(result.skippedNodeIds)
+        ? result.skippedNodeIds.length
+        : 0;
+      const runStatsSuffix = skippedCount > 0
+        ? ` (${executedCount} executed, ${cachedCount} cached, ${skippedCount} skipped)`
+        : ` (${executedCount} executed, ${cachedCount} cached)`;
 
       if (result.status === "success") {
         new Notice(
@@ -2284,6 +2385,11 @@ export class SystemSculptStudioView extends ItemView {
     return project.graph.nodes.find((node) => node.id === nodeId) || null;
   }
 
+  private describeNodePorts(node: StudioNodeInstance): string {
+    const definition = this.findNodeDefinition(node);
+    return definition ? JSON.stringify([definition.inputPorts, definition.outputPorts]) : "";
+  }
+
   private findNodeDefinition(node: StudioNodeInstance): StudioNodeDefinition | null {
     const definition = this.nodeDefinitionsByKey.get(`${node.kind}@${node.version}`) || null;
     if (!definition) {
@@ -3356,6 +3462,12 @@ export class SystemSculptStudioView extends ItemView {
       onRunGraph: () => {
         void this.runGraph();
       },
+      onOpenTriggers: () => {
+        this.openProjectTriggers();
+      },
+      onOpenRunHistory: () => {
+        void this.openRunHistory();
+      },
       onOpenAddNodeMenuAtViewportCenter: () => {
         this.openAddNodeMenuAtViewportCenter();
       },
@@ -3453,6 +3565,8 @@ export class SystemSculptStudioView extends ItemView {
     });
 
     this.graphViewportEl = result.viewportEl;
+    this.runQueueEl = result.runQueueEl;
+    void this.refreshRunQueue({ reloadRecentRuns: this.recentRunsProjectPath !== this.currentProjectPath });
     if (!this.graphViewportEl || !this.currentProject) {
       this.nodeDragInProgress = false;
       this.nodeContextMenuOverlay?.hide();
@@ -3518,6 +3632,81 @@ export class SystemSculptStudioView extends ItemView {
     }
   }
 
+  private openProjectTriggers(): void {
+    if (!this.currentProject) {
+      return;
+    }
+    new StudioProjectTriggersModal(this.app, this.currentProject.settings.triggers ?? [], (triggers) => {
+      this.commitCurrentProjectMutation("project.settings", (project) => {
+        if (triggers.length > 0) {
+          project.settings.triggers = triggers;
+        } else {
+          delete project.settings.triggers;
+        }
+      });
+      this.render();
+    }).open();
+  }
+
+  private async openRunHistory(): Promise<void> {
+    const projectPath = this.currentProjectPath;
+    if (!projectPath) {
+      return;
+    }
+    const studio = this.plugin.getStudioService();
+    let runs: StudioRunSummary[];
+    try {
+      runs = await studio.getRecentRuns(projectPath);
+    } catch (error) {
+      new Notice(`Unable to load run history: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    new StudioRunHistoryModal(this.app, {
+      runs,
+      loadRun: (runId) => studio.getRunRecord(projectPath, runId),
+      onRestoreGraph: (record) => {
+        const current = this.currentProject;
+        const graph = getRestorableStudioRunGraph(record);
+        if (!graph || !current || this.currentProjectPath !== projectPath) {
+          return;
+        }
+        // Only the graph comes back; settings and permissions stay as they are now.
+        this.captureProjectHistoryCheckpoint();
+        this.applyHistorySnapshot({
+          project: {
+            ...cloneProjectSnapshot(current),
+            graph: cloneProjectSnapshot({ ...current, graph }).graph,
+          },
+          selectedNodeIds: [],
+        });
+        new Notice("Restored the graph from that run. Undo to go back.");
+      },
+    }).open();
+  }
+
+  private async refreshRunQueue(options?: { reloadRecentRuns?: boolean }): Promise<void> {
+    const projectPath = this.currentProjectPath;
+    if (!projectPath) {
+      return;
+    }
+    const studio = this.plugin.getStudioService();
+    if (options?.reloadRecentRuns) {
+      this.recentRunsProjectPath = projectPath;
+      try {
+        const runs = await studio.getRecentRuns(projectPath);
+        if (this.currentProjectPath !== projectPath) {
+          return;
+        }
+        this.recentRuns = runs;
+      } catch {
+        this.recentRuns = [];
+      }
+    }
+    if (this.runQueueEl && this.currentProjectPath === projectPath) {
+      renderStudioGraphRunQueue(this.runQueueEl, studio.getRunQueue(projectPath), this.recentRuns);
+    }
+  }
+
   private render(): void {
     this.captureGraphViewportState();
     this.resetViewportScrollingState();
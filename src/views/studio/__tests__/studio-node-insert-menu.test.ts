@@ -85,20 +85,29 @@ describe("buildNodeInsertMenuItems", () => {
 
     expect(capabilitiesByKind).toEqual({
       "studio.audio_extract": ["local-filesystem", "absolute-paths", "local-cli"],
+      "studio.branch": [],
       "studio.cli_command": ["local-cli"],
       "studio.dataset": ["local-filesystem", "absolute-paths", "local-cli"],
       "studio.image_generation": [],
       "studio.input": [],
       "studio.json": [],
+      "studio.map": [],
       "studio.media_ingest": [],
+      "studio.merge": [],
       "studio.note": [],
+      "studio.output": [],
+      "studio.project": [],
       "studio.retired_http_request": [],
+      "studio.switch": [],
+      "studio.template": [],
       "studio.terminal": ["local-cli"],
       "studio.text": [],
       "studio.text_generation": [],
       "studio.text_output": [],
       "studio.transcription": [],
       "studio.value": [],
+      "studio.vault_search": [],
+      "studio.write_note": [],
     });
   });
 
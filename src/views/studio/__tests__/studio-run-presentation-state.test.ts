@@ -1,4 +1,4 @@
-import { StudioRunPresentationState } from "../StudioRunPresentationState";
+import { StudioRunPresentationState, statusLabelForNode } from "../StudioRunPresentationState";
 
 describe("StudioRunPresentationState cache hydration", () => {
   it("hydrates cached node status and outputs on load", () => {
@@ -35,3 +35,64 @@ describe("StudioRunPresentationState cache hydration", () => {
     expect(filtered.outputs).toBeNull();
   });
 });
+
+describe("StudioRunPresentationState control flow", () => {
+  it("marks untaken-branch nodes as skipped and counts them toward progress", () => {
+    const state = new StudioRunPresentationState();
+    state.beginRun(["branch", "on_false"]);
+
+    state.applyEvent({
+      type: "node.skipped",
+      runId: "run_1",
+      nodeId: "on_false",
+      reason: "branch_not_taken",
+      at: "2026-02-22T12:00:00.000Z",
+    });
+
+    const skipped = state.getNodeState("on_false");
+    expect(skipped.status).toBe("skipped");
+    expect(skipped.message).toBe("Branch not taken");
+    expect(skipped.outputs).toBeNull();
+    expect(statusLabelForNode("skipped")).toBe("Skipped");
+    expect(state.getProgress()).toMatchObject({ completed: 1, total: 2, percent: 50 });
+  });
+
+  it("shows nested project progress on the project node until it finishes", () => {
+    const state = new StudioRunPresentationState();
+    state.beginRun(["sub"]);
+    const at = "2026-02-22T12:00:00.000Z";
+
+    state.applyEvent({ type: "node.started", runId: "run_1", nodeId: "sub", at });
+    state.applyEvent({
+      type: "node.nested",
+      runId: "run_1",
+      nodeId: "sub",
+      label: "Summarize",
+      event: { type: "node.started", runId: "run_1", nodeId: "sub::summarize", at },
+      at,
+    });
+
+    expect(state.getNodeState("sub")).toMatchObject({ status: "running", message: "Running Summarize" });
+    expect(state.getProgress()).toMatchObject({ completed: 0, total: 1 });
+
+    state.applyEvent({
+      type: "node.output",
+      runId: "run_1",
+      nodeId: "sub",
+      outputRef: "run_1:sub:project",
+      outputs: { summary: "done" },
+      at,
+    });
+    state.applyEvent({
+      type: "node.nested",
+      runId: "run_1",
+      nodeId: "sub",
+      label: "Summarize",
+      event: { type: "node.failed", runId: "run_1", nodeId: "sub::late", error: "late", at },
+      at,
+    });
+
+    expect(state.getNodeState("sub")).toMatchObject({ status: "succeeded", message: "Completed" });
+    expect(state.getProgress()).toMatchObject({ completed: 1, total: 1 });
+  });
+});
@@ -165,6 +165,7 @@ function createEditEndHarness(options: {
     clearTransientFieldErrorsForNode: jest.fn(),
     cloneJsonValue: jest.fn((value: unknown) => value),
     refreshNodeCardPreview: jest.fn(),
+    describeNodePorts: jest.fn(() => ""),
     handleNoteNodeConfigMutated: jest.fn(),
     render: jest.fn(),
     commitCurrentProjectMutationAsync: jest.fn(() => Promise.resolve(false)),
@@ -7,18 +7,35 @@ export class StudioLinkFlowBridge {
   applyRunEvent(event: StudioRunEvent): void {
     switch (event.type) {
       case "run.started":
+      case "node.nested":
         return;
       case "node.started":
         this.forEachOutgoing(event.nodeId, (edge) => {
           this.store.setEdgeStatus(edge.id, "flowing");
         });
         return;
-      case "node.output":
+      case "node.output": {
+        // Routing nodes emit only the ports they take; the rest carry nothing.
+        const outputs = event.outputs;
+        this.forEachOutgoing(event.nodeId, (edge) => {
+          if (outputs && typeof outputs[edge.source.portId] === "undefined") {
+            this.store.setEdgeStatus(edge.id, "idle");
+            return;
+          }
+          this.store.setEdgeStatus(edge.id, "completed", { flareT: 0 });
+        });
+        return;
+      }
       case "node.cache_hit":
         this.forEachOutgoing(event.nodeId, (edge) => {
           this.store.setEdgeStatus(edge.id, "completed", { flareT: 0 });
         });
         return;
+      case "node.skipped":
+        this.forEachOutgoing(event.nodeId, (edge) => {
+          this.store.setEdgeStatus(edge.id, "idle");
+        });
+        return;
       case "node.failed":
         this.forEachOutgoing(event.nodeId, (edge) => {
           this.store.setEdgeStatus(edge.id, "failed", { flareT: 0 });
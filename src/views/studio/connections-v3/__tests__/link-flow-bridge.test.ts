@@ -54,6 +54,37 @@ describe("StudioLinkFlowBridge", () => {
     expect(store.getEdge("e1")?.status).toBe("completed");
   });
 
+  it("node.output leaves edges from ports a routing node did not emit idle", () => {
+    const store = seedStore();
+    const bridge = new StudioLinkFlowBridge(store);
+    bridge.applyRunEvent({ type: "node.started", runId: RUN, nodeId: "n1", at: AT });
+    bridge.applyRunEvent({
+      type: "node.output",
+      runId: RUN,
+      nodeId: "n1",
+      outputRef: "ref",
+      outputs: { out: "taken" },
+      at: AT,
+    });
+    expect(store.getEdge("e1")?.status).toBe("completed");
+    expect(store.getEdge("e2")?.status).toBe("idle");
+  });
+
+  it("node.skipped returns outgoing edges to idle", () => {
+    const store = seedStore();
+    const bridge = new StudioLinkFlowBridge(store);
+    bridge.applyRunEvent({ type: "node.started", runId: RUN, nodeId: "n1", at: AT });
+    bridge.applyRunEvent({
+      type: "node.skipped",
+      runId: RUN,
+      nodeId: "n1",
+      reason: "branch_not_taken",
+      at: AT,
+    });
+    expect(store.getEdge("e1")?.status).toBe("idle");
+    expect(store.getEdge("e2")?.status).toBe("idle");
+  });
+
   it("node.failed sets outgoing edges to failed", () => {
     const store = seedStore();
     const bridge = new StudioLinkFlowBridge(store);
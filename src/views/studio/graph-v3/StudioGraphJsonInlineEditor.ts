@@ -33,9 +33,22 @@ type RenderStudioJsonNodeEditorOptions = {
   getJsonEditorPreferredMode?: () => StudioJsonEditorMode;
   onJsonEditorPreferredModeChange?: (mode: StudioJsonEditorMode) => void;
   showOutputPreview?: boolean;
+  /** Edit another config key than the JSON node's value, without run output fallback. */
+  configKey?: string;
+  label?: string;
+};
+
+/** Which config key the editor writes and which run output it falls back to. */
+type StudioJsonEditorTarget = {
+  configKey: string;
+  runtimeOutputPort: string | null;
 };
 
 const JSON_VALUE_CONFIG_KEY = "value";
+const JSON_NODE_EDITOR_TARGET: StudioJsonEditorTarget = {
+  configKey: JSON_VALUE_CONFIG_KEY,
+  runtimeOutputPort: "json",
+};
 const JSON_COMPOSER_TYPE_OPTIONS: Array<{ value: StudioJsonComposerValueType; label: string }> = [
   { value: "text", label: "Text" },
   { value: "html", label: "HTML" },
@@ -68,47 +81,51 @@ function isJsonObjectValue(
   return Boolean(value) && typeof value === "object" && !Array.isArray(value);
 }
 
-function readJsonNodeConfigValue(node: StudioNodeInstance): StudioJsonValue {
+function readJsonNodeConfigValue(node: StudioNodeInstance, target: StudioJsonEditorTarget): StudioJsonValue {
   const config = node.config as Record<string, StudioJsonValue>;
-  if (!Object.prototype.hasOwnProperty.call(config, JSON_VALUE_CONFIG_KEY)) {
+  if (!Object.prototype.hasOwnProperty.call(config, target.configKey)) {
     return {};
   }
-  const value = config[JSON_VALUE_CONFIG_KEY];
+  const value = config[target.configKey];
   return typeof value === "undefined" ? {} : value;
 }
 
-function hasConfiguredJsonNodeValue(node: StudioNodeInstance): boolean {
+function hasConfiguredJsonNodeValue(node: StudioNodeInstance, target: StudioJsonEditorTarget): boolean {
   const config = node.config as Record<string, StudioJsonValue>;
-  return Object.prototype.hasOwnProperty.call(config, JSON_VALUE_CONFIG_KEY);
+  return Object.prototype.hasOwnProperty.call(config, target.configKey);
 }
 
 function readJsonNodeEditorValue(
   node: StudioNodeInstance,
-  nodeRunState: StudioNodeRunDisplayState
+  nodeRunState: StudioNodeRunDisplayState,
+  target: StudioJsonEditorTarget
 ): StudioJsonValue {
-  if (hasConfiguredJsonNodeValue(node)) {
-    return readJsonNodeConfigValue(node);
+  if (hasConfiguredJsonNodeValue(node, target)) {
+    return readJsonNodeConfigValue(node, target);
   }
   const outputs = nodeRunState.outputs as Record<string, unknown> | null;
-  if (outputs && Object.prototype.hasOwnProperty.call(outputs, "json")) {
-    return outputs.json as StudioJsonValue;
+  if (target.runtimeOutputPort && outputs && Object.prototype.hasOwnProperty.call(outputs, target.runtimeOutputPort)) {
+    return outputs[target.runtimeOutputPort] as StudioJsonValue;
   }
-  return readJsonNodeConfigValue(node);
+  return readJsonNodeConfigValue(node, target);
 }
 
-function hasRuntimeJsonOutput(nodeRunState: StudioNodeRunDisplayState): boolean {
+function hasRuntimeJsonOutput(nodeRunState: StudioNodeRunDisplayState, target: StudioJsonEditorTarget): boolean {
   const outputs = nodeRunState.outputs as Record<string, unknown> | null;
-  return Boolean(outputs && Object.prototype.hasOwnProperty.call(outputs, "json"));
+  return Boolean(
+    target.runtimeOutputPort && outputs && Object.prototype.hasOwnProperty.call(outputs, target.runtimeOutputPort)
+  );
 }
 
 function resolveJsonEditorSourceKind(
   node: StudioNodeInstance,
-  nodeRunState: StudioNodeRunDisplayState
+  nodeRunState: StudioNodeRunDisplayState,
+  target: StudioJsonEditorTarget
 ): StudioJsonEditorSourceKind {
-  if (hasConfiguredJsonNodeValue(node)) {
+  if (hasConfiguredJsonNodeValue(node, target)) {
     return "config";
   }
-  if (hasRuntimeJsonOutput(nodeRunState)) {
+  if (hasRuntimeJsonOutput(nodeRunState, target)) {
     return "runtime";
   }
   return "default";
@@ -124,9 +141,9 @@ function resolveJsonEditorSourceLabel(sourceKind: StudioJsonEditorSourceKind): s
   return "Default";
 }
 
-function resolveJsonEditorSourceHint(sourceKind: StudioJsonEditorSourceKind): string {
+function resolveJsonEditorSourceHint(sourceKind: StudioJsonEditorSourceKind, target: StudioJsonEditorTarget): string {
   if (sourceKind === "config") {
-    return "Using saved config.value";
+    return `Using saved config.${target.configKey}`;
   }
   if (sourceKind === "runtime") {
     return "Using latest run output";
@@ -177,8 +194,12 @@ function sanitizeHtmlPreviewSource(rawHtml: string, ownerDocument: Document): st
   return template.innerHTML;
 }
 
-function writeJsonNodeConfigValue(node: StudioNodeInstance, value: StudioJsonValue): void {
-  node.config[JSON_VALUE_CONFIG_KEY] = value;
+function writeJsonNodeConfigValue(
+  node: StudioNodeInstance,
+  value: StudioJsonValue,
+  target: StudioJsonEditorTarget
+): void {
+  node.config[target.configKey] = value;
 }
 
 function normalizeJsonEditorMode(raw: unknown): StudioJsonEditorMode {
@@ -482,12 +503,16 @@ export function renderJsonNodeEditor(options: RenderStudioJsonNodeEditorOptions)
     getJsonEditorPreferredMode,
     onJsonEditorPreferredModeChange,
     showOutputPreview = true,
+    label = "JSON",
   } = options;
+  const target: StudioJsonEditorTarget = options.configKey
+    ? { configKey: options.configKey, runtimeOutputPort: null }
+    : JSON_NODE_EDITOR_TARGET;
 
   const editorWrapEl = nodeEl.createDiv({ cls: "ss-studio-node-json-editor" });
   editorWrapEl.createDiv({
     cls: "ss-studio-node-json-editor-label",
-    text: "JSON",
+    text: label,
   });
 
   const controlsEl = editorWrapEl.createDiv({ cls: "ss-studio-node-json-editor-controls" });
@@ -568,10 +593,10 @@ export function renderJsonNodeEditor(options: RenderStudioJsonNodeEditorOptions)
     mutationOptions?: StudioGraphNodeMutationOptions
   ): void => {
     if (onNodeConfigValueChange) {
-      onNodeConfigValueChange(node.id, JSON_VALUE_CONFIG_KEY, value, mutationOptions);
+      onNodeConfigValueChange(node.id, target.configKey, value, mutationOptions);
       return;
     }
-    writeJsonNodeConfigValue(node, value);
+    writeJsonNodeConfigValue(node, value, target);
     onNodeConfigMutated(node);
   };
 
@@ -585,24 +610,24 @@ export function renderJsonNodeEditor(options: RenderStudioJsonNodeEditorOptions)
   });
 
   const refreshJsonEditorSourceState = (): void => {
-    const sourceKind = resolveJsonEditorSourceKind(node, nodeRunState);
+    const sourceKind = resolveJsonEditorSourceKind(node, nodeRunState, target);
     sourceStateBadgeEl.setText(resolveJsonEditorSourceLabel(sourceKind));
     sourceStateBadgeEl.classList.toggle("is-config", sourceKind === "config");
     sourceStateBadgeEl.classList.toggle("is-runtime", sourceKind === "runtime");
     sourceStateBadgeEl.classList.toggle("is-default", sourceKind === "default");
-    effectiveHintEl.setText(resolveJsonEditorSourceHint(sourceKind));
-    effectiveEditorEl.value = formatJsonPreview(readJsonNodeEditorValue(node, nodeRunState));
+    effectiveHintEl.setText(resolveJsonEditorSourceHint(sourceKind, target));
+    effectiveEditorEl.value = formatJsonPreview(readJsonNodeEditorValue(node, nodeRunState, target));
   };
 
   const syncRawEditorFromConfig = (): void => {
-    rawEditorEl.value = formatJsonPreview(readJsonNodeEditorValue(node, nodeRunState));
+    rawEditorEl.value = formatJsonPreview(readJsonNodeEditorValue(node, nodeRunState, target));
     rawErrorEl.addClass("is-hidden");
     rawErrorEl.setText("");
     refreshJsonEditorSourceState();
   };
 
   const hydrateComposerRowsFromConfig = (): void => {
-    const configuredValue = readJsonNodeEditorValue(node, nodeRunState);
+    const configuredValue = readJsonNodeEditorValue(node, nodeRunState, target);
     if (!isJsonObjectValue(configuredValue)) {
       composerRows = [];
       return;
@@ -612,7 +637,7 @@ export function renderJsonNodeEditor(options: RenderStudioJsonNodeEditorOptions)
 
   const renderComposerRows = (focusRowId?: string): void => {
     composerSurfaceEl.empty();
-    const configuredValue = readJsonNodeEditorValue(node, nodeRunState);
+    const configuredValue = readJsonNodeEditorValue(node, nodeRunState, target);
     if (!isJsonObjectValue(configuredValue)) {
       const unsupportedEl = composerSurfaceEl.createDiv({ cls: "ss-studio-node-json-composer-unsupported" });
       unsupportedEl.createDiv({
@@ -972,40 +997,42 @@ export function renderJsonNodeEditor(options: RenderStudioJsonNodeEditorOptions)
       },
     });
 
-    createStudioAction(footerActionsEl, {
-      className: "ss-studio-node-json-row-button",
-      label: "Email preset",
-      testId: "studio.json.email-preset",
-      ariaLabel: "Insert email payload fields",
-      size: "small",
-      disabled: interactionLocked,
-      onSelect: () => {
-        if (interactionLocked) {
-          return;
-        }
-        const current = readJsonNodeEditorValue(node, nodeRunState);
-        const baseObject: Record<string, StudioJsonValue> = isJsonObjectValue(current)
-          ? { ...(current as Record<string, StudioJsonValue>) }
-          : {};
-        baseObject.from = typeof baseObject.from === "string" ? baseObject.from : "";
-        if (Array.isArray(baseObject.to)) {
-          baseObject.to = baseObject.to.map((entry) => String(entry ?? "")).filter((entry) => entry.trim().length > 0);
-        } else if (typeof baseObject.to === "string" && baseObject.to.trim().length > 0) {
-          baseObject.to = [baseObject.to];
-        } else {
-          baseObject.to = [];
-        }
-        baseObject.reply_to = typeof baseObject.reply_to === "string" ? baseObject.reply_to : "";
-        baseObject.subject = typeof baseObject.subject === "string" ? baseObject.subject : "";
-        baseObject.text = typeof baseObject.text === "string" ? baseObject.text : "";
-        baseObject.html = typeof baseObject.html === "string" ? baseObject.html : "";
-        commitJsonValue(baseObject, { mode: "discrete" });
-        hydrateComposerRowsFromConfig();
-        syncRawEditorFromConfig();
-        renderComposerRows();
-        refreshJsonEditorSourceState();
-      },
-    });
+    if (target === JSON_NODE_EDITOR_TARGET) {
+      createStudioAction(footerActionsEl, {
+        className: "ss-studio-node-json-row-button",
+        label: "Email preset",
+        testId: "studio.json.email-preset",
+        ariaLabel: "Insert email payload fields",
+        size: "small",
+        disabled: interactionLocked,
+        onSelect: () => {
+          if (interactionLocked) {
+            return;
+          }
+          const current = readJsonNodeEditorValue(node, nodeRunState, target);
+          const baseObject: Record<string, StudioJsonValue> = isJsonObjectValue(current)
+            ? { ...(current as Record<string, StudioJsonValue>) }
+            : {};
+          baseObject.from = typeof baseObject.from === "string" ? baseObject.from : "";
+          if (Array.isArray(baseObject.to)) {
+            baseObject.to = baseObject.to.map((entry) => String(entry ?? "")).filter((entry) => entry.trim().length > 0);
+          } else if (typeof baseObject.to === "string" && baseObject.to.trim().length > 0) {
+            baseObject.to = [baseObject.to];
+          } else {
+            baseObject.to = [];
+          }
+          baseObject.reply_to = typeof baseObject.reply_to === "string" ? baseObject.reply_to : "";
+          baseObject.subject = typeof baseObject.subject === "string" ? baseObject.subject : "";
+          baseObject.text = typeof baseObject.text === "string" ? baseObject.text : "";
+          baseObject.html = typeof baseObject.html === "string" ? baseObject.html : "";
+          commitJsonValue(baseObject, { mode: "discrete" });
+          hydrateComposerRowsFromConfig();
+          syncRawEditorFromConfig();
+          renderComposerRows();
+          refreshJsonEditorSourceState();
+        },
+      });
+    }
 
     const hintEl = footerEl.createDiv({ cls: "ss-studio-node-json-composer-hint" });
     hintEl.setText("Choose value type per row. HTML rows support source/preview. Use raw for advanced nested JSON.");
@@ -1080,7 +1107,7 @@ export function renderJsonNodeEditor(options: RenderStudioJsonNodeEditorOptions)
       nodeEl,
       node,
       nodeRunState,
-      configuredValue: readJsonNodeEditorValue(node, nodeRunState),
+      configuredValue: readJsonNodeEditorValue(node, nodeRunState, target),
     });
   }
 
@@ -85,6 +85,7 @@ export function renderStudioGraphNodeCard(options: RenderStudioGraphNodeCardOpti
   nodeEl.classList.toggle("is-detail-collapsed", nodeDetailMode === "collapsed");
   nodeEl.classList.toggle("is-selected", graphInteraction.isNodeSelected(node.id));
   nodeEl.classList.toggle("is-managed-pending", isPlaceholder);
+  nodeEl.classList.toggle("is-run-skipped", nodeRunState.status === "skipped");
   graphInteraction.registerNodeElement(node.id, nodeEl);
 
   bindNodeCardPointerDown({
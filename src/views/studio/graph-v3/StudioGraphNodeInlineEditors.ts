@@ -5,6 +5,10 @@ import type {
   StudioNodeDefinition,
   StudioNodeInstance,
 } from "../../../studio/types";
+import {
+  TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY,
+  isStructuredOutputMode,
+} from "../../../studio/nodes/structuredOutput";
 import type { StudioGraphNodeMutationOptions } from "./StudioGraphNodeCardTypes";
 import type { StudioNodeRunDisplayState } from "../StudioRunPresentationState";
 import type { StudioNodeDetailMode } from "./StudioGraphNodeDetailMode";
@@ -237,20 +241,32 @@ function renderNodeSpecificInlineConfig(options: RenderStudioNodeInlineEditorOpt
   }
 
   if (kind === "studio.text_generation") {
-    return renderInlineConfigPanel({
+    const rendered = renderInlineConfigPanel({
       nodeEl,
       node,
       definition,
-      orderedFieldKeys: ["systemPrompt"],
+      orderedFieldKeys: ["systemPrompt", "outputMode"],
       interactionLocked,
       onNodeConfigMutated,
       onNodeConfigValueChange,
       panelClassName: "ss-studio-node-inline-config--text-generation",
-      hiddenFieldKeys,
+      hiddenFieldKeys: new Set([...hiddenFieldKeys, TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY]),
       showFieldHelp,
       pathBrowseOptions,
       resolveDynamicSelectOptions,
     });
+    // Switching the output mode changes the node's ports, which re-renders
+    // the card, so the schema editor only needs to follow the saved mode.
+    if (isStructuredOutputMode(node.config)) {
+      renderJsonNodeEditor({
+        ...options,
+        configKey: TEXT_GENERATION_OUTPUT_SCHEMA_CONFIG_KEY,
+        label: "Output schema",
+        showOutputPreview: false,
+      });
+      return true;
+    }
+    return rendered;
   }
 
   if (kind === "studio.dataset") {
@@ -0,0 +1,48 @@
+import { describeStudioRunTrigger } from "../../../studio/StudioProjectTriggers";
+import type { StudioRunQueueEntry, StudioRunSummary } from "../../../studio/types";
+
+const MAX_RECENT_RUNS = 3;
+
+function formatRunTime(iso: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  return date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Running and queued runs for the open project, or its latest runs when the
+ * queue is empty, each labelled with the trigger that started it.
+ */
+export function renderStudioGraphRunQueue(
+  container: HTMLElement,
+  entries: readonly StudioRunQueueEntry[],
+  recentRuns: readonly StudioRunSummary[]
+): void {
+  container.empty();
+  const recent = entries.length > 0 ? [] : recentRuns.slice(0, MAX_RECENT_RUNS);
+  container.toggleClass("is-empty", entries.length === 0 && recent.length === 0);
+  container.toggleClass("is-active", entries.length > 0);
+
+  for (const entry of entries) {
+    const row = container.createDiv({ cls: `ss-studio-graph-run-queue-row is-${entry.state}` });
+    row.createSpan({
+      cls: "ss-studio-graph-run-queue-state",
+      text: entry.state === "running" ? "Running" : "Queued",
+    });
+    row.createSpan({ cls: "ss-studio-graph-run-queue-label", text: describeStudioRunTrigger(entry.trigger) });
+  }
+
+  for (const run of recent) {
+    const row = container.createDiv({ cls: `ss-studio-graph-run-queue-row is-${run.status}` });
+    row.createSpan({ cls: "ss-studio-graph-run-queue-state", text: formatRunTime(run.startedAt) });
+    const label = row.createSpan({
+      cls: "ss-studio-graph-run-queue-label",
+      text: `${describeStudioRunTrigger(run.trigger)} · ${run.status}`,
+    });
+    if (run.error) {
+      label.setAttr("title", run.error);
+    }
+  }
+}
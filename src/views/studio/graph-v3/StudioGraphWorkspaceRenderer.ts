@@ -75,6 +75,8 @@ export type StudioGraphWorkspaceRendererOptions = {
     title: string;
   }) => void;
   onRunGraph: () => void;
+  onOpenTriggers?: () => void;
+  onOpenRunHistory?: () => void;
   onOpenAddNodeMenuAtViewportCenter: () => void;
   onZoomIn: () => void;
   onZoomOut: () => void;
@@ -139,6 +141,7 @@ export type StudioGraphWorkspaceRendererOptions = {
 
 export type StudioGraphWorkspaceRenderResult = {
   viewportEl: HTMLElement | null;
+  runQueueEl: HTMLElement | null;
 };
 
 export function renderStudioGraphWorkspace(
@@ -156,6 +159,8 @@ export function renderStudioGraphWorkspace(
     resolveAssetPreviewSrc,
     onOpenMediaPreview,
     onRunGraph,
+    onOpenTriggers,
+    onOpenRunHistory,
     onOpenAddNodeMenuAtViewportCenter,
     onZoomIn,
     onZoomOut,
@@ -200,7 +205,7 @@ export function renderStudioGraphWorkspace(
       text: "Open a .systemsculpt file from the left file explorer to edit this graph.",
       cls: "ss-studio-muted",
     });
-    return { viewportEl: null };
+    return { viewportEl: null, runQueueEl: null };
   }
 
   const viewport = editor.createDiv({ cls: "ss-studio-graph-viewport" });
@@ -307,6 +312,27 @@ export function renderStudioGraphWorkspace(
     },
   });
 
+  if (onOpenTriggers) {
+    const triggerCount = currentProject.settings.triggers?.filter((trigger) => trigger.enabled).length ?? 0;
+    createStudioWorkspaceControl(controls, {
+      label: triggerCount > 0 ? `Triggers ${triggerCount}` : "Triggers",
+      testId: "studio.workspace.triggers",
+      ariaLabel: "Edit project triggers",
+      title: "Run this project on a schedule, on file changes, or when a tag is added",
+      onSelect: onOpenTriggers,
+    });
+  }
+
+  if (onOpenRunHistory) {
+    createStudioWorkspaceControl(controls, {
+      label: "History",
+      testId: "studio.workspace.run-history",
+      ariaLabel: "Open run history",
+      title: "Browse past runs, compare their outputs, or restore the graph a run used",
+      onSelect: onOpenRunHistory,
+    });
+  }
+
   createStudioWorkspaceControl(controls, {
     label: "Add",
     testId: "studio.workspace.add-node",
@@ -364,6 +390,8 @@ export function renderStudioGraphWorkspace(
     onSelect: onToggleNodeDetailMode,
   });
 
+  const runQueueEl = editor.createDiv({ cls: "ss-studio-graph-run-queue is-empty" });
+
   canvas.addEventListener("click", (event) => {
     graphInteraction.handleCanvasBackgroundClick(event.target as HTMLElement);
   });
@@ -437,5 +465,5 @@ export function renderStudioGraphWorkspace(
   graphInteraction.refreshNodeSelectionClasses();
   graphInteraction.applyGraphZoom();
   graphInteraction.refreshSelectionResizeFrame();
-  return { viewportEl: viewport };
+  return { viewportEl: viewport, runQueueEl };
 }